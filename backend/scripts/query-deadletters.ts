@@ -3,7 +3,8 @@
  * Query Dead-Letter Records
  *
  * Admin utility script to retrieve and display dead-letter records by time range.
- * Useful for debugging and analyzing failed world events.
+ * Useful for debugging and analyzing failed world events. To redrive records, use
+ * POST /api/world/events/deadletters/redrive.
  *
  * Usage:
  *   npm run query:deadletters -- --start "2025-10-31T00:00:00Z" --end "2025-10-31T23:59:59Z"
@@ -141,6 +142,14 @@ function formatRecord(record: DeadLetterRecord): string {
         lines.push(``)
     }
 
+    if (record.redriveAttempts && record.redriveAttempts.length > 0) {
+        lines.push(`Redrive Attempts:`)
+        for (const attempt of record.redriveAttempts) {
+            lines.push(`  - ${attempt.attemptedUtc} ${attempt.outcome}${attempt.eventId ? ` (event ${attempt.eventId})` : ''}`)
+        }
+        lines.push(``)
+    }
+
     lines.push(`Redacted Envelope:`)
     lines.push(JSON.stringify(record.redactedEnvelope, null, 2))
     lines.push(``)
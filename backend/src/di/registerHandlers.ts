@@ -3,12 +3,14 @@ import type { Container } from 'inversify'
 import { AgentProposeHandler } from '../handlers/agentPropose.js'
 import { BootstrapPlayerHandler } from '../handlers/bootstrapPlayer.js'
 import { ContainerHealthHandler } from '../handlers/containerHealth.js'
+import { ExecutePlayerCommandHandler } from '../handlers/executePlayerCommand.js'
 import { GenerateAreaHandler } from '../handlers/generateArea.js'
 import { GetExitsHandler } from '../handlers/getExits.js'
 import { GetPromptTemplateHandler } from '../handlers/getPromptTemplate.js'
 import { GremlinHealthHandler } from '../handlers/gremlinHealth.js'
 import { HealthHandler } from '../handlers/health.js'
 import { LinkRoomsHandler } from '../handlers/linkRooms.js'
+import { LocationHistoryHandler } from '../handlers/locationHistory.js'
 import { LocationLookHandler } from '../handlers/locationLook.js'
 import { IntentParserHandler } from '../handlers/mcp/intent-parser/intent-parser.js'
 import { LoreMemoryHandler } from '../handlers/mcp/lore-memory/lore-memory.js'
@@ -18,14 +20,40 @@ import { WorldOperationsHandler } from '../handlers/mcp/world-operations/world-o
 import { MoveHandler } from '../handlers/moveCore.js'
 import { PingHandler } from '../handlers/ping.js'
 import { SimplePingHandler } from '../handlers/pingSimple.js'
+import { PlayerAttackHandler, PlayerDefendHandler, PlayerFleeHandler } from '../handlers/playerCombat.js'
 import { PlayerCreateHandler } from '../handlers/playerCreate.js'
+import { PlayerDropHandler } from '../handlers/playerDrop.js'
+import { PlayerLockHandler, PlayerUnlockHandler } from '../handlers/playerExitLock.js'
 import { PlayerGetHandler } from '../handlers/playerGet.js'
+import { PlayerInventoryAddHandler } from '../handlers/playerInventoryAdd.js'
+import { PlayerInventoryGetHandler } from '../handlers/playerInventoryGet.js'
+import { PlayerInventoryRemoveHandler } from '../handlers/playerInventoryRemove.js'
+import { PlayerChatHistoryHandler, PlayerSayHandler, PlayerShoutHandler, PlayerWhisperHandler } from '../handlers/playerChat.js'
+import { PlayerEventsHandler } from '../handlers/playerEvents.js'
+import { PlayerQuestsHandler } from '../handlers/playerQuests.js'
+import { PlayerClarificationDiscardHandler } from '../handlers/playerClarificationDiscard.js'
+import { PlayerDiscoveriesHandler } from '../handlers/playerDiscoveries.js'
+import { GetPlayerVerbosityHandler, SetPlayerVerbosityHandler } from '../handlers/playerVerbosity.js'
+import { GetPlayerPreferencesHandler, UpdatePlayerPreferencesHandler } from '../handlers/playerPreferences.js'
 import { PlayerLinkHandler } from '../handlers/playerLink.js'
 import { PlayerMoveHandler } from '../handlers/playerMove.js'
+import { PlayerStatusHandler } from '../handlers/playerStatus.js'
+import { PlayerTakeHandler } from '../handlers/playerTake.js'
+import { PlayerTalkHandler } from '../handlers/playerTalk.js'
+import { PlayerTravelHandler } from '../handlers/playerTravel.js'
+import { PlayerRestHandler, PlayerSleepHandler, PlayerWaitHandler } from '../handlers/playerWait.js'
 import { ResolvePlayerCommandHandler } from '../handlers/resolvePlayerCommand.js'
 import { QueueProcessExitGenerationHintHandler } from '../handlers/queueProcessExitGenerationHint.js'
 import { QueueSyncLocationAnchorsHandler } from '../handlers/queueSyncLocationAnchors.js'
-import { WorldGraphHandler } from '../handlers/worldGraph.js'
+import { GetDeadLetterHandler, ListDeadLettersHandler, RedriveDeadLettersHandler } from '../handlers/worldDeadLetters.js'
+import { PlayerWorldGraphHandler, WorldGraphHandler } from '../handlers/worldGraph.js'
+import { WorldPlayersHandler } from '../handlers/worldPlayers.js'
+import {
+    CancelScheduledWorldEventHandler,
+    ListScheduledWorldEventsHandler,
+    RescheduleWorldEventHandler,
+    ScheduleWorldEventHandler
+} from '../handlers/worldScheduledEvents.js'
 import { QueueProcessWorldEventHandler } from '../worldEvents/queueProcessWorldEvent.js'
 
 export const HANDLER_CLASSES = [
@@ -42,12 +70,42 @@ export const HANDLER_CLASSES = [
 
     PlayerLinkHandler,
     PlayerMoveHandler,
+    PlayerTakeHandler,
+    PlayerDropHandler,
+    PlayerTalkHandler,
+    PlayerLockHandler,
+    PlayerUnlockHandler,
+    PlayerInventoryGetHandler,
+    PlayerInventoryAddHandler,
+    PlayerInventoryRemoveHandler,
+    PlayerQuestsHandler,
+    PlayerEventsHandler,
+    PlayerSayHandler,
+    PlayerShoutHandler,
+    PlayerWhisperHandler,
+    PlayerChatHistoryHandler,
+    PlayerDiscoveriesHandler,
+    GetPlayerVerbosityHandler,
+    SetPlayerVerbosityHandler,
+    GetPlayerPreferencesHandler,
+    UpdatePlayerPreferencesHandler,
+    PlayerAttackHandler,
+    PlayerDefendHandler,
+    PlayerFleeHandler,
+    PlayerStatusHandler,
+    PlayerWaitHandler,
+    PlayerRestHandler,
+    PlayerSleepHandler,
+    PlayerTravelHandler,
     ResolvePlayerCommandHandler,
+    ExecutePlayerCommandHandler,
+    PlayerClarificationDiscardHandler,
     PingHandler,
     HealthHandler,
     GremlinHealthHandler,
     SimplePingHandler,
     LocationLookHandler,
+    LocationHistoryHandler,
     GetExitsHandler,
     GetPromptTemplateHandler,
     LinkRoomsHandler,
@@ -56,6 +114,15 @@ export const HANDLER_CLASSES = [
     ContainerHealthHandler,
     GenerateAreaHandler,
     WorldGraphHandler,
+    PlayerWorldGraphHandler,
+    WorldPlayersHandler,
+    ListScheduledWorldEventsHandler,
+    ScheduleWorldEventHandler,
+    RescheduleWorldEventHandler,
+    CancelScheduledWorldEventHandler,
+    ListDeadLettersHandler,
+    GetDeadLetterHandler,
+    RedriveDeadLettersHandler,
 
     // Queue handlers
     QueueProcessWorldEventHandler,
@@ -1,6 +1,6 @@
 import type { InvocationContext } from '@azure/functions'
 import { ServiceBusClient } from '@azure/service-bus'
-import { PromptTemplateRepository, type IClock, type IPromptTemplateRepository } from '@piquet-h/shared'
+import { PromptLoader, PromptTemplateRepository, type IClock, type IPromptTemplateRepository } from '@piquet-h/shared'
 import type { WorldEventEnvelope } from '@piquet-h/shared/events'
 import type { Container } from 'inversify'
 import { AzureCredentialFactory, type IAzureCredentialFactory } from '../auth/azureCredentialFactory.js'
@@ -28,16 +28,39 @@ import {
     type AzureOpenAIClientConfig,
     type IAzureOpenAIClient
 } from '../services/azureOpenAIClient.js'
+import { DeadLetterRedriveService } from '../services/DeadLetterRedriveService.js'
 import { DescriptionComposer } from '../services/descriptionComposer.js'
+import { ExitLockService } from '../services/ExitLockService.js'
 import { ExitDescriptionService, type IExitDescriptionService } from '../services/ExitDescriptionService.js'
 import { HeroProseGenerator } from '../services/heroProseGenerator.js'
+import { ChatService } from '../services/ChatService.js'
+import { CommandClarificationService } from '../services/CommandClarificationService.js'
+import { InventoryService } from '../services/InventoryService.js'
+import { DescriptionVerbosityService } from '../services/DescriptionVerbosityService.js'
+import { DiscoveryService } from '../services/DiscoveryService.js'
+import { LiveEventService } from '../services/LiveEventService.js'
+import { LocationLookService } from '../services/LocationLookService.js'
 import { LocationClockManager } from '../services/LocationClockManager.js'
+import { InMemoryLocationEventBroker, type ILocationEventBroker } from '../services/locationEventBroker.js'
+import { MovementService } from '../services/MovementService.js'
+import { NpcBehaviorService } from '../services/NpcBehaviorService.js'
+import { CombatService } from '../services/CombatService.js'
+import { NpcDialogueService } from '../services/NpcDialogueService.js'
 import { PlayerClockService } from '../services/PlayerClockService.js'
+import { PlayerPreferencesService } from '../services/PlayerPreferencesService.js'
+import { PresenceService } from '../services/PresenceService.js'
+import { QuestProgressService } from '../services/QuestProgressService.js'
 import { RealmService } from '../services/RealmService.js'
 import { ReconcileEngine } from '../services/ReconcileEngine.js'
 import { TemporalProximityService, type ITemporalProximityService } from '../services/temporalProximityService.js'
+import { TravelService } from '../services/TravelService.js'
 import type { IWorldClockService } from '../services/types.js'
+import { WaitService } from '../services/WaitService.js'
+import { WeatherService } from '../services/WeatherService.js'
 import { WorldClockService } from '../services/WorldClockService.js'
+import { WorldConditionsService } from '../services/WorldConditionsService.js'
+import { WorldEventSchedulerService } from '../services/WorldEventSchedulerService.js'
+import { WorldEventTimelineService } from '../services/WorldEventTimelineService.js'
 import { TelemetryService } from '../telemetry/TelemetryService.js'
 import { QueueProcessWorldEventHandler } from '../worldEvents/queueProcessWorldEvent.js'
 import {
@@ -92,6 +115,21 @@ export function registerCoreServices(container: Container): void {
     container.bind(AreaGenerationOrchestrator).toSelf().inSingletonScope()
     container.bind(AgentProposalApplicator).toSelf().inSingletonScope()
     container.bind(AgentReplayHarness).toSelf().inSingletonScope()
+    container.bind(MovementService).toSelf().inSingletonScope()
+    container.bind(LocationLookService).toSelf().inSingletonScope()
+    container.bind(InventoryService).toSelf().inSingletonScope()
+    container.bind(ExitLockService).toSelf().inSingletonScope()
+    container.bind(NpcBehaviorService).toSelf().inSingletonScope()
+    container.bind(NpcDialogueService).toSelf().inSingletonScope()
+    container.bind(CommandClarificationService).toSelf().inSingletonScope()
+    container.bind(QuestProgressService).toSelf().inSingletonScope()
+    container.bind(PresenceService).toSelf().inSingletonScope()
+    container.bind(LiveEventService).toSelf().inSingletonScope()
+    container.bind(ChatService).toSelf().inSingletonScope()
+    container.bind(DiscoveryService).toSelf().inSingletonScope()
+    container.bind(DescriptionVerbosityService).toSelf().inSingletonScope()
+    container.bind(PlayerPreferencesService).toSelf().inSingletonScope()
+    container.bind(CombatService).toSelf().inSingletonScope()
 
     // AI Description Service (depends on AzureOpenAIClient and LayerRepository)
     container.bind<IAIDescriptionService>(TOKENS.AIDescriptionService).to(AIDescriptionService).inSingletonScope()
@@ -99,6 +137,9 @@ export function registerCoreServices(container: Container): void {
     // Exit Description Service (scaffold + optional AI garnish)
     container.bind<IExitDescriptionService>(TOKENS.ExitDescriptionService).to(ExitDescriptionService).inSingletonScope()
 
+    // Location Event Broker: live events reach streams held by this host instance
+    container.bind<ILocationEventBroker>(TOKENS.LocationEventBroker).to(InMemoryLocationEventBroker).inSingletonScope()
+
     // World Event Publisher: use Service Bus when configured, in-memory otherwise
     container
         .bind<IWorldEventPublisher>(TOKENS.WorldEventPublisher)
@@ -207,10 +248,27 @@ export function registerCoreServices(container: Container): void {
     container.bind<IWorldClockService>(TOKENS.WorldClockService).to(WorldClockService).inSingletonScope()
     container.bind(WorldClockService).toSelf().inSingletonScope()
 
+    // Per-zone weather simulation (realm-scoped weather layers over world clock ticks)
+    container.bind(WeatherService).toSelf().inSingletonScope()
+    // Time of day, lighting and weather a location is described in
+    container.bind(WorldConditionsService).toSelf().inSingletonScope()
+    // Future-dated world events, dispatched by the scheduler job
+    container.bind(WorldEventSchedulerService).toSelf().inSingletonScope()
+    // Durable timeline of processed world events (location / player / realm scopes)
+    container.bind(WorldEventTimelineService).toSelf().inSingletonScope()
+    // Operator inspection and redrive of dead-lettered world events
+    container.bind(DeadLetterRedriveService).toSelf().inSingletonScope()
+
     container.bind(ReconcileEngine).toSelf().inSingletonScope()
 
+    // wait / rest / sleep commands (player clock → ledger → reconcile against the location anchor)
+    container.bind(WaitService).toSelf().inSingletonScope()
+
     // Temporal proximity service (graph BFS over exit edges)
     container.bind<ITemporalProximityService>(TOKENS.TemporalProximityService).to(TemporalProximityService).inSingletonScope()
+
+    // travel to <place> (fastest known route over exit edges, walked leg by leg)
+    container.bind(TravelService).toSelf().inSingletonScope()
 }
 
 export function registerClock(container: Container, createClock: () => IClock): void {
@@ -227,6 +285,12 @@ export function registerPromptTemplateRepository(container: Container): void {
         .bind<IPromptTemplateRepository>(TOKENS.PromptTemplateRepository)
         .toDynamicValue(() => new PromptTemplateRepository({ ttlMs: promptCache.ttlMs }))
         .inSingletonScope()
+
+    // File-based templates (shared/src/prompts/templates/*.json), e.g. npc-dialogue-generator
+    container
+        .bind<PromptLoader>(TOKENS.PromptLoader)
+        .toDynamicValue(() => new PromptLoader({ cacheTtlMs: promptCache.ttlMs }))
+        .inSingletonScope()
 }
 
 export function registerAzureOpenAI(container: Container): void {
@@ -4,14 +4,18 @@ import { AgentStepHandler } from '../worldEvents/handlers/AgentStepHandler.js'
 import { BatchGenerateHandler } from '../worldEvents/handlers/BatchGenerateHandler.js'
 import { EnvironmentChangeHandler } from '../worldEvents/handlers/EnvironmentChangeHandler.js'
 import { ExitCreateHandler } from '../worldEvents/handlers/ExitCreateHandler.js'
+import { ExitLockChangedHandler } from '../worldEvents/handlers/ExitLockChangedHandler.js'
 import { NPCTickHandler } from '../worldEvents/handlers/NPCTickHandler.js'
+import { QuestProposedHandler } from '../worldEvents/handlers/QuestProposedHandler.js'
 
 export const WORLD_EVENT_HANDLER_CLASSES = [
     ExitCreateHandler,
+    ExitLockChangedHandler,
     NPCTickHandler,
     EnvironmentChangeHandler,
     BatchGenerateHandler,
-    AgentStepHandler
+    AgentStepHandler,
+    QuestProposedHandler
 ] as const
 
 /**
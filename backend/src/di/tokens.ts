@@ -11,6 +11,7 @@ export const TOKENS = {
     TelemetryClient: 'ITelemetryClient',
     Clock: 'IClock',
     PromptTemplateRepository: 'IPromptTemplateRepository',
+    PromptLoader: 'PromptLoader',
     AzureCredentialFactory: 'IAzureCredentialFactory',
 
     // Gremlin
@@ -38,6 +39,14 @@ export const TOKENS = {
     WorldClockRepository: 'IWorldClockRepository',
     LocationClockRepository: 'ILocationClockRepository',
     LoreRepository: 'ILoreRepository',
+    WorldItemRepository: 'IWorldItemRepository',
+    NpcRepository: 'INpcRepository',
+    DialogueSessionRepository: 'IDialogueSessionRepository',
+    QuestRepository: 'IQuestRepository',
+    PendingClarificationRepository: 'IPendingClarificationRepository',
+    PlayerPresenceRepository: 'IPlayerPresenceRepository',
+    ChatMessageRepository: 'IChatMessageRepository',
+    DiscoveryRepository: 'IDiscoveryRepository',
 
     // Services
     TemporalProximityService: 'ITemporalProximityService',
@@ -48,6 +57,7 @@ export const TOKENS = {
     AIDescriptionService: 'IAIDescriptionService',
     ExitDescriptionService: 'IExitDescriptionService',
     WorldEventPublisher: 'IWorldEventPublisher',
+    LocationEventBroker: 'ILocationEventBroker',
     ExitGenerationHintPublisher: 'IExitGenerationHintPublisher',
     LocationAnchorSyncPublisher: 'ILocationAnchorSyncPublisher',
 
@@ -55,11 +65,20 @@ export const TOKENS = {
     CosmosContainerLayers: 'CosmosContainer:Layers',
     CosmosContainerEvents: 'CosmosContainer:Events',
     CosmosContainerDeadLetters: 'CosmosContainer:DeadLetters',
+    CosmosContainerDeadLetterRedrive: 'CosmosContainer:DeadLetterRedrive',
     CosmosContainerProcessedEvents: 'CosmosContainer:ProcessedEvents',
     CosmosContainerExitHintDebounce: 'CosmosContainer:ExitHintDebounce',
     CosmosContainerTemporalLedger: 'CosmosContainer:TemporalLedger',
     CosmosContainerWorldClock: 'CosmosContainer:WorldClock',
     CosmosContainerLoreFacts: 'CosmosContainer:LoreFacts',
+    CosmosContainerWorldItems: 'CosmosContainer:WorldItems',
+    CosmosContainerNpcs: 'CosmosContainer:Npcs',
+    CosmosContainerDialogueSessions: 'CosmosContainer:DialogueSessions',
+    CosmosContainerQuests: 'CosmosContainer:Quests',
+    CosmosContainerPendingClarifications: 'CosmosContainer:PendingClarifications',
+    CosmosContainerPlayerPresence: 'CosmosContainer:PlayerPresence',
+    CosmosContainerChatMessages: 'CosmosContainer:ChatMessages',
+    CosmosContainerDiscoveries: 'CosmosContainer:Discoveries',
 
     ExitHintDebounceWindowMs: 'ExitHintDebounceWindowMs'
 } as const
@@ -0,0 +1,10 @@
+import { app } from '@azure/functions'
+import { handleLocationHistory } from '../handlers/locationHistory.js'
+
+// HISTORY: What happened at a location, newest first (world event timeline)
+app.http('LocationHistory', {
+    route: 'location/{locationId}/history',
+    methods: ['GET'],
+    authLevel: 'anonymous',
+    handler: handleLocationHistory
+})
@@ -0,0 +1,10 @@
+import { app } from '@azure/functions'
+import { handlePlayerAttack } from '../handlers/playerCombat.js'
+
+// ATTACK command: Resolves one deterministic combat round against a co-located NPC (Combat.Round)
+app.http('PlayerAttack', {
+    route: 'player/{playerId}/attack',
+    methods: ['POST'],
+    authLevel: 'anonymous',
+    handler: handlePlayerAttack
+})
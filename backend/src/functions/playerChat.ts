@@ -0,0 +1,10 @@
+import { app } from '@azure/functions'
+import { handlePlayerChatHistory } from '../handlers/playerChat.js'
+
+// Recent conversation (says and shouts) at the player's location, for players who just arrived
+app.http('PlayerChatHistory', {
+    route: 'player/{playerId}/chat',
+    methods: ['GET'],
+    authLevel: 'anonymous',
+    handler: handlePlayerChatHistory
+})
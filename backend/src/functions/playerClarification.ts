@@ -0,0 +1,10 @@
+import { app } from '@azure/functions'
+import { handlePlayerClarificationDiscard } from '../handlers/playerClarificationDiscard.js'
+
+// CLARIFICATION: Drop the open follow-up question when the client runs a command of its own
+app.http('PlayerClarificationDiscard', {
+    route: 'player/{playerId}/clarification',
+    methods: ['DELETE'],
+    authLevel: 'anonymous',
+    handler: handlePlayerClarificationDiscard
+})
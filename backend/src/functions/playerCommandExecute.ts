@@ -0,0 +1,9 @@
+import { app } from '@azure/functions'
+import { handleExecutePlayerCommand } from '../handlers/executePlayerCommand.js'
+
+app.http('ExecutePlayerCommand', {
+    route: 'player/{playerId}/command',
+    methods: ['POST'],
+    authLevel: 'anonymous',
+    handler: handleExecutePlayerCommand
+})
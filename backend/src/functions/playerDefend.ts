@@ -0,0 +1,10 @@
+import { app } from '@azure/functions'
+import { handlePlayerDefend } from '../handlers/playerCombat.js'
+
+// DEFEND command: Guards for one combat round, raising armor class against the counterattack (Combat.Round)
+app.http('PlayerDefend', {
+    route: 'player/{playerId}/defend',
+    methods: ['POST'],
+    authLevel: 'anonymous',
+    handler: handlePlayerDefend
+})
@@ -0,0 +1,10 @@
+import { app } from '@azure/functions'
+import { handlePlayerDiscoveries } from '../handlers/playerDiscoveries.js'
+
+// DISCOVERIES: The player's discovery journal (locations seen, first sighting, visit count)
+app.http('PlayerDiscoveries', {
+    route: 'player/{playerId}/discoveries',
+    methods: ['GET'],
+    authLevel: 'anonymous',
+    handler: handlePlayerDiscoveries
+})
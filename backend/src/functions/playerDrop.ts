@@ -0,0 +1,10 @@
+import { app } from '@azure/functions'
+import { handlePlayerDrop } from '../handlers/playerDrop.js'
+
+// DROP command: Moves an item from the player's inventory into their current location
+app.http('PlayerDrop', {
+    route: 'player/{playerId}/drop',
+    methods: ['POST'],
+    authLevel: 'anonymous',
+    handler: handlePlayerDrop
+})
@@ -0,0 +1,10 @@
+import { app } from '@azure/functions'
+import { handlePlayerEvents } from '../handlers/playerEvents.js'
+
+// EVENTS: Live location events (server-sent events) at the player's current location
+app.http('PlayerEvents', {
+    route: 'player/{playerId}/events',
+    methods: ['GET'],
+    authLevel: 'anonymous',
+    handler: handlePlayerEvents
+})
@@ -0,0 +1,10 @@
+import { app } from '@azure/functions'
+import { handlePlayerFlee } from '../handlers/playerCombat.js'
+
+// FLEE command: Tries to break off the current encounter through an unlocked exit (Combat.Round)
+app.http('PlayerFlee', {
+    route: 'player/{playerId}/flee',
+    methods: ['POST'],
+    authLevel: 'anonymous',
+    handler: handlePlayerFlee
+})
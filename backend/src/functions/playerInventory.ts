@@ -0,0 +1,28 @@
+import { app } from '@azure/functions'
+import { handlePlayerInventoryAdd } from '../handlers/playerInventoryAdd.js'
+import { handlePlayerInventoryGet } from '../handlers/playerInventoryGet.js'
+import { handlePlayerInventoryRemove } from '../handlers/playerInventoryRemove.js'
+
+// INVENTORY: List carried items (includes inventoryVersion for optimistic concurrency)
+app.http('PlayerInventoryGet', {
+    route: 'player/{playerId}/inventory',
+    methods: ['GET'],
+    authLevel: 'anonymous',
+    handler: handlePlayerInventoryGet
+})
+
+// INVENTORY: Add an item lying at the player's location
+app.http('PlayerInventoryAdd', {
+    route: 'player/{playerId}/inventory',
+    methods: ['POST'],
+    authLevel: 'anonymous',
+    handler: handlePlayerInventoryAdd
+})
+
+// INVENTORY: Remove an item (placed at the player's location)
+app.http('PlayerInventoryRemove', {
+    route: 'player/{playerId}/inventory/{itemId}',
+    methods: ['DELETE'],
+    authLevel: 'anonymous',
+    handler: handlePlayerInventoryRemove
+})
@@ -0,0 +1,10 @@
+import { app } from '@azure/functions'
+import { handlePlayerLock } from '../handlers/playerExitLock.js'
+
+// LOCK command: Locks an exit at the player's current location with a carried key (World.Exit.LockChanged)
+app.http('PlayerLock', {
+    route: 'player/{playerId}/lock',
+    methods: ['POST'],
+    authLevel: 'anonymous',
+    handler: handlePlayerLock
+})
@@ -0,0 +1,17 @@
+import { app } from '@azure/functions'
+import { handleGetPlayerPreferences, handleUpdatePlayerPreferences } from '../handlers/playerPreferences.js'
+
+// PREFERENCES: Settings page choices, synced across the player's devices
+app.http('PlayerPreferencesGet', {
+    route: 'player/{playerId}/preferences',
+    methods: ['GET'],
+    authLevel: 'anonymous',
+    handler: handleGetPlayerPreferences
+})
+
+app.http('PlayerPreferencesUpdate', {
+    route: 'player/{playerId}/preferences',
+    methods: ['PATCH'],
+    authLevel: 'anonymous',
+    handler: handleUpdatePlayerPreferences
+})
@@ -0,0 +1,10 @@
+import { app } from '@azure/functions'
+import { handlePlayerQuests } from '../handlers/playerQuests.js'
+
+// QUESTS: The player's quest journal (objectives and progress)
+app.http('PlayerQuests', {
+    route: 'player/{playerId}/quests',
+    methods: ['GET'],
+    authLevel: 'anonymous',
+    handler: handlePlayerQuests
+})
@@ -0,0 +1,10 @@
+import { app } from '@azure/functions'
+import { handlePlayerRest } from '../handlers/playerWait.js'
+
+// REST command: Spends time in place and recovers hit points in proportion to the time rested
+app.http('PlayerRest', {
+    route: 'player/{playerId}/rest',
+    methods: ['POST'],
+    authLevel: 'anonymous',
+    handler: handlePlayerRest
+})
@@ -0,0 +1,10 @@
+import { app } from '@azure/functions'
+import { handlePlayerSay } from '../handlers/playerChat.js'
+
+// SAY command: Says something to everyone at the player's location
+app.http('PlayerSay', {
+    route: 'player/{playerId}/say',
+    methods: ['POST'],
+    authLevel: 'anonymous',
+    handler: handlePlayerSay
+})
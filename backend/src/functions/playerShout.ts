@@ -0,0 +1,10 @@
+import { app } from '@azure/functions'
+import { handlePlayerShout } from '../handlers/playerChat.js'
+
+// SHOUT command: Calls out to the location and to places a few exits away
+app.http('PlayerShout', {
+    route: 'player/{playerId}/shout',
+    methods: ['POST'],
+    authLevel: 'anonymous',
+    handler: handlePlayerShout
+})
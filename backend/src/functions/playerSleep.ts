@@ -0,0 +1,10 @@
+import { app } from '@azure/functions'
+import { handlePlayerSleep } from '../handlers/playerWait.js'
+
+// SLEEP command: Sleeps through the night (8 hours by default), recovering hit points like rest
+app.http('PlayerSleep', {
+    route: 'player/{playerId}/sleep',
+    methods: ['POST'],
+    authLevel: 'anonymous',
+    handler: handlePlayerSleep
+})
@@ -0,0 +1,10 @@
+import { app } from '@azure/functions'
+import { handlePlayerStatus } from '../handlers/playerStatus.js'
+
+// STATUS: Player health and current combat encounter (status panel)
+app.http('PlayerStatus', {
+    route: 'player/{playerId}/status',
+    methods: ['GET'],
+    authLevel: 'anonymous',
+    handler: handlePlayerStatus
+})
@@ -0,0 +1,10 @@
+import { app } from '@azure/functions'
+import { handlePlayerTake } from '../handlers/playerTake.js'
+
+// TAKE command: Moves an item from the player's current location into their inventory
+app.http('PlayerTake', {
+    route: 'player/{playerId}/take',
+    methods: ['POST'],
+    authLevel: 'anonymous',
+    handler: handlePlayerTake
+})
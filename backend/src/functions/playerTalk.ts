@@ -0,0 +1,10 @@
+import { app } from '@azure/functions'
+import { handlePlayerTalk } from '../handlers/playerTalk.js'
+
+// TALK command: Speaks to an NPC at the player's current location (persisted per-player dialogue session)
+app.http('PlayerTalk', {
+    route: 'player/{playerId}/talk',
+    methods: ['POST'],
+    authLevel: 'anonymous',
+    handler: handlePlayerTalk
+})
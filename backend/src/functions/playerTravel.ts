@@ -0,0 +1,10 @@
+import { app } from '@azure/functions'
+import { handlePlayerTravel } from '../handlers/playerTravel.js'
+
+// TRAVEL command: Walks the fastest known route to a named location or landmark
+app.http('PlayerTravel', {
+    route: 'player/{playerId}/travel',
+    methods: ['POST'],
+    authLevel: 'anonymous',
+    handler: handlePlayerTravel
+})
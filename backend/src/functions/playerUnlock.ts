@@ -0,0 +1,10 @@
+import { app } from '@azure/functions'
+import { handlePlayerUnlock } from '../handlers/playerExitLock.js'
+
+// UNLOCK command: Unlocks an exit at the player's current location with a carried key (World.Exit.LockChanged)
+app.http('PlayerUnlock', {
+    route: 'player/{playerId}/unlock',
+    methods: ['POST'],
+    authLevel: 'anonymous',
+    handler: handlePlayerUnlock
+})
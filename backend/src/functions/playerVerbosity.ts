@@ -0,0 +1,17 @@
+import { app } from '@azure/functions'
+import { handleGetPlayerVerbosity, handleSetPlayerVerbosity } from '../handlers/playerVerbosity.js'
+
+// VERBOSITY: How much location prose arrivals show (verbose / brief / superbrief)
+app.http('PlayerVerbosityGet', {
+    route: 'player/{playerId}/verbosity',
+    methods: ['GET'],
+    authLevel: 'anonymous',
+    handler: handleGetPlayerVerbosity
+})
+
+app.http('PlayerVerbositySet', {
+    route: 'player/{playerId}/verbosity',
+    methods: ['PUT'],
+    authLevel: 'anonymous',
+    handler: handleSetPlayerVerbosity
+})
@@ -0,0 +1,10 @@
+import { app } from '@azure/functions'
+import { handlePlayerWait } from '../handlers/playerWait.js'
+
+// WAIT command: Spends time in place (player clock advanced, reconciled to the location anchor, narrated)
+app.http('PlayerWait', {
+    route: 'player/{playerId}/wait',
+    methods: ['POST'],
+    authLevel: 'anonymous',
+    handler: handlePlayerWait
+})
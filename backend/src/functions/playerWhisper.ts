@@ -0,0 +1,10 @@
+import { app } from '@azure/functions'
+import { handlePlayerWhisper } from '../handlers/playerChat.js'
+
+// WHISPER command: Says something to one player at the same location
+app.http('PlayerWhisper', {
+    route: 'player/{playerId}/whisper',
+    methods: ['POST'],
+    authLevel: 'anonymous',
+    handler: handlePlayerWhisper
+})
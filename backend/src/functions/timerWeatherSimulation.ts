@@ -0,0 +1,37 @@
+/**
+ * Azure Function: Weather Simulation (Timer Trigger)
+ *
+ * Scheduled job that advances the weather of every WEATHER_ZONE realm up to the current world clock tick
+ * (WeatherService.advance). Each run writes the realm-scoped weather layers of any spells that have begun
+ * since the last run; zones whose current spell is still running are left alone.
+ *
+ * Schedule format: NCRONTAB expression (6 fields: {second} {minute} {hour} {day} {month} {day-of-week})
+ * Default: "0 *\/10 * * * *" = Every 10 minutes
+ *
+ * Configuration (env vars):
+ * - WEATHER_JOB_SCHEDULE: NCRONTAB schedule expression (default: "0 *\/10 * * * *")
+ */
+import type { InvocationContext, Timer } from '@azure/functions'
+import { app } from '@azure/functions'
+import type { Container } from 'inversify'
+import { randomUUID } from 'node:crypto'
+import { WeatherService } from '../services/WeatherService.js'
+
+const SCHEDULE = process.env.WEATHER_JOB_SCHEDULE || '0 */10 * * * *'
+
+app.timer('timerWeatherSimulation', {
+    schedule: SCHEDULE,
+    handler: async (timer: Timer, context: InvocationContext): Promise<void> => {
+        context.log('Weather simulation timer triggered', {
+            schedule: SCHEDULE,
+            isPastDue: timer.isPastDue
+        })
+
+        // Get container from extraInputs (set by preInvocation hook in index.ts)
+        const container = context.extraInputs.get('container') as Container
+        const weather = container.get(WeatherService)
+
+        const summary = await weather.advance(randomUUID())
+        context.log('Weather simulation complete', summary)
+    }
+})
@@ -0,0 +1,38 @@
+/**
+ * Azure Function: World Event Scheduler (Timer Trigger)
+ *
+ * Scheduled job that publishes future-dated world events once they are due (WorldEventSchedulerService.dispatchDue).
+ * An event is due when its wall-clock time has passed or the world clock has reached its tick. Due events are
+ * sent to the world-events queue as WorldEventEnvelopes and marked dispatched; events that fail to publish are
+ * retried on the next run.
+ *
+ * Schedule format: NCRONTAB expression (6 fields: {second} {minute} {hour} {day} {month} {day-of-week})
+ * Default: "0 * * * * *" = Every minute
+ *
+ * Configuration (env vars):
+ * - WORLD_EVENT_SCHEDULER_SCHEDULE: NCRONTAB schedule expression (default: "0 * * * * *")
+ */
+import type { InvocationContext, Timer } from '@azure/functions'
+import { app } from '@azure/functions'
+import type { Container } from 'inversify'
+import { randomUUID } from 'node:crypto'
+import { WorldEventSchedulerService } from '../services/WorldEventSchedulerService.js'
+
+const SCHEDULE = process.env.WORLD_EVENT_SCHEDULER_SCHEDULE || '0 * * * * *'
+
+app.timer('timerWorldEventScheduler', {
+    schedule: SCHEDULE,
+    handler: async (timer: Timer, context: InvocationContext): Promise<void> => {
+        context.log('World event scheduler timer triggered', {
+            schedule: SCHEDULE,
+            isPastDue: timer.isPastDue
+        })
+
+        // Get container from extraInputs (set by preInvocation hook in index.ts)
+        const container = context.extraInputs.get('container') as Container
+        const scheduler = container.get(WorldEventSchedulerService)
+
+        const summary = await scheduler.dispatchDue(randomUUID())
+        context.log('World event scheduler complete', summary)
+    }
+})
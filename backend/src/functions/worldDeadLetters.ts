@@ -0,0 +1,24 @@
+import { app } from '@azure/functions'
+import { handleGetDeadLetter, handleListDeadLetters, handleRedriveDeadLetters } from '../handlers/worldDeadLetters.js'
+
+// DEAD LETTERS: operator inspection and redrive of world events that failed processing
+app.http('WorldDeadLettersList', {
+    route: 'world/events/deadletters',
+    methods: ['GET'],
+    authLevel: 'function',
+    handler: handleListDeadLetters
+})
+
+app.http('WorldDeadLettersGet', {
+    route: 'world/events/deadletters/{id}',
+    methods: ['GET'],
+    authLevel: 'function',
+    handler: handleGetDeadLetter
+})
+
+app.http('WorldDeadLettersRedrive', {
+    route: 'world/events/deadletters/redrive',
+    methods: ['POST'],
+    authLevel: 'function',
+    handler: handleRedriveDeadLetters
+})
@@ -1,14 +1,26 @@
 import { app } from '@azure/functions'
-import { getWorldGraphHandler } from '../handlers/worldGraph.js'
+import { getPlayerWorldGraphHandler, getWorldGraphHandler } from '../handlers/worldGraph.js'
 
 /**
- * HTTP endpoint to get the full world location graph.
- * GET /api/world/graph
+ * HTTP endpoint to get the requesting player's fog-of-war view of the world location graph.
+ * GET /api/world/graph (x-player-guid header required)
  * Returns { nodes: WorldGraphNode[], edges: WorldGraphEdge[] }
  */
 app.http('HttpWorldGraph', {
     route: 'world/graph',
     methods: ['GET'],
     authLevel: 'anonymous',
+    handler: getPlayerWorldGraphHandler
+})
+
+/**
+ * HTTP endpoint to get the full world location graph (operators).
+ * GET /api/world/graph/full
+ * Returns { nodes: WorldGraphNode[], edges: WorldGraphEdge[] }
+ */
+app.http('HttpWorldGraphFull', {
+    route: 'world/graph/full',
+    methods: ['GET'],
+    authLevel: 'function',
     handler: getWorldGraphHandler
 })
@@ -0,0 +1,10 @@
+import { app } from '@azure/functions'
+import { handleWorldPlayers } from '../handlers/worldPlayers.js'
+
+// WHO: Players online (seen recently) and where they are
+app.http('WorldPlayers', {
+    route: 'world/players',
+    methods: ['GET'],
+    authLevel: 'anonymous',
+    handler: handleWorldPlayers
+})
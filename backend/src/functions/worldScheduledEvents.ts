@@ -0,0 +1,36 @@
+import { app } from '@azure/functions'
+import {
+    handleCancelScheduledWorldEvent,
+    handleListScheduledWorldEvents,
+    handleRescheduleWorldEvent,
+    handleScheduleWorldEvent
+} from '../handlers/worldScheduledEvents.js'
+
+// SCHEDULED WORLD EVENTS: operator view of future-dated events (dispatched by timerWorldEventScheduler)
+app.http('WorldScheduledEventsList', {
+    route: 'world/events/scheduled',
+    methods: ['GET'],
+    authLevel: 'function',
+    handler: handleListScheduledWorldEvents
+})
+
+app.http('WorldScheduledEventsCreate', {
+    route: 'world/events/scheduled',
+    methods: ['POST'],
+    authLevel: 'function',
+    handler: handleScheduleWorldEvent
+})
+
+app.http('WorldScheduledEventsReschedule', {
+    route: 'world/events/scheduled/{eventId}',
+    methods: ['PATCH'],
+    authLevel: 'function',
+    handler: handleRescheduleWorldEvent
+})
+
+app.http('WorldScheduledEventsCancel', {
+    route: 'world/events/scheduled/{eventId}',
+    methods: ['DELETE'],
+    authLevel: 'function',
+    handler: handleCancelScheduledWorldEvent
+})
@@ -1,9 +1,10 @@
 import type { HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions'
-import type { PlayerBootstrapResponse, PlayerDoc } from '@piquet-h/shared'
+import { STARTER_LOCATION_ID, type PlayerBootstrapResponse, type PlayerDoc } from '@piquet-h/shared'
 import type { Container } from 'inversify'
 import { inject, injectable } from 'inversify'
 import type { IPlayerDocRepository } from '../repos/PlayerDocRepository.js'
 import type { IPlayerRepository } from '../repos/playerRepository.js'
+import { PresenceService } from '../services/PresenceService.js'
 import type { ITelemetryClient } from '../telemetry/ITelemetryClient.js'
 import { BaseHandler } from './base/BaseHandler.js'
 import { okResponse } from './utils/responseBuilder.js'
@@ -26,7 +27,8 @@ export class BootstrapPlayerHandler extends BaseHandler {
     constructor(
         @inject('ITelemetryClient') telemetry: ITelemetryClient,
         @inject('IPlayerRepository') private playerRepo: IPlayerRepository,
-        @inject('IPlayerDocRepository') private playerDocRepo: IPlayerDocRepository
+        @inject('IPlayerDocRepository') private playerDocRepo: IPlayerDocRepository,
+        @inject(PresenceService) private presence: PresenceService
     ) {
         super(telemetry)
     }
@@ -59,6 +61,9 @@ export class BootstrapPlayerHandler extends BaseHandler {
         }
         this.track('Onboarding.GuestGuid.Completed', { created: reportedCreated })
 
+        // A session start counts as being seen where the player last stood (non-blocking)
+        await this.presence.recordPresence(record, record.currentLocationId || STARTER_LOCATION_ID, 'bootstrap', this.correlationId)
+
         const body: PlayerBootstrapResponse = {
             playerGuid: record.id,
             created: reportedCreated,
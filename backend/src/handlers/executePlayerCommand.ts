@@ -0,0 +1,424 @@
+/**
+ * Execute Player Command Handler
+ *
+ * POST /api/player/{playerId}/command
+ *
+ * Runs a free-form (possibly multi-intent) command end to end: "go north then look" is planned into ordered
+ * steps and each step is run, one at a time, through the same service its single-command endpoint uses
+ * (MovementService, LocationLookService, InventoryService, NpcDialogueService, ExitLockService, CombatService,
+ * WaitService, TravelService). Step payloads, HTTP statuses and error codes are the ones the canonical endpoints
+ * return. Every step carries the request's correlation id, so the whole chain shares one correlation chain in
+ * telemetry and world events. Each step that runs is charged to the rate limiter of its canonical endpoint.
+ *
+ * The input is always planned here (planCommandChain), so the action intents written to world events are the
+ * server's own. The client may send the plan it already resolved (`steps` from POST /player/command); it is
+ * only checked against the server's plan, and a plan that differs is rejected rather than run.
+ *
+ * The chain stops at the first step that is unresolved (no safe action), denied (canonical 4xx, e.g.
+ * NoExit / ExitLocked) or failed (5xx); later steps are reported as skipped. The services keep their own
+ * world rules and writes — this handler adds none.
+ *
+ * Request body: { inputText: string, steps?: CommandStepResolution[] }
+ * Response (200): { inputText, completed, stoppedAt?, steps: CommandStepResult[], locationId? }
+ *
+ * Errors: 400 InvalidPlayerId / InvalidJson / MissingField / ValidationError, 404 PlayerNotFound
+ */
+import type { HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions'
+import type { CommandActionKind, CommandChainResponse, CommandStepResult, CommandStepStatus, ParsedCommand } from '@piquet-h/shared'
+import type { IPlayerRepository } from '@piquet-h/shared/types/playerRepository'
+import type { Container } from 'inversify'
+import { inject, injectable } from 'inversify'
+import { TOKENS } from '../di/tokens.js'
+import { checkRateLimit } from '../middleware/rateLimitMiddleware.js'
+import { rateLimiters, type RateLimiter } from '../middleware/rateLimiter.js'
+import { CombatService } from '../services/CombatService.js'
+import { DescriptionComposer } from '../services/descriptionComposer.js'
+import { DescriptionVerbosityService } from '../services/DescriptionVerbosityService.js'
+import { ExitLockService } from '../services/ExitLockService.js'
+import { InventoryService } from '../services/InventoryService.js'
+import { LocationLookService } from '../services/LocationLookService.js'
+import { MovementService } from '../services/MovementService.js'
+import { NpcDialogueService } from '../services/NpcDialogueService.js'
+import { TravelService } from '../services/TravelService.js'
+import { WaitService } from '../services/WaitService.js'
+import { WorldConditionsService } from '../services/WorldConditionsService.js'
+import type { ITelemetryClient } from '../telemetry/ITelemetryClient.js'
+import { BaseHandler } from './base/BaseHandler.js'
+import { LOOK_FAILURE_STATUS } from './locationLook.js'
+import { IntentParserHandler } from './mcp/intent-parser/intent-parser.js'
+import { NarrativeGeneratorHandler } from './mcp/narrative-generator/narrative-generator.js'
+import { buildMoveResponse } from './moveResponse.js'
+import { COMBAT_DENIAL_STATUS, narrateCombatRound, toCombatResponse } from './playerCombat.js'
+import { EXIT_LOCK_DENIAL_STATUS, toExitLockResponse } from './playerExitLock.js'
+import { TALK_DENIAL_STATUS, toTalkResponse } from './playerTalk.js'
+import { toTravelResponse, TRAVEL_DENIAL_STATUS } from './playerTravel.js'
+import { toWaitResponse, WAIT_DENIAL_STATUS } from './playerWait.js'
+import { planCommandChain, type CommandStepResolution } from './resolvePlayerCommand.js'
+import { errorResponse, okResponse } from './utils/responseBuilder.js'
+import { isValidGuid } from './utils/validation.js'
+import { inventoryDenial, toItemSummary } from './utils/worldItemHelpers.js'
+
+/** Maximum input length (matches the resolve endpoint and the intent parser). */
+const MAX_INPUT_LENGTH = 500
+
+/** Maximum number of steps one command may chain. */
+export const MAX_CHAIN_STEPS = 5
+
+const ACTION_KINDS: ReadonlySet<CommandActionKind> = new Set([
+    'Move',
+    'Look',
+    'Take',
+    'Drop',
+    'Talk',
+    'Lock',
+    'Unlock',
+    'Attack',
+    'Defend',
+    'Flee',
+    'Wait',
+    'Rest',
+    'Sleep',
+    'Travel',
+    'Unknown'
+])
+
+/** What one step produced: the canonical payload, or the canonical endpoint's error status, code and message. */
+type StepOutcome = { success: true; data: unknown } | { success: false; status: number; code: string; message: string }
+
+type EnvelopeBody = { data?: unknown; error?: { code?: string; message?: string } }
+
+/** Maps a canonical HTTP status to a step status (2xx succeeded, 4xx soft denial, otherwise failed). */
+function stepStatusFor(httpStatus: number): CommandStepStatus {
+    if (httpStatus >= 200 && httpStatus < 300) return 'succeeded'
+    if (httpStatus >= 400 && httpStatus < 500) return 'denied'
+    return 'failed'
+}
+
+function denied({ status, code }: { status: number; code: string }, message: string): StepOutcome {
+    return { success: false, status, code, message }
+}
+
+function describeStep(step: CommandStepResolution): Omit<CommandStepResult, 'status'> {
+    return {
+        order: step.order,
+        actionKind: step.actionKind,
+        ...(step.direction ? { direction: step.direction } : {}),
+        ...(step.itemName ? { itemName: step.itemName } : {}),
+        ...(step.npcName ? { npcName: step.npcName } : {}),
+        ...(step.durationMs !== undefined ? { durationMs: step.durationMs } : {}),
+        ...(step.destination ? { destination: step.destination } : {})
+    }
+}
+
+function isOptional(value: unknown, type: 'string' | 'number'): boolean {
+    return value === undefined || typeof value === type
+}
+
+/** The fields of a step that say what it does (the ones a step result repeats). */
+const STEP_FIELDS = ['order', 'actionKind', 'direction', 'itemName', 'npcName', 'durationMs', 'destination'] as const
+
+type SuppliedStep = Pick<CommandStepResolution, (typeof STEP_FIELDS)[number]>
+
+/** A client-supplied step as returned by the resolve endpoint (shape only; it must also match the server's plan). */
+function isSuppliedStep(value: unknown): value is SuppliedStep {
+    if (!value || typeof value !== 'object') return false
+    const step = value as Record<string, unknown>
+    return (
+        Number.isInteger(step.order) &&
+        ACTION_KINDS.has(step.actionKind as CommandActionKind) &&
+        isOptional(step.direction, 'string') &&
+        isOptional(step.itemName, 'string') &&
+        isOptional(step.npcName, 'string') &&
+        isOptional(step.durationMs, 'number') &&
+        isOptional(step.destination, 'string')
+    )
+}
+
+/** Whether the client's plan does exactly what the server's plan for the same input does. */
+function matchesPlan(supplied: SuppliedStep[], plan: CommandStepResolution[]): boolean {
+    return supplied.length === plan.length && supplied.every((step, i) => STEP_FIELDS.every((field) => step[field] === plan[i][field]))
+}
+
+/** The limiter and route a step is charged to: the ones its canonical endpoint checks. */
+function stepRateLimit(actionKind: CommandActionKind): { limiter: RateLimiter; route: string } {
+    return actionKind === 'Look'
+        ? { limiter: rateLimiters.look, route: 'location/look' }
+        : { limiter: rateLimiters.movement, route: `player/${actionKind.toLowerCase()}` }
+}
+
+@injectable()
+export class ExecutePlayerCommandHandler extends BaseHandler {
+    constructor(
+        @inject('ITelemetryClient') telemetry: ITelemetryClient,
+        @inject(IntentParserHandler) private readonly intentParser: IntentParserHandler,
+        @inject(TOKENS.PlayerRepository) private readonly playerRepo: IPlayerRepository,
+        @inject(MovementService) private readonly movement: MovementService,
+        @inject(LocationLookService) private readonly lookService: LocationLookService,
+        @inject(InventoryService) private readonly inventoryService: InventoryService,
+        @inject(NpcDialogueService) private readonly dialogueService: NpcDialogueService,
+        @inject(ExitLockService) private readonly exitLockService: ExitLockService,
+        @inject(CombatService) private readonly combatService: CombatService,
+        @inject(NarrativeGeneratorHandler) private readonly narrativeGenerator: NarrativeGeneratorHandler,
+        @inject(WaitService) private readonly waitService: WaitService,
+        @inject(TravelService) private readonly travelService: TravelService,
+        @inject(DescriptionComposer) private readonly descriptionComposer: DescriptionComposer,
+        @inject(DescriptionVerbosityService) private readonly verbosity: DescriptionVerbosityService,
+        @inject(WorldConditionsService) private readonly conditions: WorldConditionsService
+    ) {
+        super(telemetry)
+    }
+
+    protected async execute(req: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+        const playerId = req.params.playerId
+        if (!playerId || !isValidGuid(playerId)) {
+            return errorResponse(400, 'InvalidPlayerId', 'Player id must be a valid GUID format', { correlationId: this.correlationId })
+        }
+
+        let body: { inputText?: unknown; steps?: unknown }
+        try {
+            const text = await req.text()
+            body = text ? (JSON.parse(text) as { inputText?: unknown; steps?: unknown }) : {}
+        } catch {
+            return errorResponse(400, 'InvalidJson', 'Request body must be valid JSON', { correlationId: this.correlationId })
+        }
+
+        const inputText = typeof body.inputText === 'string' ? body.inputText.trim() : ''
+        if (!inputText) {
+            return errorResponse(400, 'MissingField', 'inputText is required', { correlationId: this.correlationId })
+        }
+        if (inputText.length > MAX_INPUT_LENGTH) {
+            return errorResponse(400, 'ValidationError', `Input exceeds maximum length of ${MAX_INPUT_LENGTH} characters`, {
+                correlationId: this.correlationId
+            })
+        }
+        const supplied = body.steps
+        if (supplied !== undefined && !(Array.isArray(supplied) && supplied.length > 0 && supplied.every(isSuppliedStep))) {
+            return errorResponse(400, 'ValidationError', 'steps must be the resolved steps of the command', {
+                correlationId: this.correlationId
+            })
+        }
+
+        const player = await this.playerRepo.get(playerId)
+        if (!player) {
+            return errorResponse(404, 'PlayerNotFound', 'Player not found', { correlationId: this.correlationId })
+        }
+
+        const plan = await this.planInput(inputText, playerId, context)
+        if (supplied && !matchesPlan(supplied, plan)) {
+            return errorResponse(400, 'ValidationError', 'steps must be the resolved steps of the command', {
+                correlationId: this.correlationId
+            })
+        }
+        if (plan.length > MAX_CHAIN_STEPS) {
+            return errorResponse(400, 'ValidationError', `Commands may chain at most ${MAX_CHAIN_STEPS} actions`, {
+                correlationId: this.correlationId
+            })
+        }
+
+        const steps: CommandStepResult[] = []
+        let stoppedAt: number | undefined
+        for (const step of plan) {
+            if (stoppedAt !== undefined) {
+                steps.push({ ...describeStep(step), status: 'skipped' })
+                continue
+            }
+            const result = await this.runStep(req, playerId, step, context)
+            steps.push(result)
+            if (result.status !== 'succeeded') {
+                stoppedAt = steps.length - 1
+            }
+        }
+
+        const locationId = (await this.playerRepo.get(playerId))?.currentLocationId
+        const response: CommandChainResponse = {
+            inputText,
+            completed: stoppedAt === undefined,
+            ...(stoppedAt !== undefined ? { stoppedAt } : {}),
+            steps,
+            ...(locationId ? { locationId } : {})
+        }
+
+        this.track('PlayerCommand.Chain.Executed', {
+            playerId,
+            stepCount: steps.length,
+            executedCount: steps.filter((s) => s.httpStatus !== undefined).length,
+            completed: response.completed,
+            planSource: supplied ? 'client' : 'parsed',
+            ...(stoppedAt !== undefined ? { stoppedAt, stopStatus: steps[stoppedAt].status } : {}),
+            latencyMs: this.latencyMs
+        })
+
+        return okResponse(response, { correlationId: this.correlationId, playerGuid: playerId })
+    }
+
+    private async planInput(inputText: string, playerId: string, context: InvocationContext): Promise<CommandStepResolution[]> {
+        const parsedJson = await this.intentParser.parseCommand({ arguments: { text: inputText, playerId } }, context)
+        return planCommandChain(inputText, JSON.parse(parsedJson) as ParsedCommand)
+    }
+
+    /** Run one planned step through its service and fold the outcome into a step result. */
+    private async runStep(
+        req: HttpRequest,
+        playerId: string,
+        step: CommandStepResolution,
+        context: InvocationContext
+    ): Promise<CommandStepResult> {
+        const described = describeStep(step)
+        const unresolved = (message = 'Command could not be resolved to a known action'): CommandStepResult => ({
+            ...described,
+            status: 'unresolved',
+            error: { code: 'UnresolvedIntent', message }
+        })
+        if (!step.actionIntent.validationResult.success) {
+            return unresolved(step.actionIntent.validationResult.errors?.[0])
+        }
+
+        const { limiter, route } = stepRateLimit(step.actionKind)
+        const rateLimitResponse = checkRateLimit(req, limiter, route)
+        if (rateLimitResponse) {
+            const envelope = (rateLimitResponse.jsonBody ?? {}) as EnvelopeBody
+            return {
+                ...described,
+                status: 'denied',
+                httpStatus: 429,
+                error: { code: 'RateLimitExceeded', message: envelope.error?.message ?? 'Rate limit exceeded' }
+            }
+        }
+
+        let outcome: StepOutcome | undefined
+        try {
+            outcome = await this.perform(playerId, step, context)
+        } catch (error) {
+            return {
+                ...described,
+                status: 'failed',
+                httpStatus: 500,
+                error: { code: 'InternalError', message: error instanceof Error ? error.message : 'Step failed' }
+            }
+        }
+        if (!outcome) {
+            return unresolved()
+        }
+        if (outcome.success) {
+            return { ...described, status: 'succeeded', httpStatus: 200, data: outcome.data }
+        }
+        return {
+            ...described,
+            status: stepStatusFor(outcome.status),
+            httpStatus: outcome.status,
+            error: { code: outcome.code, message: outcome.message }
+        }
+    }
+
+    /** Call the step's service with the parameters its canonical endpoint would receive; undefined when a parameter is missing. */
+    private async perform(playerId: string, step: CommandStepResolution, context: InvocationContext): Promise<StepOutcome | undefined> {
+        const correlationId = this.correlationId
+        const actionIntent = step.actionIntent
+        switch (step.actionKind) {
+            case 'Move': {
+                if (!step.direction) return undefined
+                const result = await this.movement.move({ playerId, direction: step.direction, correlationId })
+                if (result.success) return { success: true, data: result.location }
+                const response = buildMoveResponse(result, correlationId)
+                const envelope = (response.jsonBody ?? {}) as EnvelopeBody
+                return {
+                    success: false,
+                    status: response.status ?? 500,
+                    code: envelope.error?.code ?? 'MoveFailed',
+                    message: envelope.error?.message ?? 'Movement failed'
+                }
+            }
+            case 'Look': {
+                // Looks at wherever the previous steps left the player.
+                const locationId = (await this.playerRepo.get(playerId))?.currentLocationId
+                if (!locationId) return undefined
+                const result = await this.lookService.look({ locationId, playerId, correlationId })
+                return result.success
+                    ? { success: true, data: result.location }
+                    : denied(LOOK_FAILURE_STATUS[result.reason], result.message)
+            }
+            case 'Take':
+            case 'Drop': {
+                if (!step.itemName) return undefined
+                const request = { playerId, reference: step.itemName, actionIntent, correlationId }
+                const result =
+                    step.actionKind === 'Take'
+                        ? await this.inventoryService.acquireFromLocation(request)
+                        : await this.inventoryService.releaseToLocation(request)
+                if (!result.success) return denied(inventoryDenial(result.reason), result.message)
+                return {
+                    success: true,
+                    data: { item: toItemSummary(result.item), locationId: result.locationId, inventoryVersion: result.inventoryVersion }
+                }
+            }
+            case 'Talk': {
+                if (!step.npcName) return undefined
+                const result = await this.dialogueService.talk({ playerId, reference: step.npcName, correlationId })
+                return result.success
+                    ? { success: true, data: toTalkResponse(result) }
+                    : denied(TALK_DENIAL_STATUS[result.reason], result.message)
+            }
+            case 'Lock':
+            case 'Unlock': {
+                if (!step.direction) return undefined
+                const result = await this.exitLockService.setLockState({
+                    playerId,
+                    direction: step.direction,
+                    lockState: step.actionKind === 'Lock' ? 'locked' : 'unlocked',
+                    actionIntent,
+                    correlationId
+                })
+                return result.success
+                    ? { success: true, data: toExitLockResponse(result) }
+                    : denied(EXIT_LOCK_DENIAL_STATUS[result.reason], result.message)
+            }
+            case 'Attack':
+            case 'Defend':
+            case 'Flee': {
+                const result = await this.combatService.resolveRound({
+                    playerId,
+                    action: step.actionKind === 'Attack' ? 'attack' : step.actionKind === 'Defend' ? 'defend' : 'flee',
+                    npcReference: step.actionKind === 'Attack' ? step.npcName : undefined,
+                    direction: step.actionKind === 'Flee' ? step.direction : undefined,
+                    actionIntent,
+                    correlationId
+                })
+                if (!result.success) return denied(COMBAT_DENIAL_STATUS[result.reason], result.message)
+                const narrative = await narrateCombatRound(this.narrativeGenerator, result, context)
+                return { success: true, data: toCombatResponse(result, narrative) }
+            }
+            case 'Wait':
+            case 'Rest':
+            case 'Sleep': {
+                const result = await this.waitService.passTime({
+                    playerId,
+                    action: step.actionKind === 'Wait' ? 'wait' : step.actionKind === 'Rest' ? 'rest' : 'sleep',
+                    durationMs: step.durationMs,
+                    correlationId
+                })
+                return result.success
+                    ? { success: true, data: toWaitResponse(result) }
+                    : denied(WAIT_DENIAL_STATUS[result.reason], result.message)
+            }
+            case 'Travel': {
+                if (!step.destination) return undefined
+                const result = await this.travelService.travel({ playerId, destination: step.destination, correlationId })
+                if (!result.success) return denied(TRAVEL_DENIAL_STATUS[result.reason], result.message)
+                const data = await toTravelResponse(result, playerId, {
+                    descriptionComposer: this.descriptionComposer,
+                    verbosity: this.verbosity,
+                    conditions: this.conditions
+                })
+                return { success: true, data }
+            }
+            default:
+                return undefined
+        }
+    }
+}
+
+export async function handleExecutePlayerCommand(req: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    const container = context.extraInputs.get('container') as Container
+    const handler = container.get(ExecutePlayerCommandHandler)
+    return handler.handle(req, context)
+}
@@ -0,0 +1,78 @@
+/**
+ * Location History Handler
+ *
+ * GET /api/location/{locationId}/history
+ *
+ * The location's world event timeline, newest first: what happened there (items taken and dropped, NPCs coming
+ * and going, exits opened, environment changes). Entries come from WorldEventTimelineService, which the world
+ * event processor writes to for every handled event. Pages are chained with `before`.
+ *
+ * Query: limit? (default 20, at most 100), before? (nextBefore of the previous page)
+ * Response (200): { locationId, events: [{ eventId, eventType, occurredUtc, actorKind, summary, correlationId, causationId? }], nextBefore? }
+ *
+ * Errors: 400 InvalidLocationId / InvalidFormat, 404 LocationNotFound
+ */
+import type { HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions'
+import type { LocationHistoryResponse } from '@piquet-h/shared'
+import type { Container } from 'inversify'
+import { inject, injectable } from 'inversify'
+import { TOKENS } from '../di/tokens.js'
+import { checkRateLimit } from '../middleware/rateLimitMiddleware.js'
+import { rateLimiters } from '../middleware/rateLimiter.js'
+import type { ILocationRepository } from '../repos/locationRepository.js'
+import { HISTORY_DEFAULT_LIMIT, WorldEventTimelineService } from '../services/WorldEventTimelineService.js'
+import type { ITelemetryClient } from '../telemetry/ITelemetryClient.js'
+import { BaseHandler } from './base/BaseHandler.js'
+import { errorResponse, okResponse } from './utils/responseBuilder.js'
+import { isValidGuid } from './utils/validation.js'
+
+@injectable()
+export class LocationHistoryHandler extends BaseHandler {
+    constructor(
+        @inject('ITelemetryClient') telemetry: ITelemetryClient,
+        @inject(TOKENS.LocationRepository) private locationRepo: ILocationRepository,
+        @inject(WorldEventTimelineService) private timeline: WorldEventTimelineService
+    ) {
+        super(telemetry)
+    }
+
+    protected async execute(req: HttpRequest): Promise<HttpResponseInit> {
+        const rateLimitResponse = checkRateLimit(req, rateLimiters.look, 'location/history')
+        if (rateLimitResponse) {
+            return rateLimitResponse
+        }
+
+        const locationId = req.params.locationId
+        if (!locationId || !isValidGuid(locationId)) {
+            return errorResponse(400, 'InvalidLocationId', 'Location id must be a valid GUID format', { correlationId: this.correlationId })
+        }
+
+        const limitParam = req.query.get('limit')
+        const limit = limitParam === null ? HISTORY_DEFAULT_LIMIT : parseInt(limitParam, 10)
+        if (Number.isNaN(limit) || limit < 1) {
+            return errorResponse(400, 'InvalidFormat', 'limit must be a positive integer', { correlationId: this.correlationId })
+        }
+        const before = req.query.get('before') ?? undefined
+        if (before !== undefined && Number.isNaN(Date.parse(before))) {
+            return errorResponse(400, 'InvalidFormat', 'before must be an ISO-8601 timestamp', { correlationId: this.correlationId })
+        }
+
+        const location = await this.locationRepo.get(locationId)
+        if (!location) {
+            this.track('Location.History.Listed', { locationId, status: 404 })
+            return errorResponse(404, 'LocationNotFound', 'Location not found', { correlationId: this.correlationId })
+        }
+
+        const page = await this.timeline.locationHistory(locationId, { limit, before })
+        this.track('Location.History.Listed', { locationId, count: page.events.length, status: 200 })
+
+        const response: LocationHistoryResponse = { locationId, ...page }
+        return okResponse(response, { correlationId: this.correlationId })
+    }
+}
+
+export async function handleLocationHistory(req: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    const container = context.extraInputs.get('container') as Container
+    const handler = container.get(LocationHistoryHandler)
+    return handler.handle(req, context)
+}
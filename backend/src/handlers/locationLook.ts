@@ -8,31 +8,41 @@
  * - description.text: Compiled markdown text
  * - description.html: Sanitized HTML version
  * - description.provenance: Metadata about layers applied and compilation timestamp
+ * - items: Items currently lying in the location (takeable via POST /player/{id}/take)
+ * - npcs: NPCs currently present in the location
+ * - players: Other players currently in the location (display names only; the viewer is left out)
+ *
+ * The description is compiled in the conditions of the moment (WorldConditionsService): the current weather
+ * of the location's weather zone and the lighting of the current time of day on the world clock. The view
+ * context's weather and time bucket default to them; `?weather=`, `?time=` and `?season=` override.
+ *
+ * A look by a known player (x-player-guid) is recorded in their discovery ledger. Look is the explicit
+ * way to see a place in full, so the player's brief / superbrief verbosity never applies here.
+ * The view itself is built by LocationLookService (shared with command chains).
  */
 import type { HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions'
-import { Direction, STARTER_LOCATION_ID } from '@piquet-h/shared'
+import { STARTER_LOCATION_ID } from '@piquet-h/shared'
 import type { Container } from 'inversify'
 import { inject, injectable } from 'inversify'
 import { checkRateLimit } from '../middleware/rateLimitMiddleware.js'
 import { rateLimiters } from '../middleware/rateLimiter.js'
-import { ExitEdgeResult, generateExitsSummaryCache } from '../repos/exitRepository.js'
-import type { ILocationRepository } from '../repos/locationRepository.js'
-import { DescriptionComposer } from '../services/descriptionComposer.js'
-import { HeroProseGenerator } from '../services/heroProseGenerator.js'
-import type { ViewContext } from '../services/types.js'
+import { LocationLookService, type LookResult } from '../services/LocationLookService.js'
 import type { ITelemetryClient } from '../telemetry/ITelemetryClient.js'
 import { BaseHandler } from './base/BaseHandler.js'
-import { convertLocationExitsToExitInfo } from './utils/exitHelpers.js'
 import { errorResponse, okResponse } from './utils/responseBuilder.js'
 import { isValidGuid } from './utils/validation.js'
 
+/** HTTP status and error code for each LocationLookService failure (shared with command chains). */
+export const LOOK_FAILURE_STATUS: Record<Extract<LookResult, { success: false }>['reason'], { status: number; code: string }> = {
+    'location-not-found': { status: 404, code: 'NotFound' },
+    'compile-failed': { status: 500, code: 'InternalError' }
+}
+
 @injectable()
 export class LocationLookHandler extends BaseHandler {
     constructor(
         @inject('ITelemetryClient') telemetry: ITelemetryClient,
-        @inject('ILocationRepository') private locationRepo: ILocationRepository,
-        @inject(DescriptionComposer) private descriptionComposer: DescriptionComposer,
-        @inject(HeroProseGenerator) private heroProseGenerator: HeroProseGenerator
+        @inject(LocationLookService) private lookService: LocationLookService
     ) {
         super(telemetry)
     }
@@ -44,8 +54,6 @@ export class LocationLookHandler extends BaseHandler {
             return rateLimitResponse
         }
 
-        const repo = this.locationRepo
-
         // Extract locationId from path parameter, fallback to query for backward compatibility
         const id = req.params.locationId || req.query.get('id') || STARTER_LOCATION_ID
 
@@ -64,168 +72,23 @@ export class LocationLookHandler extends BaseHandler {
             }
         }
 
-        const fromLocationId = req.query.get('fromLocationId') || undefined
-
-        const loc = await repo.get(id)
-        if (!loc) {
-            this.track('Navigation.Look.Issued', { id, status: 404, latencyMs: this.latencyMs, fromLocationId })
-            return errorResponse(404, 'NotFound', 'Location not found', { correlationId: this.correlationId })
-        }
-
-        // Determine if canonical writes are planned (exitsSummaryCache write needed)
-        const canonicalWritesPlanned = !loc.exitsSummaryCache
-
-        // Check if exitsSummaryCache exists; if not, generate and persist
-        let exitsSummaryCache = loc.exitsSummaryCache
-        if (!exitsSummaryCache) {
-            // Convert exits to ExitEdgeResult format
-            const exitEdges: ExitEdgeResult[] = (loc.exits || []).map((e) => ({
-                direction: e.direction as Direction,
-                toLocationId: e.to || '',
-                description: e.description
-            }))
-
-            exitsSummaryCache = generateExitsSummaryCache(exitEdges)
-
-            // Persist the generated cache
-            await repo.updateExitsSummaryCache(id, exitsSummaryCache)
-        }
-
-        // Build view context from query parameters (optional)
-        const context: ViewContext = {
-            weather: req.query.get('weather') || undefined,
-            time: req.query.get('time') || undefined,
-            season: req.query.get('season') || undefined,
-            timestamp: new Date().toISOString()
-        }
-
-        // Attempt hero prose generation ONLY when no canonical writes are planned
-        // Bounded blocking is allowed only for perception actions with no pending canonical writes.
-        // When canonical writes are planned, skip generation and use safe fallback (baseline description).
-        let heroProseObtained = false
-        if (!canonicalWritesPlanned) {
-            try {
-                const generationStartTime = Date.now()
-                // Keep default aligned with HeroProseGenerator.DEFAULT_TIMEOUT_MS (code is source of truth).
-                const configuredTimeoutMs = Number.parseInt(process.env.HERO_PROSE_TIMEOUT_MS ?? '2500', 10)
-                const timeoutMs = Number.isFinite(configuredTimeoutMs) && configuredTimeoutMs > 0 ? configuredTimeoutMs : 2500
-                const heroResult = await this.heroProseGenerator.generateHeroProse({
-                    locationId: id,
-                    locationName: loc.name,
-                    baseDescription: loc.description,
-                    timeoutMs
-                })
-                heroProseObtained = heroResult.success
-                const generationLatency = Date.now() - generationStartTime
-                if (generationLatency > 500) {
-                    this.track('Timing.Op', {
-                        op: 'hero-prose-generation',
-                        ms: generationLatency,
-                        locationId: id,
-                        category: 'hero-generation-slow'
-                    })
-                }
-            } catch {
-                // Generation errors don't block the response - fall back to base description
-                // Telemetry already emitted by HeroProseGenerator
-            }
-        }
-
-        // Stale-while-revalidate: fire a background generation whenever the synchronous
-        // attempt was skipped (canonical writes planned) or did not produce prose
-        // (timeout / error). The prose is persisted to the layer repository; the next
-        // look call will serve the improved description.
-        // heroProseGenerator.generateHeroProse() is cache-aware and short-circuits
-        // instantly on a cache hit, so this call is idempotent.
-        if (!heroProseObtained) {
-            this.heroProseGenerator
-                .generateHeroProse({
-                    locationId: id,
-                    locationName: loc.name,
-                    baseDescription: loc.description,
-                    timeoutMs: 30_000 // No HTTP deadline pressure for background generation
-                })
-                .catch(() => void 0) // Non-blocking: errors surfaced via telemetry in HeroProseGenerator
+        const result = await this.lookService.look({
+            locationId: id,
+            playerId: this.playerGuid,
+            fromLocationId: req.query.get('fromLocationId') || undefined,
+            view: {
+                weather: req.query.get('weather') || undefined,
+                time: req.query.get('time') || undefined,
+                season: req.query.get('season') || undefined
+            },
+            correlationId: this.correlationId
+        })
+        if (!result.success) {
+            const { status, code } = LOOK_FAILURE_STATUS[result.reason]
+            return errorResponse(status, code, result.message, { correlationId: this.correlationId })
         }
 
-        try {
-            const startCompilation = Date.now()
-
-            // Compile description using DescriptionComposer
-            // Pass location's description as the base - layers are applied on top
-            const compiled = await this.descriptionComposer.compileForLocation(id, context, {
-                baseDescription: loc.description
-            })
-
-            const compilationLatency = Date.now() - startCompilation
-
-            // Warn if compilation took longer than target (500ms p95)
-            if (compilationLatency > 500) {
-                this.track('Timing.Op', {
-                    op: 'location-description-compile',
-                    ms: compilationLatency,
-                    locationId: id,
-                    layerCount: compiled.provenance.layers.length,
-                    category: 'slow-compilation'
-                })
-            }
-
-            // Count superseded sentences (placeholder for now)
-            const supersededCount = 0
-
-            this.track('Navigation.Look.Issued', {
-                locationId: id,
-                fromLocationId,
-                status: 200,
-                latencyMs: this.latencyMs,
-                compilationLatencyMs: compilationLatency,
-                layerCount: compiled.provenance.layers.length,
-                supersededSentences: supersededCount,
-                cacheHit: !!loc.exitsSummaryCache,
-                heroProseAttempted: !canonicalWritesPlanned,
-                heroProseSkipReason: canonicalWritesPlanned ? 'canonical-writes-planned' : undefined,
-                heroProseBackgroundFired: !heroProseObtained
-            })
-
-            // Build exit availability info using shared helper
-            const exitInfoArray = convertLocationExitsToExitInfo(loc.exits, loc.exitAvailability)
-
-            return okResponse(
-                {
-                    id: loc.id,
-                    name: loc.name,
-                    description: {
-                        text: compiled.text,
-                        html: compiled.html,
-                        provenance: {
-                            compiledAt: compiled.provenance.compiledAt,
-                            layersApplied: compiled.provenance.layers.map((l) => l.layerType),
-                            supersededSentences: supersededCount
-                        }
-                    },
-                    exits: exitInfoArray,
-                    metadata: {
-                        exitsSummaryCache,
-                        tags: loc.tags,
-                        revision: loc.version
-                    }
-                },
-                { correlationId: this.correlationId, playerGuid: this.playerGuid }
-            )
-        } catch (error) {
-            // Log composition service failure
-            this.track('Description.Generate.Failure', {
-                locationId: id,
-                status: 500,
-                latencyMs: this.latencyMs,
-                error: error instanceof Error ? error.message : String(error),
-                stage: 'compilation'
-            })
-
-            return errorResponse(500, 'InternalError', 'Failed to compile location description', {
-                correlationId: this.correlationId
-            })
-        }
+        return okResponse(result.location, { correlationId: this.correlationId, playerGuid: this.playerGuid })
     }
 }
 
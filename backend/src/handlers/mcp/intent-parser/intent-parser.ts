@@ -1,6 +1,6 @@
 import type { InvocationContext } from '@azure/functions'
 import type { AmbiguityIssue, Intent, IntentVerb, ParsedCommand } from '@piquet-h/shared'
-import { isDirection } from '@piquet-h/shared'
+import { isDirection, parseWaitDuration } from '@piquet-h/shared'
 import { Container, inject, injectable } from 'inversify'
 import { v4 as uuidv4 } from 'uuid'
 import type { ITelemetryClient } from '../../../telemetry/ITelemetryClient.js'
@@ -32,6 +32,8 @@ const VERB_MAP: Readonly<Record<string, IntentVerb>> = {
     pick: 'take',
     grab: 'take',
     get: 'take',
+    drop: 'drop',
+    discard: 'drop',
     talk: 'communicate',
     speak: 'communicate',
     say: 'communicate',
@@ -48,7 +50,14 @@ const VERB_MAP: Readonly<Record<string, IntentVerb>> = {
     open: 'interact',
     close: 'interact',
     push: 'interact',
-    pull: 'interact'
+    pull: 'interact',
+    lock: 'lock',
+    unlock: 'unlock',
+    wait: 'wait',
+    rest: 'rest',
+    sleep: 'sleep',
+    travel: 'travel',
+    journey: 'travel'
 }
 
 /**
@@ -57,6 +66,9 @@ const VERB_MAP: Readonly<Record<string, IntentVerb>> = {
  */
 const SEQUENTIAL_PATTERNS = /\b(and\s+then|then|after\s+that|after|next|followed\s+by)\b/i
 
+/** Global variant of SEQUENTIAL_PATTERNS used to split a sequential command into segments. */
+const SEQUENTIAL_SPLIT_PATTERN = new RegExp(SEQUENTIAL_PATTERNS.source, 'gi')
+
 /**
  * Modifier words that indicate an adverbial role for a verb (e.g. "chase" as a modifier on "move").
  */
@@ -98,9 +110,37 @@ const NOUN_STOPWORDS = new Set([
     'toward',
     'using',
     'next',
-    'followed'
+    'followed',
+    // Duration words ("wait an hour", "rest a few minutes") are parsed into Intent.durationMs, not targets
+    'few',
+    'couple',
+    'half',
+    'while',
+    'second',
+    'seconds',
+    'minute',
+    'minutes',
+    'hour',
+    'hours',
+    'day',
+    'days'
 ])
 
+/**
+ * Optional particle skipped between a verb and its direct object ("pick up lamp", "talk to tomas").
+ */
+const VERB_PARTICLES: Record<string, string> = {
+    pick: '(?:up\\s+)?',
+    talk: '(?:to\\s+|with\\s+)?(?:the\\s+)?',
+    speak: '(?:to\\s+|with\\s+)?(?:the\\s+)?'
+}
+
+/**
+ * Destination phrase after a travel verb ("travel to the harbour steps" → "harbour steps").
+ * Place names are multi-word, so the whole phrase is kept (up to a trailing "and …" / punctuation).
+ */
+const TRAVEL_DESTINATION_PATTERN = /\b(?:travel|journey)\s+(?:to(?:wards?)?\s+)?(?:(?:a|an|the)\s+)?(.+?)(?:\s+and\s+.*)?[\s.!?]*$/i
+
 type ToolArgs<T> = { arguments?: T }
 
 type ParseCommandArgs = {
@@ -126,6 +166,16 @@ export function extractVerbs(text: string): string[] {
     return result
 }
 
+/**
+ * Recognised verbs of one command, in order. Verb words after a travel verb are part of the place
+ * name ("travel to the rest house"), so they do not become intents of their own.
+ */
+function commandVerbs(text: string): string[] {
+    const verbs = extractVerbs(text)
+    const travel = verbs.findIndex((v) => VERB_MAP[v] === 'travel')
+    return travel === -1 ? verbs : verbs.slice(0, travel + 1)
+}
+
 /**
  * Determines whether the command intends sequential execution.
  */
@@ -133,6 +183,18 @@ export function detectSequence(text: string): 'sequential' | 'parallel' {
     return SEQUENTIAL_PATTERNS.test(text) ? 'sequential' : 'parallel'
 }
 
+/**
+ * Splits a sequential command into its ordered segments ("go north then look" → ["go north", "look"]).
+ * Empty segments (leading / doubled connectors) are dropped.
+ */
+export function splitSequentialSegments(text: string): string[] {
+    return text
+        .split(SEQUENTIAL_SPLIT_PATTERN)
+        .filter((part, index) => index % 2 === 0)
+        .map((part) => part.replace(/^[\s,;]+|[\s,;]+$/g, ''))
+        .filter((part) => part.length > 0)
+}
+
 /**
  * Extracts simple noun candidates from text using two strategies:
  * 1. Words following articles/prepositions (including article chains: "at the seagull")
@@ -161,10 +223,11 @@ export function extractNouns(text: string): string[] {
     }
 
     // Strategy 2: bare direct objects immediately after a known verb word
-    // (handles "attack goblin", "go north", "throw rock")
+    // (handles "attack goblin", "go north", "throw rock"; "pick up lamp" / "talk to tomas" skip the particle)
     const lower = text.toLowerCase()
     for (const verbWord of Object.keys(VERB_MAP)) {
-        const verbPattern = new RegExp(`\\b${verbWord}\\s+([a-z_]+)`, 'i')
+        const particle = VERB_PARTICLES[verbWord] ?? ''
+        const verbPattern = new RegExp(`\\b${verbWord}\\s+${particle}([a-z_]+)`, 'i')
         const vm = lower.match(verbPattern)
         if (vm) {
             tryAdd(vm[1])
@@ -175,9 +238,9 @@ export function extractNouns(text: string): string[] {
 }
 
 /**
- * Builds an Intent from a surface verb and an ordered noun list.
+ * Builds an Intent from a surface verb, an ordered noun list and the text the verb appeared in.
  */
-function buildIntent(surfaceVerb: string, order: number, nouns: string[]): Intent {
+function buildIntent(surfaceVerb: string, order: number, nouns: string[], text: string): Intent {
     const verb = VERB_MAP[surfaceVerb] ?? 'interact'
     const isChase = surfaceVerb === 'chase'
 
@@ -194,12 +257,28 @@ function buildIntent(surfaceVerb: string, order: number, nouns: string[]): Inten
     }
 
     // For 'move' verbs, check if the first noun is a direction and assign it accordingly.
+    // For 'lock'/'unlock'/'flee', the first direction noun names the exit ("unlock the north door", "flee north").
     // For item-verb intents ('throw', 'use_item'), the first noun is the item and the second is the target.
+    // For pickup/drop intents ('take', 'drop'), the first non-direction noun is the target ("pick up lamp").
+    // For 'wait'/'rest'/'sleep', the duration phrase is parsed instead ("wait 2 hours"); there is no target.
+    // For 'travel', the whole destination phrase is the target ("travel to the harbour steps").
     // For all other verbs, the first noun is the surface target.
     const [first, second] = nouns
 
-    if (verb === 'move' && first && isDirection(first)) {
+    if (verb === 'wait' || verb === 'rest' || verb === 'sleep') {
+        const durationMs = parseWaitDuration(text)
+        if (durationMs !== undefined) intent.durationMs = durationMs
+    } else if (verb === 'travel') {
+        const destination = text.match(TRAVEL_DESTINATION_PATTERN)?.[1]?.trim()
+        if (destination && !/^to(?:wards?)?$/i.test(destination)) intent.surfaceTargetName = destination
+    } else if (verb === 'move' && first && isDirection(first)) {
         intent.direction = first
+    } else if (verb === 'lock' || verb === 'unlock' || verb === 'flee') {
+        const direction = nouns.find((n) => isDirection(n))
+        if (direction) intent.direction = direction
+    } else if (verb === 'take' || verb === 'drop') {
+        const itemNoun = nouns.find((n) => !isDirection(n))
+        if (itemNoun) intent.surfaceTargetName = itemNoun
     } else if (verb === 'throw' || verb === 'use_item') {
         if (first) intent.surfaceItemName = first
         if (second) intent.surfaceTargetName = second
@@ -210,6 +289,40 @@ function buildIntent(surfaceVerb: string, order: number, nouns: string[]): Inten
     return intent
 }
 
+/**
+ * Flags an intent that is missing the direction or target its verb needs ("go", "take", "talk") as a
+ * critical ambiguity, so the command is not executed until the player supplies it.
+ */
+function missingSlotIssue(intent: Intent, surfaceVerb: string): AmbiguityIssue | undefined {
+    const needsDirection = intent.verb === 'move' || intent.verb === 'lock' || intent.verb === 'unlock'
+    const needsTarget = intent.verb === 'take' || intent.verb === 'drop' || intent.verb === 'communicate' || intent.verb === 'travel'
+    if (needsDirection && !intent.direction) {
+        return {
+            id: `ambig-missing-${intent.id}`,
+            spanText: surfaceVerb,
+            issueType: 'missing_required',
+            suggestions: [`${surfaceVerb} north`, `${surfaceVerb} south`],
+            critical: true
+        }
+    }
+    if (needsTarget && !intent.surfaceTargetName) {
+        const example =
+            intent.verb === 'communicate'
+                ? `${surfaceVerb} to <npc>`
+                : intent.verb === 'travel'
+                  ? `${surfaceVerb} to <place>`
+                  : `${surfaceVerb} <item>`
+        return {
+            id: `ambig-missing-${intent.id}`,
+            spanText: surfaceVerb,
+            issueType: 'missing_required',
+            suggestions: [example],
+            critical: true
+        }
+    }
+    return undefined
+}
+
 /**
  * MCP-style handler for the PI-0 heuristic intent parser.
  *
@@ -285,7 +398,7 @@ export class IntentParserHandler {
         }
 
         // --- Heuristic extraction ---
-        const surfaceVerbs = extractVerbs(text)
+        const surfaceVerbs = commandVerbs(text)
         const nouns = extractNouns(text)
         const sequenceType = detectSequence(text)
 
@@ -333,14 +446,29 @@ export class IntentParserHandler {
         }
 
         // Build intents in sequence order.
-        // In sequential mode each verb becomes a separate ordered intent (order = index).
+        // In sequential mode the text is split on the connectors and each segment's verbs become separate
+        // ordered intents (order = index) that only see that segment's nouns, so "go north then go east"
+        // yields two moves with their own directions.
         // In parallel mode, modifier-only verbs (e.g. "chase") are merged as modifiers rather than
         // creating separate intents, so they are filtered out before building.
-        const allVerbs = sequenceType === 'sequential' ? surfaceVerbs : surfaceVerbs.filter((v) => !MODIFIER_VERBS.has(v))
-
-        for (let i = 0; i < allVerbs.length; i++) {
-            const verb = allVerbs[i]
-            intents.push(buildIntent(verb, sequenceType === 'sequential' ? i : 0, nouns))
+        // Intents missing their direction / target are flagged as critical (the resolver asks a follow-up question).
+        const addIntent = (verb: string, order: number, intentNouns: string[], intentText: string): void => {
+            const intent = buildIntent(verb, order, intentNouns, intentText)
+            intents.push(intent)
+            const missing = missingSlotIssue(intent, verb)
+            if (missing) ambiguities.push(missing)
+        }
+        if (sequenceType === 'sequential') {
+            for (const segment of splitSequentialSegments(text)) {
+                const segmentNouns = extractNouns(segment)
+                for (const verb of commandVerbs(segment)) {
+                    addIntent(verb, intents.length, segmentNouns, segment)
+                }
+            }
+        } else {
+            for (const verb of surfaceVerbs.filter((v) => !MODIFIER_VERBS.has(v))) {
+                addIntent(verb, 0, nouns, text)
+            }
         }
 
         // Flag noun targets that look unresolved (not a direction and not a known game entity id format)
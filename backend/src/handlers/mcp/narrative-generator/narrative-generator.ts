@@ -1,12 +1,15 @@
 import type { InvocationContext } from '@azure/functions'
 import { Container, inject, injectable, optional } from 'inversify'
 import { TOKENS } from '../../../di/tokens.js'
+import { WEATHER_PHRASES } from '@piquet-h/shared'
 import type { IAzureOpenAIClient } from '../../../services/azureOpenAIClient.js'
 import type { EnvironmentalHintProposal } from '../../../services/frontierContext.js'
+import { WeatherService } from '../../../services/WeatherService.js'
 
 type ToolArgs<T> = { arguments?: T }
 
 type GenerateAmbienceArgs = {
+    locationId?: string
     locationName?: string
     timeOfDay?: string
     weather?: string
@@ -312,7 +315,10 @@ type AIGenerationResult = {
  */
 @injectable()
 export class NarrativeGeneratorHandler {
-    constructor(@inject(TOKENS.AzureOpenAIClient) @optional() private readonly aiClient: IAzureOpenAIClient | undefined) {}
+    constructor(
+        @inject(TOKENS.AzureOpenAIClient) @optional() private readonly aiClient: IAzureOpenAIClient | undefined,
+        @inject(WeatherService) @optional() private readonly weather?: WeatherService
+    ) {}
 
     async health(toolArguments: unknown, context: InvocationContext): Promise<string> {
         void toolArguments
@@ -325,7 +331,7 @@ export class NarrativeGeneratorHandler {
         void context
 
         const toolArgs = toolArguments as ToolArgs<GenerateAmbienceArgs>
-        const input = normalizeAmbienceInput(toolArgs?.arguments)
+        const input = normalizeAmbienceInput({ ...toolArgs?.arguments, weather: await this.ambienceWeather(toolArgs?.arguments) })
         const preferAi = normalizeOptionalBoolean(toolArgs?.arguments?.preferAi) ?? true
 
         let fallbackReason: 'ai_unavailable' | 'canonical_claim_blocked' | undefined
@@ -553,6 +559,16 @@ export class NarrativeGeneratorHandler {
         })
     }
 
+    /** The weather cue as given, else the current weather of the location's zone (when a locationId is given). */
+    private async ambienceWeather(args?: GenerateAmbienceArgs): Promise<string | undefined> {
+        const given = normalizeOptionalString(args?.weather)
+        const locationId = normalizeOptionalString(args?.locationId)
+        if (given || !locationId || !this.weather) return given
+        const current = await this.weather.currentWeather(locationId)
+        if (!current) return undefined
+        return current.state ? WEATHER_PHRASES[current.state] : current.text
+    }
+
     private async tryGenerateAIAmbience(input: AmbienceInput): Promise<AIGenerationResult> {
         const prompt = [
             'You write atmospheric fantasy ambience text for a text adventure.',
@@ -1,16 +1,19 @@
 import type { InvocationContext } from '@azure/functions'
 import type { RealmType, RealmVertex } from '@piquet-h/shared'
-import { STARTER_LOCATION_ID } from '@piquet-h/shared'
+import { DEFAULT_LIGHTING, STARTER_LOCATION_ID, worldTimeOfDay } from '@piquet-h/shared'
 import type { DescriptionLayer, LayerType } from '@piquet-h/shared/types/layerRepository'
 import { Container, inject, injectable } from 'inversify'
 import type { IPlayerDocRepository } from '../../../repos/PlayerDocRepository.js'
+import type { IDiscoveryRepository } from '../../../repos/discoveryRepository.js'
 import type { IExitRepository } from '../../../repos/exitRepository.js'
 import type { IInventoryRepository } from '../../../repos/inventoryRepository.js'
 import type { ILayerRepository } from '../../../repos/layerRepository.js'
 import type { ILocationRepository } from '../../../repos/locationRepository.js'
+import type { INpcRepository } from '../../../repos/npcRepository.js'
 import { buildLocationScopeKey, buildPlayerScopeKey, type IWorldEventRepository } from '../../../repos/worldEventRepository.js'
 import { RealmService } from '../../../services/RealmService.js'
 import { WorldClockService } from '../../../services/WorldClockService.js'
+import { lightingLayerApplies, lightingSetting } from '../../../services/WorldConditionsService.js'
 
 /**
  * Default world tick to use when timing system is not yet fully integrated.
@@ -122,19 +125,6 @@ function buildLayerValueOrDefault(
     }
 }
 
-function inferTimeOfDayLabelFromTick(tick: number): string {
-    // World tick is measured in milliseconds.
-    const DAY_MS = 24 * 60 * 60 * 1000
-    const normalized = ((tick % DAY_MS) + DAY_MS) % DAY_MS
-    const hour = Math.floor(normalized / (60 * 60 * 1000))
-
-    if (hour >= 5 && hour < 8) return 'dawn'
-    if (hour >= 8 && hour < 12) return 'morning'
-    if (hour >= 12 && hour < 17) return 'afternoon'
-    if (hour >= 17 && hour < 20) return 'dusk'
-    return 'night'
-}
-
 function categorizeRealms(realms: RealmVertex[]): {
     geographic: RealmVertex[]
     political: RealmVertex[]
@@ -199,7 +189,9 @@ export class WorldContextHandler {
         @inject(WorldClockService) private worldClock: WorldClockService,
         @inject('IPlayerDocRepository') private playerDocRepo: IPlayerDocRepository,
         @inject('IInventoryRepository') private inventoryRepo: IInventoryRepository,
-        @inject('IWorldEventRepository') private worldEventRepo: IWorldEventRepository
+        @inject('IWorldEventRepository') private worldEventRepo: IWorldEventRepository,
+        @inject('INpcRepository') private npcRepo: INpcRepository,
+        @inject('IDiscoveryRepository') private discoveryRepo: IDiscoveryRepository
     ) {}
 
     async health(toolArguments: unknown, context: InvocationContext): Promise<string> {
@@ -217,6 +209,7 @@ export class WorldContextHandler {
      * - exits (from IExitRepository)
      * - containing realms (from RealmService)
      * - ambient layer summary at tick (from ILayerRepository)
+     * - NPCs present (from INpcRepository)
      */
     async getLocationContext(toolArguments: unknown, context: InvocationContext): Promise<string> {
         void context // part of the MCP handler signature; intentionally unused
@@ -273,6 +266,15 @@ export class WorldContextHandler {
             console.warn(`Failed to fetch nearby players for location ${locationId}:`, error)
         }
 
+        // NPCs present: same cross-partition caveat as nearbyPlayers (npcs container is partitioned by NPC id).
+        let npcs: Array<{ id: string; name: string; disposition: string; tags?: string[] }> = []
+        try {
+            const npcsHere = await this.npcRepo.listNpcsAtLocation(locationId, 20)
+            npcs = npcsHere.map((n) => ({ id: n.id, name: n.name, disposition: n.disposition, tags: n.tags }))
+        } catch (error) {
+            console.warn(`Failed to fetch NPCs for location ${locationId}:`, error)
+        }
+
         // Recent events: single-partition timeline query via scopeKey = loc:<locationId>
         const timeline = await this.worldEventRepo.queryByScope(buildLocationScopeKey(locationId), { limit: 20 })
         const recentEvents = timeline.events.map((e) => ({
@@ -291,6 +293,7 @@ export class WorldContextHandler {
             narrativeTags,
             ambient,
             nearbyPlayers,
+            npcs,
             recentEvents
         })
     }
@@ -303,6 +306,7 @@ export class WorldContextHandler {
      * - location (best-effort)
      * - inventory items (SQL API inventory)
      * - recent player-scoped events (SQL API worldEvents, scopeKey=player:<id>)
+     * - discoveries: locations the player has seen, newest first, with the total (SQL API discoveries)
      */
     async getPlayerContext(toolArguments: unknown, context: InvocationContext): Promise<string> {
         void context // part of the MCP handler signature; intentionally unused
@@ -364,19 +368,34 @@ export class WorldContextHandler {
             actorKind: e.actorKind
         }))
 
+        const recentDiscoveries = await this.discoveryRepo.listForPlayer(playerId, 10)
+        const discoveries = {
+            total: Math.max(await this.discoveryRepo.countForPlayer(playerId), recentDiscoveries.length),
+            recent: recentDiscoveries.map((d) => ({
+                locationId: d.locationId,
+                locationName: d.locationName,
+                firstSeenTick: d.firstSeenTick,
+                lastSeenUtc: d.lastSeenUtc,
+                visitCount: d.visitCount
+            }))
+        }
+
         return JSON.stringify({
             tick,
             player,
             location,
             inventory,
             recentEvents,
+            discoveries,
             warnings
         })
     }
 
     /**
      * Assemble atmosphere context for a location: weather, lighting, ambient conditions,
-     * plus a basic time-of-day label.
+     * plus the time of day from the world calendar (label and timeBucket).
+     * Without a lighting layer that applies now, lighting defaults to the time bucket's lighting
+     * for an interior or exterior location.
      */
     async getAtmosphere(toolArguments: unknown, context: InvocationContext): Promise<string> {
         void context // part of the MCP handler signature; intentionally unused
@@ -401,17 +420,26 @@ export class WorldContextHandler {
         const ambientLayer = await this.layerRepo.getActiveLayerForLocation(locationId, 'ambient', tick)
         const lightingLayer = await this.layerRepo.getActiveLayerForLocation(locationId, 'lighting', tick)
 
+        // If the world clock is uninitialized, it reports 0; treat the time-of-day as a friendly default.
+        const uninitialized = explicitTick === undefined && tick === 0
+        const calendar = worldTimeOfDay(tick)
+        const timeOfDay = uninitialized ? 'noon' : calendar.label
+        const timeBucket = uninitialized ? 'day' : calendar.bucket
+        const setting = lightingSetting((await this.locationRepo.get(locationId)) ?? {})
+
         const weather = buildLayerValueOrDefault('weather', weatherLayer, 'clear')
         const ambient = buildLayerValueOrDefault('ambient', ambientLayer, 'calm')
-        const lighting = buildLayerValueOrDefault('lighting', lightingLayer, 'daylight')
-
-        // If the world clock is uninitialized, it reports 0; treat the time-of-day as a friendly default.
-        const timeOfDay = explicitTick === undefined && tick === 0 ? 'noon' : inferTimeOfDayLabelFromTick(tick)
+        const lighting = buildLayerValueOrDefault(
+            'lighting',
+            lightingLayer && lightingLayerApplies(lightingLayer, timeBucket, setting) ? lightingLayer : null,
+            DEFAULT_LIGHTING[timeBucket][setting].label
+        )
 
         return JSON.stringify({
             tick,
             locationId,
             timeOfDay,
+            timeBucket,
             weather,
             lighting,
             ambient
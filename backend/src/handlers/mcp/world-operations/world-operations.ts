@@ -1,4 +1,5 @@
 import type { InvocationContext } from '@azure/functions'
+import type { DeadLetterErrorCode } from '@piquet-h/shared/deadLetter'
 import { Container, inject, injectable } from 'inversify'
 import { v4 as uuidv4 } from 'uuid'
 import {
@@ -7,10 +8,13 @@ import {
     MAX_BUDGET_LOCATIONS,
     type AreaGenerationMode
 } from '../../../services/AreaGenerationOrchestrator.js'
+import { DEAD_LETTER_REDRIVE_LIMIT, DeadLetterRedriveService } from '../../../services/DeadLetterRedriveService.js'
 import { isValidGuid } from '../../utils/validation.js'
 
 const VALID_MODES: readonly AreaGenerationMode[] = ['urban', 'wilderness', 'auto']
 
+const VALID_ERROR_CODES: readonly DeadLetterErrorCode[] = ['json-parse', 'schema-validation', 'handler-error', 'unknown']
+
 type ToolArgs<T> = { arguments?: T }
 
 type TriggerAreaGenerationArgs = {
@@ -21,6 +25,22 @@ type TriggerAreaGenerationArgs = {
     idempotencyKey?: string
 }
 
+type ListDeadLettersArgs = {
+    startUtc?: string
+    endUtc?: string
+    eventType?: string
+    errorCode?: string
+    limit?: number | string
+}
+
+type RedriveDeadLettersArgs = {
+    ids?: string
+}
+
+function optionalString(value: unknown): string | undefined {
+    return typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined
+}
+
 /**
  * MCP-style handler for world operations (operator tools).
  *
@@ -29,7 +49,10 @@ type TriggerAreaGenerationArgs = {
  */
 @injectable()
 export class WorldOperationsHandler {
-    constructor(@inject(AreaGenerationOrchestrator) private readonly orchestrator: AreaGenerationOrchestrator) {}
+    constructor(
+        @inject(AreaGenerationOrchestrator) private readonly orchestrator: AreaGenerationOrchestrator,
+        @inject(DeadLetterRedriveService) private readonly deadLetters: DeadLetterRedriveService
+    ) {}
 
     /**
      * Trigger bounded area generation from an anchor location.
@@ -137,6 +160,79 @@ export class WorldOperationsHandler {
             })
         }
     }
+
+    /**
+     * List dead-lettered world events by time window, event type and error code.
+     *
+     * Returns a JSON object with:
+     * - ok: boolean
+     * - records: redacted dead-letter records, newest first, each with its current schema validation
+     * - error / message on failure
+     */
+    async listDeadLetters(toolArguments: unknown, context: InvocationContext): Promise<string> {
+        void context
+        const args = (toolArguments as ToolArgs<ListDeadLettersArgs>)?.arguments ?? {}
+
+        const startUtc = optionalString(args.startUtc)
+        const endUtc = optionalString(args.endUtc)
+        if ((startUtc && Number.isNaN(Date.parse(startUtc))) || (endUtc && Number.isNaN(Date.parse(endUtc)))) {
+            return JSON.stringify({ ok: false, error: 'ValidationError', message: 'startUtc and endUtc must be ISO-8601 timestamps' })
+        }
+        const errorCode = optionalString(args.errorCode)
+        if (errorCode !== undefined && !(VALID_ERROR_CODES as string[]).includes(errorCode)) {
+            return JSON.stringify({
+                ok: false,
+                error: 'ValidationError',
+                message: `errorCode must be one of: ${VALID_ERROR_CODES.join(', ')}`
+            })
+        }
+        const limit = typeof args.limit === 'string' ? parseInt(args.limit, 10) : args.limit
+        if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+            return JSON.stringify({ ok: false, error: 'ValidationError', message: 'limit must be a positive integer' })
+        }
+
+        const records = await this.deadLetters.list({
+            startUtc: startUtc && new Date(startUtc).toISOString(),
+            endUtc: endUtc && new Date(endUtc).toISOString(),
+            eventType: optionalString(args.eventType),
+            errorCode: errorCode as DeadLetterErrorCode | undefined,
+            limit
+        })
+        return JSON.stringify({ ok: true, records })
+    }
+
+    /**
+     * Re-validate dead-lettered world events and publish the valid ones again (new eventId; causationId is the record id).
+     *
+     * Returns a JSON object with:
+     * - ok: boolean
+     * - correlationId: string (UUID, fresh per call; recorded on every attempt)
+     * - results: per-record outcome, in request order; redriven: count published
+     * - error / message on failure
+     */
+    async redriveDeadLetters(toolArguments: unknown, context: InvocationContext): Promise<string> {
+        void context
+        const args = (toolArguments as ToolArgs<RedriveDeadLettersArgs>)?.arguments ?? {}
+
+        const ids = (optionalString(args.ids) ?? '')
+            .split(',')
+            .map((id) => id.trim())
+            .filter(Boolean)
+        if (ids.length === 0 || ids.length > DEAD_LETTER_REDRIVE_LIMIT) {
+            return JSON.stringify({
+                ok: false,
+                error: 'ValidationError',
+                message: `ids must list 1 to ${DEAD_LETTER_REDRIVE_LIMIT} dead-letter record ids`
+            })
+        }
+        if (!ids.every((id) => isValidGuid(id))) {
+            return JSON.stringify({ ok: false, error: 'ValidationError', message: 'Dead-letter ids must be valid GUIDs' })
+        }
+
+        const correlationId = uuidv4()
+        const { results, redriven } = await this.deadLetters.redrive([...new Set(ids)], correlationId)
+        return JSON.stringify({ ok: true, correlationId, results, redriven })
+    }
 }
 
 export async function triggerAreaGeneration(toolArguments: unknown, context: InvocationContext): Promise<string> {
@@ -144,3 +240,15 @@ export async function triggerAreaGeneration(toolArguments: unknown, context: Inv
     const handler = container.get(WorldOperationsHandler)
     return handler.triggerAreaGeneration(toolArguments, context)
 }
+
+export async function listDeadLetters(toolArguments: unknown, context: InvocationContext): Promise<string> {
+    const container = context.extraInputs.get('container') as Container
+    const handler = container.get(WorldOperationsHandler)
+    return handler.listDeadLetters(toolArguments, context)
+}
+
+export async function redriveDeadLetters(toolArguments: unknown, context: InvocationContext): Promise<string> {
+    const container = context.extraInputs.get('container') as Container
+    const handler = container.get(WorldOperationsHandler)
+    return handler.redriveDeadLetters(toolArguments, context)
+}
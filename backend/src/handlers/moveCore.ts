@@ -1,85 +1,20 @@
 import type { HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions'
-import {
-    CompiledDescription,
-    enrichErrorAttributes,
-    enrichMovementAttributes,
-    ExitInfo,
-    getExitGenerationHintStore,
-    getOppositeDirection,
-    getPlayerHeadingStore,
-    hashPlayerIdForTelemetry,
-    normalizeDirection,
-    STARTER_LOCATION_ID,
-    type Direction,
-    type Location,
-    type TerrainType
-} from '@piquet-h/shared'
-import { type ExitGenerationHintPayload } from '@piquet-h/shared/events'
-import type { IPlayerRepository } from '@piquet-h/shared/types/playerRepository'
 import { inject, injectable } from 'inversify'
-import { createHash } from 'node:crypto'
-import { TOKENS } from '../di/tokens.js'
 import { checkRateLimit } from '../middleware/rateLimitMiddleware.js'
 import { rateLimiters } from '../middleware/rateLimiter.js'
-import type { IExitGenerationHintPublisher } from '../queues/exitGenerationHintPublisher.js'
-import type { ILocationRepository } from '../repos/locationRepository.js'
-import { FRONTIER_BOUNDARY_TAG } from '../seeding/frontierSelectionPolicy.js'
-import { DescriptionComposer } from '../services/descriptionComposer.js'
-import { tryCreatePrefetchEvent } from '../services/prefetchBatchGeneration.js'
+import { MovementService, type MoveResult } from '../services/MovementService.js'
 import type { ITelemetryClient } from '../telemetry/ITelemetryClient.js'
-import type { IWorldEventPublisher } from '../worldEvents/worldEventPublisher.js'
 import { BaseHandler } from './base/BaseHandler.js'
 import { buildMoveResponse } from './moveResponse.js'
-import { convertLocationExitsToExitInfo } from './utils/exitHelpers.js'
-import { DEFAULT_TRAVEL_DURATION_MS, INTERIOR_TRAVEL_DURATION_MS } from './utils/travelDurationHeuristics.js'
 import { isValidGuid } from './utils/validation.js'
 
-/**
- * Derive a stable interior location ID from a structure location ID.
- * Uses SHA-256 so the same structure always produces the same interior UUID,
- * enabling idempotent on-demand materialization even under concurrent entry.
- *
- * Note: the resulting string follows the UUID hex-group layout (8-4-4-4-12)
- * for compatibility with repository ID conventions, but it is NOT an RFC 4122
- * UUID (no version/variant nibbles are set). The stable derivation is more
- * important here than strict RFC conformance.
- */
-function deriveInteriorId(structureId: string): string {
-    const hash = createHash('sha256').update(`structure-interior:${structureId}`).digest('hex')
-    return [hash.slice(0, 8), hash.slice(8, 12), hash.slice(12, 16), hash.slice(16, 20), hash.slice(20, 32)].join('-')
-}
-
-export interface MoveValidationError {
-    type: 'ambiguous' | 'invalid-direction' | 'from-missing' | 'no-exit' | 'move-failed' | 'generate' | 'locked'
-    statusCode: number
-    clarification?: string
-    reason?: string
-    generationHint?: { originLocationId: string; direction: string }
-}
-
-export interface MoveResult {
-    success: boolean
-    location?: {
-        id: string
-        name: string
-        description: CompiledDescription
-        exits?: ExitInfo[]
-        /** Simulated travel duration for the move leg (distinct from request latency). */
-        travel?: { durationMs: number; source: 'edge' | 'default' }
-    }
-    error?: MoveValidationError
-    latencyMs: number
-}
+export type { MoveResult, MoveValidationError } from '../services/MovementService.js'
 
 @injectable()
 export class MoveHandler extends BaseHandler {
     constructor(
         @inject('ITelemetryClient') telemetry: ITelemetryClient,
-        @inject('ILocationRepository') private locationRepo: ILocationRepository,
-        @inject('IPlayerRepository') private playerRepo: IPlayerRepository,
-        @inject(DescriptionComposer) private descriptionComposer: DescriptionComposer,
-        @inject(TOKENS.WorldEventPublisher) private eventPublisher: IWorldEventPublisher,
-        @inject(TOKENS.ExitGenerationHintPublisher) private exitHintPublisher: IExitGenerationHintPublisher
+        @inject(MovementService) private movement: MovementService
     ) {
         super(telemetry)
     }
@@ -100,12 +35,10 @@ export class MoveHandler extends BaseHandler {
     }
 
     /**
-     * Core move logic - public for backward compatibility with tests
-     * Returns MoveResult for tests, while execute() handles HTTP response building
+     * Read the direction (and legacy origin) from the request and move through MovementService.
+     * Public for backward compatibility with tests; execute() handles HTTP response building.
      */
     async performMove(req: HttpRequest): Promise<MoveResult> {
-        const started = Date.now()
-
         // Parse direction from request body or query params
         let parsedBody: Record<string, unknown> = {}
         const contentType = req.headers.get('content-type') || ''
@@ -152,431 +85,13 @@ export class MoveHandler extends BaseHandler {
             }
         }
 
-        // Security: Determine origin location (authoritative)
-        // For authenticated moves: Read from player's database record (prevents client spoofing)
-        // For anonymous/test moves: Accept fromLocationId from request (backward compatibility)
-        let fromId: string
-        if (this.playerGuid) {
-            const player = await this.playerRepo.get(this.playerGuid)
-            if (player?.currentLocationId) {
-                // Use player's actual location from database (authoritative)
-                fromId = player.currentLocationId
-            } else {
-                // Player exists but has no location - this shouldn't happen after bootstrap
-                // Fall back to request-provided location or starter
-                const bodyFrom = (parsedBody['fromLocationId'] || parsedBody['from']) as string | undefined
-                fromId = req.query.get('from') || bodyFrom || STARTER_LOCATION_ID
-            }
-        } else {
-            // No player GUID (anonymous/test mode) - use request-provided location
-            const bodyFrom = (parsedBody['fromLocationId'] || parsedBody['from']) as string | undefined
-            fromId = req.query.get('from') || bodyFrom || STARTER_LOCATION_ID
-        }
-
-        const headingStore = getPlayerHeadingStore()
-        const lastHeading = this.playerGuid ? headingStore.getLastHeading(this.playerGuid) : undefined
-        const normalizationResult = normalizeDirection(rawDir, lastHeading)
-
-        // Ambiguous relative direction
-        if (normalizationResult.status === 'ambiguous') {
-            this.track('Navigation.Input.Ambiguous', { fromLocationId: fromId, input: rawDir, reason: 'no-heading' })
-            return {
-                success: false,
-                error: {
-                    type: 'ambiguous',
-                    statusCode: 400,
-                    clarification: normalizationResult.clarification || 'Ambiguous direction'
-                },
-                latencyMs: Date.now() - started
-            }
-        }
-
-        // Invalid / unknown direction
-        if (normalizationResult.status === 'unknown' || !normalizationResult.canonical) {
-            const props = {
-                from: fromId,
-                direction: rawDir,
-                status: 400,
-                reason: 'invalid-direction',
-                latencyMs: Date.now() - started
-            }
-            enrichMovementAttributes(props, {
-                playerId: this.playerGuid,
-                fromLocationId: fromId,
-                exitDirection: rawDir
-            })
-            enrichErrorAttributes(props, { errorCode: 'invalid-direction' })
-            this.track('Navigation.Move.Blocked', props)
-            return {
-                success: false,
-                error: {
-                    type: 'invalid-direction',
-                    statusCode: 400,
-                    clarification: normalizationResult.clarification || 'Invalid or missing direction'
-                },
-                latencyMs: Date.now() - started
-            }
-        }
-
-        const dir = normalizationResult.canonical
-
-        // Fetch starting location
-        const from = await this.locationRepo.get(fromId)
-        if (!from) {
-            const props = {
-                from: fromId,
-                direction: dir,
-                status: 404,
-                reason: 'from-missing',
-                latencyMs: Date.now() - started
-            }
-            enrichMovementAttributes(props, {
-                playerId: this.playerGuid,
-                fromLocationId: fromId,
-                exitDirection: dir
-            })
-            enrichErrorAttributes(props, { errorCode: 'from-missing' })
-            this.track('Navigation.Move.Blocked', props)
-            return {
-                success: false,
-                error: { type: 'from-missing', statusCode: 404, reason: 'from-missing' },
-                latencyMs: Date.now() - started
-            }
-        }
-
-        // Verify exit
-        let exit = from.exits?.find((e) => e.direction === dir)
-
-        // On-demand structure interior materialization:
-        // If direction is 'in' and the location advertises a pending 'in' exit,
-        // synchronously create the interior node and wire exits before falling
-        // through to the normal move path. Works for any structure type — shops,
-        // taverns, cottages, shrines, etc. — as long as the location carries
-        // exitAvailability.pending.in in its seed or persisted data.
-        if (!exit?.to && dir === 'in' && from.exitAvailability?.pending && 'in' in from.exitAvailability.pending) {
-            const interiorId = deriveInteriorId(fromId)
-            const alreadyExisted = !!(await this.locationRepo.get(interiorId))
-            if (!alreadyExisted) {
-                const settlementTags = from.tags?.filter((t) => t.startsWith('settlement:')) ?? []
-                const interior: Location = {
-                    id: interiorId,
-                    name: `${from.name} — Interior`,
-                    description: 'Low rafters and worn flagstones; pale light filters through a single shuttered window.',
-                    tags: [...settlementTags, 'interior:auto'],
-                    exits: [{ direction: 'out', to: fromId, description: 'The door back outside.' }],
-                    version: 1
-                }
-                await this.locationRepo.upsert(interior)
-            }
-            const interiorExitResult = await this.locationRepo.ensureExitBidirectional(fromId, 'in', interiorId, {
-                reciprocal: true,
-                description: 'Step through the low doorway.',
-                reciprocalDescription: 'The door back outside.'
-            })
-            // Persist short interior travel durations on newly created edges.
-            // When !alreadyExisted the 'out' exit is embedded in the upsert above so
-            // reciprocalCreated will be false even though the edge is brand new — set it
-            // unconditionally in that case.
-            if (interiorExitResult.created) {
-                await this.locationRepo.setExitTravelDuration(fromId, 'in', INTERIOR_TRAVEL_DURATION_MS)
-            }
-            if (interiorExitResult.reciprocalCreated || !alreadyExisted) {
-                await this.locationRepo.setExitTravelDuration(interiorId, 'out', INTERIOR_TRAVEL_DURATION_MS)
-            }
-            this.telemetry.trackEvent({
-                name: 'Navigation.Interior.Materialized',
-                properties: {
-                    structureLocationId: fromId,
-                    interiorLocationId: interiorId,
-                    alreadyExisted,
-                    correlationId: this.correlationId
-                }
-            })
-            exit = { direction: 'in', to: interiorId }
-        }
-
-        // Soft denial: exit exists but is currently locked.
-        // This is a policy check — the exit edge is wired but entry is denied.
-        // Returns 400 (not 5xx); no generation hint is emitted.
-        if (exit?.to && exit.lockState === 'locked') {
-            const props = {
-                from: fromId,
-                direction: dir,
-                status: 400,
-                reason: 'entrance-locked',
-                latencyMs: Date.now() - started
-            }
-            enrichMovementAttributes(props, {
-                playerId: this.playerGuid,
-                fromLocationId: fromId,
-                exitDirection: dir
-            })
-            this.track('Navigation.Move.Locked', props)
-            return {
-                success: false,
-                error: {
-                    type: 'locked',
-                    statusCode: 400,
-                    reason: 'entrance-locked',
-                    clarification: 'This entrance is locked'
-                },
-                latencyMs: Date.now() - started
-            }
-        }
-
-        if (!exit || !exit.to) {
-            // Note: check if direction is forbidden before emitting generation hint
-            // When Location/LocationNode exitAvailability is wired from persistence:
-            // if (from.exitAvailability?.forbidden?.[dir]) {
-            //     return no-exit error without generation hint
-            // }
-
-            // Interior locations (those with an 'out' exit) must never generate an 'in' exit.
-            // Allowing it would wire an open-world frontier stub into an enclosed interior,
-            // e.g. a tavern common room opening into an Unexplored Open Plain.
-            if (dir === 'in' && from.exits?.some((e) => e.direction === 'out')) {
-                return {
-                    success: false,
-                    error: {
-                        type: 'generate',
-                        statusCode: 400,
-                        reason: 'no-exit',
-                        clarification: `No exit ${dir} from here yet. Your interest has been noted.`
-                    },
-                    latencyMs: Date.now() - started
-                }
-            }
-
-            // Valid canonical direction but no exit - emit generation hint
-            const hintStore = getExitGenerationHintStore()
-            const playerId = this.playerGuid || 'anonymous'
-            const hintResult = hintStore.checkAndRecord(playerId, fromId, dir)
-
-            // Emit telemetry event with hashed identifiers (privacy)
-            if (hintResult.shouldEmit) {
-                const telemetryProps = {
-                    dir,
-                    originHashed: hashPlayerIdForTelemetry(fromId),
-                    playerHashed: hashPlayerIdForTelemetry(playerId),
-                    timestamp: hintResult.hint.timestamp,
-                    debounceHit: hintResult.debounceHit
-                }
-                this.track('Navigation.Exit.GenerationRequested', telemetryProps)
-
-                // Publish hint for async materialization only when we have a valid
-                // authenticated player GUID (queue schema requires UUID playerId).
-                if (this.playerGuid) {
-                    const payload: ExitGenerationHintPayload = {
-                        dir,
-                        originLocationId: fromId,
-                        playerId: this.playerGuid,
-                        timestamp: hintResult.hint.timestamp,
-                        debounced: hintResult.debounceHit
-                    }
-
-                    try {
-                        await this.exitHintPublisher.enqueueHint(payload, this.correlationId)
-                    } catch {
-                        // Non-blocking: hint enqueue failures should not fail move responses.
-                    }
-                }
-            }
-
-            // Return generate status with hint payload
-            const latencyMs = Date.now() - started
-            return {
-                success: false,
-                error: {
-                    type: 'generate',
-                    statusCode: 400,
-                    reason: 'no-exit',
-                    clarification: `No exit ${dir} from here yet. Your interest has been noted.`,
-                    generationHint: {
-                        originLocationId: fromId,
-                        direction: dir
-                    }
-                },
-                latencyMs
-            }
-        }
-
-        // Determine the simulated travel time for this movement leg.
-        // This is used for narrative/time consistency and should not be confused with request latency.
-        const legTravelDurationMs =
-            typeof exit.travelDurationMs === 'number' && exit.travelDurationMs > 0 ? exit.travelDurationMs : DEFAULT_TRAVEL_DURATION_MS
-        const legTravelSource: 'edge' | 'default' =
-            typeof exit.travelDurationMs === 'number' && exit.travelDurationMs > 0 ? 'edge' : 'default'
-
-        // Execute move
-        const result = await this.locationRepo.move(fromId, dir)
-        if (result.status === 'error') {
-            const reason = result.reason
-            const statusMap: Record<string, number> = { 'from-missing': 404, 'no-exit': 400, 'target-missing': 500 }
-            const props = {
-                from: fromId,
-                direction: dir,
-                status: statusMap[reason] || 500,
-                reason,
-                latencyMs: Date.now() - started
-            }
-            enrichMovementAttributes(props, {
-                playerId: this.playerGuid,
-                fromLocationId: fromId,
-                exitDirection: dir
-            })
-            enrichErrorAttributes(props, { errorCode: reason })
-            this.track('Navigation.Move.Blocked', props)
-            return {
-                success: false,
-                error: { type: 'move-failed', statusCode: statusMap[reason] || 500, reason },
-                latencyMs: Date.now() - started
-            }
-        }
-
-        // Update heading
-        if (this.playerGuid) headingStore.setLastHeading(this.playerGuid, dir)
-
-        // Update player location in persistent storage
-        if (this.playerGuid) {
-            try {
-                const player = await this.playerRepo.get(this.playerGuid)
-                if (!player) {
-                    // Player document missing - CRITICAL ERROR, fail the move
-                    this.track('Player.Update', {
-                        playerId: this.playerGuid,
-                        success: false,
-                        reason: 'player-not-found',
-                        toLocationId: result.location.id
-                    })
-                    return {
-                        success: false,
-                        error: { type: 'move-failed', statusCode: 500, reason: 'player-not-found' },
-                        latencyMs: Date.now() - started
-                    }
-                }
-                player.currentLocationId = result.location.id
-                await this.playerRepo.update(player)
-                // Emit success telemetry for persistence
-                this.track('Player.Update', {
-                    playerId: this.playerGuid,
-                    success: true,
-                    toLocationId: result.location.id,
-                    latencyMs: Date.now() - started
-                })
-            } catch (error) {
-                // Update failed - FAIL THE MOVE
-                this.track('Player.Update', {
-                    playerId: this.playerGuid,
-                    success: false,
-                    reason: 'update-failed',
-                    toLocationId: result.location.id,
-                    error: error instanceof Error ? error.message : String(error)
-                })
-                return {
-                    success: false,
-                    error: { type: 'move-failed', statusCode: 500, reason: 'persistence-failed' },
-                    latencyMs: Date.now() - started
-                }
-            }
-        }
-
-        // Compile description for the new location
-        // Pass location's description as the base - layers are applied on top
-        const compiled = await this.descriptionComposer.compileForLocation(
-            result.location.id,
-            { timestamp: new Date().toISOString() },
-            { baseDescription: result.location.description }
-        )
-
-        // Build exit availability info using shared helper
-        const exitInfoArray = convertLocationExitsToExitInfo(result.location.exits, result.location.exitAvailability)
-
-        // Prefetch batch generation for pending exits (Issue #811)
-        // Only trigger on successful arrival at explicitly tagged frontier boundaries.
-        // This prevents chain-reaction fanout from newly materialized generic stubs
-        // while preserving proactive expansion from curated boundary anchors.
-        if (result.location.exitAvailability && result.location.tags?.includes(FRONTIER_BOUNDARY_TAG)) {
-            try {
-                const prefetchResult = tryCreatePrefetchEvent(
-                    result.location.id,
-                    (result.location.terrain || 'open-plain') as TerrainType,
-                    // Contract: arrivalDirection is the direction the player arrived FROM.
-                    // If the player moved "north", they arrived from "south".
-                    getOppositeDirection(dir as Direction),
-                    result.location.exitAvailability,
-                    this.correlationId,
-                    undefined,
-                    result.location.tags
-                )
-
-                if (prefetchResult.event) {
-                    // Enqueue batch generation event
-                    await this.eventPublisher.enqueueEvents([prefetchResult.event])
-
-                    // Emit telemetry — selectedDirections makes the atlas-constrained selection
-                    // understandable during debugging (which directions were chosen and why).
-                    this.track('World.BatchGeneration.Prefetch', {
-                        rootLocationId: result.location.id,
-                        pendingExitCount: prefetchResult.pendingExitCount,
-                        selectedDirections: prefetchResult.selectedDirections?.join(','),
-                        correlationId: this.correlationId
-                    })
-                } else if (prefetchResult.debounced) {
-                    // Emit debounce telemetry
-                    this.track('World.BatchGeneration.Debounced', {
-                        rootLocationId: result.location.id,
-                        pendingExitCount: prefetchResult.pendingExitCount,
-                        correlationId: this.correlationId
-                    })
-                }
-            } catch (error) {
-                // Log error but don't fail the move (non-blocking)
-                this.track('World.BatchPrefetch.Failed', {
-                    rootLocationId: result.location.id,
-                    error: error instanceof Error ? error.message : String(error),
-                    correlationId: this.correlationId
-                })
-            }
-        }
-
-        const latencyMs = Date.now() - started
-        const props = {
-            from: fromId,
-            to: result.location.id,
-            direction: dir,
-            status: 200,
-            rawInput: rawDir !== dir.toLowerCase() ? rawDir : undefined,
-            latencyMs
-        }
-        enrichMovementAttributes(props, {
+        // Origin for anonymous / test moves (a known player always moves from their stored location)
+        const bodyFrom = (parsedBody['fromLocationId'] || parsedBody['from']) as string | undefined
+        return this.movement.move({
             playerId: this.playerGuid,
-            fromLocationId: fromId,
-            toLocationId: result.location.id,
-            exitDirection: dir
+            direction: rawDir,
+            fromLocationId: req.query.get('from') || bodyFrom || undefined,
+            correlationId: this.correlationId
         })
-        this.track('Navigation.Move.Success', props)
-
-        return {
-            success: true,
-            location: {
-                id: result.location.id,
-                name: result.location.name,
-                description: {
-                    text: compiled.text,
-                    html: compiled.html,
-                    provenance: {
-                        compiledAt: compiled.provenance.compiledAt,
-                        layersApplied: compiled.provenance.layers.map((l) => l.layerType),
-                        supersededSentences: 0
-                    }
-                },
-                exits: exitInfoArray,
-                travel: {
-                    durationMs: legTravelDurationMs,
-                    source: legTravelSource
-                }
-            },
-            latencyMs
-        }
     }
 }
@@ -0,0 +1,187 @@
+/**
+ * Player Chat Handlers
+ *
+ * POST /api/player/{playerId}/say
+ * POST /api/player/{playerId}/shout
+ * POST /api/player/{playerId}/whisper
+ * GET  /api/player/{playerId}/chat
+ *
+ * Player-to-player messages through ChatService: `say` reaches everyone at the speaker's location,
+ * `shout` also carries a few exits away, `whisper` reaches one player at the same location. Messages are
+ * rate limited per player and pass the content filter; listeners receive them as `chat.message` events
+ * on their live location stream. GET chat returns the recent says and shouts at the player's location.
+ *
+ * Request body (say / shout / whisper): { message: string, to?: string } (`to` is required for whisper)
+ * Response (200): { mode, message, filtered, heardBy, summary, locationId }
+ * Response (200, GET chat): { locationId, messages: [{ mode, speakerName, text, sentUtc }] } (oldest first)
+ *
+ * Errors: 400 InvalidPlayerId / InvalidJson / MissingField / MessageTooLong, 404 PlayerNotFound / RecipientNotFound,
+ *         429 RateLimitExceeded
+ */
+import type { HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions'
+import type { ChatHistoryResponse, ChatMode, ChatRequest, ChatResponse } from '@piquet-h/shared'
+import type { Container } from 'inversify'
+import { inject, injectable } from 'inversify'
+import { checkRateLimit } from '../middleware/rateLimitMiddleware.js'
+import { rateLimiters } from '../middleware/rateLimiter.js'
+import { ChatService, type ChatDenialReason } from '../services/ChatService.js'
+import type { ITelemetryClient } from '../telemetry/ITelemetryClient.js'
+import { BaseHandler } from './base/BaseHandler.js'
+import { errorResponse, okResponse } from './utils/responseBuilder.js'
+import { isValidGuid } from './utils/validation.js'
+
+const DENIAL_STATUS: Record<ChatDenialReason, { status: number; code: string }> = {
+    'player-not-found': { status: 404, code: 'PlayerNotFound' },
+    'rate-limited': { status: 429, code: 'RateLimitExceeded' },
+    'empty-message': { status: 400, code: 'MissingField' },
+    'message-too-long': { status: 400, code: 'MessageTooLong' },
+    'missing-recipient': { status: 400, code: 'MissingField' },
+    'recipient-not-found': { status: 404, code: 'RecipientNotFound' }
+}
+
+abstract class ChatCommandHandler extends BaseHandler {
+    protected abstract readonly mode: ChatMode
+
+    constructor(
+        telemetry: ITelemetryClient,
+        private chatService: ChatService
+    ) {
+        super(telemetry)
+    }
+
+    protected async execute(req: HttpRequest): Promise<HttpResponseInit> {
+        const playerId = req.params.playerId
+        if (!playerId || !isValidGuid(playerId)) {
+            return errorResponse(400, 'InvalidPlayerId', 'Player id must be a valid GUID format', { correlationId: this.correlationId })
+        }
+
+        let body: Partial<ChatRequest>
+        try {
+            const text = await req.text()
+            body = text ? (JSON.parse(text) as Partial<ChatRequest>) : {}
+        } catch {
+            return errorResponse(400, 'InvalidJson', 'Request body must be valid JSON', { correlationId: this.correlationId })
+        }
+        if (typeof body.message !== 'string') {
+            return errorResponse(400, 'MissingField', 'message is required', { correlationId: this.correlationId })
+        }
+
+        const result = await this.chatService.send({
+            playerId,
+            mode: this.mode,
+            message: body.message,
+            to: typeof body.to === 'string' ? body.to : undefined,
+            correlationId: this.correlationId
+        })
+        if (!result.success) {
+            const { status, code } = DENIAL_STATUS[result.reason]
+            this.track('Multiplayer.Chat.Blocked', { playerId, mode: this.mode, reason: result.reason, status })
+            return errorResponse(status, code, result.message, {
+                correlationId: this.correlationId,
+                ...(result.retryAfterSeconds !== undefined
+                    ? { additionalHeaders: { 'Retry-After': String(result.retryAfterSeconds) } }
+                    : {})
+            })
+        }
+
+        this.track('Multiplayer.Chat.Sent', {
+            playerId,
+            locationId: result.locationId,
+            mode: this.mode,
+            heardBy: result.heardBy,
+            locationsReached: result.locationsReached,
+            filtered: result.filtered
+        })
+
+        const response: ChatResponse = {
+            mode: result.mode,
+            message: result.message,
+            filtered: result.filtered,
+            heardBy: result.heardBy,
+            summary: result.summary,
+            locationId: result.locationId
+        }
+        return okResponse(response, { correlationId: this.correlationId, playerGuid: playerId })
+    }
+}
+
+@injectable()
+export class PlayerSayHandler extends ChatCommandHandler {
+    protected readonly mode = 'say' as const
+
+    constructor(@inject('ITelemetryClient') telemetry: ITelemetryClient, @inject(ChatService) chatService: ChatService) {
+        super(telemetry, chatService)
+    }
+}
+
+@injectable()
+export class PlayerShoutHandler extends ChatCommandHandler {
+    protected readonly mode = 'shout' as const
+
+    constructor(@inject('ITelemetryClient') telemetry: ITelemetryClient, @inject(ChatService) chatService: ChatService) {
+        super(telemetry, chatService)
+    }
+}
+
+@injectable()
+export class PlayerWhisperHandler extends ChatCommandHandler {
+    protected readonly mode = 'whisper' as const
+
+    constructor(@inject('ITelemetryClient') telemetry: ITelemetryClient, @inject(ChatService) chatService: ChatService) {
+        super(telemetry, chatService)
+    }
+}
+
+@injectable()
+export class PlayerChatHistoryHandler extends BaseHandler {
+    constructor(
+        @inject('ITelemetryClient') telemetry: ITelemetryClient,
+        @inject(ChatService) private chatService: ChatService
+    ) {
+        super(telemetry)
+    }
+
+    protected async execute(req: HttpRequest): Promise<HttpResponseInit> {
+        const rateLimitResponse = checkRateLimit(req, rateLimiters.look, 'player/chat')
+        if (rateLimitResponse) {
+            return rateLimitResponse
+        }
+
+        const playerId = req.params.playerId
+        if (!playerId || !isValidGuid(playerId)) {
+            return errorResponse(400, 'InvalidPlayerId', 'Player id must be a valid GUID format', { correlationId: this.correlationId })
+        }
+
+        const recent = await this.chatService.recentAt(playerId)
+        if (!recent) {
+            return errorResponse(404, 'PlayerNotFound', 'Player not found', { correlationId: this.correlationId })
+        }
+
+        const response: ChatHistoryResponse = recent
+        return okResponse(response, { correlationId: this.correlationId, playerGuid: playerId })
+    }
+}
+
+export async function handlePlayerSay(req: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    const container = context.extraInputs.get('container') as Container
+    const handler = container.get(PlayerSayHandler)
+    return handler.handle(req, context)
+}
+
+export async function handlePlayerShout(req: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    const container = context.extraInputs.get('container') as Container
+    const handler = container.get(PlayerShoutHandler)
+    return handler.handle(req, context)
+}
+
+export async function handlePlayerWhisper(req: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    const container = context.extraInputs.get('container') as Container
+    const handler = container.get(PlayerWhisperHandler)
+    return handler.handle(req, context)
+}
+
+export async function handlePlayerChatHistory(req: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    const container = context.extraInputs.get('container') as Container
+    const handler = container.get(PlayerChatHistoryHandler)
+    return handler.handle(req, context)
+}
@@ -0,0 +1,61 @@
+/**
+ * Player Clarification Discard Handler
+ *
+ * DELETE /api/player/{playerId}/clarification
+ *
+ * Drops the player's open clarification question (see CommandClarificationService). The client calls this when
+ * it runs a command itself (look, inventory, quests, who, verbose…) while a question is open, so the next input
+ * is not taken as an answer to a question the player has moved on from.
+ *
+ * Response (200): { playerId, discarded: boolean }  // false when no question was open
+ *
+ * Errors: 400 InvalidPlayerId
+ */
+import type { HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions'
+import type { Container } from 'inversify'
+import { inject, injectable } from 'inversify'
+import { checkRateLimit } from '../middleware/rateLimitMiddleware.js'
+import { rateLimiters } from '../middleware/rateLimiter.js'
+import { CommandClarificationService } from '../services/CommandClarificationService.js'
+import type { ITelemetryClient } from '../telemetry/ITelemetryClient.js'
+import { BaseHandler } from './base/BaseHandler.js'
+import { errorResponse, okResponse } from './utils/responseBuilder.js'
+import { isValidGuid } from './utils/validation.js'
+
+@injectable()
+export class PlayerClarificationDiscardHandler extends BaseHandler {
+    constructor(
+        @inject('ITelemetryClient') telemetry: ITelemetryClient,
+        @inject(CommandClarificationService) private readonly clarifications: CommandClarificationService
+    ) {
+        super(telemetry)
+    }
+
+    protected async execute(req: HttpRequest): Promise<HttpResponseInit> {
+        const rateLimitResponse = checkRateLimit(req, rateLimiters.look, 'player/clarification')
+        if (rateLimitResponse) {
+            return rateLimitResponse
+        }
+
+        const playerId = req.params.playerId
+        if (!playerId || !isValidGuid(playerId)) {
+            return errorResponse(400, 'InvalidPlayerId', 'Player id must be a valid GUID format', { correlationId: this.correlationId })
+        }
+
+        const pending = await this.clarifications.discard(playerId)
+        if (pending) {
+            this.telemetry.trackEvent({
+                name: 'PlayerCommand.Clarification.Dropped',
+                properties: { slot: pending.slot, reason: 'discarded', correlationId: this.correlationId }
+            })
+        }
+
+        return okResponse({ playerId, discarded: pending !== null }, { correlationId: this.correlationId, playerGuid: playerId })
+    }
+}
+
+export async function handlePlayerClarificationDiscard(req: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    const container = context.extraInputs.get('container') as Container
+    const handler = container.get(PlayerClarificationDiscardHandler)
+    return handler.handle(req, context)
+}
@@ -0,0 +1,236 @@
+/**
+ * Player Combat Handlers
+ *
+ * POST /api/player/{playerId}/attack
+ * POST /api/player/{playerId}/defend
+ * POST /api/player/{playerId}/flee
+ *
+ * Each request resolves one deterministic combat round through CombatService (seeded dice against
+ * attribute-backed HP / armor class). The opening and closing rounds of an encounter get flavour text
+ * from the narrate-encounter tool; narration never changes the outcome and its failures are ignored.
+ *
+ * Request body:
+ *   attack: { npcId?: string, npcName?: string, actionIntent?: ActionIntent } (omit both to keep fighting the current opponent)
+ *   defend: { actionIntent?: ActionIntent }
+ *   flee:   { direction?: string, actionIntent?: ActionIntent }
+ * Response (200): { action, npc, round, outcome, player: { hp, maxHp }, npcHp: { hp, maxHp }, rolls, summary, narrative?, locationId, direction? }
+ *
+ * Errors: 400 InvalidPlayerId / InvalidJson / InvalidDirection / NoExit / ExitLocked, 404 PlayerNotFound / NpcNotFound,
+ * 409 NotInCombat / PlayerDefeated / TargetDefeated / NoEscape
+ */
+import type { HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions'
+import type { AttackRequest, CombatAction, CombatResponse, FleeRequest } from '@piquet-h/shared'
+import type { Container } from 'inversify'
+import { inject, injectable } from 'inversify'
+import { checkRateLimit } from '../middleware/rateLimitMiddleware.js'
+import { rateLimiters } from '../middleware/rateLimiter.js'
+import { CombatService, type CombatDenialReason, type CombatRoundResolution } from '../services/CombatService.js'
+import type { ITelemetryClient } from '../telemetry/ITelemetryClient.js'
+import { BaseHandler } from './base/BaseHandler.js'
+import { NarrativeGeneratorHandler } from './mcp/narrative-generator/narrative-generator.js'
+import { errorResponse, okResponse } from './utils/responseBuilder.js'
+import { isValidGuid } from './utils/validation.js'
+
+/** HTTP status and error code for each CombatService denial (shared with command chains). */
+export const COMBAT_DENIAL_STATUS: Record<CombatDenialReason, { status: number; code: string }> = {
+    'player-not-found': { status: 404, code: 'PlayerNotFound' },
+    'npc-not-found': { status: 404, code: 'NpcNotFound' },
+    'invalid-direction': { status: 400, code: 'InvalidDirection' },
+    'no-exit': { status: 400, code: 'NoExit' },
+    'exit-locked': { status: 400, code: 'ExitLocked' },
+    'not-in-combat': { status: 409, code: 'NotInCombat' },
+    'player-defeated': { status: 409, code: 'PlayerDefeated' },
+    'target-defeated': { status: 409, code: 'TargetDefeated' },
+    'no-escape': { status: 409, code: 'NoEscape' }
+}
+
+const ENCOUNTER_TENSION: Record<CombatRoundResolution['outcome'], string> = {
+    ongoing: 'high',
+    won: 'resolved',
+    lost: 'desperate',
+    fled: 'fraying'
+}
+
+type CombatBody = AttackRequest & FleeRequest & { actionIntent?: unknown }
+
+/**
+ * Flavour text for a round from the narrate-encounter tool. Only the opening and closing rounds are narrated
+ * to keep AI calls off the hot path; narration failures are ignored.
+ */
+export async function narrateCombatRound(
+    narrativeGenerator: NarrativeGeneratorHandler,
+    result: CombatRoundResolution,
+    context: InvocationContext
+): Promise<string | undefined> {
+    if (result.round !== 1 && result.outcome === 'ongoing') return undefined
+    try {
+        const raw = await narrativeGenerator.narrateEncounter(
+            {
+                arguments: {
+                    encounterKind: result.outcome === 'ongoing' ? 'combat' : `combat-${result.outcome}`,
+                    npcName: result.npc.name,
+                    tension: ENCOUNTER_TENSION[result.outcome]
+                }
+            },
+            context
+        )
+        const parsed = JSON.parse(raw) as { narrative?: unknown }
+        return typeof parsed.narrative === 'string' && parsed.narrative ? parsed.narrative : undefined
+    } catch {
+        return undefined
+    }
+}
+
+/** Client-facing view of a resolved round. */
+export function toCombatResponse(result: CombatRoundResolution, narrative: string | undefined): CombatResponse {
+    const { npc } = result
+    return {
+        action: result.action,
+        npc: { id: npc.id, name: npc.name, disposition: npc.disposition, ...(npc.description ? { description: npc.description } : {}) },
+        round: result.round,
+        outcome: result.outcome,
+        player: result.player,
+        npcHp: result.npcHp,
+        rolls: result.rolls,
+        summary: result.summary,
+        ...(narrative ? { narrative } : {}),
+        locationId: result.locationId,
+        ...(result.direction ? { direction: result.direction } : {})
+    }
+}
+
+abstract class CombatCommandHandler extends BaseHandler {
+    protected abstract readonly action: CombatAction
+
+    constructor(
+        telemetry: ITelemetryClient,
+        private combatService: CombatService,
+        private narrativeGenerator: NarrativeGeneratorHandler
+    ) {
+        super(telemetry)
+    }
+
+    protected async execute(req: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+        const rateLimitResponse = checkRateLimit(req, rateLimiters.movement, `player/${this.action}`)
+        if (rateLimitResponse) {
+            return rateLimitResponse
+        }
+
+        const playerId = req.params.playerId
+        if (!playerId || !isValidGuid(playerId)) {
+            return errorResponse(400, 'InvalidPlayerId', 'Player id must be a valid GUID format', { correlationId: this.correlationId })
+        }
+
+        let body: Partial<CombatBody>
+        try {
+            const text = await req.text()
+            body = text ? (JSON.parse(text) as Partial<CombatBody>) : {}
+        } catch {
+            return errorResponse(400, 'InvalidJson', 'Request body must be valid JSON', { correlationId: this.correlationId })
+        }
+
+        const npcReference =
+            (typeof body.npcId === 'string' && body.npcId) || (typeof body.npcName === 'string' && body.npcName) || undefined
+        const result = await this.combatService.resolveRound({
+            playerId,
+            action: this.action,
+            npcReference: this.action === 'attack' ? npcReference : undefined,
+            direction: this.action === 'flee' && typeof body.direction === 'string' ? body.direction : undefined,
+            actionIntent: body.actionIntent,
+            correlationId: this.correlationId
+        })
+        if (!result.success) {
+            const { status, code } = COMBAT_DENIAL_STATUS[result.reason]
+            this.track('Combat.Action.Blocked', {
+                playerId,
+                locationId: result.locationId,
+                action: this.action,
+                status,
+                reason: result.reason
+            })
+            return errorResponse(status, code, result.message, { correlationId: this.correlationId })
+        }
+
+        const { npc, round, outcome } = result
+        this.track('Combat.Round.Resolved', {
+            playerId,
+            npcId: npc.id,
+            locationId: result.encounterLocationId,
+            action: this.action,
+            round,
+            outcome,
+            playerHp: result.player.hp,
+            npcHp: result.npcHp.hp,
+            status: 200
+        })
+        if (outcome !== 'ongoing') {
+            this.track('Combat.Encounter.Ended', {
+                playerId,
+                npcId: npc.id,
+                locationId: result.encounterLocationId,
+                outcome,
+                rounds: round
+            })
+        }
+
+        const narrative = await narrateCombatRound(this.narrativeGenerator, result, context)
+        return okResponse(toCombatResponse(result, narrative), { correlationId: this.correlationId, playerGuid: playerId })
+    }
+}
+
+@injectable()
+export class PlayerAttackHandler extends CombatCommandHandler {
+    protected readonly action = 'attack' as const
+
+    constructor(
+        @inject('ITelemetryClient') telemetry: ITelemetryClient,
+        @inject(CombatService) combatService: CombatService,
+        @inject(NarrativeGeneratorHandler) narrativeGenerator: NarrativeGeneratorHandler
+    ) {
+        super(telemetry, combatService, narrativeGenerator)
+    }
+}
+
+@injectable()
+export class PlayerDefendHandler extends CombatCommandHandler {
+    protected readonly action = 'defend' as const
+
+    constructor(
+        @inject('ITelemetryClient') telemetry: ITelemetryClient,
+        @inject(CombatService) combatService: CombatService,
+        @inject(NarrativeGeneratorHandler) narrativeGenerator: NarrativeGeneratorHandler
+    ) {
+        super(telemetry, combatService, narrativeGenerator)
+    }
+}
+
+@injectable()
+export class PlayerFleeHandler extends CombatCommandHandler {
+    protected readonly action = 'flee' as const
+
+    constructor(
+        @inject('ITelemetryClient') telemetry: ITelemetryClient,
+        @inject(CombatService) combatService: CombatService,
+        @inject(NarrativeGeneratorHandler) narrativeGenerator: NarrativeGeneratorHandler
+    ) {
+        super(telemetry, combatService, narrativeGenerator)
+    }
+}
+
+export async function handlePlayerAttack(req: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    const container = context.extraInputs.get('container') as Container
+    const handler = container.get(PlayerAttackHandler)
+    return handler.handle(req, context)
+}
+
+export async function handlePlayerDefend(req: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    const container = context.extraInputs.get('container') as Container
+    const handler = container.get(PlayerDefendHandler)
+    return handler.handle(req, context)
+}
+
+export async function handlePlayerFlee(req: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    const container = context.extraInputs.get('container') as Container
+    const handler = container.get(PlayerFleeHandler)
+    return handler.handle(req, context)
+}
@@ -0,0 +1,78 @@
+/**
+ * Player Discoveries Handler
+ *
+ * GET /api/player/{playerId}/discoveries
+ *
+ * The player's discovery journal: the locations they have seen, newest discovery first, with when each
+ * was first seen and how often it has been visited since. Sightings are recorded by DiscoveryService on
+ * every successful move and look.
+ *
+ * Response (200): { discoveries: [{ locationId, locationName, firstSeenTick, firstSeenUtc, lastSeenUtc, visitCount }], total }
+ *
+ * Errors: 400 InvalidPlayerId, 404 PlayerNotFound
+ */
+import type { HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions'
+import type { DiscoveryJournalEntry, DiscoveryJournalResponse, LocationDiscovery } from '@piquet-h/shared'
+import type { IPlayerRepository } from '@piquet-h/shared/types/playerRepository'
+import type { Container } from 'inversify'
+import { inject, injectable } from 'inversify'
+import { TOKENS } from '../di/tokens.js'
+import { checkRateLimit } from '../middleware/rateLimitMiddleware.js'
+import { rateLimiters } from '../middleware/rateLimiter.js'
+import { DiscoveryService } from '../services/DiscoveryService.js'
+import type { ITelemetryClient } from '../telemetry/ITelemetryClient.js'
+import { BaseHandler } from './base/BaseHandler.js'
+import { errorResponse, okResponse } from './utils/responseBuilder.js'
+import { isValidGuid } from './utils/validation.js'
+
+export function toDiscoveryJournalEntry(discovery: LocationDiscovery): DiscoveryJournalEntry {
+    return {
+        locationId: discovery.locationId,
+        locationName: discovery.locationName,
+        firstSeenTick: discovery.firstSeenTick,
+        firstSeenUtc: discovery.firstSeenUtc,
+        lastSeenUtc: discovery.lastSeenUtc,
+        visitCount: discovery.visitCount
+    }
+}
+
+@injectable()
+export class PlayerDiscoveriesHandler extends BaseHandler {
+    constructor(
+        @inject('ITelemetryClient') telemetry: ITelemetryClient,
+        @inject(TOKENS.PlayerRepository) private playerRepo: IPlayerRepository,
+        @inject(DiscoveryService) private discovery: DiscoveryService
+    ) {
+        super(telemetry)
+    }
+
+    protected async execute(req: HttpRequest): Promise<HttpResponseInit> {
+        const rateLimitResponse = checkRateLimit(req, rateLimiters.look, 'player/discoveries')
+        if (rateLimitResponse) {
+            return rateLimitResponse
+        }
+
+        const playerId = req.params.playerId
+        if (!playerId || !isValidGuid(playerId)) {
+            return errorResponse(400, 'InvalidPlayerId', 'Player id must be a valid GUID format', { correlationId: this.correlationId })
+        }
+
+        const player = await this.playerRepo.get(playerId)
+        if (!player) {
+            this.track('Discovery.Journal.Listed', { playerId, status: 404 })
+            return errorResponse(404, 'PlayerNotFound', 'Player not found', { correlationId: this.correlationId })
+        }
+
+        const { discoveries, total } = await this.discovery.journal(playerId)
+        this.track('Discovery.Journal.Listed', { playerId, count: discoveries.length, total, status: 200 })
+
+        const response: DiscoveryJournalResponse = { discoveries: discoveries.map(toDiscoveryJournalEntry), total }
+        return okResponse(response, { correlationId: this.correlationId, playerGuid: playerId })
+    }
+}
+
+export async function handlePlayerDiscoveries(req: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    const container = context.extraInputs.get('container') as Container
+    const handler = container.get(PlayerDiscoveriesHandler)
+    return handler.handle(req, context)
+}
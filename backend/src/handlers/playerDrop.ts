@@ -0,0 +1,106 @@
+/**
+ * Player Drop Handler
+ *
+ * POST /api/player/{playerId}/drop
+ *
+ * Moves an item from the player's inventory into their current location, where it
+ * becomes visible to location look. Optimistic concurrency on PlayerDoc.inventoryVersion,
+ * both store writes and the non-blocking Player.Drop world event live in InventoryService.
+ *
+ * Request body: { itemId?: string, itemName?: string, expectedVersion?: number, actionIntent?: ActionIntent }
+ * Response (200): { item: { id, name, description? }, locationId, inventoryVersion }
+ *
+ * Errors: 400 InvalidPlayerId / MissingField / InvalidJson / InvalidFormat, 404 PlayerNotFound / ItemNotFound,
+ * 409 InventoryVersionConflict
+ */
+import type { HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions'
+import type { Container } from 'inversify'
+import { inject, injectable } from 'inversify'
+import { checkRateLimit } from '../middleware/rateLimitMiddleware.js'
+import { rateLimiters } from '../middleware/rateLimiter.js'
+import { InventoryService } from '../services/InventoryService.js'
+import type { ITelemetryClient } from '../telemetry/ITelemetryClient.js'
+import { BaseHandler } from './base/BaseHandler.js'
+import { errorResponse, okResponse } from './utils/responseBuilder.js'
+import { isValidGuid } from './utils/validation.js'
+import {
+    inventoryDenialResponse,
+    inventoryDenialStatus,
+    parseExpectedVersion,
+    toItemSummary,
+    type ItemActionBody
+} from './utils/worldItemHelpers.js'
+
+@injectable()
+export class PlayerDropHandler extends BaseHandler {
+    constructor(
+        @inject('ITelemetryClient') telemetry: ITelemetryClient,
+        @inject(InventoryService) private inventoryService: InventoryService
+    ) {
+        super(telemetry)
+    }
+
+    protected async execute(req: HttpRequest): Promise<HttpResponseInit> {
+        const rateLimitResponse = checkRateLimit(req, rateLimiters.movement, 'player/drop')
+        if (rateLimitResponse) {
+            return rateLimitResponse
+        }
+
+        const playerId = req.params.playerId
+        if (!playerId || !isValidGuid(playerId)) {
+            return errorResponse(400, 'InvalidPlayerId', 'Player id must be a valid GUID format', { correlationId: this.correlationId })
+        }
+
+        let body: ItemActionBody
+        try {
+            const text = await req.text()
+            body = text ? (JSON.parse(text) as ItemActionBody) : {}
+        } catch {
+            return errorResponse(400, 'InvalidJson', 'Request body must be valid JSON', { correlationId: this.correlationId })
+        }
+
+        const reference = (typeof body.itemId === 'string' && body.itemId) || (typeof body.itemName === 'string' && body.itemName) || ''
+        if (!reference.trim()) {
+            return errorResponse(400, 'MissingField', 'itemId or itemName is required', { correlationId: this.correlationId })
+        }
+
+        const expectedVersion = parseExpectedVersion(body.expectedVersion)
+        if (expectedVersion === null) {
+            return errorResponse(400, 'InvalidFormat', 'expectedVersion must be a non-negative integer', {
+                correlationId: this.correlationId
+            })
+        }
+
+        const result = await this.inventoryService.releaseToLocation({
+            playerId,
+            reference,
+            expectedVersion,
+            actionIntent: body.actionIntent,
+            correlationId: this.correlationId
+        })
+        if (!result.success) {
+            this.track('Item.Drop.Blocked', {
+                playerId,
+                locationId: result.locationId,
+                itemName: reference,
+                status: inventoryDenialStatus(result.reason),
+                reason: result.reason
+            })
+            return inventoryDenialResponse(result.reason, result.message, this.correlationId)
+        }
+
+        const { item, locationId, inventoryVersion } = result
+        this.track('Item.Drop.Success', { playerId, locationId, itemId: item.id, status: 200 })
+
+        return okResponse(
+            { item: toItemSummary(item), locationId, inventoryVersion },
+            { correlationId: this.correlationId, playerGuid: playerId }
+        )
+    }
+}
+
+export async function handlePlayerDrop(req: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    const container = context.extraInputs.get('container') as Container
+    const handler = container.get(PlayerDropHandler)
+    return handler.handle(req, context)
+}
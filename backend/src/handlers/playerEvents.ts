@@ -0,0 +1,146 @@
+/**
+ * Player Events Handler
+ *
+ * GET /api/player/{playerId}/events
+ *
+ * Server-sent events stream of live happenings at the player's current location: exits materialising,
+ * description layers changing, players arriving and leaving, NPC actions, players talking. Events come
+ * from the ILocationEventBroker; the player's own actions are not echoed back, and whispers reach only
+ * the player they were meant for.
+ *
+ * Frames:
+ *   event: ready     data: { locationId }          (once, when the stream opens)
+ *   event: location  data: LiveLocationEvent        (id: event id)
+ *   : keep-alive                                    (comment, every LIVE_STREAM_HEARTBEAT_MS)
+ *
+ * The stream is scoped to one location. It ends when the player leaves that location or after
+ * LIVE_STREAM_MAX_MS; EventSource reconnects (after the `retry` delay) at the player's new location.
+ *
+ * Errors: 400 InvalidPlayerId, 404 PlayerNotFound
+ */
+import type { HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions'
+import { STARTER_LOCATION_ID } from '@piquet-h/shared'
+import type { IPlayerRepository } from '@piquet-h/shared/types/playerRepository'
+import type { Container } from 'inversify'
+import { inject, injectable } from 'inversify'
+import { ReadableStream } from 'node:stream/web'
+import { TOKENS } from '../di/tokens.js'
+import { checkRateLimit } from '../middleware/rateLimitMiddleware.js'
+import { rateLimiters } from '../middleware/rateLimiter.js'
+import type { ILocationEventBroker } from '../services/locationEventBroker.js'
+import type { ITelemetryClient } from '../telemetry/ITelemetryClient.js'
+import { CORRELATION_HEADER } from '../telemetry/TelemetryService.js'
+import { BaseHandler } from './base/BaseHandler.js'
+import { errorResponse } from './utils/responseBuilder.js'
+import { isValidGuid } from './utils/validation.js'
+
+/** Longest a single stream stays open (5 minutes); the client reconnects. */
+export const LIVE_STREAM_MAX_MS = 5 * 60_000
+
+/** Interval between keep-alive comments, so idle connections are not dropped by proxies. */
+export const LIVE_STREAM_HEARTBEAT_MS = 15_000
+
+/** Reconnect delay suggested to EventSource. */
+const LIVE_STREAM_RETRY_MS = 3_000
+
+type StreamCloseReason = 'player-moved' | 'max-duration' | 'client-disconnected'
+
+function sseFrame(event: string, data: unknown, id?: string): string {
+    return `${id ? `id: ${id}\n` : ''}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+}
+
+@injectable()
+export class PlayerEventsHandler extends BaseHandler {
+    constructor(
+        @inject('ITelemetryClient') telemetry: ITelemetryClient,
+        @inject(TOKENS.PlayerRepository) private playerRepo: IPlayerRepository,
+        @inject(TOKENS.LocationEventBroker) private broker: ILocationEventBroker
+    ) {
+        super(telemetry)
+    }
+
+    protected async execute(req: HttpRequest): Promise<HttpResponseInit> {
+        const rateLimitResponse = checkRateLimit(req, rateLimiters.look, 'player/events')
+        if (rateLimitResponse) {
+            return rateLimitResponse
+        }
+
+        const playerId = req.params.playerId
+        if (!playerId || !isValidGuid(playerId)) {
+            return errorResponse(400, 'InvalidPlayerId', 'Player id must be a valid GUID format', { correlationId: this.correlationId })
+        }
+
+        const player = await this.playerRepo.get(playerId)
+        if (!player) {
+            return errorResponse(404, 'PlayerNotFound', 'Player not found', { correlationId: this.correlationId })
+        }
+
+        const locationId = player.currentLocationId || STARTER_LOCATION_ID
+        return {
+            status: 200,
+            headers: {
+                [CORRELATION_HEADER]: this.correlationId,
+                'Content-Type': 'text/event-stream; charset=utf-8',
+                'Cache-Control': 'no-store',
+                Connection: 'keep-alive'
+            },
+            body: this.openStream(playerId, locationId)
+        }
+    }
+
+    private openStream(playerId: string, locationId: string): ReadableStream<Uint8Array> {
+        const encoder = new TextEncoder()
+        let disconnect = () => {}
+
+        return new ReadableStream<Uint8Array>({
+            start: (controller) => {
+                const openedAt = Date.now()
+                let eventsSent = 0
+                let closed = false
+                const send = (chunk: string) => controller.enqueue(encoder.encode(chunk))
+
+                let heartbeat: NodeJS.Timeout | undefined
+                let expiry: NodeJS.Timeout | undefined
+
+                const close = (reason: StreamCloseReason) => {
+                    if (closed) return
+                    closed = true
+                    unsubscribe()
+                    clearInterval(heartbeat)
+                    clearTimeout(expiry)
+                    this.track('Multiplayer.Stream.Closed', { playerId, locationId, eventsSent, durationMs: Date.now() - openedAt, reason })
+                    if (reason !== 'client-disconnected') controller.close()
+                }
+
+                const unsubscribe = this.broker.subscribe(locationId, (event, { actorPlayerId, recipientPlayerId }) => {
+                    if (closed) return
+                    if (recipientPlayerId && recipientPlayerId !== playerId) return
+                    if (actorPlayerId === playerId) {
+                        // The player's own comings and goings are not news to them; leaving ends this location's stream.
+                        if (event.kind === 'player.departed') close('player-moved')
+                        return
+                    }
+                    send(sseFrame('location', event, event.id))
+                    eventsSent++
+                })
+                // unref(): an open stream must not keep the host process alive on shutdown
+                heartbeat = setInterval(() => send(': keep-alive\n\n'), LIVE_STREAM_HEARTBEAT_MS)
+                heartbeat.unref()
+                expiry = setTimeout(() => close('max-duration'), LIVE_STREAM_MAX_MS)
+                expiry.unref()
+                disconnect = () => close('client-disconnected')
+
+                send(`retry: ${LIVE_STREAM_RETRY_MS}\n\n`)
+                send(sseFrame('ready', { locationId }))
+                this.track('Multiplayer.Stream.Opened', { playerId, locationId })
+            },
+            cancel: () => disconnect()
+        })
+    }
+}
+
+export async function handlePlayerEvents(req: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    const container = context.extraInputs.get('container') as Container
+    const handler = container.get(PlayerEventsHandler)
+    return handler.handle(req, context)
+}
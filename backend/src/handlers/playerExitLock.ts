@@ -0,0 +1,143 @@
+/**
+ * Player Lock / Unlock Handlers
+ *
+ * POST /api/player/{playerId}/lock
+ * POST /api/player/{playerId}/unlock
+ *
+ * Locks or unlocks an exit at the player's current location. The player must carry a key item
+ * whose `attributes.keyFor` names the door; key matching, the synchronous edge update and the
+ * non-blocking World.Exit.LockChanged world event live in ExitLockService.
+ *
+ * Request body: { direction: string, actionIntent?: ActionIntent }
+ * Response (200): { locationId, direction, lockState, key: { id, name, description? } }
+ *
+ * Errors: 400 InvalidPlayerId / MissingField / InvalidJson / InvalidDirection / NoExit, 403 KeyRequired,
+ * 404 PlayerNotFound, 409 LockStateUnchanged (already locked / unlocked)
+ */
+import type { HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions'
+import type { ExitLockRequest, ExitLockResponse, LockState } from '@piquet-h/shared'
+import type { Container } from 'inversify'
+import { inject, injectable } from 'inversify'
+import { checkRateLimit } from '../middleware/rateLimitMiddleware.js'
+import { rateLimiters } from '../middleware/rateLimiter.js'
+import { ExitLockService, type ExitLockDenialReason, type ExitLockResult } from '../services/ExitLockService.js'
+import type { ITelemetryClient } from '../telemetry/ITelemetryClient.js'
+import { BaseHandler } from './base/BaseHandler.js'
+import { errorResponse, okResponse } from './utils/responseBuilder.js'
+import { isValidGuid } from './utils/validation.js'
+import { toItemSummary } from './utils/worldItemHelpers.js'
+
+/** HTTP status and error code for each ExitLockService denial (shared with command chains). */
+export const EXIT_LOCK_DENIAL_STATUS: Record<ExitLockDenialReason, { status: number; code: string }> = {
+    'player-not-found': { status: 404, code: 'PlayerNotFound' },
+    'invalid-direction': { status: 400, code: 'InvalidDirection' },
+    'no-exit': { status: 400, code: 'NoExit' },
+    'key-required': { status: 403, code: 'KeyRequired' },
+    'already-in-state': { status: 409, code: 'LockStateUnchanged' }
+}
+
+type ExitLockBody = ExitLockRequest & { actionIntent?: unknown }
+
+/** Client-facing view of a lock state change. */
+export function toExitLockResponse(result: Extract<ExitLockResult, { success: true }>): ExitLockResponse {
+    return { locationId: result.locationId, direction: result.direction, lockState: result.lockState, key: toItemSummary(result.key) }
+}
+
+abstract class ExitLockCommandHandler extends BaseHandler {
+    protected abstract readonly lockState: LockState
+
+    constructor(
+        telemetry: ITelemetryClient,
+        private exitLockService: ExitLockService
+    ) {
+        super(telemetry)
+    }
+
+    protected async execute(req: HttpRequest): Promise<HttpResponseInit> {
+        const verb = this.lockState === 'locked' ? 'lock' : 'unlock'
+        const rateLimitResponse = checkRateLimit(req, rateLimiters.movement, `player/${verb}`)
+        if (rateLimitResponse) {
+            return rateLimitResponse
+        }
+
+        const playerId = req.params.playerId
+        if (!playerId || !isValidGuid(playerId)) {
+            return errorResponse(400, 'InvalidPlayerId', 'Player id must be a valid GUID format', { correlationId: this.correlationId })
+        }
+
+        let body: Partial<ExitLockBody>
+        try {
+            const text = await req.text()
+            body = text ? (JSON.parse(text) as Partial<ExitLockBody>) : {}
+        } catch {
+            return errorResponse(400, 'InvalidJson', 'Request body must be valid JSON', { correlationId: this.correlationId })
+        }
+
+        const direction = typeof body.direction === 'string' ? body.direction.trim() : ''
+        if (!direction) {
+            return errorResponse(400, 'MissingField', 'direction is required', { correlationId: this.correlationId })
+        }
+
+        const result = await this.exitLockService.setLockState({
+            playerId,
+            direction,
+            lockState: this.lockState,
+            actionIntent: body.actionIntent,
+            correlationId: this.correlationId
+        })
+        if (!result.success) {
+            const { status, code } = EXIT_LOCK_DENIAL_STATUS[result.reason]
+            this.track('Navigation.Exit.LockBlocked', {
+                playerId,
+                locationId: result.locationId,
+                direction,
+                lockState: this.lockState,
+                status,
+                reason: result.reason
+            })
+            return errorResponse(status, code, result.message, { correlationId: this.correlationId })
+        }
+
+        const { locationId, lockState, key } = result
+        this.track('Navigation.Exit.LockChanged', {
+            playerId,
+            locationId,
+            direction: result.direction,
+            lockState,
+            keyItemId: key.id,
+            status: 200
+        })
+
+        return okResponse(toExitLockResponse(result), { correlationId: this.correlationId, playerGuid: playerId })
+    }
+}
+
+@injectable()
+export class PlayerLockHandler extends ExitLockCommandHandler {
+    protected readonly lockState = 'locked' as const
+
+    constructor(@inject('ITelemetryClient') telemetry: ITelemetryClient, @inject(ExitLockService) exitLockService: ExitLockService) {
+        super(telemetry, exitLockService)
+    }
+}
+
+@injectable()
+export class PlayerUnlockHandler extends ExitLockCommandHandler {
+    protected readonly lockState = 'unlocked' as const
+
+    constructor(@inject('ITelemetryClient') telemetry: ITelemetryClient, @inject(ExitLockService) exitLockService: ExitLockService) {
+        super(telemetry, exitLockService)
+    }
+}
+
+export async function handlePlayerLock(req: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    const container = context.extraInputs.get('container') as Container
+    const handler = container.get(PlayerLockHandler)
+    return handler.handle(req, context)
+}
+
+export async function handlePlayerUnlock(req: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    const container = context.extraInputs.get('container') as Container
+    const handler = container.get(PlayerUnlockHandler)
+    return handler.handle(req, context)
+}
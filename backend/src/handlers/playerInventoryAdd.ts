@@ -0,0 +1,100 @@
+/**
+ * Player Inventory Add Handler
+ *
+ * POST /api/player/{playerId}/inventory
+ *
+ * Resource-style counterpart to the take command: adds a world item to the player's inventory.
+ * Gated by the same world rules (item must lie at the player's current location, carrying
+ * capacity) and optimistic concurrency on PlayerDoc.inventoryVersion via InventoryService.
+ *
+ * Request body: { itemId: string, expectedVersion?: number }
+ * Response (200): { item: { id, name, description? }, locationId, inventoryVersion }
+ *
+ * Errors: 400 InvalidPlayerId / MissingField / InvalidJson / InvalidFormat, 404 PlayerNotFound / ItemNotFound,
+ * 409 ItemUnavailable / InventoryFull / InventoryVersionConflict
+ */
+import type { HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions'
+import type { InventoryAddRequest } from '@piquet-h/shared'
+import type { Container } from 'inversify'
+import { inject, injectable } from 'inversify'
+import { checkRateLimit } from '../middleware/rateLimitMiddleware.js'
+import { rateLimiters } from '../middleware/rateLimiter.js'
+import { InventoryService } from '../services/InventoryService.js'
+import type { ITelemetryClient } from '../telemetry/ITelemetryClient.js'
+import { BaseHandler } from './base/BaseHandler.js'
+import { errorResponse, okResponse } from './utils/responseBuilder.js'
+import { isValidGuid } from './utils/validation.js'
+import { inventoryDenialResponse, inventoryDenialStatus, parseExpectedVersion, toItemSummary } from './utils/worldItemHelpers.js'
+
+@injectable()
+export class PlayerInventoryAddHandler extends BaseHandler {
+    constructor(
+        @inject('ITelemetryClient') telemetry: ITelemetryClient,
+        @inject(InventoryService) private inventoryService: InventoryService
+    ) {
+        super(telemetry)
+    }
+
+    protected async execute(req: HttpRequest): Promise<HttpResponseInit> {
+        const rateLimitResponse = checkRateLimit(req, rateLimiters.movement, 'player/inventory')
+        if (rateLimitResponse) {
+            return rateLimitResponse
+        }
+
+        const playerId = req.params.playerId
+        if (!playerId || !isValidGuid(playerId)) {
+            return errorResponse(400, 'InvalidPlayerId', 'Player id must be a valid GUID format', { correlationId: this.correlationId })
+        }
+
+        let body: Partial<InventoryAddRequest>
+        try {
+            const text = await req.text()
+            body = text ? (JSON.parse(text) as Partial<InventoryAddRequest>) : {}
+        } catch {
+            return errorResponse(400, 'InvalidJson', 'Request body must be valid JSON', { correlationId: this.correlationId })
+        }
+
+        const itemId = typeof body.itemId === 'string' ? body.itemId.trim() : ''
+        if (!itemId) {
+            return errorResponse(400, 'MissingField', 'itemId is required', { correlationId: this.correlationId })
+        }
+
+        const expectedVersion = parseExpectedVersion(body.expectedVersion)
+        if (expectedVersion === null) {
+            return errorResponse(400, 'InvalidFormat', 'expectedVersion must be a non-negative integer', {
+                correlationId: this.correlationId
+            })
+        }
+
+        const result = await this.inventoryService.acquireFromLocation({
+            playerId,
+            reference: itemId,
+            expectedVersion,
+            correlationId: this.correlationId
+        })
+        if (!result.success) {
+            this.track('Inventory.Add.Blocked', {
+                playerId,
+                locationId: result.locationId,
+                itemId,
+                status: inventoryDenialStatus(result.reason),
+                reason: result.reason
+            })
+            return inventoryDenialResponse(result.reason, result.message, this.correlationId)
+        }
+
+        const { item, locationId, inventoryVersion } = result
+        this.track('Inventory.Add.Success', { playerId, locationId, itemId: item.id, inventoryVersion, status: 200 })
+
+        return okResponse(
+            { item: toItemSummary(item), locationId, inventoryVersion },
+            { correlationId: this.correlationId, playerGuid: playerId }
+        )
+    }
+}
+
+export async function handlePlayerInventoryAdd(req: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    const container = context.extraInputs.get('container') as Container
+    const handler = container.get(PlayerInventoryAddHandler)
+    return handler.handle(req, context)
+}
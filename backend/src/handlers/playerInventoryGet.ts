@@ -0,0 +1,75 @@
+/**
+ * Player Inventory Get Handler
+ *
+ * GET /api/player/{playerId}/inventory
+ *
+ * Lists the items a player is carrying together with PlayerDoc.inventoryVersion, which
+ * clients pass back as expectedVersion on add/remove for optimistic concurrency.
+ *
+ * Response (200): { playerId, items: [{ id, name, description?, quantity, acquiredAt }], inventoryVersion, capacity }
+ *
+ * Errors: 400 InvalidPlayerId, 404 PlayerNotFound
+ */
+import type { HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions'
+import type { InventoryEntry, InventoryResponse } from '@piquet-h/shared'
+import type { Container } from 'inversify'
+import { inject, injectable } from 'inversify'
+import { checkRateLimit } from '../middleware/rateLimitMiddleware.js'
+import { rateLimiters } from '../middleware/rateLimiter.js'
+import { INVENTORY_CAPACITY, InventoryService } from '../services/InventoryService.js'
+import { toWorldItem } from '../services/worldItemTransfers.js'
+import type { ITelemetryClient } from '../telemetry/ITelemetryClient.js'
+import { BaseHandler } from './base/BaseHandler.js'
+import { errorResponse, okResponse } from './utils/responseBuilder.js'
+import { isValidGuid } from './utils/validation.js'
+import { toItemSummary } from './utils/worldItemHelpers.js'
+
+@injectable()
+export class PlayerInventoryGetHandler extends BaseHandler {
+    constructor(
+        @inject('ITelemetryClient') telemetry: ITelemetryClient,
+        @inject(InventoryService) private inventoryService: InventoryService
+    ) {
+        super(telemetry)
+    }
+
+    protected async execute(req: HttpRequest): Promise<HttpResponseInit> {
+        const rateLimitResponse = checkRateLimit(req, rateLimiters.look, 'player/inventory')
+        if (rateLimitResponse) {
+            return rateLimitResponse
+        }
+
+        const playerId = req.params.playerId
+        if (!playerId || !isValidGuid(playerId)) {
+            return errorResponse(400, 'InvalidPlayerId', 'Player id must be a valid GUID format', { correlationId: this.correlationId })
+        }
+
+        const snapshot = await this.inventoryService.getInventory(playerId)
+        if (!snapshot) {
+            this.track('Inventory.Get', { playerId, status: 404 })
+            return errorResponse(404, 'PlayerNotFound', 'Player not found', { correlationId: this.correlationId })
+        }
+
+        // Location is irrelevant for display; toWorldItem only restores name/description from metadata.
+        const items: InventoryEntry[] = snapshot.items.map((i) => ({
+            ...toItemSummary(toWorldItem(i, '')),
+            quantity: i.quantity,
+            acquiredAt: i.acquiredAt
+        }))
+        this.track('Inventory.Get', { playerId, itemCount: items.length, inventoryVersion: snapshot.inventoryVersion, status: 200 })
+
+        const response: InventoryResponse = {
+            playerId,
+            items,
+            inventoryVersion: snapshot.inventoryVersion,
+            capacity: INVENTORY_CAPACITY
+        }
+        return okResponse(response, { correlationId: this.correlationId, playerGuid: playerId })
+    }
+}
+
+export async function handlePlayerInventoryGet(req: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    const container = context.extraInputs.get('container') as Container
+    const handler = container.get(PlayerInventoryGetHandler)
+    return handler.handle(req, context)
+}
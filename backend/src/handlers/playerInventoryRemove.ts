@@ -0,0 +1,90 @@
+/**
+ * Player Inventory Remove Handler
+ *
+ * DELETE /api/player/{playerId}/inventory/{itemId}?expectedVersion={n}
+ *
+ * Resource-style counterpart to the drop command: removes an item from the player's inventory.
+ * World rule: items are never destroyed here — the item is placed at the player's current
+ * location. Optimistic concurrency on PlayerDoc.inventoryVersion via InventoryService.
+ *
+ * Response (200): { item: { id, name, description? }, locationId, inventoryVersion }
+ *
+ * Errors: 400 InvalidPlayerId / MissingField / InvalidFormat, 404 PlayerNotFound / ItemNotFound,
+ * 409 InventoryVersionConflict
+ */
+import type { HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions'
+import type { Container } from 'inversify'
+import { inject, injectable } from 'inversify'
+import { checkRateLimit } from '../middleware/rateLimitMiddleware.js'
+import { rateLimiters } from '../middleware/rateLimiter.js'
+import { InventoryService } from '../services/InventoryService.js'
+import type { ITelemetryClient } from '../telemetry/ITelemetryClient.js'
+import { BaseHandler } from './base/BaseHandler.js'
+import { errorResponse, okResponse } from './utils/responseBuilder.js'
+import { isValidGuid } from './utils/validation.js'
+import { inventoryDenialResponse, inventoryDenialStatus, parseExpectedVersion, toItemSummary } from './utils/worldItemHelpers.js'
+
+@injectable()
+export class PlayerInventoryRemoveHandler extends BaseHandler {
+    constructor(
+        @inject('ITelemetryClient') telemetry: ITelemetryClient,
+        @inject(InventoryService) private inventoryService: InventoryService
+    ) {
+        super(telemetry)
+    }
+
+    protected async execute(req: HttpRequest): Promise<HttpResponseInit> {
+        const rateLimitResponse = checkRateLimit(req, rateLimiters.movement, 'player/inventory')
+        if (rateLimitResponse) {
+            return rateLimitResponse
+        }
+
+        const playerId = req.params.playerId
+        if (!playerId || !isValidGuid(playerId)) {
+            return errorResponse(400, 'InvalidPlayerId', 'Player id must be a valid GUID format', { correlationId: this.correlationId })
+        }
+
+        const itemId = req.params.itemId?.trim()
+        if (!itemId) {
+            return errorResponse(400, 'MissingField', 'itemId is required', { correlationId: this.correlationId })
+        }
+
+        const expectedVersion = parseExpectedVersion(req.query.get('expectedVersion'))
+        if (expectedVersion === null) {
+            return errorResponse(400, 'InvalidFormat', 'expectedVersion must be a non-negative integer', {
+                correlationId: this.correlationId
+            })
+        }
+
+        const result = await this.inventoryService.releaseToLocation({
+            playerId,
+            reference: itemId,
+            expectedVersion,
+            correlationId: this.correlationId
+        })
+        if (!result.success) {
+            this.track('Inventory.Remove.Blocked', {
+                playerId,
+                locationId: result.locationId,
+                itemId,
+                status: inventoryDenialStatus(result.reason),
+                reason: result.reason
+            })
+            return inventoryDenialResponse(result.reason, result.message, this.correlationId)
+        }
+
+        const { item, locationId, inventoryVersion } = result
+        this.track('Inventory.Remove.Success', { playerId, locationId, itemId: item.id, inventoryVersion, status: 200 })
+
+        return okResponse(
+            { item: toItemSummary(item), locationId, inventoryVersion },
+            { correlationId: this.correlationId, playerGuid: playerId }
+        )
+    }
+}
+
+export async function handlePlayerInventoryRemove(req: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    const container = context.extraInputs.get('container') as Container
+    const handler = container.get(PlayerInventoryRemoveHandler)
+    return handler.handle(req, context)
+}
@@ -0,0 +1,111 @@
+/**
+ * Player Preferences Handlers
+ *
+ * GET   /api/player/{playerId}/preferences
+ * PATCH /api/player/{playerId}/preferences
+ *
+ * The player's preferences through PlayerPreferencesService, stored server-side so the Settings page
+ * shows the same choices on every device. PATCH takes any subset of the fields (map fields may be
+ * given individually); unknown fields and invalid values are rejected.
+ *
+ * Request body (PATCH): { textSize?, theme?, reducedMotion?, verbosity?, autoLookOnMove?, navigationUIEnabled?,
+ *                         map?: { showOutsideNodes?, showInsideNodes?, focusDepth? } }
+ * Response (200): { preferences } (every field, defaults filled in)
+ *
+ * Errors: 400 InvalidPlayerId / InvalidJson / InvalidPreference, 404 PlayerNotFound
+ */
+import type { HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions'
+import { parsePlayerPreferencesPatch, type PlayerPreferencesResponse } from '@piquet-h/shared'
+import type { Container } from 'inversify'
+import { inject, injectable } from 'inversify'
+import { checkRateLimit } from '../middleware/rateLimitMiddleware.js'
+import { rateLimiters } from '../middleware/rateLimiter.js'
+import { PlayerPreferencesService } from '../services/PlayerPreferencesService.js'
+import type { ITelemetryClient } from '../telemetry/ITelemetryClient.js'
+import { BaseHandler } from './base/BaseHandler.js'
+import { errorResponse, okResponse } from './utils/responseBuilder.js'
+import { isValidGuid } from './utils/validation.js'
+
+@injectable()
+export class GetPlayerPreferencesHandler extends BaseHandler {
+    constructor(
+        @inject('ITelemetryClient') telemetry: ITelemetryClient,
+        @inject(PlayerPreferencesService) private preferencesService: PlayerPreferencesService
+    ) {
+        super(telemetry)
+    }
+
+    protected async execute(req: HttpRequest): Promise<HttpResponseInit> {
+        const rateLimitResponse = checkRateLimit(req, rateLimiters.look, 'player/preferences')
+        if (rateLimitResponse) {
+            return rateLimitResponse
+        }
+
+        const playerId = req.params.playerId
+        if (!playerId || !isValidGuid(playerId)) {
+            return errorResponse(400, 'InvalidPlayerId', 'Player id must be a valid GUID format', { correlationId: this.correlationId })
+        }
+
+        const preferences = await this.preferencesService.getPreferences(playerId)
+        if (!preferences) {
+            return errorResponse(404, 'PlayerNotFound', 'Player not found', { correlationId: this.correlationId })
+        }
+
+        const response: PlayerPreferencesResponse = { preferences }
+        return okResponse(response, { correlationId: this.correlationId, playerGuid: playerId })
+    }
+}
+
+@injectable()
+export class UpdatePlayerPreferencesHandler extends BaseHandler {
+    constructor(
+        @inject('ITelemetryClient') telemetry: ITelemetryClient,
+        @inject(PlayerPreferencesService) private preferencesService: PlayerPreferencesService
+    ) {
+        super(telemetry)
+    }
+
+    protected async execute(req: HttpRequest): Promise<HttpResponseInit> {
+        const rateLimitResponse = checkRateLimit(req, rateLimiters.look, 'player/preferences')
+        if (rateLimitResponse) {
+            return rateLimitResponse
+        }
+
+        const playerId = req.params.playerId
+        if (!playerId || !isValidGuid(playerId)) {
+            return errorResponse(400, 'InvalidPlayerId', 'Player id must be a valid GUID format', { correlationId: this.correlationId })
+        }
+
+        let body: unknown
+        try {
+            const text = await req.text()
+            body = text ? JSON.parse(text) : {}
+        } catch {
+            return errorResponse(400, 'InvalidJson', 'Request body must be valid JSON', { correlationId: this.correlationId })
+        }
+        const parsed = parsePlayerPreferencesPatch(body)
+        if (!parsed.ok) {
+            return errorResponse(400, 'InvalidPreference', `Invalid preference: ${parsed.field}`, { correlationId: this.correlationId })
+        }
+
+        const preferences = await this.preferencesService.updatePreferences(playerId, parsed.patch, this.correlationId)
+        if (!preferences) {
+            return errorResponse(404, 'PlayerNotFound', 'Player not found', { correlationId: this.correlationId })
+        }
+
+        const response: PlayerPreferencesResponse = { preferences }
+        return okResponse(response, { correlationId: this.correlationId, playerGuid: playerId })
+    }
+}
+
+export async function handleGetPlayerPreferences(req: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    const container = context.extraInputs.get('container') as Container
+    const handler = container.get(GetPlayerPreferencesHandler)
+    return handler.handle(req, context)
+}
+
+export async function handleUpdatePlayerPreferences(req: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    const container = context.extraInputs.get('container') as Container
+    const handler = container.get(UpdatePlayerPreferencesHandler)
+    return handler.handle(req, context)
+}
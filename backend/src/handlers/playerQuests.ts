@@ -0,0 +1,95 @@
+/**
+ * Player Quests Handler
+ *
+ * GET /api/player/{playerId}/quests
+ *
+ * The player's quest journal: active quests first, then finished ones (most recently completed first).
+ * Objective progress is recorded by QuestProgressService as the player moves, picks up items and talks.
+ *
+ * Response (200): { playerId, quests: [{ id, title, description?, status, objectives: [...], rewards: [name], completedAt? }] }
+ *
+ * Errors: 400 InvalidPlayerId, 404 PlayerNotFound
+ */
+import type { HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions'
+import type { QuestEntity, QuestsResponse, QuestSummary } from '@piquet-h/shared'
+import type { IPlayerRepository } from '@piquet-h/shared/types/playerRepository'
+import type { Container } from 'inversify'
+import { inject, injectable } from 'inversify'
+import { TOKENS } from '../di/tokens.js'
+import { checkRateLimit } from '../middleware/rateLimitMiddleware.js'
+import { rateLimiters } from '../middleware/rateLimiter.js'
+import type { IQuestRepository } from '../repos/questRepository.js'
+import { isObjectiveComplete } from '../services/QuestProgressService.js'
+import type { ITelemetryClient } from '../telemetry/ITelemetryClient.js'
+import { BaseHandler } from './base/BaseHandler.js'
+import { errorResponse, okResponse } from './utils/responseBuilder.js'
+import { isValidGuid } from './utils/validation.js'
+
+export function toQuestSummary(quest: QuestEntity): QuestSummary {
+    return {
+        id: quest.id,
+        title: quest.title,
+        ...(quest.description ? { description: quest.description } : {}),
+        status: quest.status,
+        objectives: quest.objectives.map((o) => ({
+            description: o.description,
+            kind: o.kind,
+            progress: o.progress,
+            required: o.required,
+            completed: isObjectiveComplete(o)
+        })),
+        rewards: quest.rewards.map((r) => (r.quantity && r.quantity > 1 ? `${r.name} (x${r.quantity})` : r.name)),
+        ...(quest.completedAt ? { completedAt: quest.completedAt } : {})
+    }
+}
+
+/** Active quests first (oldest first), then finished quests (most recent first). */
+function journalOrder(a: QuestEntity, b: QuestEntity): number {
+    const aActive = a.status === 'active'
+    const bActive = b.status === 'active'
+    if (aActive !== bActive) return aActive ? -1 : 1
+    if (aActive) return (a.createdAt ?? '').localeCompare(b.createdAt ?? '')
+    return (b.completedAt ?? b.updatedAt ?? '').localeCompare(a.completedAt ?? a.updatedAt ?? '')
+}
+
+@injectable()
+export class PlayerQuestsHandler extends BaseHandler {
+    constructor(
+        @inject('ITelemetryClient') telemetry: ITelemetryClient,
+        @inject(TOKENS.PlayerRepository) private playerRepo: IPlayerRepository,
+        @inject(TOKENS.QuestRepository) private questRepo: IQuestRepository
+    ) {
+        super(telemetry)
+    }
+
+    protected async execute(req: HttpRequest): Promise<HttpResponseInit> {
+        const rateLimitResponse = checkRateLimit(req, rateLimiters.look, 'player/quests')
+        if (rateLimitResponse) {
+            return rateLimitResponse
+        }
+
+        const playerId = req.params.playerId
+        if (!playerId || !isValidGuid(playerId)) {
+            return errorResponse(400, 'InvalidPlayerId', 'Player id must be a valid GUID format', { correlationId: this.correlationId })
+        }
+
+        const player = await this.playerRepo.get(playerId)
+        if (!player) {
+            this.track('Quest.List', { playerId, status: 404 })
+            return errorResponse(404, 'PlayerNotFound', 'Player not found', { correlationId: this.correlationId })
+        }
+
+        const quests = (await this.questRepo.listQuestsForPlayer(playerId)).sort(journalOrder)
+        const activeCount = quests.filter((q) => q.status === 'active').length
+        this.track('Quest.List', { playerId, questCount: quests.length, activeCount, status: 200 })
+
+        const response: QuestsResponse = { playerId, quests: quests.map(toQuestSummary) }
+        return okResponse(response, { correlationId: this.correlationId, playerGuid: playerId })
+    }
+}
+
+export async function handlePlayerQuests(req: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    const container = context.extraInputs.get('container') as Container
+    const handler = container.get(PlayerQuestsHandler)
+    return handler.handle(req, context)
+}
@@ -0,0 +1,67 @@
+/**
+ * Player Status Handler
+ *
+ * GET /api/player/{playerId}/status
+ *
+ * Health for the status panel plus the encounter the player is currently in, if any.
+ * Players who never fought report full default health.
+ *
+ * Response (200): { playerId, health, maxHealth, defeated, encounter?: { npcId, npcName?, round } }
+ *
+ * Errors: 400 InvalidPlayerId, 404 PlayerNotFound
+ */
+import type { HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions'
+import type { PlayerStatusResponse } from '@piquet-h/shared'
+import type { Container } from 'inversify'
+import { inject, injectable } from 'inversify'
+import { checkRateLimit } from '../middleware/rateLimitMiddleware.js'
+import { rateLimiters } from '../middleware/rateLimiter.js'
+import { CombatService } from '../services/CombatService.js'
+import type { ITelemetryClient } from '../telemetry/ITelemetryClient.js'
+import { BaseHandler } from './base/BaseHandler.js'
+import { errorResponse, okResponse } from './utils/responseBuilder.js'
+import { isValidGuid } from './utils/validation.js'
+
+@injectable()
+export class PlayerStatusHandler extends BaseHandler {
+    constructor(
+        @inject('ITelemetryClient') telemetry: ITelemetryClient,
+        @inject(CombatService) private combatService: CombatService
+    ) {
+        super(telemetry)
+    }
+
+    protected async execute(req: HttpRequest): Promise<HttpResponseInit> {
+        const rateLimitResponse = checkRateLimit(req, rateLimiters.look, 'player/status')
+        if (rateLimitResponse) {
+            return rateLimitResponse
+        }
+
+        const playerId = req.params.playerId
+        if (!playerId || !isValidGuid(playerId)) {
+            return errorResponse(400, 'InvalidPlayerId', 'Player id must be a valid GUID format', { correlationId: this.correlationId })
+        }
+
+        const status = await this.combatService.getStatus(playerId)
+        if (!status) {
+            this.track('Player.Status.Get', { playerId, status: 404 })
+            return errorResponse(404, 'PlayerNotFound', 'Player not found', { correlationId: this.correlationId })
+        }
+
+        this.track('Player.Status.Get', {
+            playerId,
+            health: status.health,
+            defeated: status.defeated,
+            inEncounter: !!status.encounter,
+            status: 200
+        })
+        const response: PlayerStatusResponse = { playerId, ...status }
+        return okResponse(response, { correlationId: this.correlationId, playerGuid: playerId })
+    }
+}
+
+export async function handlePlayerStatus(req: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    const container = context.extraInputs.get('container') as Container
+    const handler = container.get(PlayerStatusHandler)
+    return handler.handle(req, context)
+}
@@ -0,0 +1,99 @@
+/**
+ * Player Talk Handler
+ *
+ * POST /api/player/{playerId}/talk
+ *
+ * Speaks to an NPC at the player's current location. Line generation (AI with deterministic
+ * fallback) and persistence of the per-player, per-NPC dialogue session live in NpcDialogueService.
+ *
+ * Request body: { npcId?: string, npcName?: string, message?: string }
+ * Response (200): { npc: { id, name, disposition, description? }, line, source, turnCount }
+ *
+ * Errors: 400 InvalidPlayerId / MissingField / InvalidJson, 404 PlayerNotFound / NpcNotFound
+ */
+import type { HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions'
+import type { TalkRequest, TalkResponse } from '@piquet-h/shared'
+import type { Container } from 'inversify'
+import { inject, injectable } from 'inversify'
+import { checkRateLimit } from '../middleware/rateLimitMiddleware.js'
+import { rateLimiters } from '../middleware/rateLimiter.js'
+import { NpcDialogueService, type NpcTalkDenialReason, type NpcTalkResult } from '../services/NpcDialogueService.js'
+import type { ITelemetryClient } from '../telemetry/ITelemetryClient.js'
+import { BaseHandler } from './base/BaseHandler.js'
+import { errorResponse, okResponse } from './utils/responseBuilder.js'
+import { isValidGuid } from './utils/validation.js'
+
+/** HTTP status and error code for each NpcDialogueService denial (shared with command chains). */
+export const TALK_DENIAL_STATUS: Record<NpcTalkDenialReason, { status: number; code: string }> = {
+    'player-not-found': { status: 404, code: 'PlayerNotFound' },
+    'npc-not-found': { status: 404, code: 'NpcNotFound' }
+}
+
+/** Client-facing view of a successful exchange. */
+export function toTalkResponse(result: Extract<NpcTalkResult, { success: true }>): TalkResponse {
+    const { npc, line, source, turnCount } = result
+    return {
+        npc: { id: npc.id, name: npc.name, disposition: npc.disposition, ...(npc.description ? { description: npc.description } : {}) },
+        line,
+        source,
+        turnCount
+    }
+}
+
+@injectable()
+export class PlayerTalkHandler extends BaseHandler {
+    constructor(
+        @inject('ITelemetryClient') telemetry: ITelemetryClient,
+        @inject(NpcDialogueService) private dialogueService: NpcDialogueService
+    ) {
+        super(telemetry)
+    }
+
+    protected async execute(req: HttpRequest): Promise<HttpResponseInit> {
+        const rateLimitResponse = checkRateLimit(req, rateLimiters.movement, 'player/talk')
+        if (rateLimitResponse) {
+            return rateLimitResponse
+        }
+
+        const playerId = req.params.playerId
+        if (!playerId || !isValidGuid(playerId)) {
+            return errorResponse(400, 'InvalidPlayerId', 'Player id must be a valid GUID format', { correlationId: this.correlationId })
+        }
+
+        let body: TalkRequest
+        try {
+            const text = await req.text()
+            body = text ? (JSON.parse(text) as TalkRequest) : {}
+        } catch {
+            return errorResponse(400, 'InvalidJson', 'Request body must be valid JSON', { correlationId: this.correlationId })
+        }
+
+        const reference = (typeof body.npcId === 'string' && body.npcId) || (typeof body.npcName === 'string' && body.npcName) || ''
+        if (!reference.trim()) {
+            return errorResponse(400, 'MissingField', 'npcId or npcName is required', { correlationId: this.correlationId })
+        }
+
+        const result = await this.dialogueService.talk({
+            playerId,
+            reference,
+            message: typeof body.message === 'string' ? body.message : undefined,
+            correlationId: this.correlationId
+        })
+        if (!result.success) {
+            const { status, code } = TALK_DENIAL_STATUS[result.reason]
+            this.track('NPC.Talk.Blocked', { playerId, locationId: result.locationId, npcName: reference, status, reason: result.reason })
+            return errorResponse(status, code, result.message, { correlationId: this.correlationId })
+        }
+
+        const { npc, locationId, source, turnCount } = result
+        this.track('NPC.Talk.Success', { playerId, npcId: npc.id, locationId, source, turnCount, status: 200 })
+
+        return okResponse(toTalkResponse(result), { correlationId: this.correlationId, playerGuid: playerId })
+    }
+}
+
+export async function handlePlayerTalk(req: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    const container = context.extraInputs.get('container') as Container
+    const handler = container.get(PlayerTalkHandler)
+    return handler.handle(req, context)
+}
@@ -0,0 +1,167 @@
+/**
+ * Player Travel Handler
+ *
+ * POST /api/player/{playerId}/travel
+ *
+ * Walks the fastest known route to a named location or landmark through TravelService: the route is
+ * planned over existing exit edges (TemporalProximityService), walked leg by leg, and the total travel
+ * time of the walked legs is applied to the player clock. The journey stops early — still a 200 — when a
+ * leg has become locked, forbidden or pending since planning; `stopped` says which leg and why. The
+ * arrival description honours the player's verbosity, as a move does.
+ *
+ * Request body: { destination: string }
+ * Response (200): { destination: { id, name }, route: TravelLeg[], legsCompleted, completed, stopped?,
+ *                   travelledMs, location: LocationResponse, summary }
+ *
+ * Errors: 400 InvalidPlayerId / InvalidJson / MissingField, 404 PlayerNotFound / NoRoute, 409 AlreadyThere / InCombat
+ */
+import type { HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions'
+import type { TravelRequest, TravelResponse } from '@piquet-h/shared'
+import type { Container } from 'inversify'
+import { inject, injectable } from 'inversify'
+import { checkRateLimit } from '../middleware/rateLimitMiddleware.js'
+import { rateLimiters } from '../middleware/rateLimiter.js'
+import { DescriptionComposer } from '../services/descriptionComposer.js'
+import { arrivalDescription, DescriptionVerbosityService } from '../services/DescriptionVerbosityService.js'
+import { TravelService, type TravelDenialReason, type TravelResolution } from '../services/TravelService.js'
+import { WorldConditionsService } from '../services/WorldConditionsService.js'
+import type { ITelemetryClient } from '../telemetry/ITelemetryClient.js'
+import { BaseHandler } from './base/BaseHandler.js'
+import { convertLocationExitsToExitInfo } from './utils/exitHelpers.js'
+import { errorResponse, okResponse } from './utils/responseBuilder.js'
+import { isValidGuid } from './utils/validation.js'
+
+/** HTTP status and error code for each TravelService denial (shared with command chains). */
+export const TRAVEL_DENIAL_STATUS: Record<TravelDenialReason, { status: number; code: string }> = {
+    'player-not-found': { status: 404, code: 'PlayerNotFound' },
+    'invalid-destination': { status: 400, code: 'MissingField' },
+    'no-route': { status: 404, code: 'NoRoute' },
+    'already-there': { status: 409, code: 'AlreadyThere' },
+    'in-combat': { status: 409, code: 'InCombat' }
+}
+
+/** Client-facing view of a journey: the description of wherever it ended is compiled as a move does on arrival. */
+export async function toTravelResponse(
+    result: TravelResolution,
+    playerId: string,
+    services: { descriptionComposer: DescriptionComposer; verbosity: DescriptionVerbosityService; conditions: WorldConditionsService }
+): Promise<TravelResponse> {
+    const view = await services.conditions.viewFor(result.location)
+    const compiled = await services.descriptionComposer.compileForLocation(result.location.id, view.context, {
+        baseDescription: result.location.description,
+        inheritedLayers: view.inheritedLayers
+    })
+    const descriptionOmitted = await services.verbosity.arrivalOmission(playerId, result.firstVisit)
+
+    return {
+        destination: result.destination,
+        route: result.route,
+        legsCompleted: result.legsCompleted,
+        completed: !result.stopped,
+        ...(result.stopped ? { stopped: result.stopped } : {}),
+        travelledMs: result.travelledMs,
+        location: {
+            id: result.location.id,
+            name: result.location.name,
+            description: arrivalDescription(
+                {
+                    text: compiled.text,
+                    html: compiled.html,
+                    provenance: {
+                        compiledAt: compiled.provenance.compiledAt,
+                        layersApplied: compiled.provenance.layers.map((l) => l.layerType),
+                        supersededSentences: 0
+                    }
+                },
+                descriptionOmitted
+            ),
+            ...(descriptionOmitted ? { descriptionOmitted } : {}),
+            exits: convertLocationExitsToExitInfo(result.location.exits, result.location.exitAvailability)
+        },
+        summary: result.summary
+    }
+}
+
+@injectable()
+export class PlayerTravelHandler extends BaseHandler {
+    constructor(
+        @inject('ITelemetryClient') telemetry: ITelemetryClient,
+        @inject(TravelService) private travelService: TravelService,
+        @inject(DescriptionComposer) private descriptionComposer: DescriptionComposer,
+        @inject(DescriptionVerbosityService) private verbosity: DescriptionVerbosityService,
+        @inject(WorldConditionsService) private conditions: WorldConditionsService
+    ) {
+        super(telemetry)
+    }
+
+    protected async execute(req: HttpRequest): Promise<HttpResponseInit> {
+        const rateLimitResponse = checkRateLimit(req, rateLimiters.movement, 'player/travel')
+        if (rateLimitResponse) {
+            return rateLimitResponse
+        }
+
+        const playerId = req.params.playerId
+        if (!playerId || !isValidGuid(playerId)) {
+            return errorResponse(400, 'InvalidPlayerId', 'Player id must be a valid GUID format', { correlationId: this.correlationId })
+        }
+
+        let body: Partial<TravelRequest>
+        try {
+            const text = await req.text()
+            body = text ? (JSON.parse(text) as Partial<TravelRequest>) : {}
+        } catch {
+            return errorResponse(400, 'InvalidJson', 'Request body must be valid JSON', { correlationId: this.correlationId })
+        }
+        if (typeof body.destination !== 'string' || !body.destination.trim()) {
+            return errorResponse(400, 'MissingField', 'destination is required', { correlationId: this.correlationId })
+        }
+
+        const result = await this.travelService.travel({ playerId, destination: body.destination, correlationId: this.correlationId })
+        if (!result.success) {
+            const { status, code } = TRAVEL_DENIAL_STATUS[result.reason]
+            this.track('Navigation.Travel.Blocked', {
+                playerId,
+                locationId: result.locationId,
+                destination: body.destination,
+                status,
+                reason: result.reason
+            })
+            return errorResponse(status, code, result.message, { correlationId: this.correlationId })
+        }
+
+        if (result.stopped) {
+            this.track('Navigation.Travel.Stopped', {
+                playerId,
+                fromLocationId: result.fromLocationId,
+                toLocationId: result.destination.id,
+                stoppedAtLocationId: result.location.id,
+                legsCompleted: result.legsCompleted,
+                legs: result.route.length,
+                reason: result.stopped.reason,
+                status: 200
+            })
+        } else {
+            this.track('Navigation.Travel.Completed', {
+                playerId,
+                fromLocationId: result.fromLocationId,
+                toLocationId: result.destination.id,
+                legs: result.route.length,
+                travelledMs: result.travelledMs,
+                status: 200
+            })
+        }
+
+        const response = await toTravelResponse(result, playerId, {
+            descriptionComposer: this.descriptionComposer,
+            verbosity: this.verbosity,
+            conditions: this.conditions
+        })
+        return okResponse(response, { correlationId: this.correlationId, playerGuid: playerId })
+    }
+}
+
+export async function handlePlayerTravel(req: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    const container = context.extraInputs.get('container') as Container
+    const handler = container.get(PlayerTravelHandler)
+    return handler.handle(req, context)
+}
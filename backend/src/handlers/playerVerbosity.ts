@@ -0,0 +1,111 @@
+/**
+ * Player Verbosity Handlers
+ *
+ * GET /api/player/{playerId}/verbosity
+ * PUT /api/player/{playerId}/verbosity
+ *
+ * The player's description verbosity (one of the player's preferences, through DescriptionVerbosityService):
+ * `verbose` shows the full description on every arrival, `brief` only on the first visit, `superbrief`
+ * never (name and exits only). An explicit look always shows the full description.
+ *
+ * Request body (PUT): { verbosity: 'verbose' | 'brief' | 'superbrief' }
+ * Response (200): { verbosity }
+ *
+ * Errors: 400 InvalidPlayerId / InvalidJson / InvalidVerbosity, 404 PlayerNotFound, 429 RateLimitExceeded
+ */
+import type { HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions'
+import { DESCRIPTION_VERBOSITY_MODES, isDescriptionVerbosity, type VerbosityRequest, type VerbosityResponse } from '@piquet-h/shared'
+import type { Container } from 'inversify'
+import { inject, injectable } from 'inversify'
+import { checkRateLimit } from '../middleware/rateLimitMiddleware.js'
+import { rateLimiters } from '../middleware/rateLimiter.js'
+import { DescriptionVerbosityService } from '../services/DescriptionVerbosityService.js'
+import type { ITelemetryClient } from '../telemetry/ITelemetryClient.js'
+import { BaseHandler } from './base/BaseHandler.js'
+import { errorResponse, okResponse } from './utils/responseBuilder.js'
+import { isValidGuid } from './utils/validation.js'
+
+@injectable()
+export class GetPlayerVerbosityHandler extends BaseHandler {
+    constructor(
+        @inject('ITelemetryClient') telemetry: ITelemetryClient,
+        @inject(DescriptionVerbosityService) private verbosityService: DescriptionVerbosityService
+    ) {
+        super(telemetry)
+    }
+
+    protected async execute(req: HttpRequest): Promise<HttpResponseInit> {
+        const rateLimitResponse = checkRateLimit(req, rateLimiters.look, 'player/verbosity')
+        if (rateLimitResponse) {
+            return rateLimitResponse
+        }
+
+        const playerId = req.params.playerId
+        if (!playerId || !isValidGuid(playerId)) {
+            return errorResponse(400, 'InvalidPlayerId', 'Player id must be a valid GUID format', { correlationId: this.correlationId })
+        }
+
+        const verbosity = await this.verbosityService.getVerbosity(playerId)
+        if (!verbosity) {
+            return errorResponse(404, 'PlayerNotFound', 'Player not found', { correlationId: this.correlationId })
+        }
+
+        const response: VerbosityResponse = { verbosity }
+        return okResponse(response, { correlationId: this.correlationId, playerGuid: playerId })
+    }
+}
+
+@injectable()
+export class SetPlayerVerbosityHandler extends BaseHandler {
+    constructor(
+        @inject('ITelemetryClient') telemetry: ITelemetryClient,
+        @inject(DescriptionVerbosityService) private verbosityService: DescriptionVerbosityService
+    ) {
+        super(telemetry)
+    }
+
+    protected async execute(req: HttpRequest): Promise<HttpResponseInit> {
+        const rateLimitResponse = checkRateLimit(req, rateLimiters.look, 'player/verbosity')
+        if (rateLimitResponse) {
+            return rateLimitResponse
+        }
+
+        const playerId = req.params.playerId
+        if (!playerId || !isValidGuid(playerId)) {
+            return errorResponse(400, 'InvalidPlayerId', 'Player id must be a valid GUID format', { correlationId: this.correlationId })
+        }
+
+        let body: Partial<VerbosityRequest>
+        try {
+            const text = await req.text()
+            body = text ? (JSON.parse(text) as Partial<VerbosityRequest>) : {}
+        } catch {
+            return errorResponse(400, 'InvalidJson', 'Request body must be valid JSON', { correlationId: this.correlationId })
+        }
+        if (!isDescriptionVerbosity(body.verbosity)) {
+            return errorResponse(400, 'InvalidVerbosity', `verbosity must be one of: ${DESCRIPTION_VERBOSITY_MODES.join(', ')}`, {
+                correlationId: this.correlationId
+            })
+        }
+
+        const verbosity = await this.verbosityService.setVerbosity(playerId, body.verbosity, this.correlationId)
+        if (!verbosity) {
+            return errorResponse(404, 'PlayerNotFound', 'Player not found', { correlationId: this.correlationId })
+        }
+
+        const response: VerbosityResponse = { verbosity }
+        return okResponse(response, { correlationId: this.correlationId, playerGuid: playerId })
+    }
+}
+
+export async function handleGetPlayerVerbosity(req: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    const container = context.extraInputs.get('container') as Container
+    const handler = container.get(GetPlayerVerbosityHandler)
+    return handler.handle(req, context)
+}
+
+export async function handleSetPlayerVerbosity(req: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    const container = context.extraInputs.get('container') as Container
+    const handler = container.get(SetPlayerVerbosityHandler)
+    return handler.handle(req, context)
+}
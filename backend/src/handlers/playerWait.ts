@@ -0,0 +1,166 @@
+/**
+ * Player Wait Handlers
+ *
+ * POST /api/player/{playerId}/wait
+ * POST /api/player/{playerId}/rest
+ * POST /api/player/{playerId}/sleep
+ *
+ * Spends game time in place through WaitService: the player clock is advanced (PlayerClockService),
+ * reconciled against the location's clock anchor (ReconcileEngine), both steps are written to the
+ * temporal ledger, and NarrativeLayer describes the time that passed. `rest` and `sleep` also recover
+ * hit points.
+ *
+ * Request body: { durationMs?: number } (omit for the action's default: wait 10 minutes, rest 8 hours, sleep 8 hours)
+ * Response (200): { action, durationMs, narrative, clock: { tickBefore, tickAfter, locationAnchor, reconciliationMethod },
+ *                   player: { hp, maxHp }, hpRestored, summary, locationId }
+ *
+ * Errors: 400 InvalidPlayerId / InvalidJson / InvalidDuration, 404 PlayerNotFound, 409 InCombat
+ */
+import type { HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions'
+import type { WaitAction, WaitRequest, WaitResponse } from '@piquet-h/shared'
+import type { Container } from 'inversify'
+import { inject, injectable } from 'inversify'
+import { checkRateLimit } from '../middleware/rateLimitMiddleware.js'
+import { rateLimiters } from '../middleware/rateLimiter.js'
+import { WaitService, type WaitDenialReason, type WaitResolution } from '../services/WaitService.js'
+import type { ITelemetryClient } from '../telemetry/ITelemetryClient.js'
+import { BaseHandler } from './base/BaseHandler.js'
+import { errorResponse, okResponse } from './utils/responseBuilder.js'
+import { isValidGuid } from './utils/validation.js'
+
+/** HTTP status and error code for each WaitService denial (shared with command chains). */
+export const WAIT_DENIAL_STATUS: Record<WaitDenialReason, { status: number; code: string }> = {
+    'player-not-found': { status: 404, code: 'PlayerNotFound' },
+    'invalid-duration': { status: 400, code: 'InvalidDuration' },
+    'in-combat': { status: 409, code: 'InCombat' }
+}
+
+/** Client-facing view of the time that passed. */
+export function toWaitResponse(result: WaitResolution): WaitResponse {
+    return {
+        action: result.action,
+        durationMs: result.durationMs,
+        narrative: result.narrative,
+        clock: {
+            tickBefore: result.tickBefore,
+            tickAfter: result.tickAfter,
+            locationAnchor: result.locationAnchor,
+            reconciliationMethod: result.reconciliation.reconciliationMethod
+        },
+        player: result.player,
+        hpRestored: result.hpRestored,
+        summary: result.summary,
+        locationId: result.locationId
+    }
+}
+
+abstract class WaitCommandHandler extends BaseHandler {
+    protected abstract readonly action: WaitAction
+
+    constructor(
+        telemetry: ITelemetryClient,
+        private waitService: WaitService
+    ) {
+        super(telemetry)
+    }
+
+    protected async execute(req: HttpRequest): Promise<HttpResponseInit> {
+        const rateLimitResponse = checkRateLimit(req, rateLimiters.movement, `player/${this.action}`)
+        if (rateLimitResponse) {
+            return rateLimitResponse
+        }
+
+        const playerId = req.params.playerId
+        if (!playerId || !isValidGuid(playerId)) {
+            return errorResponse(400, 'InvalidPlayerId', 'Player id must be a valid GUID format', { correlationId: this.correlationId })
+        }
+
+        let body: Partial<WaitRequest>
+        try {
+            const text = await req.text()
+            body = text ? (JSON.parse(text) as Partial<WaitRequest>) : {}
+        } catch {
+            return errorResponse(400, 'InvalidJson', 'Request body must be valid JSON', { correlationId: this.correlationId })
+        }
+        if (body.durationMs !== undefined && typeof body.durationMs !== 'number') {
+            return errorResponse(400, 'InvalidDuration', 'durationMs must be a number of milliseconds', {
+                correlationId: this.correlationId
+            })
+        }
+
+        const result = await this.waitService.passTime({
+            playerId,
+            action: this.action,
+            durationMs: body.durationMs,
+            correlationId: this.correlationId
+        })
+        if (!result.success) {
+            const { status, code } = WAIT_DENIAL_STATUS[result.reason]
+            this.track('Player.Time.Blocked', {
+                playerId,
+                locationId: result.locationId,
+                action: this.action,
+                status,
+                reason: result.reason
+            })
+            return errorResponse(status, code, result.message, { correlationId: this.correlationId })
+        }
+
+        this.track('Player.Time.Passed', {
+            playerId,
+            locationId: result.locationId,
+            action: this.action,
+            durationMs: result.durationMs,
+            reconciliationMethod: result.reconciliation.reconciliationMethod,
+            hpRestored: result.hpRestored,
+            status: 200
+        })
+
+        return okResponse(toWaitResponse(result), { correlationId: this.correlationId, playerGuid: playerId })
+    }
+}
+
+@injectable()
+export class PlayerWaitHandler extends WaitCommandHandler {
+    protected readonly action = 'wait' as const
+
+    constructor(@inject('ITelemetryClient') telemetry: ITelemetryClient, @inject(WaitService) waitService: WaitService) {
+        super(telemetry, waitService)
+    }
+}
+
+@injectable()
+export class PlayerRestHandler extends WaitCommandHandler {
+    protected readonly action = 'rest' as const
+
+    constructor(@inject('ITelemetryClient') telemetry: ITelemetryClient, @inject(WaitService) waitService: WaitService) {
+        super(telemetry, waitService)
+    }
+}
+
+@injectable()
+export class PlayerSleepHandler extends WaitCommandHandler {
+    protected readonly action = 'sleep' as const
+
+    constructor(@inject('ITelemetryClient') telemetry: ITelemetryClient, @inject(WaitService) waitService: WaitService) {
+        super(telemetry, waitService)
+    }
+}
+
+export async function handlePlayerWait(req: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    const container = context.extraInputs.get('container') as Container
+    const handler = container.get(PlayerWaitHandler)
+    return handler.handle(req, context)
+}
+
+export async function handlePlayerRest(req: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    const container = context.extraInputs.get('container') as Container
+    const handler = container.get(PlayerRestHandler)
+    return handler.handle(req, context)
+}
+
+export async function handlePlayerSleep(req: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    const container = context.extraInputs.get('container') as Container
+    const handler = container.get(PlayerSleepHandler)
+    return handler.handle(req, context)
+}
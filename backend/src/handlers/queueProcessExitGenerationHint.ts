@@ -12,6 +12,7 @@
  * - Store invalid/expired hints in DLQ with categorization
  * - Materialize exits: create stub neighbor location + bidirectional exit edges
  * - Clear pending availability after successful materialization
+ * - Announce the new exit to players at the origin (live exit.materialized event)
  * - Emit telemetry for each outcome (hint received, materialized, skipped-idempotent,
  *   forbidden-policy, failed-validation)
  *
@@ -36,6 +37,7 @@ import {
     resolveMacroGenerationContext,
     scoreAtlasAwareReconnectionCandidate
 } from '../services/macroGenerationContext.js'
+import { LiveEventService } from '../services/LiveEventService.js'
 import { resolveTransitionOutcome } from '../services/macroTransitionResolver.js'
 import type { ITemporalProximityService } from '../services/temporalProximityService.js'
 import { enrichNormalizedErrorAttributes } from '../telemetry/errorTelemetry.js'
@@ -226,7 +228,8 @@ export class QueueProcessExitGenerationHintHandler {
         @inject('IDeadLetterRepository') private deadLetterRepository: IDeadLetterRepository,
         @inject(TelemetryService) private telemetryService: TelemetryService,
         @inject(TOKENS.LocationRepository) private locationRepository: ILocationRepository,
-        @inject(TOKENS.TemporalProximityService) private temporalProximityService: ITemporalProximityService
+        @inject(TOKENS.TemporalProximityService) private temporalProximityService: ITemporalProximityService,
+        @inject(LiveEventService) private liveEvents: LiveEventService
     ) {}
 
     async handle(message: unknown, context: InvocationContext): Promise<void> {
@@ -641,7 +644,18 @@ export class QueueProcessExitGenerationHintHandler {
             correlationId
         })
 
-        // 14. Emit success telemetry
+        // 14. Players waiting at the origin (e.g. behind the arrival pause) can walk on
+        this.liveEvents.publish(
+            {
+                kind: 'exit.materialized',
+                locationId: payload.originLocationId,
+                text: `A way ${payload.dir} opens up.`,
+                direction: payload.dir
+            },
+            { correlationId }
+        )
+
+        // 15. Emit success telemetry
         this.telemetryService.trackGameEventStrict(
             'Navigation.Exit.GenerationRequested',
             {
@@ -9,15 +9,22 @@
  * This is the orchestration seam described in docs/workflows/foundry/resolve-player-command.md.
  * It returns a resolution only (no canonical writes), enabling callers to choose
  * presentation mode/tempo and then invoke existing canonical endpoints
- * (/player/{id}/move, /location/{id}/look, etc.).
+ * (/player/{id}/move, /location/{id}/look, /player/{id}/take, /player/{id}/drop, /player/{id}/talk,
+ * /player/{id}/lock, /player/{id}/unlock, /player/{id}/attack, /player/{id}/defend, /player/{id}/flee,
+ * /player/{id}/wait, /player/{id}/rest, /player/{id}/sleep, /player/{id}/travel, etc.).
  *
  * Request body: { playerId: string, inputText: string }
  * Response (200):
  *   {
  *     success: true,
  *     data: {
- *       actionKind: 'Move' | 'Look' | 'Unknown',
- *       direction?: string,          // present for Move with resolved direction
+ *       actionKind: 'Move' | 'Look' | 'Take' | 'Drop' | 'Talk' | 'Lock' | 'Unlock' | 'Attack' | 'Defend' | 'Flee'
+ *                 | 'Wait' | 'Rest' | 'Sleep' | 'Travel' | 'Unknown',
+ *       direction?: string,          // present for Move/Lock/Unlock (and Flee when named) with resolved direction
+ *       itemName?: string,           // present for Take/Drop with a named item
+ *       npcName?: string,            // present for Talk (and Attack when named) with a named NPC
+ *       durationMs?: number,         // present for Wait/Rest/Sleep when a duration was typed ("wait 2 hours")
+ *       destination?: string,        // present for Travel: the place name as typed ("travel to the harbour steps")
  *       presentationMode: 'Auto',
  *       responseTempo: 'Auto',
  *       canonicalWritesPlanned: boolean,
@@ -31,20 +38,38 @@
  *         rawInput: string,
  *         parsedIntent: { verb: string, targets?: ActionIntentTarget[] },
  *         validationResult: { success: boolean, errors?: string[] }
- *       }
+ *       },
+ *       steps?: CommandStepResolution[] // present for multi-intent chains ("go north then look"); the top-level
+ *                                       // fields describe the first step. Execute chains via POST /player/{id}/command.
+ *       clarification?: CommandClarification // numbered follow-up question ("go" → "Which way do you want to go?")
  *     }
  *   }
  *
+ * Clarification loop: a single command missing its direction / target, or naming several things here, resolves
+ * to Unknown with a `clarification` question that is held server-side per player (CommandClarificationService).
+ * The player's next input is offered to that question first — "2", "the seagull" or "north" fills the stored
+ * intent and resolves it as if typed in full; an unrelated command or an expired question discards it.
+ *
  * Validation errors (400): MissingPlayerId, MissingField, ValidationError, InvalidJson
- * No persistence writes are performed.
+ * No canonical writes are performed (only the pending clarification is stored).
  *
  * Risk: RUNTIME-BEHAVIOR
  */
 
 import type { HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions'
-import type { ActionIntent, ActionIntentTarget, AmbiguityIssue, Intent, ParsedCommand } from '@piquet-h/shared'
+import type {
+    ActionIntent,
+    ActionIntentTarget,
+    AmbiguityIssue,
+    CommandActionKind,
+    CommandClarification,
+    Intent,
+    ParsedCommand,
+    PendingClarification
+} from '@piquet-h/shared'
 import type { Container } from 'inversify'
 import { inject, injectable } from 'inversify'
+import { CommandClarificationService } from '../services/CommandClarificationService.js'
 import type { ITelemetryClient } from '../telemetry/ITelemetryClient.js'
 import { BaseHandler } from './base/BaseHandler.js'
 import { IntentParserHandler } from './mcp/intent-parser/intent-parser.js'
@@ -54,21 +79,44 @@ import { errorResponse, okResponse } from './utils/responseBuilder.js'
 const MAX_INPUT_LENGTH = 500
 
 /** Derived action kind for a resolved player command. */
-export type ActionKind = 'Move' | 'Look' | 'Unknown'
+export type ActionKind = CommandActionKind
+
+/** Resolution of a single parsed intent (one step of a command chain). */
+export type CommandStepResolution = {
+    /** Execution order (0 = first). */
+    order: number
+    actionKind: ActionKind
+    direction?: string
+    itemName?: string
+    npcName?: string
+    durationMs?: number
+    destination?: string
+    canonicalWritesPlanned: boolean
+    actionIntent: ActionIntent
+}
 
 /** Resolution data returned by the resolve-player-command endpoint. */
 export type CommandResolutionData = {
     /** High-level action category derived from the primary intent. */
     actionKind: ActionKind
-    /** Direction parameter for Move intents with a fully resolved direction. */
+    /** Direction parameter for Move/Lock/Unlock (and Flee through a named exit) intents with a fully resolved direction. */
     direction?: string
+    /** Surface item name for Take/Drop intents (resolved against location or inventory by the canonical endpoint). */
+    itemName?: string
+    /** Surface NPC name for Talk and Attack intents (resolved against NPCs at the player's location by the canonical endpoint). */
+    npcName?: string
+    /** Requested duration for Wait/Rest/Sleep intents (omitted → the ActionRegistry default for the action). */
+    durationMs?: number
+    /** Place name or landmark for Travel intents (resolved against the world graph by the canonical endpoint). */
+    destination?: string
     /** Presentation mode selection (Auto = caller decides). */
     presentationMode: 'Auto'
     /** Response tempo selection (Auto = caller decides). */
     responseTempo: 'Auto'
     /**
      * Whether executing this resolution would require a canonical write.
-     * true for Move (navigation mutates player state); false for Look and Unknown.
+     * true for Move/Take/Drop/Talk/Lock/Unlock/Attack/Defend/Flee/Wait/Rest/Sleep/Travel (mutate player, world, dialogue, combat or
+     * clock state); false for Look and Unknown.
      */
     canonicalWritesPlanned: boolean
     /** Parsed intent detail – supports downstream ActionIntent adoption (issue #788). */
@@ -88,6 +136,10 @@ export type CommandResolutionData = {
      * validationResult.success is false for Unknown/ambiguous resolutions.
      */
     actionIntent: ActionIntent
+    /** Every step of a multi-intent command, in execution order (omitted for single-intent commands). */
+    steps?: CommandStepResolution[]
+    /** Follow-up question held for the player; their next input may answer it. */
+    clarification?: CommandClarification
 }
 
 /**
@@ -97,6 +149,18 @@ export type CommandResolutionData = {
  * - move + resolved direction → Move (canonicalWritesPlanned: true)
  * - move without direction    → Unknown (direction is ambiguous, no safe target)
  * - examine / look            → Look (canonicalWritesPlanned: false)
+ * - take / drop + item name   → Take / Drop (canonicalWritesPlanned: true)
+ * - take / drop without item  → Unknown (nothing to pick up or put down)
+ * - communicate + NPC name    → Talk (canonicalWritesPlanned: true; the dialogue session is persisted)
+ * - communicate without NPC   → Unknown (nobody to talk to)
+ * - lock / unlock + direction → Lock / Unlock (canonicalWritesPlanned: true; the exit lock state changes)
+ * - lock / unlock without dir → Unknown (no exit to lock or unlock)
+ * - attack / defend / flee    → Attack / Defend / Flee (canonicalWritesPlanned: true; a combat round is resolved).
+ *                               A bare `attack` continues the current fight; `flee` may name an exit.
+ * - wait / rest / sleep       → Wait / Rest / Sleep (canonicalWritesPlanned: true; the player clock advances).
+ *                               An optional duration ("wait 2 hours") travels as durationMs.
+ * - travel + place name       → Travel (canonicalWritesPlanned: true; the player walks a multi-leg route)
+ * - travel without place      → Unknown (nowhere to go)
  * - anything else / no intent → Unknown (canonicalWritesPlanned: false)
  */
 function deriveActionKind(intent: Intent | undefined): ActionKind {
@@ -105,9 +169,38 @@ function deriveActionKind(intent: Intent | undefined): ActionKind {
         return intent.direction ? 'Move' : 'Unknown'
     }
     if (intent.verb === 'examine') return 'Look'
+    if (intent.verb === 'take') return intent.surfaceTargetName ? 'Take' : 'Unknown'
+    if (intent.verb === 'drop') return intent.surfaceTargetName ? 'Drop' : 'Unknown'
+    if (intent.verb === 'communicate') return intent.surfaceTargetName ? 'Talk' : 'Unknown'
+    if (intent.verb === 'lock') return intent.direction ? 'Lock' : 'Unknown'
+    if (intent.verb === 'unlock') return intent.direction ? 'Unlock' : 'Unknown'
+    if (intent.verb === 'attack') return 'Attack'
+    if (intent.verb === 'defend') return 'Defend'
+    if (intent.verb === 'flee') return 'Flee'
+    if (intent.verb === 'wait') return 'Wait'
+    if (intent.verb === 'rest') return 'Rest'
+    if (intent.verb === 'sleep') return 'Sleep'
+    if (intent.verb === 'travel') return intent.surfaceTargetName ? 'Travel' : 'Unknown'
     return 'Unknown'
 }
 
+/** Action kinds whose canonical endpoint performs a write. */
+const WRITE_ACTION_KINDS: ReadonlySet<ActionKind> = new Set([
+    'Move',
+    'Take',
+    'Drop',
+    'Talk',
+    'Lock',
+    'Unlock',
+    'Attack',
+    'Defend',
+    'Flee',
+    'Wait',
+    'Rest',
+    'Sleep',
+    'Travel'
+])
+
 /**
  * Builds an ActionIntent-compatible structure from the resolved command.
  *
@@ -115,10 +208,13 @@ function deriveActionKind(intent: Intent | undefined): ActionKind {
  * - rawInput: the trimmed player input text
  * - parsedIntent.verb: canonical verb from PI-0, or 'unknown' as fallback
  * - parsedIntent.targets:
- *   - Move → [{ kind: 'direction', canonicalDirection }]
+ *   - Move/Lock/Unlock (and Flee with a direction) → [{ kind: 'direction', canonicalDirection }]
  *   - Look → [{ kind: 'location', name: 'current location' }]
- *   - Unknown → omitted
- * - validationResult.success: true for Move/Look; false for Unknown
+ *   - Take/Drop → [{ kind: 'item', surfaceText }]
+ *   - Talk (and Attack with a named NPC) → [{ kind: 'npc', surfaceText }]
+ *   - Travel → [{ kind: 'location', surfaceText }]
+ *   - Defend, bare Attack / Flee, Wait / Rest / Sleep, Unknown → omitted
+ * - validationResult.success: true for every kind except Unknown
  * - validationResult.errors: populated for Unknown with a descriptive message
  */
 function buildActionIntent(
@@ -130,18 +226,33 @@ function buildActionIntent(
     const verb = primaryIntent?.verb ?? 'unknown'
 
     let firstTarget: ActionIntentTarget | undefined
-    if (actionKind === 'Move' && primaryIntent?.direction) {
+    if ((actionKind === 'Move' || actionKind === 'Lock' || actionKind === 'Unlock' || actionKind === 'Flee') && primaryIntent?.direction) {
         firstTarget = { kind: 'direction', canonicalDirection: primaryIntent.direction }
     } else if (actionKind === 'Look') {
         firstTarget = { kind: 'location', name: 'current location' }
+    } else if ((actionKind === 'Take' || actionKind === 'Drop') && primaryIntent?.surfaceTargetName) {
+        firstTarget = { kind: 'item', surfaceText: primaryIntent.surfaceTargetName }
+    } else if ((actionKind === 'Talk' || actionKind === 'Attack') && primaryIntent?.surfaceTargetName) {
+        firstTarget = { kind: 'npc', surfaceText: primaryIntent.surfaceTargetName }
+    } else if (actionKind === 'Travel' && primaryIntent?.surfaceTargetName) {
+        firstTarget = { kind: 'location', surfaceText: primaryIntent.surfaceTargetName }
     }
 
     const errors: string[] = []
     if (actionKind === 'Unknown') {
-        if (needsClarification) {
-            errors.push('Command is ambiguous and requires clarification')
-        } else if (primaryIntent?.verb === 'move' && !primaryIntent?.direction) {
+        if (
+            (primaryIntent?.verb === 'move' || primaryIntent?.verb === 'lock' || primaryIntent?.verb === 'unlock') &&
+            !primaryIntent?.direction
+        ) {
             errors.push('Direction could not be determined from the input')
+        } else if ((primaryIntent?.verb === 'take' || primaryIntent?.verb === 'drop') && !primaryIntent?.surfaceTargetName) {
+            errors.push('Item could not be determined from the input')
+        } else if (primaryIntent?.verb === 'communicate' && !primaryIntent?.surfaceTargetName) {
+            errors.push('NPC could not be determined from the input')
+        } else if (primaryIntent?.verb === 'travel' && !primaryIntent?.surfaceTargetName) {
+            errors.push('Destination could not be determined from the input')
+        } else if (needsClarification) {
+            errors.push('Command is ambiguous and requires clarification')
         } else {
             errors.push('Command could not be resolved to a known action')
         }
@@ -160,11 +271,71 @@ function buildActionIntent(
     }
 }
 
+/** Resolves one parsed intent to its action kind, canonical-endpoint parameters and ActionIntent. */
+export function resolveIntent(rawInput: string, intent: Intent | undefined, needsClarification: boolean): CommandStepResolution {
+    const actionKind = deriveActionKind(intent)
+    const step: CommandStepResolution = {
+        order: intent?.order ?? 0,
+        actionKind,
+        canonicalWritesPlanned: WRITE_ACTION_KINDS.has(actionKind),
+        actionIntent: buildActionIntent(rawInput, actionKind, intent, needsClarification)
+    }
+
+    if ((actionKind === 'Move' || actionKind === 'Lock' || actionKind === 'Unlock' || actionKind === 'Flee') && intent?.direction) {
+        step.direction = intent.direction
+    }
+    if ((actionKind === 'Take' || actionKind === 'Drop') && intent?.surfaceTargetName) {
+        step.itemName = intent.surfaceTargetName
+    }
+    if ((actionKind === 'Talk' || actionKind === 'Attack') && intent?.surfaceTargetName) {
+        step.npcName = intent.surfaceTargetName
+    }
+    if ((actionKind === 'Wait' || actionKind === 'Rest' || actionKind === 'Sleep') && intent?.durationMs !== undefined) {
+        step.durationMs = intent.durationMs
+    }
+    if (actionKind === 'Travel' && intent?.surfaceTargetName) {
+        step.destination = intent.surfaceTargetName
+    }
+    return step
+}
+
+/**
+ * Plans a parsed command as ordered steps.
+ *
+ * Intents run one at a time in `order`; intents sharing an order position (a concurrencyGroup) keep
+ * their parse order, because every canonical endpoint reads or writes the same player state.
+ * A command with no intents plans a single Unknown step.
+ */
+export function planCommandChain(rawInput: string, parsed: ParsedCommand): CommandStepResolution[] {
+    if (parsed.intents.length === 0) {
+        return [resolveIntent(rawInput, undefined, parsed.needsClarification)]
+    }
+    return parsed.intents
+        .map((intent, index) => ({ intent, index }))
+        .sort((a, b) => a.intent.order - b.intent.order || a.index - b.index)
+        .map(({ intent }) => resolveIntent(rawInput, intent, parsed.needsClarification))
+}
+
+/** An intent held back for a clarification question: never executed, so it resolves to Unknown. */
+function clarificationStep(rawInput: string, intent: Intent): CommandStepResolution {
+    return {
+        order: intent.order,
+        actionKind: 'Unknown',
+        canonicalWritesPlanned: false,
+        actionIntent: buildActionIntent(rawInput, 'Unknown', intent, true)
+    }
+}
+
+function toClarification(pending: PendingClarification): CommandClarification {
+    return { prompt: pending.prompt, options: pending.options, expiresAt: pending.expiresAt }
+}
+
 @injectable()
 export class ResolvePlayerCommandHandler extends BaseHandler {
     constructor(
         @inject('ITelemetryClient') telemetry: ITelemetryClient,
-        @inject(IntentParserHandler) private readonly intentParser: IntentParserHandler
+        @inject(IntentParserHandler) private readonly intentParser: IntentParserHandler,
+        @inject(CommandClarificationService) private readonly clarifications: CommandClarificationService
     ) {
         super(telemetry)
     }
@@ -215,29 +386,76 @@ export class ResolvePlayerCommandHandler extends BaseHandler {
         const parsedJson = await this.intentParser.parseCommand({ arguments: { text: trimmedInput, playerId } }, context)
         const parsed = JSON.parse(parsedJson) as ParsedCommand
 
-        // --- Derive resolution from primary intent ---
-        const primaryIntent = parsed.intents[0] as Intent | undefined
-        const actionKind = deriveActionKind(primaryIntent)
-        const canonicalWritesPlanned = actionKind === 'Move'
+        // --- Offer the input to the player's open clarification question first ---
+        const answer = await this.clarifications.answer(playerId, trimmedInput, parsed.intents.length > 0)
+        if (answer.kind === 'dropped') {
+            this.telemetry.trackEvent({
+                name: 'PlayerCommand.Clarification.Dropped',
+                properties: { slot: answer.pending.slot, reason: answer.reason, correlationId: this.correlationId }
+            })
+        } else if (answer.kind === 'resolved') {
+            this.telemetry.trackEvent({
+                name: 'PlayerCommand.Clarification.Resolved',
+                properties: { slot: answer.pending.slot, answerKind: answer.answerKind, correlationId: this.correlationId }
+            })
+        }
+
+        // --- Derive resolution from primary intent (plus the full plan for chains) ---
+        let steps: CommandStepResolution[]
+        let primaryIntent: Intent | undefined
+        let pending: PendingClarification | null = null
+        if (answer.kind === 'resolved') {
+            // The answer completes the stored intent; resolve it as if the full command had been typed.
+            primaryIntent = answer.intent
+            steps = [resolveIntent(answer.pending.rawInput, answer.intent, false)]
+        } else if (answer.kind === 'asked') {
+            primaryIntent = answer.pending.intent
+            pending = answer.pending
+            steps = [clarificationStep(answer.pending.rawInput, answer.pending.intent)]
+        } else {
+            steps = planCommandChain(trimmedInput, parsed)
+            primaryIntent = parsed.intents.find((intent) => intent.order === steps[0].order)
+            if (steps.length === 1 && primaryIntent) {
+                pending = await this.clarifications.ask(playerId, trimmedInput, primaryIntent)
+                if (pending) {
+                    steps = [clarificationStep(trimmedInput, primaryIntent)]
+                    this.telemetry.trackEvent({
+                        name: 'PlayerCommand.Clarification.Requested',
+                        properties: {
+                            slot: pending.slot,
+                            optionCount: String(pending.options.length),
+                            reason: parsed.needsClarification ? 'missing' : 'ambiguous',
+                            correlationId: this.correlationId
+                        }
+                    })
+                }
+            }
+        }
+        const [primary] = steps
+        const { actionKind, canonicalWritesPlanned } = primary
+        const needsClarification = answer.kind === 'resolved' ? false : pending !== null || parsed.needsClarification
 
         const resolution: CommandResolutionData = {
             actionKind,
+            ...(primary.direction ? { direction: primary.direction } : {}),
+            ...(primary.itemName ? { itemName: primary.itemName } : {}),
+            ...(primary.npcName ? { npcName: primary.npcName } : {}),
+            ...(primary.durationMs !== undefined ? { durationMs: primary.durationMs } : {}),
+            ...(primary.destination ? { destination: primary.destination } : {}),
             presentationMode: 'Auto',
             responseTempo: 'Auto',
             canonicalWritesPlanned,
             parsedIntent: {
                 verb: primaryIntent?.verb ?? null,
                 confidence: primaryIntent?.confidence ?? 0,
-                needsClarification: parsed.needsClarification
+                needsClarification
             },
-            actionIntent: buildActionIntent(trimmedInput, actionKind, primaryIntent, parsed.needsClarification)
-        }
-
-        if (actionKind === 'Move' && primaryIntent?.direction) {
-            resolution.direction = primaryIntent.direction
+            actionIntent: primary.actionIntent,
+            ...(steps.length > 1 ? { steps } : {}),
+            ...(pending ? { clarification: toClarification(pending) } : {})
         }
 
-        if (parsed.ambiguities && parsed.ambiguities.length > 0) {
+        if (answer.kind !== 'resolved' && parsed.ambiguities && parsed.ambiguities.length > 0) {
             resolution.parsedIntent.ambiguities = parsed.ambiguities
         }
 
@@ -247,7 +465,7 @@ export class ResolvePlayerCommandHandler extends BaseHandler {
             properties: {
                 actionKind,
                 canonicalWritesPlanned: String(canonicalWritesPlanned),
-                needsClarification: String(parsed.needsClarification),
+                needsClarification: String(needsClarification),
                 correlationId: this.correlationId,
                 latencyMs: String(this.latencyMs)
             }
@@ -0,0 +1,57 @@
+/**
+ * HTTP helpers shared by the take/drop and inventory handlers.
+ */
+import type { HttpResponseInit } from '@azure/functions'
+import type { ItemSummary } from '@piquet-h/shared'
+import type { InventoryDenialReason } from '../../services/InventoryService.js'
+import { errorResponse } from './responseBuilder.js'
+
+/** Request body accepted by the take/drop endpoints. */
+export interface ItemActionBody {
+    itemId?: string
+    itemName?: string
+    /** Inventory version last observed by the client (optimistic concurrency) */
+    expectedVersion?: number
+    /** Optional ActionIntent from the resolve-player-command step (recorded on the world event). */
+    actionIntent?: unknown
+}
+
+const DENIAL_STATUS: Record<InventoryDenialReason, { status: number; code: string }> = {
+    'player-not-found': { status: 404, code: 'PlayerNotFound' },
+    'item-not-found': { status: 404, code: 'ItemNotFound' },
+    'item-not-carried': { status: 404, code: 'ItemNotFound' },
+    'item-unavailable': { status: 409, code: 'ItemUnavailable' },
+    'inventory-full': { status: 409, code: 'InventoryFull' },
+    'version-conflict': { status: 409, code: 'InventoryVersionConflict' }
+}
+
+/** HTTP status and error code for an InventoryService denial (shared with command chains). */
+export function inventoryDenial(reason: InventoryDenialReason): { status: number; code: string } {
+    return DENIAL_STATUS[reason]
+}
+
+/** HTTP status for an InventoryService denial (used for telemetry alongside the error response). */
+export function inventoryDenialStatus(reason: InventoryDenialReason): number {
+    return DENIAL_STATUS[reason].status
+}
+
+/** Map an InventoryService denial onto the standard error envelope. */
+export function inventoryDenialResponse(reason: InventoryDenialReason, message: string, correlationId: string): HttpResponseInit {
+    const { status, code } = DENIAL_STATUS[reason]
+    return errorResponse(status, code, message, { correlationId })
+}
+
+/** Client-facing view of an item (drops internal fields such as locationId and timestamps). */
+export function toItemSummary(item: { id: string; name: string; description?: string }): ItemSummary {
+    return { id: item.id, name: item.name, ...(item.description ? { description: item.description } : {}) }
+}
+
+/**
+ * Parse an optional expectedVersion (body number or query string).
+ * @returns the version, undefined when absent, or null when present but not a non-negative integer
+ */
+export function parseExpectedVersion(value: unknown): number | undefined | null {
+    if (value === undefined || value === null || value === '') return undefined
+    const parsed = typeof value === 'string' ? Number(value) : value
+    return typeof parsed === 'number' && Number.isInteger(parsed) && parsed >= 0 ? parsed : null
+}
@@ -0,0 +1,153 @@
+/**
+ * World Dead Letters Handlers (operator)
+ *
+ * GET  /api/world/events/deadletters
+ * GET  /api/world/events/deadletters/{id}
+ * POST /api/world/events/deadletters/redrive
+ *
+ * Dead-lettered world events through DeadLetterRedriveService: find them by time window, event type and
+ * error code, see whether each one passes the current envelope schema, and publish selected records to the
+ * world-events queue again. Every redrive attempt is recorded on its record. The routes use function-level auth.
+ *
+ * Query (GET list): start?, end? (ISO-8601, default the last 24 hours), eventType?, errorCode?, limit? (at most 100)
+ * Request body (POST): { ids: string[] } (1 to 50 record ids)
+ * Response (200, GET list): { records: DeadLetterView[] } (newest first, redacted, with current validation)
+ * Response (200, GET one): { record: DeadLetterView }
+ * Response (200, POST): { results: [{ id, outcome, eventId?, causationId?, message?, issues? }], redriven }
+ *
+ * Errors: 400 InvalidFormat / InvalidErrorCode / InvalidJson / MissingField, 404 DeadLetterNotFound
+ */
+import type { HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions'
+import type { DeadLetterResponse, DeadLettersResponse, RedriveDeadLettersRequest } from '@piquet-h/shared'
+import type { DeadLetterErrorCode } from '@piquet-h/shared/deadLetter'
+import type { Container } from 'inversify'
+import { inject, injectable } from 'inversify'
+import { DEAD_LETTER_REDRIVE_LIMIT, DeadLetterRedriveService } from '../services/DeadLetterRedriveService.js'
+import type { ITelemetryClient } from '../telemetry/ITelemetryClient.js'
+import { BaseHandler } from './base/BaseHandler.js'
+import { errorResponse, okResponse } from './utils/responseBuilder.js'
+import { isValidGuid } from './utils/validation.js'
+
+const ERROR_CODES: readonly DeadLetterErrorCode[] = ['json-parse', 'schema-validation', 'handler-error', 'unknown']
+
+function isErrorCode(value: string): value is DeadLetterErrorCode {
+    return (ERROR_CODES as readonly string[]).includes(value)
+}
+
+function isTimestamp(value: string | null): boolean {
+    return value === null || !Number.isNaN(Date.parse(value))
+}
+
+@injectable()
+export class ListDeadLettersHandler extends BaseHandler {
+    constructor(
+        @inject('ITelemetryClient') telemetry: ITelemetryClient,
+        @inject(DeadLetterRedriveService) private deadLetters: DeadLetterRedriveService
+    ) {
+        super(telemetry)
+    }
+
+    protected async execute(req: HttpRequest): Promise<HttpResponseInit> {
+        const start = req.query.get('start')
+        const end = req.query.get('end')
+        if (!isTimestamp(start) || !isTimestamp(end)) {
+            return errorResponse(400, 'InvalidFormat', 'start and end must be ISO-8601 timestamps', { correlationId: this.correlationId })
+        }
+        const errorCode = req.query.get('errorCode')
+        if (errorCode !== null && !isErrorCode(errorCode)) {
+            return errorResponse(400, 'InvalidErrorCode', `errorCode must be one of ${ERROR_CODES.join(', ')}`, {
+                correlationId: this.correlationId
+            })
+        }
+        const limitParam = req.query.get('limit')
+        const limit = limitParam === null ? undefined : parseInt(limitParam, 10)
+        if (limit !== undefined && (Number.isNaN(limit) || limit < 1)) {
+            return errorResponse(400, 'InvalidFormat', 'limit must be a positive integer', { correlationId: this.correlationId })
+        }
+
+        const records = await this.deadLetters.list({
+            startUtc: start === null ? undefined : new Date(start).toISOString(),
+            endUtc: end === null ? undefined : new Date(end).toISOString(),
+            eventType: req.query.get('eventType') ?? undefined,
+            errorCode: errorCode ?? undefined,
+            limit
+        })
+        const response: DeadLettersResponse = { records }
+        return okResponse(response, { correlationId: this.correlationId })
+    }
+}
+
+@injectable()
+export class GetDeadLetterHandler extends BaseHandler {
+    constructor(
+        @inject('ITelemetryClient') telemetry: ITelemetryClient,
+        @inject(DeadLetterRedriveService) private deadLetters: DeadLetterRedriveService
+    ) {
+        super(telemetry)
+    }
+
+    protected async execute(req: HttpRequest): Promise<HttpResponseInit> {
+        const id = req.params.id
+        if (!id || !isValidGuid(id)) {
+            return errorResponse(400, 'InvalidFormat', 'Dead-letter id must be a valid GUID format', { correlationId: this.correlationId })
+        }
+
+        const record = await this.deadLetters.get(id)
+        if (!record) {
+            return errorResponse(404, 'DeadLetterNotFound', 'Dead-letter record not found', { correlationId: this.correlationId })
+        }
+        const response: DeadLetterResponse = { record }
+        return okResponse(response, { correlationId: this.correlationId })
+    }
+}
+
+@injectable()
+export class RedriveDeadLettersHandler extends BaseHandler {
+    constructor(
+        @inject('ITelemetryClient') telemetry: ITelemetryClient,
+        @inject(DeadLetterRedriveService) private deadLetters: DeadLetterRedriveService
+    ) {
+        super(telemetry)
+    }
+
+    protected async execute(req: HttpRequest): Promise<HttpResponseInit> {
+        let body: Partial<RedriveDeadLettersRequest>
+        try {
+            const text = await req.text()
+            body = text ? (JSON.parse(text) as Partial<RedriveDeadLettersRequest>) : {}
+        } catch {
+            return errorResponse(400, 'InvalidJson', 'Request body must be valid JSON', { correlationId: this.correlationId })
+        }
+
+        const ids = body.ids
+        if (!Array.isArray(ids) || ids.length === 0 || ids.length > DEAD_LETTER_REDRIVE_LIMIT) {
+            return errorResponse(400, 'MissingField', `ids must list 1 to ${DEAD_LETTER_REDRIVE_LIMIT} dead-letter record ids`, {
+                correlationId: this.correlationId
+            })
+        }
+        if (!ids.every((id) => typeof id === 'string' && isValidGuid(id))) {
+            return errorResponse(400, 'InvalidFormat', 'Dead-letter ids must be valid GUIDs', { correlationId: this.correlationId })
+        }
+
+        const response = await this.deadLetters.redrive([...new Set(ids)], this.correlationId)
+        return okResponse(response, { correlationId: this.correlationId })
+    }
+}
+
+export async function handleListDeadLetters(req: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    const container = context.extraInputs.get('container') as Container
+    const handler = container.get(ListDeadLettersHandler)
+    return handler.handle(req, context)
+}
+
+export async function handleGetDeadLetter(req: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    const container = context.extraInputs.get('container') as Container
+    const handler = container.get(GetDeadLetterHandler)
+    return handler.handle(req, context)
+}
+
+export async function handleRedriveDeadLetters(req: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    const container = context.extraInputs.get('container') as Container
+    const handler = container.get(RedriveDeadLettersHandler)
+    return handler.handle(req, context)
+}
@@ -1,25 +1,35 @@
 /**
- * World Graph Handler
+ * World Graph Handlers
  *
- * Returns the full world location graph: all location nodes and traversable exit edges.
- * Used by the frontend WorldMap component (Cytoscape visualisation).
+ * Return the world location graph: location nodes and traversable exit edges.
+ *
+ * GET /api/world/graph      – fog of war for the player in the `x-player-guid` header (required): only
+ *                             locations in their discovery ledger (plus their current location), with exits
+ *                             leading elsewhere ending at nameless `unexplored:stub` nodes. Used by the
+ *                             frontend WorldMap component (Cytoscape visualisation).
+ * GET /api/world/graph/full – every node and edge; the operator view (function-level auth).
  *
  * Response shape:
  *   { nodes: WorldGraphNode[], edges: WorldGraphEdge[] }
+ *
+ * Errors (player view): 400 InvalidPlayerId, 404 PlayerNotFound
  */
 import type { HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions'
 import type { Direction, ForbiddenExitEntry, ForbiddenExitMotif, ForbiddenExitReveal } from '@piquet-h/shared'
-import { normalizeForbiddenEntry } from '@piquet-h/shared'
+import { normalizeForbiddenEntry, STARTER_LOCATION_ID } from '@piquet-h/shared'
+import type { IPlayerRepository } from '@piquet-h/shared/types/playerRepository'
 import type { Container } from 'inversify'
 import { inject, injectable, optional } from 'inversify'
 import type { IGremlinClient } from '../gremlin/gremlinClient.js'
 import type { IPersistenceConfig } from '../persistenceConfig.js'
+import type { IDiscoveryRepository } from '../repos/discoveryRepository.js'
 import type { ILocationRepository } from '../repos/locationRepository.js'
 import type { ITelemetryClient } from '../telemetry/ITelemetryClient.js'
 import type { FrontierStructuralArchetype, PendingExitMetadata } from '../services/frontierContext.js'
 import { buildAtlasAwarePendingMetadata, resolveMacroGenerationContext } from '../services/macroGenerationContext.js'
 import { BaseHandler } from './base/BaseHandler.js'
-import { internalErrorResponse, okResponse } from './utils/responseBuilder.js'
+import { errorResponse, internalErrorResponse, okResponse } from './utils/responseBuilder.js'
+import { isValidGuid } from './utils/validation.js'
 
 export interface WorldGraphNode {
     id: string
@@ -74,6 +84,9 @@ export interface WorldGraphResponse {
     edges: WorldGraphEdge[]
 }
 
+/** `full`: the whole world (operators). `player`: only what the requesting player has discovered. */
+export type WorldGraphView = 'full' | 'player'
+
 /** Sentinel used in Gremlin coalesce() when travelDurationMs is absent on an edge. */
 const TRAVEL_DURATION_ABSENT = -1
 const PENDING_NODE_NAME = 'Unexplored Open Plain'
@@ -96,6 +109,10 @@ function forbiddenNodeId(fromId: string, direction: string): string {
     return `forbidden:${fromId}:${direction}`
 }
 
+function unexploredNodeId(fromId: string, direction: string): string {
+    return `unexplored:${fromId}:${direction}`
+}
+
 /**
  * Derive the structural class for a real (materialized) location node from its tags.
  *
@@ -111,6 +128,42 @@ function deriveStructuralClassFromTags(tags?: string[]): FrontierStructuralArche
     return undefined
 }
 
+const UNEXPLORED_NODE_NAME = 'Unexplored'
+
+/**
+ * Restrict a full graph to what a player has discovered.
+ *
+ * Keeps discovered location nodes and every edge leaving them. Edges to undiscovered locations stay,
+ * but end at an unexplored stub per exit (`unexplored:<fromId>:<direction>`, generic name,
+ * `unexplored:stub` tag) so the map shows the way on without revealing where it goes, not even the
+ * location id. Pending and forbidden synthetic nodes reached from discovered locations are kept as they
+ * are; everything reachable only from undiscovered locations is dropped.
+ */
+export function applyFogOfWar(graph: WorldGraphResponse, discoveredIds: ReadonlySet<string>): WorldGraphResponse {
+    const nodeById = new Map(graph.nodes.map((n) => [n.id, n]))
+    const visibleNodes = new Map<string, WorldGraphNode>()
+    for (const id of discoveredIds) {
+        const node = nodeById.get(id)
+        if (node) visibleNodes.set(id, node)
+    }
+
+    const edges: WorldGraphEdge[] = []
+    for (const edge of graph.edges) {
+        if (!visibleNodes.has(edge.fromId)) continue
+        const target = nodeById.get(edge.toId)
+        if (visibleNodes.has(edge.toId) || target?.tags?.some((t) => t === 'pending:synthetic' || t === 'forbidden:synthetic')) {
+            if (target) visibleNodes.set(edge.toId, target)
+            edges.push(edge)
+            continue
+        }
+        const stubId = unexploredNodeId(edge.fromId, edge.direction)
+        visibleNodes.set(stubId, { id: stubId, name: UNEXPLORED_NODE_NAME, tags: ['unexplored:stub'] })
+        edges.push({ ...edge, toId: stubId })
+    }
+
+    return { nodes: Array.from(visibleNodes.values()), edges }
+}
+
 function forbiddenNodeName(motif?: ForbiddenExitMotif): string {
     const motifNames: Record<ForbiddenExitMotif, string> = {
         cliff: 'Impassable Cliff',
@@ -123,228 +176,94 @@ function forbiddenNodeName(motif?: ForbiddenExitMotif): string {
 }
 
 /**
- * Handler that returns all location nodes and exit edges as a graph.
+ * Base for the world graph handlers: builds the whole graph and reports it.
  * Intentionally lightweight – no description compilation, no per-location exit fetches.
  */
-@injectable()
-export class WorldGraphHandler extends BaseHandler {
+abstract class BaseWorldGraphHandler extends BaseHandler {
     constructor(
-        @inject('ITelemetryClient') telemetry: ITelemetryClient,
-        @inject('PersistenceConfig') private readonly persistence: IPersistenceConfig,
-        @inject('ILocationRepository') private readonly locationRepository: ILocationRepository,
-        @inject('GremlinClient') @optional() private readonly gremlinClient?: IGremlinClient
+        telemetry: ITelemetryClient,
+        protected readonly persistence: IPersistenceConfig,
+        protected readonly locationRepository: ILocationRepository,
+        protected readonly gremlinClient?: IGremlinClient
     ) {
         super(telemetry)
     }
 
-    protected async execute(): Promise<HttpResponseInit> {
-        try {
-            // Memory mode: build graph from the repository contract (seeded locations + exits).
-            // Cosmos mode: prefer Gremlin fast-path to avoid N+1 listAll() calls and keep the endpoint snappy.
-            if (this.persistence.mode !== 'cosmos') {
-                const locations = await this.locationRepository.listAll()
-
-                const nodeById = new Map<string, WorldGraphNode>(
-                    locations.map((loc) => [
-                        loc.id,
-                        {
-                            id: loc.id,
-                            name: loc.name || 'Unknown',
-                            tags: loc.tags,
-                            structuralClass: deriveStructuralClassFromTags(loc.tags)
-                        }
-                    ])
-                )
-
-                const edges: WorldGraphEdge[] = []
-                const hardExitDirectionsBySource = new Map<string, Set<string>>()
-
-                for (const loc of locations) {
-                    const exits = loc.exits || []
-                    const hardDirections = new Set<string>()
-                    const hardEdges = exits
-                        .filter((e) => Boolean(e.to) && Boolean(e.direction))
-                        .map((e) => ({
-                            fromId: loc.id,
-                            toId: String(e.to),
-                            direction: String(e.direction),
-                            travelDurationMs: Number(e.travelDurationMs) > 0 ? Number(e.travelDurationMs) : undefined,
-                            locked: e.lockState === 'locked' ? true : undefined
-                        }))
-
-                    for (const edge of hardEdges) {
-                        hardDirections.add(edge.direction)
-                        edges.push(edge)
-                    }
-                    hardExitDirectionsBySource.set(loc.id, hardDirections)
-                }
-
-                // Pending exits are valid traversal intent even before an edge is materialized.
-                // Represent them as synthetic graph edges to synthetic placeholder nodes so the map
-                // can display player-visible frontier directions (aligned with Exit Intent Capture).
-                for (const loc of locations) {
-                    const pending = loc.exitAvailability?.pending
-                    if (!pending) continue
-
-                    const hardDirections = hardExitDirectionsBySource.get(loc.id) ?? new Set<string>()
-
-                    for (const [direction, reason] of Object.entries(pending)) {
-                        if (!reason || hardDirections.has(direction)) continue
-
-                        // Derive structured context from source node tags + direction.
-                        const macroCtx = resolveMacroGenerationContext(loc.tags, direction as Direction)
-                        const frontierCtx = buildAtlasAwarePendingMetadata(macroCtx)
-
-                        const syntheticId = pendingNodeId(loc.id, direction)
-                        if (!nodeById.has(syntheticId)) {
-                            nodeById.set(syntheticId, {
-                                id: syntheticId,
-                                name: pendingNodeName(direction, frontierCtx.structuralArchetype),
-                                tags: ['pending:synthetic'],
-                                structuralClass: frontierCtx.structuralArchetype
-                            })
-                        }
-
-                        edges.push({
-                            fromId: loc.id,
-                            toId: syntheticId,
-                            direction,
-                            pending: true,
-                            frontierContext: frontierCtx
-                        })
-                    }
-                }
-
-                // Forbidden exits are permanent barriers — include them so consumers can distinguish
-                // which directions are pending (will be generated) vs permanently blocked, without
-                // parsing human-readable reason strings.
-                for (const loc of locations) {
-                    const forbidden = loc.exitAvailability?.forbidden
-                    if (!forbidden) continue
-
-                    const hardDirections = hardExitDirectionsBySource.get(loc.id) ?? new Set<string>()
-
-                    for (const [direction, rawEntry] of Object.entries(forbidden)) {
-                        if (!rawEntry || hardDirections.has(direction)) continue
-
-                        const entry = normalizeForbiddenEntry(rawEntry as ForbiddenExitEntry | string)
-                        const syntheticId = forbiddenNodeId(loc.id, direction)
-                        if (!nodeById.has(syntheticId)) {
-                            nodeById.set(syntheticId, {
-                                id: syntheticId,
-                                name: forbiddenNodeName(entry.motif),
-                                tags: ['forbidden:synthetic']
-                            })
-                        }
-
-                        edges.push({
-                            fromId: loc.id,
-                            toId: syntheticId,
-                            direction,
-                            forbidden: true,
-                            forbiddenContext: { reason: entry.reason, motif: entry.motif, reveal: entry.reveal }
-                        })
-                    }
-                }
-
-                const nodes = Array.from(nodeById.values())
-
-                this.track('World.Map.Fetched', {
-                    nodeCount: nodes.length,
-                    edgeCount: edges.length,
-                    latencyMs: this.latencyMs,
-                    persistenceMode: this.persistence.mode
-                })
-
-                return okResponse({ nodes, edges } satisfies WorldGraphResponse, {
-                    correlationId: this.correlationId
-                })
-            }
-
-            if (!this.gremlinClient) {
-                throw new Error('World graph requires GremlinClient in cosmos mode, but it was not registered')
-            }
-
-            const [rawNodes, rawEdges] = await Promise.all([
-                this.gremlinClient.submit<Record<string, unknown>>("g.V().hasLabel('location').valueMap(true)"),
-                this.gremlinClient.submit<Record<string, unknown>>(
-                    "g.E().hasLabel('exit')" +
-                        ".project('fromId','toId','direction','travelDurationMs')" +
-                        '.by(outV().id())' +
-                        '.by(inV().id())' +
-                        ".by(values('direction'))" +
-                        `.by(coalesce(values('travelDurationMs'), constant(${TRAVEL_DURATION_ABSENT})))`
-                )
-            ])
-
-            const locationPendingById = new Map<string, Record<string, string>>()
-            const locationForbiddenById = new Map<string, Record<string, ForbiddenExitEntry | string>>()
-
-            const nodesById = new Map<string, WorldGraphNode>()
-            for (const v of rawNodes || []) {
-                const id = String(v.id || v['id'])
-                const name = Array.isArray(v.name) ? String((v.name as unknown[])[0]) : String(v.name || 'Unknown')
-                const tags = Array.isArray(v.tags) ? (v.tags as string[]) : undefined
-
-                nodesById.set(id, { id, name, tags, structuralClass: deriveStructuralClassFromTags(tags) })
-
-                const pendingRaw = Array.isArray(v.exitAvailabilityPendingJson)
-                    ? v.exitAvailabilityPendingJson[0]
-                    : v.exitAvailabilityPendingJson
-
-                if (typeof pendingRaw === 'string' && pendingRaw.length > 0) {
-                    try {
-                        const parsed = JSON.parse(pendingRaw) as Record<string, string>
-                        locationPendingById.set(id, parsed)
-                    } catch {
-                        // ignore malformed JSON for map payload resilience; hydration path emits diagnostics
-                    }
-                }
-
-                const forbiddenRaw = Array.isArray(v.exitAvailabilityForbiddenJson)
-                    ? v.exitAvailabilityForbiddenJson[0]
-                    : v.exitAvailabilityForbiddenJson
+    protected respond({ nodes, edges }: WorldGraphResponse, view: WorldGraphView): HttpResponseInit {
+        this.track('World.Map.Fetched', {
+            nodeCount: nodes.length,
+            edgeCount: edges.length,
+            latencyMs: this.latencyMs,
+            persistenceMode: this.persistence.mode,
+            view
+        })
+
+        return okResponse({ nodes, edges } satisfies WorldGraphResponse, {
+            correlationId: this.correlationId,
+            playerGuid: view === 'player' ? this.playerGuid : undefined
+        })
+    }
 
-                if (typeof forbiddenRaw === 'string' && forbiddenRaw.length > 0) {
-                    try {
-                        const parsed = JSON.parse(forbiddenRaw) as Record<string, ForbiddenExitEntry | string>
-                        locationForbiddenById.set(id, parsed)
-                    } catch {
-                        // ignore malformed JSON for map payload resilience; hydration path emits diagnostics
+    protected async buildFullGraph(): Promise<WorldGraphResponse> {
+        // Memory mode: build graph from the repository contract (seeded locations + exits).
+        // Cosmos mode: prefer Gremlin fast-path to avoid N+1 listAll() calls and keep the endpoint snappy.
+        if (this.persistence.mode !== 'cosmos') {
+            const locations = await this.locationRepository.listAll()
+
+            const nodeById = new Map<string, WorldGraphNode>(
+                locations.map((loc) => [
+                    loc.id,
+                    {
+                        id: loc.id,
+                        name: loc.name || 'Unknown',
+                        tags: loc.tags,
+                        structuralClass: deriveStructuralClassFromTags(loc.tags)
                     }
+                ])
+            )
+
+            const edges: WorldGraphEdge[] = []
+            const hardExitDirectionsBySource = new Map<string, Set<string>>()
+
+            for (const loc of locations) {
+                const exits = loc.exits || []
+                const hardDirections = new Set<string>()
+                const hardEdges = exits
+                    .filter((e) => Boolean(e.to) && Boolean(e.direction))
+                    .map((e) => ({
+                        fromId: loc.id,
+                        toId: String(e.to),
+                        direction: String(e.direction),
+                        travelDurationMs: Number(e.travelDurationMs) > 0 ? Number(e.travelDurationMs) : undefined,
+                        locked: e.lockState === 'locked' ? true : undefined
+                    }))
+
+                for (const edge of hardEdges) {
+                    hardDirections.add(edge.direction)
+                    edges.push(edge)
                 }
+                hardExitDirectionsBySource.set(loc.id, hardDirections)
             }
 
-            const edges: WorldGraphEdge[] = (rawEdges || []).map((e) => ({
-                fromId: String(e.fromId),
-                toId: String(e.toId),
-                direction: String(e.direction),
-                travelDurationMs: Number(e.travelDurationMs) > 0 ? Number(e.travelDurationMs) : undefined
-            }))
-
-            const hardDirectionsBySource = new Map<string, Set<string>>()
-            for (const edge of edges) {
-                const set = hardDirectionsBySource.get(edge.fromId) ?? new Set<string>()
-                set.add(edge.direction)
-                hardDirectionsBySource.set(edge.fromId, set)
-            }
-
-            for (const [fromId, pending] of locationPendingById.entries()) {
-                const hardDirections = hardDirectionsBySource.get(fromId) ?? new Set<string>()
+            // Pending exits are valid traversal intent even before an edge is materialized.
+            // Represent them as synthetic graph edges to synthetic placeholder nodes so the map
+            // can display player-visible frontier directions (aligned with Exit Intent Capture).
+            for (const loc of locations) {
+                const pending = loc.exitAvailability?.pending
+                if (!pending) continue
 
-                // Source node tags are available via nodesById; use them to derive
-                // structured frontier context on-demand.
-                const sourceTags = nodesById.get(fromId)?.tags
+                const hardDirections = hardExitDirectionsBySource.get(loc.id) ?? new Set<string>()
 
                 for (const [direction, reason] of Object.entries(pending)) {
                     if (!reason || hardDirections.has(direction)) continue
 
-                    const macroCtx = resolveMacroGenerationContext(sourceTags, direction as Direction)
+                    // Derive structured context from source node tags + direction.
+                    const macroCtx = resolveMacroGenerationContext(loc.tags, direction as Direction)
                     const frontierCtx = buildAtlasAwarePendingMetadata(macroCtx)
 
-                    const syntheticId = pendingNodeId(fromId, direction)
-                    if (!nodesById.has(syntheticId)) {
-                        nodesById.set(syntheticId, {
+                    const syntheticId = pendingNodeId(loc.id, direction)
+                    if (!nodeById.has(syntheticId)) {
+                        nodeById.set(syntheticId, {
                             id: syntheticId,
                             name: pendingNodeName(direction, frontierCtx.structuralArchetype),
                             tags: ['pending:synthetic'],
@@ -353,7 +272,7 @@ export class WorldGraphHandler extends BaseHandler {
                     }
 
                     edges.push({
-                        fromId,
+                        fromId: loc.id,
                         toId: syntheticId,
                         direction,
                         pending: true,
@@ -363,17 +282,21 @@ export class WorldGraphHandler extends BaseHandler {
             }
 
             // Forbidden exits are permanent barriers — include them so consumers can distinguish
-            // which directions are pending (will be generated) vs permanently blocked.
-            for (const [fromId, forbidden] of locationForbiddenById.entries()) {
-                const hardDirections = hardDirectionsBySource.get(fromId) ?? new Set<string>()
+            // which directions are pending (will be generated) vs permanently blocked, without
+            // parsing human-readable reason strings.
+            for (const loc of locations) {
+                const forbidden = loc.exitAvailability?.forbidden
+                if (!forbidden) continue
+
+                const hardDirections = hardExitDirectionsBySource.get(loc.id) ?? new Set<string>()
 
                 for (const [direction, rawEntry] of Object.entries(forbidden)) {
                     if (!rawEntry || hardDirections.has(direction)) continue
 
-                    const entry = normalizeForbiddenEntry(rawEntry)
-                    const syntheticId = forbiddenNodeId(fromId, direction)
-                    if (!nodesById.has(syntheticId)) {
-                        nodesById.set(syntheticId, {
+                    const entry = normalizeForbiddenEntry(rawEntry as ForbiddenExitEntry | string)
+                    const syntheticId = forbiddenNodeId(loc.id, direction)
+                    if (!nodeById.has(syntheticId)) {
+                        nodeById.set(syntheticId, {
                             id: syntheticId,
                             name: forbiddenNodeName(entry.motif),
                             tags: ['forbidden:synthetic']
@@ -381,7 +304,7 @@ export class WorldGraphHandler extends BaseHandler {
                     }
 
                     edges.push({
-                        fromId,
+                        fromId: loc.id,
                         toId: syntheticId,
                         direction,
                         forbidden: true,
@@ -390,17 +313,202 @@ export class WorldGraphHandler extends BaseHandler {
                 }
             }
 
-            const nodes = Array.from(nodesById.values())
+            return { nodes: Array.from(nodeById.values()), edges }
+        }
 
-            this.track('World.Map.Fetched', {
-                nodeCount: nodes.length,
-                edgeCount: edges.length,
-                latencyMs: this.latencyMs
-            })
+        if (!this.gremlinClient) {
+            throw new Error('World graph requires GremlinClient in cosmos mode, but it was not registered')
+        }
+
+        const [rawNodes, rawEdges] = await Promise.all([
+            this.gremlinClient.submit<Record<string, unknown>>("g.V().hasLabel('location').valueMap(true)"),
+            this.gremlinClient.submit<Record<string, unknown>>(
+                "g.E().hasLabel('exit')" +
+                    ".project('fromId','toId','direction','travelDurationMs','lockState')" +
+                    '.by(outV().id())' +
+                    '.by(inV().id())' +
+                    ".by(values('direction'))" +
+                    `.by(coalesce(values('travelDurationMs'), constant(${TRAVEL_DURATION_ABSENT})))` +
+                    ".by(coalesce(values('lockState'), constant('')))"
+            )
+        ])
+
+        const locationPendingById = new Map<string, Record<string, string>>()
+        const locationForbiddenById = new Map<string, Record<string, ForbiddenExitEntry | string>>()
+
+        const nodesById = new Map<string, WorldGraphNode>()
+        for (const v of rawNodes || []) {
+            const id = String(v.id || v['id'])
+            const name = Array.isArray(v.name) ? String((v.name as unknown[])[0]) : String(v.name || 'Unknown')
+            const tags = Array.isArray(v.tags) ? (v.tags as string[]) : undefined
+
+            nodesById.set(id, { id, name, tags, structuralClass: deriveStructuralClassFromTags(tags) })
+
+            const pendingRaw = Array.isArray(v.exitAvailabilityPendingJson)
+                ? v.exitAvailabilityPendingJson[0]
+                : v.exitAvailabilityPendingJson
+
+            if (typeof pendingRaw === 'string' && pendingRaw.length > 0) {
+                try {
+                    const parsed = JSON.parse(pendingRaw) as Record<string, string>
+                    locationPendingById.set(id, parsed)
+                } catch {
+                    // ignore malformed JSON for map payload resilience; hydration path emits diagnostics
+                }
+            }
+
+            const forbiddenRaw = Array.isArray(v.exitAvailabilityForbiddenJson)
+                ? v.exitAvailabilityForbiddenJson[0]
+                : v.exitAvailabilityForbiddenJson
+
+            if (typeof forbiddenRaw === 'string' && forbiddenRaw.length > 0) {
+                try {
+                    const parsed = JSON.parse(forbiddenRaw) as Record<string, ForbiddenExitEntry | string>
+                    locationForbiddenById.set(id, parsed)
+                } catch {
+                    // ignore malformed JSON for map payload resilience; hydration path emits diagnostics
+                }
+            }
+        }
 
-            return okResponse({ nodes, edges } satisfies WorldGraphResponse, {
+        const edges: WorldGraphEdge[] = (rawEdges || []).map((e) => ({
+            fromId: String(e.fromId),
+            toId: String(e.toId),
+            direction: String(e.direction),
+            travelDurationMs: Number(e.travelDurationMs) > 0 ? Number(e.travelDurationMs) : undefined,
+            locked: e.lockState === 'locked' ? true : undefined
+        }))
+
+        const hardDirectionsBySource = new Map<string, Set<string>>()
+        for (const edge of edges) {
+            const set = hardDirectionsBySource.get(edge.fromId) ?? new Set<string>()
+            set.add(edge.direction)
+            hardDirectionsBySource.set(edge.fromId, set)
+        }
+
+        for (const [fromId, pending] of locationPendingById.entries()) {
+            const hardDirections = hardDirectionsBySource.get(fromId) ?? new Set<string>()
+
+            // Source node tags are available via nodesById; use them to derive
+            // structured frontier context on-demand.
+            const sourceTags = nodesById.get(fromId)?.tags
+
+            for (const [direction, reason] of Object.entries(pending)) {
+                if (!reason || hardDirections.has(direction)) continue
+
+                const macroCtx = resolveMacroGenerationContext(sourceTags, direction as Direction)
+                const frontierCtx = buildAtlasAwarePendingMetadata(macroCtx)
+
+                const syntheticId = pendingNodeId(fromId, direction)
+                if (!nodesById.has(syntheticId)) {
+                    nodesById.set(syntheticId, {
+                        id: syntheticId,
+                        name: pendingNodeName(direction, frontierCtx.structuralArchetype),
+                        tags: ['pending:synthetic'],
+                        structuralClass: frontierCtx.structuralArchetype
+                    })
+                }
+
+                edges.push({
+                    fromId,
+                    toId: syntheticId,
+                    direction,
+                    pending: true,
+                    frontierContext: frontierCtx
+                })
+            }
+        }
+
+        // Forbidden exits are permanent barriers — include them so consumers can distinguish
+        // which directions are pending (will be generated) vs permanently blocked.
+        for (const [fromId, forbidden] of locationForbiddenById.entries()) {
+            const hardDirections = hardDirectionsBySource.get(fromId) ?? new Set<string>()
+
+            for (const [direction, rawEntry] of Object.entries(forbidden)) {
+                if (!rawEntry || hardDirections.has(direction)) continue
+
+                const entry = normalizeForbiddenEntry(rawEntry)
+                const syntheticId = forbiddenNodeId(fromId, direction)
+                if (!nodesById.has(syntheticId)) {
+                    nodesById.set(syntheticId, {
+                        id: syntheticId,
+                        name: forbiddenNodeName(entry.motif),
+                        tags: ['forbidden:synthetic']
+                    })
+                }
+
+                edges.push({
+                    fromId,
+                    toId: syntheticId,
+                    direction,
+                    forbidden: true,
+                    forbiddenContext: { reason: entry.reason, motif: entry.motif, reveal: entry.reveal }
+                })
+            }
+        }
+
+        return { nodes: Array.from(nodesById.values()), edges }
+    }
+}
+
+/**
+ * The whole world (operators, function-level auth).
+ */
+@injectable()
+export class WorldGraphHandler extends BaseWorldGraphHandler {
+    constructor(
+        @inject('ITelemetryClient') telemetry: ITelemetryClient,
+        @inject('PersistenceConfig') persistence: IPersistenceConfig,
+        @inject('ILocationRepository') locationRepository: ILocationRepository,
+        @inject('GremlinClient') @optional() gremlinClient?: IGremlinClient
+    ) {
+        super(telemetry, persistence, locationRepository, gremlinClient)
+    }
+
+    protected async execute(): Promise<HttpResponseInit> {
+        try {
+            return this.respond(await this.buildFullGraph(), 'full')
+        } catch (error) {
+            return internalErrorResponse(error, { correlationId: this.correlationId })
+        }
+    }
+}
+
+/**
+ * The requesting player's fog-of-war view of the world.
+ */
+@injectable()
+export class PlayerWorldGraphHandler extends BaseWorldGraphHandler {
+    constructor(
+        @inject('ITelemetryClient') telemetry: ITelemetryClient,
+        @inject('PersistenceConfig') persistence: IPersistenceConfig,
+        @inject('ILocationRepository') locationRepository: ILocationRepository,
+        @inject('IPlayerRepository') private readonly playerRepository: IPlayerRepository,
+        @inject('IDiscoveryRepository') private readonly discoveryRepository: IDiscoveryRepository,
+        @inject('GremlinClient') @optional() gremlinClient?: IGremlinClient
+    ) {
+        super(telemetry, persistence, locationRepository, gremlinClient)
+    }
+
+    protected async execute(): Promise<HttpResponseInit> {
+        const playerId = this.playerGuid
+        if (!playerId || !isValidGuid(playerId)) {
+            return errorResponse(400, 'InvalidPlayerId', 'The world graph requires a valid x-player-guid header', {
                 correlationId: this.correlationId
             })
+        }
+        const player = await this.playerRepository.get(playerId)
+        if (!player) {
+            return errorResponse(404, 'PlayerNotFound', 'Player not found', { correlationId: this.correlationId })
+        }
+        // The current location counts as discovered even for players whose ledger predates it.
+        const discoveredIds = new Set([
+            ...(await this.discoveryRepository.listLocationIdsForPlayer(playerId)),
+            player.currentLocationId || STARTER_LOCATION_ID
+        ])
+
+        try {
+            return this.respond(applyFogOfWar(await this.buildFullGraph(), discoveredIds), 'player')
         } catch (error) {
             return internalErrorResponse(error, { correlationId: this.correlationId })
         }
@@ -412,3 +520,9 @@ export async function getWorldGraphHandler(req: HttpRequest, context: Invocation
     const handler = container.get(WorldGraphHandler)
     return handler.handle(req, context)
 }
+
+export async function getPlayerWorldGraphHandler(req: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    const container = context.extraInputs.get('container') as Container
+    const handler = container.get(PlayerWorldGraphHandler)
+    return handler.handle(req, context)
+}
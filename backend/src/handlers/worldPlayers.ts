@@ -0,0 +1,57 @@
+/**
+ * World Players Handler
+ *
+ * GET /api/world/players
+ *
+ * The `who` command: every player seen within the presence window (PresenceService), most recently
+ * seen first, with the location they are in. Entries carry display names only — never player ids.
+ *
+ * Response (200): { players: [{ name, locationId, locationName?, lastSeenUtc }], count }
+ */
+import type { HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions'
+import type { OnlinePlayersResponse } from '@piquet-h/shared'
+import type { Container } from 'inversify'
+import { inject, injectable } from 'inversify'
+import { checkRateLimit } from '../middleware/rateLimitMiddleware.js'
+import { rateLimiters } from '../middleware/rateLimiter.js'
+import { PresenceService } from '../services/PresenceService.js'
+import type { ITelemetryClient } from '../telemetry/ITelemetryClient.js'
+import { BaseHandler } from './base/BaseHandler.js'
+import { okResponse } from './utils/responseBuilder.js'
+
+@injectable()
+export class WorldPlayersHandler extends BaseHandler {
+    constructor(
+        @inject('ITelemetryClient') telemetry: ITelemetryClient,
+        @inject(PresenceService) private presence: PresenceService
+    ) {
+        super(telemetry)
+    }
+
+    protected async execute(req: HttpRequest): Promise<HttpResponseInit> {
+        const rateLimitResponse = checkRateLimit(req, rateLimiters.look, 'world/players')
+        if (rateLimitResponse) {
+            return rateLimitResponse
+        }
+
+        const online = await this.presence.listOnline()
+        this.track('Multiplayer.Presence.Listed', { count: online.length, status: 200 })
+
+        const response: OnlinePlayersResponse = {
+            players: online.map((p) => ({
+                name: p.name,
+                locationId: p.locationId,
+                ...(p.locationName ? { locationName: p.locationName } : {}),
+                lastSeenUtc: p.lastSeenUtc
+            })),
+            count: online.length
+        }
+        return okResponse(response, { correlationId: this.correlationId, playerGuid: this.playerGuid })
+    }
+}
+
+export async function handleWorldPlayers(req: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    const container = context.extraInputs.get('container') as Container
+    const handler = container.get(WorldPlayersHandler)
+    return handler.handle(req, context)
+}
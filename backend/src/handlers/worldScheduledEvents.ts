@@ -0,0 +1,202 @@
+/**
+ * World Scheduled Events Handlers (operator)
+ *
+ * GET    /api/world/events/scheduled
+ * POST   /api/world/events/scheduled
+ * PATCH  /api/world/events/scheduled/{eventId}
+ * DELETE /api/world/events/scheduled/{eventId}
+ *
+ * Future-dated world events through WorldEventSchedulerService: list them, schedule one, move one to a new time
+ * or cancel it. The scheduler job publishes each event to the world-events queue once it is due. Events can be
+ * moved or cancelled only while they are still waiting. The routes use function-level auth.
+ *
+ * Request body (POST): { eventType, payload, atUtc? | atTick?, actor?, idempotencyKey? } (exactly one of atUtc / atTick)
+ * Request body (PATCH): { atUtc? | atTick? }
+ * Query (GET): status? ('scheduled' | 'dispatched' | 'cancelled' | 'failed', default 'scheduled')
+ * Response (200, GET): { events: ScheduledWorldEvent[] } (oldest first)
+ * Response (200, POST / PATCH / DELETE): { event: ScheduledWorldEvent, created } (created: false when the idempotency key was used before)
+ *
+ * Errors: 400 InvalidJson / MissingField / InvalidSchedule / InvalidEvent / InvalidStatus, 404 EventNotFound,
+ *         409 EventNotScheduled
+ */
+import type { HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions'
+import type {
+    RescheduleWorldEventRequest,
+    ScheduledWorldEvent,
+    ScheduledWorldEventResponse,
+    ScheduledWorldEventsResponse,
+    ScheduleWorldEventRequest
+} from '@piquet-h/shared'
+import type { Container } from 'inversify'
+import { inject, injectable } from 'inversify'
+import { WorldEventSchedulerService, type ScheduleDenialReason, type ScheduleResult } from '../services/WorldEventSchedulerService.js'
+import type { ITelemetryClient } from '../telemetry/ITelemetryClient.js'
+import { BaseHandler } from './base/BaseHandler.js'
+import { errorResponse, okResponse } from './utils/responseBuilder.js'
+import { isValidGuid } from './utils/validation.js'
+
+const DENIAL_STATUS: Record<ScheduleDenialReason, { status: number; code: string }> = {
+    'invalid-schedule': { status: 400, code: 'InvalidSchedule' },
+    'invalid-event': { status: 400, code: 'InvalidEvent' },
+    'not-found': { status: 404, code: 'EventNotFound' },
+    'not-scheduled': { status: 409, code: 'EventNotScheduled' }
+}
+
+const LIST_STATUSES: readonly ScheduledWorldEvent['status'][] = ['scheduled', 'dispatched', 'cancelled', 'failed']
+
+function isListStatus(value: string): value is ScheduledWorldEvent['status'] {
+    return (LIST_STATUSES as readonly string[]).includes(value)
+}
+
+abstract class ScheduledEventHandler extends BaseHandler {
+    constructor(
+        telemetry: ITelemetryClient,
+        protected scheduler: WorldEventSchedulerService
+    ) {
+        super(telemetry)
+    }
+
+    protected async readBody<T>(req: HttpRequest): Promise<Partial<T> | null> {
+        try {
+            const text = await req.text()
+            return text ? (JSON.parse(text) as Partial<T>) : {}
+        } catch {
+            return null
+        }
+    }
+
+    protected respond(result: ScheduleResult): HttpResponseInit {
+        if (!result.success) {
+            const { status, code } = DENIAL_STATUS[result.reason]
+            return errorResponse(status, code, result.message, { correlationId: this.correlationId })
+        }
+        const response: ScheduledWorldEventResponse = { event: result.event, created: result.created }
+        return okResponse(response, { correlationId: this.correlationId })
+    }
+
+    protected invalidEventId(): HttpResponseInit {
+        return errorResponse(400, 'InvalidFormat', 'Event id must be a valid GUID format', { correlationId: this.correlationId })
+    }
+}
+
+@injectable()
+export class ListScheduledWorldEventsHandler extends ScheduledEventHandler {
+    constructor(
+        @inject('ITelemetryClient') telemetry: ITelemetryClient,
+        @inject(WorldEventSchedulerService) scheduler: WorldEventSchedulerService
+    ) {
+        super(telemetry, scheduler)
+    }
+
+    protected async execute(req: HttpRequest): Promise<HttpResponseInit> {
+        const status = req.query.get('status') ?? 'scheduled'
+        if (!isListStatus(status)) {
+            return errorResponse(400, 'InvalidStatus', `status must be one of ${LIST_STATUSES.join(', ')}`, {
+                correlationId: this.correlationId
+            })
+        }
+
+        const response: ScheduledWorldEventsResponse = { events: await this.scheduler.list(status) }
+        return okResponse(response, { correlationId: this.correlationId })
+    }
+}
+
+@injectable()
+export class ScheduleWorldEventHandler extends ScheduledEventHandler {
+    constructor(
+        @inject('ITelemetryClient') telemetry: ITelemetryClient,
+        @inject(WorldEventSchedulerService) scheduler: WorldEventSchedulerService
+    ) {
+        super(telemetry, scheduler)
+    }
+
+    protected async execute(req: HttpRequest): Promise<HttpResponseInit> {
+        const body = await this.readBody<ScheduleWorldEventRequest>(req)
+        if (!body) {
+            return errorResponse(400, 'InvalidJson', 'Request body must be valid JSON', { correlationId: this.correlationId })
+        }
+        if (typeof body.eventType !== 'string' || !body.eventType) {
+            return errorResponse(400, 'MissingField', 'eventType is required', { correlationId: this.correlationId })
+        }
+        if (!body.payload || typeof body.payload !== 'object' || Array.isArray(body.payload)) {
+            return errorResponse(400, 'MissingField', 'payload must be an object', { correlationId: this.correlationId })
+        }
+
+        const result = await this.scheduler.schedule({
+            eventType: body.eventType,
+            payload: body.payload,
+            actor: body.actor,
+            when: { atUtc: body.atUtc, atTick: body.atTick },
+            idempotencyKey: typeof body.idempotencyKey === 'string' ? body.idempotencyKey : undefined,
+            correlationId: this.correlationId
+        })
+        return this.respond(result)
+    }
+}
+
+@injectable()
+export class RescheduleWorldEventHandler extends ScheduledEventHandler {
+    constructor(
+        @inject('ITelemetryClient') telemetry: ITelemetryClient,
+        @inject(WorldEventSchedulerService) scheduler: WorldEventSchedulerService
+    ) {
+        super(telemetry, scheduler)
+    }
+
+    protected async execute(req: HttpRequest): Promise<HttpResponseInit> {
+        const eventId = req.params.eventId
+        if (!eventId || !isValidGuid(eventId)) {
+            return this.invalidEventId()
+        }
+        const body = await this.readBody<RescheduleWorldEventRequest>(req)
+        if (!body) {
+            return errorResponse(400, 'InvalidJson', 'Request body must be valid JSON', { correlationId: this.correlationId })
+        }
+
+        const result = await this.scheduler.reschedule(eventId, { atUtc: body.atUtc, atTick: body.atTick }, this.correlationId)
+        return this.respond(result)
+    }
+}
+
+@injectable()
+export class CancelScheduledWorldEventHandler extends ScheduledEventHandler {
+    constructor(
+        @inject('ITelemetryClient') telemetry: ITelemetryClient,
+        @inject(WorldEventSchedulerService) scheduler: WorldEventSchedulerService
+    ) {
+        super(telemetry, scheduler)
+    }
+
+    protected async execute(req: HttpRequest): Promise<HttpResponseInit> {
+        const eventId = req.params.eventId
+        if (!eventId || !isValidGuid(eventId)) {
+            return this.invalidEventId()
+        }
+
+        return this.respond(await this.scheduler.cancel(eventId, this.correlationId))
+    }
+}
+
+export async function handleListScheduledWorldEvents(req: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    const container = context.extraInputs.get('container') as Container
+    const handler = container.get(ListScheduledWorldEventsHandler)
+    return handler.handle(req, context)
+}
+
+export async function handleScheduleWorldEvent(req: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    const container = context.extraInputs.get('container') as Container
+    const handler = container.get(ScheduleWorldEventHandler)
+    return handler.handle(req, context)
+}
+
+export async function handleRescheduleWorldEvent(req: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    const container = context.extraInputs.get('container') as Container
+    const handler = container.get(RescheduleWorldEventHandler)
+    return handler.handle(req, context)
+}
+
+export async function handleCancelScheduledWorldEvent(req: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    const container = context.extraInputs.get('container') as Container
+    const handler = container.get(CancelScheduledWorldEventHandler)
+    return handler.handle(req, context)
+}
@@ -36,13 +36,26 @@ export type StandardErrorCode =
     | 'InvalidJson'
     | 'AmbiguousDirection'
     | 'NoExit'
+    | 'ExitLocked'
     // Not found errors (404)
     | 'NotFound'
     | 'PlayerNotFound'
     | 'LocationNotFound'
     | 'FromNotFound'
+    | 'ItemNotFound'
+    | 'NpcNotFound'
+    // Forbidden errors (403)
+    | 'KeyRequired'
     // Conflict errors (409)
     | 'ExternalIdConflict'
+    | 'ItemUnavailable'
+    | 'InventoryFull'
+    | 'InventoryVersionConflict'
+    | 'LockStateUnchanged'
+    | 'NotInCombat'
+    | 'PlayerDefeated'
+    | 'TargetDefeated'
+    | 'NoEscape'
     // Rate limiting (429)
     | 'RateLimitExceeded'
     // Internal errors (500)
@@ -3,6 +3,8 @@ import { TOKENS } from './di/tokens.js'
 import { GremlinClient, type GremlinClientConfig, type IGremlinClient } from './gremlin/index.js'
 import type { IPersistenceConfig } from './persistenceConfig.js'
 import { CosmosDbSqlClient, type CosmosDbSqlClientConfig, type ICosmosDbSqlClient } from './repos/base/cosmosDbSqlClient.js'
+import { CosmosDialogueSessionRepository } from './repos/dialogueSessionRepository.cosmos.js'
+import type { IDialogueSessionRepository } from './repos/dialogueSessionRepository.js'
 import { CosmosDeadLetterRepository } from './repos/deadLetterRepository.cosmos.js'
 import type { IDeadLetterRepository } from './repos/deadLetterRepository.js'
 import { CosmosDescriptionRepository } from './repos/descriptionRepository.cosmos.js'
@@ -24,6 +26,16 @@ import type { IPlayerDocRepository } from './repos/PlayerDocRepository.js'
 import { PlayerDocRepository } from './repos/PlayerDocRepository.js'
 import { CosmosPlayerRepositorySql } from './repos/playerRepository.cosmosSql.js'
 import type { IPlayerRepository } from './repos/playerRepository.js'
+import { CosmosChatMessageRepository } from './repos/chatMessageRepository.cosmos.js'
+import type { IChatMessageRepository } from './repos/chatMessageRepository.js'
+import { CosmosDiscoveryRepository } from './repos/discoveryRepository.cosmos.js'
+import type { IDiscoveryRepository } from './repos/discoveryRepository.js'
+import { CosmosPendingClarificationRepository } from './repos/pendingClarificationRepository.cosmos.js'
+import type { IPendingClarificationRepository } from './repos/pendingClarificationRepository.js'
+import { CosmosPlayerPresenceRepository } from './repos/playerPresenceRepository.cosmos.js'
+import type { IPlayerPresenceRepository } from './repos/playerPresenceRepository.js'
+import { CosmosQuestRepository } from './repos/questRepository.cosmos.js'
+import type { IQuestRepository } from './repos/questRepository.js'
 import { CosmosProcessedEventRepository } from './repos/processedEventRepository.cosmos.js'
 import type { IProcessedEventRepository } from './repos/processedEventRepository.js'
 import { CosmosRealmRepository } from './repos/realmRepository.cosmos.js'
@@ -34,6 +46,10 @@ import { WorldClockRepositoryCosmos } from './repos/worldClockRepository.cosmos.
 import type { IWorldClockRepository } from './repos/worldClockRepository.js'
 import { CosmosWorldEventRepository } from './repos/worldEventRepository.cosmos.js'
 import type { IWorldEventRepository } from './repos/worldEventRepository.js'
+import { CosmosNpcRepository } from './repos/npcRepository.cosmos.js'
+import type { INpcRepository } from './repos/npcRepository.js'
+import { CosmosWorldItemRepository } from './repos/worldItemRepository.cosmos.js'
+import type { IWorldItemRepository } from './repos/worldItemRepository.js'
 
 /**
  * Cosmos persistence bindings.
@@ -107,6 +123,7 @@ export function bindCosmosPersistence(container: Container, config: IPersistence
         throw new Error('Dead letter container configuration missing. Required: COSMOS_SQL_CONTAINER_DEADLETTERS')
     }
     container.bind<string>(TOKENS.CosmosContainerDeadLetters).toConstantValue(config.cosmosSql.containers.deadLetters)
+    container.bind<string>(TOKENS.CosmosContainerDeadLetterRedrive).toConstantValue(config.cosmosSql.containers.deadLetterRedrive)
     container.bind<IDeadLetterRepository>(TOKENS.DeadLetterRepository).to(CosmosDeadLetterRepository).inSingletonScope()
 
     if (!config.cosmosSql?.containers.processedEvents) {
@@ -142,4 +159,63 @@ export function bindCosmosPersistence(container: Container, config: IPersistence
     }
     container.bind<string>(TOKENS.CosmosContainerLoreFacts).toConstantValue(config.cosmosSql.containers.loreFacts)
     container.bind<ILoreRepository>(TOKENS.LoreRepository).to(CosmosLoreRepository).inSingletonScope()
+
+    // === World Items Container ===
+    if (!config.cosmosSql?.containers.worldItems) {
+        throw new Error('World items container configuration missing. Required: COSMOS_SQL_CONTAINER_WORLD_ITEMS')
+    }
+    container.bind<string>(TOKENS.CosmosContainerWorldItems).toConstantValue(config.cosmosSql.containers.worldItems)
+    container.bind<IWorldItemRepository>(TOKENS.WorldItemRepository).to(CosmosWorldItemRepository).inSingletonScope()
+
+    // === NPCs Container ===
+    if (!config.cosmosSql?.containers.npcs) {
+        throw new Error('NPCs container configuration missing. Required: COSMOS_SQL_CONTAINER_NPCS')
+    }
+    container.bind<string>(TOKENS.CosmosContainerNpcs).toConstantValue(config.cosmosSql.containers.npcs)
+    container.bind<INpcRepository>(TOKENS.NpcRepository).to(CosmosNpcRepository).inSingletonScope()
+
+    // === Dialogue Sessions Container ===
+    if (!config.cosmosSql?.containers.dialogueSessions) {
+        throw new Error('Dialogue sessions container configuration missing. Required: COSMOS_SQL_CONTAINER_DIALOGUE_SESSIONS')
+    }
+    container.bind<string>(TOKENS.CosmosContainerDialogueSessions).toConstantValue(config.cosmosSql.containers.dialogueSessions)
+    container.bind<IDialogueSessionRepository>(TOKENS.DialogueSessionRepository).to(CosmosDialogueSessionRepository).inSingletonScope()
+
+    // === Quests Container ===
+    if (!config.cosmosSql?.containers.quests) {
+        throw new Error('Quests container configuration missing. Required: COSMOS_SQL_CONTAINER_QUESTS')
+    }
+    container.bind<string>(TOKENS.CosmosContainerQuests).toConstantValue(config.cosmosSql.containers.quests)
+    container.bind<IQuestRepository>(TOKENS.QuestRepository).to(CosmosQuestRepository).inSingletonScope()
+
+    // === Pending Clarifications Container ===
+    if (!config.cosmosSql?.containers.pendingClarifications) {
+        throw new Error('Pending clarifications container configuration missing. Required: COSMOS_SQL_CONTAINER_PENDING_CLARIFICATIONS')
+    }
+    container.bind<string>(TOKENS.CosmosContainerPendingClarifications).toConstantValue(config.cosmosSql.containers.pendingClarifications)
+    container
+        .bind<IPendingClarificationRepository>(TOKENS.PendingClarificationRepository)
+        .to(CosmosPendingClarificationRepository)
+        .inSingletonScope()
+
+    // === Player Presence Container ===
+    if (!config.cosmosSql?.containers.playerPresence) {
+        throw new Error('Player presence container configuration missing. Required: COSMOS_SQL_CONTAINER_PLAYER_PRESENCE')
+    }
+    container.bind<string>(TOKENS.CosmosContainerPlayerPresence).toConstantValue(config.cosmosSql.containers.playerPresence)
+    container.bind<IPlayerPresenceRepository>(TOKENS.PlayerPresenceRepository).to(CosmosPlayerPresenceRepository).inSingletonScope()
+
+    // === Chat Messages Container ===
+    if (!config.cosmosSql?.containers.chatMessages) {
+        throw new Error('Chat messages container configuration missing. Required: COSMOS_SQL_CONTAINER_CHAT_MESSAGES')
+    }
+    container.bind<string>(TOKENS.CosmosContainerChatMessages).toConstantValue(config.cosmosSql.containers.chatMessages)
+    container.bind<IChatMessageRepository>(TOKENS.ChatMessageRepository).to(CosmosChatMessageRepository).inSingletonScope()
+
+    // === Discoveries Container ===
+    if (!config.cosmosSql?.containers.discoveries) {
+        throw new Error('Discoveries container configuration missing. Required: COSMOS_SQL_CONTAINER_DISCOVERIES')
+    }
+    container.bind<string>(TOKENS.CosmosContainerDiscoveries).toConstantValue(config.cosmosSql.containers.discoveries)
+    container.bind<IDiscoveryRepository>(TOKENS.DiscoveryRepository).to(CosmosDiscoveryRepository).inSingletonScope()
 }
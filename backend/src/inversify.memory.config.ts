@@ -3,6 +3,8 @@ import { WORLD_EVENT_PROCESSED_EVENTS_TTL_SECONDS } from './config/worldEventPro
 import { TOKENS } from './di/tokens.js'
 import type { IDeadLetterRepository } from './repos/deadLetterRepository.js'
 import { MemoryDeadLetterRepository } from './repos/deadLetterRepository.memory.js'
+import type { IDialogueSessionRepository } from './repos/dialogueSessionRepository.js'
+import { MemoryDialogueSessionRepository } from './repos/dialogueSessionRepository.memory.js'
 import type { IDescriptionRepository } from './repos/descriptionRepository.js'
 import { InMemoryDescriptionRepository } from './repos/descriptionRepository.memory.js'
 import type { IExitHintDebounceRepository } from './repos/exitHintDebounceRepository.js'
@@ -22,6 +24,16 @@ import type { IPlayerDocRepository } from './repos/PlayerDocRepository.js'
 import { MemoryPlayerDocRepository } from './repos/PlayerDocRepository.memory.js'
 import type { IPlayerRepository } from './repos/playerRepository.js'
 import { InMemoryPlayerRepository } from './repos/playerRepository.memory.js'
+import type { IChatMessageRepository } from './repos/chatMessageRepository.js'
+import { MemoryChatMessageRepository } from './repos/chatMessageRepository.memory.js'
+import type { IDiscoveryRepository } from './repos/discoveryRepository.js'
+import { MemoryDiscoveryRepository } from './repos/discoveryRepository.memory.js'
+import type { IPendingClarificationRepository } from './repos/pendingClarificationRepository.js'
+import { MemoryPendingClarificationRepository } from './repos/pendingClarificationRepository.memory.js'
+import type { IPlayerPresenceRepository } from './repos/playerPresenceRepository.js'
+import { MemoryPlayerPresenceRepository } from './repos/playerPresenceRepository.memory.js'
+import type { IQuestRepository } from './repos/questRepository.js'
+import { MemoryQuestRepository } from './repos/questRepository.memory.js'
 import type { IProcessedEventRepository } from './repos/processedEventRepository.js'
 import { MemoryProcessedEventRepository } from './repos/processedEventRepository.memory.js'
 import type { IRealmRepository } from './repos/realmRepository.js'
@@ -32,6 +44,10 @@ import type { IWorldClockRepository } from './repos/worldClockRepository.js'
 import { WorldClockRepositoryMemory } from './repos/worldClockRepository.memory.js'
 import type { IWorldEventRepository } from './repos/worldEventRepository.js'
 import { MemoryWorldEventRepository } from './repos/worldEventRepository.memory.js'
+import type { INpcRepository } from './repos/npcRepository.js'
+import { MemoryNpcRepository } from './repos/npcRepository.memory.js'
+import type { IWorldItemRepository } from './repos/worldItemRepository.js'
+import { MemoryWorldItemRepository } from './repos/worldItemRepository.memory.js'
 
 /**
  * In-memory persistence bindings for local dev.
@@ -49,6 +65,17 @@ export function bindMemoryPersistence(container: Container): void {
     container.bind<IInventoryRepository>(TOKENS.InventoryRepository).to(MemoryInventoryRepository).inSingletonScope()
     container.bind<ILayerRepository>(TOKENS.LayerRepository).to(MemoryLayerRepository).inSingletonScope()
     container.bind<IWorldEventRepository>(TOKENS.WorldEventRepository).to(MemoryWorldEventRepository).inSingletonScope()
+    container.bind<IWorldItemRepository>(TOKENS.WorldItemRepository).to(MemoryWorldItemRepository).inSingletonScope()
+    container.bind<INpcRepository>(TOKENS.NpcRepository).to(MemoryNpcRepository).inSingletonScope()
+    container.bind<IDialogueSessionRepository>(TOKENS.DialogueSessionRepository).to(MemoryDialogueSessionRepository).inSingletonScope()
+    container.bind<IQuestRepository>(TOKENS.QuestRepository).to(MemoryQuestRepository).inSingletonScope()
+    container
+        .bind<IPendingClarificationRepository>(TOKENS.PendingClarificationRepository)
+        .to(MemoryPendingClarificationRepository)
+        .inSingletonScope()
+    container.bind<IPlayerPresenceRepository>(TOKENS.PlayerPresenceRepository).to(MemoryPlayerPresenceRepository).inSingletonScope()
+    container.bind<IChatMessageRepository>(TOKENS.ChatMessageRepository).to(MemoryChatMessageRepository).inSingletonScope()
+    container.bind<IDiscoveryRepository>(TOKENS.DiscoveryRepository).to(MemoryDiscoveryRepository).inSingletonScope()
 
     container.bind<IPlayerRepository>(TOKENS.PlayerRepository).to(InMemoryPlayerRepository).inSingletonScope()
     container.bind<IPlayerDocRepository>(TOKENS.PlayerDocRepository).to(MemoryPlayerDocRepository).inSingletonScope()
@@ -20,6 +20,12 @@ app.mcpTool('NarrativeGenerator-generateAmbience', {
     description:
         'Generate short ambient narrative text from lightweight context inputs (location, time of day, weather, mood). Foundation mode uses deterministic templates.',
     toolProperties: [
+        {
+            propertyName: 'locationId',
+            propertyType: 'string',
+            description: "Optional. Location GUID; when weather is omitted, the current weather of the location's weather zone is used.",
+            isRequired: false
+        },
         {
             propertyName: 'locationName',
             propertyType: 'string',
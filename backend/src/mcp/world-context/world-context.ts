@@ -18,7 +18,7 @@ app.mcpTool('WorldContext-health', {
 app.mcpTool('WorldContext-getLocationContext', {
     toolName: 'get-location-context',
     description:
-        "Assemble lightweight location context for agent prompts: location + exits + realms + ambient summary. If locationId is omitted the handler returns the server's public starter location.",
+        "Assemble lightweight location context for agent prompts: location + exits + realms + ambient summary + NPCs present. If locationId is omitted the handler returns the server's public starter location.",
     toolProperties: [
         {
             propertyName: 'locationId',
@@ -39,7 +39,7 @@ app.mcpTool('WorldContext-getLocationContext', {
 app.mcpTool('WorldContext-getPlayerContext', {
     toolName: 'get-player-context',
     description:
-        'Assemble player context for agent prompts: player document + current location (best-effort) + inventory + recent actions (player-scoped events).',
+        'Assemble player context for agent prompts: player document + current location (best-effort) + inventory + recent actions (player-scoped events) + discovered locations (newest first, with visit counts).',
     toolProperties: [
         {
             propertyName: 'playerId',
@@ -59,7 +59,8 @@ app.mcpTool('WorldContext-getPlayerContext', {
 
 app.mcpTool('WorldContext-getAtmosphere', {
     toolName: 'get-atmosphere',
-    description: 'Get atmosphere context at a location: time-of-day label + weather/lighting/ambient layers (with defaults if missing).',
+    description:
+        'Get atmosphere context at a location: time-of-day label and timeBucket from the world calendar + weather/lighting/ambient layers (lighting defaults to the time of day, indoors or out).',
     toolProperties: [
         {
             propertyName: 'locationId',
@@ -1,6 +1,7 @@
 import { app } from '@azure/functions'
 import { MAX_BUDGET_LOCATIONS } from '../../services/AreaGenerationOrchestrator.js'
-import { triggerAreaGeneration } from '../../handlers/mcp/world-operations/world-operations.js'
+import { listDeadLetters, redriveDeadLetters, triggerAreaGeneration } from '../../handlers/mcp/world-operations/world-operations.js'
+import { DEAD_LETTER_REDRIVE_LIMIT } from '../../services/DeadLetterRedriveService.js'
 
 app.mcpTool('WorldOperations-triggerAreaGeneration', {
     toolName: 'trigger-area-generation',
@@ -46,3 +47,61 @@ app.mcpTool('WorldOperations-triggerAreaGeneration', {
     ],
     handler: triggerAreaGeneration
 })
+
+app.mcpTool('WorldOperations-listDeadLetters', {
+    toolName: 'list-dead-letters',
+    description:
+        'Operator tool: list world events that failed processing (dead letters), newest first. ' +
+        'Filters by time window, event type and error code. Records are redacted; each reports whether its ' +
+        'envelope passes the current world event schema and whether it has been redriven.',
+    toolProperties: [
+        {
+            propertyName: 'startUtc',
+            propertyType: 'string',
+            description: 'Optional. Start of the window (ISO-8601). Defaults to 24 hours before endUtc.',
+            isRequired: false
+        },
+        {
+            propertyName: 'endUtc',
+            propertyType: 'string',
+            description: 'Optional. End of the window (ISO-8601). Defaults to now.',
+            isRequired: false
+        },
+        {
+            propertyName: 'eventType',
+            propertyType: 'string',
+            description: 'Optional. Exact event type (e.g., "Player.Move").',
+            isRequired: false
+        },
+        {
+            propertyName: 'errorCode',
+            propertyType: 'string',
+            description: 'Optional. One of "json-parse", "schema-validation", "handler-error", "unknown".',
+            isRequired: false
+        },
+        {
+            propertyName: 'limit',
+            propertyType: 'number',
+            description: 'Optional. Maximum records to return (default and maximum 100).',
+            isRequired: false
+        }
+    ],
+    handler: listDeadLetters
+})
+
+app.mcpTool('WorldOperations-redriveDeadLetters', {
+    toolName: 'redrive-dead-letters',
+    description:
+        'Operator tool: re-validate dead-lettered world events against the current schema and publish the valid ones ' +
+        'to the world-events queue again, with a new eventId and the record id as causationId. The outcome of every attempt is ' +
+        'recorded on the dead-letter record; records already redriven are skipped.',
+    toolProperties: [
+        {
+            propertyName: 'ids',
+            propertyType: 'string',
+            description: `Required. Comma-separated dead-letter record IDs (GUIDs), at most ${DEAD_LETTER_REDRIVE_LIMIT}.`,
+            isRequired: true
+        }
+    ],
+    handler: redriveDeadLetters
+})
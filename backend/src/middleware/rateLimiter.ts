@@ -170,5 +170,15 @@ export const rateLimiters = {
         maxRequests: parseInt(process.env.RATE_LIMIT_LOOK_MAX || '60', 10),
         windowMs: parseInt(process.env.RATE_LIMIT_LOOK_WINDOW_MS || '60000', 10),
         identifier: 'look'
+    }),
+
+    /**
+     * Rate limiter for player chat (say / shout / whisper)
+     * Default: 10 messages per minute per player
+     */
+    chat: new RateLimiter({
+        maxRequests: parseInt(process.env.RATE_LIMIT_CHAT_MAX || '10', 10),
+        windowMs: parseInt(process.env.RATE_LIMIT_CHAT_WINDOW_MS || '60000', 10),
+        identifier: 'chat'
     })
 }
@@ -19,12 +19,21 @@ export interface IPersistenceConfig {
             layers: string
             events: string
             deadLetters: string
+            deadLetterRedrive: string
             processedEvents: string
             exitHintDebounce: string
             temporalLedger: string
             worldClock: string
             locationClocks: string
             loreFacts: string
+            worldItems: string
+            npcs: string
+            dialogueSessions: string
+            quests: string
+            pendingClarifications: string
+            playerPresence: string
+            chatMessages: string
+            discoveries: string
         }
     }
 }
@@ -55,12 +64,21 @@ export async function loadPersistenceConfigAsync(): Promise<IPersistenceConfig>
         const sqlContainerLayers = process.env.COSMOS_SQL_CONTAINER_LAYERS
         const sqlContainerEvents = process.env.COSMOS_SQL_CONTAINER_EVENTS
         const sqlContainerDeadLetters = process.env.COSMOS_SQL_CONTAINER_DEADLETTERS || 'deadLetters'
+        const sqlContainerDeadLetterRedrive = process.env.COSMOS_SQL_CONTAINER_DEADLETTER_REDRIVE || 'deadLetterRedrive'
         const sqlContainerProcessedEvents = process.env.COSMOS_SQL_CONTAINER_PROCESSED_EVENTS || 'processedEvents'
         const sqlContainerExitHintDebounce = process.env.COSMOS_SQL_CONTAINER_EXIT_HINT_DEBOUNCE || 'exitHintDebounce'
         const sqlContainerTemporalLedger = process.env.COSMOS_SQL_CONTAINER_TEMPORAL_LEDGER || 'temporalLedger'
         const sqlContainerWorldClock = process.env.COSMOS_SQL_CONTAINER_WORLD_CLOCK || 'worldClock'
         const sqlContainerLocationClocks = process.env.COSMOS_SQL_CONTAINER_LOCATION_CLOCKS || 'locationClocks'
         const sqlContainerLoreFacts = process.env.COSMOS_SQL_CONTAINER_LORE_FACTS || 'loreFacts'
+        const sqlContainerWorldItems = process.env.COSMOS_SQL_CONTAINER_WORLD_ITEMS || 'worldItems'
+        const sqlContainerNpcs = process.env.COSMOS_SQL_CONTAINER_NPCS || 'npcs'
+        const sqlContainerDialogueSessions = process.env.COSMOS_SQL_CONTAINER_DIALOGUE_SESSIONS || 'dialogueSessions'
+        const sqlContainerQuests = process.env.COSMOS_SQL_CONTAINER_QUESTS || 'quests'
+        const sqlContainerPendingClarifications = process.env.COSMOS_SQL_CONTAINER_PENDING_CLARIFICATIONS || 'pendingClarifications'
+        const sqlContainerPlayerPresence = process.env.COSMOS_SQL_CONTAINER_PLAYER_PRESENCE || 'playerPresence'
+        const sqlContainerChatMessages = process.env.COSMOS_SQL_CONTAINER_CHAT_MESSAGES || 'chatMessages'
+        const sqlContainerDiscoveries = process.env.COSMOS_SQL_CONTAINER_DISCOVERIES || 'discoveries'
 
         // Validate required Gremlin config
         if (!endpoint || !database || !graph) {
@@ -125,12 +143,21 @@ export async function loadPersistenceConfigAsync(): Promise<IPersistenceConfig>
                     layers: sqlContainerLayers,
                     events: sqlContainerEvents,
                     deadLetters: sqlContainerDeadLetters,
+                    deadLetterRedrive: sqlContainerDeadLetterRedrive,
                     processedEvents: sqlContainerProcessedEvents,
                     exitHintDebounce: sqlContainerExitHintDebounce,
                     temporalLedger: sqlContainerTemporalLedger,
                     worldClock: sqlContainerWorldClock,
                     locationClocks: sqlContainerLocationClocks,
-                    loreFacts: sqlContainerLoreFacts
+                    loreFacts: sqlContainerLoreFacts,
+                    worldItems: sqlContainerWorldItems,
+                    npcs: sqlContainerNpcs,
+                    dialogueSessions: sqlContainerDialogueSessions,
+                    quests: sqlContainerQuests,
+                    pendingClarifications: sqlContainerPendingClarifications,
+                    playerPresence: sqlContainerPlayerPresence,
+                    chatMessages: sqlContainerChatMessages,
+                    discoveries: sqlContainerDiscoveries
                 }
             }
         }
@@ -3,7 +3,7 @@
  * No Azure dependencies required.
  */
 
-import type { PlayerDoc } from '@piquet-h/shared'
+import { ConcurrencyException, NotFoundException, type PlayerDoc } from '@piquet-h/shared'
 import { injectable } from 'inversify'
 import type { IPlayerDocRepository } from './PlayerDocRepository.js'
 
@@ -55,6 +55,30 @@ export class MemoryPlayerDocRepository implements IPlayerDocRepository {
         return results
     }
 
+    async incrementInventoryVersion(playerId: string, expectedVersion: number): Promise<number> {
+        const existing = this.players.get(playerId)
+        if (!existing) {
+            throw new NotFoundException(`Player ${playerId} not found`, playerId, 'players')
+        }
+
+        const current = existing.inventoryVersion ?? 0
+        if (current !== expectedVersion) {
+            throw new ConcurrencyException(`Inventory version mismatch: expected ${expectedVersion}, found ${current}`, playerId)
+        }
+
+        const next = current + 1
+        this.players.set(playerId, { ...existing, inventoryVersion: next, updatedUtc: new Date().toISOString() })
+        return next
+    }
+
+    async patchPlayer(playerId: string, update: (current: PlayerDoc) => Partial<PlayerDoc>): Promise<PlayerDoc | null> {
+        const existing = this.players.get(playerId)
+        if (!existing) return null
+        const updated: PlayerDoc = { ...existing, ...update({ ...existing }), id: playerId, updatedUtc: new Date().toISOString() }
+        this.players.set(playerId, updated)
+        return { ...updated }
+    }
+
     /**
      * Clear all players (for test cleanup)
      */
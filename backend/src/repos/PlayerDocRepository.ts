@@ -8,7 +8,7 @@
  * Container: `players` (PK: `/id`)
  */
 
-import type { PlayerDoc } from '@piquet-h/shared'
+import { ConcurrencyException, NotFoundException, PreconditionFailedException, type PlayerDoc } from '@piquet-h/shared'
 import { inject, injectable } from 'inversify'
 import { TelemetryService } from '../telemetry/TelemetryService.js'
 import { CosmosDbSqlRepository } from './base/CosmosDbSqlRepository.js'
@@ -53,8 +53,33 @@ export interface IPlayerDocRepository {
      * Keep maxResults small.
      */
     listPlayersAtLocation(locationId: string, maxResults?: number): Promise<PlayerDoc[]>
+
+    /**
+     * Advance inventoryVersion by one if it still equals the expected value (optimistic concurrency).
+     * Callers bump the version before mutating inventory so concurrent writers serialize on the player document.
+     * @param playerId - Player unique identifier
+     * @param expectedVersion - Version the caller last observed (missing inventoryVersion is treated as 0)
+     * @returns The new inventory version
+     * @throws ConcurrencyException if the stored version differs from expectedVersion
+     * @throws NotFoundException if the player document does not exist
+     */
+    incrementInventoryVersion(playerId: string, expectedVersion: number): Promise<number>
+
+    /**
+     * Write only the fields a caller owns, computed from the latest stored document.
+     * The update runs against a fresh read and is retried when another writer lands first,
+     * so fields it does not return (inventoryVersion, clockTick, ...) are never rolled back.
+     * @param playerId - Player unique identifier
+     * @param update - Returns the fields to change given the current document
+     * @returns The stored document after the change, or null when the player does not exist
+     * @throws ConcurrencyException if every attempt lost to a concurrent writer
+     */
+    patchPlayer(playerId: string, update: (current: PlayerDoc) => Partial<PlayerDoc>): Promise<PlayerDoc | null>
 }
 
+/** Attempts patchPlayer makes before giving up on a contended document. */
+export const PLAYER_PATCH_ATTEMPTS = 5
+
 /**
  * Cosmos SQL API implementation of PlayerDoc repository
  */
@@ -156,4 +181,50 @@ export class PlayerDocRepository extends CosmosDbSqlRepository<PlayerDoc> implem
         const { items } = await this.query(queryText, parameters, maxResults)
         return items
     }
+
+    /**
+     * Conditional replace guarded by the document etag; a 412 means another writer won.
+     */
+    async incrementInventoryVersion(playerId: string, expectedVersion: number): Promise<number> {
+        const existing = (await this.getById(playerId, playerId)) as (PlayerDoc & { _etag?: string }) | null
+        if (!existing) {
+            throw new NotFoundException(`Player ${playerId} not found`, playerId, 'players')
+        }
+
+        const current = existing.inventoryVersion ?? 0
+        if (current !== expectedVersion) {
+            throw new ConcurrencyException(`Inventory version mismatch: expected ${expectedVersion}, found ${current}`, playerId)
+        }
+
+        const next = current + 1
+        const updated: PlayerDoc = { ...existing, inventoryVersion: next, updatedUtc: new Date().toISOString() }
+        try {
+            await this.replace(playerId, updated, playerId, existing._etag)
+        } catch (error) {
+            if (error instanceof PreconditionFailedException) {
+                throw new ConcurrencyException(`Inventory version changed concurrently (expected ${expectedVersion})`, playerId)
+            }
+            throw error
+        }
+        return next
+    }
+
+    /**
+     * Etag-guarded read-modify-write; a 412 re-reads and re-applies the update.
+     */
+    async patchPlayer(playerId: string, update: (current: PlayerDoc) => Partial<PlayerDoc>): Promise<PlayerDoc | null> {
+        for (let attempt = 1; attempt <= PLAYER_PATCH_ATTEMPTS; attempt++) {
+            const existing = (await this.getById(playerId, playerId)) as (PlayerDoc & { _etag?: string }) | null
+            if (!existing) return null
+
+            const updated: PlayerDoc = { ...existing, ...update(existing), id: playerId, updatedUtc: new Date().toISOString() }
+            try {
+                await this.replace(playerId, updated, playerId, existing._etag)
+                return updated
+            } catch (error) {
+                if (!(error instanceof PreconditionFailedException)) throw error
+            }
+        }
+        throw new ConcurrencyException(`Player ${playerId} changed concurrently on every patch attempt`, playerId)
+    }
 }
@@ -284,9 +284,13 @@ export abstract class CosmosDbSqlRepository<T extends { id: string }> {
      * @param query - SQL query string
      * @param parameters - Query parameters
      * @param maxResults - Maximum number of results
-     * @returns Array of matching entities with total RU charge
+     * @returns Array of matching entities (or projected values, e.g. `query<string>` for `SELECT VALUE`) with total RU charge
      */
-    protected async query(query: string, parameters?: Array<SqlParameter>, maxResults?: number): Promise<{ items: T[]; ruCharge: number }> {
+    protected async query<R = T>(
+        query: string,
+        parameters?: Array<SqlParameter>,
+        maxResults?: number
+    ): Promise<{ items: R[]; ruCharge: number }> {
         const operationName = `${this.containerName}.Query`
         const startTime = Date.now()
         let totalRU = 0
@@ -294,13 +298,13 @@ export abstract class CosmosDbSqlRepository<T extends { id: string }> {
         try {
             const querySpec = { query, parameters: parameters || [] }
             const options = maxResults ? { maxItemCount: maxResults } : undefined
-            const iterator = this.container.items.query<T>(querySpec, options)
+            const iterator = this.container.items.query<R>(querySpec, options)
 
-            const results: T[] = []
+            const results: R[] = []
             let hasMoreResults = iterator.hasMoreResults()
 
             while (hasMoreResults) {
-                const response: FeedResponse<T> = await iterator.fetchNext()
+                const response: FeedResponse<R> = await iterator.fetchNext()
                 totalRU += response.requestCharge
                 if (response.resources) {
                     results.push(...response.resources)
@@ -0,0 +1,43 @@
+/**
+ * Cosmos SQL API implementation of IChatMessageRepository.
+ *
+ * Container: chatMessages
+ * Partition Key: /locationId
+ * TTL: per-item (`ttl` property); the container must enable TTL with defaultTtl -1
+ */
+
+import type { ChatMessage } from '@piquet-h/shared'
+import { inject, injectable } from 'inversify'
+import { TelemetryService } from '../telemetry/TelemetryService.js'
+import { CosmosDbSqlRepository } from './base/CosmosDbSqlRepository.js'
+import type { ICosmosDbSqlClient } from './base/cosmosDbSqlClient.js'
+import type { IChatMessageRepository } from './chatMessageRepository.js'
+
+@injectable()
+export class CosmosChatMessageRepository extends CosmosDbSqlRepository<ChatMessage> implements IChatMessageRepository {
+    constructor(
+        @inject('CosmosDbSqlClient') sqlClient: ICosmosDbSqlClient,
+        @inject('CosmosContainer:ChatMessages') containerName: string,
+        @inject(TelemetryService) telemetryService: TelemetryService
+    ) {
+        super(sqlClient, containerName, telemetryService)
+    }
+
+    async append(message: ChatMessage): Promise<ChatMessage> {
+        const { resource } = await this.upsert(message)
+        return resource
+    }
+
+    async listRecent(locationId: string, sentSinceUtc: string, maxResults: number = 20): Promise<ChatMessage[]> {
+        // Single-partition query (partition key is /locationId)
+        const { items } = await this.query(
+            'SELECT * FROM c WHERE c.locationId = @locationId AND c.sentUtc >= @since ORDER BY c.sentUtc DESC',
+            [
+                { name: '@locationId', value: locationId },
+                { name: '@since', value: sentSinceUtc }
+            ],
+            maxResults
+        )
+        return items
+    }
+}
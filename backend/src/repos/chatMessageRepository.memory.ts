@@ -0,0 +1,27 @@
+/**
+ * In-memory implementation of IChatMessageRepository for testing and local development.
+ */
+
+import type { ChatMessage } from '@piquet-h/shared'
+import { injectable } from 'inversify'
+import { BaseMemoryRepository } from './base/BaseMemoryRepository.js'
+import type { IChatMessageRepository } from './chatMessageRepository.js'
+
+@injectable()
+export class MemoryChatMessageRepository extends BaseMemoryRepository<string, ChatMessage> implements IChatMessageRepository {
+    async append(message: ChatMessage): Promise<ChatMessage> {
+        this.records.set(message.id, { ...message })
+        if (message.ttl) {
+            this.scheduleCleanup(message.id, message.ttl * 1000)
+        }
+        return { ...message }
+    }
+
+    async listRecent(locationId: string, sentSinceUtc: string, maxResults: number = 20): Promise<ChatMessage[]> {
+        return [...this.records.values()]
+            .filter((m) => m.locationId === locationId && m.sentUtc >= sentSinceUtc)
+            .sort((a, b) => b.sentUtc.localeCompare(a.sentUtc))
+            .slice(0, maxResults)
+            .map((m) => ({ ...m }))
+    }
+}
@@ -0,0 +1,24 @@
+import type { ChatMessage } from '@piquet-h/shared'
+
+/**
+ * Repository contract for recent chat at each location (say / shout history).
+ *
+ * Documents are partitioned by location and carry a per-item TTL, so history is short-lived by design;
+ * listings also filter on sentUtc because expiry is not immediate.
+ */
+export interface IChatMessageRepository {
+    /**
+     * Store a message
+     * @param message - Message to store (id is a fresh GUID)
+     * @returns The stored message
+     */
+    append(message: ChatMessage): Promise<ChatMessage>
+
+    /**
+     * Messages said at a location since a cutoff, most recent first
+     * @param locationId - Location unique identifier
+     * @param sentSinceUtc - ISO 8601 cutoff; older messages have aged out
+     * @param maxResults - Maximum messages to return
+     */
+    listRecent(locationId: string, sentSinceUtc: string, maxResults?: number): Promise<ChatMessage[]>
+}
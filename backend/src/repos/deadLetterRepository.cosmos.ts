@@ -2,33 +2,53 @@
  * Cosmos SQL Dead-Letter Repository Implementation
  *
  * Stores failed world events in Cosmos SQL API with redacted payloads.
+ * Envelopes kept for redrive are unredacted, so they live in their own container (deadLetterRedrive, PK /id)
+ * and are read back only by getRedriveEnvelope.
  * Handles storage failures gracefully (logs but does not throw).
  */
 
+import type { Container } from '@azure/cosmos'
 import type { DeadLetterRecord } from '@piquet-h/shared/deadLetter'
 import { inject, injectable } from 'inversify'
 import { CosmosDbSqlRepository } from './base/CosmosDbSqlRepository.js'
 import type { ICosmosDbSqlClient } from './base/cosmosDbSqlClient.js'
-import type { IDeadLetterRepository } from './deadLetterRepository.js'
+import type { DeadLetterQuery, IDeadLetterRepository } from './deadLetterRepository.js'
 
 /**
  * Cosmos SQL implementation of dead-letter repository
  */
 const DEADLETTER_PARTITION_KEY = 'deadletter'
 
+interface RedriveEnvelopeDocument {
+    /** Dead-letter record ID */
+    id: string
+    envelope: Record<string, unknown>
+}
+
 @injectable()
 export class CosmosDeadLetterRepository extends CosmosDbSqlRepository<DeadLetterRecord> implements IDeadLetterRepository {
-    constructor(@inject('CosmosDbSqlClient') client: ICosmosDbSqlClient, @inject('CosmosContainer:DeadLetters') containerName: string) {
+    private redriveContainer: Container
+
+    constructor(
+        @inject('CosmosDbSqlClient') client: ICosmosDbSqlClient,
+        @inject('CosmosContainer:DeadLetters') containerName: string,
+        @inject('CosmosContainer:DeadLetterRedrive') redriveContainerName: string
+    ) {
         super(client, containerName) // No telemetry for dead-letter storage
+        this.redriveContainer = client.getContainer(redriveContainerName)
     }
 
     /**
      * Store a dead-letter record with idempotent insert (upsert)
      */
-    async store(record: DeadLetterRecord): Promise<void> {
+    async store(record: DeadLetterRecord, redriveEnvelope?: Record<string, unknown>): Promise<void> {
         try {
             // Use upsert for idempotency (if same ID is written multiple times, last write wins)
             await this.container.items.upsert(record)
+            if (redriveEnvelope) {
+                const document: RedriveEnvelopeDocument = { id: record.id, envelope: redriveEnvelope }
+                await this.redriveContainer.items.upsert(document)
+            }
         } catch (error) {
             // Log error but don't throw - dead-letter storage failure should not block processing
             console.error('Failed to store dead-letter record', {
@@ -66,6 +86,42 @@ export class CosmosDeadLetterRepository extends CosmosDbSqlRepository<DeadLetter
         }
     }
 
+    /**
+     * Query dead-letter records by time range, event type and error code
+     */
+    async queryByFilter(filter: DeadLetterQuery): Promise<DeadLetterRecord[]> {
+        const conditions = ['c.deadLetteredUtc >= @startUtc', 'c.deadLetteredUtc <= @endUtc']
+        const parameters: Array<{ name: string; value: string | number }> = [
+            { name: '@startUtc', value: filter.startUtc },
+            { name: '@endUtc', value: filter.endUtc },
+            { name: '@maxResults', value: filter.maxResults ?? 100 }
+        ]
+        if (filter.eventType !== undefined) {
+            conditions.push('c.eventType = @eventType')
+            parameters.push({ name: '@eventType', value: filter.eventType })
+        }
+        if (filter.errorCode !== undefined) {
+            conditions.push('c.errorCode = @errorCode')
+            parameters.push({ name: '@errorCode', value: filter.errorCode })
+        }
+
+        try {
+            const querySpec = {
+                query: `SELECT * FROM c WHERE ${conditions.join(' AND ')} ORDER BY c.deadLetteredUtc DESC OFFSET 0 LIMIT @maxResults`,
+                parameters
+            }
+
+            const { resources } = await this.container.items.query<DeadLetterRecord>(querySpec).fetchAll()
+            return resources
+        } catch (error) {
+            console.error('Failed to query dead-letter records', {
+                ...filter,
+                error: String(error)
+            })
+            return [] // Return empty array on error
+        }
+    }
+
     /**
      * Get a single dead-letter record by ID
      */
@@ -86,4 +142,24 @@ export class CosmosDeadLetterRepository extends CosmosDbSqlRepository<DeadLetter
             return null
         }
     }
+
+    /**
+     * Get the envelope kept for redrive
+     */
+    async getRedriveEnvelope(id: string): Promise<Record<string, unknown> | null> {
+        try {
+            const { resource } = await this.redriveContainer.item(id, id).read<RedriveEnvelopeDocument>()
+            return resource?.envelope ?? null
+        } catch (error) {
+            const cosmosError = error as { code?: number }
+            if (cosmosError.code === 404) {
+                return null
+            }
+            console.error('Failed to get dead-letter redrive envelope', {
+                id,
+                error: String(error)
+            })
+            return null
+        }
+    }
 }
@@ -7,18 +7,23 @@
 import type { DeadLetterRecord } from '@piquet-h/shared/deadLetter'
 import { injectable } from 'inversify'
 import { BaseMemoryRepository } from './base/BaseMemoryRepository.js'
-import type { IDeadLetterRepository } from './deadLetterRepository.js'
+import type { DeadLetterQuery, IDeadLetterRepository } from './deadLetterRepository.js'
 
 /**
  * In-memory implementation of dead-letter repository
  */
 @injectable()
 export class MemoryDeadLetterRepository extends BaseMemoryRepository<string, DeadLetterRecord> implements IDeadLetterRepository {
+    private redriveEnvelopes = new Map<string, Record<string, unknown>>()
+
     /**
      * Store a dead-letter record in memory
      */
-    async store(record: DeadLetterRecord): Promise<void> {
+    async store(record: DeadLetterRecord, redriveEnvelope?: Record<string, unknown>): Promise<void> {
         this.records.set(record.id, record)
+        if (redriveEnvelope) {
+            this.redriveEnvelopes.set(record.id, { ...redriveEnvelope })
+        }
     }
 
     /**
@@ -39,6 +44,20 @@ export class MemoryDeadLetterRepository extends BaseMemoryRepository<string, Dea
         return filtered
     }
 
+    /**
+     * Query dead-letter records by time range, event type and error code
+     */
+    async queryByFilter(filter: DeadLetterQuery): Promise<DeadLetterRecord[]> {
+        const matches = await this.queryByTimeRange(filter.startUtc, filter.endUtc, Number.MAX_SAFE_INTEGER)
+        return matches
+            .filter(
+                (r) =>
+                    (filter.eventType === undefined || r.eventType === filter.eventType) &&
+                    (filter.errorCode === undefined || r.errorCode === filter.errorCode)
+            )
+            .slice(0, filter.maxResults ?? 100)
+    }
+
     /**
      * Get a single dead-letter record by ID
      */
@@ -46,6 +65,18 @@ export class MemoryDeadLetterRepository extends BaseMemoryRepository<string, Dea
         return this.records.get(id) || null
     }
 
+    /**
+     * Get the envelope kept for redrive
+     */
+    async getRedriveEnvelope(id: string): Promise<Record<string, unknown> | null> {
+        return this.redriveEnvelopes.get(id) || null
+    }
+
+    clear(): void {
+        super.clear()
+        this.redriveEnvelopes.clear()
+    }
+
     /**
      * Get all records (for testing)
      */
@@ -5,7 +5,23 @@
  * Used by queue processors to store validation failures for debugging.
  */
 
-import type { DeadLetterRecord } from '@piquet-h/shared/deadLetter'
+import type { DeadLetterErrorCode, DeadLetterRecord } from '@piquet-h/shared/deadLetter'
+
+/**
+ * Filter for dead-letter queries (all conditions must match)
+ */
+export interface DeadLetterQuery {
+    /** Start of time range, by deadLetteredUtc (ISO 8601) */
+    startUtc: string
+    /** End of time range, by deadLetteredUtc (ISO 8601) */
+    endUtc: string
+    /** Exact event type (e.g. 'Player.Move') */
+    eventType?: string
+    /** Error code classification */
+    errorCode?: DeadLetterErrorCode
+    /** Maximum number of results to return (default: 100) */
+    maxResults?: number
+}
 
 /**
  * Repository interface for dead-letter storage
@@ -15,9 +31,10 @@ export interface IDeadLetterRepository {
      * Store a dead-letter record
      *
      * @param record - Dead-letter record to store
+     * @param redriveEnvelope - Unredacted envelope to keep for redrive; stored apart from the (redacted) record
      * @returns Promise that resolves when storage completes, or rejects on error
      */
-    store(record: DeadLetterRecord): Promise<void>
+    store(record: DeadLetterRecord, redriveEnvelope?: Record<string, unknown>): Promise<void>
 
     /**
      * Query dead-letter records by time range
@@ -29,6 +46,14 @@ export interface IDeadLetterRepository {
      */
     queryByTimeRange(startUtc: string, endUtc: string, maxResults?: number): Promise<DeadLetterRecord[]>
 
+    /**
+     * Query dead-letter records by time range, event type and error code
+     *
+     * @param filter - Time range plus optional eventType / errorCode
+     * @returns Promise with matching records, newest first
+     */
+    queryByFilter(filter: DeadLetterQuery): Promise<DeadLetterRecord[]>
+
     /**
      * Get a single dead-letter record by ID
      *
@@ -36,4 +61,12 @@ export interface IDeadLetterRepository {
      * @returns Promise with record, or null if not found
      */
     getById(id: string): Promise<DeadLetterRecord | null>
+
+    /**
+     * Get the unredacted envelope kept for redrive (DeadLetterRedriveService only; never returned to operators)
+     *
+     * @param id - Dead-letter record ID
+     * @returns Promise with the envelope, or null if none was kept
+     */
+    getRedriveEnvelope(id: string): Promise<Record<string, unknown> | null>
 }
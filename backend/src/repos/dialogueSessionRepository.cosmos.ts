@@ -0,0 +1,38 @@
+/**
+ * Cosmos SQL API implementation of IDialogueSessionRepository.
+ *
+ * Container: dialogueSessions
+ * Partition Key: /playerId (a player's conversations share a partition)
+ */
+
+import type { NpcDialogueSession } from '@piquet-h/shared'
+import { inject, injectable } from 'inversify'
+import { TelemetryService } from '../telemetry/TelemetryService.js'
+import { CosmosDbSqlRepository } from './base/CosmosDbSqlRepository.js'
+import type { ICosmosDbSqlClient } from './base/cosmosDbSqlClient.js'
+import { buildDialogueSessionId, type IDialogueSessionRepository } from './dialogueSessionRepository.js'
+
+@injectable()
+export class CosmosDialogueSessionRepository extends CosmosDbSqlRepository<NpcDialogueSession> implements IDialogueSessionRepository {
+    constructor(
+        @inject('CosmosDbSqlClient') sqlClient: ICosmosDbSqlClient,
+        @inject('CosmosContainer:DialogueSessions') containerName: string,
+        @inject(TelemetryService) telemetryService: TelemetryService
+    ) {
+        super(sqlClient, containerName, telemetryService)
+    }
+
+    async getSession(playerId: string, npcId: string): Promise<NpcDialogueSession | null> {
+        return this.getById(buildDialogueSessionId(playerId, npcId), playerId)
+    }
+
+    async upsertSession(session: NpcDialogueSession): Promise<NpcDialogueSession> {
+        const now = new Date().toISOString()
+        const { resource } = await this.upsert({ ...session, createdAt: session.createdAt ?? now, updatedAt: now })
+        return resource
+    }
+
+    async deleteSession(playerId: string, npcId: string): Promise<boolean> {
+        return this.delete(buildDialogueSessionId(playerId, npcId), playerId)
+    }
+}
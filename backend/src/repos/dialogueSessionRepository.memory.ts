@@ -0,0 +1,30 @@
+/**
+ * In-memory implementation of IDialogueSessionRepository for testing and local development.
+ */
+
+import type { NpcDialogueSession } from '@piquet-h/shared'
+import { injectable } from 'inversify'
+import { BaseMemoryRepository } from './base/BaseMemoryRepository.js'
+import { buildDialogueSessionId, type IDialogueSessionRepository } from './dialogueSessionRepository.js'
+
+@injectable()
+export class MemoryDialogueSessionRepository
+    extends BaseMemoryRepository<string, NpcDialogueSession>
+    implements IDialogueSessionRepository
+{
+    async getSession(playerId: string, npcId: string): Promise<NpcDialogueSession | null> {
+        const session = this.records.get(buildDialogueSessionId(playerId, npcId))
+        return session ? { ...session, turns: [...session.turns] } : null
+    }
+
+    async upsertSession(session: NpcDialogueSession): Promise<NpcDialogueSession> {
+        const now = new Date().toISOString()
+        const stored: NpcDialogueSession = { ...session, turns: [...session.turns], createdAt: session.createdAt ?? now, updatedAt: now }
+        this.records.set(session.id, stored)
+        return { ...stored, turns: [...stored.turns] }
+    }
+
+    async deleteSession(playerId: string, npcId: string): Promise<boolean> {
+        return this.records.delete(buildDialogueSessionId(playerId, npcId))
+    }
+}
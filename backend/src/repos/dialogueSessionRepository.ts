@@ -0,0 +1,39 @@
+import type { NpcDialogueSession } from '@piquet-h/shared'
+
+/**
+ * Build the document id for a player↔NPC conversation (one session per pair).
+ */
+export function buildDialogueSessionId(playerId: string, npcId: string): string {
+    return `${playerId}:${npcId}`
+}
+
+/**
+ * Repository contract for persisted NPC conversations.
+ *
+ * Sessions are partitioned by player so that a player's conversations are
+ * single-partition reads; each (player, NPC) pair has exactly one document.
+ */
+export interface IDialogueSessionRepository {
+    /**
+     * Get the conversation between a player and an NPC
+     * @param playerId - Player unique identifier
+     * @param npcId - NPC unique identifier
+     * @returns The session or null if the pair has never spoken
+     */
+    getSession(playerId: string, npcId: string): Promise<NpcDialogueSession | null>
+
+    /**
+     * Create or replace a conversation
+     * @param session - Session to store (id must be buildDialogueSessionId(playerId, npcId))
+     * @returns The stored session (timestamps set)
+     */
+    upsertSession(session: NpcDialogueSession): Promise<NpcDialogueSession>
+
+    /**
+     * Delete a conversation
+     * @param playerId - Player unique identifier
+     * @param npcId - NPC unique identifier
+     * @returns True if the session was deleted, false if it did not exist
+     */
+    deleteSession(playerId: string, npcId: string): Promise<boolean>
+}
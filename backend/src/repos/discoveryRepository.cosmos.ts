@@ -0,0 +1,60 @@
+/**
+ * Cosmos SQL API implementation of IDiscoveryRepository.
+ *
+ * Container: discoveries
+ * Partition Key: /playerId (document id is `<playerId>:<locationId>`)
+ */
+
+import type { LocationDiscovery } from '@piquet-h/shared'
+import { inject, injectable } from 'inversify'
+import { TelemetryService } from '../telemetry/TelemetryService.js'
+import { CosmosDbSqlRepository } from './base/CosmosDbSqlRepository.js'
+import type { ICosmosDbSqlClient } from './base/cosmosDbSqlClient.js'
+import { buildDiscoveryId, type IDiscoveryRepository } from './discoveryRepository.js'
+
+@injectable()
+export class CosmosDiscoveryRepository extends CosmosDbSqlRepository<LocationDiscovery> implements IDiscoveryRepository {
+    constructor(
+        @inject('CosmosDbSqlClient') sqlClient: ICosmosDbSqlClient,
+        @inject('CosmosContainer:Discoveries') containerName: string,
+        @inject(TelemetryService) telemetryService: TelemetryService
+    ) {
+        super(sqlClient, containerName, telemetryService)
+    }
+
+    async getDiscovery(playerId: string, locationId: string): Promise<LocationDiscovery | null> {
+        return this.getById(buildDiscoveryId(playerId, locationId), playerId)
+    }
+
+    async upsertDiscovery(discovery: LocationDiscovery): Promise<LocationDiscovery> {
+        const { resource } = await this.upsert(discovery)
+        return resource
+    }
+
+    async listForPlayer(playerId: string, maxResults: number = 50): Promise<LocationDiscovery[]> {
+        // Single-partition query (partition key is /playerId)
+        const { items } = await this.query(
+            'SELECT * FROM c WHERE c.playerId = @playerId ORDER BY c.firstSeenUtc DESC OFFSET 0 LIMIT @maxResults',
+            [
+                { name: '@playerId', value: playerId },
+                { name: '@maxResults', value: maxResults }
+            ],
+            maxResults
+        )
+        return items
+    }
+
+    async listLocationIdsForPlayer(playerId: string): Promise<string[]> {
+        const { items } = await this.query<string>('SELECT VALUE c.locationId FROM c WHERE c.playerId = @playerId', [
+            { name: '@playerId', value: playerId }
+        ])
+        return items
+    }
+
+    async countForPlayer(playerId: string): Promise<number> {
+        const { items } = await this.query<number>('SELECT VALUE COUNT(1) FROM c WHERE c.playerId = @playerId', [
+            { name: '@playerId', value: playerId }
+        ])
+        return items[0] ?? 0
+    }
+}
@@ -0,0 +1,37 @@
+/**
+ * In-memory implementation of IDiscoveryRepository for testing and local development.
+ */
+
+import type { LocationDiscovery } from '@piquet-h/shared'
+import { injectable } from 'inversify'
+import { BaseMemoryRepository } from './base/BaseMemoryRepository.js'
+import { buildDiscoveryId, type IDiscoveryRepository } from './discoveryRepository.js'
+
+@injectable()
+export class MemoryDiscoveryRepository extends BaseMemoryRepository<string, LocationDiscovery> implements IDiscoveryRepository {
+    async getDiscovery(playerId: string, locationId: string): Promise<LocationDiscovery | null> {
+        const discovery = this.records.get(buildDiscoveryId(playerId, locationId))
+        return discovery ? { ...discovery } : null
+    }
+
+    async upsertDiscovery(discovery: LocationDiscovery): Promise<LocationDiscovery> {
+        this.records.set(discovery.id, { ...discovery })
+        return { ...discovery }
+    }
+
+    async listForPlayer(playerId: string, maxResults: number = 50): Promise<LocationDiscovery[]> {
+        return [...this.records.values()]
+            .filter((d) => d.playerId === playerId)
+            .sort((a, b) => b.firstSeenUtc.localeCompare(a.firstSeenUtc))
+            .slice(0, maxResults)
+            .map((d) => ({ ...d }))
+    }
+
+    async listLocationIdsForPlayer(playerId: string): Promise<string[]> {
+        return [...this.records.values()].filter((d) => d.playerId === playerId).map((d) => d.locationId)
+    }
+
+    async countForPlayer(playerId: string): Promise<number> {
+        return [...this.records.values()].filter((d) => d.playerId === playerId).length
+    }
+}
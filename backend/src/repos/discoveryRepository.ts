@@ -0,0 +1,48 @@
+import type { LocationDiscovery } from '@piquet-h/shared'
+
+/**
+ * Repository contract for the per-player discovery ledger (which locations each player has seen).
+ *
+ * One document per player and location (id = `<playerId>:<locationId>`, partition /playerId):
+ * every sighting replaces the previous one with an updated visit count.
+ */
+export interface IDiscoveryRepository {
+    /**
+     * The player's ledger entry for a location
+     * @param playerId - Player unique identifier
+     * @param locationId - Location unique identifier
+     * @returns Entry or null if the player has never seen the location
+     */
+    getDiscovery(playerId: string, locationId: string): Promise<LocationDiscovery | null>
+
+    /**
+     * Create or replace a ledger entry
+     * @param discovery - Entry to store
+     * @returns The stored entry
+     */
+    upsertDiscovery(discovery: LocationDiscovery): Promise<LocationDiscovery>
+
+    /**
+     * The player's discoveries, newest first sighting first
+     * @param playerId - Player unique identifier
+     * @param maxResults - Maximum entries to return
+     */
+    listForPlayer(playerId: string, maxResults?: number): Promise<LocationDiscovery[]>
+
+    /**
+     * Ids of every location the player has discovered (for the player's fog-of-war map)
+     * @param playerId - Player unique identifier
+     */
+    listLocationIdsForPlayer(playerId: string): Promise<string[]>
+
+    /**
+     * Number of locations the player has discovered
+     * @param playerId - Player unique identifier
+     */
+    countForPlayer(playerId: string): Promise<number>
+}
+
+/** Ledger document id for a player and location. */
+export function buildDiscoveryId(playerId: string, locationId: string): string {
+    return `${playerId}:${locationId}`
+}
@@ -1,4 +1,4 @@
-import { Direction } from '@piquet-h/shared'
+import { Direction, isDirection, type Location } from '@piquet-h/shared'
 import { inject, injectable } from 'inversify'
 import type { IGremlinClient } from '../gremlin/gremlinClient.js'
 
@@ -71,6 +71,20 @@ export function generateExitsSummaryCache(exits: ExitEdgeResult[]): string {
     return `Exits: ${directions}`
 }
 
+/**
+ * Exits that can be walked through, in canonical order: wired to a target and not locked.
+ * Lock state lives on the location's exits (exit edges from IExitRepository do not carry it).
+ */
+export function walkableExits(location: Pick<Location, 'exits'> | undefined): ExitEdgeResult[] {
+    return sortExits(
+        (location?.exits ?? []).flatMap((e) =>
+            e.to && e.lockState !== 'locked' && isDirection(e.direction)
+                ? [{ direction: e.direction, toLocationId: e.to, description: e.description, travelDurationMs: e.travelDurationMs }]
+                : []
+        )
+    )
+}
+
 /** Sentinel value returned by Gremlin coalesce() when travelDurationMs property is absent on an edge. */
 const TRAVEL_DURATION_ABSENT = -1
 
@@ -5,6 +5,7 @@ import {
     getOppositeDirection,
     isDirection,
     Location,
+    LockState,
     normalizeForbiddenEntry
 } from '@piquet-h/shared'
 import { inject, injectable } from 'inversify'
@@ -137,20 +138,24 @@ export class CosmosLocationRepository extends CosmosGremlinRepository implements
             const v = vertices[0]
 
             // Fetch exits with better error handling and coalesce for optional properties
-            let exits: Array<{ direction: string; to?: string; description?: string }> = []
+            let exits: Array<{ direction: string; to?: string; description?: string; lockState?: LockState; lockChangedUtc?: string }> = []
             try {
                 const exitsRaw = await this.query<Record<string, unknown>>(
-                    "g.V(locationId).outE('exit').project('direction','to','description','travelDurationMs')" +
+                    "g.V(locationId).outE('exit').project('direction','to','description','travelDurationMs','lockState','lockChangedUtc')" +
                         ".by(values('direction')).by(inV().id())" +
                         ".by(coalesce(values('description'), constant('')))" +
-                        `.by(coalesce(values('travelDurationMs'), constant(${TRAVEL_DURATION_ABSENT})))`,
+                        `.by(coalesce(values('travelDurationMs'), constant(${TRAVEL_DURATION_ABSENT})))` +
+                        ".by(coalesce(values('lockState'), constant('')))" +
+                        ".by(coalesce(values('lockChangedUtc'), constant('')))",
                     { locationId: id }
                 )
                 exits = (exitsRaw || []).map((e: Record<string, unknown>) => ({
                     direction: String(e.direction as string),
                     to: String(e.to as string),
                     description: e.description ? String(e.description as string) : undefined,
-                    travelDurationMs: Number(e.travelDurationMs) > 0 ? Number(e.travelDurationMs) : undefined
+                    travelDurationMs: Number(e.travelDurationMs) > 0 ? Number(e.travelDurationMs) : undefined,
+                    lockState: e.lockState === 'locked' || e.lockState === 'unlocked' ? (e.lockState as LockState) : undefined,
+                    lockChangedUtc: e.lockChangedUtc ? String(e.lockChangedUtc as string) : undefined
                 }))
 
                 console.debug(`[LocationRepository.get] Location ${id} has ${exits.length} exits`)
@@ -549,4 +554,24 @@ export class CosmosLocationRepository extends CosmosGremlinRepository implements
 
         return { updated: true }
     }
+
+    async setExitLockState(fromId: string, direction: string, lockState: LockState, changedUtc?: string): Promise<{ updated: boolean }> {
+        if (!isDirection(direction)) return { updated: false }
+
+        const edges = await this.query<Record<string, unknown>>("g.V(fid).outE('exit').has('direction', dir)", {
+            fid: fromId,
+            dir: direction
+        })
+
+        if (!edges || edges.length === 0) return { updated: false }
+
+        await this.queryWithTelemetry(
+            'exit.setLockState',
+            "g.V(fid).outE('exit').has('direction', dir).property('lockState', state)" +
+                (changedUtc ? ".property('lockChangedUtc', changed)" : ''),
+            { fid: fromId, dir: direction, state: lockState, ...(changedUtc ? { changed: changedUtc } : {}) }
+        )
+
+        return { updated: true }
+    }
 }
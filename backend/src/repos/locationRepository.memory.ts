@@ -1,4 +1,4 @@
-import { Direction, getOppositeDirection, isDirection, Location, LocationExit } from '@piquet-h/shared'
+import { Direction, getOppositeDirection, isDirection, Location, LocationExit, LockState } from '@piquet-h/shared'
 import { injectable } from 'inversify'
 import starterLocationsData from '../data/villageLocations.json' with { type: 'json' }
 import { applyMacroAtlasBindings } from '../seeding/macroAtlasBindings.js'
@@ -212,4 +212,13 @@ export class InMemoryLocationRepository implements ILocationRepository, IExitRep
         this.exitTravelDurations.set(this.exitKey(fromId, direction), travelDurationMs)
         return { updated: true }
     }
+
+    async setExitLockState(fromId: string, direction: string, lockState: LockState, changedUtc?: string): Promise<{ updated: boolean }> {
+        if (!isDirection(direction)) return { updated: false }
+        const exit = this.locations.get(fromId)?.exits?.find((e) => e.direction === direction)
+        if (!exit) return { updated: false }
+        exit.lockState = lockState
+        if (changedUtc) exit.lockChangedUtc = changedUtc
+        return { updated: true }
+    }
 }
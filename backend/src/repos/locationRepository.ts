@@ -1,4 +1,4 @@
-import { Location } from '@piquet-h/shared'
+import { Location, LockState } from '@piquet-h/shared'
 // NOTE: In-memory implementation has been moved to `locationRepository.memory.ts`.
 // Cosmos implementation remains in `locationRepository.cosmos.ts`.
 
@@ -36,4 +36,13 @@ export interface ILocationRepository {
      * @param travelDurationMs - Positive integer milliseconds for traversal
      */
     setExitTravelDuration(fromId: string, direction: string, travelDurationMs: number): Promise<{ updated: boolean }>
+    /**
+     * Set the lock state of an existing exit edge (one direction only; callers update the reciprocal).
+     * Idempotent: setting the current state again still reports `updated: true`.
+     * @param fromId - Source location ID
+     * @param direction - Exit direction
+     * @param lockState - 'locked' or 'unlocked'
+     * @param changedUtc - When the change happened (ISO 8601), stamped on the edge as `lockChangedUtc`
+     */
+    setExitLockState(fromId: string, direction: string, lockState: LockState, changedUtc?: string): Promise<{ updated: boolean }>
 }
@@ -0,0 +1,48 @@
+/**
+ * Cosmos SQL API implementation of INpcRepository.
+ *
+ * Container: npcs
+ * Partition Key: /id (NPC moves and ticks are single-document writes)
+ */
+
+import type { NpcEntity } from '@piquet-h/shared'
+import { inject, injectable } from 'inversify'
+import { TelemetryService } from '../telemetry/TelemetryService.js'
+import { CosmosDbSqlRepository } from './base/CosmosDbSqlRepository.js'
+import type { ICosmosDbSqlClient } from './base/cosmosDbSqlClient.js'
+import type { INpcRepository } from './npcRepository.js'
+
+@injectable()
+export class CosmosNpcRepository extends CosmosDbSqlRepository<NpcEntity> implements INpcRepository {
+    constructor(
+        @inject('CosmosDbSqlClient') sqlClient: ICosmosDbSqlClient,
+        @inject('CosmosContainer:Npcs') containerName: string,
+        @inject(TelemetryService) telemetryService: TelemetryService
+    ) {
+        super(sqlClient, containerName, telemetryService)
+    }
+
+    async getNpc(npcId: string): Promise<NpcEntity | null> {
+        return this.getById(npcId, npcId)
+    }
+
+    async listNpcsAtLocation(locationId: string, maxResults: number = 20): Promise<NpcEntity[]> {
+        // Cross-partition query (partition key is /id)
+        const { items } = await this.query(
+            'SELECT * FROM c WHERE c.locationId = @locationId',
+            [{ name: '@locationId', value: locationId }],
+            maxResults
+        )
+        return items
+    }
+
+    async upsertNpc(npc: NpcEntity): Promise<NpcEntity> {
+        const now = new Date().toISOString()
+        const { resource } = await this.upsert({ ...npc, createdAt: npc.createdAt ?? now, updatedAt: now })
+        return resource
+    }
+
+    async deleteNpc(npcId: string): Promise<boolean> {
+        return this.delete(npcId, npcId)
+    }
+}
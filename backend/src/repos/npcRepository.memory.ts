@@ -0,0 +1,38 @@
+/**
+ * In-memory implementation of INpcRepository for testing and local development.
+ */
+
+import type { NpcEntity } from '@piquet-h/shared'
+import { injectable } from 'inversify'
+import { BaseMemoryRepository } from './base/BaseMemoryRepository.js'
+import type { INpcRepository } from './npcRepository.js'
+
+@injectable()
+export class MemoryNpcRepository extends BaseMemoryRepository<string, NpcEntity> implements INpcRepository {
+    async getNpc(npcId: string): Promise<NpcEntity | null> {
+        const npc = this.records.get(npcId)
+        return npc ? { ...npc } : null
+    }
+
+    async listNpcsAtLocation(locationId: string, maxResults: number = 20): Promise<NpcEntity[]> {
+        const npcs: NpcEntity[] = []
+        for (const npc of this.records.values()) {
+            if (npc.locationId === locationId) {
+                npcs.push({ ...npc })
+                if (npcs.length >= maxResults) break
+            }
+        }
+        return npcs
+    }
+
+    async upsertNpc(npc: NpcEntity): Promise<NpcEntity> {
+        const now = new Date().toISOString()
+        const stored: NpcEntity = { ...npc, createdAt: npc.createdAt ?? now, updatedAt: now }
+        this.records.set(npc.id, stored)
+        return { ...stored }
+    }
+
+    async deleteNpc(npcId: string): Promise<boolean> {
+        return this.records.delete(npcId)
+    }
+}
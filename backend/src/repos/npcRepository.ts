@@ -0,0 +1,38 @@
+import type { NpcEntity } from '@piquet-h/shared'
+
+/**
+ * Repository contract for non-player characters.
+ *
+ * NPC documents are keyed by id so that movement is a single-document write;
+ * listing by location is a cross-partition query (kept small via maxResults).
+ */
+export interface INpcRepository {
+    /**
+     * Get an NPC by id
+     * @param npcId - NPC unique identifier
+     * @returns The NPC or null if not found
+     */
+    getNpc(npcId: string): Promise<NpcEntity | null>
+
+    /**
+     * List NPCs currently present in a location
+     * @param locationId - Location unique identifier
+     * @param maxResults - Maximum number of NPCs to return (default 20)
+     * @returns NPCs at the location (empty array when none)
+     */
+    listNpcsAtLocation(locationId: string, maxResults?: number): Promise<NpcEntity[]>
+
+    /**
+     * Create or replace an NPC
+     * @param npc - NPC to store
+     * @returns The stored NPC (timestamps set)
+     */
+    upsertNpc(npc: NpcEntity): Promise<NpcEntity>
+
+    /**
+     * Delete an NPC
+     * @param npcId - NPC unique identifier
+     * @returns True if the NPC was deleted, false if it did not exist
+     */
+    deleteNpc(npcId: string): Promise<boolean>
+}
@@ -0,0 +1,41 @@
+/**
+ * Cosmos SQL API implementation of IPendingClarificationRepository.
+ *
+ * Container: pendingClarifications
+ * Partition Key: /playerId (document id is also the player id)
+ * TTL: per-item (`ttl` property); the container must enable TTL with defaultTtl -1
+ */
+
+import type { PendingClarification } from '@piquet-h/shared'
+import { inject, injectable } from 'inversify'
+import { TelemetryService } from '../telemetry/TelemetryService.js'
+import { CosmosDbSqlRepository } from './base/CosmosDbSqlRepository.js'
+import type { ICosmosDbSqlClient } from './base/cosmosDbSqlClient.js'
+import type { IPendingClarificationRepository } from './pendingClarificationRepository.js'
+
+@injectable()
+export class CosmosPendingClarificationRepository
+    extends CosmosDbSqlRepository<PendingClarification>
+    implements IPendingClarificationRepository
+{
+    constructor(
+        @inject('CosmosDbSqlClient') sqlClient: ICosmosDbSqlClient,
+        @inject('CosmosContainer:PendingClarifications') containerName: string,
+        @inject(TelemetryService) telemetryService: TelemetryService
+    ) {
+        super(sqlClient, containerName, telemetryService)
+    }
+
+    async getPending(playerId: string): Promise<PendingClarification | null> {
+        return this.getById(playerId, playerId)
+    }
+
+    async upsertPending(pending: PendingClarification): Promise<PendingClarification> {
+        const { resource } = await this.upsert(pending)
+        return resource
+    }
+
+    async deletePending(playerId: string): Promise<boolean> {
+        return this.delete(playerId, playerId)
+    }
+}
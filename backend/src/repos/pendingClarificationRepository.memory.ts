@@ -0,0 +1,37 @@
+/**
+ * In-memory implementation of IPendingClarificationRepository for testing and local development.
+ */
+
+import type { PendingClarification } from '@piquet-h/shared'
+import { injectable } from 'inversify'
+import { BaseMemoryRepository } from './base/BaseMemoryRepository.js'
+import type { IPendingClarificationRepository } from './pendingClarificationRepository.js'
+
+@injectable()
+export class MemoryPendingClarificationRepository
+    extends BaseMemoryRepository<string, PendingClarification>
+    implements IPendingClarificationRepository
+{
+    async getPending(playerId: string): Promise<PendingClarification | null> {
+        const pending = this.records.get(playerId)
+        return pending ? { ...pending, options: [...pending.options] } : null
+    }
+
+    async upsertPending(pending: PendingClarification): Promise<PendingClarification> {
+        const stored: PendingClarification = { ...pending, options: [...pending.options] }
+        this.records.set(pending.playerId, stored)
+        if (pending.ttl) {
+            this.scheduleCleanup(pending.playerId, pending.ttl * 1000)
+        }
+        return { ...stored, options: [...stored.options] }
+    }
+
+    async deletePending(playerId: string): Promise<boolean> {
+        const timer = this.timers.get(playerId)
+        if (timer) {
+            clearTimeout(timer)
+            this.timers.delete(playerId)
+        }
+        return this.records.delete(playerId)
+    }
+}
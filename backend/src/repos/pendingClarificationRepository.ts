@@ -0,0 +1,30 @@
+import type { PendingClarification } from '@piquet-h/shared'
+
+/**
+ * Repository contract for clarification questions awaiting a player's answer.
+ *
+ * One document per player (id = playerId, partition /playerId): asking a new question replaces the
+ * previous one. Documents carry a per-item TTL so abandoned questions disappear on their own.
+ */
+export interface IPendingClarificationRepository {
+    /**
+     * Get the player's open question
+     * @param playerId - Player unique identifier
+     * @returns The pending clarification or null if none is stored (expiry is checked by the caller)
+     */
+    getPending(playerId: string): Promise<PendingClarification | null>
+
+    /**
+     * Create or replace the player's open question
+     * @param pending - Clarification to store (id must equal playerId)
+     * @returns The stored clarification
+     */
+    upsertPending(pending: PendingClarification): Promise<PendingClarification>
+
+    /**
+     * Discard the player's open question
+     * @param playerId - Player unique identifier
+     * @returns True if a question was deleted, false if none was stored
+     */
+    deletePending(playerId: string): Promise<boolean>
+}
@@ -0,0 +1,56 @@
+/**
+ * Cosmos SQL API implementation of IPlayerPresenceRepository.
+ *
+ * Container: playerPresence
+ * Partition Key: /id (document id is the player id)
+ * TTL: per-item (`ttl` property); the container must enable TTL with defaultTtl -1
+ */
+
+import type { PlayerPresence } from '@piquet-h/shared'
+import { inject, injectable } from 'inversify'
+import { TelemetryService } from '../telemetry/TelemetryService.js'
+import { CosmosDbSqlRepository } from './base/CosmosDbSqlRepository.js'
+import type { ICosmosDbSqlClient } from './base/cosmosDbSqlClient.js'
+import type { IPlayerPresenceRepository } from './playerPresenceRepository.js'
+
+@injectable()
+export class CosmosPlayerPresenceRepository extends CosmosDbSqlRepository<PlayerPresence> implements IPlayerPresenceRepository {
+    constructor(
+        @inject('CosmosDbSqlClient') sqlClient: ICosmosDbSqlClient,
+        @inject('CosmosContainer:PlayerPresence') containerName: string,
+        @inject(TelemetryService) telemetryService: TelemetryService
+    ) {
+        super(sqlClient, containerName, telemetryService)
+    }
+
+    async getPresence(playerId: string): Promise<PlayerPresence | null> {
+        return this.getById(playerId, playerId)
+    }
+
+    async upsertPresence(presence: PlayerPresence): Promise<PlayerPresence> {
+        const { resource } = await this.upsert(presence)
+        return resource
+    }
+
+    async listAtLocation(locationId: string, seenSinceUtc: string, maxResults: number = 50): Promise<PlayerPresence[]> {
+        // Cross-partition query (partition key is /id)
+        const { items } = await this.query(
+            'SELECT * FROM c WHERE c.locationId = @locationId AND c.lastSeenUtc >= @since ORDER BY c.lastSeenUtc DESC',
+            [
+                { name: '@locationId', value: locationId },
+                { name: '@since', value: seenSinceUtc }
+            ],
+            maxResults
+        )
+        return items
+    }
+
+    async listOnline(seenSinceUtc: string, maxResults: number = 100): Promise<PlayerPresence[]> {
+        const { items } = await this.query(
+            'SELECT * FROM c WHERE c.lastSeenUtc >= @since ORDER BY c.lastSeenUtc DESC',
+            [{ name: '@since', value: seenSinceUtc }],
+            maxResults
+        )
+        return items
+    }
+}
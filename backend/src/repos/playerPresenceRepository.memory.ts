@@ -0,0 +1,40 @@
+/**
+ * In-memory implementation of IPlayerPresenceRepository for testing and local development.
+ */
+
+import type { PlayerPresence } from '@piquet-h/shared'
+import { injectable } from 'inversify'
+import { BaseMemoryRepository } from './base/BaseMemoryRepository.js'
+import type { IPlayerPresenceRepository } from './playerPresenceRepository.js'
+
+@injectable()
+export class MemoryPlayerPresenceRepository extends BaseMemoryRepository<string, PlayerPresence> implements IPlayerPresenceRepository {
+    async getPresence(playerId: string): Promise<PlayerPresence | null> {
+        const presence = this.records.get(playerId)
+        return presence ? { ...presence } : null
+    }
+
+    async upsertPresence(presence: PlayerPresence): Promise<PlayerPresence> {
+        this.records.set(presence.id, { ...presence })
+        if (presence.ttl) {
+            this.scheduleCleanup(presence.id, presence.ttl * 1000)
+        }
+        return { ...presence }
+    }
+
+    async listAtLocation(locationId: string, seenSinceUtc: string, maxResults: number = 50): Promise<PlayerPresence[]> {
+        return this.listSeenSince(seenSinceUtc, maxResults, (p) => p.locationId === locationId)
+    }
+
+    async listOnline(seenSinceUtc: string, maxResults: number = 100): Promise<PlayerPresence[]> {
+        return this.listSeenSince(seenSinceUtc, maxResults)
+    }
+
+    private listSeenSince(seenSinceUtc: string, maxResults: number, filter?: (p: PlayerPresence) => boolean): PlayerPresence[] {
+        return [...this.records.values()]
+            .filter((p) => p.lastSeenUtc >= seenSinceUtc && (!filter || filter(p)))
+            .sort((a, b) => b.lastSeenUtc.localeCompare(a.lastSeenUtc))
+            .slice(0, maxResults)
+            .map((p) => ({ ...p }))
+    }
+}
@@ -0,0 +1,38 @@
+import type { PlayerPresence } from '@piquet-h/shared'
+
+/**
+ * Repository contract for the player presence projection (where each player was last seen).
+ *
+ * One document per player (id = playerId, partition /id): every refresh replaces the previous one.
+ * Documents carry a per-item TTL; listings also filter on lastSeenUtc because expiry is not immediate.
+ */
+export interface IPlayerPresenceRepository {
+    /**
+     * The player's last recorded presence, stale or not
+     * @param playerId - Player unique identifier
+     * @returns Presence or null if never recorded (or expired)
+     */
+    getPresence(playerId: string): Promise<PlayerPresence | null>
+
+    /**
+     * Create or replace the player's presence
+     * @param presence - Presence to store (id is the player id)
+     * @returns The stored presence
+     */
+    upsertPresence(presence: PlayerPresence): Promise<PlayerPresence>
+
+    /**
+     * Players seen at a location since a cutoff, most recent first
+     * @param locationId - Location unique identifier
+     * @param seenSinceUtc - ISO 8601 cutoff; older entries are stale
+     * @param maxResults - Maximum entries to return
+     */
+    listAtLocation(locationId: string, seenSinceUtc: string, maxResults?: number): Promise<PlayerPresence[]>
+
+    /**
+     * Players seen anywhere since a cutoff, most recent first
+     * @param seenSinceUtc - ISO 8601 cutoff; older entries are stale
+     * @param maxResults - Maximum entries to return
+     */
+    listOnline(seenSinceUtc: string, maxResults?: number): Promise<PlayerPresence[]>
+}
@@ -0,0 +1,45 @@
+/**
+ * Cosmos SQL API implementation of IQuestRepository.
+ *
+ * Container: quests
+ * Partition Key: /playerId (a player's journal is a single-partition query)
+ */
+
+import type { QuestEntity } from '@piquet-h/shared'
+import { inject, injectable } from 'inversify'
+import { TelemetryService } from '../telemetry/TelemetryService.js'
+import { CosmosDbSqlRepository } from './base/CosmosDbSqlRepository.js'
+import type { ICosmosDbSqlClient } from './base/cosmosDbSqlClient.js'
+import type { IQuestRepository } from './questRepository.js'
+
+@injectable()
+export class CosmosQuestRepository extends CosmosDbSqlRepository<QuestEntity> implements IQuestRepository {
+    constructor(
+        @inject('CosmosDbSqlClient') sqlClient: ICosmosDbSqlClient,
+        @inject('CosmosContainer:Quests') containerName: string,
+        @inject(TelemetryService) telemetryService: TelemetryService
+    ) {
+        super(sqlClient, containerName, telemetryService)
+    }
+
+    async getQuest(playerId: string, questId: string): Promise<QuestEntity | null> {
+        return this.getById(questId, playerId)
+    }
+
+    async listQuestsForPlayer(playerId: string): Promise<QuestEntity[]> {
+        const { items } = await this.query('SELECT * FROM c WHERE c.playerId = @playerId ORDER BY c.createdAt ASC', [
+            { name: '@playerId', value: playerId }
+        ])
+        return items
+    }
+
+    async upsertQuest(quest: QuestEntity): Promise<QuestEntity> {
+        const now = new Date().toISOString()
+        const { resource } = await this.upsert({ ...quest, createdAt: quest.createdAt ?? now, updatedAt: now })
+        return resource
+    }
+
+    async deleteQuest(playerId: string, questId: string): Promise<boolean> {
+        return this.delete(questId, playerId)
+    }
+}
@@ -0,0 +1,40 @@
+/**
+ * In-memory implementation of IQuestRepository for testing and local development.
+ */
+
+import type { QuestEntity } from '@piquet-h/shared'
+import { injectable } from 'inversify'
+import { BaseMemoryRepository } from './base/BaseMemoryRepository.js'
+import type { IQuestRepository } from './questRepository.js'
+
+function cloneQuest(quest: QuestEntity): QuestEntity {
+    return { ...quest, objectives: quest.objectives.map((o) => ({ ...o })), rewards: quest.rewards.map((r) => ({ ...r })) }
+}
+
+@injectable()
+export class MemoryQuestRepository extends BaseMemoryRepository<string, QuestEntity> implements IQuestRepository {
+    async getQuest(playerId: string, questId: string): Promise<QuestEntity | null> {
+        const quest = this.records.get(questId)
+        return quest && quest.playerId === playerId ? cloneQuest(quest) : null
+    }
+
+    async listQuestsForPlayer(playerId: string): Promise<QuestEntity[]> {
+        return Array.from(this.records.values())
+            .filter((q) => q.playerId === playerId)
+            .sort((a, b) => (a.createdAt ?? '').localeCompare(b.createdAt ?? ''))
+            .map(cloneQuest)
+    }
+
+    async upsertQuest(quest: QuestEntity): Promise<QuestEntity> {
+        const now = new Date().toISOString()
+        const stored = cloneQuest({ ...quest, createdAt: quest.createdAt ?? now, updatedAt: now })
+        this.records.set(quest.id, stored)
+        return cloneQuest(stored)
+    }
+
+    async deleteQuest(playerId: string, questId: string): Promise<boolean> {
+        const quest = this.records.get(questId)
+        if (!quest || quest.playerId !== playerId) return false
+        return this.records.delete(questId)
+    }
+}
@@ -0,0 +1,38 @@
+import type { QuestEntity } from '@piquet-h/shared'
+
+/**
+ * Repository contract for player quests.
+ *
+ * Quests are partitioned by player so that a player's journal and progress
+ * updates are single-partition operations.
+ */
+export interface IQuestRepository {
+    /**
+     * Get a quest
+     * @param playerId - Player the quest belongs to
+     * @param questId - Quest unique identifier
+     * @returns The quest or null if not found
+     */
+    getQuest(playerId: string, questId: string): Promise<QuestEntity | null>
+
+    /**
+     * List a player's quests (any status), oldest first
+     * @param playerId - Player unique identifier
+     */
+    listQuestsForPlayer(playerId: string): Promise<QuestEntity[]>
+
+    /**
+     * Create or replace a quest
+     * @param quest - Quest to store
+     * @returns The stored quest (timestamps set)
+     */
+    upsertQuest(quest: QuestEntity): Promise<QuestEntity>
+
+    /**
+     * Delete a quest
+     * @param playerId - Player the quest belongs to
+     * @param questId - Quest unique identifier
+     * @returns True if the quest was deleted, false if it did not exist
+     */
+    deleteQuest(playerId: string, questId: string): Promise<boolean>
+}
@@ -378,4 +378,18 @@ export class CosmosRealmRepository extends CosmosGremlinRepository implements IR
 
         return this.mapToRealmVertex(result[0])
     }
+
+    async listByType(realmType: RealmType): Promise<RealmVertex[]> {
+        const result = await this.queryWithTelemetry<Record<string, unknown>>(
+            'realm.listByType',
+            "g.V().hasLabel('realm').has('realmType', realmType).valueMap(true)",
+            { realmType }
+        )
+
+        if (!result || result.length === 0) {
+            return []
+        }
+
+        return result.map((v) => this.mapToRealmVertex(v))
+    }
 }
@@ -1,4 +1,4 @@
-import { RealmVertex } from '@piquet-h/shared'
+import { RealmType, RealmVertex } from '@piquet-h/shared'
 import { injectable } from 'inversify'
 import { IRealmRepository } from './realmRepository.js'
 
@@ -242,4 +242,8 @@ export class InMemoryRealmRepository implements IRealmRepository {
 
         return null
     }
+
+    async listByType(realmType: RealmType): Promise<RealmVertex[]> {
+        return Array.from(this.realms.values()).filter((realm) => realm.realmType === realmType)
+    }
 }
@@ -1,4 +1,4 @@
-import { RealmVertex } from '@piquet-h/shared'
+import { RealmType, RealmVertex } from '@piquet-h/shared'
 
 /**
  * Repository contract for realm vertex and edge operations.
@@ -128,4 +128,12 @@ export interface IRealmRepository {
      * @returns Weather zone realm or null if not found
      */
     getWeatherZoneForLocation(locationId: string): Promise<RealmVertex | null>
+
+    /**
+     * List all realms of a given type (e.g. every WEATHER_ZONE).
+     *
+     * @param realmType - Realm type to match
+     * @returns Realms of that type (unordered)
+     */
+    listByType(realmType: RealmType): Promise<RealmVertex[]>
 }
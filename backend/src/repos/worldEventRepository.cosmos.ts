@@ -8,11 +8,12 @@
  */
 
 import type { SqlParameter } from '@azure/cosmos'
-import type {
-    IWorldEventRepository,
-    TimelineQueryOptions,
-    TimelineQueryResult,
-    WorldEventRecord
+import {
+    SCHEDULED_EVENTS_SCOPE_KEY,
+    type IWorldEventRepository,
+    type TimelineQueryOptions,
+    type TimelineQueryResult,
+    type WorldEventRecord
 } from '@piquet-h/shared/types/worldEventRepository'
 import { inject, injectable } from 'inversify'
 import { TelemetryService } from '../telemetry/TelemetryService.js'
@@ -226,4 +227,31 @@ export class CosmosWorldEventRepository implements IWorldEventRepository {
 
         return items.length > 0 ? items[0] : null
     }
+
+    async getDueScheduled(nowUtc: string, currentTick: number, limit: number = 100): Promise<WorldEventRecord[]> {
+        const startTime = Date.now()
+
+        const queryText =
+            'SELECT * FROM c WHERE c.scopeKey = @scopeKey AND c.status = @status' +
+            ' AND ((IS_DEFINED(c.scheduledForUtc) AND c.scheduledForUtc <= @nowUtc)' +
+            ' OR (IS_DEFINED(c.scheduledForTick) AND c.scheduledForTick <= @currentTick))' +
+            ' ORDER BY c.ingestedUtc ASC'
+        const parameters: SqlParameter[] = [
+            { name: '@scopeKey', value: SCHEDULED_EVENTS_SCOPE_KEY },
+            { name: '@status', value: 'scheduled' },
+            { name: '@nowUtc', value: nowUtc },
+            { name: '@currentTick', value: currentTick }
+        ]
+
+        const { items, ruCharge } = await this.sql.queryEvents(queryText, parameters, limit)
+
+        this.telemetryService.trackGameEvent('WorldEvent.QueryByScope', {
+            scopeKey: SCHEDULED_EVENTS_SCOPE_KEY,
+            resultCount: items.length,
+            ruCharge,
+            latencyMs: Date.now() - startTime
+        })
+
+        return items
+    }
 }
@@ -3,11 +3,12 @@
  * Simulates SQL API query patterns for unit/integration tests.
  */
 
-import type {
-    IWorldEventRepository,
-    TimelineQueryOptions,
-    TimelineQueryResult,
-    WorldEventRecord
+import {
+    SCHEDULED_EVENTS_SCOPE_KEY,
+    type IWorldEventRepository,
+    type TimelineQueryOptions,
+    type TimelineQueryResult,
+    type WorldEventRecord
 } from '@piquet-h/shared/types/worldEventRepository'
 import { injectable } from 'inversify'
 
@@ -112,6 +113,18 @@ export class MemoryWorldEventRepository implements IWorldEventRepository {
         return null
     }
 
+    async getDueScheduled(nowUtc: string, currentTick: number, limit: number = 100): Promise<WorldEventRecord[]> {
+        const due = Array.from(this.events.values()).filter(
+            (e) =>
+                e.scopeKey === SCHEDULED_EVENTS_SCOPE_KEY &&
+                e.status === 'scheduled' &&
+                ((e.scheduledForUtc !== undefined && e.scheduledForUtc <= nowUtc) ||
+                    (e.scheduledForTick !== undefined && e.scheduledForTick <= currentTick))
+        )
+        due.sort((a, b) => a.ingestedUtc.localeCompare(b.ingestedUtc))
+        return due.slice(0, limit).map((e) => ({ ...e }))
+    }
+
     // Test utility: clear all events
     clear(): void {
         this.events.clear()
@@ -11,4 +11,11 @@ export type {
     TimelineQueryResult
 } from '@piquet-h/shared/types/worldEventRepository'
 
-export { buildLocationScopeKey, buildPlayerScopeKey, buildGlobalScopeKey, parseScopeKey } from '@piquet-h/shared/types/worldEventRepository'
+export {
+    buildLocationScopeKey,
+    buildPlayerScopeKey,
+    buildGlobalScopeKey,
+    buildRealmScopeKey,
+    parseScopeKey,
+    SCHEDULED_EVENTS_SCOPE_KEY
+} from '@piquet-h/shared/types/worldEventRepository'
@@ -0,0 +1,43 @@
+/**
+ * Cosmos SQL API implementation of IWorldItemRepository.
+ *
+ * Container: worldItems
+ * Partition Key: /locationId (look lists items for a single location)
+ */
+
+import { inject, injectable } from 'inversify'
+import { TelemetryService } from '../telemetry/TelemetryService.js'
+import { CosmosDbSqlRepository } from './base/CosmosDbSqlRepository.js'
+import type { ICosmosDbSqlClient } from './base/cosmosDbSqlClient.js'
+import type { IWorldItemRepository, WorldItem } from './worldItemRepository.js'
+
+@injectable()
+export class CosmosWorldItemRepository extends CosmosDbSqlRepository<WorldItem> implements IWorldItemRepository {
+    constructor(
+        @inject('CosmosDbSqlClient') sqlClient: ICosmosDbSqlClient,
+        @inject('CosmosContainer:WorldItems') containerName: string,
+        @inject(TelemetryService) telemetryService: TelemetryService
+    ) {
+        super(sqlClient, containerName, telemetryService)
+    }
+
+    async listItemsAtLocation(locationId: string): Promise<WorldItem[]> {
+        // Single-partition query
+        const { items } = await this.query('SELECT * FROM c WHERE c.locationId = @locationId', [{ name: '@locationId', value: locationId }])
+        return items
+    }
+
+    async getItem(itemId: string, locationId: string): Promise<WorldItem | null> {
+        return this.getById(itemId, locationId)
+    }
+
+    async placeItem(item: WorldItem): Promise<WorldItem> {
+        const now = new Date().toISOString()
+        const { resource } = await this.upsert({ ...item, createdAt: item.createdAt ?? now, updatedAt: now })
+        return resource
+    }
+
+    async removeItem(itemId: string, locationId: string): Promise<boolean> {
+        return this.delete(itemId, locationId)
+    }
+}
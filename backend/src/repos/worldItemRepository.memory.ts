@@ -0,0 +1,40 @@
+/**
+ * In-memory implementation of IWorldItemRepository for testing and local development.
+ */
+
+import { injectable } from 'inversify'
+import { BaseMemoryRepository } from './base/BaseMemoryRepository.js'
+import type { IWorldItemRepository, WorldItem } from './worldItemRepository.js'
+
+@injectable()
+export class MemoryWorldItemRepository extends BaseMemoryRepository<string, WorldItem> implements IWorldItemRepository {
+    async listItemsAtLocation(locationId: string): Promise<WorldItem[]> {
+        const items: WorldItem[] = []
+        for (const item of this.records.values()) {
+            if (item.locationId === locationId) {
+                items.push({ ...item })
+            }
+        }
+        return items
+    }
+
+    async getItem(itemId: string, locationId: string): Promise<WorldItem | null> {
+        const item = this.records.get(this.makeKey(itemId, locationId))
+        return item ? { ...item } : null
+    }
+
+    async placeItem(item: WorldItem): Promise<WorldItem> {
+        const now = new Date().toISOString()
+        const stored: WorldItem = { ...item, createdAt: item.createdAt ?? now, updatedAt: now }
+        this.records.set(this.makeKey(item.id, item.locationId), stored)
+        return { ...stored }
+    }
+
+    async removeItem(itemId: string, locationId: string): Promise<boolean> {
+        return this.records.delete(this.makeKey(itemId, locationId))
+    }
+
+    private makeKey(itemId: string, locationId: string): string {
+        return `${locationId}:${itemId}`
+    }
+}
@@ -0,0 +1,45 @@
+import type { ItemEntity } from '@piquet-h/shared'
+
+/**
+ * World item lying in a location (not held by a player).
+ * locationId is required while the item is in the world; it doubles as the partition key.
+ */
+export type WorldItem = ItemEntity & { locationId: string }
+
+/**
+ * Repository contract for items lying in locations.
+ *
+ * Held items live in the player's inventory (IInventoryRepository); an item is
+ * moved between the two stores by take/drop rather than existing in both.
+ */
+export interface IWorldItemRepository {
+    /**
+     * List all items currently lying in a location
+     * @param locationId - Location unique identifier
+     * @returns Items at the location (empty array when none)
+     */
+    listItemsAtLocation(locationId: string): Promise<WorldItem[]>
+
+    /**
+     * Get a single item at a location
+     * @param itemId - Item unique identifier
+     * @param locationId - Location unique identifier (partition key)
+     * @returns The item or null if it is not at the location
+     */
+    getItem(itemId: string, locationId: string): Promise<WorldItem | null>
+
+    /**
+     * Place (create or replace) an item at its location
+     * @param item - Item with locationId set
+     * @returns The stored item
+     */
+    placeItem(item: WorldItem): Promise<WorldItem>
+
+    /**
+     * Remove an item from a location
+     * @param itemId - Item unique identifier
+     * @param locationId - Location unique identifier (partition key)
+     * @returns True if the item was removed, false if it was not present
+     */
+    removeItem(itemId: string, locationId: string): Promise<boolean>
+}
@@ -9,17 +9,30 @@
  * Supported action types (mirrors PROPOSAL_ALLOWED_ACTION_TYPES):
  *   - Layer.Add          → setLayerForLocation (params.locationId, layerType, layerContent)
  *   - Ambience.Generate  → setLayerForLocation with 'ambient' type and deterministic content
- *   - NPC.Dialogue       → telemetry-only for now (persistence in a later milestone)
+ *   - NPC.Dialogue       → with params.playerId: appends the exchange to the player↔NPC dialogue session
+ *                          (params.line, optional params.playerMessage); otherwise ambient speech that stamps
+ *                          the NPC's lastTick / lastReactedEventId when the NPC exists
+ *   - NPC.Move           → moves an NPC one hop along an existing, unlocked exit (params.npcId, fromLocationId, toLocationId)
+ *
+ * NPC actions enforce per-(npcId, tick) idempotency: an NPC whose lastTick is at or past
+ * the given tick is left untouched and the result reports reason 'duplicate-tick'.
  *
  * All writes include metadata.authoredBy='agent' so subsequent sense phases can
  * distinguish agent-generated layers from human/AI-generated ones.
+ *
+ * Applied layers, ambient speech and NPC moves are pushed to players at the location as live
+ * events (LiveEventService); conversations with a player stay private to that player.
  */
 
-import type { ProposedAction } from '@piquet-h/shared'
+import type { NpcDialogueTurn, NpcEntity, ProposedAction } from '@piquet-h/shared'
 import type { LayerType } from '@piquet-h/shared/types/layerRepository'
 import { inject, injectable } from 'inversify'
+import { buildDialogueSessionId, type IDialogueSessionRepository } from '../repos/dialogueSessionRepository.js'
 import type { ILayerRepository } from '../repos/layerRepository.js'
+import type { ILocationRepository } from '../repos/locationRepository.js'
+import type { INpcRepository } from '../repos/npcRepository.js'
 import { TelemetryService } from '../telemetry/TelemetryService.js'
+import { LiveEventService } from './LiveEventService.js'
 
 export interface ActionApplicationResult {
     /** Whether the action was durably applied (true) or skipped/no-op (false). */
@@ -78,11 +91,23 @@ export function pickAmbientContent(locationId: string, salt: number): string {
     return AMBIENT_POOL[hash % AMBIENT_POOL.length]
 }
 
+/** Maximum turns kept per dialogue session (older turns are dropped; turnCount keeps the full total). */
+export const MAX_DIALOGUE_SESSION_TURNS = 20
+
+/** True when the NPC has already had this (or a later) tick applied. */
+function isTickApplied(npc: NpcEntity, tick: number): boolean {
+    return npc.lastTick !== undefined && npc.lastTick >= tick
+}
+
 @injectable()
 export class AgentProposalApplicator implements IAgentProposalApplicator {
     constructor(
         @inject('ILayerRepository') private readonly layerRepo: ILayerRepository,
-        @inject(TelemetryService) private readonly telemetry: TelemetryService
+        @inject(TelemetryService) private readonly telemetry: TelemetryService,
+        @inject('INpcRepository') private readonly npcRepo: INpcRepository,
+        @inject('ILocationRepository') private readonly locationRepo: ILocationRepository,
+        @inject('IDialogueSessionRepository') private readonly dialogueSessionRepo: IDialogueSessionRepository,
+        @inject(LiveEventService) private readonly liveEvents: LiveEventService
     ) {}
 
     async apply(action: ProposedAction, correlationId: string, tick: number): Promise<ActionApplicationResult> {
@@ -92,7 +117,9 @@ export class AgentProposalApplicator implements IAgentProposalApplicator {
             case 'Ambience.Generate':
                 return this.applyAmbienceGenerate(action, tick, correlationId)
             case 'NPC.Dialogue':
-                return this.applyNpcDialogue(action, correlationId)
+                return this.applyNpcDialogue(action, tick, correlationId)
+            case 'NPC.Move':
+                return this.applyNpcMove(action, tick, correlationId)
             default:
                 return { applied: false, actionType: action.actionType, scopeKey: action.scopeKey, reason: 'unhandled-action-type' }
         }
@@ -119,6 +146,7 @@ export class AgentProposalApplicator implements IAgentProposalApplicator {
             { locationId, layerType: rawLayerType, layerId: layer.id, source: 'agent', correlationId },
             { correlationId }
         )
+        this.liveEvents.publish({ kind: 'layer.changed', locationId, text: layerContent, layerType: rawLayerType }, { correlationId })
 
         return { applied: true, actionType: 'Layer.Add', scopeKey: action.scopeKey, layerId: layer.id }
     }
@@ -141,23 +169,135 @@ export class AgentProposalApplicator implements IAgentProposalApplicator {
             { locationId, layerType: 'ambient', layerId: layer.id, source: 'agent-ambience', correlationId },
             { correlationId }
         )
+        this.liveEvents.publish({ kind: 'layer.changed', locationId, text: content, layerType: 'ambient' }, { correlationId })
 
         return { applied: true, actionType: 'Ambience.Generate', scopeKey: action.scopeKey, layerId: layer.id }
     }
 
-    private applyNpcDialogue(action: ProposedAction, correlationId: string): ActionApplicationResult {
-        // NPC.Dialogue persistence is deferred to a later milestone.
-        // Record the fact that dialogue was triggered via telemetry so it's
-        // observable without requiring a dedicated storage layer.
+    private async applyNpcDialogue(action: ProposedAction, tick: number, correlationId: string): Promise<ActionApplicationResult> {
         const params = action.params as Record<string, unknown>
         const npcId = String(params['npcId'] ?? 'unknown')
 
+        // Conversation with a player: persisted per (player, NPC); not tick-gated because
+        // a player may exchange several lines with the same NPC within one world tick.
+        if (typeof params['playerId'] === 'string' && params['playerId']) {
+            return this.appendDialogueTurns(action, params['playerId'], npcId, correlationId)
+        }
+
+        // Ambient speech is not persisted; it is observable through telemetry and the NPC.Dialogue world event.
+
+        const npc = await this.npcRepo.getNpc(npcId)
+        if (npc) {
+            if (isTickApplied(npc, tick)) {
+                return { applied: false, actionType: 'NPC.Dialogue', scopeKey: action.scopeKey, reason: 'duplicate-tick' }
+            }
+            const triggerEventId = typeof params['triggerEventId'] === 'string' ? params['triggerEventId'] : undefined
+            await this.npcRepo.upsertNpc({ ...npc, lastTick: tick, ...(triggerEventId ? { lastReactedEventId: triggerEventId } : {}) })
+        }
+
         this.telemetry.trackGameEvent(
             'World.Event.Processed',
             { actionType: 'NPC.Dialogue', npcId, scopeKey: action.scopeKey, source: 'agent', correlationId },
             { correlationId }
         )
+        const locationId = typeof params['locationId'] === 'string' ? params['locationId'] : npc?.locationId
+        const line = String(params['line'] ?? '')
+        if (locationId && line) {
+            this.liveEvents.publish(
+                { kind: 'npc.action', locationId, text: line, ...(npc ? { actorName: npc.name } : {}) },
+                { correlationId }
+            )
+        }
 
         return { applied: true, actionType: 'NPC.Dialogue', scopeKey: action.scopeKey, reason: 'dialogue-recorded' }
     }
+
+    private async appendDialogueTurns(
+        action: ProposedAction,
+        playerId: string,
+        npcId: string,
+        correlationId: string
+    ): Promise<ActionApplicationResult> {
+        const params = action.params as Record<string, unknown>
+        const at = new Date().toISOString()
+        const newTurns: NpcDialogueTurn[] = []
+        if (typeof params['playerMessage'] === 'string' && params['playerMessage']) {
+            newTurns.push({ speaker: 'player', text: params['playerMessage'], at })
+        }
+        newTurns.push({
+            speaker: 'npc',
+            text: String(params['line'] ?? ''),
+            at,
+            ...(params['source'] === 'ai' || params['source'] === 'fallback' ? { source: params['source'] } : {})
+        })
+
+        const existing = await this.dialogueSessionRepo.getSession(playerId, npcId)
+        const turns = [...(existing?.turns ?? []), ...newTurns].slice(-MAX_DIALOGUE_SESSION_TURNS)
+        await this.dialogueSessionRepo.upsertSession({
+            id: buildDialogueSessionId(playerId, npcId),
+            playerId,
+            npcId,
+            turns,
+            turnCount: (existing?.turnCount ?? 0) + newTurns.length,
+            createdAt: existing?.createdAt
+        })
+
+        this.telemetry.trackGameEvent(
+            'World.Event.Processed',
+            { actionType: 'NPC.Dialogue', npcId, playerId, scopeKey: action.scopeKey, source: 'player-talk', correlationId },
+            { correlationId }
+        )
+
+        return { applied: true, actionType: 'NPC.Dialogue', scopeKey: action.scopeKey, reason: 'dialogue-persisted' }
+    }
+
+    private async applyNpcMove(action: ProposedAction, tick: number, correlationId: string): Promise<ActionApplicationResult> {
+        const params = action.params as Record<string, unknown>
+        const npcId = String(params['npcId'] ?? '')
+        const fromLocationId = String(params['fromLocationId'] ?? '')
+        const toLocationId = String(params['toLocationId'] ?? '')
+
+        const blocked = (reason: string): ActionApplicationResult => {
+            this.telemetry.trackGameEvent(
+                'NPC.Move.Blocked',
+                { npcId, fromLocationId, toLocationId, reason, correlationId },
+                { correlationId }
+            )
+            return { applied: false, actionType: 'NPC.Move', scopeKey: action.scopeKey, reason }
+        }
+
+        const npc = await this.npcRepo.getNpc(npcId)
+        if (!npc) return blocked('npc-not-found')
+        if (isTickApplied(npc, tick)) return blocked('duplicate-tick')
+        // The decision was made against an older position (another tick or an operator moved the NPC).
+        if (npc.locationId !== fromLocationId) return blocked('npc-location-stale')
+
+        const exits = (await this.locationRepo.get(fromLocationId))?.exits ?? []
+        const exit = exits.find((e) => e.to === toLocationId && (!params['direction'] || e.direction === params['direction']))
+        if (!exit) return blocked('no-exit')
+        // Doors players locked with a key are closed to NPCs as well.
+        if (exit.lockState === 'locked') return blocked('exit-locked')
+
+        await this.npcRepo.upsertNpc({ ...npc, locationId: toLocationId, lastTick: tick })
+
+        this.telemetry.trackGameEvent(
+            'NPC.Moved',
+            { npcId, fromLocationId, toLocationId, direction: exit.direction, tick, correlationId },
+            { correlationId }
+        )
+        const live = { correlationId }
+        this.liveEvents.publish(
+            {
+                kind: 'npc.action',
+                locationId: fromLocationId,
+                text: `${npc.name} goes ${exit.direction}.`,
+                direction: exit.direction,
+                actorName: npc.name
+            },
+            live
+        )
+        this.liveEvents.publish({ kind: 'npc.action', locationId: toLocationId, text: `${npc.name} arrives.`, actorName: npc.name }, live)
+
+        return { applied: true, actionType: 'NPC.Move', scopeKey: action.scopeKey }
+    }
 }
@@ -0,0 +1,254 @@
+/**
+ * ChatService — players talking to each other: `say`, `shout` and `whisper`.
+ *
+ * - say: heard by everyone at the speaker's location.
+ * - shout: heard at the location and up to CHAT_SHOUT_HOPS exits away (breadth-first over the exit graph);
+ *   players nearby hear where it came from ("from the west"), further away only a distant voice.
+ * - whisper: heard by one player at the same location, matched by display name (exact, then unique prefix).
+ *
+ * Every message passes the chat rate limiter (rateLimiters.chat, per player) and the content filter
+ * before delivery. Delivery is a live `chat.message` event on the listeners' location streams
+ * (LiveEventService). Says and shouts are also kept briefly at their origin (IChatMessageRepository,
+ * CHAT_HISTORY_RETENTION_MS) so players who arrive shortly after see the recent conversation; whispers
+ * are never stored. Player ids are never part of what other players receive.
+ */
+
+import {
+    getOppositeDirection,
+    isDirection,
+    STARTER_LOCATION_ID,
+    type ChatHistoryEntry,
+    type ChatMode,
+    type Direction
+} from '@piquet-h/shared'
+import type { IPlayerRepository } from '@piquet-h/shared/types/playerRepository'
+import { inject, injectable } from 'inversify'
+import { randomUUID } from 'node:crypto'
+import { TOKENS } from '../di/tokens.js'
+import { rateLimiters } from '../middleware/rateLimiter.js'
+import type { IChatMessageRepository } from '../repos/chatMessageRepository.js'
+import type { ILocationRepository } from '../repos/locationRepository.js'
+import { filterChatMessage, CHAT_MAX_LENGTH } from './chatContentFilter.js'
+import { LiveEventService } from './LiveEventService.js'
+import { presenceDisplayName, PresenceService } from './PresenceService.js'
+
+/** How long says and shouts stay in a location's history (10 minutes). */
+export const CHAT_HISTORY_RETENTION_MS = 10 * 60_000
+
+/** Most messages returned as recent history. */
+export const CHAT_HISTORY_LIMIT = 20
+
+const DEFAULT_SHOUT_HOPS = 2
+const MAX_SHOUT_HOPS = 5
+
+/** Exit hops a shout carries beyond the speaker's location (CHAT_SHOUT_HOPS, default 2, at most 5). */
+export function shoutHops(): number {
+    const configured = parseInt(process.env.CHAT_SHOUT_HOPS ?? '', 10)
+    return Number.isNaN(configured) ? DEFAULT_SHOUT_HOPS : Math.min(Math.max(configured, 0), MAX_SHOUT_HOPS)
+}
+
+export type ChatDenialReason =
+    | 'player-not-found'
+    | 'rate-limited'
+    | 'empty-message'
+    | 'message-too-long'
+    | 'missing-recipient'
+    | 'recipient-not-found'
+
+export interface ChatRequestInput {
+    playerId: string
+    mode: ChatMode
+    message: string
+    /** Whisper recipient's display name */
+    to?: string
+    correlationId: string
+}
+
+export type ChatResult =
+    | {
+          success: true
+          mode: ChatMode
+          message: string
+          filtered: boolean
+          heardBy: number
+          /** Locations the message reached (1 unless shouted) */
+          locationsReached: number
+          summary: string
+          locationId: string
+      }
+    | { success: false; reason: ChatDenialReason; message: string; locationId?: string; retryAfterSeconds?: number }
+
+/** Where a shout is heard from, as seen by the listener. */
+function fromPhrase(towardSpeaker: Direction): string {
+    switch (towardSpeaker) {
+        case 'up':
+            return 'above'
+        case 'down':
+            return 'below'
+        case 'in':
+            return 'inside'
+        case 'out':
+            return 'outside'
+        default:
+            return `the ${towardSpeaker}`
+    }
+}
+
+@injectable()
+export class ChatService {
+    constructor(
+        @inject(TOKENS.PlayerRepository) private readonly playerRepo: IPlayerRepository,
+        @inject(TOKENS.LocationRepository) private readonly locationRepo: ILocationRepository,
+        @inject(TOKENS.ChatMessageRepository) private readonly chatRepo: IChatMessageRepository,
+        @inject(PresenceService) private readonly presence: PresenceService,
+        @inject(LiveEventService) private readonly liveEvents: LiveEventService
+    ) {}
+
+    /** Filter, rate-limit and deliver a player's message. */
+    async send(request: ChatRequestInput): Promise<ChatResult> {
+        const { playerId, mode, correlationId } = request
+        const player = await this.playerRepo.get(playerId)
+        if (!player) {
+            return { success: false, reason: 'player-not-found', message: 'Player not found' }
+        }
+        const locationId = player.currentLocationId || STARTER_LOCATION_ID
+
+        if (!rateLimiters.chat.check(`player:${playerId}`)) {
+            const retryAfterSeconds = rateLimiters.chat.getResetTime(`player:${playerId}`)
+            return {
+                success: false,
+                reason: 'rate-limited',
+                message: `You are talking too fast. Try again in ${retryAfterSeconds} seconds.`,
+                locationId,
+                retryAfterSeconds
+            }
+        }
+
+        const filtered = filterChatMessage(request.message ?? '')
+        if (!filtered.allowed) {
+            return filtered.reason === 'empty'
+                ? { success: false, reason: 'empty-message', message: `What do you want to ${mode}?`, locationId }
+                : {
+                      success: false,
+                      reason: 'message-too-long',
+                      message: `Messages can be at most ${CHAT_MAX_LENGTH} characters.`,
+                      locationId
+                  }
+        }
+
+        const name = presenceDisplayName(player)
+        const text = filtered.text
+        const live = { actorPlayerId: playerId, correlationId }
+        const base = { mode, message: text, filtered: filtered.filtered, locationId }
+
+        if (mode === 'whisper') {
+            const wanted = request.to?.trim().toLowerCase()
+            if (!wanted) {
+                return { success: false, reason: 'missing-recipient', message: 'Whisper to whom?', locationId }
+            }
+            const here = await this.presence.listPlayersAt(locationId, playerId)
+            const exact = here.filter((p) => p.name.toLowerCase() === wanted)
+            const prefix = here.filter((p) => p.name.toLowerCase().startsWith(wanted))
+            const recipient = exact[0] ?? (prefix.length === 1 ? prefix[0] : undefined)
+            if (!recipient) {
+                return {
+                    success: false,
+                    reason: 'recipient-not-found',
+                    message: `There is no one called ${request.to?.trim()} here.`,
+                    locationId
+                }
+            }
+            this.liveEvents.publish(
+                { kind: 'chat.message', locationId, text: `${name} whispers to you, "${text}"`, actorName: name, chatMode: mode },
+                { ...live, recipientPlayerId: recipient.id }
+            )
+            return {
+                success: true,
+                ...base,
+                heardBy: 1,
+                locationsReached: 1,
+                summary: `You whisper to ${recipient.name}, "${text}"`
+            }
+        }
+
+        const verb = mode === 'shout' ? 'shouts' : 'says'
+        this.liveEvents.publish(
+            { kind: 'chat.message', locationId, text: `${name} ${verb}, "${text}"`, actorName: name, chatMode: mode },
+            live
+        )
+        let heardBy = (await this.presence.listPlayersAt(locationId, playerId)).length
+        let locationsReached = 1
+
+        if (mode === 'shout') {
+            for (const { id, hops, towardSpeaker } of await this.locationsWithinEarshot(locationId, shoutHops())) {
+                const line =
+                    hops === 1
+                        ? { text: `${name} shouts from ${fromPhrase(towardSpeaker)}, "${text}"`, actorName: name }
+                        : { text: `A distant voice shouts from ${fromPhrase(towardSpeaker)}, "${text}"` }
+                this.liveEvents.publish({ kind: 'chat.message', locationId: id, chatMode: mode, ...line }, live)
+                heardBy += (await this.presence.listPlayersAt(id, playerId)).length
+                locationsReached++
+            }
+        }
+
+        const sentUtc = new Date().toISOString()
+        await this.chatRepo.append({
+            id: randomUUID(),
+            locationId,
+            mode,
+            speakerId: playerId,
+            speakerName: name,
+            text,
+            sentUtc,
+            ttl: CHAT_HISTORY_RETENTION_MS / 1000
+        })
+
+        return {
+            success: true,
+            ...base,
+            heardBy,
+            locationsReached,
+            summary: mode === 'shout' ? `You shout, "${text}"` : `You say, "${text}"`
+        }
+    }
+
+    /** Recent says and shouts at the player's location, oldest first. */
+    async recentAt(playerId: string): Promise<{ locationId: string; messages: ChatHistoryEntry[] } | null> {
+        const player = await this.playerRepo.get(playerId)
+        if (!player) return null
+        const locationId = player.currentLocationId || STARTER_LOCATION_ID
+        const since = new Date(Date.now() - CHAT_HISTORY_RETENTION_MS).toISOString()
+        const recent = await this.chatRepo.listRecent(locationId, since, CHAT_HISTORY_LIMIT)
+        return {
+            locationId,
+            messages: recent.reverse().map(({ mode, speakerName, text, sentUtc }) => ({ mode, speakerName, text, sentUtc }))
+        }
+    }
+
+    /**
+     * Locations within `maxHops` exits of the origin (origin excluded), nearest first, with the direction
+     * a listener there would face to hear the speaker (back along the exit the sound came through).
+     */
+    private async locationsWithinEarshot(
+        originId: string,
+        maxHops: number
+    ): Promise<Array<{ id: string; hops: number; towardSpeaker: Direction }>> {
+        const reached: Array<{ id: string; hops: number; towardSpeaker: Direction }> = []
+        const seen = new Set([originId])
+        let frontier = [originId]
+        for (let hops = 1; hops <= maxHops && frontier.length > 0; hops++) {
+            const next: string[] = []
+            for (const fromId of frontier) {
+                const from = await this.locationRepo.get(fromId)
+                for (const exit of from?.exits ?? []) {
+                    if (!exit.to || seen.has(exit.to) || !isDirection(exit.direction)) continue
+                    seen.add(exit.to)
+                    next.push(exit.to)
+                    reached.push({ id: exit.to, hops, towardSpeaker: getOppositeDirection(exit.direction) })
+                }
+            }
+            frontier = next
+        }
+        return reached
+    }
+}
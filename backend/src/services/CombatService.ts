@@ -0,0 +1,448 @@
+/**
+ * CombatService — turn-based encounters for the `attack`, `defend` and `flee` commands.
+ *
+ * Each command resolves one round: the player acts, then the NPC answers if it is still standing
+ * (and the player did not get away). Every die comes from a shared-rules DiceRoller seeded with
+ * `{playerId}:{npcId}:{encounterId}:{round}`, so replaying a round with the same state yields the
+ * same rolls and outcome. AI never decides anything here; narration is layered on by the caller.
+ *
+ * State lives in entity attributes (no separate encounter container):
+ *   - player (PlayerDoc.attributes): hp, maxHp, armorClass, attackBonus, encounterId, encounterNpcId, encounterRound
+ *   - npc (NpcEntity.attributes): hp, maxHp, armorClass, attackBonus, defeated
+ *
+ * A player at 0 HP is defeated and cannot fight until their HP is restored. A beaten NPC is marked
+ * `defeated` and stays idle on NPC.Tick. Each round is enqueued as a Combat.Round world event
+ * (non-blocking) with the full roll log.
+ */
+
+import {
+    abilityCheck,
+    attackRoll,
+    DiceRoller,
+    isDirection,
+    safeValidateActionIntent,
+    STARTER_LOCATION_ID,
+    type ActionIntent,
+    type CombatAction,
+    type CombatRoll,
+    type Direction,
+    type EncounterOutcome,
+    type HitPoints,
+    type NpcEntity
+} from '@piquet-h/shared'
+import type { WorldEventEnvelope } from '@piquet-h/shared/events'
+import type { IPlayerRepository } from '@piquet-h/shared/types/playerRepository'
+import { inject, injectable } from 'inversify'
+import { v4 as uuidv4 } from 'uuid'
+import { TOKENS } from '../di/tokens.js'
+import type { ILocationRepository } from '../repos/locationRepository.js'
+import type { INpcRepository } from '../repos/npcRepository.js'
+import type { IPlayerDocRepository } from '../repos/PlayerDocRepository.js'
+import { TelemetryService } from '../telemetry/TelemetryService.js'
+import type { IWorldEventPublisher } from '../worldEvents/worldEventPublisher.js'
+import { DiscoveryService } from './DiscoveryService.js'
+import { hashString } from './NpcBehaviorService.js'
+import { PresenceService } from './PresenceService.js'
+import { QuestProgressService } from './QuestProgressService.js'
+import { findItemByReference } from './worldItemTransfers.js'
+
+/** Combat stats read from attributes; missing values fall back to the defaults below. */
+export interface CombatStats {
+    maxHp: number
+    armorClass: number
+    attackBonus: number
+    /** Damage die size (d6 → 6) */
+    damageDie: number
+    damageBonus: number
+}
+
+export const DEFAULT_PLAYER_STATS: CombatStats = { maxHp: 20, armorClass: 12, attackBonus: 3, damageDie: 8, damageBonus: 1 }
+export const DEFAULT_NPC_STATS: CombatStats = { maxHp: 12, armorClass: 11, attackBonus: 2, damageDie: 6, damageBonus: 0 }
+
+/** Armor class bonus against the NPC's counterattack in a round the player defends. */
+export const DEFEND_AC_BONUS = 4
+
+/** d20 check (no modifier) needed to break away through an exit. */
+export const FLEE_DC = 10
+
+export type CombatDenialReason =
+    | 'player-not-found'
+    | 'player-defeated'
+    | 'npc-not-found'
+    | 'target-defeated'
+    | 'not-in-combat'
+    | 'invalid-direction'
+    | 'no-exit'
+    | 'exit-locked'
+    | 'no-escape'
+
+export interface CombatRoundResolution {
+    action: CombatAction
+    npc: NpcEntity
+    round: number
+    outcome: EncounterOutcome
+    player: HitPoints
+    npcHp: HitPoints
+    rolls: CombatRoll[]
+    summary: string
+    /** Where the fight took place */
+    encounterLocationId: string
+    /** Where the player is after the round */
+    locationId: string
+    direction?: Direction
+}
+
+export type CombatResult =
+    | ({ success: true } & CombatRoundResolution)
+    | { success: false; reason: CombatDenialReason; message: string; locationId?: string }
+
+export interface CombatRequest {
+    playerId: string
+    action: CombatAction
+    /** NPC id or name (attack only; defaults to the current opponent) */
+    npcReference?: string
+    /** Exit to flee through (flee only; defaults to any unlocked exit) */
+    direction?: string
+    /** Optional ActionIntent from the resolve-player-command step (recorded on the world event) */
+    actionIntent?: unknown
+    correlationId: string
+}
+
+export interface PlayerCombatStatus {
+    health: number
+    maxHealth: number
+    defeated: boolean
+    encounter?: { npcId: string; npcName?: string; round: number }
+}
+
+type Attributes = Record<string, number | string | boolean>
+
+function readNumber(attributes: Attributes | undefined, key: string, fallback: number): number {
+    const value = attributes?.[key]
+    return typeof value === 'number' && Number.isFinite(value) ? value : fallback
+}
+
+/** Combat stats from an attribute bag, with defaults for anything missing. */
+export function readCombatStats(attributes: Attributes | undefined, defaults: CombatStats): CombatStats {
+    return {
+        maxHp: readNumber(attributes, 'maxHp', defaults.maxHp),
+        armorClass: readNumber(attributes, 'armorClass', defaults.armorClass),
+        attackBonus: readNumber(attributes, 'attackBonus', defaults.attackBonus),
+        damageDie: readNumber(attributes, 'damageDie', defaults.damageDie),
+        damageBonus: readNumber(attributes, 'damageBonus', defaults.damageBonus)
+    }
+}
+
+/** Current HP (clamped to [0, maxHp]); entities that never fought are at full health. */
+export function readHitPoints(attributes: Attributes | undefined, defaults: CombatStats): HitPoints {
+    const maxHp = readNumber(attributes, 'maxHp', defaults.maxHp)
+    const hp = Math.min(maxHp, Math.max(0, readNumber(attributes, 'hp', maxHp)))
+    return { hp, maxHp }
+}
+
+export function isNpcDefeated(npc: Pick<NpcEntity, 'attributes'>): boolean {
+    return npc.attributes?.defeated === true
+}
+
+/** ActionIntent recorded when the caller did not supply one from the resolve step. */
+function buildFallbackIntent(resolution: CombatRoundResolution): ActionIntent {
+    const { action, npc, direction } = resolution
+    if (action === 'attack') {
+        return {
+            rawInput: `attack ${npc.name}`,
+            parsedIntent: { verb: action, targets: [{ kind: 'npc', id: npc.id, name: npc.name }] },
+            validationResult: { success: true }
+        }
+    }
+    if (direction) {
+        return {
+            rawInput: `${action} ${direction}`,
+            parsedIntent: { verb: action, targets: [{ kind: 'direction', canonicalDirection: direction }] },
+            validationResult: { success: true }
+        }
+    }
+    return { rawInput: action, parsedIntent: { verb: action }, validationResult: { success: true } }
+}
+
+/** Player attributes that track the current fight (cleared when it ends). */
+const ENCOUNTER_ATTRIBUTES: readonly string[] = ['encounterId', 'encounterNpcId', 'encounterRound']
+
+function withoutEncounter(attributes: Attributes): Attributes {
+    return Object.fromEntries(Object.entries(attributes).filter(([key]) => !ENCOUNTER_ATTRIBUTES.includes(key)))
+}
+
+@injectable()
+export class CombatService {
+    constructor(
+        @inject(TOKENS.PlayerRepository) private readonly playerRepo: IPlayerRepository,
+        @inject(TOKENS.PlayerDocRepository) private readonly playerDocRepo: IPlayerDocRepository,
+        @inject(TOKENS.NpcRepository) private readonly npcRepo: INpcRepository,
+        @inject(TOKENS.LocationRepository) private readonly locationRepo: ILocationRepository,
+        @inject(TOKENS.WorldEventPublisher) private readonly eventPublisher: IWorldEventPublisher,
+        @inject(QuestProgressService) private readonly questProgress: QuestProgressService,
+        @inject(PresenceService) private readonly presence: PresenceService,
+        @inject(DiscoveryService) private readonly discovery: DiscoveryService,
+        @inject(TelemetryService) private readonly telemetry: TelemetryService
+    ) {}
+
+    /** Health and current encounter for the status panel, or null if the player is unknown. */
+    async getStatus(playerId: string): Promise<PlayerCombatStatus | null> {
+        const doc = await this.playerDocRepo.getPlayer(playerId)
+        if (!doc) return null
+
+        const { hp, maxHp } = readHitPoints(doc.attributes, DEFAULT_PLAYER_STATS)
+        const status: PlayerCombatStatus = { health: hp, maxHealth: maxHp, defeated: hp <= 0 }
+        const npcId = doc.attributes?.encounterNpcId
+        if (typeof npcId === 'string' && npcId) {
+            const npc = await this.npcRepo.getNpc(npcId)
+            status.encounter = { npcId, ...(npc ? { npcName: npc.name } : {}), round: readNumber(doc.attributes, 'encounterRound', 0) }
+        }
+        return status
+    }
+
+    /** Resolve one round of the player's encounter (starting one when attacking a new opponent). */
+    async resolveRound(request: CombatRequest): Promise<CombatResult> {
+        const { playerId, action } = request
+        const player = await this.playerRepo.get(playerId)
+        const doc = player ? await this.playerDocRepo.getPlayer(playerId) : null
+        if (!player || !doc) {
+            return { success: false, reason: 'player-not-found', message: 'Player not found' }
+        }
+
+        const locationId = player.currentLocationId || STARTER_LOCATION_ID
+        const playerAttributes: Attributes = { ...(doc.attributes ?? {}) }
+        const playerStats = readCombatStats(playerAttributes, DEFAULT_PLAYER_STATS)
+        const playerHp = readHitPoints(playerAttributes, DEFAULT_PLAYER_STATS)
+        if (playerHp.hp <= 0) {
+            return { success: false, reason: 'player-defeated', message: 'You are too badly hurt to fight.', locationId }
+        }
+
+        const opponent = await this.findOpponent(request, playerAttributes, locationId)
+        if (!opponent.success) return opponent
+        const { npc } = opponent
+
+        // Attacking someone new starts a fresh encounter; otherwise continue the current one.
+        const continuing = playerAttributes.encounterNpcId === npc.id && typeof playerAttributes.encounterId === 'string'
+        const encounterId = continuing ? (playerAttributes.encounterId as string) : uuidv4()
+        const round = continuing ? readNumber(playerAttributes, 'encounterRound', 0) + 1 : 1
+
+        let fleeExit: { direction: Direction; to: string } | undefined
+        if (action === 'flee') {
+            const exit = await this.pickFleeExit(locationId, request.direction, `${playerId}:${npc.id}:${encounterId}:${round}`)
+            if (!exit.success) return exit
+            fleeExit = exit
+        }
+
+        const roller = new DiceRoller(`${playerId}:${npc.id}:${encounterId}:${round}`)
+        const npcStats = readCombatStats(npc.attributes, DEFAULT_NPC_STATS)
+        const npcHp = readHitPoints(npc.attributes, DEFAULT_NPC_STATS)
+        const rolls: CombatRoll[] = []
+        const lines: string[] = []
+        let fled = false
+
+        if (action === 'attack') {
+            const damage = this.attack(roller, 'player', playerStats, npcStats.armorClass, rolls)
+            npcHp.hp = Math.max(0, npcHp.hp - damage)
+            lines.push(damage > 0 ? `You hit ${npc.name} for ${damage} damage.` : `You miss ${npc.name}.`)
+        } else if (action === 'defend') {
+            lines.push('You raise your guard.')
+        } else if (fleeExit) {
+            const check = abilityCheck(roller, { dc: FLEE_DC })
+            fled = check.success
+            rolls.push({ ...check.record, actor: 'player', purpose: 'flee', target: FLEE_DC, success: fled })
+            lines.push(
+                fled
+                    ? `You break away and flee ${fleeExit.direction}.`
+                    : `You try to flee ${fleeExit.direction} but ${npc.name} cuts you off.`
+            )
+        }
+
+        if (npcHp.hp > 0 && !fled) {
+            const armorClass = playerStats.armorClass + (action === 'defend' ? DEFEND_AC_BONUS : 0)
+            const damage = this.attack(roller, 'npc', npcStats, armorClass, rolls)
+            playerHp.hp = Math.max(0, playerHp.hp - damage)
+            lines.push(damage > 0 ? `${npc.name} hits you for ${damage} damage.` : `${npc.name} misses you.`)
+        }
+
+        let outcome: EncounterOutcome = 'ongoing'
+        if (npcHp.hp <= 0) {
+            outcome = 'won'
+            lines.push(`${npc.name} is defeated.`)
+        } else if (playerHp.hp <= 0) {
+            outcome = 'lost'
+            lines.push('You collapse, defeated.')
+        } else if (fled) {
+            outcome = 'fled'
+        }
+
+        // Persist: NPC first (its HP is the shared resource), then the player's HP and encounter.
+        const npcAttributes: Attributes = { ...(npc.attributes ?? {}), hp: npcHp.hp, maxHp: npcHp.maxHp }
+        if (outcome === 'won') npcAttributes.defeated = true
+        const updatedNpc = await this.npcRepo.upsertNpc({ ...npc, attributes: npcAttributes })
+
+        // Only the combat attributes are written, over the latest doc, so concurrent writers keep their fields.
+        await this.playerDocRepo.patchPlayer(playerId, (current) => {
+            const currentAttributes: Attributes = { ...(current.attributes ?? {}) }
+            const attributes: Attributes =
+                outcome === 'ongoing'
+                    ? { ...currentAttributes, encounterId, encounterNpcId: npc.id, encounterRound: round }
+                    : withoutEncounter(currentAttributes)
+            attributes.hp = playerHp.hp
+            attributes.maxHp = playerHp.maxHp
+            return { attributes }
+        })
+
+        let currentLocationId = locationId
+        if (fled && fleeExit) {
+            await this.playerRepo.update({ ...player, currentLocationId: fleeExit.to })
+            await this.presence.recordPresence(player, fleeExit.to, 'flee', request.correlationId)
+            currentLocationId = fleeExit.to
+            const destination = await this.locationRepo.get(fleeExit.to)
+            if (destination) await this.discovery.recordSighting(playerId, destination, 'move', request.correlationId)
+            await this.questProgress.recordProgress(
+                playerId,
+                { kind: 'visit', targetId: fleeExit.to, targetName: destination?.name },
+                request.correlationId
+            )
+        }
+
+        const resolution: CombatRoundResolution = {
+            action,
+            npc: updatedNpc,
+            round,
+            outcome,
+            player: playerHp,
+            npcHp,
+            rolls,
+            summary: lines.join(' '),
+            encounterLocationId: locationId,
+            locationId: currentLocationId,
+            ...(fled && fleeExit ? { direction: fleeExit.direction } : {})
+        }
+        await this.publishRound(request, resolution, encounterId)
+        return { success: true, ...resolution }
+    }
+
+    // ------------------------------------------------------------------
+    // Private helpers
+    // ------------------------------------------------------------------
+
+    /** d20 + bonus against armor class; returns damage dealt (0 on a miss). Natural 20 hits and doubles the dice; natural 1 misses. */
+    private attack(roller: DiceRoller, actor: 'player' | 'npc', stats: CombatStats, armorClass: number, rolls: CombatRoll[]): number {
+        const result = attackRoll(roller, { attackBonus: stats.attackBonus, armorClass })
+        rolls.push({ ...result.record, actor, purpose: 'attack', target: armorClass, success: result.hit })
+        if (!result.hit) return 0
+
+        const damageRoll = roller.roll({ count: result.critical ? 2 : 1, sides: stats.damageDie, modifier: stats.damageBonus })
+        const damage = Math.max(1, damageRoll.total)
+        rolls.push({ ...damageRoll, actor, purpose: 'damage', total: damage })
+        return damage
+    }
+
+    private async findOpponent(
+        request: CombatRequest,
+        playerAttributes: Attributes,
+        locationId: string
+    ): Promise<{ success: true; npc: NpcEntity } | Extract<CombatResult, { success: false }>> {
+        const reference = request.npcReference?.trim()
+        const encounterNpcId = typeof playerAttributes.encounterNpcId === 'string' ? playerAttributes.encounterNpcId : undefined
+
+        if (request.action === 'attack' && reference) {
+            const npcsHere = await this.npcRepo.listNpcsAtLocation(locationId)
+            const npc = findItemByReference(npcsHere, reference, (n) => n.name)
+            if (!npc) {
+                return { success: false, reason: 'npc-not-found', message: `You don't see "${reference}" here.`, locationId }
+            }
+            if (isNpcDefeated(npc)) {
+                return { success: false, reason: 'target-defeated', message: `${npc.name} is already beaten.`, locationId }
+            }
+            return { success: true, npc }
+        }
+
+        const npc = encounterNpcId ? await this.npcRepo.getNpc(encounterNpcId) : null
+        if (!npc || npc.locationId !== locationId || isNpcDefeated(npc)) {
+            return {
+                success: false,
+                reason: 'not-in-combat',
+                message: request.action === 'attack' ? 'Attack whom?' : "You aren't fighting anyone.",
+                locationId
+            }
+        }
+        return { success: true, npc }
+    }
+
+    /** Named exit (must exist and be unlocked) or, without a direction, one unlocked exit picked from the round seed. */
+    private async pickFleeExit(
+        locationId: string,
+        requested: string | undefined,
+        seed: string
+    ): Promise<{ success: true; direction: Direction; to: string } | Extract<CombatResult, { success: false }>> {
+        const location = await this.locationRepo.get(locationId)
+        const exits = (location?.exits ?? []).filter((e): e is typeof e & { to: string } => !!e.to)
+
+        const direction = requested?.trim().toLowerCase()
+        if (direction) {
+            if (!isDirection(direction)) {
+                return { success: false, reason: 'invalid-direction', message: `"${requested}" is not a direction.`, locationId }
+            }
+            const exit = exits.find((e) => e.direction === direction)
+            if (!exit) {
+                return { success: false, reason: 'no-exit', message: `There is no way ${direction} to flee.`, locationId }
+            }
+            if (exit.lockState === 'locked') {
+                return { success: false, reason: 'exit-locked', message: `The way ${direction} is locked.`, locationId }
+            }
+            return { success: true, direction, to: exit.to }
+        }
+
+        const open = exits.filter((e): e is typeof e & { direction: Direction } => e.lockState !== 'locked' && isDirection(e.direction))
+        if (open.length === 0) {
+            return { success: false, reason: 'no-escape', message: 'There is nowhere to run.', locationId }
+        }
+        const exit = open[hashString(`${seed}:flee`) % open.length]
+        return { success: true, direction: exit.direction, to: exit.to }
+    }
+
+    private async publishRound(request: CombatRequest, resolution: CombatRoundResolution, encounterId: string): Promise<void> {
+        const { playerId } = request
+        const { npc, round, action } = resolution
+        const supplied = safeValidateActionIntent(request.actionIntent)
+        const actionIntent: ActionIntent = supplied.success ? supplied.data : buildFallbackIntent(resolution)
+
+        const seed = `${playerId}:${npc.id}:${encounterId}:${round}`
+        const event: WorldEventEnvelope = {
+            eventId: uuidv4(),
+            type: 'Combat.Round',
+            occurredUtc: new Date().toISOString(),
+            actor: { kind: 'player', id: playerId },
+            correlationId: request.correlationId,
+            idempotencyKey: `combat:${seed}`,
+            version: 1,
+            payload: {
+                playerId,
+                npcId: npc.id,
+                locationId: resolution.encounterLocationId,
+                action,
+                round,
+                seed,
+                rolls: resolution.rolls,
+                outcome: resolution.outcome,
+                playerHp: resolution.player.hp,
+                npcHp: resolution.npcHp.hp,
+                ...(resolution.outcome === 'fled' ? { toLocationId: resolution.locationId } : {}),
+                actionIntent
+            }
+        }
+
+        try {
+            await this.eventPublisher.enqueueEvents([event])
+        } catch (error) {
+            // Non-blocking: the round is already durable; event enqueue failures must not fail the request.
+            this.telemetry.trackGameEvent(
+                'World.Event.EnqueueFailed',
+                { eventType: event.type, playerId: request.playerId, error: error instanceof Error ? error.message : String(error) },
+                { correlationId: request.correlationId }
+            )
+        }
+    }
+}
@@ -0,0 +1,226 @@
+/**
+ * CommandClarificationService — the follow-up loop for commands that cannot run as typed.
+ *
+ * When a command is missing its direction or target ("go", "take") or names a target that matches
+ * several things here ("take the coin" with a gold and a silver coin), the resolver asks a numbered
+ * question built from the player's surroundings and stores it (one open question per player).
+ * The player's next command is first offered to the open question: an option number, an option
+ * name or a short phrase ("2", "the seagull", "north") fills the stored intent, which is then
+ * resolved as if it had been typed in full. Questions are dropped once they expire, when the next
+ * command is unrelated, or when the client runs a command of its own (look, inventory, who…) instead.
+ */
+
+import {
+    normalizeDirection,
+    STARTER_LOCATION_ID,
+    type ClarificationSlot,
+    type Direction,
+    type Intent,
+    type PendingClarification
+} from '@piquet-h/shared'
+import type { IPlayerRepository } from '@piquet-h/shared/types/playerRepository'
+import { inject, injectable } from 'inversify'
+import { TOKENS } from '../di/tokens.js'
+import type { IInventoryRepository } from '../repos/inventoryRepository.js'
+import type { ILocationRepository } from '../repos/locationRepository.js'
+import type { INpcRepository } from '../repos/npcRepository.js'
+import type { IPendingClarificationRepository } from '../repos/pendingClarificationRepository.js'
+import type { IWorldItemRepository } from '../repos/worldItemRepository.js'
+import { isNpcDefeated } from './CombatService.js'
+import { toWorldItem } from './worldItemTransfers.js'
+
+/** How long a question stays open. */
+export const CLARIFICATION_TTL_MS = 120_000
+
+/** Options offered per question (single-digit answers). */
+export const MAX_CLARIFICATION_OPTIONS = 9
+
+/** How a player's answer matched the open question. */
+export type ClarificationAnswerKind = 'number' | 'option' | 'direction'
+
+export type ClarificationAnswer =
+    /** No open question for this player. */
+    | { kind: 'none' }
+    /** The answer filled the question; `intent` is ready to resolve. */
+    | { kind: 'resolved'; pending: PendingClarification; intent: Intent; answerKind: ClarificationAnswerKind }
+    /** The answer narrowed (or missed) the options; the returned question replaces the old one. */
+    | { kind: 'asked'; pending: PendingClarification }
+    /** The question was discarded; the input should be resolved as a new command. */
+    | { kind: 'dropped'; pending: PendingClarification; reason: 'expired' | 'superseded' }
+
+const LEADING_ARTICLE = /^(?:the|a|an)\s+/i
+
+function words(text: string): string[] {
+    return text
+        .toLowerCase()
+        .split(/\s+/)
+        .filter((w) => w && w !== 'the' && w !== 'a' && w !== 'an')
+}
+
+/** Options whose name contains every word of the reference (an exact name match wins outright). */
+function matchOptions(options: string[], reference: string): string[] {
+    const ref = reference.trim().toLowerCase().replace(LEADING_ARTICLE, '')
+    const exact = options.find((o) => o.toLowerCase() === ref)
+    if (exact) return [exact]
+    const refWords = words(ref)
+    if (refWords.length === 0) return []
+    return options.filter((o) => refWords.every((w) => o.toLowerCase().includes(w)))
+}
+
+@injectable()
+export class CommandClarificationService {
+    constructor(
+        @inject(TOKENS.PendingClarificationRepository) private readonly pendingRepo: IPendingClarificationRepository,
+        @inject(TOKENS.PlayerRepository) private readonly playerRepo: IPlayerRepository,
+        @inject(TOKENS.LocationRepository) private readonly locationRepo: ILocationRepository,
+        @inject(TOKENS.WorldItemRepository) private readonly worldItemRepo: IWorldItemRepository,
+        @inject(TOKENS.InventoryRepository) private readonly inventoryRepo: IInventoryRepository,
+        @inject(TOKENS.NpcRepository) private readonly npcRepo: INpcRepository
+    ) {}
+
+    /**
+     * Ask a question about `intent` if it cannot run as typed, replacing any open question.
+     * Returns null when the intent is complete and unambiguous, or when there is nothing to offer.
+     */
+    async ask(playerId: string, rawInput: string, intent: Intent): Promise<PendingClarification | null> {
+        const question = await this.buildQuestion(playerId, intent)
+        if (!question || question.options.length === 0) return null
+
+        const now = Date.now()
+        return this.pendingRepo.upsertPending({
+            id: playerId,
+            playerId,
+            rawInput,
+            intent,
+            slot: question.slot,
+            prompt: question.prompt,
+            options: question.options.slice(0, MAX_CLARIFICATION_OPTIONS),
+            createdAt: new Date(now).toISOString(),
+            expiresAt: new Date(now + CLARIFICATION_TTL_MS).toISOString(),
+            ttl: Math.ceil(CLARIFICATION_TTL_MS / 1000) + 60
+        })
+    }
+
+    /**
+     * Offer the player's input to their open question (if any).
+     * @param isCommand - true when the input parsed to intents of its own ("look", "go north"); such input replaces the question
+     */
+    async answer(playerId: string, input: string, isCommand: boolean): Promise<ClarificationAnswer> {
+        const pending = await this.pendingRepo.getPending(playerId)
+        if (!pending) return { kind: 'none' }
+
+        if (Date.parse(pending.expiresAt) <= Date.now()) {
+            await this.pendingRepo.deletePending(playerId)
+            return { kind: 'dropped', pending, reason: 'expired' }
+        }
+
+        const text = input.trim()
+        if (/^\d+$/.test(text)) {
+            const choice = pending.options[Number(text) - 1]
+            if (!choice) return { kind: 'asked', pending }
+            await this.pendingRepo.deletePending(playerId)
+            return { kind: 'resolved', pending, intent: this.fill(pending, choice), answerKind: 'number' }
+        }
+
+        if (!isCommand) {
+            const matches = matchOptions(pending.options, text)
+            if (matches.length === 1) {
+                await this.pendingRepo.deletePending(playerId)
+                return { kind: 'resolved', pending, intent: this.fill(pending, matches[0]), answerKind: 'option' }
+            }
+            if (matches.length > 1) {
+                const narrowed = await this.pendingRepo.upsertPending({ ...pending, options: matches })
+                return { kind: 'asked', pending: narrowed }
+            }
+            if (pending.slot === 'direction') {
+                const direction = normalizeDirection(text)
+                if ((direction.status === 'ok' || direction.status === 'generate') && direction.canonical) {
+                    await this.pendingRepo.deletePending(playerId)
+                    return { kind: 'resolved', pending, intent: this.fill(pending, direction.canonical), answerKind: 'direction' }
+                }
+            }
+        }
+
+        await this.pendingRepo.deletePending(playerId)
+        return { kind: 'dropped', pending, reason: 'superseded' }
+    }
+
+    /**
+     * Discard the player's open question without answering it (the player ran a command that never reaches the resolver).
+     * @returns The discarded question, or null if none was open
+     */
+    async discard(playerId: string): Promise<PendingClarification | null> {
+        const pending = await this.pendingRepo.getPending(playerId)
+        if (!pending) return null
+        await this.pendingRepo.deletePending(playerId)
+        return pending
+    }
+
+    /** Write the answer into the stored intent (direction options are exit directions, so always canonical). */
+    private fill(pending: PendingClarification, answer: string): Intent {
+        return pending.slot === 'direction'
+            ? { ...pending.intent, direction: answer as Direction }
+            : { ...pending.intent, surfaceTargetName: answer }
+    }
+
+    /**
+     * Decide what (if anything) to ask about an intent:
+     * - move / lock / unlock without a direction → the exits here (lockable / locked ones for lock / unlock)
+     * - take / drop / talk without a target → items here / carried items / NPCs here
+     * - take / drop / talk / attack naming several things here → the matching names
+     */
+    private async buildQuestion(
+        playerId: string,
+        intent: Intent
+    ): Promise<{ slot: ClarificationSlot; prompt: string; options: string[] } | null> {
+        const { verb } = intent
+        const needsDirection = verb === 'move' || verb === 'lock' || verb === 'unlock'
+        const targetVerb = verb === 'take' || verb === 'drop' || verb === 'communicate' || verb === 'attack'
+        if (!(needsDirection && !intent.direction) && !targetVerb) return null
+
+        const player = await this.playerRepo.get(playerId)
+        if (!player) return null
+        const locationId = player.currentLocationId || STARTER_LOCATION_ID
+
+        if (needsDirection) {
+            const exits = (await this.locationRepo.get(locationId))?.exits ?? []
+            const usable =
+                verb === 'lock'
+                    ? exits.filter((e) => e.lockState !== 'locked')
+                    : verb === 'unlock'
+                      ? exits.filter((e) => e.lockState === 'locked')
+                      : exits.filter((e) => e.to)
+            const prompt = verb === 'move' ? 'Which way do you want to go?' : `Which way do you want to ${verb}?`
+            return { slot: 'direction', prompt, options: usable.map((e) => e.direction) }
+        }
+
+        const candidates = await this.targetNames(playerId, locationId, verb)
+        const reference = intent.surfaceTargetName
+        if (!reference) {
+            // A bare `attack` continues the current fight, so only the other verbs need a target.
+            if (verb === 'attack') return null
+            const prompt =
+                verb === 'take'
+                    ? 'What do you want to take?'
+                    : verb === 'drop'
+                      ? 'What do you want to drop?'
+                      : 'Who do you want to talk to?'
+            return { slot: 'target', prompt, options: candidates }
+        }
+
+        const matches = matchOptions(candidates, reference)
+        if (matches.length < 2) return null
+        return { slot: 'target', prompt: `Which ${reference.replace(LEADING_ARTICLE, '')} do you mean?`, options: matches }
+    }
+
+    private async targetNames(playerId: string, locationId: string, verb: Intent['verb']): Promise<string[]> {
+        if (verb === 'take') {
+            return (await this.worldItemRepo.listItemsAtLocation(locationId)).map((i) => i.name)
+        }
+        if (verb === 'drop') {
+            return (await this.inventoryRepo.listItems(playerId)).map((i) => toWorldItem(i, locationId).name)
+        }
+        const npcs = await this.npcRepo.listNpcsAtLocation(locationId)
+        return npcs.filter((n) => verb !== 'attack' || !isNpcDefeated(n)).map((n) => n.name)
+    }
+}
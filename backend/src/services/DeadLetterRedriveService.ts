@@ -0,0 +1,174 @@
+/**
+ * DeadLetterRedriveService — inspecting dead-lettered world events and publishing them again.
+ *
+ * Records are found by time window, event type and error code (IDeadLetterRepository.queryByFilter) and re-validated
+ * against the current WorldEventEnvelopeSchema. Validation uses the unredacted envelope kept for redrive, which the
+ * repository stores apart from the redacted record (IDeadLetterRepository.getRedriveEnvelope): the world event
+ * processor and its handlers keep it; unparseable messages and other producers do not, so those records cannot be
+ * redriven. Operators only ever see the redacted record.
+ *
+ * Redrive publishes the kept envelope through IWorldEventPublisher as a new event: a new eventId, the
+ * dead-letter record id as causationId, the original correlationId, and idempotency key `redrive:<recordId>`. The
+ * original key cannot be reused (a handler rejection still registers it as processed), and one fixed key per
+ * record means a record redriven twice by racing operators is collapsed by the processor. Each attempt is
+ * appended to the record's redriveAttempts, so the record shows whether its failure was recovered. A redriven
+ * event that fails again is dead-lettered as a new record.
+ */
+
+import type { DeadLetterRedriveResult, DeadLetterValidation, DeadLetterView, RedriveDeadLettersResponse } from '@piquet-h/shared'
+import {
+    isDeadLetterRedriven,
+    type DeadLetterErrorCode,
+    type DeadLetterRecord,
+    type DeadLetterRedriveAttempt
+} from '@piquet-h/shared/deadLetter'
+import { safeValidateWorldEventEnvelope, type WorldEventEnvelope } from '@piquet-h/shared/events'
+import { inject, injectable } from 'inversify'
+import { randomUUID } from 'node:crypto'
+import { TOKENS } from '../di/tokens.js'
+import type { IDeadLetterRepository } from '../repos/deadLetterRepository.js'
+import { TelemetryService } from '../telemetry/TelemetryService.js'
+import type { IWorldEventPublisher } from '../worldEvents/worldEventPublisher.js'
+
+/** Most records returned when listing. */
+export const DEAD_LETTER_LIST_LIMIT = 100
+
+/** Most records redriven in one request. */
+export const DEAD_LETTER_REDRIVE_LIMIT = 50
+
+/** Time window searched when none is given. */
+export const DEAD_LETTER_DEFAULT_WINDOW_MS = 24 * 60 * 60 * 1000
+
+export interface DeadLetterListFilter {
+    /** Defaults to endUtc minus DEAD_LETTER_DEFAULT_WINDOW_MS */
+    startUtc?: string
+    /** Defaults to now */
+    endUtc?: string
+    eventType?: string
+    errorCode?: DeadLetterErrorCode
+    limit?: number
+}
+
+type Revalidation = { validation: DeadLetterValidation; envelope?: WorldEventEnvelope }
+
+/** Re-validate the kept envelope (null: none was kept) against the current schema. */
+export function revalidateDeadLetter(redriveEnvelope: Record<string, unknown> | null): Revalidation {
+    if (!redriveEnvelope) {
+        return { validation: { status: 'unavailable' } }
+    }
+    const result = safeValidateWorldEventEnvelope(redriveEnvelope)
+    if (!result.success) {
+        const issues = result.error.issues.map((e) => ({ path: String(e.path.join('.')), message: e.message, code: String(e.code) }))
+        return { validation: { status: 'invalid', issues } }
+    }
+    return { validation: { status: 'valid' }, envelope: result.data }
+}
+
+/** The record as operators see it, with the current validation of its kept envelope. */
+export function toDeadLetterView(record: DeadLetterRecord, redriveEnvelope: Record<string, unknown> | null): DeadLetterView {
+    return { ...record, validation: revalidateDeadLetter(redriveEnvelope).validation, redriven: isDeadLetterRedriven(record) }
+}
+
+@injectable()
+export class DeadLetterRedriveService {
+    constructor(
+        @inject(TOKENS.DeadLetterRepository) private readonly deadLetterRepo: IDeadLetterRepository,
+        @inject(TOKENS.WorldEventPublisher) private readonly publisher: IWorldEventPublisher,
+        @inject(TelemetryService) private readonly telemetry: TelemetryService
+    ) {}
+
+    /** Records matching the filter, newest first. */
+    async list(filter: DeadLetterListFilter = {}): Promise<DeadLetterView[]> {
+        const endUtc = filter.endUtc ?? new Date().toISOString()
+        const startUtc = filter.startUtc ?? new Date(Date.parse(endUtc) - DEAD_LETTER_DEFAULT_WINDOW_MS).toISOString()
+        const records = await this.deadLetterRepo.queryByFilter({
+            startUtc,
+            endUtc,
+            eventType: filter.eventType,
+            errorCode: filter.errorCode,
+            maxResults: Math.max(1, Math.min(filter.limit ?? DEAD_LETTER_LIST_LIMIT, DEAD_LETTER_LIST_LIMIT))
+        })
+        return Promise.all(records.map((record) => this.view(record)))
+    }
+
+    async get(id: string): Promise<DeadLetterView | null> {
+        const record = await this.deadLetterRepo.getById(id)
+        return record ? this.view(record) : null
+    }
+
+    /** Redrive each record in turn; results are in request order. */
+    async redrive(ids: string[], correlationId: string): Promise<RedriveDeadLettersResponse> {
+        const results: DeadLetterRedriveResult[] = []
+        for (const id of ids) {
+            results.push(await this.redriveOne(id, correlationId))
+        }
+        return { results, redriven: results.filter((r) => r.outcome === 'redriven').length }
+    }
+
+    private async view(record: DeadLetterRecord): Promise<DeadLetterView> {
+        return toDeadLetterView(record, await this.deadLetterRepo.getRedriveEnvelope(record.id))
+    }
+
+    private async redriveOne(id: string, correlationId: string): Promise<DeadLetterRedriveResult> {
+        const record = await this.deadLetterRepo.getById(id)
+        if (!record) {
+            return { id, outcome: 'not-found', message: 'Dead-letter record not found' }
+        }
+        if (isDeadLetterRedriven(record)) {
+            return { id, outcome: 'already-redriven', message: 'Record was redriven before' }
+        }
+
+        const attempt = await this.attempt(record, correlationId)
+        await this.deadLetterRepo.store({ ...record, redriveAttempts: [...(record.redriveAttempts ?? []), attempt] })
+        this.telemetry.trackGameEvent(
+            'World.Event.DeadLetterRedrive',
+            {
+                recordId: record.id,
+                outcome: attempt.outcome,
+                eventType: record.eventType,
+                ...(attempt.eventId ? { eventId: attempt.eventId, causationId: attempt.causationId } : {})
+            },
+            { correlationId }
+        )
+
+        return {
+            id,
+            outcome: attempt.outcome,
+            ...(attempt.eventId ? { eventId: attempt.eventId, causationId: attempt.causationId } : {}),
+            ...(attempt.message ? { message: attempt.message } : {}),
+            ...(attempt.issues ? { issues: attempt.issues } : {})
+        }
+    }
+
+    /** Re-validate and publish the record's envelope; the attempt to append to the record. */
+    private async attempt(record: DeadLetterRecord, correlationId: string): Promise<DeadLetterRedriveAttempt> {
+        const attemptedUtc = new Date().toISOString()
+        const { validation, envelope } = revalidateDeadLetter(await this.deadLetterRepo.getRedriveEnvelope(record.id))
+        if (validation.status === 'unavailable') {
+            return { attemptedUtc, outcome: 'not-redrivable', correlationId, message: 'No envelope was kept for this record' }
+        }
+        if (!envelope) {
+            return {
+                attemptedUtc,
+                outcome: 'invalid',
+                correlationId,
+                message: 'Envelope fails the current schema',
+                issues: validation.issues
+            }
+        }
+
+        const redriven: WorldEventEnvelope = {
+            ...envelope,
+            eventId: randomUUID(),
+            causationId: record.id,
+            idempotencyKey: `redrive:${record.id}`,
+            ingestedUtc: undefined
+        }
+        try {
+            await this.publisher.enqueueEvents([redriven])
+        } catch (error) {
+            return { attemptedUtc, outcome: 'publish-failed', correlationId, message: String(error) }
+        }
+        return { attemptedUtc, outcome: 'redriven', correlationId, eventId: redriven.eventId, causationId: redriven.causationId }
+    }
+}
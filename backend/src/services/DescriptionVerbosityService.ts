@@ -0,0 +1,78 @@
+/**
+ * DescriptionVerbosityService — the player's brief / verbose / superbrief preference and how it shapes
+ * arrival descriptions.
+ *
+ * The preference is part of the player's preferences on the PlayerDoc (`preferences.verbosity`, absent means
+ * DEFAULT_DESCRIPTION_VERBOSITY), so the commands and the Settings page change the same value. A verbosity stored
+ * on the PlayerDoc itself before preferences existed still applies (see PlayerPreferencesService).
+ * Arrivals (move, travel) show the full compiled description in verbose mode, in brief mode only when the
+ * location is seen for the first time (discovery ledger), and never in superbrief mode; otherwise the prose
+ * is left out and the response says why (`descriptionOmitted`). An explicit look always shows everything.
+ *
+ * Reading the preference is a side concern of the move, so arrivalOmission never throws: on failure the
+ * full description is shown.
+ */
+
+import {
+    DEFAULT_DESCRIPTION_VERBOSITY,
+    resolvePlayerPreferences,
+    type CompiledDescription,
+    type DescriptionVerbosity
+} from '@piquet-h/shared'
+import { inject, injectable } from 'inversify'
+import { TOKENS } from '../di/tokens.js'
+import type { IPlayerDocRepository } from '../repos/PlayerDocRepository.js'
+import { TelemetryService } from '../telemetry/TelemetryService.js'
+import { storedPreferences, withPreferences } from './PlayerPreferencesService.js'
+
+export type DescriptionOmission = 'brief' | 'superbrief'
+
+/** Whether an arrival leaves the prose out under the given verbosity, and if so, which mode did it. */
+export function omissionFor(verbosity: DescriptionVerbosity, firstVisit: boolean): DescriptionOmission | undefined {
+    if (verbosity === 'superbrief') return 'superbrief'
+    if (verbosity === 'brief' && !firstVisit) return 'brief'
+    return undefined
+}
+
+/** The description to send for an arrival: unchanged, or emptied when the prose is omitted. */
+export function arrivalDescription(description: CompiledDescription, omitted: DescriptionOmission | undefined): CompiledDescription {
+    return omitted ? { ...description, text: '', html: '' } : description
+}
+
+@injectable()
+export class DescriptionVerbosityService {
+    constructor(
+        @inject(TOKENS.PlayerDocRepository) private readonly playerDocRepo: IPlayerDocRepository,
+        @inject(TelemetryService) private readonly telemetry: TelemetryService
+    ) {}
+
+    /** The player's verbosity, or null when the player has no PlayerDoc. */
+    async getVerbosity(playerId: string): Promise<DescriptionVerbosity | null> {
+        const doc = await this.playerDocRepo.getPlayer(playerId)
+        if (!doc) return null
+        return resolvePlayerPreferences(storedPreferences(doc)).verbosity
+    }
+
+    /** Store the player's verbosity; returns it, or null when the player has no PlayerDoc. */
+    async setVerbosity(playerId: string, verbosity: DescriptionVerbosity, correlationId?: string): Promise<DescriptionVerbosity | null> {
+        let previous: DescriptionVerbosity | undefined
+        const updated = await this.playerDocRepo.patchPlayer(playerId, (doc) => {
+            previous = resolvePlayerPreferences(storedPreferences(doc)).verbosity
+            return withPreferences(doc, { verbosity })
+        })
+        if (!updated) return null
+        this.telemetry.trackGameEvent('Player.Verbosity.Changed', { playerId, verbosity, previous }, { correlationId })
+        return verbosity
+    }
+
+    /** Whether this player's arrival leaves the prose out (undefined: show the full description). */
+    async arrivalOmission(playerId: string | undefined, firstVisit: boolean): Promise<DescriptionOmission | undefined> {
+        if (!playerId) return undefined
+        try {
+            const verbosity = await this.getVerbosity(playerId)
+            return omissionFor(verbosity ?? DEFAULT_DESCRIPTION_VERBOSITY, firstVisit)
+        } catch {
+            return undefined
+        }
+    }
+}
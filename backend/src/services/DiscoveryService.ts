@@ -0,0 +1,114 @@
+/**
+ * DiscoveryService — the per-player discovery ledger: which locations each player has seen.
+ *
+ * Every successful move (including each travel leg and a flight from combat) and every look by a known
+ * player records a sighting (IDiscoveryRepository). The first sighting stores the world clock tick and
+ * time; later ones bump the visit count and refresh the description hash, so a changed description can
+ * be told apart from a familiar one. The ledger backs the `discoveries` and `journal` commands, `travel to` route planning
+ * and the agents' player context.
+ *
+ * Sightings are a side effect of the action that produced them, so recordSighting never throws:
+ * failures are tracked and swallowed and the calling command still succeeds.
+ */
+
+import type { DiscoverySource, Location, LocationDiscovery } from '@piquet-h/shared'
+import { inject, injectable } from 'inversify'
+import { createHash } from 'node:crypto'
+import { TOKENS } from '../di/tokens.js'
+import { buildDiscoveryId, type IDiscoveryRepository } from '../repos/discoveryRepository.js'
+import { TelemetryService } from '../telemetry/TelemetryService.js'
+import type { IWorldClockService } from './types.js'
+
+/** Most discoveries returned by the journal. */
+export const DISCOVERY_JOURNAL_LIMIT = 20
+
+/** SHA-256 of a location's description, as stored on its ledger entry. */
+export function hashLocationDescription(description: string): string {
+    return createHash('sha256').update(description, 'utf8').digest('hex')
+}
+
+@injectable()
+export class DiscoveryService {
+    constructor(
+        @inject(TOKENS.DiscoveryRepository) private readonly discoveryRepo: IDiscoveryRepository,
+        @inject(TOKENS.WorldClockService) private readonly worldClock: IWorldClockService,
+        @inject(TelemetryService) private readonly telemetry: TelemetryService
+    ) {}
+
+    /** Record that the player has seen the location; returns the updated entry, or null when recording failed. */
+    async recordSighting(
+        playerId: string,
+        location: Pick<Location, 'id' | 'name' | 'description'>,
+        source: DiscoverySource,
+        correlationId?: string
+    ): Promise<LocationDiscovery | null> {
+        try {
+            const now = new Date().toISOString()
+            const descriptionHash = hashLocationDescription(location.description ?? '')
+            const previous = await this.discoveryRepo.getDiscovery(playerId, location.id)
+            const discovery: LocationDiscovery = previous
+                ? {
+                      ...previous,
+                      locationName: location.name,
+                      lastSeenUtc: now,
+                      visitCount: previous.visitCount + 1,
+                      lastDescriptionHash: descriptionHash,
+                      lastSource: source
+                  }
+                : {
+                      id: buildDiscoveryId(playerId, location.id),
+                      playerId,
+                      locationId: location.id,
+                      locationName: location.name,
+                      firstSeenTick: await this.currentTick(),
+                      firstSeenUtc: now,
+                      lastSeenUtc: now,
+                      visitCount: 1,
+                      lastDescriptionHash: descriptionHash,
+                      lastSource: source
+                  }
+            const stored = await this.discoveryRepo.upsertDiscovery(discovery)
+            this.telemetry.trackGameEvent(
+                'Discovery.Recorded',
+                {
+                    playerId,
+                    locationId: location.id,
+                    source,
+                    firstVisit: !previous,
+                    visitCount: stored.visitCount,
+                    descriptionChanged: !!previous && previous.lastDescriptionHash !== descriptionHash
+                },
+                { correlationId }
+            )
+            return stored
+        } catch (error) {
+            this.telemetry.trackGameEvent(
+                'Discovery.Record.Failed',
+                { playerId, locationId: location.id, source, error: error instanceof Error ? error.message : String(error) },
+                { correlationId }
+            )
+            return null
+        }
+    }
+
+    /** The player's most recent discoveries (newest first) and how many locations they have discovered in all. */
+    async journal(playerId: string, limit: number = DISCOVERY_JOURNAL_LIMIT): Promise<{ discoveries: LocationDiscovery[]; total: number }> {
+        const discoveries = await this.discoveryRepo.listForPlayer(playerId, limit)
+        const total = await this.discoveryRepo.countForPlayer(playerId)
+        return { discoveries, total: Math.max(total, discoveries.length) }
+    }
+
+    /** Ids of every location the player has discovered. */
+    async discoveredLocationIds(playerId: string): Promise<string[]> {
+        return this.discoveryRepo.listLocationIdsForPlayer(playerId)
+    }
+
+    private async currentTick(): Promise<number> {
+        try {
+            return await this.worldClock.getCurrentTick()
+        } catch {
+            // The clock is advisory here; a sighting is still worth recording
+            return 0
+        }
+    }
+}
@@ -0,0 +1,189 @@
+/**
+ * ExitLockService — `lock <direction>` / `unlock <direction>` with key items.
+ *
+ * A key is any carried item whose `attributes.keyFor` names the door from either side as
+ * `<locationId>:<direction>` (several doors may be listed, comma-separated). Both sides of the
+ * door are updated synchronously so the next move sees the new state; the World.Exit.LockChanged
+ * event is enqueued afterwards for replay and async consumers and is non-blocking.
+ */
+
+import {
+    getOppositeDirection,
+    isDirection,
+    safeValidateActionIntent,
+    STARTER_LOCATION_ID,
+    type ActionIntent,
+    type Direction,
+    type LockState
+} from '@piquet-h/shared'
+import type { WorldEventEnvelope } from '@piquet-h/shared/events'
+import type { IPlayerRepository } from '@piquet-h/shared/types/playerRepository'
+import { inject, injectable } from 'inversify'
+import { v4 as uuidv4 } from 'uuid'
+import { TOKENS } from '../di/tokens.js'
+import type { IInventoryRepository, InventoryItem } from '../repos/inventoryRepository.js'
+import type { ILocationRepository } from '../repos/locationRepository.js'
+import type { WorldItem } from '../repos/worldItemRepository.js'
+import { TelemetryService } from '../telemetry/TelemetryService.js'
+import type { IWorldEventPublisher } from '../worldEvents/worldEventPublisher.js'
+import { toWorldItem } from './worldItemTransfers.js'
+
+export type ExitLockDenialReason = 'player-not-found' | 'invalid-direction' | 'no-exit' | 'key-required' | 'already-in-state'
+
+export type ExitLockResult =
+    | { success: true; locationId: string; direction: Direction; lockState: LockState; key: WorldItem }
+    | { success: false; reason: ExitLockDenialReason; message: string; locationId?: string }
+
+export interface ExitLockChangeRequest {
+    playerId: string
+    direction: string
+    lockState: LockState
+    /** Optional ActionIntent from the resolve-player-command step (recorded on the world event) */
+    actionIntent?: unknown
+    correlationId: string
+}
+
+/** Door reference used in `attributes.keyFor`. */
+export function buildKeyForReference(locationId: string, direction: string): string {
+    return `${locationId}:${direction}`
+}
+
+/** True when the item's `keyFor` attribute names any of the given door references. */
+export function isKeyFor(item: Pick<WorldItem, 'attributes'>, references: readonly string[]): boolean {
+    const keyFor = item.attributes?.keyFor
+    if (typeof keyFor !== 'string') return false
+    return keyFor
+        .split(',')
+        .map((ref) => ref.trim())
+        .some((ref) => references.includes(ref))
+}
+
+/**
+ * Set the lock state on an exit and, when it leads somewhere, on the reciprocal exit.
+ * Shared by the command path and the World.Exit.LockChanged handler.
+ */
+export async function applyExitLockState(
+    locationRepo: ILocationRepository,
+    params: { locationId: string; direction: Direction; toLocationId?: string; lockState: LockState; changedUtc: string }
+): Promise<{ updated: boolean; reciprocalUpdated: boolean }> {
+    const { updated } = await locationRepo.setExitLockState(params.locationId, params.direction, params.lockState, params.changedUtc)
+    if (!updated || !params.toLocationId) return { updated, reciprocalUpdated: false }
+    const reciprocal = await locationRepo.setExitLockState(
+        params.toLocationId,
+        getOppositeDirection(params.direction),
+        params.lockState,
+        params.changedUtc
+    )
+    return { updated, reciprocalUpdated: reciprocal.updated }
+}
+
+@injectable()
+export class ExitLockService {
+    constructor(
+        @inject(TOKENS.PlayerRepository) private readonly playerRepo: IPlayerRepository,
+        @inject(TOKENS.LocationRepository) private readonly locationRepo: ILocationRepository,
+        @inject(TOKENS.InventoryRepository) private readonly inventoryRepo: IInventoryRepository,
+        @inject(TOKENS.WorldEventPublisher) private readonly eventPublisher: IWorldEventPublisher,
+        @inject(TelemetryService) private readonly telemetry: TelemetryService
+    ) {}
+
+    /** Lock or unlock an exit at the player's current location using a carried key. */
+    async setLockState(request: ExitLockChangeRequest): Promise<ExitLockResult> {
+        const { playerId, lockState } = request
+        const player = await this.playerRepo.get(playerId)
+        if (!player) {
+            return { success: false, reason: 'player-not-found', message: 'Player not found' }
+        }
+
+        const locationId = player.currentLocationId || STARTER_LOCATION_ID
+        const direction = request.direction.trim().toLowerCase()
+        if (!isDirection(direction)) {
+            return { success: false, reason: 'invalid-direction', message: `"${request.direction}" is not a direction.`, locationId }
+        }
+
+        const location = await this.locationRepo.get(locationId)
+        const exit = location?.exits?.find((e) => e.direction === direction)
+        if (!exit) {
+            return {
+                success: false,
+                reason: 'no-exit',
+                message: `There is no way ${direction} to ${lockState === 'locked' ? 'lock' : 'unlock'}.`,
+                locationId
+            }
+        }
+
+        const currentState: LockState = exit.lockState ?? 'unlocked'
+        if (currentState === lockState) {
+            return { success: false, reason: 'already-in-state', message: `The way ${direction} is already ${lockState}.`, locationId }
+        }
+
+        const references = [buildKeyForReference(locationId, direction)]
+        if (exit.to) references.push(buildKeyForReference(exit.to, getOppositeDirection(direction)))
+        const carried = await this.inventoryRepo.listItems(playerId)
+        const keyItem = carried.find((i) => isKeyFor(toWorldItem(i, locationId), references))
+        if (!keyItem) {
+            return { success: false, reason: 'key-required', message: `You don't have a key that fits the way ${direction}.`, locationId }
+        }
+        const key = toWorldItem(keyItem, locationId)
+
+        // The change and its event share one timestamp, so the event handler can tell it was already applied.
+        const changedUtc = new Date().toISOString()
+        await applyExitLockState(this.locationRepo, { locationId, direction, toLocationId: exit.to, lockState, changedUtc })
+        await this.publishLockChanged(request, { locationId, direction, toLocationId: exit.to, lockState, keyItem, changedUtc })
+
+        return { success: true, locationId, direction, lockState, key }
+    }
+
+    private async publishLockChanged(
+        request: ExitLockChangeRequest,
+        change: {
+            locationId: string
+            direction: Direction
+            toLocationId?: string
+            lockState: LockState
+            keyItem: InventoryItem
+            changedUtc: string
+        }
+    ): Promise<void> {
+        const verb = change.lockState === 'locked' ? 'lock' : 'unlock'
+        const supplied = safeValidateActionIntent(request.actionIntent)
+        const actionIntent: ActionIntent = supplied.success
+            ? supplied.data
+            : {
+                  rawInput: `${verb} ${change.direction}`,
+                  parsedIntent: { verb, targets: [{ kind: 'direction', canonicalDirection: change.direction }] },
+                  validationResult: { success: true }
+              }
+
+        const occurredUtc = change.changedUtc
+        const event: WorldEventEnvelope = {
+            eventId: uuidv4(),
+            type: 'World.Exit.LockChanged',
+            occurredUtc,
+            actor: { kind: 'player', id: request.playerId },
+            correlationId: request.correlationId,
+            idempotencyKey: `exit-lock:${change.locationId}:${change.direction}:${change.lockState}:${occurredUtc}`,
+            version: 1,
+            payload: {
+                locationId: change.locationId,
+                direction: change.direction,
+                ...(change.toLocationId ? { toLocationId: change.toLocationId } : {}),
+                lockState: change.lockState,
+                playerId: request.playerId,
+                keyItemId: change.keyItem.id,
+                actionIntent
+            }
+        }
+
+        try {
+            await this.eventPublisher.enqueueEvents([event])
+        } catch (error) {
+            // Non-blocking: the lock change is already durable; event enqueue failures must not fail the request.
+            this.telemetry.trackGameEvent(
+                'World.Event.EnqueueFailed',
+                { eventType: event.type, playerId: request.playerId, error: error instanceof Error ? error.message : String(error) },
+                { correlationId: request.correlationId }
+            )
+        }
+    }
+}
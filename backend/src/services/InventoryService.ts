@@ -0,0 +1,240 @@
+/**
+ * InventoryService — authoritative write gate for moving items between the world and a player's inventory.
+ *
+ * Shared by the take/drop command endpoints and the inventory HTTP API so both enforce the same rules:
+ *   - Co-location: a player can only pick up items lying at their current location,
+ *     and dropped items land at their current location (items never vanish).
+ *   - Capacity: a player carries at most INVENTORY_CAPACITY items.
+ *   - Optimistic concurrency: every add/remove first advances PlayerDoc.inventoryVersion
+ *     from the version the caller observed; a stale version is rejected before any item write.
+ *
+ * Both stores are written synchronously; the Player.Take / Player.Drop world event is enqueued
+ * afterwards for async consumers and is non-blocking. Pickups also advance `collect` quest objectives.
+ */
+
+import { ConcurrencyException, STARTER_LOCATION_ID } from '@piquet-h/shared'
+import type { IPlayerRepository } from '@piquet-h/shared/types/playerRepository'
+import { inject, injectable } from 'inversify'
+import { TOKENS } from '../di/tokens.js'
+import type { IInventoryRepository, InventoryItem } from '../repos/inventoryRepository.js'
+import type { IPlayerDocRepository } from '../repos/PlayerDocRepository.js'
+import type { IWorldItemRepository, WorldItem } from '../repos/worldItemRepository.js'
+import { TelemetryService } from '../telemetry/TelemetryService.js'
+import type { IWorldEventPublisher } from '../worldEvents/worldEventPublisher.js'
+import { QuestProgressService } from './QuestProgressService.js'
+import { buildItemTransferEvent, findItemByReference, resolveItemActionIntent, toInventoryItem, toWorldItem } from './worldItemTransfers.js'
+
+/** Maximum number of distinct items a player can carry. */
+export const INVENTORY_CAPACITY = 20
+
+export type InventoryDenialReason =
+    | 'player-not-found'
+    | 'item-not-found'
+    | 'item-not-carried'
+    | 'item-unavailable'
+    | 'inventory-full'
+    | 'version-conflict'
+
+export type InventoryChangeResult =
+    | { success: true; item: WorldItem; locationId: string; inventoryVersion: number }
+    | { success: false; reason: InventoryDenialReason; message: string; locationId?: string }
+
+export interface InventoryChangeRequest {
+    playerId: string
+    /** Item id or player-supplied item name */
+    reference: string
+    /** Inventory version the caller last observed; omitted means "whatever is current" */
+    expectedVersion?: number
+    /** Optional ActionIntent from the resolve-player-command step (recorded on the world event) */
+    actionIntent?: unknown
+    correlationId: string
+}
+
+export interface InventorySnapshot {
+    items: InventoryItem[]
+    inventoryVersion: number
+}
+
+@injectable()
+export class InventoryService {
+    constructor(
+        @inject(TOKENS.PlayerRepository) private readonly playerRepo: IPlayerRepository,
+        @inject(TOKENS.PlayerDocRepository) private readonly playerDocRepo: IPlayerDocRepository,
+        @inject(TOKENS.WorldItemRepository) private readonly worldItemRepo: IWorldItemRepository,
+        @inject(TOKENS.InventoryRepository) private readonly inventoryRepo: IInventoryRepository,
+        @inject(TOKENS.WorldEventPublisher) private readonly eventPublisher: IWorldEventPublisher,
+        @inject(QuestProgressService) private readonly questProgress: QuestProgressService,
+        @inject(TelemetryService) private readonly telemetry: TelemetryService
+    ) {}
+
+    /** Items carried by the player plus the current concurrency token, or null if the player is unknown. */
+    async getInventory(playerId: string): Promise<InventorySnapshot | null> {
+        const doc = await this.playerDocRepo.getPlayer(playerId)
+        if (!doc) return null
+        const items = await this.inventoryRepo.listItems(playerId)
+        return { items, inventoryVersion: doc.inventoryVersion ?? 0 }
+    }
+
+    /** Move an item lying at the player's current location into their inventory. */
+    async acquireFromLocation(request: InventoryChangeRequest): Promise<InventoryChangeResult> {
+        const { playerId, reference } = request
+        const context = await this.loadPlayerContext(playerId, request.expectedVersion)
+        if (!context.success) return context
+        const { locationId, currentVersion } = context
+
+        const itemsHere = await this.worldItemRepo.listItemsAtLocation(locationId)
+        const item = findItemByReference(itemsHere, reference, (i) => i.name)
+        if (!item) {
+            return { success: false, reason: 'item-not-found', message: `You don't see "${reference}" here.`, locationId }
+        }
+
+        const carried = await this.inventoryRepo.listItems(playerId)
+        if (carried.length >= INVENTORY_CAPACITY) {
+            return {
+                success: false,
+                reason: 'inventory-full',
+                message: `You can't carry any more (limit ${INVENTORY_CAPACITY}).`,
+                locationId
+            }
+        }
+
+        // Remove from the location first: a false result means another player won the race.
+        const removed = await this.worldItemRepo.removeItem(item.id, locationId)
+        if (!removed) {
+            return { success: false, reason: 'item-unavailable', message: `The ${item.name} is no longer here.`, locationId }
+        }
+
+        // The version only advances once the item is really taken.
+        let inventoryVersion: number | null
+        try {
+            inventoryVersion = await this.bumpVersion(playerId, currentVersion)
+            if (inventoryVersion !== null) {
+                await this.inventoryRepo.addItem(toInventoryItem(item, playerId))
+            }
+        } catch (error) {
+            // Put the item back so it is not lost between stores.
+            await this.worldItemRepo.placeItem(item)
+            throw error
+        }
+        if (inventoryVersion === null) {
+            await this.worldItemRepo.placeItem(item)
+            return this.versionConflict(locationId)
+        }
+
+        await this.publishTransfer('Player.Take', request, locationId, item)
+        await this.questProgress.recordProgress(
+            playerId,
+            { kind: 'collect', targetId: item.id, targetName: item.name },
+            request.correlationId
+        )
+        return { success: true, item, locationId, inventoryVersion }
+    }
+
+    /** Move an item from the player's inventory into their current location. */
+    async releaseToLocation(request: InventoryChangeRequest): Promise<InventoryChangeResult> {
+        const { playerId, reference } = request
+        const context = await this.loadPlayerContext(playerId, request.expectedVersion)
+        if (!context.success) return context
+        const { locationId, currentVersion } = context
+
+        const carried = await this.inventoryRepo.listItems(playerId)
+        const inventoryItem = findItemByReference(carried, reference, (i) => toWorldItem(i, locationId).name)
+        if (!inventoryItem) {
+            return { success: false, reason: 'item-not-carried', message: `You aren't carrying "${reference}".`, locationId }
+        }
+
+        const item = toWorldItem(inventoryItem, locationId)
+        const removed = await this.inventoryRepo.removeItem(inventoryItem.id, playerId)
+        if (!removed) {
+            return { success: false, reason: 'item-not-carried', message: `You aren't carrying "${reference}".`, locationId }
+        }
+
+        // The version only advances once the item has really left the inventory.
+        let inventoryVersion: number | null
+        try {
+            inventoryVersion = await this.bumpVersion(playerId, currentVersion)
+            if (inventoryVersion !== null) {
+                await this.worldItemRepo.placeItem(item)
+            }
+        } catch (error) {
+            // Return the item to the inventory so it is not lost between stores.
+            await this.inventoryRepo.addItem(inventoryItem)
+            throw error
+        }
+        if (inventoryVersion === null) {
+            await this.inventoryRepo.addItem(inventoryItem)
+            return this.versionConflict(locationId)
+        }
+
+        await this.publishTransfer('Player.Drop', request, locationId, item)
+        return { success: true, item, locationId, inventoryVersion }
+    }
+
+    // ------------------------------------------------------------------
+    // Private helpers
+    // ------------------------------------------------------------------
+
+    private async loadPlayerContext(
+        playerId: string,
+        expectedVersion: number | undefined
+    ): Promise<{ success: true; locationId: string; currentVersion: number } | Extract<InventoryChangeResult, { success: false }>> {
+        const player = await this.playerRepo.get(playerId)
+        const doc = player ? await this.playerDocRepo.getPlayer(playerId) : null
+        if (!player || !doc) {
+            return { success: false, reason: 'player-not-found', message: 'Player not found' }
+        }
+
+        const locationId = player.currentLocationId || STARTER_LOCATION_ID
+        const currentVersion = doc.inventoryVersion ?? 0
+        if (expectedVersion !== undefined && expectedVersion !== currentVersion) {
+            return this.versionConflict(locationId)
+        }
+        return { success: true, locationId, currentVersion }
+    }
+
+    /** Returns the new version, or null when another writer advanced it first. */
+    private async bumpVersion(playerId: string, currentVersion: number): Promise<number | null> {
+        try {
+            return await this.playerDocRepo.incrementInventoryVersion(playerId, currentVersion)
+        } catch (error) {
+            if (error instanceof ConcurrencyException) return null
+            throw error
+        }
+    }
+
+    private versionConflict(locationId: string): Extract<InventoryChangeResult, { success: false }> {
+        return {
+            success: false,
+            reason: 'version-conflict',
+            message: 'Your inventory changed since you last looked. Refresh and try again.',
+            locationId
+        }
+    }
+
+    private async publishTransfer(
+        type: 'Player.Take' | 'Player.Drop',
+        request: InventoryChangeRequest,
+        locationId: string,
+        item: WorldItem
+    ): Promise<void> {
+        const actionIntent = resolveItemActionIntent(request.actionIntent, type === 'Player.Take' ? 'take' : 'drop', item)
+        try {
+            await this.eventPublisher.enqueueEvents([
+                buildItemTransferEvent(type, {
+                    playerId: request.playerId,
+                    locationId,
+                    item,
+                    actionIntent,
+                    correlationId: request.correlationId
+                })
+            ])
+        } catch (error) {
+            // Non-blocking: the transfer is already durable; event enqueue failures must not fail the request.
+            this.telemetry.trackGameEvent(
+                'World.Event.EnqueueFailed',
+                { eventType: type, playerId: request.playerId, error: error instanceof Error ? error.message : String(error) },
+                { correlationId: request.correlationId }
+            )
+        }
+    }
+}
@@ -0,0 +1,48 @@
+/**
+ * LiveEventService — publishes live location events for open player streams.
+ *
+ * Called by the writes players can notice while standing somewhere: presence changes (arrivals and
+ * departures), exit materialisation, description layer changes and NPC actions. The event is stamped
+ * with an id and timestamp and handed to the ILocationEventBroker for the location.
+ *
+ * Publishing is a side effect of a write that has already happened, so it never throws. The player who
+ * caused an event (and, for whispers, the one player meant to receive it) is passed to the broker
+ * separately and is never part of the event itself.
+ */
+
+import type { LiveLocationEvent } from '@piquet-h/shared'
+import { inject, injectable } from 'inversify'
+import { randomUUID } from 'node:crypto'
+import { TOKENS } from '../di/tokens.js'
+import { TelemetryService } from '../telemetry/TelemetryService.js'
+import type { ILocationEventBroker } from './locationEventBroker.js'
+
+export type LiveEventInput = Omit<LiveLocationEvent, 'id' | 'occurredUtc'>
+
+@injectable()
+export class LiveEventService {
+    constructor(
+        @inject(TOKENS.LocationEventBroker) private readonly broker: ILocationEventBroker,
+        @inject(TelemetryService) private readonly telemetry: TelemetryService
+    ) {}
+
+    /** Push an event to the streams open at its location. */
+    publish(input: LiveEventInput, options: { actorPlayerId?: string; recipientPlayerId?: string; correlationId?: string } = {}): void {
+        try {
+            const event: LiveLocationEvent = { id: randomUUID(), occurredUtc: new Date().toISOString(), ...input }
+            const subscribers = this.broker.publish(event, {
+                actorPlayerId: options.actorPlayerId,
+                recipientPlayerId: options.recipientPlayerId
+            })
+            if (subscribers > 0) {
+                this.telemetry.trackGameEvent(
+                    'Multiplayer.LayerDelta.Sent',
+                    { locationId: event.locationId, kind: event.kind, subscribers },
+                    { correlationId: options.correlationId }
+                )
+            }
+        } catch {
+            // Live events are best effort; the write they describe has already succeeded.
+        }
+    }
+}
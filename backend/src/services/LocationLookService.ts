@@ -0,0 +1,256 @@
+/**
+ * LocationLookService — a full view of one location, for the look endpoint and for command chains.
+ *
+ * The description is compiled in the conditions of the moment (WorldConditionsService): the current weather
+ * of the location's weather zone and the lighting of the current time of day on the world clock, unless the
+ * caller overrides weather, time or season. The view lists the items lying here, the NPCs present and the
+ * other players here (display names only; the viewer is left out).
+ *
+ * A missing exitsSummaryCache is generated and persisted on first look; hero prose is only generated inline
+ * when no such write is planned, otherwise (and on timeout) it is generated in the background for the next look.
+ * A look by a known player is recorded in their discovery ledger. Only a description that cannot be compiled
+ * fails the look; an items, NPC or players list that cannot be read is returned empty.
+ */
+
+import { Direction, type GameEventName, type LocationResponse } from '@piquet-h/shared'
+import { inject, injectable } from 'inversify'
+import { TOKENS } from '../di/tokens.js'
+import { convertLocationExitsToExitInfo } from '../handlers/utils/exitHelpers.js'
+import { isValidGuid } from '../handlers/utils/validation.js'
+import { ExitEdgeResult, generateExitsSummaryCache } from '../repos/exitRepository.js'
+import type { ILocationRepository } from '../repos/locationRepository.js'
+import type { INpcRepository } from '../repos/npcRepository.js'
+import type { IWorldItemRepository } from '../repos/worldItemRepository.js'
+import { TelemetryService } from '../telemetry/TelemetryService.js'
+import { DescriptionComposer } from './descriptionComposer.js'
+import { DiscoveryService } from './DiscoveryService.js'
+import { HeroProseGenerator } from './heroProseGenerator.js'
+import { PresenceService } from './PresenceService.js'
+import type { ComposedDescription } from './types.js'
+import { WorldConditionsService } from './WorldConditionsService.js'
+
+export interface LookRequest {
+    locationId: string
+    /** Viewing player (left out of the players list; the sighting is recorded for them) */
+    playerId?: string
+    /** Where the viewer looked from (telemetry only) */
+    fromLocationId?: string
+    /** View overrides for the description (default: the current conditions) */
+    view?: { weather?: string; time?: string; season?: string }
+    correlationId: string
+}
+
+export type LookResult =
+    | { success: true; location: LocationResponse }
+    | { success: false; reason: 'location-not-found' | 'compile-failed'; message: string }
+
+@injectable()
+export class LocationLookService {
+    constructor(
+        @inject(TelemetryService) private readonly telemetry: TelemetryService,
+        @inject('ILocationRepository') private readonly locationRepo: ILocationRepository,
+        @inject(DescriptionComposer) private readonly descriptionComposer: DescriptionComposer,
+        @inject(HeroProseGenerator) private readonly heroProseGenerator: HeroProseGenerator,
+        @inject(TOKENS.WorldItemRepository) private readonly worldItemRepo: IWorldItemRepository,
+        @inject(TOKENS.NpcRepository) private readonly npcRepo: INpcRepository,
+        @inject(PresenceService) private readonly presence: PresenceService,
+        @inject(DiscoveryService) private readonly discovery: DiscoveryService,
+        @inject(WorldConditionsService) private readonly conditions: WorldConditionsService
+    ) {}
+
+    async look(request: LookRequest): Promise<LookResult> {
+        const started = Date.now()
+        const { locationId: id, playerId, fromLocationId, correlationId } = request
+        const track = (name: GameEventName, properties: Record<string, unknown>) =>
+            this.telemetry.trackGameEvent(name, properties, { correlationId, playerGuid: playerId })
+
+        const loc = await this.locationRepo.get(id)
+        if (!loc) {
+            track('Navigation.Look.Issued', { id, status: 404, latencyMs: Date.now() - started, fromLocationId })
+            return { success: false, reason: 'location-not-found', message: 'Location not found' }
+        }
+
+        // Determine if canonical writes are planned (exitsSummaryCache write needed)
+        const canonicalWritesPlanned = !loc.exitsSummaryCache
+
+        // Check if exitsSummaryCache exists; if not, generate and persist
+        let exitsSummaryCache = loc.exitsSummaryCache
+        if (!exitsSummaryCache) {
+            // Convert exits to ExitEdgeResult format
+            const exitEdges: ExitEdgeResult[] = (loc.exits || []).map((e) => ({
+                direction: e.direction as Direction,
+                toLocationId: e.to || '',
+                description: e.description
+            }))
+
+            exitsSummaryCache = generateExitsSummaryCache(exitEdges)
+
+            // Persist the generated cache
+            await this.locationRepo.updateExitsSummaryCache(id, exitsSummaryCache)
+        }
+
+        // View context: current weather and time bucket, unless overridden by the caller
+        const { context, inheritedLayers } = await this.conditions.viewFor(loc, request.view ?? {})
+
+        // Attempt hero prose generation ONLY when no canonical writes are planned
+        // Bounded blocking is allowed only for perception actions with no pending canonical writes.
+        // When canonical writes are planned, skip generation and use safe fallback (baseline description).
+        let heroProseObtained = false
+        if (!canonicalWritesPlanned) {
+            try {
+                const generationStartTime = Date.now()
+                // Keep default aligned with HeroProseGenerator.DEFAULT_TIMEOUT_MS (code is source of truth).
+                const configuredTimeoutMs = Number.parseInt(process.env.HERO_PROSE_TIMEOUT_MS ?? '2500', 10)
+                const timeoutMs = Number.isFinite(configuredTimeoutMs) && configuredTimeoutMs > 0 ? configuredTimeoutMs : 2500
+                const heroResult = await this.heroProseGenerator.generateHeroProse({
+                    locationId: id,
+                    locationName: loc.name,
+                    baseDescription: loc.description,
+                    timeoutMs
+                })
+                heroProseObtained = heroResult.success
+                const generationLatency = Date.now() - generationStartTime
+                if (generationLatency > 500) {
+                    track('Timing.Op', {
+                        op: 'hero-prose-generation',
+                        ms: generationLatency,
+                        locationId: id,
+                        category: 'hero-generation-slow'
+                    })
+                }
+            } catch {
+                // Generation errors don't block the response - fall back to base description
+                // Telemetry already emitted by HeroProseGenerator
+            }
+        }
+
+        // Stale-while-revalidate: fire a background generation whenever the synchronous
+        // attempt was skipped (canonical writes planned) or did not produce prose
+        // (timeout / error). The prose is persisted to the layer repository; the next
+        // look call will serve the improved description.
+        // heroProseGenerator.generateHeroProse() is cache-aware and short-circuits
+        // instantly on a cache hit, so this call is idempotent.
+        if (!heroProseObtained) {
+            this.heroProseGenerator
+                .generateHeroProse({
+                    locationId: id,
+                    locationName: loc.name,
+                    baseDescription: loc.description,
+                    timeoutMs: 30_000 // No HTTP deadline pressure for background generation
+                })
+                .catch(() => void 0) // Non-blocking: errors surfaced via telemetry in HeroProseGenerator
+        }
+
+        let compiled: ComposedDescription
+        let compilationLatency: number
+        try {
+            const startCompilation = Date.now()
+
+            // Compile description using DescriptionComposer
+            // Pass location's description as the base - layers are applied on top
+            // Zone weather and lighting are inherited; the location's own layers are already part of its history
+            compiled = await this.descriptionComposer.compileForLocation(id, context, {
+                baseDescription: loc.description,
+                inheritedLayers
+            })
+            compilationLatency = Date.now() - startCompilation
+        } catch (error) {
+            // Log composition service failure
+            track('Description.Generate.Failure', {
+                locationId: id,
+                status: 500,
+                latencyMs: Date.now() - started,
+                error: error instanceof Error ? error.message : String(error),
+                stage: 'compilation'
+            })
+            return { success: false, reason: 'compile-failed', message: 'Failed to compile location description' }
+        }
+
+        // Warn if compilation took longer than target (500ms p95)
+        if (compilationLatency > 500) {
+            track('Timing.Op', {
+                op: 'location-description-compile',
+                ms: compilationLatency,
+                locationId: id,
+                layerCount: compiled.provenance.layers.length,
+                category: 'slow-compilation'
+            })
+        }
+
+        // Count superseded sentences (placeholder for now)
+        const supersededCount = 0
+
+        track('Navigation.Look.Issued', {
+            locationId: id,
+            fromLocationId,
+            status: 200,
+            latencyMs: Date.now() - started,
+            compilationLatencyMs: compilationLatency,
+            layerCount: compiled.provenance.layers.length,
+            supersededSentences: supersededCount,
+            cacheHit: !!loc.exitsSummaryCache,
+            heroProseAttempted: !canonicalWritesPlanned,
+            heroProseSkipReason: canonicalWritesPlanned ? 'canonical-writes-planned' : undefined,
+            heroProseBackgroundFired: !heroProseObtained
+        })
+
+        // Build exit availability info using shared helper
+        const exitInfoArray = convertLocationExitsToExitInfo(loc.exits, loc.exitAvailability)
+
+        // The description is the look; a list that cannot be read is shown empty rather than failing it.
+        const listOrEmpty = async <T>(section: 'items' | 'npcs' | 'players', read: () => Promise<T[]>): Promise<T[]> => {
+            try {
+                return await read()
+            } catch (error) {
+                track('Navigation.Look.Degraded', {
+                    locationId: id,
+                    section,
+                    error: error instanceof Error ? error.message : String(error)
+                })
+                return []
+            }
+        }
+        const itemsHere = await listOrEmpty('items', () => this.worldItemRepo.listItemsAtLocation(loc.id))
+        const npcsHere = await listOrEmpty('npcs', () => this.npcRepo.listNpcsAtLocation(loc.id))
+        const playersHere = await listOrEmpty('players', () => this.presence.listPlayersAt(loc.id, playerId))
+        if (playerId && isValidGuid(playerId)) {
+            // Non-blocking: the look succeeds even if the sighting is not recorded
+            await this.discovery.recordSighting(playerId, loc, 'look', correlationId)
+        }
+
+        return {
+            success: true,
+            location: {
+                id: loc.id,
+                name: loc.name,
+                description: {
+                    text: compiled.text,
+                    html: compiled.html,
+                    provenance: {
+                        compiledAt: compiled.provenance.compiledAt,
+                        layersApplied: compiled.provenance.layers.map((l) => l.layerType),
+                        supersededSentences: supersededCount
+                    }
+                },
+                exits: exitInfoArray,
+                items: itemsHere.map((item) => ({
+                    id: item.id,
+                    name: item.name,
+                    ...(item.description ? { description: item.description } : {})
+                })),
+                npcs: npcsHere.map((npc) => ({
+                    id: npc.id,
+                    name: npc.name,
+                    disposition: npc.disposition,
+                    ...(npc.description ? { description: npc.description } : {})
+                })),
+                players: playersHere.map((player) => ({ name: player.name })),
+                metadata: {
+                    exitsSummaryCache,
+                    tags: loc.tags,
+                    revision: loc.version
+                }
+            }
+        }
+    }
+}
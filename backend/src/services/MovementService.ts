@@ -0,0 +1,554 @@
+/**
+ * MovementService — one step through an exit, for the move endpoint and for command chains.
+ *
+ * The origin is the player's stored location (never client-supplied for a known player); anonymous and legacy
+ * callers may name it instead. The direction is normalized against the player's last heading, then:
+ * - a pending `in` exit on a structure materializes its interior on first entry
+ * - a locked exit is a soft denial (400, no generation hint)
+ * - a missing exit records a debounced generation hint for async world expansion
+ * - a successful move persists the player's location, announces the arrival to co-located players, records
+ *   the sighting and `visit` quest progress, and returns the arrival description in the current conditions
+ *   (left out on familiar ground for brief / superbrief players)
+ *
+ * Arrivals at frontier boundaries trigger prefetch batch generation for their pending exits (Issue #811).
+ */
+
+import {
+    CompiledDescription,
+    enrichErrorAttributes,
+    enrichMovementAttributes,
+    ExitInfo,
+    getExitGenerationHintStore,
+    getOppositeDirection,
+    getPlayerHeadingStore,
+    hashPlayerIdForTelemetry,
+    normalizeDirection,
+    STARTER_LOCATION_ID,
+    type Direction,
+    type GameEventName,
+    type Location,
+    type TerrainType
+} from '@piquet-h/shared'
+import { type ExitGenerationHintPayload } from '@piquet-h/shared/events'
+import type { IPlayerRepository } from '@piquet-h/shared/types/playerRepository'
+import { inject, injectable } from 'inversify'
+import { createHash } from 'node:crypto'
+import { TOKENS } from '../di/tokens.js'
+import { convertLocationExitsToExitInfo } from '../handlers/utils/exitHelpers.js'
+import { DEFAULT_TRAVEL_DURATION_MS, INTERIOR_TRAVEL_DURATION_MS } from '../handlers/utils/travelDurationHeuristics.js'
+import type { IExitGenerationHintPublisher } from '../queues/exitGenerationHintPublisher.js'
+import type { ILocationRepository } from '../repos/locationRepository.js'
+import { FRONTIER_BOUNDARY_TAG } from '../seeding/frontierSelectionPolicy.js'
+import { TelemetryService } from '../telemetry/TelemetryService.js'
+import type { IWorldEventPublisher } from '../worldEvents/worldEventPublisher.js'
+import { DescriptionComposer } from './descriptionComposer.js'
+import { arrivalDescription, DescriptionVerbosityService, type DescriptionOmission } from './DescriptionVerbosityService.js'
+import { DiscoveryService } from './DiscoveryService.js'
+import { PresenceService } from './PresenceService.js'
+import { tryCreatePrefetchEvent } from './prefetchBatchGeneration.js'
+import { QuestProgressService } from './QuestProgressService.js'
+import { WorldConditionsService } from './WorldConditionsService.js'
+
+/**
+ * Derive a stable interior location ID from a structure location ID.
+ * Uses SHA-256 so the same structure always produces the same interior UUID,
+ * enabling idempotent on-demand materialization even under concurrent entry.
+ *
+ * Note: the resulting string follows the UUID hex-group layout (8-4-4-4-12)
+ * for compatibility with repository ID conventions, but it is NOT an RFC 4122
+ * UUID (no version/variant nibbles are set). The stable derivation is more
+ * important here than strict RFC conformance.
+ */
+function deriveInteriorId(structureId: string): string {
+    const hash = createHash('sha256').update(`structure-interior:${structureId}`).digest('hex')
+    return [hash.slice(0, 8), hash.slice(8, 12), hash.slice(12, 16), hash.slice(16, 20), hash.slice(20, 32)].join('-')
+}
+
+export interface MoveValidationError {
+    type: 'ambiguous' | 'invalid-direction' | 'from-missing' | 'no-exit' | 'move-failed' | 'generate' | 'locked'
+    statusCode: number
+    clarification?: string
+    reason?: string
+    generationHint?: { originLocationId: string; direction: string }
+}
+
+export interface MoveResult {
+    success: boolean
+    location?: {
+        id: string
+        name: string
+        description: CompiledDescription
+        /** Set when the player's verbosity left the prose out (description text and html are empty) */
+        descriptionOmitted?: DescriptionOmission
+        exits?: ExitInfo[]
+        /** Simulated travel duration for the move leg (distinct from request latency). */
+        travel?: { durationMs: number; source: 'edge' | 'default' }
+    }
+    error?: MoveValidationError
+    latencyMs: number
+}
+
+export interface MoveRequest {
+    /** Moving player (omitted for anonymous / test moves, which persist nothing) */
+    playerId?: string
+    /** Direction as typed: canonical, shorthand or relative ("n", "left") */
+    direction: string
+    /** Origin for callers without a stored player location (defaults to the starter location) */
+    fromLocationId?: string
+    correlationId: string
+}
+
+@injectable()
+export class MovementService {
+    constructor(
+        @inject(TelemetryService) private readonly telemetry: TelemetryService,
+        @inject('ILocationRepository') private readonly locationRepo: ILocationRepository,
+        @inject('IPlayerRepository') private readonly playerRepo: IPlayerRepository,
+        @inject(DescriptionComposer) private readonly descriptionComposer: DescriptionComposer,
+        @inject(TOKENS.WorldEventPublisher) private readonly eventPublisher: IWorldEventPublisher,
+        @inject(TOKENS.ExitGenerationHintPublisher) private readonly exitHintPublisher: IExitGenerationHintPublisher,
+        @inject(QuestProgressService) private readonly questProgress: QuestProgressService,
+        @inject(PresenceService) private readonly presence: PresenceService,
+        @inject(DiscoveryService) private readonly discovery: DiscoveryService,
+        @inject(DescriptionVerbosityService) private readonly verbosity: DescriptionVerbosityService,
+        @inject(WorldConditionsService) private readonly conditions: WorldConditionsService
+    ) {}
+
+    async move(request: MoveRequest): Promise<MoveResult> {
+        const started = Date.now()
+        const { playerId, correlationId } = request
+        const rawDir = request.direction
+        const track = (name: GameEventName, properties: Record<string, unknown>) =>
+            this.telemetry.trackGameEvent(name, properties, { correlationId, playerGuid: playerId })
+
+        // Security: the origin is the player's stored location (authoritative, prevents client spoofing);
+        // only anonymous / test moves, or a player without a location, fall back to the request-provided origin
+        let fromId = request.fromLocationId || STARTER_LOCATION_ID
+        if (playerId) {
+            const player = await this.playerRepo.get(playerId)
+            if (player?.currentLocationId) fromId = player.currentLocationId
+        }
+
+        const headingStore = getPlayerHeadingStore()
+        const lastHeading = playerId ? headingStore.getLastHeading(playerId) : undefined
+        const normalizationResult = normalizeDirection(rawDir, lastHeading)
+
+        // Ambiguous relative direction
+        if (normalizationResult.status === 'ambiguous') {
+            track('Navigation.Input.Ambiguous', { fromLocationId: fromId, input: rawDir, reason: 'no-heading' })
+            return {
+                success: false,
+                error: {
+                    type: 'ambiguous',
+                    statusCode: 400,
+                    clarification: normalizationResult.clarification || 'Ambiguous direction'
+                },
+                latencyMs: Date.now() - started
+            }
+        }
+
+        // Invalid / unknown direction
+        if (normalizationResult.status === 'unknown' || !normalizationResult.canonical) {
+            const props = {
+                from: fromId,
+                direction: rawDir,
+                status: 400,
+                reason: 'invalid-direction',
+                latencyMs: Date.now() - started
+            }
+            enrichMovementAttributes(props, {
+                playerId,
+                fromLocationId: fromId,
+                exitDirection: rawDir
+            })
+            enrichErrorAttributes(props, { errorCode: 'invalid-direction' })
+            track('Navigation.Move.Blocked', props)
+            return {
+                success: false,
+                error: {
+                    type: 'invalid-direction',
+                    statusCode: 400,
+                    clarification: normalizationResult.clarification || 'Invalid or missing direction'
+                },
+                latencyMs: Date.now() - started
+            }
+        }
+
+        const dir = normalizationResult.canonical
+
+        // Fetch starting location
+        const from = await this.locationRepo.get(fromId)
+        if (!from) {
+            const props = {
+                from: fromId,
+                direction: dir,
+                status: 404,
+                reason: 'from-missing',
+                latencyMs: Date.now() - started
+            }
+            enrichMovementAttributes(props, {
+                playerId,
+                fromLocationId: fromId,
+                exitDirection: dir
+            })
+            enrichErrorAttributes(props, { errorCode: 'from-missing' })
+            track('Navigation.Move.Blocked', props)
+            return {
+                success: false,
+                error: { type: 'from-missing', statusCode: 404, reason: 'from-missing' },
+                latencyMs: Date.now() - started
+            }
+        }
+
+        // Verify exit
+        let exit = from.exits?.find((e) => e.direction === dir)
+
+        // On-demand structure interior materialization:
+        // If direction is 'in' and the location advertises a pending 'in' exit,
+        // synchronously create the interior node and wire exits before falling
+        // through to the normal move path. Works for any structure type — shops,
+        // taverns, cottages, shrines, etc. — as long as the location carries
+        // exitAvailability.pending.in in its seed or persisted data.
+        if (!exit?.to && dir === 'in' && from.exitAvailability?.pending && 'in' in from.exitAvailability.pending) {
+            const interiorId = deriveInteriorId(fromId)
+            const alreadyExisted = !!(await this.locationRepo.get(interiorId))
+            if (!alreadyExisted) {
+                const settlementTags = from.tags?.filter((t) => t.startsWith('settlement:')) ?? []
+                const interior: Location = {
+                    id: interiorId,
+                    name: `${from.name} — Interior`,
+                    description: 'Low rafters and worn flagstones; pale light filters through a single shuttered window.',
+                    tags: [...settlementTags, 'interior:auto'],
+                    exits: [{ direction: 'out', to: fromId, description: 'The door back outside.' }],
+                    version: 1
+                }
+                await this.locationRepo.upsert(interior)
+            }
+            const interiorExitResult = await this.locationRepo.ensureExitBidirectional(fromId, 'in', interiorId, {
+                reciprocal: true,
+                description: 'Step through the low doorway.',
+                reciprocalDescription: 'The door back outside.'
+            })
+            // Persist short interior travel durations on newly created edges.
+            // When !alreadyExisted the 'out' exit is embedded in the upsert above so
+            // reciprocalCreated will be false even though the edge is brand new — set it
+            // unconditionally in that case.
+            if (interiorExitResult.created) {
+                await this.locationRepo.setExitTravelDuration(fromId, 'in', INTERIOR_TRAVEL_DURATION_MS)
+            }
+            if (interiorExitResult.reciprocalCreated || !alreadyExisted) {
+                await this.locationRepo.setExitTravelDuration(interiorId, 'out', INTERIOR_TRAVEL_DURATION_MS)
+            }
+            this.telemetry.trackGameEvent(
+                'Navigation.Interior.Materialized',
+                { structureLocationId: fromId, interiorLocationId: interiorId, alreadyExisted },
+                { correlationId }
+            )
+            exit = { direction: 'in', to: interiorId }
+        }
+
+        // Soft denial: exit exists but is currently locked.
+        // This is a policy check — the exit edge is wired but entry is denied.
+        // Returns 400 (not 5xx); no generation hint is emitted.
+        if (exit?.to && exit.lockState === 'locked') {
+            const props = {
+                from: fromId,
+                direction: dir,
+                status: 400,
+                reason: 'entrance-locked',
+                latencyMs: Date.now() - started
+            }
+            enrichMovementAttributes(props, {
+                playerId,
+                fromLocationId: fromId,
+                exitDirection: dir
+            })
+            track('Navigation.Move.Locked', props)
+            return {
+                success: false,
+                error: {
+                    type: 'locked',
+                    statusCode: 400,
+                    reason: 'entrance-locked',
+                    clarification: 'This entrance is locked'
+                },
+                latencyMs: Date.now() - started
+            }
+        }
+
+        if (!exit || !exit.to) {
+            // Note: check if direction is forbidden before emitting generation hint
+            // When Location/LocationNode exitAvailability is wired from persistence:
+            // if (from.exitAvailability?.forbidden?.[dir]) {
+            //     return no-exit error without generation hint
+            // }
+
+            // Interior locations (those with an 'out' exit) must never generate an 'in' exit.
+            // Allowing it would wire an open-world frontier stub into an enclosed interior,
+            // e.g. a tavern common room opening into an Unexplored Open Plain.
+            if (dir === 'in' && from.exits?.some((e) => e.direction === 'out')) {
+                return {
+                    success: false,
+                    error: {
+                        type: 'generate',
+                        statusCode: 400,
+                        reason: 'no-exit',
+                        clarification: `No exit ${dir} from here yet. Your interest has been noted.`
+                    },
+                    latencyMs: Date.now() - started
+                }
+            }
+
+            // Valid canonical direction but no exit - emit generation hint
+            const hintStore = getExitGenerationHintStore()
+            const hintPlayerId = playerId || 'anonymous'
+            const hintResult = hintStore.checkAndRecord(hintPlayerId, fromId, dir)
+
+            // Emit telemetry event with hashed identifiers (privacy)
+            if (hintResult.shouldEmit) {
+                const telemetryProps = {
+                    dir,
+                    originHashed: hashPlayerIdForTelemetry(fromId),
+                    playerHashed: hashPlayerIdForTelemetry(hintPlayerId),
+                    timestamp: hintResult.hint.timestamp,
+                    debounceHit: hintResult.debounceHit
+                }
+                track('Navigation.Exit.GenerationRequested', telemetryProps)
+
+                // Publish hint for async materialization only when we have a valid
+                // authenticated player GUID (queue schema requires UUID playerId).
+                if (playerId) {
+                    const payload: ExitGenerationHintPayload = {
+                        dir,
+                        originLocationId: fromId,
+                        playerId,
+                        timestamp: hintResult.hint.timestamp,
+                        debounced: hintResult.debounceHit
+                    }
+
+                    try {
+                        await this.exitHintPublisher.enqueueHint(payload, correlationId)
+                    } catch {
+                        // Non-blocking: hint enqueue failures should not fail move responses.
+                    }
+                }
+            }
+
+            // Return generate status with hint payload
+            const latencyMs = Date.now() - started
+            return {
+                success: false,
+                error: {
+                    type: 'generate',
+                    statusCode: 400,
+                    reason: 'no-exit',
+                    clarification: `No exit ${dir} from here yet. Your interest has been noted.`,
+                    generationHint: {
+                        originLocationId: fromId,
+                        direction: dir
+                    }
+                },
+                latencyMs
+            }
+        }
+
+        // Determine the simulated travel time for this movement leg.
+        // This is used for narrative/time consistency and should not be confused with request latency.
+        const legTravelDurationMs =
+            typeof exit.travelDurationMs === 'number' && exit.travelDurationMs > 0 ? exit.travelDurationMs : DEFAULT_TRAVEL_DURATION_MS
+        const legTravelSource: 'edge' | 'default' =
+            typeof exit.travelDurationMs === 'number' && exit.travelDurationMs > 0 ? 'edge' : 'default'
+
+        // Execute move
+        const result = await this.locationRepo.move(fromId, dir)
+        if (result.status === 'error') {
+            const reason = result.reason
+            const statusMap: Record<string, number> = { 'from-missing': 404, 'no-exit': 400, 'target-missing': 500 }
+            const props = {
+                from: fromId,
+                direction: dir,
+                status: statusMap[reason] || 500,
+                reason,
+                latencyMs: Date.now() - started
+            }
+            enrichMovementAttributes(props, {
+                playerId,
+                fromLocationId: fromId,
+                exitDirection: dir
+            })
+            enrichErrorAttributes(props, { errorCode: reason })
+            track('Navigation.Move.Blocked', props)
+            return {
+                success: false,
+                error: { type: 'move-failed', statusCode: statusMap[reason] || 500, reason },
+                latencyMs: Date.now() - started
+            }
+        }
+
+        // Update heading
+        if (playerId) headingStore.setLastHeading(playerId, dir)
+
+        // Update player location in persistent storage
+        let firstVisit = true
+        if (playerId) {
+            try {
+                const player = await this.playerRepo.get(playerId)
+                if (!player) {
+                    // Player document missing - CRITICAL ERROR, fail the move
+                    track('Player.Update', {
+                        playerId,
+                        success: false,
+                        reason: 'player-not-found',
+                        toLocationId: result.location.id
+                    })
+                    return {
+                        success: false,
+                        error: { type: 'move-failed', statusCode: 500, reason: 'player-not-found' },
+                        latencyMs: Date.now() - started
+                    }
+                }
+                player.currentLocationId = result.location.id
+                await this.playerRepo.update(player)
+                // Co-located players see the arrival; the player's discovery ledger notes the sighting (both non-blocking)
+                await this.presence.recordPresence(player, result.location.id, 'move', correlationId)
+                const sighting = await this.discovery.recordSighting(player.id, result.location, 'move', correlationId)
+                // An unrecorded sighting counts as a first visit, so the description is never wrongly withheld
+                firstVisit = !sighting || sighting.visitCount === 1
+                // Emit success telemetry for persistence
+                track('Player.Update', {
+                    playerId,
+                    success: true,
+                    toLocationId: result.location.id,
+                    latencyMs: Date.now() - started
+                })
+            } catch (error) {
+                // Update failed - FAIL THE MOVE
+                track('Player.Update', {
+                    playerId,
+                    success: false,
+                    reason: 'update-failed',
+                    toLocationId: result.location.id,
+                    error: error instanceof Error ? error.message : String(error)
+                })
+                return {
+                    success: false,
+                    error: { type: 'move-failed', statusCode: 500, reason: 'persistence-failed' },
+                    latencyMs: Date.now() - started
+                }
+            }
+
+            // Arrival counts toward `visit` quest objectives (non-blocking)
+            await this.questProgress.recordProgress(
+                playerId,
+                { kind: 'visit', targetId: result.location.id, targetName: result.location.name },
+                correlationId
+            )
+        }
+
+        // Compile description for the new location in the current conditions (time of day, lighting, zone weather)
+        // Pass location's description as the base - layers are applied on top
+        const view = await this.conditions.viewFor(result.location)
+        const compiled = await this.descriptionComposer.compileForLocation(result.location.id, view.context, {
+            baseDescription: result.location.description,
+            inheritedLayers: view.inheritedLayers
+        })
+
+        // Brief / superbrief players get name and exits only on familiar ground
+        const descriptionOmitted = await this.verbosity.arrivalOmission(playerId, firstVisit)
+
+        // Build exit availability info using shared helper
+        const exitInfoArray = convertLocationExitsToExitInfo(result.location.exits, result.location.exitAvailability)
+
+        // Prefetch batch generation for pending exits (Issue #811)
+        // Only trigger on successful arrival at explicitly tagged frontier boundaries.
+        // This prevents chain-reaction fanout from newly materialized generic stubs
+        // while preserving proactive expansion from curated boundary anchors.
+        if (result.location.exitAvailability && result.location.tags?.includes(FRONTIER_BOUNDARY_TAG)) {
+            try {
+                const prefetchResult = tryCreatePrefetchEvent(
+                    result.location.id,
+                    (result.location.terrain || 'open-plain') as TerrainType,
+                    // Contract: arrivalDirection is the direction the player arrived FROM.
+                    // If the player moved "north", they arrived from "south".
+                    getOppositeDirection(dir as Direction),
+                    result.location.exitAvailability,
+                    correlationId,
+                    undefined,
+                    result.location.tags
+                )
+
+                if (prefetchResult.event) {
+                    // Enqueue batch generation event
+                    await this.eventPublisher.enqueueEvents([prefetchResult.event])
+
+                    // Emit telemetry — selectedDirections makes the atlas-constrained selection
+                    // understandable during debugging (which directions were chosen and why).
+                    track('World.BatchGeneration.Prefetch', {
+                        rootLocationId: result.location.id,
+                        pendingExitCount: prefetchResult.pendingExitCount,
+                        selectedDirections: prefetchResult.selectedDirections?.join(','),
+                        correlationId
+                    })
+                } else if (prefetchResult.debounced) {
+                    // Emit debounce telemetry
+                    track('World.BatchGeneration.Debounced', {
+                        rootLocationId: result.location.id,
+                        pendingExitCount: prefetchResult.pendingExitCount,
+                        correlationId
+                    })
+                }
+            } catch (error) {
+                // Log error but don't fail the move (non-blocking)
+                track('World.BatchPrefetch.Failed', {
+                    rootLocationId: result.location.id,
+                    error: error instanceof Error ? error.message : String(error),
+                    correlationId
+                })
+            }
+        }
+
+        const latencyMs = Date.now() - started
+        const props = {
+            from: fromId,
+            to: result.location.id,
+            direction: dir,
+            status: 200,
+            rawInput: rawDir !== dir.toLowerCase() ? rawDir : undefined,
+            latencyMs
+        }
+        enrichMovementAttributes(props, {
+            playerId,
+            fromLocationId: fromId,
+            toLocationId: result.location.id,
+            exitDirection: dir
+        })
+        track('Navigation.Move.Success', props)
+
+        return {
+            success: true,
+            location: {
+                id: result.location.id,
+                name: result.location.name,
+                description: arrivalDescription(
+                    {
+                        text: compiled.text,
+                        html: compiled.html,
+                        provenance: {
+                            compiledAt: compiled.provenance.compiledAt,
+                            layersApplied: compiled.provenance.layers.map((l) => l.layerType),
+                            supersededSentences: 0
+                        }
+                    },
+                    descriptionOmitted
+                ),
+                ...(descriptionOmitted ? { descriptionOmitted } : {}),
+                exits: exitInfoArray,
+                travel: {
+                    durationMs: legTravelDurationMs,
+                    source: legTravelSource
+                }
+            },
+            latencyMs
+        }
+    }
+}
@@ -0,0 +1,202 @@
+/**
+ * NpcBehaviorService — deterministic decide step for NPC.Tick.
+ *
+ * Given an NPC and a world clock tick, picks at most one action. Priority order:
+ *   1. react    — a player acted at the NPC's location shortly before the tick (timeline event the NPC has not reacted to yet).
+ *                 wary NPCs leave by the first canonical exit; everyone else says a line keyed to their disposition.
+ *   2. schedule — the schedule window covering the current hour names another location: move one hop towards it.
+ *   3. wander   — NPCs tagged 'behavior:wander' pick an exit (or linger) from a hash of (npcId, tick).
+ *   4. idle     — nothing to do (always, for NPCs defeated in combat).
+ *
+ * NPCs only use walkable exits: exits a player has locked with a key are closed to them too.
+ *
+ * The service only reads; the caller turns the decision into a proposal and applies it through
+ * AgentProposalApplicator. The same (npc state, tick and its timestamp, timeline) always yields the same decision.
+ */
+
+import type { Direction, NpcDisposition, NpcEntity, NpcScheduleEntry } from '@piquet-h/shared'
+import { inject, injectable } from 'inversify'
+import { TOKENS } from '../di/tokens.js'
+import { walkableExits, type ExitEdgeResult } from '../repos/exitRepository.js'
+import type { ILocationRepository } from '../repos/locationRepository.js'
+import { buildLocationScopeKey, type IWorldEventRepository, type WorldEventRecord } from '../repos/worldEventRepository.js'
+
+/** World clock ticks are milliseconds; one in-game hour. */
+const MS_PER_HOUR = 3_600_000
+
+/** Only events this recent, measured back from the tick's own timestamp, trigger a reaction. */
+export const NPC_REACTION_WINDOW_MS = 5 * 60_000
+
+/** Maximum hops searched when routing an NPC towards its scheduled location. */
+const MAX_SCHEDULE_PATH_DEPTH = 8
+
+/** Timeline event types that an NPC notices. */
+const REACTIVE_EVENT_TYPES = new Set(['Player.Move', 'Player.Look', 'Player.Take', 'Player.Drop'])
+
+export const NPC_WANDER_TAG = 'behavior:wander'
+
+export type NpcBehavior = 'react' | 'schedule' | 'wander'
+
+export type NpcTickDecision =
+    | { kind: 'move'; behavior: NpcBehavior; direction: Direction; toLocationId: string; reason: string; triggerEventId?: string }
+    | { kind: 'speak'; behavior: 'react'; line: string; reason: string; triggerEventId: string }
+    | { kind: 'idle'; reason: string }
+
+const REACTION_LINES: Record<NpcDisposition, readonly string[]> = {
+    friendly: ['{name} looks up and offers a warm greeting.', '{name} waves you over with a smile.'],
+    neutral: ['{name} glances your way, then returns to their business.', '{name} acknowledges you with a curt nod.'],
+    wary: ['{name} shrinks back, watching you carefully.'],
+    hostile: ['{name} eyes you coldly. "Keep your distance."', '{name} rests a hand on a weapon and watches you closely.']
+}
+
+/** djb2 hash (32-bit unsigned) — stable selector for deterministic choices. */
+export function hashString(input: string): number {
+    let hash = 5381
+    for (let i = 0; i < input.length; i++) {
+        hash = ((hash << 5) + hash) ^ input.charCodeAt(i)
+        hash = hash >>> 0
+    }
+    return hash
+}
+
+/** In-game hour (0-23) for a world clock tick. */
+export function hourOfTick(tick: number): number {
+    return Math.floor(tick / MS_PER_HOUR) % 24
+}
+
+/**
+ * Schedule entry covering the given hour. toHour is exclusive; windows with fromHour > toHour wrap midnight.
+ */
+export function findActiveScheduleEntry(schedule: NpcScheduleEntry[] | undefined, hour: number): NpcScheduleEntry | undefined {
+    return schedule?.find((entry) =>
+        entry.fromHour <= entry.toHour ? hour >= entry.fromHour && hour < entry.toHour : hour >= entry.fromHour || hour < entry.toHour
+    )
+}
+
+/** Deterministic reaction line for an NPC noticing a given event. */
+export function pickReactionLine(npc: Pick<NpcEntity, 'id' | 'name' | 'disposition'>, triggerEventId: string): string {
+    const pool = REACTION_LINES[npc.disposition] ?? REACTION_LINES.neutral
+    return pool[hashString(`${npc.id}:${triggerEventId}`) % pool.length].replace('{name}', npc.name)
+}
+
+@injectable()
+export class NpcBehaviorService {
+    constructor(
+        @inject(TOKENS.LocationRepository) private readonly locationRepo: ILocationRepository,
+        @inject(TOKENS.WorldEventRepository) private readonly worldEventRepo: IWorldEventRepository
+    ) {}
+
+    /**
+     * @param tick - World clock tick being evaluated (schedule hour, wander choice)
+     * @param tickUtc - When the tick was issued (the NPC.Tick envelope's occurredUtc); reactions are judged
+     *                  against it rather than the processing time, so a late or replayed tick decides the same way
+     */
+    async decide(npc: NpcEntity, tick: number, tickUtc: Date): Promise<NpcTickDecision> {
+        if (npc.attributes?.defeated === true) {
+            return { kind: 'idle', reason: 'defeated' }
+        }
+
+        const trigger = await this.findReactionTrigger(npc, tickUtc)
+        if (trigger) {
+            return this.decideReaction(npc, trigger)
+        }
+
+        const scheduled = findActiveScheduleEntry(npc.schedule, hourOfTick(tick))
+        const target = scheduled?.locationId ?? (npc.schedule?.length ? npc.homeLocationId : undefined)
+        if (target) {
+            if (target === npc.locationId) {
+                return { kind: 'idle', reason: 'on-schedule' }
+            }
+            const step = await this.findFirstStep(npc.locationId, target)
+            if (!step) {
+                return { kind: 'idle', reason: 'schedule-unreachable' }
+            }
+            return { kind: 'move', behavior: 'schedule', ...step, reason: scheduled ? 'schedule-window' : 'return-home' }
+        }
+
+        if (npc.tags?.includes(NPC_WANDER_TAG)) {
+            const exits = await this.exitsFrom(npc.locationId)
+            if (exits.length === 0) {
+                return { kind: 'idle', reason: 'no-exits' }
+            }
+            // One extra slot means "linger here this tick".
+            const choice = hashString(`${npc.id}:${tick}`) % (exits.length + 1)
+            if (choice === exits.length) {
+                return { kind: 'idle', reason: 'wander-linger' }
+            }
+            const exit = exits[choice]
+            return { kind: 'move', behavior: 'wander', direction: exit.direction, toLocationId: exit.toLocationId, reason: 'wander' }
+        }
+
+        return { kind: 'idle', reason: 'no-behavior' }
+    }
+
+    // ------------------------------------------------------------------
+    // Private helpers
+    // ------------------------------------------------------------------
+
+    /** Walkable exits from a location (locked exits excluded), in canonical order. */
+    private async exitsFrom(locationId: string): Promise<ExitEdgeResult[]> {
+        return walkableExits(await this.locationRepo.get(locationId))
+    }
+
+    /** Most recent player event at the NPC's location as of the tick, unless it is stale or already reacted to. */
+    private async findReactionTrigger(npc: NpcEntity, tickUtc: Date): Promise<WorldEventRecord | undefined> {
+        const { events } = await this.worldEventRepo.queryByScope(buildLocationScopeKey(npc.locationId), { limit: 10, order: 'desc' })
+        const latest = events.find(
+            (e) => REACTIVE_EVENT_TYPES.has(e.eventType) && e.actorKind === 'player' && Date.parse(e.occurredUtc) <= tickUtc.getTime()
+        )
+        if (!latest || latest.id === npc.lastReactedEventId) return undefined
+        if (tickUtc.getTime() - Date.parse(latest.occurredUtc) > NPC_REACTION_WINDOW_MS) return undefined
+        return latest
+    }
+
+    private async decideReaction(npc: NpcEntity, trigger: WorldEventRecord): Promise<NpcTickDecision> {
+        if (npc.disposition === 'wary') {
+            const [exit] = await this.exitsFrom(npc.locationId)
+            if (exit) {
+                return {
+                    kind: 'move',
+                    behavior: 'react',
+                    direction: exit.direction,
+                    toLocationId: exit.toLocationId,
+                    reason: `flee:${trigger.eventType}`,
+                    triggerEventId: trigger.id
+                }
+            }
+        }
+        return {
+            kind: 'speak',
+            behavior: 'react',
+            line: pickReactionLine(npc, trigger.id),
+            reason: `notice:${trigger.eventType}`,
+            triggerEventId: trigger.id
+        }
+    }
+
+    /** Breadth-first search over exits; returns the first hop of a shortest path to the target. */
+    private async findFirstStep(
+        fromLocationId: string,
+        targetLocationId: string
+    ): Promise<{ direction: Direction; toLocationId: string } | null> {
+        const visited = new Set([fromLocationId])
+        let frontier: { locationId: string; firstStep: { direction: Direction; toLocationId: string } | null }[] = [
+            { locationId: fromLocationId, firstStep: null }
+        ]
+
+        for (let depth = 0; depth < MAX_SCHEDULE_PATH_DEPTH && frontier.length > 0; depth++) {
+            const next: typeof frontier = []
+            for (const node of frontier) {
+                for (const exit of await this.exitsFrom(node.locationId)) {
+                    if (visited.has(exit.toLocationId)) continue
+                    visited.add(exit.toLocationId)
+                    const firstStep = node.firstStep ?? { direction: exit.direction, toLocationId: exit.toLocationId }
+                    if (exit.toLocationId === targetLocationId) return firstStep
+                    next.push({ locationId: exit.toLocationId, firstStep })
+                }
+            }
+            frontier = next
+        }
+        return null
+    }
+}
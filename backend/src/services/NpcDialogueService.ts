@@ -0,0 +1,231 @@
+/**
+ * NpcDialogueService — player↔NPC conversations for the `talk to <npc>` command.
+ *
+ * Flow:
+ *   1. Resolve the player's location and the NPC they referred to (must be co-located).
+ *   2. Load the persisted dialogue session for (player, NPC).
+ *   3. Generate the NPC's line from the npc-dialogue-generator prompt template via Azure OpenAI,
+ *      falling back to a deterministic disposition-based line when AI is unconfigured, slow or invalid.
+ *   4. Persist the exchange through AgentProposalApplicator (NPC.Dialogue with params.playerId)
+ *      so ambient and conversational NPC speech share one write gate.
+ *   5. Advance any `talk` quest objectives naming the NPC.
+ *
+ * Generation never throws: every AI failure degrades to the fallback line.
+ */
+
+import {
+    interpolatePromptTemplate,
+    STARTER_LOCATION_ID,
+    type NpcDialogueSession,
+    type NpcDisposition,
+    type NpcEntity,
+    type PromptLoader
+} from '@piquet-h/shared'
+import type { IPlayerRepository } from '@piquet-h/shared/types/playerRepository'
+import { inject, injectable } from 'inversify'
+import { TOKENS } from '../di/tokens.js'
+import type { IDialogueSessionRepository } from '../repos/dialogueSessionRepository.js'
+import type { INpcRepository } from '../repos/npcRepository.js'
+import { buildLocationScopeKey } from '../repos/worldEventRepository.js'
+import { TelemetryService } from '../telemetry/TelemetryService.js'
+import { AgentProposalApplicator } from './AgentProposalApplicator.js'
+import type { AzureOpenAIClientConfig, IAzureOpenAIClient } from './azureOpenAIClient.js'
+import { hashString } from './NpcBehaviorService.js'
+import { QuestProgressService } from './QuestProgressService.js'
+import type { IWorldClockService } from './types.js'
+import { findItemByReference } from './worldItemTransfers.js'
+
+/** Prompt template used for NPC lines. */
+export const NPC_DIALOGUE_TEMPLATE_ID = 'npc-dialogue-generator'
+
+/** Longest AI line accepted before falling back (one or two spoken sentences). */
+const MAX_LINE_LENGTH = 400
+
+/** Recent turns included in the prompt so the NPC stays consistent across the conversation. */
+const PROMPT_HISTORY_TURNS = 6
+
+const GREETING_LINES: Record<NpcDisposition, readonly string[]> = {
+    friendly: ['Well met, traveller! What brings you my way?', 'Ah, a new face. Sit a while, if you like.'],
+    neutral: ['Yes? Something you need?', 'Hm. Speak your business.'],
+    wary: ['Who are you? ...What do you want?', 'Stay back a pace. Now, what is it?'],
+    hostile: ['You have some nerve speaking to me.', 'Say what you came to say, then leave.']
+}
+
+const FOLLOW_UP_LINES: Record<NpcDisposition, readonly string[]> = {
+    friendly: ['Good to see you again. What else is on your mind?', 'Still here? Ask away, friend.'],
+    neutral: ["I've told you what I know.", 'Anything else?'],
+    wary: ["I've said enough already.", 'Why do you keep asking me things?'],
+    hostile: ['We are done talking.', 'Push your luck further and see what happens.']
+}
+
+const DEFAULT_ALIGNMENT: Record<NpcDisposition, string> = {
+    friendly: 'Neutral Good',
+    neutral: 'True Neutral',
+    wary: 'Lawful Neutral',
+    hostile: 'Chaotic Neutral'
+}
+
+const MOOD_BY_DISPOSITION: Record<NpcDisposition, string> = {
+    friendly: 'welcoming',
+    neutral: 'indifferent',
+    wary: 'suspicious',
+    hostile: 'hostile'
+}
+
+export type NpcTalkDenialReason = 'player-not-found' | 'npc-not-found'
+
+export type NpcTalkResult =
+    | { success: true; npc: NpcEntity; locationId: string; line: string; source: 'ai' | 'fallback'; turnCount: number }
+    | { success: false; reason: NpcTalkDenialReason; message: string; locationId?: string }
+
+export interface NpcTalkRequest {
+    playerId: string
+    /** NPC id or player-supplied NPC name */
+    reference: string
+    /** Optional words the player said to the NPC */
+    message?: string
+    correlationId: string
+}
+
+/**
+ * Deterministic fallback line. Greeting on the first exchange, follow-up afterwards;
+ * the turn count salts the hash so repeated talks vary without randomness.
+ */
+export function pickFallbackDialogueLine(npc: Pick<NpcEntity, 'id' | 'disposition'>, playerId: string, turnCount: number): string {
+    const pools = turnCount === 0 ? GREETING_LINES : FOLLOW_UP_LINES
+    const pool = pools[npc.disposition] ?? pools.neutral
+    return pool[hashString(`${npc.id}:${playerId}:${turnCount}`) % pool.length]
+}
+
+/** First `prefix:value` tag on the NPC, if any. */
+function tagValue(npc: NpcEntity, prefix: string): string | undefined {
+    const tag = npc.tags?.find((t) => t.startsWith(`${prefix}:`))
+    return tag?.slice(prefix.length + 1) || undefined
+}
+
+function attributeText(npc: NpcEntity, key: string): string | undefined {
+    const value = npc.attributes?.[key]
+    return typeof value === 'string' && value.trim() ? value : undefined
+}
+
+@injectable()
+export class NpcDialogueService {
+    private readonly DEFAULT_TIMEOUT_MS = 1500
+
+    constructor(
+        @inject(TOKENS.PlayerRepository) private readonly playerRepo: IPlayerRepository,
+        @inject(TOKENS.NpcRepository) private readonly npcRepo: INpcRepository,
+        @inject(TOKENS.DialogueSessionRepository) private readonly sessionRepo: IDialogueSessionRepository,
+        @inject(TOKENS.WorldClockService) private readonly worldClock: IWorldClockService,
+        @inject(TOKENS.AzureOpenAIClient) private readonly openaiClient: IAzureOpenAIClient,
+        @inject(TOKENS.AzureOpenAIConfig) private readonly config: AzureOpenAIClientConfig,
+        @inject(TOKENS.PromptLoader) private readonly promptLoader: PromptLoader,
+        @inject(AgentProposalApplicator) private readonly applicator: AgentProposalApplicator,
+        @inject(QuestProgressService) private readonly questProgress: QuestProgressService,
+        @inject(TelemetryService) private readonly telemetry: TelemetryService
+    ) {}
+
+    /** Speak to an NPC at the player's current location and persist the exchange. */
+    async talk(request: NpcTalkRequest): Promise<NpcTalkResult> {
+        const { playerId, reference, correlationId } = request
+        const player = await this.playerRepo.get(playerId)
+        if (!player) {
+            return { success: false, reason: 'player-not-found', message: 'Player not found' }
+        }
+
+        const locationId = player.currentLocationId || STARTER_LOCATION_ID
+        const npcsHere = await this.npcRepo.listNpcsAtLocation(locationId)
+        const npc = findItemByReference(npcsHere, reference, (n) => n.name)
+        if (!npc) {
+            return { success: false, reason: 'npc-not-found', message: `There is no "${reference}" here to talk to.`, locationId }
+        }
+
+        const message = request.message?.trim() || undefined
+        const session = await this.sessionRepo.getSession(playerId, npc.id)
+        const { line, source } = await this.generateLine(npc, playerId, session, message, correlationId)
+
+        const tick = await this.worldClock.getCurrentTick()
+        await this.applicator.apply(
+            {
+                actionType: 'NPC.Dialogue',
+                scopeKey: buildLocationScopeKey(locationId),
+                params: { npcId: npc.id, playerId, line, source, ...(message ? { playerMessage: message } : {}) }
+            },
+            correlationId,
+            tick
+        )
+
+        await this.questProgress.recordProgress(playerId, { kind: 'talk', targetId: npc.id, targetName: npc.name }, correlationId)
+
+        const turnCount = (session?.turnCount ?? 0) + (message ? 2 : 1)
+        return { success: true, npc, locationId, line, source, turnCount }
+    }
+
+    private async generateLine(
+        npc: NpcEntity,
+        playerId: string,
+        session: NpcDialogueSession | null,
+        message: string | undefined,
+        correlationId: string
+    ): Promise<{ line: string; source: 'ai' | 'fallback' }> {
+        const startTime = Date.now()
+        const fallback = (reason: string) => {
+            this.telemetry.trackGameEvent(
+                'NPC.Dialogue.Generated',
+                { npcId: npc.id, source: 'fallback', reason, latencyMs: Date.now() - startTime, correlationId },
+                { correlationId }
+            )
+            return { line: pickFallbackDialogueLine(npc, playerId, session?.turnCount ?? 0), source: 'fallback' as const }
+        }
+
+        if (!this.config.endpoint) return fallback('config-missing')
+
+        let prompt: string
+        try {
+            const template = await this.promptLoader.getById(NPC_DIALOGUE_TEMPLATE_ID)
+            if (!template) return fallback('template-missing')
+            prompt = this.buildPrompt(interpolatePromptTemplate(template, this.templateValues(npc)), npc, session, message)
+        } catch {
+            return fallback('template-error')
+        }
+
+        const result = await this.openaiClient.generate({ prompt, maxTokens: 120, temperature: 0.8, timeoutMs: this.DEFAULT_TIMEOUT_MS })
+        if (!result) return fallback('generation-failed')
+
+        const line = result.content
+            .trim()
+            .replace(/^"(.*)"$/s, '$1')
+            .trim()
+        if (!line || line.length > MAX_LINE_LENGTH) return fallback('invalid-response')
+
+        this.telemetry.trackGameEvent(
+            'NPC.Dialogue.Generated',
+            { npcId: npc.id, source: 'ai', latencyMs: Date.now() - startTime, correlationId },
+            { correlationId }
+        )
+        return { line, source: 'ai' }
+    }
+
+    private templateValues(npc: NpcEntity): Record<string, string | undefined> {
+        return {
+            npc_name: npc.name,
+            faction: tagValue(npc, 'faction') ?? attributeText(npc, 'faction') ?? 'Unaffiliated',
+            alignment: attributeText(npc, 'alignment') ?? DEFAULT_ALIGNMENT[npc.disposition],
+            personality_traits: attributeText(npc, 'personality'),
+            npc_mood: attributeText(npc, 'mood') ?? MOOD_BY_DISPOSITION[npc.disposition]
+        }
+    }
+
+    private buildPrompt(instructions: string, npc: NpcEntity, session: NpcDialogueSession | null, message: string | undefined): string {
+        const history = (session?.turns ?? [])
+            .slice(-PROMPT_HISTORY_TURNS)
+            .map((turn) => `${turn.speaker === 'npc' ? npc.name : 'Player'}: ${turn.text}`)
+        return [
+            instructions,
+            npc.description ? `\nAppearance: ${npc.description}` : '',
+            history.length > 0 ? `\nConversation so far:\n${history.join('\n')}` : '\nThis is their first conversation.',
+            message ? `\nThe player says: "${message}"` : '\nThe player approaches to talk.',
+            `\nRespond with only ${npc.name}'s next spoken line (at most two sentences), without quotation marks or narration.`
+        ].join('\n')
+    }
+}
@@ -0,0 +1,62 @@
+/**
+ * PlayerPreferencesService — the player's interface and gameplay preferences (text size, theme, reduced motion,
+ * description verbosity, auto-look on move, navigation buttons, map defaults).
+ *
+ * Preferences live on the PlayerDoc (`preferences`), holding only what the player changed; reads fill in
+ * DEFAULT_PLAYER_PREFERENCES (resolvePlayerPreferences). Being server-side, they follow the player to every
+ * device: a linked account resolves to the same player wherever it signs in. Verbosity is the same value the
+ * `brief` / `verbose` / `superbrief` commands set (DescriptionVerbosityService).
+ *
+ * Players who chose a verbosity before preferences existed have it on the PlayerDoc itself (`verbosity`); it is
+ * read as their verbosity preference and moved into `preferences` on their next preference change.
+ */
+
+import {
+    mergePlayerPreferences,
+    resolvePlayerPreferences,
+    type PlayerDoc,
+    type PlayerPreferences,
+    type PlayerPreferencesPatch
+} from '@piquet-h/shared'
+import { inject, injectable } from 'inversify'
+import { TOKENS } from '../di/tokens.js'
+import type { IPlayerDocRepository } from '../repos/PlayerDocRepository.js'
+import { TelemetryService } from '../telemetry/TelemetryService.js'
+
+/** The preferences stored on a PlayerDoc, with the legacy top-level verbosity folded in (a stored preference wins). */
+export function storedPreferences(doc: PlayerDoc): PlayerPreferencesPatch | undefined {
+    return doc.verbosity ? { verbosity: doc.verbosity, ...doc.preferences } : doc.preferences
+}
+
+/** The PlayerDoc fields that change when `patch` is applied; the legacy verbosity is migrated into the preferences. */
+export function withPreferences(doc: PlayerDoc, patch: PlayerPreferencesPatch): Pick<PlayerDoc, 'preferences' | 'verbosity'> {
+    return { preferences: mergePlayerPreferences(storedPreferences(doc), patch), verbosity: undefined }
+}
+
+@injectable()
+export class PlayerPreferencesService {
+    constructor(
+        @inject(TOKENS.PlayerDocRepository) private readonly playerDocRepo: IPlayerDocRepository,
+        @inject(TelemetryService) private readonly telemetry: TelemetryService
+    ) {}
+
+    /** The player's preferences with defaults filled in, or null when the player has no PlayerDoc. */
+    async getPreferences(playerId: string): Promise<PlayerPreferences | null> {
+        const doc = await this.playerDocRepo.getPlayer(playerId)
+        return doc ? resolvePlayerPreferences(storedPreferences(doc)) : null
+    }
+
+    /**
+     * Apply a validated patch (parsePlayerPreferencesPatch) over the stored preferences.
+     * @returns The full preferences after the change, or null when the player has no PlayerDoc
+     */
+    async updatePreferences(playerId: string, patch: PlayerPreferencesPatch, correlationId?: string): Promise<PlayerPreferences | null> {
+        const updated = await this.playerDocRepo.patchPlayer(playerId, (doc) => withPreferences(doc, patch))
+        if (!updated) return null
+        const fields = Object.entries(patch).flatMap(([key, value]) =>
+            key === 'map' && value && typeof value === 'object' ? Object.keys(value).map((mapKey) => `map.${mapKey}`) : [key]
+        )
+        this.telemetry.trackGameEvent('Player.Preferences.Updated', { playerId, fields: fields.join(',') }, { correlationId })
+        return resolvePlayerPreferences(updated.preferences)
+    }
+}
@@ -0,0 +1,103 @@
+/**
+ * PresenceService — who is where, for players seeing each other.
+ *
+ * Maintains the player presence projection (IPlayerPresenceRepository): each time a player bootstraps a
+ * session or changes location (move, travel, flee) their entry is refreshed with the new location and a
+ * lastSeenUtc timestamp. A player not refreshed within PRESENCE_STALE_AFTER_MS counts as offline; the
+ * entry also carries a matching TTL so abandoned sessions disappear on their own. A change of location is
+ * announced to players standing at either end (LiveEventService: player.departed / player.arrived).
+ *
+ * Presence is a side effect of the action that refreshed it, so recordPresence never throws: failures
+ * are tracked and swallowed and the calling command still succeeds. Player ids are never exposed to other
+ * players (the guest GUID is a credential); entries carry a display name instead.
+ */
+
+import { hashPlayerIdForTelemetry, type PlayerPresence } from '@piquet-h/shared'
+import { inject, injectable } from 'inversify'
+import { TOKENS } from '../di/tokens.js'
+import type { ILocationRepository } from '../repos/locationRepository.js'
+import type { IPlayerPresenceRepository } from '../repos/playerPresenceRepository.js'
+import { TelemetryService } from '../telemetry/TelemetryService.js'
+import { LiveEventService } from './LiveEventService.js'
+
+/** Players not seen for this long are offline (15 minutes). */
+export const PRESENCE_STALE_AFTER_MS = 15 * 60_000
+
+/** What refreshed a player's presence. */
+export type PresenceSource = 'bootstrap' | 'move' | 'travel' | 'flee'
+
+export interface OnlinePlayer extends PlayerPresence {
+    locationName?: string
+}
+
+/** Name shown to other players: the chosen name, or a stable pseudonym derived from (not revealing) the id. */
+export function presenceDisplayName(player: { id: string; name?: string }): string {
+    const name = player.name?.trim()
+    return name ? name : `Traveller ${hashPlayerIdForTelemetry(player.id).slice(0, 4)}`
+}
+
+@injectable()
+export class PresenceService {
+    constructor(
+        @inject(TOKENS.PlayerPresenceRepository) private readonly presenceRepo: IPlayerPresenceRepository,
+        @inject(TOKENS.LocationRepository) private readonly locationRepo: ILocationRepository,
+        @inject(TelemetryService) private readonly telemetry: TelemetryService,
+        @inject(LiveEventService) private readonly liveEvents: LiveEventService
+    ) {}
+
+    /** Refresh where the player is and when they were last seen. */
+    async recordPresence(
+        player: { id: string; name?: string },
+        locationId: string,
+        source: PresenceSource,
+        correlationId?: string
+    ): Promise<void> {
+        try {
+            const previous = await this.presenceRepo.getPresence(player.id)
+            const name = presenceDisplayName(player)
+            await this.presenceRepo.upsertPresence({
+                id: player.id,
+                name,
+                locationId,
+                lastSeenUtc: new Date().toISOString(),
+                ttl: PRESENCE_STALE_AFTER_MS / 1000
+            })
+            this.telemetry.trackGameEvent('Multiplayer.Presence.Updated', { playerId: player.id, locationId, source }, { correlationId })
+
+            if (previous?.locationId !== locationId) {
+                const live = { actorPlayerId: player.id, correlationId }
+                if (previous && previous.lastSeenUtc >= this.staleCutoff()) {
+                    const text = source === 'flee' ? `${name} flees.` : `${name} leaves.`
+                    this.liveEvents.publish({ kind: 'player.departed', locationId: previous.locationId, text, actorName: name }, live)
+                }
+                this.liveEvents.publish({ kind: 'player.arrived', locationId, text: `${name} arrives.`, actorName: name }, live)
+            }
+        } catch (error) {
+            this.telemetry.trackGameEvent(
+                'Multiplayer.Presence.Failed',
+                { playerId: player.id, source, error: error instanceof Error ? error.message : String(error) },
+                { correlationId }
+            )
+        }
+    }
+
+    /** Players currently at a location, most recently seen first (optionally leaving out the viewer). */
+    async listPlayersAt(locationId: string, excludePlayerId?: string): Promise<PlayerPresence[]> {
+        const present = await this.presenceRepo.listAtLocation(locationId, this.staleCutoff())
+        return present.filter((p) => p.id !== excludePlayerId)
+    }
+
+    /** Every player online, most recently seen first, with the name of the location they are in. */
+    async listOnline(): Promise<OnlinePlayer[]> {
+        const online = await this.presenceRepo.listOnline(this.staleCutoff())
+        const names = new Map<string, string | undefined>()
+        for (const locationId of new Set(online.map((p) => p.locationId))) {
+            names.set(locationId, (await this.locationRepo.get(locationId))?.name)
+        }
+        return online.map((p) => ({ ...p, locationName: names.get(p.locationId) }))
+    }
+
+    private staleCutoff(): string {
+        return new Date(Date.now() - PRESENCE_STALE_AFTER_MS).toISOString()
+    }
+}
@@ -0,0 +1,174 @@
+/**
+ * QuestProgressService — advances quest objectives from player actions.
+ *
+ * Callers report what the player just did (moved into a location, picked up an item, spoke with an NPC);
+ * every matching objective on the player's active quests advances by one. When the last objective
+ * completes the quest moves to `completed` and its rewards are placed in the player's inventory. The quest is
+ * stored as rewarded before the rewards are placed, so they are granted at most once, and the grant advances the
+ * player's inventory version like any other inventory change.
+ *
+ * Progress is a side effect of the action that triggered it, so recordProgress never throws:
+ * failures are tracked and swallowed and the calling command still succeeds.
+ */
+
+import { canTransitionQuest, ConcurrencyException, type QuestEntity, type QuestObjective, type QuestObjectiveKind } from '@piquet-h/shared'
+import { inject, injectable } from 'inversify'
+import { v4 as uuidv4 } from 'uuid'
+import { TOKENS } from '../di/tokens.js'
+import type { IInventoryRepository } from '../repos/inventoryRepository.js'
+import type { IPlayerDocRepository } from '../repos/PlayerDocRepository.js'
+import type { IQuestRepository } from '../repos/questRepository.js'
+import { TelemetryService } from '../telemetry/TelemetryService.js'
+
+/** Attempts at advancing the inventory version when other inventory changes race the reward grant. */
+const INVENTORY_VERSION_ATTEMPTS = 3
+
+/** A player action that may satisfy quest objectives. */
+export interface QuestProgressTrigger {
+    kind: QuestObjectiveKind
+    /** Location, item or NPC id */
+    targetId: string
+    /** Display name, matched against objectives that only know a name */
+    targetName?: string
+}
+
+export interface QuestProgressUpdate {
+    questId: string
+    objectiveId: string
+    progress: number
+    required: number
+    questCompleted: boolean
+}
+
+/** True when the objective is still open and the trigger names its target. */
+export function objectiveMatches(objective: QuestObjective, trigger: QuestProgressTrigger): boolean {
+    if (objective.kind !== trigger.kind || isObjectiveComplete(objective)) return false
+    if (objective.targetId) return objective.targetId === trigger.targetId
+    if (objective.targetName && trigger.targetName) {
+        return objective.targetName.trim().toLowerCase() === trigger.targetName.trim().toLowerCase()
+    }
+    return false
+}
+
+export function isObjectiveComplete(objective: QuestObjective): boolean {
+    return objective.progress >= objective.required
+}
+
+@injectable()
+export class QuestProgressService {
+    constructor(
+        @inject(TOKENS.QuestRepository) private readonly questRepo: IQuestRepository,
+        @inject(TOKENS.InventoryRepository) private readonly inventoryRepo: IInventoryRepository,
+        @inject(TOKENS.PlayerDocRepository) private readonly playerDocRepo: IPlayerDocRepository,
+        @inject(TelemetryService) private readonly telemetry: TelemetryService
+    ) {}
+
+    /** Advance matching objectives on the player's active quests. Returns the objectives that moved. */
+    async recordProgress(playerId: string, trigger: QuestProgressTrigger, correlationId?: string): Promise<QuestProgressUpdate[]> {
+        try {
+            const quests = await this.questRepo.listQuestsForPlayer(playerId)
+            const updates: QuestProgressUpdate[] = []
+            for (const quest of quests.filter((q) => q.status === 'active')) {
+                updates.push(...(await this.advanceQuest(quest, trigger, correlationId)))
+            }
+            return updates
+        } catch (error) {
+            this.telemetry.trackGameEvent(
+                'Quest.Progress.Failed',
+                { playerId, kind: trigger.kind, error: error instanceof Error ? error.message : String(error) },
+                { correlationId }
+            )
+            return []
+        }
+    }
+
+    private async advanceQuest(quest: QuestEntity, trigger: QuestProgressTrigger, correlationId?: string): Promise<QuestProgressUpdate[]> {
+        const advanced = quest.objectives.filter((o) => objectiveMatches(o, trigger))
+        if (advanced.length === 0) return []
+
+        for (const objective of advanced) {
+            objective.progress = Math.min(objective.progress + 1, objective.required)
+        }
+
+        const questCompleted = quest.objectives.every(isObjectiveComplete) && canTransitionQuest(quest.status, 'completed')
+        const grantRewards = questCompleted && !quest.rewardsGranted
+        if (questCompleted) {
+            quest.status = 'completed'
+            quest.completedAt = new Date().toISOString()
+            quest.rewardsGranted = true
+        }
+        // Stored before the rewards are placed: a failed write must not leave the rewards to be granted again.
+        await this.questRepo.upsertQuest(quest)
+        if (grantRewards) {
+            await this.grantRewards(quest)
+        }
+
+        const updates = advanced.map((objective) => {
+            const completed = isObjectiveComplete(objective)
+            this.telemetry.trackGameEvent(
+                'Quest.Objective.Progressed',
+                {
+                    questId: quest.id,
+                    playerId: quest.playerId,
+                    objectiveId: objective.id,
+                    kind: objective.kind,
+                    progress: objective.progress,
+                    required: objective.required,
+                    completed
+                },
+                { correlationId }
+            )
+            return {
+                questId: quest.id,
+                objectiveId: objective.id,
+                progress: objective.progress,
+                required: objective.required,
+                questCompleted
+            }
+        })
+
+        if (questCompleted) {
+            this.telemetry.trackGameEvent(
+                'Quest.Completed',
+                { questId: quest.id, playerId: quest.playerId, rewardCount: quest.rewards.length },
+                { correlationId }
+            )
+        }
+        return updates
+    }
+
+    private async grantRewards(quest: QuestEntity): Promise<void> {
+        const acquiredAt = new Date().toISOString()
+        for (const reward of quest.rewards) {
+            await this.inventoryRepo.addItem({
+                id: uuidv4(),
+                playerId: quest.playerId,
+                itemType: reward.name,
+                quantity: reward.quantity ?? 1,
+                acquiredAt,
+                metadata: {
+                    name: reward.name,
+                    ...(reward.description !== undefined ? { description: reward.description } : {}),
+                    questId: quest.id
+                }
+            })
+        }
+        if (quest.rewards.length > 0) {
+            await this.advanceInventoryVersion(quest.playerId)
+        }
+    }
+
+    /** Advance the inventory version for a server-side grant (no client version to check), retrying a concurrent change. */
+    private async advanceInventoryVersion(playerId: string): Promise<void> {
+        for (let attempt = 1; ; attempt++) {
+            const doc = await this.playerDocRepo.getPlayer(playerId)
+            if (!doc) return
+            try {
+                await this.playerDocRepo.incrementInventoryVersion(playerId, doc.inventoryVersion ?? 0)
+                return
+            } catch (error) {
+                if (!(error instanceof ConcurrencyException) || attempt >= INVENTORY_VERSION_ATTEMPTS) throw error
+            }
+        }
+    }
+}
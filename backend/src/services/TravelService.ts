@@ -0,0 +1,217 @@
+/**
+ * TravelService — the `travel to <place>` command: walking the fastest known route in one go.
+ *
+ * The destination phrase is matched against location names and landmark tags ("smithy" matches a
+ * `shop:smithy` tag); exact matches are preferred over partial ones ("gate" → "North Gate").
+ * TemporalProximityService plans the fastest walkable route over existing exit edges to the nearest
+ * match. Only locations in the player's discovery ledger (plus where they stand) are known: the route
+ * neither ends at nor passes through a place the player has never seen. The route is walked leg by leg. Each leg is re-checked against the current graph just
+ * before it is taken, so the journey stops early — at the last location reached — when an exit has
+ * been locked, forbidden, turned back into a pending stub or removed since planning.
+ *
+ * Every arrival counts toward `visit` quest objectives and is recorded in the discovery ledger; the travel
+ * time of the walked legs is applied to the player clock in one advance (PlayerClockService). Travel is not
+ * allowed mid-encounter.
+ */
+
+import {
+    determineExitAvailability,
+    formatWaitDuration,
+    getPlayerHeadingStore,
+    STARTER_LOCATION_ID,
+    type Direction,
+    type Location,
+    type TravelLeg,
+    type TravelStopReason
+} from '@piquet-h/shared'
+import type { IPlayerRepository } from '@piquet-h/shared/types/playerRepository'
+import { inject, injectable } from 'inversify'
+import { TOKENS } from '../di/tokens.js'
+import type { ILocationRepository } from '../repos/locationRepository.js'
+import type { IPlayerDocRepository } from '../repos/PlayerDocRepository.js'
+import { DiscoveryService } from './DiscoveryService.js'
+import { PlayerClockService } from './PlayerClockService.js'
+import { PresenceService } from './PresenceService.js'
+import { QuestProgressService } from './QuestProgressService.js'
+import type { ITemporalProximityService } from './temporalProximityService.js'
+
+/** Longest route the planner will consider (1 day of travel). */
+export const MAX_TRAVEL_MS = 86_400_000
+
+export type TravelDenialReason = 'player-not-found' | 'invalid-destination' | 'already-there' | 'no-route' | 'in-combat'
+
+export interface TravelRequest {
+    playerId: string
+    /** Location name or landmark as typed ("the harbour steps") */
+    destination: string
+    correlationId: string
+}
+
+export interface TravelResolution {
+    destination: { id: string; name: string }
+    route: TravelLeg[]
+    legsCompleted: number
+    /** Present when a leg could not be walked */
+    stopped?: { reason: TravelStopReason; direction: string; message: string }
+    travelledMs: number
+    fromLocationId: string
+    /** Where the player ended up */
+    location: Location
+    /** Whether the player saw that location for the first time (false when the journey never left) */
+    firstVisit: boolean
+    summary: string
+}
+
+export type TravelResult =
+    | ({ success: true } & TravelResolution)
+    | { success: false; reason: TravelDenialReason; message: string; locationId?: string }
+
+const LEADING_ARTICLE = /^(?:the|a|an)\s+/
+
+function normalisePlace(text: string): string {
+    return text.toLowerCase().replace(/\s+/g, ' ').trim().replace(LEADING_ARTICLE, '')
+}
+
+/** Landmark names carried by tags: the value after the facet prefix, hyphens read as spaces (`shop:old-smithy` → "old smithy"). */
+function landmarkNames(location: Location): string[] {
+    return (location.tags ?? []).filter((tag) => tag.includes(':')).map((tag) => tag.slice(tag.indexOf(':') + 1).replace(/-/g, ' '))
+}
+
+function isExactMatch(location: Location, wanted: string): boolean {
+    return normalisePlace(location.name) === wanted || landmarkNames(location).includes(wanted)
+}
+
+function isPartialMatch(location: Location, wanted: string): boolean {
+    return ` ${normalisePlace(location.name)} `.includes(` ${wanted} `)
+}
+
+const STOP_MESSAGES: Record<TravelStopReason, (direction: string) => string> = {
+    locked: (direction) => `The way ${direction} is locked.`,
+    forbidden: (direction) => `The way ${direction} is impassable.`,
+    pending: (direction) => `The way ${direction} has not been charted yet.`,
+    'no-exit': (direction) => `There is no longer a way ${direction}.`
+}
+
+/** Re-check a planned leg against the location as it is now; returns why it cannot be walked, if it cannot. */
+function legStopReason(from: Location | undefined, leg: TravelLeg): TravelStopReason | undefined {
+    const exit = from?.exits?.find((e) => e.direction === leg.direction)
+    if (exit?.to) {
+        if (exit.lockState === 'locked') return 'locked'
+        return exit.to === leg.toLocationId ? undefined : 'no-exit'
+    }
+    const availability = determineExitAvailability(leg.direction as Direction, undefined, from?.exitAvailability)
+    return availability === 'forbidden' || availability === 'pending' ? availability : 'no-exit'
+}
+
+@injectable()
+export class TravelService {
+    constructor(
+        @inject(TOKENS.PlayerRepository) private readonly playerRepo: IPlayerRepository,
+        @inject(TOKENS.PlayerDocRepository) private readonly playerDocRepo: IPlayerDocRepository,
+        @inject(TOKENS.LocationRepository) private readonly locationRepo: ILocationRepository,
+        @inject(TOKENS.TemporalProximityService) private readonly proximity: ITemporalProximityService,
+        @inject(PlayerClockService) private readonly playerClock: PlayerClockService,
+        @inject(QuestProgressService) private readonly questProgress: QuestProgressService,
+        @inject(PresenceService) private readonly presence: PresenceService,
+        @inject(DiscoveryService) private readonly discovery: DiscoveryService
+    ) {}
+
+    /** Plan the fastest known route to the destination and walk it, stopping at the first leg that is no longer walkable. */
+    async travel(request: TravelRequest): Promise<TravelResult> {
+        const { playerId, correlationId } = request
+        const player = await this.playerRepo.get(playerId)
+        const doc = player ? await this.playerDocRepo.getPlayer(playerId) : null
+        if (!player || !doc) {
+            return { success: false, reason: 'player-not-found', message: 'Player not found' }
+        }
+
+        const fromLocationId = player.currentLocationId || STARTER_LOCATION_ID
+        if (typeof doc.attributes?.encounterNpcId === 'string' && doc.attributes.encounterNpcId) {
+            return {
+                success: false,
+                reason: 'in-combat',
+                message: 'You cannot travel in the middle of a fight.',
+                locationId: fromLocationId
+            }
+        }
+
+        const wanted = normalisePlace(request.destination)
+        if (!wanted) {
+            return { success: false, reason: 'invalid-destination', message: 'Where do you want to travel to?', locationId: fromLocationId }
+        }
+
+        const here = await this.locationRepo.get(fromLocationId)
+        if (here && (isExactMatch(here, wanted) || isPartialMatch(here, wanted))) {
+            return { success: false, reason: 'already-there', message: `You are already at ${here.name}.`, locationId: fromLocationId }
+        }
+
+        // The current location counts as discovered even for players whose ledger predates it.
+        const known = new Set([...(await this.discovery.discoveredLocationIds(playerId)), fromLocationId])
+        const isKnown = (locationId: string) => known.has(locationId)
+        const route =
+            (await this.proximity.findRoute(fromLocationId, (l) => isExactMatch(l, wanted), MAX_TRAVEL_MS, isKnown)) ??
+            (await this.proximity.findRoute(fromLocationId, (l) => isPartialMatch(l, wanted), MAX_TRAVEL_MS, isKnown))
+        if (!route || !here) {
+            return {
+                success: false,
+                reason: 'no-route',
+                message: `You don't know a way to ${request.destination.trim()}.`,
+                locationId: fromLocationId
+            }
+        }
+
+        // Walk the route, re-checking each leg just before it is taken.
+        let current = here
+        let legsCompleted = 0
+        let travelledMs = 0
+        let stopped: TravelResolution['stopped']
+        let firstVisit = false
+        for (const leg of route.legs) {
+            const from = await this.locationRepo.get(leg.fromLocationId)
+            const reason = legStopReason(from, leg)
+            const moved = reason ? undefined : await this.locationRepo.move(leg.fromLocationId, leg.direction)
+            if (!moved || moved.status === 'error') {
+                const stopReason = reason ?? 'no-exit'
+                stopped = { reason: stopReason, direction: leg.direction, message: STOP_MESSAGES[stopReason](leg.direction) }
+                break
+            }
+
+            current = moved.location
+            legsCompleted++
+            travelledMs += leg.travelDurationMs
+            // Arrival counts toward `visit` quest objectives and is noted in the discovery ledger (non-blocking)
+            const sighting = await this.discovery.recordSighting(playerId, current, 'move', correlationId)
+            firstVisit = !sighting || sighting.visitCount === 1
+            await this.questProgress.recordProgress(
+                playerId,
+                { kind: 'visit', targetId: current.id, targetName: current.name },
+                correlationId
+            )
+        }
+
+        if (legsCompleted > 0) {
+            await this.playerRepo.update({ ...player, currentLocationId: current.id })
+            await this.presence.recordPresence(player, current.id, 'travel', correlationId)
+            getPlayerHeadingStore().setLastHeading(playerId, route.legs[legsCompleted - 1].direction as Direction)
+            await this.playerClock.advancePlayerTime(playerId, travelledMs, 'travel')
+        }
+
+        const legsText = (count: number) => `${count} ${count === 1 ? 'leg' : 'legs'}`
+        const summary = stopped
+            ? `You stop at ${current.name} after ${legsText(legsCompleted)} of ${route.legs.length} toward ${route.destination.name}. ${stopped.message}`
+            : `You travel to ${route.destination.name} in ${formatWaitDuration(travelledMs)} (${legsText(legsCompleted)}).`
+
+        return {
+            success: true,
+            destination: { id: route.destination.id, name: route.destination.name },
+            route: route.legs,
+            legsCompleted,
+            ...(stopped ? { stopped } : {}),
+            travelledMs,
+            fromLocationId,
+            location: current,
+            firstVisit,
+            summary
+        }
+    }
+}
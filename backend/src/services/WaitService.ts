@@ -0,0 +1,209 @@
+/**
+ * WaitService — the `wait`, `rest` and `sleep` commands: spending game time in place.
+ *
+ * Each command runs the temporal framework end to end (world-time-temporal-reconciliation.md,
+ * "Player Action Flow"):
+ *   1. the duration comes from the request or the ActionRegistry default for the action
+ *   2. PlayerClockService advances the player clock by that duration
+ *   3. ReconcileEngine aligns the advanced clock with the location's anchor (LocationClockManager)
+ *   4. both steps are written to the temporal ledger (PlayerActionAdvanced, then Reconciled)
+ *   5. NarrativeLayer describes the time that passed
+ *
+ * `rest` and `sleep` also recover hit points (the combat `hp` / `maxHp` player attributes): a full
+ * `rest` period restores maxHp, shorter rests restore proportionally. This is how a defeated player
+ * (0 HP) gets back on their feet. None of the three can be used mid-encounter.
+ */
+
+import {
+    ActionRegistry,
+    buildPlayerScopeKey,
+    formatWaitDuration,
+    NarrativeLayer,
+    STARTER_LOCATION_ID,
+    type HitPoints,
+    type ReconciliationResult,
+    type TemporalLedgerEntry,
+    type WaitAction
+} from '@piquet-h/shared'
+import type { IPlayerRepository } from '@piquet-h/shared/types/playerRepository'
+import { inject, injectable } from 'inversify'
+import { v4 as uuidv4 } from 'uuid'
+import { TOKENS } from '../di/tokens.js'
+import type { ILocationRepository } from '../repos/locationRepository.js'
+import type { IPlayerDocRepository } from '../repos/PlayerDocRepository.js'
+import type { ITemporalLedgerRepository } from '../repos/temporalLedgerRepository.js'
+import { DEFAULT_PLAYER_STATS, readHitPoints } from './CombatService.js'
+import { LocationClockManager } from './LocationClockManager.js'
+import { PlayerClockService } from './PlayerClockService.js'
+import { ReconcileEngine } from './ReconcileEngine.js'
+import { WorldClockService } from './WorldClockService.js'
+
+/** Longest single wait (1 day); longer requests are rejected rather than clamped. */
+export const MAX_WAIT_DURATION_MS = 86_400_000
+
+export type WaitDenialReason = 'player-not-found' | 'invalid-duration' | 'in-combat'
+
+export interface WaitRequest {
+    playerId: string
+    action: WaitAction
+    /** Requested duration; omitted → ActionRegistry default for the action */
+    durationMs?: number
+    correlationId: string
+}
+
+export interface WaitResolution {
+    action: WaitAction
+    durationMs: number
+    narrative: string
+    /** Player clock before the action, after advancing, and after reconciliation */
+    tickBefore: number
+    tickAfter: number
+    locationAnchor: number
+    reconciliation: ReconciliationResult
+    player: HitPoints
+    hpRestored: number
+    summary: string
+    locationId: string
+}
+
+export type WaitResult =
+    | ({ success: true } & WaitResolution)
+    | { success: false; reason: WaitDenialReason; message: string; locationId?: string }
+
+@injectable()
+export class WaitService {
+    private readonly actions = new ActionRegistry()
+    private readonly narrativeLayer = new NarrativeLayer()
+
+    constructor(
+        @inject(TOKENS.PlayerRepository) private readonly playerRepo: IPlayerRepository,
+        @inject(TOKENS.PlayerDocRepository) private readonly playerDocRepo: IPlayerDocRepository,
+        @inject(TOKENS.LocationRepository) private readonly locationRepo: ILocationRepository,
+        @inject(TOKENS.TemporalLedgerRepository) private readonly ledger: ITemporalLedgerRepository,
+        @inject(PlayerClockService) private readonly playerClock: PlayerClockService,
+        @inject(LocationClockManager) private readonly locationClock: LocationClockManager,
+        @inject(ReconcileEngine) private readonly reconcileEngine: ReconcileEngine,
+        @inject(WorldClockService) private readonly worldClock: WorldClockService
+    ) {}
+
+    /** Spend time in place, reconcile against the location anchor and (for rest / sleep) recover HP. */
+    async passTime(request: WaitRequest): Promise<WaitResult> {
+        const { playerId, action } = request
+        const player = await this.playerRepo.get(playerId)
+        const doc = player ? await this.playerDocRepo.getPlayer(playerId) : null
+        if (!player || !doc) {
+            return { success: false, reason: 'player-not-found', message: 'Player not found' }
+        }
+
+        const locationId = player.currentLocationId || STARTER_LOCATION_ID
+        if (typeof doc.attributes?.encounterNpcId === 'string' && doc.attributes.encounterNpcId) {
+            return { success: false, reason: 'in-combat', message: `You cannot ${action} in the middle of a fight.`, locationId }
+        }
+
+        const durationMs = request.durationMs ?? this.actions.getDuration(action)
+        if (!Number.isFinite(durationMs) || durationMs <= 0 || durationMs > MAX_WAIT_DURATION_MS) {
+            return {
+                success: false,
+                reason: 'invalid-duration',
+                message: `You can ${action} for up to ${formatWaitDuration(MAX_WAIT_DURATION_MS)} at a time.`,
+                locationId
+            }
+        }
+
+        // Advance, then reconcile the advanced clock with the location anchor.
+        const tickBefore = doc.clockTick ?? 0
+        await this.playerClock.advancePlayerTime(playerId, durationMs, action)
+        const tickAdvanced = tickBefore + durationMs
+        const locationAnchor = await this.locationClock.getLocationAnchor(locationId)
+        const reconciliation = await this.reconcileEngine.reconcile(tickAdvanced, locationAnchor, playerId, locationId)
+
+        // Persist the reconciled clock and any recovered HP in one write, patched over the latest doc
+        // (the clock service just wrote, and other writers may have too).
+        let hpRestored = 0
+        const updated = await this.playerDocRepo.patchPlayer(playerId, (current) => {
+            const before = readHitPoints(current.attributes, DEFAULT_PLAYER_STATS)
+            hpRestored = action === 'wait' ? 0 : this.hitPointsRecovered(before, durationMs)
+            if (hpRestored === 0) return { clockTick: reconciliation.playerTickAfter }
+            return {
+                clockTick: reconciliation.playerTickAfter,
+                attributes: { ...(current.attributes ?? {}), hp: before.hp + hpRestored, maxHp: before.maxHp }
+            }
+        })
+        const after: HitPoints = readHitPoints((updated ?? doc).attributes, DEFAULT_PLAYER_STATS)
+
+        await this.record(request, locationId, durationMs, tickBefore, reconciliation, hpRestored)
+
+        // A player who was behind the location also lived through the catch-up.
+        const catchUpMs = reconciliation.reconciliationMethod === 'wait' ? reconciliation.playerTickAfter - tickAdvanced : 0
+        const location = await this.locationRepo.get(locationId)
+        const narrative = this.narrativeLayer.generateWaitNarrative(durationMs + catchUpMs, {
+            locationId,
+            locationDescription: location?.name
+        })
+
+        const summary = `You ${action} for ${formatWaitDuration(durationMs)}.${hpRestored > 0 ? ` (+${hpRestored} HP)` : ''}`
+        return {
+            success: true,
+            action,
+            durationMs,
+            narrative,
+            tickBefore,
+            tickAfter: reconciliation.playerTickAfter,
+            locationAnchor,
+            reconciliation,
+            player: after,
+            hpRestored,
+            summary,
+            locationId
+        }
+    }
+
+    /** A full `rest` period (ActionRegistry) restores maxHp; shorter periods restore proportionally. */
+    private hitPointsRecovered(current: HitPoints, durationMs: number): number {
+        const fullRestMs = this.actions.getDuration('rest')
+        const recovered = Math.floor((current.maxHp * Math.min(durationMs, fullRestMs)) / fullRestMs)
+        return Math.min(recovered, current.maxHp - current.hp)
+    }
+
+    /** Ledger entries for the advance and the reconciliation (player partition). */
+    private async record(
+        request: WaitRequest,
+        locationId: string,
+        durationMs: number,
+        tickBefore: number,
+        reconciliation: ReconciliationResult,
+        hpRestored: number
+    ): Promise<void> {
+        const { playerId, action, correlationId } = request
+        const worldClockTick = await this.worldClock.getCurrentTick()
+        const base: Pick<TemporalLedgerEntry, 'scopeKey' | 'worldClockTick' | 'actorId' | 'locationId'> = {
+            scopeKey: buildPlayerScopeKey(playerId),
+            worldClockTick,
+            actorId: playerId,
+            locationId
+        }
+
+        await this.ledger.log({
+            ...base,
+            id: uuidv4(),
+            eventType: 'PlayerActionAdvanced',
+            timestamp: new Date().toISOString(),
+            durationMs,
+            metadata: { actionType: action, tickBefore, tickAfter: tickBefore + durationMs, hpRestored, correlationId }
+        })
+        await this.ledger.log({
+            ...base,
+            id: uuidv4(),
+            eventType: 'Reconciled',
+            timestamp: new Date().toISOString(),
+            reconciliationMethod: reconciliation.reconciliationMethod,
+            metadata: {
+                actionType: action,
+                tickBefore: reconciliation.playerTickBefore,
+                tickAfter: reconciliation.playerTickAfter,
+                locationAnchor: reconciliation.worldClockTick,
+                correlationId
+            }
+        })
+    }
+}
@@ -0,0 +1,132 @@
+/**
+ * WeatherService — the weather of each WEATHER_ZONE realm, advanced as a seeded state machine.
+ *
+ * Weather is stored as `realm:<zoneId>`-scoped 'weather' layers, one per spell, each covering
+ * effectiveFromTick..effectiveToTick on the world clock (the value is the prose line, metadata.weatherType
+ * the state). Every location within a zone inherits the zone's layer through getActiveLayerForLocation, so
+ * look, get-atmosphere and the narrative tools all see the same weather anywhere in the zone; a location's
+ * own 'weather' layer still overrides it.
+ *
+ * The weather job (timerWeatherSimulation) calls advance(): for each zone whose last simulated spell ends
+ * before the current world tick, the next spells are drawn (nextWeatherSpell, seeded by zone and start tick)
+ * and written back to back until the current tick is covered. After a long gap only the last
+ * WEATHER_CATCH_UP_MS are filled in. Only the zone's recent layers are read (WEATHER_HISTORY_WINDOW_MS), so the
+ * cost of a run does not grow with the zone's age; a zone with no spell in that window starts afresh at the current tick.
+ */
+
+import { isWeatherState, nextWeatherSpell, WEATHER_DESCRIPTIONS, type RealmType, type WeatherState } from '@piquet-h/shared'
+import type { DescriptionLayer } from '@piquet-h/shared/types/layerRepository'
+import { inject, injectable } from 'inversify'
+import { TOKENS } from '../di/tokens.js'
+import type { ILayerRepository } from '../repos/layerRepository.js'
+import type { IRealmRepository } from '../repos/realmRepository.js'
+import { TelemetryService } from '../telemetry/TelemetryService.js'
+import type { IWorldClockService } from './types.js'
+
+/** Longest stretch of missed weather written in one run (1 in-game day). */
+export const WEATHER_CATCH_UP_MS = 86_400_000
+
+/** How far back advance() looks for a zone's last spell: the catch-up window plus more than the longest spell. */
+export const WEATHER_HISTORY_WINDOW_MS = 2 * WEATHER_CATCH_UP_MS
+
+/** metadata.source of layers written by the simulation (other weather layers are left alone). */
+export const WEATHER_SIMULATION_SOURCE = 'weather-simulation'
+
+const WEATHER_ZONE: RealmType = 'WEATHER_ZONE'
+
+export interface WeatherAdvanceSummary {
+    currentTick: number
+    zoneCount: number
+    spellsWritten: number
+}
+
+export interface CurrentWeather {
+    /** Simulated state, when the active layer carries one */
+    state?: WeatherState
+    /** Prose of the active weather layer */
+    text: string
+    /** The active layer (scopeId 'realm:<zoneId>', or 'loc:<locationId>' for a local override) */
+    layer: DescriptionLayer
+}
+
+function simulatedState(layer: DescriptionLayer | undefined): WeatherState | null {
+    const weatherType = layer?.metadata?.weatherType
+    return isWeatherState(weatherType) ? weatherType : null
+}
+
+@injectable()
+export class WeatherService {
+    constructor(
+        @inject(TOKENS.RealmRepository) private readonly realmRepo: IRealmRepository,
+        @inject(TOKENS.LayerRepository) private readonly layerRepo: ILayerRepository,
+        @inject(TOKENS.WorldClockService) private readonly worldClock: IWorldClockService,
+        @inject(TelemetryService) private readonly telemetry: TelemetryService
+    ) {}
+
+    /** Bring every weather zone's weather up to the current world tick. */
+    async advance(correlationId?: string): Promise<WeatherAdvanceSummary> {
+        const startedAt = Date.now()
+        const currentTick = await this.worldClock.getCurrentTick()
+        const zones = await this.realmRepo.listByType(WEATHER_ZONE)
+
+        let spellsWritten = 0
+        for (const zone of zones) {
+            spellsWritten += await this.advanceZone(zone.id, currentTick, correlationId)
+        }
+
+        this.telemetry.trackGameEvent(
+            'World.Weather.Advanced',
+            { zoneCount: zones.length, spellsWritten, currentTick, durationMs: Date.now() - startedAt },
+            { correlationId }
+        )
+        return { currentTick, zoneCount: zones.length, spellsWritten }
+    }
+
+    /**
+     * Weather at a location now, or at `atTick` (zone weather, or the location's own weather layer); null when there is none.
+     * A side concern of whatever asks, so this never throws.
+     */
+    async currentWeather(locationId: string, atTick?: number): Promise<CurrentWeather | null> {
+        try {
+            const tick = atTick ?? (await this.worldClock.getCurrentTick())
+            const layer = await this.layerRepo.getActiveLayerForLocation(locationId, 'weather', tick)
+            if (!layer) return null
+            const state = simulatedState(layer)
+            return { ...(state ? { state } : {}), text: layer.value, layer }
+        } catch {
+            return null
+        }
+    }
+
+    /** Write the zone's spells up to `currentTick`; returns how many were written. */
+    private async advanceZone(zoneId: string, currentTick: number, correlationId?: string): Promise<number> {
+        const history = await this.layerRepo.queryLayerHistory(`realm:${zoneId}`, 'weather', currentTick - WEATHER_HISTORY_WINDOW_MS)
+        const last = history.filter((layer) => layer.metadata?.source === WEATHER_SIMULATION_SOURCE && layer.effectiveToTick !== null).pop()
+        if (last && last.effectiveToTick! >= currentTick) return 0
+
+        let previous = simulatedState(last)
+        let fromTick = last ? last.effectiveToTick! + 1 : currentTick
+        if (currentTick - fromTick > WEATHER_CATCH_UP_MS) {
+            fromTick = currentTick - WEATHER_CATCH_UP_MS
+        }
+
+        let written = 0
+        while (fromTick <= currentTick) {
+            const spell = nextWeatherSpell(zoneId, previous, fromTick)
+            await this.layerRepo.setLayerForRealm(zoneId, 'weather', spell.fromTick, spell.toTick, WEATHER_DESCRIPTIONS[spell.state], {
+                weatherType: spell.state,
+                source: WEATHER_SIMULATION_SOURCE,
+                seed: spell.seed
+            })
+            this.telemetry.trackGameEvent(
+                'World.Weather.Changed',
+                { zoneId, state: spell.state, previous, fromTick: spell.fromTick, toTick: spell.toTick },
+                { correlationId }
+            )
+            previous = spell.state
+            fromTick = spell.toTick + 1
+            written++
+        }
+        return written
+    }
+}
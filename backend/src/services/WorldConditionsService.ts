@@ -0,0 +1,153 @@
+/**
+ * WorldConditionsService — the conditions a location is seen in right now: the time of day on the world
+ * clock, the lighting that goes with it, and the weather of its zone (WeatherService).
+ *
+ * Descriptions (look, move, travel) are compiled with viewFor(): the view context's `time` is the current
+ * time bucket (so layers carrying a `timeBucket` switch as the world clock advances) and its `weather` the
+ * zone's weather, unless the caller overrides them; the zone weather layer and the lighting layer are
+ * passed as inherited layers.
+ *
+ * Lighting, in order of preference:
+ * 1. the location's own 'lighting' layers (already part of its layer history; filtered by timeBucket)
+ * 2. an active realm 'lighting' layer whose metadata `timeBucket` / `setting` (if set) match
+ * 3. DEFAULT_LIGHTING for the bucket, worded for an interior or exterior location (never stored)
+ *
+ * A location is an interior when it carries a `structure:<slug>` tag without `structureArea:outside`,
+ * or has an `out` exit (see docs/architecture/interior-structure-conventions.md).
+ */
+
+import {
+    DEFAULT_LIGHTING,
+    timeBucketSpan,
+    worldTimeOfDay,
+    type LightingSetting,
+    type Location,
+    type TimeBucket,
+    type WorldTimeOfDay
+} from '@piquet-h/shared'
+import type { DescriptionLayer } from '@piquet-h/shared/types/layerRepository'
+import { inject, injectable } from 'inversify'
+import { TOKENS } from '../di/tokens.js'
+import type { ILayerRepository } from '../repos/layerRepository.js'
+import type { IWorldClockService, ViewContext } from './types.js'
+import { WeatherService } from './WeatherService.js'
+
+const STRUCTURE_TAG = /^structure:[a-z0-9]+(-[a-z0-9]+)*$/
+
+/** Whether the location is seen indoors or under the open sky. */
+export function lightingSetting(location: Pick<Location, 'tags' | 'exits'>): LightingSetting {
+    const tags = location.tags ?? []
+    if (tags.some((tag) => STRUCTURE_TAG.test(tag))) {
+        return tags.includes('structureArea:outside') ? 'exterior' : 'interior'
+    }
+    return (location.exits ?? []).some((exit) => exit.direction === 'out') ? 'interior' : 'exterior'
+}
+
+export type LightingSource = 'location' | 'realm' | 'default'
+
+export interface CurrentLighting {
+    bucket: TimeBucket
+    setting: LightingSetting
+    source: LightingSource
+    /** Short label for atmosphere summaries ("daylight", "lamplight") */
+    label: string
+    layer: DescriptionLayer
+}
+
+export interface LocationView {
+    context: ViewContext
+    /** Layers from outside the location's own history to compile with it (zone weather, lighting) */
+    inheritedLayers: DescriptionLayer[]
+    timeOfDay: WorldTimeOfDay
+}
+
+/** Whether a lighting layer's optional `timeBucket` / `setting` metadata allows it now. */
+export function lightingLayerApplies(layer: DescriptionLayer, bucket: TimeBucket, setting: LightingSetting): boolean {
+    const { timeBucket, setting: layerSetting } = layer.metadata ?? {}
+    return (timeBucket === undefined || timeBucket === bucket) && (layerSetting === undefined || layerSetting === setting)
+}
+
+function isActiveAt(layer: DescriptionLayer, tick: number): boolean {
+    return layer.effectiveFromTick <= tick && (layer.effectiveToTick === null || tick <= layer.effectiveToTick)
+}
+
+@injectable()
+export class WorldConditionsService {
+    constructor(
+        @inject(TOKENS.WorldClockService) private readonly worldClock: IWorldClockService,
+        @inject(TOKENS.LayerRepository) private readonly layerRepo: ILayerRepository,
+        @inject(WeatherService) private readonly weather: WeatherService
+    ) {}
+
+    /** Current world tick; 0 (midnight, day 1) when the clock cannot be read. */
+    async currentTick(): Promise<number> {
+        try {
+            return await this.worldClock.getCurrentTick()
+        } catch {
+            return 0
+        }
+    }
+
+    /** The lighting at a location at a tick. */
+    async lightingAt(location: Pick<Location, 'id' | 'tags' | 'exits'>, tick: number): Promise<CurrentLighting> {
+        const { bucket } = worldTimeOfDay(tick)
+        const setting = lightingSetting(location)
+        const { label, text } = DEFAULT_LIGHTING[bucket][setting]
+
+        const own = (await this.layerRepo.queryLayerHistory(`loc:${location.id}`, 'lighting'))
+            .filter((layer) => isActiveAt(layer, tick) && lightingLayerApplies(layer, bucket, setting))
+            .sort((a, b) => b.authoredAt.localeCompare(a.authoredAt))
+        if (own.length > 0) {
+            return { bucket, setting, source: 'location', label: own[0].value, layer: own[0] }
+        }
+
+        const inherited = await this.layerRepo.getActiveLayerForLocation(location.id, 'lighting', tick)
+        if (inherited && inherited.scopeId.startsWith('realm:') && lightingLayerApplies(inherited, bucket, setting)) {
+            return { bucket, setting, source: 'realm', label: inherited.value, layer: inherited }
+        }
+
+        const span = timeBucketSpan(tick)
+        return {
+            bucket,
+            setting,
+            source: 'default',
+            label,
+            layer: {
+                id: `lighting:${bucket}:${setting}`,
+                scopeId: `loc:${location.id}`,
+                layerType: 'lighting',
+                value: text,
+                effectiveFromTick: span.fromTick,
+                effectiveToTick: span.toTick,
+                authoredAt: new Date(0).toISOString(),
+                metadata: { timeBucket: bucket, setting, source: 'day-night' }
+            }
+        }
+    }
+
+    /** View context and inherited layers for compiling the location's description now. */
+    async viewFor(
+        location: Pick<Location, 'id' | 'tags' | 'exits'>,
+        overrides: Partial<Pick<ViewContext, 'weather' | 'time' | 'season'>> = {}
+    ): Promise<LocationView> {
+        const tick = await this.currentTick()
+        const timeOfDay = worldTimeOfDay(tick)
+        const weather = await this.weather.currentWeather(location.id, tick)
+        const lighting = await this.lightingAt(location, tick)
+
+        const inheritedLayers: DescriptionLayer[] = []
+        if (weather?.layer.scopeId.startsWith('realm:')) inheritedLayers.push(weather.layer)
+        if (lighting.source !== 'location') inheritedLayers.push(lighting.layer)
+
+        return {
+            context: {
+                weather: overrides.weather || weather?.state,
+                time: overrides.time || timeOfDay.bucket,
+                season: overrides.season,
+                timestamp: new Date().toISOString()
+            },
+            inheritedLayers,
+            timeOfDay
+        }
+    }
+}
@@ -0,0 +1,294 @@
+/**
+ * WorldEventSchedulerService — world events that happen later: scheduled now, published to the queue when due.
+ *
+ * A scheduled event is a WorldEventRecord in the SCHEDULED_EVENTS_SCOPE_KEY partition of the world-events
+ * container, status 'scheduled', due at a wall-clock time (scheduledForUtc) or a world clock tick
+ * (scheduledForTick). The scheduler job (timerWorldEventScheduler) calls dispatchDue(): every due event is
+ * published through IWorldEventPublisher as a WorldEventEnvelope and marked 'dispatched'. Operators can
+ * cancel or reschedule an event while it is still 'scheduled'.
+ *
+ * Idempotency: scheduling with an idempotency key that was used before returns the existing event. The
+ * envelope reuses the record's id and idempotency key, so an event published twice (a run that fails between
+ * publishing and marking it dispatched is retried by the next run) is collapsed by the queue processor.
+ * The envelope is validated when the event is scheduled, so a bad event is refused up front rather than at
+ * dispatch.
+ */
+
+import type { ScheduledWorldEvent, WorldEventSchedule } from '@piquet-h/shared'
+import { safeValidateWorldEventEnvelope, type Actor, type ActorKind, type WorldEventEnvelope } from '@piquet-h/shared/events'
+import { inject, injectable } from 'inversify'
+import { randomUUID } from 'node:crypto'
+import { TOKENS } from '../di/tokens.js'
+import {
+    SCHEDULED_EVENTS_SCOPE_KEY,
+    type EventStatus,
+    type IWorldEventRepository,
+    type WorldEventRecord
+} from '../repos/worldEventRepository.js'
+import { TelemetryService } from '../telemetry/TelemetryService.js'
+import type { IWorldEventPublisher } from '../worldEvents/worldEventPublisher.js'
+import type { IWorldClockService } from './types.js'
+
+/** Most events published in one scheduler run; the rest wait for the next run. */
+export const SCHEDULER_DISPATCH_LIMIT = 100
+
+/** Most events returned when listing. */
+export const SCHEDULED_LIST_LIMIT = 100
+
+export type ScheduleDenialReason = 'invalid-schedule' | 'invalid-event' | 'not-found' | 'not-scheduled'
+
+export interface ScheduleWorldEventInput {
+    eventType: string
+    payload: Record<string, unknown>
+    /** Defaults to { kind: 'system' } */
+    actor?: Actor
+    when: WorldEventSchedule
+    idempotencyKey?: string
+    correlationId: string
+}
+
+export type ScheduleResult =
+    | { success: true; event: ScheduledWorldEvent; created: boolean }
+    | { success: false; reason: ScheduleDenialReason; message: string }
+
+export interface SchedulerRunSummary {
+    currentTick: number
+    dueCount: number
+    dispatched: number
+    failed: number
+}
+
+type ScheduleFields = Pick<WorldEventRecord, 'scheduledForUtc' | 'scheduledForTick'>
+
+/** The due time as record fields, or null unless exactly one valid time is given (a tick is a non-negative integer). */
+export function parseSchedule(when: WorldEventSchedule): ScheduleFields | null {
+    const hasUtc = when.atUtc !== undefined
+    const hasTick = when.atTick !== undefined
+    if (hasUtc === hasTick) return null
+    if (hasTick) {
+        return Number.isSafeInteger(when.atTick) && when.atTick! >= 0 ? { scheduledForTick: when.atTick } : null
+    }
+    const time = typeof when.atUtc === 'string' ? Date.parse(when.atUtc) : NaN
+    return Number.isNaN(time) ? null : { scheduledForUtc: new Date(time).toISOString() }
+}
+
+function toEnvelope(record: WorldEventRecord, occurredUtc: string) {
+    const envelope: Record<string, unknown> = {
+        eventId: record.id,
+        type: record.eventType,
+        occurredUtc,
+        actor: { kind: record.actorKind, ...(record.actorId ? { id: record.actorId } : {}) },
+        correlationId: record.correlationId,
+        idempotencyKey: record.idempotencyKey,
+        version: record.version,
+        payload: record.payload
+    }
+    return safeValidateWorldEventEnvelope(envelope)
+}
+
+function toScheduledWorldEvent(record: WorldEventRecord): ScheduledWorldEvent {
+    return {
+        eventId: record.id,
+        eventType: record.eventType,
+        status: record.status as ScheduledWorldEvent['status'],
+        ...(record.scheduledForUtc !== undefined ? { scheduledForUtc: record.scheduledForUtc } : {}),
+        ...(record.scheduledForTick !== undefined ? { scheduledForTick: record.scheduledForTick } : {}),
+        idempotencyKey: record.idempotencyKey,
+        actor: { kind: record.actorKind as ActorKind, ...(record.actorId ? { id: record.actorId } : {}) },
+        payload: record.payload,
+        createdUtc: record.ingestedUtc,
+        ...(record.processedUtc ? { closedUtc: record.processedUtc } : {})
+    }
+}
+
+function scheduleProperties(record: ScheduleFields): Record<string, unknown> {
+    return record.scheduledForTick !== undefined
+        ? { scheduledForTick: record.scheduledForTick }
+        : { scheduledForUtc: record.scheduledForUtc }
+}
+
+@injectable()
+export class WorldEventSchedulerService {
+    constructor(
+        @inject(TOKENS.WorldEventRepository) private readonly eventRepo: IWorldEventRepository,
+        @inject(TOKENS.WorldEventPublisher) private readonly publisher: IWorldEventPublisher,
+        @inject(TOKENS.WorldClockService) private readonly worldClock: IWorldClockService,
+        @inject(TelemetryService) private readonly telemetry: TelemetryService
+    ) {}
+
+    /** Schedule an event; an idempotency key used before returns the event scheduled with it. */
+    async schedule(input: ScheduleWorldEventInput): Promise<ScheduleResult> {
+        const when = parseSchedule(input.when)
+        if (!when) {
+            return {
+                success: false,
+                reason: 'invalid-schedule',
+                message: 'Give exactly one of atUtc (ISO-8601 time) or atTick (non-negative integer)'
+            }
+        }
+
+        if (input.idempotencyKey) {
+            const existing = await this.findScheduled(input.idempotencyKey)
+            if (existing) {
+                this.telemetry.trackGameEvent(
+                    'World.Event.Scheduled',
+                    { eventId: existing.id, eventType: existing.eventType, ...scheduleProperties(existing), created: false },
+                    { correlationId: input.correlationId }
+                )
+                return { success: true, event: toScheduledWorldEvent(existing), created: false }
+            }
+        }
+
+        const id = randomUUID()
+        const now = new Date().toISOString()
+        const actor = input.actor ?? { kind: 'system' }
+        const record: WorldEventRecord = {
+            id,
+            scopeKey: SCHEDULED_EVENTS_SCOPE_KEY,
+            eventType: input.eventType,
+            status: 'scheduled',
+            occurredUtc: now,
+            ingestedUtc: now,
+            actorKind: actor.kind,
+            ...(actor.id ? { actorId: actor.id } : {}),
+            correlationId: input.correlationId,
+            idempotencyKey: input.idempotencyKey || `scheduled:${id}`,
+            payload: input.payload,
+            version: 1,
+            ...when
+        }
+
+        const validation = toEnvelope(record, now)
+        if (!validation.success) {
+            const issues = validation.error.issues.map((issue) => `${issue.path.join('.') || 'envelope'}: ${issue.message}`)
+            return { success: false, reason: 'invalid-event', message: `Invalid world event: ${issues.join('; ')}` }
+        }
+
+        await this.eventRepo.create(record)
+        this.telemetry.trackGameEvent(
+            'World.Event.Scheduled',
+            { eventId: id, eventType: record.eventType, ...scheduleProperties(record), created: true },
+            { correlationId: input.correlationId }
+        )
+        return { success: true, event: toScheduledWorldEvent(record), created: true }
+    }
+
+    /** Move a scheduled event to a new due time. */
+    async reschedule(eventId: string, when: WorldEventSchedule, correlationId?: string): Promise<ScheduleResult> {
+        const fields = parseSchedule(when)
+        if (!fields) {
+            return {
+                success: false,
+                reason: 'invalid-schedule',
+                message: 'Give exactly one of atUtc (ISO-8601 time) or atTick (non-negative integer)'
+            }
+        }
+        const found = await this.getPending(eventId)
+        if (!found.success) return found
+
+        const updated = await this.eventRepo.create({
+            ...found.record,
+            scheduledForUtc: fields.scheduledForUtc,
+            scheduledForTick: fields.scheduledForTick
+        })
+        this.telemetry.trackGameEvent(
+            'World.Event.Rescheduled',
+            { eventId, eventType: updated.eventType, ...scheduleProperties(fields) },
+            { correlationId }
+        )
+        return { success: true, event: toScheduledWorldEvent(updated), created: false }
+    }
+
+    /** Withdraw a scheduled event before it is dispatched. */
+    async cancel(eventId: string, correlationId?: string): Promise<ScheduleResult> {
+        const found = await this.getPending(eventId)
+        if (!found.success) return found
+
+        const cancelled = await this.eventRepo.updateStatus(eventId, SCHEDULED_EVENTS_SCOPE_KEY, {
+            status: 'cancelled',
+            processedUtc: new Date().toISOString()
+        })
+        this.telemetry.trackGameEvent('World.Event.ScheduleCancelled', { eventId, eventType: found.record.eventType }, { correlationId })
+        return { success: true, event: toScheduledWorldEvent(cancelled ?? found.record), created: false }
+    }
+
+    /** Scheduled events in the given state (default: still waiting), oldest first. */
+    async list(status: EventStatus = 'scheduled', limit: number = SCHEDULED_LIST_LIMIT): Promise<ScheduledWorldEvent[]> {
+        const { events } = await this.eventRepo.queryByScope(SCHEDULED_EVENTS_SCOPE_KEY, { status, order: 'asc', limit })
+        return events.map(toScheduledWorldEvent)
+    }
+
+    /**
+     * Publish every due event and mark it dispatched. An event that fails to publish stays scheduled and is
+     * tried again next run; one whose envelope no longer validates is marked failed.
+     */
+    async dispatchDue(correlationId?: string): Promise<SchedulerRunSummary> {
+        const startTime = Date.now()
+        const currentTick = await this.worldClock.getCurrentTick()
+        const nowUtc = new Date().toISOString()
+        const due = await this.eventRepo.getDueScheduled(nowUtc, currentTick, SCHEDULER_DISPATCH_LIMIT)
+
+        let dispatched = 0
+        let failed = 0
+        for (const record of due) {
+            const validation = toEnvelope(record, nowUtc)
+            if (!validation.success) {
+                failed++
+                await this.eventRepo.updateStatus(record.id, SCHEDULED_EVENTS_SCOPE_KEY, {
+                    status: 'failed',
+                    processedUtc: nowUtc,
+                    processingMetadata: { error: validation.error.message }
+                })
+                continue
+            }
+
+            const envelope: WorldEventEnvelope = validation.data
+            try {
+                await this.publisher.enqueueEvents([envelope])
+            } catch {
+                failed++
+                continue
+            }
+            await this.eventRepo.updateStatus(record.id, SCHEDULED_EVENTS_SCOPE_KEY, { status: 'dispatched', processedUtc: nowUtc })
+            dispatched++
+
+            // World clock ticks and wall-clock milliseconds advance at different rates, so lateness keeps the schedule's unit.
+            const lateness =
+                record.scheduledForTick !== undefined
+                    ? { lateTicks: currentTick - record.scheduledForTick }
+                    : { lateMs: Date.parse(nowUtc) - Date.parse(record.scheduledForUtc ?? nowUtc) }
+            this.telemetry.trackGameEvent(
+                'World.Event.Dispatched',
+                { eventId: record.id, eventType: record.eventType, ...scheduleProperties(record), ...lateness },
+                { correlationId: record.correlationId }
+            )
+        }
+
+        this.telemetry.trackGameEvent(
+            'World.Event.SchedulerRun',
+            { dueCount: due.length, dispatched, failed, currentTick, durationMs: Date.now() - startTime },
+            { correlationId }
+        )
+        return { currentTick, dueCount: due.length, dispatched, failed }
+    }
+
+    private async getPending(
+        eventId: string
+    ): Promise<{ success: true; record: WorldEventRecord } | { success: false; reason: ScheduleDenialReason; message: string }> {
+        const record = await this.eventRepo.getById(eventId, SCHEDULED_EVENTS_SCOPE_KEY)
+        if (!record) {
+            return { success: false, reason: 'not-found', message: 'Scheduled event not found' }
+        }
+        if (record.status !== 'scheduled') {
+            return { success: false, reason: 'not-scheduled', message: `Event is already ${record.status}` }
+        }
+        return { success: true, record }
+    }
+
+    /** The scheduled event created with this idempotency key (the key may also be on its timeline record). */
+    private async findScheduled(idempotencyKey: string): Promise<WorldEventRecord | null> {
+        const existing = await this.eventRepo.getByIdempotencyKey(idempotencyKey)
+        if (!existing || existing.scopeKey === SCHEDULED_EVENTS_SCOPE_KEY) return existing
+        return this.eventRepo.getById(existing.id, SCHEDULED_EVENTS_SCOPE_KEY)
+    }
+}
@@ -0,0 +1,169 @@
+/**
+ * WorldEventTimelineService — the durable history of processed world events, and how it is read back.
+ *
+ * The queue processor records every handled envelope here (record()). One WorldEventRecord, id = eventId, is
+ * written per scope the event touches:
+ * - `loc:<id>` for each location in the payload (locationId, fromLocationId, toLocationId, rootLocationId)
+ * - `player:<id>` for payload.playerId and a player actor
+ * - `realm:<id>` for every realm containing one of those locations (containment chain)
+ * - `global:<category>` (first segment of the type, e.g. `global:world`) when none of the above apply
+ * Each copy carries the envelope's correlationId / causationId, so causal chains can be followed from any
+ * scope, and processingMetadata.scopeKeys lists the sibling scopes. Writes are upserts keyed by event id, so a
+ * redelivered event does not appear twice.
+ *
+ * Reading: locationHistory() pages through a location's timeline newest first (`history` command,
+ * GET /location/{id}/history); each entry gets a one-line summary a player can read.
+ */
+
+import type { LocationHistoryEntry } from '@piquet-h/shared'
+import type { WorldEventEnvelope } from '@piquet-h/shared/events'
+import { inject, injectable } from 'inversify'
+import { TOKENS } from '../di/tokens.js'
+import type { IRealmRepository } from '../repos/realmRepository.js'
+import {
+    buildGlobalScopeKey,
+    buildLocationScopeKey,
+    buildPlayerScopeKey,
+    buildRealmScopeKey,
+    type IWorldEventRepository,
+    type WorldEventRecord
+} from '../repos/worldEventRepository.js'
+
+/** Entries per history page unless asked otherwise. */
+export const HISTORY_DEFAULT_LIMIT = 20
+
+/** Most entries returned in one history page. */
+export const HISTORY_MAX_LIMIT = 100
+
+const LOCATION_PAYLOAD_FIELDS = ['locationId', 'fromLocationId', 'toLocationId', 'rootLocationId'] as const
+
+export interface TimelineScopes {
+    locationIds: string[]
+    playerIds: string[]
+}
+
+export interface LocationHistoryPage {
+    events: LocationHistoryEntry[]
+    /** occurredUtc of the oldest entry, when older entries exist */
+    nextBefore?: string
+}
+
+function stringField(payload: Record<string, unknown>, field: string): string | undefined {
+    const value = payload[field]
+    return typeof value === 'string' && value ? value : undefined
+}
+
+/** Locations and players an envelope is about, taken from its payload and actor. */
+export function timelineScopes(event: WorldEventEnvelope): TimelineScopes {
+    const payload = event.payload
+    const locationIds = LOCATION_PAYLOAD_FIELDS.map((field) => stringField(payload, field)).filter((id): id is string => !!id)
+    const playerIds = [stringField(payload, 'playerId'), event.actor.kind === 'player' ? event.actor.id : undefined].filter(
+        (id): id is string => !!id
+    )
+    return { locationIds: [...new Set(locationIds)], playerIds: [...new Set(playerIds)] }
+}
+
+/** One line describing a timeline record, as seen from the given location. */
+export function summarizeTimelineEvent(record: Pick<WorldEventRecord, 'eventType' | 'payload'>, locationId: string): string {
+    const payload = record.payload
+    const direction = stringField(payload, 'direction')
+    switch (record.eventType) {
+        case 'Player.Move':
+        case 'NPC.Move':
+            if (stringField(payload, 'toLocationId') === locationId) return 'Someone arrived.'
+            return direction ? `Someone left to the ${direction}.` : 'Someone left.'
+        case 'Player.Take':
+            return `Someone took ${stringField(payload, 'itemName') ?? 'something'}.`
+        case 'Player.Drop':
+            return `Someone dropped ${stringField(payload, 'itemName') ?? 'something'}.`
+        case 'NPC.Dialogue': {
+            const line = stringField(payload, 'line')
+            return line ? `Someone said, "${line}"` : 'Someone spoke.'
+        }
+        case 'World.Exit.Create':
+            return direction ? `A way ${direction} was opened.` : 'A new way out was opened.'
+        case 'World.Exit.LockChanged':
+            return `The way ${direction ?? 'out'} was ${stringField(payload, 'lockState') ?? 'changed'}.`
+        case 'Location.Environment.Changed':
+            return stringField(payload, 'description') ?? 'The surroundings changed.'
+        case 'Combat.Round':
+            return 'A fight broke out.'
+        case 'World.Location.BatchGenerate':
+            return 'New places were charted nearby.'
+        default:
+            return 'Something happened here.'
+    }
+}
+
+function toHistoryEntry(record: WorldEventRecord, locationId: string): LocationHistoryEntry {
+    return {
+        eventId: record.id,
+        eventType: record.eventType,
+        occurredUtc: record.occurredUtc,
+        actorKind: record.actorKind,
+        summary: summarizeTimelineEvent(record, locationId),
+        correlationId: record.correlationId,
+        ...(record.causationId ? { causationId: record.causationId } : {})
+    }
+}
+
+@injectable()
+export class WorldEventTimelineService {
+    constructor(
+        @inject(TOKENS.WorldEventRepository) private readonly eventRepo: IWorldEventRepository,
+        @inject(TOKENS.RealmRepository) private readonly realmRepo: IRealmRepository
+    ) {}
+
+    /** Write a processed envelope under every scope it touches; returns the scope keys written. */
+    async record(event: WorldEventEnvelope, processedUtc: string): Promise<string[]> {
+        const { locationIds, playerIds } = timelineScopes(event)
+        const realmIds = new Set<string>()
+        for (const locationId of locationIds) {
+            for (const realm of await this.realmRepo.getContainmentChain(locationId)) realmIds.add(realm.id)
+        }
+
+        const scopeKeys = [
+            ...locationIds.map(buildLocationScopeKey),
+            ...playerIds.map(buildPlayerScopeKey),
+            ...[...realmIds].map(buildRealmScopeKey)
+        ]
+        if (scopeKeys.length === 0) {
+            scopeKeys.push(buildGlobalScopeKey(event.type.split('.')[0].toLowerCase()))
+        }
+
+        for (const scopeKey of scopeKeys) {
+            await this.eventRepo.create({
+                id: event.eventId,
+                scopeKey,
+                eventType: event.type,
+                status: 'processed',
+                occurredUtc: event.occurredUtc,
+                ingestedUtc: event.ingestedUtc ?? processedUtc,
+                processedUtc,
+                actorKind: event.actor.kind,
+                ...(event.actor.id ? { actorId: event.actor.id } : {}),
+                correlationId: event.correlationId,
+                ...(event.causationId ? { causationId: event.causationId } : {}),
+                idempotencyKey: event.idempotencyKey,
+                payload: event.payload,
+                processingMetadata: { scopeKeys },
+                version: event.version
+            })
+        }
+        return scopeKeys
+    }
+
+    /** A page of the location's timeline, newest first; `before` is the previous page's nextBefore. */
+    async locationHistory(locationId: string, options: { limit?: number; before?: string } = {}): Promise<LocationHistoryPage> {
+        const limit = Math.max(1, Math.min(options.limit ?? HISTORY_DEFAULT_LIMIT, HISTORY_MAX_LIMIT))
+        const { events, hasMore } = await this.eventRepo.queryByScope(buildLocationScopeKey(locationId), {
+            limit,
+            order: 'desc',
+            ...(options.before ? { beforeTimestamp: options.before } : {})
+        })
+        return {
+            events: events.map((record) => toHistoryEntry(record, locationId)),
+            ...(hasMore && events.length > 0 ? { nextBefore: events[events.length - 1].occurredUtc } : {})
+        }
+    }
+}
@@ -0,0 +1,42 @@
+/**
+ * Content filter for player chat.
+ *
+ * Normalises whitespace, strips control characters and masks blocked terms (whole words, any case) with
+ * asterisks of the same length, so the message still reads naturally ("what the ****"). Messages that are
+ * empty after normalisation or longer than CHAT_MAX_LENGTH are refused rather than truncated.
+ *
+ * The blocked-term list is a small built-in baseline extended by CHAT_BLOCKED_TERMS (comma-separated).
+ */
+
+/** Longest message a player can send, in characters. */
+export const CHAT_MAX_LENGTH = 280
+
+const DEFAULT_BLOCKED_TERMS = ['fuck', 'fucking', 'shit', 'cunt', 'bitch', 'asshole', 'bastard', 'nigger', 'faggot', 'retard']
+
+export type ChatFilterResult = { allowed: true; text: string; filtered: boolean } | { allowed: false; reason: 'empty' | 'too-long' }
+
+function blockedTerms(): string[] {
+    const extra = (process.env.CHAT_BLOCKED_TERMS ?? '')
+        .split(',')
+        .map((term) => term.trim().toLowerCase())
+        .filter(Boolean)
+    return [...DEFAULT_BLOCKED_TERMS, ...extra]
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/** Clean a message for delivery, or say why it cannot be sent. */
+export function filterChatMessage(raw: string): ChatFilterResult {
+    const text = raw
+        .replace(/[\u0000-\u001f\u007f]/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim()
+    if (!text) return { allowed: false, reason: 'empty' }
+    if (text.length > CHAT_MAX_LENGTH) return { allowed: false, reason: 'too-long' }
+
+    const pattern = new RegExp(`\\b(?:${blockedTerms().map(escapeRegExp).join('|')})\\b`, 'gi')
+    const masked = text.replace(pattern, (word) => '*'.repeat(word.length))
+    return { allowed: true, text: masked, filtered: masked !== text }
+}
@@ -66,6 +66,7 @@ export class DescriptionComposer {
      * - Base description is the canonical location prose (from options.baseDescription)
      * - Structural layers apply supersede masking to hide replaced sentences
      * - Ambient layers are filtered by weather/time context
+     * - Inherited realm layers (options.inheritedLayers, e.g. zone weather) are applied as overlays
      * - Result is deterministic for same inputs
      *
      * See: docs/architecture/hero-prose-layer-convention.md
@@ -80,7 +81,7 @@ export class DescriptionComposer {
 
         // 1. Fetch all layers for location (includes base layers and overlays)
         // NOTE: getLayersForLocation is deprecated; query per-type histories for the location scope.
-        const allLayers = await this.getAllLayersForLocation(locationId)
+        const allLayers = [...(await this.getAllLayersForLocation(locationId)), ...(options?.inheritedLayers ?? [])]
 
         // 2. Determine the base description priority:
         //    a) Base layer from repository (highest priority - AI-generated)
@@ -180,8 +181,8 @@ export class DescriptionComposer {
     /**
      * Filter layers to only those active in the current context.
      *
-     * Ambient layers with weatherType/timeBucket attributes are only
-     * included if they match the context. Layers without these attributes
+     * Ambient and lighting layers with weatherType/timeBucket attributes (or metadata, as stored by the
+     * layer repository) are only included if they match the context. Layers without these attributes
      * are always included (structural events, enhancements).
      *
      * @param layers - All non-base layers
@@ -190,15 +191,15 @@ export class DescriptionComposer {
      */
     private filterActiveLayers(layers: DescriptionLayer[], context: ViewContext): DescriptionLayer[] {
         return layers.filter((layer) => {
-            const attrs = layer.attributes || {}
+            const attrs = { ...layer.metadata, ...layer.attributes }
 
             // Dynamic (structural) layers are always active
             if (layer.layerType === 'dynamic') {
                 return true
             }
 
-            // Ambient layers: check weather/time match
-            if (layer.layerType === 'ambient') {
+            // Ambient and lighting layers: check weather/time match
+            if (layer.layerType === 'ambient' || layer.layerType === 'lighting') {
                 // If weatherType specified, must match context
                 if (attrs.weatherType && context.weather && attrs.weatherType !== context.weather) {
                     return false
@@ -0,0 +1,77 @@
+/**
+ * Location Event Broker
+ *
+ * Fan-out of live location events to open player event streams (GET /api/player/{playerId}/events).
+ * Writers publish through LiveEventService; each open stream subscribes to the location its player is in.
+ *
+ * The in-memory broker reaches streams held by the same host instance, which covers local and
+ * single-instance deployments. Fanning out across scaled-out instances needs a shared transport
+ * (e.g. Azure Web PubSub) behind the same interface.
+ */
+
+import type { LiveLocationEvent } from '@piquet-h/shared'
+import { injectable } from 'inversify'
+
+/** Who an event concerns besides its location. Player ids route the event and are never sent to clients. */
+export interface LocationEventDelivery {
+    /** Player who caused the event, if any */
+    actorPlayerId?: string
+    /** When set, only this player's streams receive the event (whispers) */
+    recipientPlayerId?: string
+}
+
+/** Receives an event published at the subscribed location. */
+export type LocationEventListener = (event: LiveLocationEvent, delivery: LocationEventDelivery) => void
+
+export interface ILocationEventBroker {
+    /**
+     * Deliver an event to every subscriber of its location.
+     * @returns how many subscribers received it
+     */
+    publish(event: LiveLocationEvent, delivery?: LocationEventDelivery): number
+
+    /**
+     * Listen for events at a location.
+     * @returns unsubscribe function
+     */
+    subscribe(locationId: string, listener: LocationEventListener): () => void
+}
+
+/**
+ * In-memory broker: a listener set per location.
+ *
+ * A listener that throws is skipped so one broken stream cannot affect the writer or other streams.
+ */
+@injectable()
+export class InMemoryLocationEventBroker implements ILocationEventBroker {
+    private readonly listeners = new Map<string, Set<LocationEventListener>>()
+
+    publish(event: LiveLocationEvent, delivery: LocationEventDelivery = {}): number {
+        const subscribers = [...(this.listeners.get(event.locationId) ?? [])]
+        for (const listener of subscribers) {
+            try {
+                listener(event, delivery)
+            } catch {
+                // Stream already closed or failing; its own cleanup unsubscribes it.
+            }
+        }
+        return subscribers.length
+    }
+
+    subscribe(locationId: string, listener: LocationEventListener): () => void {
+        const subscribers = this.listeners.get(locationId) ?? new Set<LocationEventListener>()
+        subscribers.add(listener)
+        this.listeners.set(locationId, subscribers)
+        return () => {
+            subscribers.delete(listener)
+            if (subscribers.size === 0 && this.listeners.get(locationId) === subscribers) {
+                this.listeners.delete(locationId)
+            }
+        }
+    }
+
+    /** Open subscriptions at a location (diagnostics). */
+    subscriberCount(locationId: string): number {
+        return this.listeners.get(locationId)?.size ?? 0
+    }
+}
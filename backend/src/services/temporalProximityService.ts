@@ -2,13 +2,15 @@
  * Temporal Proximity Service
  *
  * Graph-based (BFS/Dijkstra) service for finding locations reachable within a travel-time
- * threshold via existing exit edges. Supports strict urban reconnection (loop closure) and
- * bounded wilderness stitching without coordinate-based spatial indexing.
+ * threshold via existing exit edges. Supports strict urban reconnection (loop closure),
+ * bounded wilderness stitching without coordinate-based spatial indexing, and fastest-route
+ * planning for the `travel to <place>` command.
  *
  * Design: single implementation over IExitRepository + ILocationRepository abstractions,
  * compatible with both memory (tests) and Cosmos/Gremlin (production) modes.
  */
 
+import type { Location, TravelLeg } from '@piquet-h/shared'
 import { inject, injectable } from 'inversify'
 import type { IExitRepository } from '../repos/exitRepository.js'
 import type { ILocationRepository } from '../repos/locationRepository.js'
@@ -37,6 +39,18 @@ export interface ProximityCandidate {
     displacementY?: number
 }
 
+/**
+ * Fastest route from a source location to the nearest location matching a destination test.
+ */
+export interface TravelRoute {
+    /** Matched destination. */
+    destination: Location
+    /** Exit traversals in walking order. */
+    legs: TravelLeg[]
+    /** Sum of the legs' travel durations (milliseconds). */
+    totalTravelMs: number
+}
+
 const DIRECTION_VECTORS: Readonly<Record<string, { x: number; y: number }>> = {
     north: { x: 0, y: 1 },
     south: { x: 0, y: -1 },
@@ -84,6 +98,25 @@ export interface ITemporalProximityService {
      *          `{ found: false }` otherwise.
      */
     checkDirectReconnection(fromLocationId: string, direction: string, travelMs: number): Promise<{ found: boolean; locationId?: string }>
+
+    /**
+     * Find the fastest route from `fromLocationId` to the nearest location accepted by
+     * `isDestination`. Only walkable exits are followed: locked exits, pending stubs (no
+     * target) and dangling targets are skipped. The source itself never matches.
+     *
+     * @param fromLocationId - Source location ID.
+     * @param isDestination  - Destination test (e.g. a name / landmark match).
+     * @param maxTravelMs    - Maximum accumulated travel time (inclusive).
+     * @param canEnter       - Optional filter on the locations the route may pass through or end at
+     *                         (e.g. the player's discovered locations); default: every location.
+     * @returns The route, or undefined when no matching location is reachable within the budget.
+     */
+    findRoute(
+        fromLocationId: string,
+        isDestination: (location: Location) => boolean,
+        maxTravelMs: number,
+        canEnter?: (locationId: string) => boolean
+    ): Promise<TravelRoute | undefined>
 }
 
 /**
@@ -193,6 +226,60 @@ export class TemporalProximityService implements ITemporalProximityService {
         )
     }
 
+    async findRoute(
+        fromLocationId: string,
+        isDestination: (location: Location) => boolean,
+        maxTravelMs: number,
+        canEnter: (locationId: string) => boolean = () => true
+    ): Promise<TravelRoute | undefined> {
+        // Dijkstra over walkable exits; the first destination popped is the nearest.
+        // Lock state lives on the location's exits, so they are read from the location vertex.
+        const bestCost = new Map<string, number>([[fromLocationId, 0]])
+        const previous = new Map<string, TravelLeg>()
+        const frontier: Array<{ locationId: string; accumulatedMs: number }> = [{ locationId: fromLocationId, accumulatedMs: 0 }]
+
+        while (frontier.length > 0) {
+            frontier.sort((a, b) => a.accumulatedMs - b.accumulatedMs || a.locationId.localeCompare(b.locationId))
+            const current = frontier.shift()!
+            if (current.accumulatedMs > (bestCost.get(current.locationId) ?? Infinity)) continue
+
+            const location = await this.locationRepository.get(current.locationId)
+            if (!location) continue
+
+            if (current.locationId !== fromLocationId && isDestination(location)) {
+                const legs: TravelLeg[] = []
+                for (let leg = previous.get(location.id); leg; leg = previous.get(leg.fromLocationId)) {
+                    legs.unshift(leg)
+                }
+                return { destination: location, legs, totalTravelMs: current.accumulatedMs }
+            }
+
+            for (const exit of location.exits ?? []) {
+                if (!exit.to || exit.lockState === 'locked' || !canEnter(exit.to)) continue
+
+                const stepMs = exit.travelDurationMs ?? DEFAULT_TRAVEL_DURATION_MS
+                const newCost = current.accumulatedMs + stepMs
+                if (newCost > maxTravelMs) continue
+                if ((bestCost.get(exit.to) ?? Infinity) <= newCost) continue
+
+                const target = await this.locationRepository.get(exit.to)
+                if (!target) continue
+
+                bestCost.set(exit.to, newCost)
+                previous.set(exit.to, {
+                    fromLocationId: location.id,
+                    toLocationId: exit.to,
+                    toLocationName: target.name,
+                    direction: exit.direction,
+                    travelDurationMs: stepMs
+                })
+                frontier.push({ locationId: exit.to, accumulatedMs: newCost })
+            }
+        }
+
+        return undefined
+    }
+
     async checkDirectReconnection(
         fromLocationId: string,
         direction: string,
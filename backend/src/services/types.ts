@@ -4,6 +4,8 @@
  * Interfaces and types for backend services.
  */
 
+import type { DescriptionLayer } from '@piquet-h/shared/types/layerRepository'
+
 // ---------------------------------------------------------------------------
 // Description Composer Service
 // ---------------------------------------------------------------------------
@@ -76,6 +78,11 @@ export interface CompileOptions {
      * Layers in the repository (dynamic, ambient, enhancement) modify/augment this base.
      */
     baseDescription?: string
+    /**
+     * Active layers inherited from realms the location is within (e.g. its weather zone's current weather).
+     * Applied as overlays alongside the location's own layers.
+     */
+    inheritedLayers?: DescriptionLayer[]
 }
 
 // ---------------------------------------------------------------------------
@@ -0,0 +1,119 @@
+/**
+ * Item transfer helpers used by InventoryService.
+ *
+ * An item is stored either in the world (IWorldItemRepository, keyed by location)
+ * or in a player's inventory (IInventoryRepository, keyed by player). The item id
+ * is preserved across both stores so history and world events refer to one entity.
+ */
+import { safeValidateActionIntent, type ActionIntent, type ItemRarity } from '@piquet-h/shared'
+import type { WorldEventEnvelope } from '@piquet-h/shared/events'
+import type { InventoryItem } from '@piquet-h/shared/types/inventoryRepository'
+import { v4 as uuidv4 } from 'uuid'
+import type { WorldItem } from '../repos/worldItemRepository.js'
+
+const ITEM_RARITIES: readonly ItemRarity[] = ['common', 'uncommon', 'rare', 'epic', 'legendary']
+
+/**
+ * Convert a world item into an inventory record for the given player.
+ * Display fields travel in metadata so a later drop can restore them.
+ */
+export function toInventoryItem(item: WorldItem, playerId: string): InventoryItem {
+    return {
+        id: item.id,
+        playerId,
+        itemType: item.name,
+        quantity: 1,
+        acquiredAt: new Date().toISOString(),
+        metadata: {
+            name: item.name,
+            ...(item.description !== undefined ? { description: item.description } : {}),
+            ...(item.rarity !== undefined ? { rarity: item.rarity } : {}),
+            ...(item.weight !== undefined ? { weight: item.weight } : {}),
+            ...(item.attributes !== undefined ? { attributes: item.attributes } : {}),
+            ...(item.createdAt !== undefined ? { createdAt: item.createdAt } : {})
+        }
+    }
+}
+
+/**
+ * Convert an inventory record back into a world item lying at the given location.
+ * Falls back to itemType for the name when the record predates world items.
+ */
+export function toWorldItem(inventoryItem: InventoryItem, locationId: string): WorldItem {
+    const metadata = inventoryItem.metadata ?? {}
+    const name = typeof metadata.name === 'string' && metadata.name ? metadata.name : inventoryItem.itemType
+    const item: WorldItem = { id: inventoryItem.id, name, locationId }
+    if (typeof metadata.description === 'string') item.description = metadata.description
+    if (typeof metadata.rarity === 'string' && (ITEM_RARITIES as readonly string[]).includes(metadata.rarity)) {
+        item.rarity = metadata.rarity as ItemRarity
+    }
+    if (typeof metadata.weight === 'number') item.weight = metadata.weight
+    if (metadata.attributes && typeof metadata.attributes === 'object') {
+        item.attributes = metadata.attributes as WorldItem['attributes']
+    }
+    if (typeof metadata.createdAt === 'string') item.createdAt = metadata.createdAt
+    return item
+}
+
+/**
+ * Find the item a player referred to.
+ * Match order: exact id → exact name (case-insensitive) → name containing every word of the reference.
+ */
+export function findItemByReference<T extends { id: string }>(items: T[], reference: string, getName: (item: T) => string): T | undefined {
+    const ref = reference.trim().toLowerCase()
+    if (!ref) return undefined
+
+    const byId = items.find((i) => i.id.toLowerCase() === ref)
+    if (byId) return byId
+
+    const byName = items.find((i) => getName(i).toLowerCase() === ref)
+    if (byName) return byName
+
+    const words = ref.split(/\s+/).filter((w) => w && w !== 'the' && w !== 'a' && w !== 'an')
+    if (words.length === 0) return undefined
+    return items.find((i) => {
+        const name = getName(i).toLowerCase()
+        return words.every((w) => name.includes(w))
+    })
+}
+
+/**
+ * Use the caller-supplied ActionIntent when it validates; otherwise synthesize a minimal one
+ * so player-actor envelopes always carry an auditable intent.
+ */
+export function resolveItemActionIntent(raw: unknown, verb: 'take' | 'drop', item: { id: string; name: string }): ActionIntent {
+    const supplied = safeValidateActionIntent(raw)
+    if (supplied.success) return supplied.data
+    return {
+        rawInput: `${verb} ${item.name}`,
+        parsedIntent: { verb, targets: [{ kind: 'item', id: item.id, name: item.name }] },
+        validationResult: { success: true }
+    }
+}
+
+/**
+ * Build the Player.Take / Player.Drop envelope recording an item transfer.
+ */
+export function buildItemTransferEvent(
+    type: 'Player.Take' | 'Player.Drop',
+    params: { playerId: string; locationId: string; item: { id: string; name: string }; actionIntent: ActionIntent; correlationId: string }
+): WorldEventEnvelope {
+    const occurredUtc = new Date().toISOString()
+    const keyPrefix = type === 'Player.Take' ? 'item-take' : 'item-drop'
+    return {
+        eventId: uuidv4(),
+        type,
+        occurredUtc,
+        actor: { kind: 'player', id: params.playerId },
+        correlationId: params.correlationId,
+        idempotencyKey: `${keyPrefix}:${params.playerId}:${params.item.id}:${occurredUtc}`,
+        version: 1,
+        payload: {
+            playerId: params.playerId,
+            locationId: params.locationId,
+            itemId: params.item.id,
+            itemName: params.item.name,
+            actionIntent: params.actionIntent
+        }
+    }
+}
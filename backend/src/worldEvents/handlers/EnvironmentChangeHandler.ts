@@ -5,6 +5,7 @@ import { inject, injectable } from 'inversify'
 import { v4 as uuidv4 } from 'uuid'
 import type { IDeadLetterRepository } from '../../repos/deadLetterRepository.js'
 import type { IDescriptionRepository } from '../../repos/descriptionRepository.js'
+import { LiveEventService } from '../../services/LiveEventService.js'
 import { TelemetryService } from '../../telemetry/TelemetryService.js'
 import type { IWorldEventHandler, WorldEventHandlerResult } from '../types.js'
 
@@ -17,7 +18,8 @@ import type { IWorldEventHandler, WorldEventHandlerResult } from '../types.js'
  *
  * This handler stores environment change metadata as a description layer.
  * When players LOOK at the location, AI uses the metadata to generate
- * contextual, immersive descriptions.
+ * contextual, immersive descriptions. Players already there are told something
+ * changed through a live layer.changed event.
  *
  * Example payload:
  * {
@@ -35,7 +37,8 @@ export class EnvironmentChangeHandler implements IWorldEventHandler {
     constructor(
         @inject('IDescriptionRepository') private descriptionRepo: IDescriptionRepository,
         @inject('IDeadLetterRepository') private deadLetterRepo: IDeadLetterRepository,
-        @inject(TelemetryService) private telemetry: TelemetryService
+        @inject(TelemetryService) private telemetry: TelemetryService,
+        @inject(LiveEventService) private liveEvents: LiveEventService
     ) {}
 
     async handle(event: WorldEventEnvelope, context: InvocationContext): Promise<WorldEventHandlerResult> {
@@ -52,7 +55,7 @@ export class EnvironmentChangeHandler implements IWorldEventHandler {
                 issues: missing.map((f) => ({ path: f, message: 'Missing field', code: 'missing' }))
             })
             try {
-                await this.deadLetterRepo.store(record)
+                await this.deadLetterRepo.store(record, { ...event })
             } catch (e) {
                 context.error('Failed to store dead-letter for handler validation failure', { error: String(e) })
             }
@@ -73,11 +76,12 @@ export class EnvironmentChangeHandler implements IWorldEventHandler {
 
         try {
             const layerId = uuidv4()
+            const content = typeof description === 'string' ? description : `Environment change: ${changeType}`
             const result = await this.descriptionRepo.addLayer({
                 id: layerId,
                 locationId: locationId as string,
                 type: 'structural_event',
-                content: typeof description === 'string' ? description : `Environment change: ${changeType}`,
+                content,
                 createdAt: new Date().toISOString(),
                 expiresAt: typeof expiresAt === 'string' ? expiresAt : undefined,
                 source: `world-event:${event.type}`,
@@ -89,6 +93,13 @@ export class EnvironmentChangeHandler implements IWorldEventHandler {
                 }
             })
 
+            if (result.created) {
+                this.liveEvents.publish(
+                    { kind: 'layer.changed', locationId: locationId as string, text: content, layerType: 'structural_event' },
+                    { correlationId: event.correlationId }
+                )
+            }
+
             const outcome: WorldEventHandlerResult = result.created
                 ? { outcome: 'success', details: 'environment-layer-added' }
                 : { outcome: 'noop', details: 'layer-already-existed' }
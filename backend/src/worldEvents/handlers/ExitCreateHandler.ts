@@ -6,6 +6,7 @@ import { inject, injectable } from 'inversify'
 import type { IDeadLetterRepository } from '../../repos/deadLetterRepository.js'
 import type { ILocationRepository } from '../../repos/locationRepository.js'
 import { defaultTravelDurationForDirection } from '../../handlers/utils/travelDurationHeuristics.js'
+import { LiveEventService } from '../../services/LiveEventService.js'
 import { TelemetryService } from '../../telemetry/TelemetryService.js'
 import type { WorldEventHandlerResult } from '../types.js'
 import { BaseWorldEventHandler, type ValidationResult } from './base/BaseWorldEventHandler.js'
@@ -18,7 +19,8 @@ export class ExitCreateHandler extends BaseWorldEventHandler {
     constructor(
         @inject('ILocationRepository') private locationRepo: ILocationRepository,
         @inject('IDeadLetterRepository') deadLetterRepo: IDeadLetterRepository,
-        @inject(TelemetryService) telemetry: TelemetryService
+        @inject(TelemetryService) telemetry: TelemetryService,
+        @inject(LiveEventService) private liveEvents: LiveEventService
     ) {
         super(deadLetterRepo, telemetry)
     }
@@ -77,6 +79,22 @@ export class ExitCreateHandler extends BaseWorldEventHandler {
             await this.locationRepo.setExitTravelDuration(toLocationId as string, getOppositeDirection(dir), duration)
         }
 
+        // Players standing at either end see the new way open
+        const live = { correlationId: event.correlationId }
+        if (result.created) {
+            this.liveEvents.publish(
+                { kind: 'exit.materialized', locationId: fromLocationId as string, text: `A way ${dir} opens up.`, direction: dir },
+                live
+            )
+        }
+        if (result.reciprocalCreated) {
+            const back = getOppositeDirection(dir)
+            this.liveEvents.publish(
+                { kind: 'exit.materialized', locationId: toLocationId as string, text: `A way ${back} opens up.`, direction: back },
+                live
+            )
+        }
+
         context.log('ExitCreateHandler applied', {
             fromLocationId,
             toLocationId,
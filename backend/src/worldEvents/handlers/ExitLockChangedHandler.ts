@@ -0,0 +1,92 @@
+import type { InvocationContext } from '@azure/functions'
+import { isDirection } from '@piquet-h/shared'
+import type { Direction, LockState } from '@piquet-h/shared'
+import type { WorldEventEnvelope } from '@piquet-h/shared/events'
+import { inject, injectable } from 'inversify'
+import type { IDeadLetterRepository } from '../../repos/deadLetterRepository.js'
+import type { ILocationRepository } from '../../repos/locationRepository.js'
+import { applyExitLockState } from '../../services/ExitLockService.js'
+import { TelemetryService } from '../../telemetry/TelemetryService.js'
+import type { WorldEventHandlerResult } from '../types.js'
+import { BaseWorldEventHandler, type ValidationResult } from './base/BaseWorldEventHandler.js'
+
+/** Handler for World.Exit.LockChanged events (exit edge lock state, both sides of the door) */
+@injectable()
+export class ExitLockChangedHandler extends BaseWorldEventHandler {
+    public readonly type = 'World.Exit.LockChanged'
+
+    constructor(
+        @inject('ILocationRepository') private locationRepo: ILocationRepository,
+        @inject('IDeadLetterRepository') deadLetterRepo: IDeadLetterRepository,
+        @inject(TelemetryService) telemetry: TelemetryService
+    ) {
+        super(deadLetterRepo, telemetry)
+    }
+
+    /**
+     * Validate payload: check required fields, direction and lock state
+     */
+    protected validatePayload(payload: unknown): ValidationResult {
+        const { locationId, direction, lockState } = payload as Record<string, unknown>
+
+        const missing: string[] = []
+        if (typeof locationId !== 'string' || !locationId) missing.push('locationId')
+        if (typeof direction !== 'string' || !direction) missing.push('direction')
+        if (typeof lockState !== 'string' || !lockState) missing.push('lockState')
+
+        if (missing.length) {
+            return { valid: false, missing }
+        }
+
+        if (!isDirection(direction as string)) {
+            return { valid: false, missing: ['direction'], message: `Invalid direction: ${direction}` }
+        }
+        if (lockState !== 'locked' && lockState !== 'unlocked') {
+            return { valid: false, missing: ['lockState'], message: `Invalid lockState: ${lockState}` }
+        }
+
+        return { valid: true, missing: [] }
+    }
+
+    /**
+     * Apply the lock state to the exit and its reciprocal. The command path usually applied it
+     * already, so an exit already in the requested state is a noop. Events are applied only when
+     * they occurred after the exit's last lock change (`lockChangedUtc`): a delayed, out-of-order
+     * or redriven event never reverts a newer change.
+     */
+    protected async executeHandler(event: WorldEventEnvelope, context: InvocationContext): Promise<WorldEventHandlerResult> {
+        const { locationId, direction, toLocationId, lockState } = event.payload as Record<string, unknown>
+        const dir = direction as Direction
+        const state = lockState as LockState
+
+        const location = await this.locationRepo.get(locationId as string)
+        const exit = location?.exits?.find((e) => e.direction === dir)
+        if (!exit) {
+            return { outcome: 'noop', details: 'exit-not-found' }
+        }
+        if (exit.lockChangedUtc && Date.parse(event.occurredUtc) <= Date.parse(exit.lockChangedUtc)) {
+            return { outcome: 'noop', details: 'stale-event' }
+        }
+        if ((exit.lockState ?? 'unlocked') === state) {
+            return { outcome: 'noop', details: 'already-in-state' }
+        }
+
+        const target = typeof toLocationId === 'string' && toLocationId ? toLocationId : exit.to
+        const { reciprocalUpdated } = await applyExitLockState(this.locationRepo, {
+            locationId: locationId as string,
+            direction: dir,
+            toLocationId: target,
+            lockState: state,
+            changedUtc: event.occurredUtc
+        })
+
+        this.telemetry.trackGameEvent(
+            'World.Exit.LockChanged',
+            { locationId, direction, lockState, reciprocalUpdated },
+            { correlationId: event.correlationId }
+        )
+        context.log('ExitLockChangedHandler applied', { locationId, direction, lockState, reciprocalUpdated })
+
+        return { outcome: 'success', details: 'lock-state-changed' }
+    }
+}
@@ -1,19 +1,63 @@
+/**
+ * NPCTickHandler — NPC.Tick event handler
+ *
+ * Evaluates one NPC's behaviour for one world clock tick (sense→decide→validate→apply),
+ * mirroring AgentStepHandler's governance flow.
+ *
+ * Payload (v1):
+ * {
+ *   npcId:       string  — NPC to evaluate
+ *   locationId:  string  — Location the scheduler last saw the NPC at (diagnostics; the NPC record is authoritative)
+ *   tick?:       number  — World clock tick to evaluate (default: current world clock tick)
+ * }
+ *
+ * Loop:
+ *  1. SENSE    — load the NPC and resolve the tick
+ *  2. DECIDE   — NpcBehaviorService picks react / schedule / wander / idle (reactions judged at the envelope's occurredUtc)
+ *  3. VALIDATE — validateAgentProposal() on an npc-actor proposal (NPC.Move or NPC.Dialogue)
+ *  4. APPLY    — AgentProposalApplicator.apply() performs the write
+ *  5. RECORD   — enqueue an NPC.Move / NPC.Dialogue world event (causationId = tick eventId) for replay
+ *
+ * Idempotency: per (npcId, tick). The applicator stamps NpcEntity.lastTick on every applied action;
+ * a tick at or before lastTick returns 'noop' without re-deciding. Idle ticks write nothing and
+ * re-evaluate to the same decision.
+ *
+ * Edge cases:
+ * - NPC no longer exists → outcome 'noop', emits NPC.Tick.Skipped
+ * - Applicator declines the action (stale location, missing exit) → outcome 'noop'
+ * - Transient repository error → throws, triggers Service Bus retry → DLQ
+ */
 import type { InvocationContext } from '@azure/functions'
+import { type AgentProposalEnvelope, type NpcEntity, type ProposedAction, validateAgentProposal } from '@piquet-h/shared'
 import type { WorldEventEnvelope } from '@piquet-h/shared/events'
 import { inject, injectable } from 'inversify'
+import { randomUUID } from 'node:crypto'
+import { TOKENS } from '../../di/tokens.js'
 import type { IDeadLetterRepository } from '../../repos/deadLetterRepository.js'
+import type { INpcRepository } from '../../repos/npcRepository.js'
+import { AgentProposalApplicator } from '../../services/AgentProposalApplicator.js'
+import { NpcBehaviorService, type NpcTickDecision } from '../../services/NpcBehaviorService.js'
+import { WorldClockService } from '../../services/WorldClockService.js'
 import { TelemetryService } from '../../telemetry/TelemetryService.js'
 import type { WorldEventHandlerResult } from '../types.js'
+import type { IWorldEventPublisher } from '../worldEventPublisher.js'
 import { BaseWorldEventHandler, type ValidationResult } from './base/BaseWorldEventHandler.js'
 
-/** Handler for NPC.Tick events - placeholder logic (Issue #258) */
+type ActingDecision = Exclude<NpcTickDecision, { kind: 'idle' }>
+
+/** Handler for NPC.Tick events — wander / schedule / react behaviour */
 @injectable()
 export class NPCTickHandler extends BaseWorldEventHandler {
     public readonly type = 'NPC.Tick'
 
     constructor(
         @inject('IDeadLetterRepository') deadLetterRepo: IDeadLetterRepository,
-        @inject(TelemetryService) telemetry: TelemetryService
+        @inject(TelemetryService) telemetry: TelemetryService,
+        @inject(TOKENS.NpcRepository) private readonly npcRepo: INpcRepository,
+        @inject(WorldClockService) private readonly worldClock: WorldClockService,
+        @inject(NpcBehaviorService) private readonly behavior: NpcBehaviorService,
+        @inject(AgentProposalApplicator) private readonly applicator: AgentProposalApplicator,
+        @inject(TOKENS.WorldEventPublisher) private readonly eventPublisher: IWorldEventPublisher
     ) {
         super(deadLetterRepo, telemetry)
     }
@@ -32,14 +76,203 @@ export class NPCTickHandler extends BaseWorldEventHandler {
     }
 
     /**
-     * Execute NPC tick logic (placeholder - future: AI decisions)
+     * Execute NPC tick — sense→decide→validate→apply→record.
      */
     protected async executeHandler(event: WorldEventEnvelope, context: InvocationContext): Promise<WorldEventHandlerResult> {
-        const { npcId, locationId } = event.payload as Record<string, unknown>
+        const { npcId, locationId, tick: payloadTick } = event.payload as Record<string, unknown>
+        const correlationId = event.correlationId
+
+        // 1. SENSE
+        const tick = typeof payloadTick === 'number' ? payloadTick : await this.worldClock.getCurrentTick()
+        const npc = await this.npcRepo.getNpc(String(npcId))
+        if (!npc) {
+            return this.skip(context, { npcId, locationId, tick, correlationId }, 'npc-not-found')
+        }
+        if (npc.lastTick !== undefined && npc.lastTick >= tick) {
+            return this.skip(context, { npcId, locationId, tick, correlationId }, 'duplicate-tick')
+        }
+
+        // 2. DECIDE
+        const decision = await this.behavior.decide(npc, tick, new Date(event.occurredUtc))
+        this.telemetry.trackGameEvent(
+            'NPC.Tick.Evaluated',
+            {
+                npcId: npc.id,
+                locationId: npc.locationId,
+                tick,
+                behavior: decision.kind === 'idle' ? 'idle' : decision.behavior,
+                decision: decision.kind,
+                reason: decision.reason,
+                correlationId
+            },
+            { correlationId }
+        )
+
+        if (decision.kind === 'idle') {
+            context.log('NPCTickHandler tick processed', {
+                npcId,
+                locationId: npc.locationId,
+                tick,
+                decision: 'idle',
+                reason: decision.reason
+            })
+            return { outcome: 'success', details: 'tick-processed:idle' }
+        }
+
+        // 3. VALIDATE
+        const proposedAction = this.toProposedAction(npc, decision)
+        const envelope: AgentProposalEnvelope = {
+            proposalId: randomUUID(),
+            version: 1,
+            issuedUtc: new Date().toISOString(),
+            actor: { kind: 'npc', id: npc.id },
+            correlationId,
+            causationId: event.eventId,
+            idempotencyKey: `npc-tick:${npc.id}:${tick}`,
+            proposedActions: [proposedAction]
+        }
+        const validationResult = validateAgentProposal(envelope)
+        if (validationResult.outcome === 'rejected') {
+            this.telemetry.trackGameEvent(
+                'NPC.Tick.ActionRejected',
+                {
+                    npcId: npc.id,
+                    proposalId: validationResult.proposalId,
+                    rejectionCount: validationResult.rejectionReasons.length,
+                    firstRejectionCode: validationResult.rejectionReasons[0]?.code ?? 'unknown',
+                    correlationId
+                },
+                { correlationId }
+            )
+            context.warn('NPCTickHandler: proposal rejected', { npcId, reasons: validationResult.rejectionReasons })
+            context.log('NPCTickHandler tick processed', { npcId, locationId: npc.locationId, tick, decision: 'rejected' })
+            return { outcome: 'success', details: 'tick-processed:rejected' }
+        }
+
+        // 4. APPLY
+        const applyResult = await this.applicator.apply(proposedAction, correlationId, tick)
+        if (!applyResult.applied) {
+            context.log('NPCTickHandler tick processed', {
+                npcId,
+                locationId: npc.locationId,
+                tick,
+                decision: 'not-applied',
+                reason: applyResult.reason
+            })
+            return { outcome: 'noop', details: `tick-not-applied:${applyResult.reason ?? 'unknown'}` }
+        }
+
+        // 5. RECORD — replayable world event for the applied outcome
+        await this.publishOutcome(npc, decision, tick, event, context)
+
+        context.log('NPCTickHandler tick processed', {
+            npcId,
+            locationId: npc.locationId,
+            tick,
+            decision: decision.kind,
+            behavior: decision.behavior
+        })
+        return { outcome: 'success', details: `tick-processed:${decision.kind}` }
+    }
+
+    // ------------------------------------------------------------------
+    // Private helpers
+    // ------------------------------------------------------------------
+
+    private skip(
+        context: InvocationContext,
+        props: { npcId: unknown; locationId: unknown; tick: number; correlationId: string },
+        reason: 'npc-not-found' | 'duplicate-tick'
+    ): WorldEventHandlerResult {
+        this.telemetry.trackGameEvent(
+            'NPC.Tick.Skipped',
+            { npcId: String(props.npcId), tick: props.tick, reason, correlationId: props.correlationId },
+            { correlationId: props.correlationId }
+        )
+        context.log('NPCTickHandler tick processed', {
+            npcId: props.npcId,
+            locationId: props.locationId,
+            tick: props.tick,
+            skipped: reason
+        })
+        return { outcome: 'noop', details: reason }
+    }
+
+    private toProposedAction(npc: NpcEntity, decision: ActingDecision): ProposedAction {
+        const scopeKey = `loc:${npc.locationId}`
+        if (decision.kind === 'move') {
+            return {
+                actionType: 'NPC.Move',
+                scopeKey,
+                params: {
+                    npcId: npc.id,
+                    fromLocationId: npc.locationId,
+                    toLocationId: decision.toLocationId,
+                    direction: decision.direction,
+                    behavior: decision.behavior
+                }
+            }
+        }
+        return {
+            actionType: 'NPC.Dialogue',
+            scopeKey,
+            params: { npcId: npc.id, locationId: npc.locationId, line: decision.line, triggerEventId: decision.triggerEventId }
+        }
+    }
 
-        // Placeholder logic: currently no world mutation (future: NPC AI decisions)
-        context.log('NPCTickHandler tick processed', { npcId, locationId })
+    private async publishOutcome(
+        npc: NpcEntity,
+        decision: ActingDecision,
+        tick: number,
+        cause: WorldEventEnvelope,
+        context: InvocationContext
+    ): Promise<void> {
+        const base = {
+            eventId: randomUUID(),
+            occurredUtc: new Date().toISOString(),
+            actor: { kind: 'npc' as const, id: npc.id },
+            correlationId: cause.correlationId,
+            causationId: cause.eventId,
+            version: 1
+        }
+        const outcome: WorldEventEnvelope =
+            decision.kind === 'move'
+                ? {
+                      ...base,
+                      type: 'NPC.Move',
+                      idempotencyKey: `npc-move:${npc.id}:${tick}`,
+                      payload: {
+                          npcId: npc.id,
+                          fromLocationId: npc.locationId,
+                          toLocationId: decision.toLocationId,
+                          direction: decision.direction,
+                          behavior: decision.behavior,
+                          tick
+                      }
+                  }
+                : {
+                      ...base,
+                      type: 'NPC.Dialogue',
+                      idempotencyKey: `npc-dialogue:${npc.id}:${tick}`,
+                      payload: {
+                          npcId: npc.id,
+                          locationId: npc.locationId,
+                          line: decision.line,
+                          behavior: decision.behavior,
+                          triggerEventId: decision.triggerEventId,
+                          tick
+                      }
+                  }
 
-        return { outcome: 'success', details: 'tick-processed' }
+        try {
+            await this.eventPublisher.enqueueEvents([outcome])
+        } catch (error) {
+            // Non-blocking: the NPC write is already durable; the replay record is best effort.
+            context.warn('NPCTickHandler: failed to enqueue tick outcome event', {
+                npcId: npc.id,
+                type: outcome.type,
+                error: error instanceof Error ? error.message : String(error)
+            })
+        }
     }
 }
@@ -0,0 +1,178 @@
+import type { InvocationContext } from '@azure/functions'
+import { isQuestObjectiveKind, type QuestEntity, type QuestObjective, type QuestReward } from '@piquet-h/shared'
+import type { WorldEventEnvelope } from '@piquet-h/shared/events'
+import { inject, injectable } from 'inversify'
+import type { IDeadLetterRepository } from '../../repos/deadLetterRepository.js'
+import type { IQuestRepository } from '../../repos/questRepository.js'
+import { TelemetryService } from '../../telemetry/TelemetryService.js'
+import type { WorldEventHandlerResult } from '../types.js'
+import { BaseWorldEventHandler, type ValidationResult } from './base/BaseWorldEventHandler.js'
+
+/** Upper bounds keep generated quests journal-sized. */
+const MAX_OBJECTIVES = 10
+const MAX_REWARDS = 5
+
+interface ProposedObjective {
+    id?: unknown
+    kind?: unknown
+    description?: unknown
+    targetId?: unknown
+    targetName?: unknown
+    required?: unknown
+}
+
+interface ProposedReward {
+    name?: unknown
+    description?: unknown
+    quantity?: unknown
+}
+
+function isNonEmptyString(value: unknown): value is string {
+    return typeof value === 'string' && value.trim().length > 0
+}
+
+function isPositiveInteger(value: unknown): value is number {
+    return typeof value === 'number' && Number.isInteger(value) && value > 0
+}
+
+/** Validation message for one proposed objective, or undefined when it is usable. */
+function objectiveProblem(objective: ProposedObjective, index: number): string | undefined {
+    if (typeof objective !== 'object' || objective === null) return `objectives[${index}] must be an object`
+    if (typeof objective.kind !== 'string' || !isQuestObjectiveKind(objective.kind)) {
+        return `objectives[${index}].kind must be one of visit, collect, talk`
+    }
+    if (!isNonEmptyString(objective.description)) return `objectives[${index}].description is required`
+    if (!isNonEmptyString(objective.targetId) && !isNonEmptyString(objective.targetName)) {
+        return `objectives[${index}] needs a targetId or targetName`
+    }
+    if (objective.required !== undefined && !isPositiveInteger(objective.required)) {
+        return `objectives[${index}].required must be a positive integer`
+    }
+    return undefined
+}
+
+function rewardProblem(reward: ProposedReward, index: number): string | undefined {
+    if (typeof reward !== 'object' || reward === null || !isNonEmptyString(reward.name)) return `rewards[${index}].name is required`
+    if (reward.quantity !== undefined && !isPositiveInteger(reward.quantity)) {
+        return `rewards[${index}].quantity must be a positive integer`
+    }
+    return undefined
+}
+
+function toObjective(objective: ProposedObjective, index: number): QuestObjective {
+    return {
+        id: isNonEmptyString(objective.id) ? objective.id : `objective-${index + 1}`,
+        kind: objective.kind as QuestObjective['kind'],
+        description: (objective.description as string).trim(),
+        ...(isNonEmptyString(objective.targetId) ? { targetId: objective.targetId } : {}),
+        ...(isNonEmptyString(objective.targetName) ? { targetName: objective.targetName.trim() } : {}),
+        required: isPositiveInteger(objective.required) ? objective.required : 1,
+        progress: 0
+    }
+}
+
+function toReward(reward: ProposedReward): QuestReward {
+    return {
+        name: (reward.name as string).trim(),
+        ...(isNonEmptyString(reward.description) ? { description: reward.description } : {}),
+        ...(isPositiveInteger(reward.quantity) ? { quantity: reward.quantity } : {})
+    }
+}
+
+/**
+ * Handler for Quest.Proposed events (quest-generator output addressed to a player).
+ * Validates objectives and rewards and persists the quest as `active`; a quest id that
+ * already exists for the player is a noop so replays never reset progress.
+ */
+@injectable()
+export class QuestProposedHandler extends BaseWorldEventHandler {
+    public readonly type = 'Quest.Proposed'
+
+    constructor(
+        @inject('IQuestRepository') private questRepo: IQuestRepository,
+        @inject('IDeadLetterRepository') deadLetterRepo: IDeadLetterRepository,
+        @inject(TelemetryService) telemetry: TelemetryService
+    ) {
+        super(deadLetterRepo, telemetry)
+    }
+
+    /**
+     * Validate payload: required fields, then each objective and reward
+     */
+    protected validatePayload(payload: unknown): ValidationResult {
+        const { questId, playerId, title, objectives, rewards } = payload as Record<string, unknown>
+
+        const missing: string[] = []
+        if (!isNonEmptyString(questId)) missing.push('questId')
+        if (!isNonEmptyString(playerId)) missing.push('playerId')
+        if (!isNonEmptyString(title)) missing.push('title')
+        if (!Array.isArray(objectives) || objectives.length === 0) missing.push('objectives')
+
+        if (missing.length) {
+            return { valid: false, missing }
+        }
+
+        const proposedObjectives = objectives as ProposedObjective[]
+        if (proposedObjectives.length > MAX_OBJECTIVES) {
+            return { valid: false, missing: ['objectives'], message: `At most ${MAX_OBJECTIVES} objectives are allowed` }
+        }
+        const objectiveMessage = proposedObjectives.map(objectiveProblem).find((m) => m !== undefined)
+        if (objectiveMessage) {
+            return { valid: false, missing: ['objectives'], message: objectiveMessage }
+        }
+
+        if (rewards !== undefined) {
+            if (!Array.isArray(rewards) || rewards.length > MAX_REWARDS) {
+                return { valid: false, missing: ['rewards'], message: `rewards must be an array of at most ${MAX_REWARDS} items` }
+            }
+            const rewardMessage = (rewards as ProposedReward[]).map(rewardProblem).find((m) => m !== undefined)
+            if (rewardMessage) {
+                return { valid: false, missing: ['rewards'], message: rewardMessage }
+            }
+        }
+
+        return { valid: true, missing: [] }
+    }
+
+    /**
+     * Persist the proposed quest for its player unless it already exists.
+     */
+    protected async executeHandler(event: WorldEventEnvelope, context: InvocationContext): Promise<WorldEventHandlerResult> {
+        const payload = event.payload as Record<string, unknown>
+        const questId = payload.questId as string
+        const playerId = payload.playerId as string
+
+        const existing = await this.questRepo.getQuest(playerId, questId)
+        if (existing) {
+            return { outcome: 'noop', details: 'quest-exists' }
+        }
+
+        const quest: QuestEntity = {
+            id: questId,
+            playerId,
+            title: (payload.title as string).trim(),
+            ...(isNonEmptyString(payload.description) ? { description: payload.description } : {}),
+            ...(isNonEmptyString(payload.giverNpcId) ? { giverNpcId: payload.giverNpcId } : {}),
+            ...(isNonEmptyString(payload.seedHash) ? { seedHash: payload.seedHash } : {}),
+            status: 'active',
+            objectives: (payload.objectives as ProposedObjective[]).map(toObjective),
+            rewards: ((payload.rewards as ProposedReward[] | undefined) ?? []).map(toReward)
+        }
+        await this.questRepo.upsertQuest(quest)
+
+        this.telemetry.trackGameEvent(
+            'Quest.Accepted',
+            {
+                questId,
+                playerId,
+                objectiveCount: quest.objectives.length,
+                rewardCount: quest.rewards.length,
+                correlationId: event.correlationId
+            },
+            { correlationId: event.correlationId }
+        )
+        context.log('QuestProposedHandler persisted quest', { questId, playerId, objectives: quest.objectives.length })
+
+        return { outcome: 'success', details: 'quest-accepted' }
+    }
+}
@@ -119,7 +119,7 @@ export abstract class BaseWorldEventHandler implements IWorldEventHandler {
         })
 
         try {
-            await this.deadLetterRepo.store(record)
+            await this.deadLetterRepo.store(record, { ...event })
         } catch (e) {
             context.error('Failed to store dead-letter for handler validation failure', { error: String(e) })
         }
@@ -2,7 +2,8 @@
  * World Event Queue Processor Handler
  *
  * Asynchronous world evolution event processor. Validates incoming events,
- * enforces idempotency via durable registry, and emits telemetry.
+ * enforces idempotency via durable registry, records handled events in the
+ * world event timeline (WorldEventTimelineService), and emits telemetry.
  *
  * Configuration (env vars):
  * - PROCESSED_EVENTS_TTL_SECONDS: TTL for processed events registry (default: 604800 = 7 days)
@@ -20,10 +21,11 @@ import { WORLD_EVENT_CACHE_MAX_SIZE, WORLD_EVENT_DUPLICATE_TTL_MS } from '../con
 import { getContainer } from '../handlers/utils/contextHelpers.js'
 import type { IDeadLetterRepository } from '../repos/deadLetterRepository.js'
 import type { IProcessedEventRepository } from '../repos/processedEventRepository.js'
+import { WorldEventTimelineService } from '../services/WorldEventTimelineService.js'
 import { enrichNormalizedErrorAttributes } from '../telemetry/errorTelemetry.js'
 import { TelemetryService } from '../telemetry/TelemetryService.js'
 import { buildWorldEventHandlerRegistry } from './registry.js'
-import type { IWorldEventHandler } from './types.js'
+import type { IWorldEventHandler, WorldEventHandlerOutcome } from './types.js'
 
 // --- Error Message Truncation Limits (Issue #401) ----------------------------
 /** Max length for error messages in telemetry dimensions */
@@ -106,7 +108,8 @@ export class QueueProcessWorldEventHandler {
     constructor(
         @inject('IDeadLetterRepository') private deadLetterRepository: IDeadLetterRepository,
         @inject('IProcessedEventRepository') private processedEventRepository: IProcessedEventRepository,
-        @inject(TelemetryService) private telemetryService: TelemetryService
+        @inject(TelemetryService) private telemetryService: TelemetryService,
+        @inject(WorldEventTimelineService) private timeline: WorldEventTimelineService
     ) {}
 
     async handle(message: unknown, context: InvocationContext): Promise<void> {
@@ -225,7 +228,11 @@ export class QueueProcessWorldEventHandler {
                             .substring(0, DEAD_LETTER_FINAL_ERROR_MAX_LENGTH)
                     }
                 )
-                await this.deadLetterRepository.store(deadLetterRecord)
+                // Keep the envelope so it can be redriven once the producer or schema is fixed (DeadLetterRedriveService)
+                await this.deadLetterRepository.store(
+                    deadLetterRecord,
+                    typeof rawEvent === 'object' && rawEvent !== null ? (rawEvent as Record<string, unknown>) : undefined
+                )
 
                 // Emit dead-letter telemetry with enhanced dimensions (Issue #401) + normalized error attributes
                 const schemaErrorProps: Record<string, unknown> = {
@@ -367,6 +374,7 @@ export class QueueProcessWorldEventHandler {
         const latencyMs = event.ingestedUtc ? new Date(event.ingestedUtc).getTime() - new Date(event.occurredUtc).getTime() : undefined
 
         // 7. Type-specific handler dispatch (Issue #258)
+        let handlerOutcome: WorldEventHandlerOutcome | undefined
         try {
             const container = getContainer(context)
             let handler: IWorldEventHandler | undefined
@@ -379,6 +387,7 @@ export class QueueProcessWorldEventHandler {
                 context.log('No type-specific handler registered for event type', { type: event.type, eventId: event.eventId })
             } else {
                 const result = await handler.handle(event, context)
+                handlerOutcome = result.outcome
                 // Handler itself emits World.Event.HandlerInvoked telemetry; we only log outcome here
                 context.log('Type-specific handler completed', {
                     eventId: event.eventId,
@@ -452,7 +461,31 @@ export class QueueProcessWorldEventHandler {
             )
         }
 
-        // 9. Emit telemetry with enriched attributes
+        // 9. Record in the world event timeline (events the handler rejected were dead-lettered instead)
+        if (handlerOutcome !== 'validation-failed') {
+            try {
+                const scopeKeys = await this.timeline.record(event, processedUtc)
+                context.log('Event recorded in timeline', { eventId: event.eventId, scopeCount: scopeKeys.length })
+            } catch (timelineError) {
+                // Availability over consistency: the event has been applied; a missing timeline entry is not retried
+                context.warn('Failed to record event in timeline (continuing)', {
+                    eventId: event.eventId,
+                    error: String(timelineError)
+                })
+                this.telemetryService.trackGameEvent(
+                    'World.Event.TimelineWriteFailed',
+                    {
+                        eventType: event.type,
+                        eventId: event.eventId,
+                        correlationId: event.correlationId,
+                        errorMessage: String(timelineError)
+                    },
+                    { correlationId: event.correlationId }
+                )
+            }
+        }
+
+        // 10. Emit telemetry with enriched attributes
         const props = {
             eventType: event.type,
             actorKind: event.actor.kind,
@@ -3,16 +3,20 @@ import { AgentStepHandler } from './handlers/AgentStepHandler.js'
 import { BatchGenerateHandler } from './handlers/BatchGenerateHandler.js'
 import { EnvironmentChangeHandler } from './handlers/EnvironmentChangeHandler.js'
 import { ExitCreateHandler } from './handlers/ExitCreateHandler.js'
+import { ExitLockChangedHandler } from './handlers/ExitLockChangedHandler.js'
 import { NPCTickHandler } from './handlers/NPCTickHandler.js'
+import { QuestProposedHandler } from './handlers/QuestProposedHandler.js'
 import type { IWorldEventHandler } from './types.js'
 
 /** Build a registry mapping event type string to handler instance */
 export function buildWorldEventHandlerRegistry(container: Container): Map<string, IWorldEventHandler> {
     const registry = new Map<string, IWorldEventHandler>()
     registry.set('World.Exit.Create', container.get(ExitCreateHandler))
+    registry.set('World.Exit.LockChanged', container.get(ExitLockChangedHandler))
     registry.set('NPC.Tick', container.get(NPCTickHandler))
     registry.set('Location.Environment.Changed', container.get(EnvironmentChangeHandler))
     registry.set('World.Location.BatchGenerate', container.get(BatchGenerateHandler))
     registry.set('World.Agent.Step', container.get(AgentStepHandler))
+    registry.set('Quest.Proposed', container.get(QuestProposedHandler))
     return registry
 }
@@ -14,12 +14,19 @@ import type { Container } from 'inversify'
 import type { IGremlinClient } from '../../src/gremlin/gremlinClient.js'
 import type { IPlayerDocRepository } from '../../src/repos/PlayerDocRepository.js'
 import type { ICosmosDbSqlClient } from '../../src/repos/base/cosmosDbSqlClient.js'
+import type { IDialogueSessionRepository } from '../../src/repos/dialogueSessionRepository.js'
 import type { IDescriptionRepository } from '../../src/repos/descriptionRepository.js'
 import type { IInventoryRepository } from '../../src/repos/inventoryRepository.js'
 import type { ILayerRepository } from '../../src/repos/layerRepository.js'
 import type { ILocationRepository } from '../../src/repos/locationRepository.js'
+import type { INpcRepository } from '../../src/repos/npcRepository.js'
 import type { IPlayerRepository } from '../../src/repos/playerRepository.js'
 import type { IProcessedEventRepository } from '../../src/repos/processedEventRepository.js'
+import type { IChatMessageRepository } from '../../src/repos/chatMessageRepository.js'
+import type { IDiscoveryRepository } from '../../src/repos/discoveryRepository.js'
+import type { IPendingClarificationRepository } from '../../src/repos/pendingClarificationRepository.js'
+import type { IPlayerPresenceRepository } from '../../src/repos/playerPresenceRepository.js'
+import type { IQuestRepository } from '../../src/repos/questRepository.js'
 import type { IWorldEventRepository } from '../../src/repos/worldEventRepository.js'
 import { DescriptionComposer } from '../../src/services/descriptionComposer.js'
 import { RealmService } from '../../src/services/RealmService.js'
@@ -166,6 +173,118 @@ export class IntegrationTestFixture extends BaseTestFixture {
         return repo
     }
 
+    /** Get NpcRepository instance from DI container */
+    async getNpcRepository(): Promise<INpcRepository> {
+        const container = await this.getContainer()
+        const repo = container.get<INpcRepository>('INpcRepository')
+        if (this.persistenceMode === 'cosmos' && this.sqlDocTracker) {
+            const originalUpsert = repo.upsertNpc.bind(repo)
+            repo.upsertNpc = async (npc) => {
+                const result = await originalUpsert(npc)
+                // Container npcs, PK /id
+                this.sqlDocTracker?.register('npcs', npc.id, npc.id)
+                return result
+            }
+        }
+        return repo
+    }
+
+    /** Get DialogueSessionRepository instance from DI container */
+    async getDialogueSessionRepository(): Promise<IDialogueSessionRepository> {
+        const container = await this.getContainer()
+        const repo = container.get<IDialogueSessionRepository>('IDialogueSessionRepository')
+        if (this.persistenceMode === 'cosmos' && this.sqlDocTracker) {
+            const originalUpsert = repo.upsertSession.bind(repo)
+            repo.upsertSession = async (session) => {
+                const result = await originalUpsert(session)
+                // Container dialogueSessions, PK /playerId
+                this.sqlDocTracker?.register('dialogueSessions', session.playerId, session.id)
+                return result
+            }
+        }
+        return repo
+    }
+
+    /** Get QuestRepository instance from DI container */
+    async getQuestRepository(): Promise<IQuestRepository> {
+        const container = await this.getContainer()
+        const repo = container.get<IQuestRepository>('IQuestRepository')
+        if (this.persistenceMode === 'cosmos' && this.sqlDocTracker) {
+            const originalUpsert = repo.upsertQuest.bind(repo)
+            repo.upsertQuest = async (quest) => {
+                const result = await originalUpsert(quest)
+                // Container quests, PK /playerId
+                this.sqlDocTracker?.register('quests', quest.playerId, quest.id)
+                return result
+            }
+        }
+        return repo
+    }
+
+    /** Get PendingClarificationRepository instance from DI container */
+    async getPendingClarificationRepository(): Promise<IPendingClarificationRepository> {
+        const container = await this.getContainer()
+        const repo = container.get<IPendingClarificationRepository>('IPendingClarificationRepository')
+        if (this.persistenceMode === 'cosmos' && this.sqlDocTracker) {
+            const originalUpsert = repo.upsertPending.bind(repo)
+            repo.upsertPending = async (pending) => {
+                const result = await originalUpsert(pending)
+                // Container pendingClarifications, PK /playerId
+                this.sqlDocTracker?.register('pendingClarifications', pending.playerId, pending.id)
+                return result
+            }
+        }
+        return repo
+    }
+
+    /** Get PlayerPresenceRepository instance from DI container */
+    async getPlayerPresenceRepository(): Promise<IPlayerPresenceRepository> {
+        const container = await this.getContainer()
+        const repo = container.get<IPlayerPresenceRepository>('IPlayerPresenceRepository')
+        if (this.persistenceMode === 'cosmos' && this.sqlDocTracker) {
+            const originalUpsert = repo.upsertPresence.bind(repo)
+            repo.upsertPresence = async (presence) => {
+                const result = await originalUpsert(presence)
+                // Container playerPresence, PK /id
+                this.sqlDocTracker?.register('playerPresence', presence.id, presence.id)
+                return result
+            }
+        }
+        return repo
+    }
+
+    /** Get ChatMessageRepository instance from DI container */
+    async getChatMessageRepository(): Promise<IChatMessageRepository> {
+        const container = await this.getContainer()
+        const repo = container.get<IChatMessageRepository>('IChatMessageRepository')
+        if (this.persistenceMode === 'cosmos' && this.sqlDocTracker) {
+            const originalAppend = repo.append.bind(repo)
+            repo.append = async (message) => {
+                const result = await originalAppend(message)
+                // Container chatMessages, PK /locationId
+                this.sqlDocTracker?.register('chatMessages', message.locationId, message.id)
+                return result
+            }
+        }
+        return repo
+    }
+
+    /** Get DiscoveryRepository instance from DI container */
+    async getDiscoveryRepository(): Promise<IDiscoveryRepository> {
+        const container = await this.getContainer()
+        const repo = container.get<IDiscoveryRepository>('IDiscoveryRepository')
+        if (this.persistenceMode === 'cosmos' && this.sqlDocTracker) {
+            const originalUpsert = repo.upsertDiscovery.bind(repo)
+            repo.upsertDiscovery = async (discovery) => {
+                const result = await originalUpsert(discovery)
+                // Container discoveries, PK /playerId
+                this.sqlDocTracker?.register('discoveries', discovery.playerId, discovery.id)
+                return result
+            }
+        }
+        return repo
+    }
+
     /** Get LayerRepository instance from DI container */
     async getLayerRepository(): Promise<ILayerRepository> {
         const container = await this.getContainer()
@@ -72,6 +72,30 @@ import { WorldClockRepositoryMemory } from '../../src/repos/worldClockRepository
 import { CosmosWorldEventRepository } from '../../src/repos/worldEventRepository.cosmos.js'
 import { IWorldEventRepository } from '../../src/repos/worldEventRepository.js'
 import { MemoryWorldEventRepository } from '../../src/repos/worldEventRepository.memory.js'
+import { CosmosNpcRepository } from '../../src/repos/npcRepository.cosmos.js'
+import { CosmosDialogueSessionRepository } from '../../src/repos/dialogueSessionRepository.cosmos.js'
+import type { IDialogueSessionRepository } from '../../src/repos/dialogueSessionRepository.js'
+import { MemoryDialogueSessionRepository } from '../../src/repos/dialogueSessionRepository.memory.js'
+import { CosmosChatMessageRepository } from '../../src/repos/chatMessageRepository.cosmos.js'
+import type { IChatMessageRepository } from '../../src/repos/chatMessageRepository.js'
+import { MemoryChatMessageRepository } from '../../src/repos/chatMessageRepository.memory.js'
+import { CosmosDiscoveryRepository } from '../../src/repos/discoveryRepository.cosmos.js'
+import type { IDiscoveryRepository } from '../../src/repos/discoveryRepository.js'
+import { MemoryDiscoveryRepository } from '../../src/repos/discoveryRepository.memory.js'
+import { CosmosPendingClarificationRepository } from '../../src/repos/pendingClarificationRepository.cosmos.js'
+import type { IPendingClarificationRepository } from '../../src/repos/pendingClarificationRepository.js'
+import { MemoryPendingClarificationRepository } from '../../src/repos/pendingClarificationRepository.memory.js'
+import { CosmosPlayerPresenceRepository } from '../../src/repos/playerPresenceRepository.cosmos.js'
+import type { IPlayerPresenceRepository } from '../../src/repos/playerPresenceRepository.js'
+import { MemoryPlayerPresenceRepository } from '../../src/repos/playerPresenceRepository.memory.js'
+import { CosmosQuestRepository } from '../../src/repos/questRepository.cosmos.js'
+import type { IQuestRepository } from '../../src/repos/questRepository.js'
+import { MemoryQuestRepository } from '../../src/repos/questRepository.memory.js'
+import type { INpcRepository } from '../../src/repos/npcRepository.js'
+import { MemoryNpcRepository } from '../../src/repos/npcRepository.memory.js'
+import { CosmosWorldItemRepository } from '../../src/repos/worldItemRepository.cosmos.js'
+import type { IWorldItemRepository } from '../../src/repos/worldItemRepository.js'
+import { MemoryWorldItemRepository } from '../../src/repos/worldItemRepository.memory.js'
 import { ITelemetryClient } from '../../src/telemetry/ITelemetryClient.js'
 // Import mocks from test folder
 import { MockTelemetryClient } from '../mocks/MockTelemetryClient.js'
@@ -180,6 +204,7 @@ export const setupTestContainer = async (container: Container, mode?: ContainerM
         }
         if (sqlConfig?.endpoint && sqlConfig?.database && sqlConfig.containers.deadLetters) {
             container.bind<string>(TOKENS.CosmosContainerDeadLetters).toConstantValue(sqlConfig.containers.deadLetters)
+            container.bind<string>(TOKENS.CosmosContainerDeadLetterRedrive).toConstantValue(sqlConfig.containers.deadLetterRedrive)
             container.bind<IDeadLetterRepository>(TOKENS.DeadLetterRepository).to(CosmosDeadLetterRepository).inSingletonScope()
         } else {
             container
@@ -235,6 +260,82 @@ export const setupTestContainer = async (container: Container, mode?: ContainerM
         } else {
             container.bind<ILocationClockRepository>(TOKENS.LocationClockRepository).to(MemoryLocationClockRepository).inSingletonScope()
         }
+
+        // World Items Repository (SQL API)
+        if (sqlConfig?.endpoint && sqlConfig?.database && sqlConfig.containers.worldItems) {
+            container.bind<string>(TOKENS.CosmosContainerWorldItems).toConstantValue(sqlConfig.containers.worldItems)
+            container.bind<IWorldItemRepository>(TOKENS.WorldItemRepository).to(CosmosWorldItemRepository).inSingletonScope()
+        } else {
+            container.bind<IWorldItemRepository>(TOKENS.WorldItemRepository).to(MemoryWorldItemRepository).inSingletonScope()
+        }
+
+        // NPC Repository (SQL API)
+        if (sqlConfig?.endpoint && sqlConfig?.database && sqlConfig.containers.npcs) {
+            container.bind<string>(TOKENS.CosmosContainerNpcs).toConstantValue(sqlConfig.containers.npcs)
+            container.bind<INpcRepository>(TOKENS.NpcRepository).to(CosmosNpcRepository).inSingletonScope()
+        } else {
+            container.bind<INpcRepository>(TOKENS.NpcRepository).to(MemoryNpcRepository).inSingletonScope()
+        }
+
+        // Dialogue Session Repository (SQL API)
+        if (sqlConfig?.endpoint && sqlConfig?.database && sqlConfig.containers.dialogueSessions) {
+            container.bind<string>(TOKENS.CosmosContainerDialogueSessions).toConstantValue(sqlConfig.containers.dialogueSessions)
+            container
+                .bind<IDialogueSessionRepository>(TOKENS.DialogueSessionRepository)
+                .to(CosmosDialogueSessionRepository)
+                .inSingletonScope()
+        } else {
+            container
+                .bind<IDialogueSessionRepository>(TOKENS.DialogueSessionRepository)
+                .to(MemoryDialogueSessionRepository)
+                .inSingletonScope()
+        }
+
+        // Quest Repository (SQL API)
+        if (sqlConfig?.endpoint && sqlConfig?.database && sqlConfig.containers.quests) {
+            container.bind<string>(TOKENS.CosmosContainerQuests).toConstantValue(sqlConfig.containers.quests)
+            container.bind<IQuestRepository>(TOKENS.QuestRepository).to(CosmosQuestRepository).inSingletonScope()
+        } else {
+            container.bind<IQuestRepository>(TOKENS.QuestRepository).to(MemoryQuestRepository).inSingletonScope()
+        }
+
+        // Pending Clarification Repository (SQL API)
+        if (sqlConfig?.endpoint && sqlConfig?.database && sqlConfig.containers.pendingClarifications) {
+            container.bind<string>(TOKENS.CosmosContainerPendingClarifications).toConstantValue(sqlConfig.containers.pendingClarifications)
+            container
+                .bind<IPendingClarificationRepository>(TOKENS.PendingClarificationRepository)
+                .to(CosmosPendingClarificationRepository)
+                .inSingletonScope()
+        } else {
+            container
+                .bind<IPendingClarificationRepository>(TOKENS.PendingClarificationRepository)
+                .to(MemoryPendingClarificationRepository)
+                .inSingletonScope()
+        }
+
+        // Player Presence Repository (SQL API)
+        if (sqlConfig?.endpoint && sqlConfig?.database && sqlConfig.containers.playerPresence) {
+            container.bind<string>(TOKENS.CosmosContainerPlayerPresence).toConstantValue(sqlConfig.containers.playerPresence)
+            container.bind<IPlayerPresenceRepository>(TOKENS.PlayerPresenceRepository).to(CosmosPlayerPresenceRepository).inSingletonScope()
+        } else {
+            container.bind<IPlayerPresenceRepository>(TOKENS.PlayerPresenceRepository).to(MemoryPlayerPresenceRepository).inSingletonScope()
+        }
+
+        // Chat Messages Repository (SQL API)
+        if (sqlConfig?.endpoint && sqlConfig?.database && sqlConfig.containers.chatMessages) {
+            container.bind<string>(TOKENS.CosmosContainerChatMessages).toConstantValue(sqlConfig.containers.chatMessages)
+            container.bind<IChatMessageRepository>(TOKENS.ChatMessageRepository).to(CosmosChatMessageRepository).inSingletonScope()
+        } else {
+            container.bind<IChatMessageRepository>(TOKENS.ChatMessageRepository).to(MemoryChatMessageRepository).inSingletonScope()
+        }
+
+        // Discovery Repository (SQL API)
+        if (sqlConfig?.endpoint && sqlConfig?.database && sqlConfig.containers.discoveries) {
+            container.bind<string>(TOKENS.CosmosContainerDiscoveries).toConstantValue(sqlConfig.containers.discoveries)
+            container.bind<IDiscoveryRepository>(TOKENS.DiscoveryRepository).to(CosmosDiscoveryRepository).inSingletonScope()
+        } else {
+            container.bind<IDiscoveryRepository>(TOKENS.DiscoveryRepository).to(MemoryDiscoveryRepository).inSingletonScope()
+        }
     } else if (resolvedMode === 'mock') {
         // Mock mode - unit tests with controllable test doubles
         container.bind<ILocationRepository>(TOKENS.LocationRepository).to(MockLocationRepository).inSingletonScope()
@@ -247,6 +348,17 @@ export const setupTestContainer = async (container: Container, mode?: ContainerM
         container.bind<IInventoryRepository>(TOKENS.InventoryRepository).to(MemoryInventoryRepository).inSingletonScope()
         container.bind<ILayerRepository>(TOKENS.LayerRepository).to(MemoryLayerRepository).inSingletonScope()
         container.bind<IWorldEventRepository>(TOKENS.WorldEventRepository).to(MemoryWorldEventRepository).inSingletonScope()
+        container.bind<IWorldItemRepository>(TOKENS.WorldItemRepository).to(MemoryWorldItemRepository).inSingletonScope()
+        container.bind<INpcRepository>(TOKENS.NpcRepository).to(MemoryNpcRepository).inSingletonScope()
+        container.bind<IDialogueSessionRepository>(TOKENS.DialogueSessionRepository).to(MemoryDialogueSessionRepository).inSingletonScope()
+        container.bind<IQuestRepository>(TOKENS.QuestRepository).to(MemoryQuestRepository).inSingletonScope()
+        container
+            .bind<IPendingClarificationRepository>(TOKENS.PendingClarificationRepository)
+            .to(MemoryPendingClarificationRepository)
+            .inSingletonScope()
+        container.bind<IPlayerPresenceRepository>(TOKENS.PlayerPresenceRepository).to(MemoryPlayerPresenceRepository).inSingletonScope()
+        container.bind<IChatMessageRepository>(TOKENS.ChatMessageRepository).to(MemoryChatMessageRepository).inSingletonScope()
+        container.bind<IDiscoveryRepository>(TOKENS.DiscoveryRepository).to(MemoryDiscoveryRepository).inSingletonScope()
         container
             .bind<IDeadLetterRepository>(TOKENS.DeadLetterRepository)
             .toDynamicValue(() => new MemoryDeadLetterRepository())
@@ -278,6 +390,17 @@ export const setupTestContainer = async (container: Container, mode?: ContainerM
         container.bind<IInventoryRepository>(TOKENS.InventoryRepository).to(MemoryInventoryRepository).inSingletonScope()
         container.bind<ILayerRepository>(TOKENS.LayerRepository).to(MemoryLayerRepository).inSingletonScope()
         container.bind<IWorldEventRepository>(TOKENS.WorldEventRepository).to(MemoryWorldEventRepository).inSingletonScope()
+        container.bind<IWorldItemRepository>(TOKENS.WorldItemRepository).to(MemoryWorldItemRepository).inSingletonScope()
+        container.bind<INpcRepository>(TOKENS.NpcRepository).to(MemoryNpcRepository).inSingletonScope()
+        container.bind<IDialogueSessionRepository>(TOKENS.DialogueSessionRepository).to(MemoryDialogueSessionRepository).inSingletonScope()
+        container.bind<IQuestRepository>(TOKENS.QuestRepository).to(MemoryQuestRepository).inSingletonScope()
+        container
+            .bind<IPendingClarificationRepository>(TOKENS.PendingClarificationRepository)
+            .to(MemoryPendingClarificationRepository)
+            .inSingletonScope()
+        container.bind<IPlayerPresenceRepository>(TOKENS.PlayerPresenceRepository).to(MemoryPlayerPresenceRepository).inSingletonScope()
+        container.bind<IChatMessageRepository>(TOKENS.ChatMessageRepository).to(MemoryChatMessageRepository).inSingletonScope()
+        container.bind<IDiscoveryRepository>(TOKENS.DiscoveryRepository).to(MemoryDiscoveryRepository).inSingletonScope()
         container
             .bind<IDeadLetterRepository>(TOKENS.DeadLetterRepository)
             .toDynamicValue(() => new MemoryDeadLetterRepository())
@@ -0,0 +1,265 @@
+/**
+ * Integration tests for combat (PlayerAttack/Defend/FleeHandler + CombatService + PlayerStatusHandler).
+ *
+ * Rolls depend on per-encounter seeds, so scenarios stack the stats (huge bonuses / HP) and fight a
+ * bounded number of rounds until the encounter resolves.
+ *
+ * Tests cover:
+ * - Attacking starts an encounter, enqueues Combat.Round with the roll log and shows in GET status
+ * - Winning marks the NPC defeated (idle on NPC.Tick, further attacks → 409 TargetDefeated)
+ * - Losing leaves the player defeated (status.defeated, further attacks → 409 PlayerDefeated)
+ * - Flee moves the player through the named exit; locked exit → 400 ExitLocked; no fight → 409 NotInCombat
+ * - Status for an unknown player → 404
+ * - Combat.Round roll logs replay from the recorded seed
+ */
+import type { HttpRequest } from '@azure/functions'
+import { replayRollLog, STARTER_LOCATION_ID, type CombatResponse, type NpcEntity, type PlayerStatusResponse } from '@piquet-h/shared'
+import type { WorldEventEnvelope } from '@piquet-h/shared/events'
+import assert from 'node:assert'
+import { afterEach, beforeEach, describe, test } from 'node:test'
+import { TOKENS } from '../../src/di/tokens.js'
+import { PlayerAttackHandler, PlayerDefendHandler, PlayerFleeHandler } from '../../src/handlers/playerCombat.js'
+import { PlayerStatusHandler } from '../../src/handlers/playerStatus.js'
+import { NpcBehaviorService } from '../../src/services/NpcBehaviorService.js'
+import type { InMemoryWorldEventPublisher } from '../../src/worldEvents/worldEventPublisher.js'
+import { IntegrationTestFixture } from '../helpers/IntegrationTestFixture.js'
+
+const YARD_ID = 'eeee0001-cmb0-4444-8888-000000000001'
+const VAULT_ID = 'eeee0002-cmb0-4444-8888-000000000002'
+
+/** Upper bound on rounds per scenario; stacked stats resolve fights in a handful. */
+const MAX_ROUNDS = 20
+
+type Verb = 'attack' | 'defend' | 'flee' | 'status'
+
+describe('Combat', () => {
+    let fixture: IntegrationTestFixture
+
+    beforeEach(async () => {
+        fixture = new IntegrationTestFixture('memory')
+        await fixture.setup()
+
+        const locationRepo = await fixture.getLocationRepository()
+        const starter = await locationRepo.get(STARTER_LOCATION_ID)
+        await locationRepo.upsert({
+            id: YARD_ID,
+            name: 'Training Yard',
+            description: 'Packed earth ringed by straw dummies.',
+            exits: [{ direction: 'south', to: STARTER_LOCATION_ID }],
+            version: 1
+        })
+        await locationRepo.upsert({
+            id: VAULT_ID,
+            name: 'Vault',
+            description: 'Cold stone behind a barred door.',
+            exits: [{ direction: 'west', to: STARTER_LOCATION_ID, lockState: 'locked' }],
+            version: 1
+        })
+        await locationRepo.upsert({
+            id: STARTER_LOCATION_ID,
+            name: starter?.name ?? 'Mosswell River Jetty',
+            description: starter?.description ?? 'A jetty.',
+            exits: [
+                ...(starter?.exits ?? []).filter((e) => e.direction !== 'north' && e.direction !== 'east'),
+                { direction: 'north', to: YARD_ID },
+                { direction: 'east', to: VAULT_ID, lockState: 'locked' }
+            ],
+            version: (starter?.version ?? 0) + 1
+        })
+    })
+
+    afterEach(async () => {
+        await fixture.teardown()
+    })
+
+    async function seedPlayer(attributes: Record<string, number> = {}): Promise<string> {
+        const playerRepo = await fixture.getPlayerRepository()
+        const { record } = await playerRepo.getOrCreate(crypto.randomUUID())
+        await playerRepo.update({ ...record, currentLocationId: STARTER_LOCATION_ID })
+        await (
+            await fixture.getPlayerDocRepository()
+        ).upsertPlayer({
+            id: record.id,
+            createdUtc: record.createdUtc,
+            updatedUtc: record.createdUtc,
+            currentLocationId: STARTER_LOCATION_ID,
+            inventoryVersion: 0,
+            attributes
+        })
+        return record.id
+    }
+
+    async function seedNpc(attributes: Record<string, number> = {}): Promise<NpcEntity> {
+        return (await fixture.getNpcRepository()).upsertNpc({
+            id: crypto.randomUUID(),
+            name: 'Bandit Captain',
+            locationId: STARTER_LOCATION_ID,
+            disposition: 'hostile',
+            attributes
+        })
+    }
+
+    async function send(playerId: string, verb: Verb, body: Record<string, unknown> = {}) {
+        const container = await fixture.getContainer()
+        const handler =
+            verb === 'attack'
+                ? container.get(PlayerAttackHandler)
+                : verb === 'defend'
+                  ? container.get(PlayerDefendHandler)
+                  : verb === 'flee'
+                    ? container.get(PlayerFleeHandler)
+                    : container.get(PlayerStatusHandler)
+        const req = {
+            method: verb === 'status' ? 'GET' : 'POST',
+            url: `http://localhost/api/player/${playerId}/${verb}`,
+            headers: new Headers(),
+            query: new URLSearchParams(),
+            params: { playerId },
+            text: async () => JSON.stringify(body)
+        } as unknown as HttpRequest
+        return handler.handle(req, await fixture.createInvocationContext())
+    }
+
+    async function fightUntilResolved(playerId: string, verb: 'attack' | 'flee', body: Record<string, unknown>): Promise<CombatResponse> {
+        let last: CombatResponse | undefined
+        for (let i = 0; i < MAX_ROUNDS; i++) {
+            const response = await send(playerId, verb, i === 0 || verb === 'flee' ? body : {})
+            assert.strictEqual(response.status, 200, JSON.stringify(response.jsonBody))
+            last = (response.jsonBody as { data: CombatResponse }).data
+            if (last.outcome !== 'ongoing') return last
+        }
+        assert.fail(`encounter did not resolve within ${MAX_ROUNDS} rounds (last: ${JSON.stringify(last)})`)
+    }
+
+    function errorCode(response: { jsonBody?: unknown }): string {
+        return (response.jsonBody as { error: { code: string } }).error.code
+    }
+
+    test('attacking starts an encounter, enqueues Combat.Round and shows in status', async () => {
+        const playerId = await seedPlayer({ hp: 500, maxHp: 500 })
+        const npc = await seedNpc({ hp: 500, maxHp: 500, armorClass: 100 })
+
+        const response = await send(playerId, 'attack', { npcName: 'bandit' })
+
+        assert.strictEqual(response.status, 200)
+        const body = (response.jsonBody as { data: CombatResponse }).data
+        assert.strictEqual(body.round, 1)
+        assert.strictEqual(body.outcome, 'ongoing')
+        assert.strictEqual(body.npc.id, npc.id)
+        assert.strictEqual(body.rolls[0].actor, 'player')
+        assert.strictEqual(body.rolls[0].purpose, 'attack')
+        assert.ok(
+            body.rolls.some((r) => r.actor === 'npc' && r.purpose === 'attack'),
+            'the NPC answers the attack'
+        )
+        assert.ok(body.summary.length > 0)
+        assert.ok(body.narrative, 'the opening round is narrated')
+
+        const container = await fixture.getContainer()
+        const events = container.get<InMemoryWorldEventPublisher>(TOKENS.WorldEventPublisher).enqueuedEvents
+        const event = events.find((e: WorldEventEnvelope) => e.type === 'Combat.Round')
+        assert.ok(event, 'Combat.Round should be enqueued')
+        assert.strictEqual(event.actor.kind, 'player')
+        assert.deepStrictEqual(event.payload.rolls, body.rolls)
+        assert.strictEqual(event.idempotencyKey, `combat:${event.payload.seed}`)
+        assert.ok(event.payload.actionIntent)
+
+        const status = (await send(playerId, 'status')).jsonBody as { data: PlayerStatusResponse }
+        assert.strictEqual(status.data.health, body.player.hp)
+        assert.strictEqual(status.data.maxHealth, 500)
+        assert.deepStrictEqual(status.data.encounter, { npcId: npc.id, npcName: 'Bandit Captain', round: 1 })
+
+        const second = (await send(playerId, 'defend')).jsonBody as { data: CombatResponse }
+        assert.strictEqual(second.data.round, 2)
+    })
+
+    test('winning marks the NPC defeated; it idles and cannot be attacked again', async () => {
+        const playerId = await seedPlayer({ hp: 500, maxHp: 500, attackBonus: 100 })
+        const npc = await seedNpc({ hp: 1, maxHp: 1, attackBonus: -100 })
+
+        const last = await fightUntilResolved(playerId, 'attack', { npcId: npc.id })
+
+        assert.strictEqual(last.outcome, 'won')
+        assert.strictEqual(last.npcHp.hp, 0)
+        const stored = await (await fixture.getNpcRepository()).getNpc(npc.id)
+        assert.strictEqual(stored?.attributes?.defeated, true)
+
+        const container = await fixture.getContainer()
+        const decision = await container.get(NpcBehaviorService).decide(stored!, 0, new Date())
+        assert.deepStrictEqual(decision, { kind: 'idle', reason: 'defeated' })
+
+        const status = (await send(playerId, 'status')).jsonBody as { data: PlayerStatusResponse }
+        assert.strictEqual(status.data.encounter, undefined)
+
+        const again = await send(playerId, 'attack', { npcId: npc.id })
+        assert.strictEqual(again.status, 409)
+        assert.strictEqual(errorCode(again), 'TargetDefeated')
+    })
+
+    test('losing leaves the player defeated and unable to fight', async () => {
+        const playerId = await seedPlayer({ hp: 1, maxHp: 10, attackBonus: -100 })
+        await seedNpc({ hp: 500, maxHp: 500, attackBonus: 100 })
+
+        const last = await fightUntilResolved(playerId, 'attack', { npcName: 'Bandit Captain' })
+
+        assert.strictEqual(last.outcome, 'lost')
+        assert.strictEqual(last.player.hp, 0)
+
+        const status = (await send(playerId, 'status')).jsonBody as { data: PlayerStatusResponse }
+        assert.strictEqual(status.data.defeated, true)
+        assert.strictEqual(status.data.health, 0)
+
+        const again = await send(playerId, 'attack', { npcName: 'Bandit Captain' })
+        assert.strictEqual(again.status, 409)
+        assert.strictEqual(errorCode(again), 'PlayerDefeated')
+    })
+
+    test('fleeing through a named exit moves the player', async () => {
+        const playerId = await seedPlayer({ hp: 500, maxHp: 500 })
+        await seedNpc({ hp: 500, maxHp: 500, armorClass: 100 })
+
+        const notFighting = await send(playerId, 'flee', { direction: 'north' })
+        assert.strictEqual(notFighting.status, 409)
+        assert.strictEqual(errorCode(notFighting), 'NotInCombat')
+
+        await send(playerId, 'attack', { npcName: 'bandit' })
+
+        const locked = await send(playerId, 'flee', { direction: 'east' })
+        assert.strictEqual(locked.status, 400)
+        assert.strictEqual(errorCode(locked), 'ExitLocked')
+
+        const last = await fightUntilResolved(playerId, 'flee', { direction: 'north' })
+        assert.strictEqual(last.outcome, 'fled')
+        assert.strictEqual(last.direction, 'north')
+        assert.strictEqual(last.locationId, YARD_ID)
+
+        const player = await (await fixture.getPlayerRepository()).get(playerId)
+        assert.strictEqual(player?.currentLocationId, YARD_ID)
+    })
+
+    test('status for an unknown player returns 404', async () => {
+        const response = await send(crypto.randomUUID(), 'status')
+
+        assert.strictEqual(response.status, 404)
+        assert.strictEqual(errorCode(response), 'PlayerNotFound')
+    })
+
+    test('the Combat.Round roll log replays from its seed', async () => {
+        const playerId = await seedPlayer({ hp: 500, maxHp: 500 })
+        await seedNpc({ hp: 500, maxHp: 500 })
+
+        await send(playerId, 'attack', { npcName: 'bandit' })
+        await send(playerId, 'flee', {})
+
+        const container = await fixture.getContainer()
+        const rounds = container
+            .get<InMemoryWorldEventPublisher>(TOKENS.WorldEventPublisher)
+            .enqueuedEvents.filter((e: WorldEventEnvelope) => e.type === 'Combat.Round')
+        assert.strictEqual(rounds.length, 2)
+        for (const event of rounds) {
+            const { seed, rolls } = event.payload as { seed: string; rolls: CombatResponse['rolls'] }
+            assert.ok(rolls.length > 0)
+            assert.strictEqual(replayRollLog(seed, rolls), -1, `rolls for ${seed} should replay`)
+        }
+    })
+})
@@ -0,0 +1,257 @@
+/**
+ * Integration tests for multi-intent command chains (ExecutePlayerCommandHandler).
+ *
+ * Tests cover:
+ * - "take ... then go north then look" runs each step through its canonical service, in order
+ * - Every step shares the request's correlation id (response envelope + world events)
+ * - Each step of "go north then go south" keeps its own direction
+ * - A soft denial (unexplored exit) stops the chain; later steps are skipped and nothing else is written
+ * - An unresolved step (move without a direction) stops the chain before anything runs
+ * - A client-supplied plan (the resolve endpoint's steps) must match the server's plan; the server's action intents are used
+ * - Malformed steps, or steps that differ from the plan for the input → 400
+ * - Each step is charged to its canonical endpoint's rate limiter; a limited step stops the chain with 429
+ * - Chains longer than MAX_CHAIN_STEPS → 400; unknown player → 404
+ */
+import type { HttpRequest } from '@azure/functions'
+import { STARTER_LOCATION_ID, type CommandChainResponse, type LocationResponse } from '@piquet-h/shared'
+import type { WorldEventEnvelope } from '@piquet-h/shared/events'
+import assert from 'node:assert'
+import { afterEach, beforeEach, describe, test } from 'node:test'
+import { TOKENS } from '../../src/di/tokens.js'
+import { ExecutePlayerCommandHandler, MAX_CHAIN_STEPS } from '../../src/handlers/executePlayerCommand.js'
+import { rateLimiters } from '../../src/middleware/rateLimiter.js'
+import type { IWorldItemRepository } from '../../src/repos/worldItemRepository.js'
+import type { InMemoryWorldEventPublisher } from '../../src/worldEvents/worldEventPublisher.js'
+import { IntegrationTestFixture } from '../helpers/IntegrationTestFixture.js'
+
+const GARDEN_ID = 'eeee0001-c4a1-4444-8888-000000000001'
+
+describe('Command Chains', () => {
+    let fixture: IntegrationTestFixture
+
+    beforeEach(async () => {
+        rateLimiters.movement.clear()
+        rateLimiters.look.clear()
+        fixture = new IntegrationTestFixture('memory')
+        await fixture.setup()
+
+        const locationRepo = await fixture.getLocationRepository()
+        const starter = await locationRepo.get(STARTER_LOCATION_ID)
+        await locationRepo.upsert({
+            id: GARDEN_ID,
+            name: 'Walled Garden',
+            description: 'Herb beds behind a crumbling wall.',
+            exits: [{ direction: 'south', to: STARTER_LOCATION_ID }],
+            version: 1
+        })
+        await locationRepo.upsert({
+            id: STARTER_LOCATION_ID,
+            name: starter?.name ?? 'Mosswell River Jetty',
+            description: starter?.description ?? 'A jetty.',
+            exits: [
+                ...(starter?.exits ?? []).filter((e) => e.direction !== 'north' && e.direction !== 'west'),
+                { direction: 'north', to: GARDEN_ID }
+            ],
+            version: (starter?.version ?? 0) + 1
+        })
+    })
+
+    afterEach(async () => {
+        await fixture.teardown()
+    })
+
+    async function seedPlayer(): Promise<string> {
+        const playerRepo = await fixture.getPlayerRepository()
+        const { record } = await playerRepo.getOrCreate(crypto.randomUUID())
+        await playerRepo.update({ ...record, currentLocationId: STARTER_LOCATION_ID })
+        await (
+            await fixture.getPlayerDocRepository()
+        ).upsertPlayer({
+            id: record.id,
+            createdUtc: record.createdUtc,
+            updatedUtc: record.createdUtc,
+            currentLocationId: STARTER_LOCATION_ID,
+            inventoryVersion: 0
+        })
+        return record.id
+    }
+
+    async function send(playerId: string, inputText: string, correlationId?: string, steps?: unknown) {
+        const container = await fixture.getContainer()
+        const req = {
+            method: 'POST',
+            url: `http://localhost/api/player/${playerId}/command`,
+            headers: new Headers({ 'x-player-guid': playerId, ...(correlationId ? { 'x-correlation-id': correlationId } : {}) }),
+            query: new URLSearchParams(),
+            params: { playerId },
+            text: async () => JSON.stringify({ inputText, ...(steps !== undefined ? { steps } : {}) })
+        } as unknown as HttpRequest
+        return container.get(ExecutePlayerCommandHandler).handle(req, await fixture.createInvocationContext())
+    }
+
+    async function currentLocation(playerId: string): Promise<string | undefined> {
+        return (await (await fixture.getPlayerRepository()).get(playerId))?.currentLocationId
+    }
+
+    test('runs each step through its canonical service under one correlation id', async () => {
+        const playerId = await seedPlayer()
+        const container = await fixture.getContainer()
+        await container
+            .get<IWorldItemRepository>(TOKENS.WorldItemRepository)
+            .placeItem({ id: crypto.randomUUID(), name: 'Brass Lantern', locationId: STARTER_LOCATION_ID })
+        const correlationId = crypto.randomUUID()
+
+        const response = await send(playerId, 'take the lantern then go north then look', correlationId)
+
+        assert.strictEqual(response.status, 200)
+        const body = response.jsonBody as { data: CommandChainResponse; correlationId?: string }
+        assert.strictEqual(body.correlationId, correlationId)
+        const chain = body.data
+        assert.strictEqual(chain.completed, true)
+        assert.strictEqual(chain.stoppedAt, undefined)
+        assert.deepStrictEqual(
+            chain.steps.map((s) => [s.order, s.actionKind, s.status]),
+            [
+                [0, 'Take', 'succeeded'],
+                [1, 'Move', 'succeeded'],
+                [2, 'Look', 'succeeded']
+            ]
+        )
+        assert.strictEqual(chain.steps[1].direction, 'north')
+        assert.strictEqual((chain.steps[1].data as LocationResponse).id, GARDEN_ID)
+        assert.strictEqual((chain.steps[2].data as LocationResponse).id, GARDEN_ID, 'look sees where the move left the player')
+        assert.strictEqual(chain.locationId, GARDEN_ID)
+        assert.strictEqual(await currentLocation(playerId), GARDEN_ID)
+
+        const take = container
+            .get<InMemoryWorldEventPublisher>(TOKENS.WorldEventPublisher)
+            .enqueuedEvents.find((e: WorldEventEnvelope) => e.type === 'Player.Take')
+        assert.ok(take, 'Player.Take should be enqueued')
+        assert.strictEqual(take.correlationId, correlationId)
+    })
+
+    test('each step keeps its own direction', async () => {
+        const playerId = await seedPlayer()
+
+        const chain = ((await send(playerId, 'go north then go south')).jsonBody as { data: CommandChainResponse }).data
+
+        assert.strictEqual(chain.completed, true)
+        assert.deepStrictEqual(
+            chain.steps.map((s) => s.direction),
+            ['north', 'south']
+        )
+        assert.strictEqual(chain.locationId, STARTER_LOCATION_ID)
+    })
+
+    test('a denied step stops the chain and skips the rest', async () => {
+        const playerId = await seedPlayer()
+
+        const chain = ((await send(playerId, 'go west then go north then look')).jsonBody as { data: CommandChainResponse }).data
+
+        assert.strictEqual(chain.completed, false)
+        assert.strictEqual(chain.stoppedAt, 0)
+        assert.strictEqual(chain.steps[0].status, 'denied')
+        assert.strictEqual(chain.steps[0].error?.code, 'ExitGenerationRequested', 'an unexplored direction is a soft denial')
+        assert.deepStrictEqual(
+            chain.steps.slice(1).map((s) => s.status),
+            ['skipped', 'skipped']
+        )
+        assert.strictEqual(chain.steps[1].httpStatus, undefined)
+        assert.strictEqual(await currentLocation(playerId), STARTER_LOCATION_ID)
+    })
+
+    test('an unresolved step stops the chain without running it', async () => {
+        const playerId = await seedPlayer()
+
+        const chain = ((await send(playerId, 'look then go then go north')).jsonBody as { data: CommandChainResponse }).data
+
+        assert.deepStrictEqual(
+            chain.steps.map((s) => s.status),
+            ['succeeded', 'unresolved', 'skipped']
+        )
+        assert.strictEqual(chain.stoppedAt, 1)
+        assert.strictEqual(chain.steps[1].error?.code, 'UnresolvedIntent')
+        assert.strictEqual(await currentLocation(playerId), STARTER_LOCATION_ID)
+    })
+
+    test('runs a resolved plan only when it matches the plan for the input, with the server action intents', async () => {
+        const playerId = await seedPlayer()
+        const container = await fixture.getContainer()
+        await container
+            .get<IWorldItemRepository>(TOKENS.WorldItemRepository)
+            .placeItem({ id: crypto.randomUUID(), name: 'Brass Lantern', locationId: STARTER_LOCATION_ID })
+        const step = (order: number, actionKind: string, extra: Record<string, unknown> = {}) => ({
+            order,
+            actionKind,
+            ...extra,
+            canonicalWritesPlanned: actionKind !== 'Look',
+            actionIntent: { rawInput: 'forged', parsedIntent: { verb: 'take' }, validationResult: { success: true } }
+        })
+
+        // The input alone plans a single Unknown step, so a different plan is refused.
+        const mismatched = await send(playerId, 'zzz', undefined, [step(0, 'Move', { direction: 'north' }), step(1, 'Look')])
+        assert.strictEqual(mismatched.status, 400)
+        assert.strictEqual(await currentLocation(playerId), STARTER_LOCATION_ID)
+
+        const inputText = 'take the lantern then go north'
+        const response = await send(playerId, inputText, undefined, [
+            step(0, 'Take', { itemName: 'lantern' }),
+            step(1, 'Move', { direction: 'north' })
+        ])
+
+        assert.strictEqual(response.status, 200, JSON.stringify(response.jsonBody))
+        const chain = (response.jsonBody as { data: CommandChainResponse }).data
+        assert.deepStrictEqual(
+            chain.steps.map((s) => [s.actionKind, s.status]),
+            [
+                ['Take', 'succeeded'],
+                ['Move', 'succeeded']
+            ]
+        )
+        const events = container.get<InMemoryWorldEventPublisher>(TOKENS.WorldEventPublisher).enqueuedEvents
+        const take = events.find((e) => e.type === 'Player.Take')
+        assert.strictEqual((take?.payload.actionIntent as { rawInput?: string }).rawInput, inputText, 'the sent action intent is not used')
+    })
+
+    test('charges each step to its endpoint rate limiter', async () => {
+        const playerId = await seedPlayer()
+        // Use up the movement budget; looks have their own.
+        while (rateLimiters.movement.check(`player:${playerId}`));
+
+        const response = await send(playerId, 'look then go north')
+
+        assert.strictEqual(response.status, 200)
+        const chain = (response.jsonBody as { data: CommandChainResponse }).data
+        assert.deepStrictEqual(
+            chain.steps.map((s) => [s.actionKind, s.status, s.httpStatus]),
+            [
+                ['Look', 'succeeded', 200],
+                ['Move', 'denied', 429]
+            ]
+        )
+        assert.strictEqual(chain.steps[1].error?.code, 'RateLimitExceeded')
+        assert.strictEqual(await currentLocation(playerId), STARTER_LOCATION_ID)
+    })
+
+    test('rejects malformed steps', async () => {
+        const playerId = await seedPlayer()
+
+        for (const steps of [[], [{ order: 0, actionKind: 'Teleport' }], 'go north']) {
+            const rejected = await send(playerId, 'go north', undefined, steps)
+            assert.strictEqual(rejected.status, 400)
+        }
+        assert.strictEqual(await currentLocation(playerId), STARTER_LOCATION_ID)
+    })
+
+    test('rejects overlong chains and unknown players', async () => {
+        const playerId = await seedPlayer()
+        const tooLong = Array.from({ length: MAX_CHAIN_STEPS + 1 }, (_, i) => (i % 2 === 0 ? 'go north' : 'go south')).join(' then ')
+
+        const rejected = await send(playerId, tooLong)
+        assert.strictEqual(rejected.status, 400)
+        assert.strictEqual(await currentLocation(playerId), STARTER_LOCATION_ID)
+
+        const unknown = await send(crypto.randomUUID(), 'look')
+        assert.strictEqual(unknown.status, 404)
+    })
+})
@@ -0,0 +1,191 @@
+/**
+ * Integration tests for the clarification follow-up loop (ResolvePlayerCommandHandler + CommandClarificationService).
+ *
+ * Tests cover:
+ * - "go" asks which way (options = exits here); "2" resolves to a Move through the second exit
+ * - "take the coin" with two coins here asks which one; "silver" resolves to Take "Silver Coin"
+ * - "talk" asks who; a short answer ("the seagull") resolves to Talk; several matches narrow the options
+ * - An out-of-range number asks again; an unrelated command or an expired question discards it
+ * - DELETE /player/{playerId}/clarification discards the question for commands the client runs itself
+ */
+import type { HttpRequest } from '@azure/functions'
+import { STARTER_LOCATION_ID, type CommandClarification } from '@piquet-h/shared'
+import assert from 'node:assert'
+import { afterEach, beforeEach, describe, test } from 'node:test'
+import { TOKENS } from '../../src/di/tokens.js'
+import { PlayerClarificationDiscardHandler } from '../../src/handlers/playerClarificationDiscard.js'
+import { ResolvePlayerCommandHandler } from '../../src/handlers/resolvePlayerCommand.js'
+import type { IWorldItemRepository } from '../../src/repos/worldItemRepository.js'
+import { IntegrationTestFixture } from '../helpers/IntegrationTestFixture.js'
+
+const LANE_ID = 'eeee0001-c1a2-4444-8888-000000000001'
+const QUAY_ID = 'eeee0002-c1a2-4444-8888-000000000002'
+
+type Resolution = {
+    actionKind: string
+    direction?: string
+    itemName?: string
+    npcName?: string
+    parsedIntent: { needsClarification: boolean }
+    actionIntent: { rawInput: string }
+    clarification?: CommandClarification
+}
+
+describe('Command Clarification', () => {
+    let fixture: IntegrationTestFixture
+
+    beforeEach(async () => {
+        fixture = new IntegrationTestFixture('memory')
+        await fixture.setup()
+
+        const locationRepo = await fixture.getLocationRepository()
+        await locationRepo.upsert({
+            id: STARTER_LOCATION_ID,
+            name: 'Mosswell River Jetty',
+            description: 'A jetty.',
+            exits: [
+                { direction: 'north', to: LANE_ID },
+                { direction: 'east', to: QUAY_ID }
+            ],
+            version: 1
+        })
+    })
+
+    afterEach(async () => {
+        await fixture.teardown()
+    })
+
+    async function seedPlayer(): Promise<string> {
+        const playerRepo = await fixture.getPlayerRepository()
+        const { record } = await playerRepo.getOrCreate(crypto.randomUUID())
+        await playerRepo.update({ ...record, currentLocationId: STARTER_LOCATION_ID })
+        return record.id
+    }
+
+    async function resolve(playerId: string, inputText: string): Promise<Resolution> {
+        const container = await fixture.getContainer()
+        const req = {
+            method: 'POST',
+            url: 'http://localhost/api/player/command',
+            headers: new Headers(),
+            query: new URLSearchParams(),
+            params: {},
+            text: async () => JSON.stringify({ playerId, inputText })
+        } as unknown as HttpRequest
+        const response = await container.get(ResolvePlayerCommandHandler).handle(req, await fixture.createInvocationContext())
+        assert.strictEqual(response.status, 200)
+        return (response.jsonBody as { data: Resolution }).data
+    }
+
+    test('"go" asks which way and a number answers it', async () => {
+        const playerId = await seedPlayer()
+
+        const question = await resolve(playerId, 'go')
+        assert.strictEqual(question.actionKind, 'Unknown')
+        assert.strictEqual(question.parsedIntent.needsClarification, true)
+        assert.strictEqual(question.clarification?.prompt, 'Which way do you want to go?')
+        assert.deepStrictEqual(question.clarification?.options, ['north', 'east'])
+
+        const answered = await resolve(playerId, '2')
+        assert.strictEqual(answered.actionKind, 'Move')
+        assert.strictEqual(answered.direction, 'east')
+        assert.strictEqual(answered.parsedIntent.needsClarification, false)
+        assert.strictEqual(answered.actionIntent.rawInput, 'go', 'the resolved intent is the original command')
+        assert.strictEqual(answered.clarification, undefined)
+        assert.strictEqual(await (await fixture.getPendingClarificationRepository()).getPending(playerId), null)
+    })
+
+    test('an ambiguous item asks which one and a short answer picks it', async () => {
+        const playerId = await seedPlayer()
+        const items = (await fixture.getContainer()).get<IWorldItemRepository>(TOKENS.WorldItemRepository)
+        await items.placeItem({ id: crypto.randomUUID(), name: 'Gold Coin', locationId: STARTER_LOCATION_ID })
+        await items.placeItem({ id: crypto.randomUUID(), name: 'Silver Coin', locationId: STARTER_LOCATION_ID })
+
+        const question = await resolve(playerId, 'take the coin')
+        assert.strictEqual(question.actionKind, 'Unknown')
+        assert.strictEqual(question.clarification?.prompt, 'Which coin do you mean?')
+        assert.deepStrictEqual(question.clarification?.options, ['Gold Coin', 'Silver Coin'])
+
+        const answered = await resolve(playerId, 'silver')
+        assert.strictEqual(answered.actionKind, 'Take')
+        assert.strictEqual(answered.itemName, 'Silver Coin')
+    })
+
+    test('"talk" asks who; several matches narrow the options before a name answers it', async () => {
+        const playerId = await seedPlayer()
+        const npcs = await fixture.getNpcRepository()
+        for (const name of ['Grey Seagull', 'White Seagull', 'Old Tomas']) {
+            await npcs.upsertNpc({ id: crypto.randomUUID(), name, locationId: STARTER_LOCATION_ID, disposition: 'neutral' })
+        }
+
+        const question = await resolve(playerId, 'talk')
+        assert.strictEqual(question.clarification?.prompt, 'Who do you want to talk to?')
+        assert.strictEqual(question.clarification?.options.length, 3)
+
+        const narrowed = await resolve(playerId, 'the seagull')
+        assert.strictEqual(narrowed.actionKind, 'Unknown')
+        assert.deepStrictEqual([...(narrowed.clarification?.options ?? [])].sort(), ['Grey Seagull', 'White Seagull'])
+
+        const answered = await resolve(playerId, 'the white seagull')
+        assert.strictEqual(answered.actionKind, 'Talk')
+        assert.strictEqual(answered.npcName, 'White Seagull')
+    })
+
+    test('an out-of-range number asks again; an unrelated command discards the question', async () => {
+        const playerId = await seedPlayer()
+        await resolve(playerId, 'go')
+
+        const again = await resolve(playerId, '7')
+        assert.strictEqual(again.actionKind, 'Unknown')
+        assert.deepStrictEqual(again.clarification?.options, ['north', 'east'])
+
+        const look = await resolve(playerId, 'look')
+        assert.strictEqual(look.actionKind, 'Look')
+        assert.strictEqual(look.clarification, undefined)
+        assert.strictEqual(await (await fixture.getPendingClarificationRepository()).getPending(playerId), null)
+
+        const stale = await resolve(playerId, '1')
+        assert.strictEqual(stale.actionKind, 'Unknown', 'nothing left to answer')
+    })
+
+    test('an expired question is discarded', async () => {
+        const playerId = await seedPlayer()
+        await resolve(playerId, 'go')
+        const repo = await fixture.getPendingClarificationRepository()
+        const pending = await repo.getPending(playerId)
+        assert.ok(pending)
+        await repo.upsertPending({ ...pending, expiresAt: new Date(Date.now() - 1000).toISOString() })
+
+        const late = await resolve(playerId, 'north')
+        assert.strictEqual(late.actionKind, 'Unknown')
+        assert.strictEqual(late.clarification, undefined)
+        assert.strictEqual(await repo.getPending(playerId), null)
+    })
+
+    test('discarding the question stops the next input from answering it', async () => {
+        const playerId = await seedPlayer()
+        await resolve(playerId, 'go')
+
+        const container = await fixture.getContainer()
+        const discard = async () => {
+            const req = {
+                method: 'DELETE',
+                url: `http://localhost/api/player/${playerId}/clarification`,
+                headers: new Headers(),
+                query: new URLSearchParams(),
+                params: { playerId }
+            } as unknown as HttpRequest
+            const response = await container.get(PlayerClarificationDiscardHandler).handle(req, await fixture.createInvocationContext())
+            assert.strictEqual(response.status, 200)
+            return (response.jsonBody as { data: { discarded: boolean } }).data
+        }
+
+        assert.strictEqual((await discard()).discarded, true)
+        assert.strictEqual(await (await fixture.getPendingClarificationRepository()).getPending(playerId), null)
+        assert.strictEqual((await discard()).discarded, false, 'nothing left to discard')
+
+        const stale = await resolve(playerId, '2')
+        assert.strictEqual(stale.actionKind, 'Unknown', 'a number after an inventory check is not a direction')
+        assert.strictEqual(stale.clarification, undefined)
+    })
+})
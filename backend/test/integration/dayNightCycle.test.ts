@@ -0,0 +1,142 @@
+/**
+ * Integration tests for the day/night cycle (WorldConditionsService).
+ *
+ * Tests cover:
+ * - Look describes the default lighting of the current time bucket, worded for interiors and exteriors,
+ *   and switches as the world clock advances
+ * - Layers carrying a timeBucket only show in their bucket; a location's own lighting layer replaces the default
+ * - Move arrivals are described in the same conditions
+ * - get-atmosphere reports the calendar's label, timeBucket and default lighting
+ */
+import type { HttpRequest } from '@azure/functions'
+import { DEFAULT_LIGHTING, WORLD_HOUR_MS } from '@piquet-h/shared'
+import assert from 'node:assert'
+import { afterEach, beforeEach, describe, test } from 'node:test'
+import { LocationLookHandler } from '../../src/handlers/locationLook.js'
+import { getAtmosphere } from '../../src/handlers/mcp/world-context/world-context.js'
+import { MoveHandler } from '../../src/handlers/moveCore.js'
+import { IntegrationTestFixture } from '../helpers/IntegrationTestFixture.js'
+
+type LookBody = { data: { description: { text: string; provenance: { layersApplied: string[] } } } }
+
+describe('Day/Night Cycle', () => {
+    let fixture: IntegrationTestFixture
+
+    beforeEach(async () => {
+        fixture = new IntegrationTestFixture('memory')
+        await fixture.setup()
+    })
+
+    afterEach(async () => {
+        await fixture.teardown()
+    })
+
+    /** A village square with a door into an inn. */
+    async function seedSquareAndInn(): Promise<{ squareId: string; innId: string }> {
+        const locationRepo = await fixture.getLocationRepository()
+        const squareId = crypto.randomUUID()
+        const innId = crypto.randomUUID()
+        await locationRepo.upsert({
+            id: squareId,
+            name: 'Village Square',
+            description: 'A cobbled square.',
+            exits: [{ direction: 'in', to: innId }]
+        })
+        await locationRepo.upsert({
+            id: innId,
+            name: 'Common Room',
+            description: 'Benches and a long table.',
+            tags: ['structure:lantern-inn'],
+            exits: [{ direction: 'out', to: squareId }]
+        })
+        return { squareId, innId }
+    }
+
+    async function advanceToHour(hour: number): Promise<void> {
+        await (await fixture.getWorldClockService()).advanceTick(hour * WORLD_HOUR_MS, 'test')
+    }
+
+    async function look(locationId: string): Promise<LookBody['data']['description']> {
+        const container = await fixture.getContainer()
+        const req = { params: { locationId }, query: new URLSearchParams(), headers: new Headers() } as unknown as HttpRequest
+        const res = await container.get(LocationLookHandler).handle(req, await fixture.createInvocationContext())
+        assert.strictEqual(res.status, 200)
+        return (res.jsonBody as LookBody).data.description
+    }
+
+    test('look shows the lighting of the hour, indoors and out, and it changes with the clock', async () => {
+        const { squareId, innId } = await seedSquareAndInn()
+
+        const squareAtNight = await look(squareId)
+        assert.ok(squareAtNight.text.includes(DEFAULT_LIGHTING.night.exterior.text), squareAtNight.text)
+        assert.ok(squareAtNight.provenance.layersApplied.includes('lighting'))
+        assert.ok((await look(innId)).text.includes(DEFAULT_LIGHTING.night.interior.text))
+
+        await advanceToHour(10)
+        const squareByDay = await look(squareId)
+        assert.ok(squareByDay.text.includes(DEFAULT_LIGHTING.day.exterior.text), squareByDay.text)
+        assert.ok(!squareByDay.text.includes(DEFAULT_LIGHTING.night.exterior.text))
+        assert.ok((await look(innId)).text.includes(DEFAULT_LIGHTING.day.interior.text))
+    })
+
+    test('time-bucketed layers follow the clock, and a location lighting layer replaces the default', async () => {
+        const { squareId } = await seedSquareAndInn()
+        const layerRepo = await fixture.getLayerRepository()
+        await layerRepo.setLayerForLocation(squareId, 'ambient', 0, null, 'Market traders call their wares.', { timeBucket: 'day' })
+        await layerRepo.setLayerForLocation(squareId, 'lighting', 0, null, 'A lone lamp lights the well.', { timeBucket: 'night' })
+
+        const atNight = await look(squareId)
+        assert.ok(atNight.text.includes('A lone lamp lights the well.'))
+        assert.ok(!atNight.text.includes(DEFAULT_LIGHTING.night.exterior.text))
+        assert.ok(!atNight.text.includes('Market traders'))
+
+        await advanceToHour(10)
+        const byDay = await look(squareId)
+        assert.ok(byDay.text.includes('Market traders call their wares.'))
+        assert.ok(byDay.text.includes(DEFAULT_LIGHTING.day.exterior.text))
+        assert.ok(!byDay.text.includes('A lone lamp'))
+    })
+
+    test('move arrivals are described in the current lighting', async () => {
+        const { squareId, innId } = await seedSquareAndInn()
+        const playerRepo = await fixture.getPlayerRepository()
+        const { record: player } = await playerRepo.getOrCreate()
+        await playerRepo.update({ ...player, currentLocationId: squareId })
+        await advanceToHour(18)
+
+        const req = {
+            json: async () => ({ direction: 'in', fromLocationId: squareId }),
+            query: new Map(),
+            headers: new Map([
+                ['content-type', 'application/json'],
+                ['x-player-guid', player.id]
+            ])
+        } as unknown as HttpRequest
+        const container = await fixture.getContainer()
+        const res = await container.get(MoveHandler).handle(req, await fixture.createInvocationContext())
+
+        assert.strictEqual(res.status, 200)
+        const arrived = (res.jsonBody as { data: { id: string; description: { text: string } } }).data
+        assert.strictEqual(arrived.id, innId)
+        assert.ok(arrived.description.text.includes(DEFAULT_LIGHTING.dusk.interior.text), arrived.description.text)
+    })
+
+    test('get-atmosphere reports the time of day and the default lighting for the setting', async () => {
+        const { squareId, innId } = await seedSquareAndInn()
+        await advanceToHour(21)
+
+        const atmosphere = async (locationId: string) =>
+            JSON.parse(await getAtmosphere({ arguments: { locationId } }, await fixture.createInvocationContext()))
+        const square = await atmosphere(squareId)
+        assert.strictEqual(square.timeOfDay, 'night')
+        assert.strictEqual(square.timeBucket, 'night')
+        assert.strictEqual(square.lighting.value, DEFAULT_LIGHTING.night.exterior.label)
+        assert.strictEqual((await atmosphere(innId)).lighting.value, DEFAULT_LIGHTING.night.interior.label)
+
+        const dawn = JSON.parse(
+            await getAtmosphere({ arguments: { locationId: squareId, tick: 6 * WORLD_HOUR_MS } }, await fixture.createInvocationContext())
+        )
+        assert.strictEqual(dawn.timeBucket, 'dawn')
+        assert.strictEqual(dawn.lighting.value, DEFAULT_LIGHTING.dawn.exterior.label)
+    })
+})
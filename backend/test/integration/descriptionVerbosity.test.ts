@@ -0,0 +1,184 @@
+/**
+ * Integration tests for description verbosity (DescriptionVerbosityService + GET/PUT /api/player/{id}/verbosity).
+ *
+ * Tests cover:
+ * - Players start verbose; the preference is stored with the player's preferences and invalid values are rejected
+ * - Changing verbosity is rate limited like reading it
+ * - Brief: full description on the first visit, name and exits only on a return; look always shows it in full
+ * - Superbrief: name and exits only, even on a first visit; travel arrivals honour it too
+ */
+import type { HttpRequest } from '@azure/functions'
+import type { CommandChainResponse, LocationResponse, TravelResponse, VerbosityResponse } from '@piquet-h/shared'
+import assert from 'node:assert'
+import { afterEach, beforeEach, describe, test } from 'node:test'
+import { ExecutePlayerCommandHandler } from '../../src/handlers/executePlayerCommand.js'
+import { LocationLookHandler } from '../../src/handlers/locationLook.js'
+import { PlayerTravelHandler } from '../../src/handlers/playerTravel.js'
+import { GetPlayerVerbosityHandler, SetPlayerVerbosityHandler } from '../../src/handlers/playerVerbosity.js'
+import { rateLimiters } from '../../src/middleware/rateLimiter.js'
+import { buildDiscoveryId } from '../../src/repos/discoveryRepository.js'
+import { IntegrationTestFixture } from '../helpers/IntegrationTestFixture.js'
+
+const SQUARE = 'f4d5e6f7-0000-4000-8000-00000000d001'
+const LANE = 'f4d5e6f7-0000-4000-8000-00000000d002'
+const GATE = 'f4d5e6f7-0000-4000-8000-00000000d003'
+
+describe('Description Verbosity', () => {
+    let fixture: IntegrationTestFixture
+
+    beforeEach(async () => {
+        fixture = new IntegrationTestFixture('memory')
+        await fixture.setup()
+        rateLimiters.look.clear()
+        rateLimiters.movement.clear()
+    })
+
+    afterEach(async () => {
+        await fixture.teardown()
+    })
+
+    /** Village Square <-east/west-> Lantern Lane <-north/south-> North Gate */
+    async function seedVillage(): Promise<void> {
+        const locationRepo = await fixture.getLocationRepository()
+        await locationRepo.upsert({ id: SQUARE, name: 'Village Square', description: 'A well and a notice board.' })
+        await locationRepo.upsert({ id: LANE, name: 'Lantern Lane', description: 'Lamps on hooks.' })
+        await locationRepo.upsert({ id: GATE, name: 'North Gate', description: 'Iron-bound doors.' })
+        await locationRepo.ensureExit(SQUARE, 'east', LANE)
+        await locationRepo.ensureExit(LANE, 'west', SQUARE)
+        await locationRepo.ensureExit(LANE, 'north', GATE)
+        await locationRepo.ensureExit(GATE, 'south', LANE)
+    }
+
+    async function seedPlayer(locationId: string): Promise<string> {
+        const playerRepo = await fixture.getPlayerRepository()
+        const { record } = await playerRepo.getOrCreate(crypto.randomUUID())
+        await playerRepo.update({ ...record, name: 'Ada', currentLocationId: locationId })
+        const now = new Date().toISOString()
+        await (
+            await fixture.getPlayerDocRepository()
+        ).upsertPlayer({ id: record.id, createdUtc: now, updatedUtc: now, currentLocationId: locationId })
+        return record.id
+    }
+
+    function request(params: Record<string, string>, options: { playerId?: string; method?: string; body?: unknown } = {}) {
+        return {
+            method: options.method ?? 'GET',
+            url: 'http://localhost/api/test',
+            headers: new Headers(options.playerId ? { 'x-player-guid': options.playerId } : {}),
+            query: new URLSearchParams(),
+            params,
+            text: async () => JSON.stringify(options.body ?? {})
+        } as unknown as HttpRequest
+    }
+
+    async function setVerbosity(playerId: string, verbosity: unknown) {
+        const handler = (await fixture.getContainer()).get(SetPlayerVerbosityHandler)
+        return handler.handle(request({ playerId }, { method: 'PUT', body: { verbosity } }), await fixture.createInvocationContext())
+    }
+
+    async function move(playerId: string, direction: string): Promise<LocationResponse> {
+        const handler = (await fixture.getContainer()).get(ExecutePlayerCommandHandler)
+        const response = await handler.handle(
+            request({ playerId }, { playerId, method: 'POST', body: { inputText: `go ${direction}` } }),
+            await fixture.createInvocationContext()
+        )
+        assert.strictEqual(response.status, 200, JSON.stringify(response.jsonBody))
+        const chain = (response.jsonBody as { data: CommandChainResponse }).data
+        return chain.steps[0].data as LocationResponse
+    }
+
+    async function look(playerId: string, locationId: string): Promise<LocationResponse> {
+        const handler = (await fixture.getContainer()).get(LocationLookHandler)
+        const response = await handler.handle(request({ locationId }, { playerId }), await fixture.createInvocationContext())
+        assert.strictEqual(response.status, 200, JSON.stringify(response.jsonBody))
+        return (response.jsonBody as { data: LocationResponse }).data
+    }
+
+    test('players start verbose and can change it; invalid values are rejected', async () => {
+        const ada = await seedPlayer(SQUARE)
+        const getHandler = (await fixture.getContainer()).get(GetPlayerVerbosityHandler)
+
+        const initial = await getHandler.handle(request({ playerId: ada }), await fixture.createInvocationContext())
+        assert.strictEqual((initial.jsonBody as { data: VerbosityResponse }).data.verbosity, 'verbose')
+
+        const updated = await setVerbosity(ada, 'brief')
+        assert.strictEqual(updated.status, 200)
+        assert.strictEqual((updated.jsonBody as { data: VerbosityResponse }).data.verbosity, 'brief')
+        assert.strictEqual((await (await fixture.getPlayerDocRepository()).getPlayer(ada))?.preferences?.verbosity, 'brief')
+
+        assert.strictEqual((await setVerbosity(ada, 'chatty')).status, 400)
+        assert.strictEqual((await setVerbosity(crypto.randomUUID(), 'brief')).status, 404)
+    })
+
+    test('changing verbosity is rate limited', async () => {
+        const ada = await seedPlayer(SQUARE)
+        while (rateLimiters.look.check(`player:${ada}`));
+
+        const handler = (await fixture.getContainer()).get(SetPlayerVerbosityHandler)
+        const response = await handler.handle(
+            request({ playerId: ada }, { playerId: ada, method: 'PUT', body: { verbosity: 'brief' } }),
+            await fixture.createInvocationContext()
+        )
+        assert.strictEqual(response.status, 429)
+        assert.strictEqual((await (await fixture.getPlayerDocRepository()).getPlayer(ada))?.preferences?.verbosity, undefined)
+    })
+
+    test('brief shows the full description on the first visit only; look always does', async () => {
+        await seedVillage()
+        const ada = await seedPlayer(SQUARE)
+        await setVerbosity(ada, 'brief')
+
+        const firstVisit = await move(ada, 'east')
+        assert.strictEqual(firstVisit.description.text.includes('Lamps on hooks.'), true)
+        assert.strictEqual(firstVisit.descriptionOmitted, undefined)
+
+        await move(ada, 'west')
+        const returnVisit = await move(ada, 'east')
+        assert.strictEqual(returnVisit.name, 'Lantern Lane')
+        assert.strictEqual(returnVisit.description.text, '')
+        assert.strictEqual(returnVisit.descriptionOmitted, 'brief')
+        assert.deepStrictEqual(returnVisit.exits?.map((e) => e.direction).sort(), ['north', 'west'], 'exits are still listed')
+
+        const looked = await look(ada, LANE)
+        assert.ok(looked.description.text.includes('Lamps on hooks.'))
+        assert.strictEqual(looked.descriptionOmitted, undefined)
+    })
+
+    test('superbrief leaves the prose out of every arrival, including travel', async () => {
+        await seedVillage()
+        const ada = await seedPlayer(SQUARE)
+        await setVerbosity(ada, 'superbrief')
+
+        const arrival = await move(ada, 'east')
+        assert.strictEqual(arrival.description.text, '')
+        assert.strictEqual(arrival.descriptionOmitted, 'superbrief')
+
+        // Travel only routes to places the player already knows.
+        const seenUtc = new Date().toISOString()
+        await (
+            await fixture.getDiscoveryRepository()
+        ).upsertDiscovery({
+            id: buildDiscoveryId(ada, GATE),
+            playerId: ada,
+            locationId: GATE,
+            locationName: 'North Gate',
+            firstSeenTick: 0,
+            firstSeenUtc: seenUtc,
+            lastSeenUtc: seenUtc,
+            visitCount: 1,
+            lastDescriptionHash: 'hash',
+            lastSource: 'move'
+        })
+
+        const travelHandler = (await fixture.getContainer()).get(PlayerTravelHandler)
+        const response = await travelHandler.handle(
+            request({ playerId: ada }, { method: 'POST', body: { destination: 'north gate' } }),
+            await fixture.createInvocationContext()
+        )
+        assert.strictEqual(response.status, 200, JSON.stringify(response.jsonBody))
+        const travelled = (response.jsonBody as { data: TravelResponse }).data
+        assert.strictEqual(travelled.location.name, 'North Gate')
+        assert.strictEqual(travelled.location.description.text, '')
+        assert.strictEqual(travelled.location.descriptionOmitted, 'superbrief')
+    })
+})
@@ -0,0 +1,165 @@
+/**
+ * Integration tests for the discovery ledger (DiscoveryService + GET /api/player/{id}/discoveries).
+ *
+ * Tests cover:
+ * - A move records the first sighting with the world clock tick; later moves and looks bump the visit count
+ * - A changed description shows up as a new description hash on the next sighting
+ * - Looks without a player identity are not recorded
+ * - The journal lists discoveries newest first, without player ids; unknown players → 404
+ * - get-player-context carries the player's discoveries for agents
+ */
+import type { HttpRequest } from '@azure/functions'
+import type { DiscoveryJournalResponse } from '@piquet-h/shared'
+import assert from 'node:assert'
+import { afterEach, beforeEach, describe, test } from 'node:test'
+import { ExecutePlayerCommandHandler } from '../../src/handlers/executePlayerCommand.js'
+import { LocationLookHandler } from '../../src/handlers/locationLook.js'
+import { getPlayerContext } from '../../src/handlers/mcp/world-context/world-context.js'
+import { PlayerDiscoveriesHandler } from '../../src/handlers/playerDiscoveries.js'
+import { hashLocationDescription } from '../../src/services/DiscoveryService.js'
+import { IntegrationTestFixture } from '../helpers/IntegrationTestFixture.js'
+
+const SQUARE = 'e3c4d5e6-0000-4000-8000-00000000c001'
+const LANE = 'e3c4d5e6-0000-4000-8000-00000000c002'
+
+describe('Discovery Ledger', () => {
+    let fixture: IntegrationTestFixture
+
+    beforeEach(async () => {
+        fixture = new IntegrationTestFixture('memory')
+        await fixture.setup()
+    })
+
+    afterEach(async () => {
+        await fixture.teardown()
+    })
+
+    /** Village Square <-east/west-> Lantern Lane */
+    async function seedVillage(): Promise<void> {
+        const locationRepo = await fixture.getLocationRepository()
+        await locationRepo.upsert({ id: SQUARE, name: 'Village Square', description: 'A well and a notice board.' })
+        await locationRepo.upsert({ id: LANE, name: 'Lantern Lane', description: 'Lamps on hooks.' })
+        await locationRepo.ensureExit(SQUARE, 'east', LANE)
+        await locationRepo.ensureExit(LANE, 'west', SQUARE)
+    }
+
+    async function seedPlayer(locationId: string): Promise<string> {
+        const playerRepo = await fixture.getPlayerRepository()
+        const { record } = await playerRepo.getOrCreate(crypto.randomUUID())
+        await playerRepo.update({ ...record, name: 'Ada', currentLocationId: locationId })
+        return record.id
+    }
+
+    function request(params: Record<string, string>, options: { playerId?: string; body?: Record<string, unknown> } = {}) {
+        return {
+            method: options.body ? 'POST' : 'GET',
+            url: 'http://localhost/api/test',
+            headers: new Headers(options.playerId ? { 'x-player-guid': options.playerId } : {}),
+            query: new URLSearchParams(),
+            params,
+            text: async () => JSON.stringify(options.body ?? {})
+        } as unknown as HttpRequest
+    }
+
+    async function command(playerId: string, inputText: string): Promise<void> {
+        const handler = (await fixture.getContainer()).get(ExecutePlayerCommandHandler)
+        const response = await handler.handle(
+            request({ playerId }, { playerId, body: { inputText } }),
+            await fixture.createInvocationContext()
+        )
+        assert.strictEqual(response.status, 200, JSON.stringify(response.jsonBody))
+    }
+
+    async function look(locationId: string, playerId?: string): Promise<void> {
+        const handler = (await fixture.getContainer()).get(LocationLookHandler)
+        const response = await handler.handle(request({ locationId }, { playerId }), await fixture.createInvocationContext())
+        assert.strictEqual(response.status, 200, JSON.stringify(response.jsonBody))
+    }
+
+    test('moves and looks build up the ledger', async () => {
+        await seedVillage()
+        const ada = await seedPlayer(SQUARE)
+        const worldClock = await fixture.getWorldClockService()
+        await worldClock.advanceTick(3_600_000, 'test')
+
+        await command(ada, 'go east')
+        const discoveryRepo = await fixture.getDiscoveryRepository()
+        const first = await discoveryRepo.getDiscovery(ada, LANE)
+        assert.ok(first)
+        assert.strictEqual(first.firstSeenTick, 3_600_000)
+        assert.strictEqual(first.visitCount, 1)
+        assert.strictEqual(first.lastSource, 'move')
+        assert.strictEqual(first.lastDescriptionHash, hashLocationDescription('Lamps on hooks.'))
+
+        const locationRepo = await fixture.getLocationRepository()
+        await locationRepo.upsert({ id: LANE, name: 'Lantern Lane', description: 'Lamps on hooks, most of them lit.' })
+        await look(LANE, ada)
+        await command(ada, 'go west')
+        await command(ada, 'go east')
+
+        const lane = await discoveryRepo.getDiscovery(ada, LANE)
+        assert.strictEqual(lane?.visitCount, 3)
+        assert.strictEqual(lane?.firstSeenTick, 3_600_000, 'the first sighting is kept')
+        assert.strictEqual(lane?.firstSeenUtc, first.firstSeenUtc)
+        assert.strictEqual(lane?.lastDescriptionHash, hashLocationDescription('Lamps on hooks, most of them lit.'))
+        assert.strictEqual((await discoveryRepo.getDiscovery(ada, SQUARE))?.visitCount, 1)
+    })
+
+    test('a look without a player identity is not recorded', async () => {
+        await seedVillage()
+        const ada = await seedPlayer(SQUARE)
+
+        await look(SQUARE)
+
+        assert.strictEqual(await (await fixture.getDiscoveryRepository()).countForPlayer(ada), 0)
+    })
+
+    test('the journal lists discoveries newest first, by location only', async () => {
+        await seedVillage()
+        const ada = await seedPlayer(SQUARE)
+        await look(SQUARE, ada)
+        await command(ada, 'go east')
+
+        const handler = (await fixture.getContainer()).get(PlayerDiscoveriesHandler)
+        const response = await handler.handle(request({ playerId: ada }), await fixture.createInvocationContext())
+
+        assert.strictEqual(response.status, 200)
+        const journal = (response.jsonBody as { data: DiscoveryJournalResponse }).data
+        assert.strictEqual(journal.total, 2)
+        assert.deepStrictEqual(
+            journal.discoveries.map((d) => [d.locationName, d.visitCount]),
+            [
+                ['Lantern Lane', 1],
+                ['Village Square', 1]
+            ]
+        )
+        assert.ok(!JSON.stringify(journal).includes(ada), 'no player ids in the journal')
+
+        const unknown = await handler.handle(request({ playerId: crypto.randomUUID() }), await fixture.createInvocationContext())
+        assert.strictEqual(unknown.status, 404)
+    })
+
+    test('get-player-context includes the discoveries', async () => {
+        await seedVillage()
+        const ada = await seedPlayer(SQUARE)
+        await command(ada, 'go east')
+        const now = new Date().toISOString()
+        await (
+            await fixture.getPlayerDocRepository()
+        ).upsertPlayer({
+            id: ada,
+            createdUtc: now,
+            updatedUtc: now,
+            currentLocationId: LANE,
+            clockTick: 0
+        })
+
+        const result = JSON.parse(await getPlayerContext({ arguments: { playerId: ada } }, await fixture.createInvocationContext()))
+
+        assert.strictEqual(result.discoveries.total, 1)
+        assert.deepStrictEqual(
+            result.discoveries.recent.map((d: { locationName: string }) => d.locationName),
+            ['Lantern Lane']
+        )
+    })
+})
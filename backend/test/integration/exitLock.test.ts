@@ -0,0 +1,244 @@
+/**
+ * Integration tests for key-based exit locking (PlayerLock/UnlockHandler + ExitLockService + ExitLockChangedHandler).
+ *
+ * Tests cover:
+ * - Unlock with a matching key updates both sides of the door, emits World.Exit.LockChanged and lets the player move
+ * - Lock with a key names the door from the far side (reciprocal keyFor reference)
+ * - Missing key → 403 KeyRequired; already unlocked → 409 LockStateUnchanged; no exit → 400 NoExit
+ * - ExitLockChangedHandler applies the change and is a noop when the exit is already in that state
+ * - Delayed or out-of-order LockChanged events never revert a newer change
+ * - WorldGraph reflects the new locked flag
+ */
+import type { HttpRequest, InvocationContext } from '@azure/functions'
+import type { ExitLockResponse } from '@piquet-h/shared'
+import type { WorldEventEnvelope } from '@piquet-h/shared/events'
+import assert from 'node:assert'
+import { afterEach, beforeEach, describe, test } from 'node:test'
+import { TOKENS } from '../../src/di/tokens.js'
+import { MoveHandler } from '../../src/handlers/moveCore.js'
+import { PlayerLockHandler, PlayerUnlockHandler } from '../../src/handlers/playerExitLock.js'
+import { WorldGraphHandler } from '../../src/handlers/worldGraph.js'
+import type { ILocationRepository } from '../../src/repos/locationRepository.js'
+import { ExitLockChangedHandler } from '../../src/worldEvents/handlers/ExitLockChangedHandler.js'
+import type { InMemoryWorldEventPublisher } from '../../src/worldEvents/worldEventPublisher.js'
+import { IntegrationTestFixture } from '../helpers/IntegrationTestFixture.js'
+import { makeMoveRequest } from '../helpers/testUtils.js'
+
+const COTTAGE_ID = 'cccc0001-key0-4444-8888-000000000001'
+const INTERIOR_ID = 'cccc0002-key0-4444-8888-000000000002'
+
+describe('Exit Lock/Unlock with keys', () => {
+    let fixture: IntegrationTestFixture
+    let locationRepo: ILocationRepository
+
+    beforeEach(async () => {
+        fixture = new IntegrationTestFixture('memory')
+        await fixture.setup()
+        locationRepo = await fixture.getLocationRepository()
+
+        await locationRepo.upsert({
+            id: INTERIOR_ID,
+            name: 'Cottage Interior',
+            description: 'Dim interior; dust motes drift in pale light.',
+            exits: [{ direction: 'out', to: COTTAGE_ID, lockState: 'locked' }],
+            version: 1
+        })
+        await locationRepo.upsert({
+            id: COTTAGE_ID,
+            name: 'Locked Cottage',
+            description: 'A small stone cottage with an iron-banded door.',
+            exits: [{ direction: 'in', to: INTERIOR_ID, lockState: 'locked' }],
+            version: 1
+        })
+    })
+
+    afterEach(async () => {
+        await fixture.teardown()
+    })
+
+    function makeLockRequest(playerId: string, verb: 'lock' | 'unlock', body: Record<string, unknown>): HttpRequest {
+        return {
+            method: 'POST',
+            url: `http://localhost/api/player/${playerId}/${verb}`,
+            headers: new Headers(),
+            query: new URLSearchParams(),
+            params: { playerId },
+            text: async () => JSON.stringify(body)
+        } as unknown as HttpRequest
+    }
+
+    async function send(playerId: string, verb: 'lock' | 'unlock', body: Record<string, unknown>) {
+        const container = await fixture.getContainer()
+        const handler = verb === 'lock' ? container.get(PlayerLockHandler) : container.get(PlayerUnlockHandler)
+        const context: InvocationContext = await fixture.createInvocationContext()
+        return handler.handle(makeLockRequest(playerId, verb, body), context)
+    }
+
+    async function seedPlayer(keyFor?: string): Promise<string> {
+        const playerRepo = await fixture.getPlayerRepository()
+        const { record } = await playerRepo.getOrCreate(crypto.randomUUID())
+        await playerRepo.update({ ...record, currentLocationId: COTTAGE_ID })
+        if (keyFor) {
+            await (
+                await fixture.getInventoryRepository()
+            ).addItem({
+                id: crypto.randomUUID(),
+                playerId: record.id,
+                itemType: 'Iron Key',
+                quantity: 1,
+                acquiredAt: new Date().toISOString(),
+                metadata: { name: 'Iron Key', attributes: { keyFor } }
+            })
+        }
+        return record.id
+    }
+
+    async function getPublishedEvents(): Promise<WorldEventEnvelope[]> {
+        const container = await fixture.getContainer()
+        return container.get<InMemoryWorldEventPublisher>(TOKENS.WorldEventPublisher).enqueuedEvents
+    }
+
+    test('unlock with a matching key updates both sides and lets the player move', async () => {
+        const playerId = await seedPlayer(`${COTTAGE_ID}:in`)
+
+        const response = await send(playerId, 'unlock', { direction: 'in' })
+
+        assert.strictEqual(response.status, 200)
+        const body = (response.jsonBody as { data: ExitLockResponse }).data
+        assert.strictEqual(body.lockState, 'unlocked')
+        assert.strictEqual(body.direction, 'in')
+        assert.strictEqual(body.key.name, 'Iron Key')
+
+        const cottage = await locationRepo.get(COTTAGE_ID)
+        const interior = await locationRepo.get(INTERIOR_ID)
+        assert.strictEqual(cottage?.exits?.find((e) => e.direction === 'in')?.lockState, 'unlocked')
+        assert.strictEqual(interior?.exits?.find((e) => e.direction === 'out')?.lockState, 'unlocked')
+
+        const event = (await getPublishedEvents()).find((e) => e.type === 'World.Exit.LockChanged')
+        assert.ok(event, 'World.Exit.LockChanged should be enqueued')
+        assert.strictEqual(event.payload.lockState, 'unlocked')
+        assert.strictEqual(event.payload.toLocationId, INTERIOR_ID)
+        assert.strictEqual(event.actor.kind, 'player')
+        assert.ok(event.payload.actionIntent, 'player-actor envelopes carry an actionIntent')
+
+        const container = await fixture.getContainer()
+        const moveHandler = container.get(MoveHandler)
+        const moveReq = makeMoveRequest({ dir: 'in', from: COTTAGE_ID }) as HttpRequest
+        await moveHandler.handle(moveReq, await fixture.createInvocationContext())
+        const move = await moveHandler.performMove(moveReq)
+        assert.strictEqual(move.success, true)
+    })
+
+    test('a key naming the far side of the door also fits', async () => {
+        const playerId = await seedPlayer(`somewhere-else:north, ${INTERIOR_ID}:out`)
+
+        const response = await send(playerId, 'unlock', { direction: 'in' })
+
+        assert.strictEqual(response.status, 200)
+    })
+
+    test('without a key returns 403 KeyRequired and leaves the exit locked', async () => {
+        const playerId = await seedPlayer()
+
+        const response = await send(playerId, 'unlock', { direction: 'in' })
+
+        assert.strictEqual(response.status, 403)
+        assert.strictEqual((response.jsonBody as { error: { code: string } }).error.code, 'KeyRequired')
+        const cottage = await locationRepo.get(COTTAGE_ID)
+        assert.strictEqual(cottage?.exits?.find((e) => e.direction === 'in')?.lockState, 'locked')
+    })
+
+    test('locking an unlocked exit and repeating the command', async () => {
+        const playerId = await seedPlayer(`${COTTAGE_ID}:in`)
+        await send(playerId, 'unlock', { direction: 'in' })
+
+        const locked = await send(playerId, 'lock', { direction: 'in' })
+        assert.strictEqual(locked.status, 200)
+        assert.strictEqual((locked.jsonBody as { data: ExitLockResponse }).data.lockState, 'locked')
+
+        const again = await send(playerId, 'lock', { direction: 'in' })
+        assert.strictEqual(again.status, 409)
+        assert.strictEqual((again.jsonBody as { error: { code: string } }).error.code, 'LockStateUnchanged')
+    })
+
+    test('no exit in that direction returns 400 NoExit', async () => {
+        const playerId = await seedPlayer(`${COTTAGE_ID}:in`)
+
+        const response = await send(playerId, 'unlock', { direction: 'west' })
+
+        assert.strictEqual(response.status, 400)
+        assert.strictEqual((response.jsonBody as { error: { code: string } }).error.code, 'NoExit')
+    })
+
+    test('ExitLockChangedHandler applies the change and is idempotent', async () => {
+        const container = await fixture.getContainer()
+        const handler = container.get(ExitLockChangedHandler)
+        const event: WorldEventEnvelope = {
+            eventId: crypto.randomUUID(),
+            type: 'World.Exit.LockChanged',
+            occurredUtc: new Date().toISOString(),
+            actor: { kind: 'system' },
+            correlationId: crypto.randomUUID(),
+            idempotencyKey: `exit-lock:${COTTAGE_ID}:in:unlocked:test`,
+            version: 1,
+            payload: { locationId: COTTAGE_ID, direction: 'in', lockState: 'unlocked' }
+        }
+        const context = await fixture.createInvocationContext()
+
+        const first = await handler.handle(event, context)
+        assert.strictEqual(first.outcome, 'success')
+        const interior = await locationRepo.get(INTERIOR_ID)
+        assert.strictEqual(interior?.exits?.find((e) => e.direction === 'out')?.lockState, 'unlocked')
+
+        const second = await handler.handle(event, context)
+        assert.strictEqual(second.outcome, 'noop')
+    })
+
+    test('out-of-order LockChanged events do not revert a newer change', async () => {
+        const playerId = await seedPlayer(`${COTTAGE_ID}:in`)
+        await send(playerId, 'unlock', { direction: 'in' })
+        await send(playerId, 'lock', { direction: 'in' })
+        const [unlocked, locked] = (await getPublishedEvents()).filter((e) => e.type === 'World.Exit.LockChanged')
+        assert.strictEqual(unlocked.payload.lockState, 'unlocked')
+        assert.strictEqual(locked.payload.lockState, 'locked')
+
+        // Delivered in reverse order (or the unlock redriven later): the door stays locked.
+        const container = await fixture.getContainer()
+        const handler = container.get(ExitLockChangedHandler)
+        const context = await fixture.createInvocationContext()
+        assert.strictEqual((await handler.handle(locked, context)).outcome, 'noop')
+        assert.strictEqual((await handler.handle(unlocked, context)).outcome, 'noop')
+
+        const cottage = await locationRepo.get(COTTAGE_ID)
+        const interior = await locationRepo.get(INTERIOR_ID)
+        assert.strictEqual(cottage?.exits?.find((e) => e.direction === 'in')?.lockState, 'locked')
+        assert.strictEqual(interior?.exits?.find((e) => e.direction === 'out')?.lockState, 'locked')
+
+        // An event newer than the last change still applies.
+        const later = { ...unlocked, eventId: crypto.randomUUID(), occurredUtc: new Date(Date.now() + 60_000).toISOString() }
+        assert.strictEqual((await handler.handle(later, context)).outcome, 'success')
+        assert.strictEqual((await locationRepo.get(COTTAGE_ID))?.exits?.find((e) => e.direction === 'in')?.lockState, 'unlocked')
+    })
+
+    test('world graph reflects the new locked flag', async () => {
+        const playerId = await seedPlayer(`${COTTAGE_ID}:in`)
+        await send(playerId, 'unlock', { direction: 'in' })
+
+        const container = await fixture.getContainer()
+        const handler = container.get(WorldGraphHandler)
+        const req = {
+            method: 'GET',
+            url: 'http://localhost/api/world/graph',
+            headers: new Headers(),
+            query: new URLSearchParams(),
+            params: {},
+            text: async () => ''
+        } as unknown as HttpRequest
+        const response = await handler.handle(req, await fixture.createInvocationContext())
+
+        const body = response.jsonBody as { data: { edges: Array<{ fromId: string; direction: string; locked?: boolean }> } }
+        const edge = body.data.edges.find((e) => e.fromId === COTTAGE_ID && e.direction === 'in')
+        assert.ok(edge)
+        assert.strictEqual(edge.locked, undefined)
+    })
+})
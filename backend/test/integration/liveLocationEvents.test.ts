@@ -0,0 +1,214 @@
+/**
+ * Integration tests for the live location event stream (GET /api/player/{playerId}/events).
+ *
+ * Tests cover:
+ * - The stream opens with a retry hint and a `ready` frame for the player's location
+ * - Another player's arrival is delivered as a `location` frame carrying no player ids
+ * - The player's own departure ends the stream; cancelling it unsubscribes from the broker
+ * - Exits materialised by World.Exit.Create reach players standing at either end
+ * - Unknown players → 404, malformed ids → 400
+ */
+import type { HttpRequest, HttpResponseInit } from '@azure/functions'
+import type { LiveLocationEvent } from '@piquet-h/shared'
+import type { WorldEventEnvelope } from '@piquet-h/shared/events'
+import assert from 'node:assert'
+import { afterEach, beforeEach, describe, test } from 'node:test'
+import type { ReadableStream, ReadableStreamDefaultReader } from 'node:stream/web'
+import { TOKENS } from '../../src/di/tokens.js'
+import { ExecutePlayerCommandHandler } from '../../src/handlers/executePlayerCommand.js'
+import { PlayerEventsHandler } from '../../src/handlers/playerEvents.js'
+import type { InMemoryLocationEventBroker } from '../../src/services/locationEventBroker.js'
+import { ExitCreateHandler } from '../../src/worldEvents/handlers/ExitCreateHandler.js'
+import { IntegrationTestFixture } from '../helpers/IntegrationTestFixture.js'
+
+const SQUARE = 'e3c4d5e6-0000-4000-8000-00000000c001'
+const LANE = 'e3c4d5e6-0000-4000-8000-00000000c002'
+const WELL = 'e3c4d5e6-0000-4000-8000-00000000c003'
+
+interface Frame {
+    event?: string
+    id?: string
+    data?: unknown
+    raw: string
+}
+
+function parseFrame(raw: string): Frame {
+    const frame: Frame = { raw }
+    for (const line of raw.trimEnd().split('\n')) {
+        if (line.startsWith('event: ')) frame.event = line.slice('event: '.length)
+        else if (line.startsWith('id: ')) frame.id = line.slice('id: '.length)
+        else if (line.startsWith('data: ')) frame.data = JSON.parse(line.slice('data: '.length))
+    }
+    return frame
+}
+
+describe('Live Location Events', () => {
+    let fixture: IntegrationTestFixture
+    const decoder = new TextDecoder()
+
+    beforeEach(async () => {
+        fixture = new IntegrationTestFixture('memory')
+        await fixture.setup()
+    })
+
+    afterEach(async () => {
+        await fixture.teardown()
+    })
+
+    /** Village Square -east-> Lantern Lane, plus an unconnected Old Well */
+    async function seedVillage(): Promise<void> {
+        const locationRepo = await fixture.getLocationRepository()
+        await locationRepo.upsert({ id: SQUARE, name: 'Village Square', description: 'A well and a notice board.' })
+        await locationRepo.upsert({ id: LANE, name: 'Lantern Lane', description: 'Lamps on hooks.' })
+        await locationRepo.upsert({ id: WELL, name: 'Old Well', description: 'Moss on the stones.' })
+        await locationRepo.ensureExit(SQUARE, 'east', LANE)
+        await locationRepo.ensureExit(LANE, 'west', SQUARE)
+    }
+
+    async function seedPlayer(name: string, locationId: string): Promise<string> {
+        const playerRepo = await fixture.getPlayerRepository()
+        const { record } = await playerRepo.getOrCreate(crypto.randomUUID())
+        await playerRepo.update({ ...record, name, currentLocationId: locationId })
+        await (
+            await fixture.getPlayerPresenceRepository()
+        ).upsertPresence({
+            id: record.id,
+            name,
+            locationId,
+            lastSeenUtc: new Date().toISOString()
+        })
+        return record.id
+    }
+
+    function request(playerId: string, body: Record<string, unknown> = {}): HttpRequest {
+        return {
+            method: 'GET',
+            url: `http://localhost/api/player/${playerId}/events`,
+            headers: new Headers(),
+            query: new URLSearchParams(),
+            params: { playerId },
+            text: async () => JSON.stringify(body)
+        } as unknown as HttpRequest
+    }
+
+    async function openStream(playerId: string): Promise<{ response: HttpResponseInit; reader: ReadableStreamDefaultReader<Uint8Array> }> {
+        const handler = (await fixture.getContainer()).get(PlayerEventsHandler)
+        const response = await handler.handle(request(playerId), await fixture.createInvocationContext())
+        assert.strictEqual(response.status, 200, JSON.stringify(response.jsonBody))
+        return { response, reader: (response.body as ReadableStream<Uint8Array>).getReader() }
+    }
+
+    /** Next frame other than keep-alive comments; undefined once the stream has ended. */
+    async function nextFrame(reader: ReadableStreamDefaultReader<Uint8Array>): Promise<Frame | undefined> {
+        for (;;) {
+            const { value, done } = await reader.read()
+            if (done) return undefined
+            const raw = decoder.decode(value)
+            if (!raw.startsWith(':')) return parseFrame(raw)
+        }
+    }
+
+    async function command(playerId: string, inputText: string): Promise<void> {
+        const handler = (await fixture.getContainer()).get(ExecutePlayerCommandHandler)
+        const req = { ...request(playerId, { inputText }), method: 'POST' } as HttpRequest
+        const response = await handler.handle(req, await fixture.createInvocationContext())
+        assert.strictEqual(response.status, 200, JSON.stringify(response.jsonBody))
+    }
+
+    async function broker(): Promise<InMemoryLocationEventBroker> {
+        return (await fixture.getContainer()).get<InMemoryLocationEventBroker>(TOKENS.LocationEventBroker)
+    }
+
+    test('opens with ready and delivers another player arriving, without player ids', async () => {
+        await seedVillage()
+        const ada = await seedPlayer('Ada', SQUARE)
+        const bram = await seedPlayer('Bram', LANE)
+
+        const { response, reader } = await openStream(bram)
+        assert.strictEqual((response.headers as Record<string, string>)['Content-Type'], 'text/event-stream; charset=utf-8')
+        assert.match(decoder.decode((await reader.read()).value), /^retry: \d+\n\n$/)
+        assert.deepStrictEqual((await nextFrame(reader))?.data, { locationId: LANE })
+        assert.strictEqual((await broker()).subscriberCount(LANE), 1)
+
+        await command(ada, 'go east')
+
+        const frame = await nextFrame(reader)
+        assert.strictEqual(frame?.event, 'location')
+        const event = frame?.data as LiveLocationEvent
+        assert.strictEqual(frame?.id, event.id)
+        assert.strictEqual(event.kind, 'player.arrived')
+        assert.strictEqual(event.locationId, LANE)
+        assert.strictEqual(event.text, 'Ada arrives.')
+        assert.strictEqual(event.actorName, 'Ada')
+        assert.ok(!frame?.raw.includes(ada) && !frame?.raw.includes(bram), 'player ids are never sent')
+
+        await reader.cancel()
+        assert.strictEqual((await broker()).subscriberCount(LANE), 0, 'cancelling unsubscribes')
+    })
+
+    test("the player's own departure ends the stream; the stay-behinds see them leave", async () => {
+        await seedVillage()
+        const ada = await seedPlayer('Ada', SQUARE)
+        const bram = await seedPlayer('Bram', SQUARE)
+
+        const adaStream = await openStream(ada)
+        const bramStream = await openStream(bram)
+        await bramStream.reader.read() // retry
+        await nextFrame(bramStream.reader) // ready
+        await adaStream.reader.read()
+        await nextFrame(adaStream.reader)
+
+        await command(ada, 'go east')
+
+        assert.strictEqual(await nextFrame(adaStream.reader), undefined, 'the stream closes so the client reconnects at the new location')
+        const seenByBram = (await nextFrame(bramStream.reader))?.data as LiveLocationEvent
+        assert.strictEqual(seenByBram.kind, 'player.departed')
+        assert.strictEqual(seenByBram.text, 'Ada leaves.')
+        assert.strictEqual((await broker()).subscriberCount(SQUARE), 1)
+
+        await bramStream.reader.cancel()
+    })
+
+    test('a materialised exit reaches players at both ends', async () => {
+        await seedVillage()
+        const ada = await seedPlayer('Ada', SQUARE)
+        const bram = await seedPlayer('Bram', WELL)
+        const adaStream = await openStream(ada)
+        const bramStream = await openStream(bram)
+        for (const { reader } of [adaStream, bramStream]) {
+            await reader.read()
+            await nextFrame(reader)
+        }
+
+        const envelope = {
+            eventId: crypto.randomUUID(),
+            type: 'World.Exit.Create',
+            occurredUtc: new Date().toISOString(),
+            actor: { kind: 'system' },
+            correlationId: crypto.randomUUID(),
+            idempotencyKey: `exit-create:${SQUARE}:north`,
+            version: 1,
+            payload: { fromLocationId: SQUARE, toLocationId: WELL, direction: 'north', reciprocal: true }
+        } as WorldEventEnvelope
+        const result = await (await fixture.getContainer()).get(ExitCreateHandler).handle(envelope, await fixture.createInvocationContext())
+        assert.strictEqual(result.outcome, 'success')
+
+        const atSquare = (await nextFrame(adaStream.reader))?.data as LiveLocationEvent
+        assert.deepStrictEqual([atSquare.kind, atSquare.direction, atSquare.text], ['exit.materialized', 'north', 'A way north opens up.'])
+        const atWell = (await nextFrame(bramStream.reader))?.data as LiveLocationEvent
+        assert.deepStrictEqual([atWell.kind, atWell.direction, atWell.text], ['exit.materialized', 'south', 'A way south opens up.'])
+
+        await adaStream.reader.cancel()
+        await bramStream.reader.cancel()
+    })
+
+    test('unknown players → 404, malformed ids → 400', async () => {
+        const handler = (await fixture.getContainer()).get(PlayerEventsHandler)
+
+        const unknown = await handler.handle(request(crypto.randomUUID()), await fixture.createInvocationContext())
+        assert.strictEqual(unknown.status, 404)
+
+        const malformed = await handler.handle(request('not-a-guid'), await fixture.createInvocationContext())
+        assert.strictEqual(malformed.status, 400)
+    })
+})
@@ -9,6 +9,7 @@ import { ExitEdgeResult, generateExitsSummaryCache } from '../../src/repos/exitR
 import type { ILayerRepository } from '../../src/repos/layerRepository.js'
 import type { AzureOpenAIClientConfig, IAzureOpenAIClient } from '../../src/services/azureOpenAIClient.js'
 import { IntegrationTestFixture } from '../helpers/IntegrationTestFixture.js'
+import type { MockTelemetryClient } from '../mocks/MockTelemetryClient.js'
 
 describe('LOOK Command Flow', () => {
     let fixture: IntegrationTestFixture
@@ -186,6 +187,38 @@ describe('LOOK Command Flow', () => {
         })
     })
 
+    describe('LocationLookHandler - unreadable lists', () => {
+        test('a failing NPC read lists no NPCs instead of failing the look', async () => {
+            const container = await fixture.getContainer()
+            const npcRepo = await fixture.getNpcRepository()
+            npcRepo.listNpcsAtLocation = async () => {
+                throw new Error('npcs unavailable')
+            }
+            const telemetry = (await fixture.getTelemetryClient()) as MockTelemetryClient
+            telemetry.clear()
+
+            const req = {
+                params: { locationId: STARTER_LOCATION_ID },
+                query: new Map(),
+                headers: new Map()
+            } as unknown as HttpRequest
+            const ctx = {
+                invocationId: 'test-invocation',
+                extraInputs: new Map([['container', container]])
+            } as unknown as InvocationContext
+            const res = await container.get(LocationLookHandler).handle(req, ctx)
+
+            assert.strictEqual(res.status, 200, JSON.stringify(res.jsonBody))
+            const body = res.jsonBody as { data: { description?: { text?: string }; npcs?: unknown[]; items?: unknown[] } }
+            assert.ok(body.data.description?.text, 'the description is still returned')
+            assert.deepStrictEqual(body.data.npcs, [])
+            assert.ok(Array.isArray(body.data.items))
+            const degraded = telemetry.events.find((e) => e.name === 'Navigation.Look.Degraded')
+            assert.strictEqual(degraded?.properties?.section, 'npcs')
+            assert.ok(!telemetry.events.some((e) => e.name === 'Description.Generate.Failure'))
+        })
+    })
+
     describe('LocationLookHandler - hero prose generation gating', () => {
         let container: Container
         let layerRepo: ILayerRepository
@@ -0,0 +1,174 @@
+/**
+ * Integration tests for NPC conversations (PlayerTalkHandler + NpcDialogueService + AgentProposalApplicator).
+ *
+ * Tests cover:
+ * - Talk without AI configured returns a deterministic fallback line and starts a session
+ * - Session persists across turns (player message + NPC line appended, turnCount grows)
+ * - AI line from the npc-dialogue-generator template is used when the client returns content
+ * - AI failure degrades to the fallback line
+ * - NPC elsewhere → 404 NpcNotFound; missing reference → 400 MissingField
+ */
+import type { HttpRequest, InvocationContext } from '@azure/functions'
+import { STARTER_LOCATION_ID, type NpcEntity, type TalkResponse } from '@piquet-h/shared'
+import assert from 'node:assert'
+import { afterEach, beforeEach, describe, test } from 'node:test'
+import { TOKENS } from '../../src/di/tokens.js'
+import { PlayerTalkHandler } from '../../src/handlers/playerTalk.js'
+import type { AzureOpenAIClientConfig, IAzureOpenAIClient, OpenAIGenerateOptions } from '../../src/services/azureOpenAIClient.js'
+import { pickFallbackDialogueLine } from '../../src/services/NpcDialogueService.js'
+import { IntegrationTestFixture } from '../helpers/IntegrationTestFixture.js'
+import type { MockTelemetryClient } from '../mocks/MockTelemetryClient.js'
+
+function makeNpc(overrides: Partial<NpcEntity> = {}): NpcEntity {
+    return {
+        id: crypto.randomUUID(),
+        name: 'Old Tomas',
+        locationId: STARTER_LOCATION_ID,
+        disposition: 'friendly',
+        tags: ['faction:ferrymen'],
+        ...overrides
+    }
+}
+
+describe('NPC dialogue: talk handler', () => {
+    let fixture: IntegrationTestFixture
+
+    beforeEach(async () => {
+        fixture = new IntegrationTestFixture('memory')
+        await fixture.setup()
+    })
+
+    afterEach(async () => {
+        await fixture.teardown()
+    })
+
+    function makeTalkRequest(playerId: string, body: Record<string, unknown>): HttpRequest {
+        return {
+            method: 'POST',
+            url: `http://localhost/api/player/${playerId}/talk`,
+            headers: new Headers(),
+            query: new URLSearchParams(),
+            params: { playerId },
+            text: async () => JSON.stringify(body)
+        } as unknown as HttpRequest
+    }
+
+    async function talk(playerId: string, body: Record<string, unknown>) {
+        const container = await fixture.getContainer()
+        const handler = container.get(PlayerTalkHandler)
+        const context: InvocationContext = await fixture.createInvocationContext()
+        return handler.handle(makeTalkRequest(playerId, body), context)
+    }
+
+    async function seedPlayerAndNpc(overrides: Partial<NpcEntity> = {}): Promise<{ playerId: string; npc: NpcEntity }> {
+        const playerRepo = await fixture.getPlayerRepository()
+        const { record } = await playerRepo.getOrCreate(crypto.randomUUID())
+        const npc = makeNpc(overrides)
+        await (await fixture.getNpcRepository()).upsertNpc(npc)
+        return { playerId: record.id, npc }
+    }
+
+    /** Route generation through a stub client with a configured endpoint. */
+    async function stubOpenAI(generate: (options: OpenAIGenerateOptions) => Promise<{ content: string } | null>): Promise<string[]> {
+        const prompts: string[] = []
+        const client: IAzureOpenAIClient = {
+            generate: async (options) => {
+                prompts.push(options.prompt)
+                const result = await generate(options)
+                return result ? { ...result, tokenUsage: { prompt: 10, completion: 10, total: 20 } } : null
+            },
+            healthCheck: async () => true
+        }
+        const container = await fixture.getContainer()
+        ;(await container.rebind<IAzureOpenAIClient>(TOKENS.AzureOpenAIClient)).toConstantValue(client)
+        ;(await container.rebind<AzureOpenAIClientConfig>(TOKENS.AzureOpenAIConfig)).toConstantValue({
+            endpoint: 'https://example.openai.azure.com',
+            model: 'test-model'
+        })
+        return prompts
+    }
+
+    test('without AI configured the NPC answers with a deterministic fallback line', async () => {
+        const { playerId, npc } = await seedPlayerAndNpc()
+
+        const response = await talk(playerId, { npcName: 'tomas' })
+
+        assert.strictEqual(response.status, 200)
+        const body = (response.jsonBody as { data: TalkResponse }).data
+        assert.strictEqual(body.npc.id, npc.id)
+        assert.strictEqual(body.source, 'fallback')
+        assert.strictEqual(body.line, pickFallbackDialogueLine(npc, playerId, 0))
+        assert.strictEqual(body.turnCount, 1)
+
+        const telemetry = (await fixture.getTelemetryClient()) as MockTelemetryClient
+        const generated = telemetry.events.find((e) => e.name === 'NPC.Dialogue.Generated')
+        assert.strictEqual(generated?.properties?.reason, 'config-missing')
+        assert.ok(telemetry.events.some((e) => e.name === 'NPC.Talk.Success'))
+    })
+
+    test('the conversation persists across turns', async () => {
+        const { playerId, npc } = await seedPlayerAndNpc()
+
+        await talk(playerId, { npcId: npc.id })
+        const second = await talk(playerId, { npcName: 'old tomas', message: 'Any news from the river?' })
+
+        const body = (second.jsonBody as { data: TalkResponse }).data
+        assert.strictEqual(body.turnCount, 3)
+        assert.strictEqual(body.line, pickFallbackDialogueLine(npc, playerId, 1))
+
+        const session = await (await fixture.getDialogueSessionRepository()).getSession(playerId, npc.id)
+        assert.ok(session)
+        assert.strictEqual(session.turnCount, 3)
+        assert.deepStrictEqual(
+            session.turns.map((t) => t.speaker),
+            ['npc', 'player', 'npc']
+        )
+        assert.strictEqual(session.turns[1].text, 'Any news from the river?')
+    })
+
+    test('AI line from the dialogue template is used and sees the conversation so far', async () => {
+        const { playerId } = await seedPlayerAndNpc()
+        const prompts = await stubOpenAI(async () => ({ content: '"The river runs high this season, friend."' }))
+
+        await talk(playerId, { npcName: 'tomas' })
+        const response = await talk(playerId, { npcName: 'tomas', message: 'Is it safe to cross?' })
+
+        const body = (response.jsonBody as { data: TalkResponse }).data
+        assert.strictEqual(body.source, 'ai')
+        assert.strictEqual(body.line, 'The river runs high this season, friend.')
+
+        assert.strictEqual(prompts.length, 2)
+        assert.ok(prompts[0].startsWith('Generate dialogue for Old Tomas (ferrymen, Neutral Good).'))
+        assert.match(prompts[1], /Old Tomas: The river runs high this season, friend\./)
+        assert.match(prompts[1], /The player says: "Is it safe to cross\?"/)
+    })
+
+    test('AI failure falls back to the deterministic line', async () => {
+        const { playerId, npc } = await seedPlayerAndNpc()
+        await stubOpenAI(async () => null)
+
+        const response = await talk(playerId, { npcName: 'tomas' })
+
+        const body = (response.jsonBody as { data: TalkResponse }).data
+        assert.strictEqual(body.source, 'fallback')
+        assert.strictEqual(body.line, pickFallbackDialogueLine(npc, playerId, 0))
+    })
+
+    test('NPC in another location returns 404 NpcNotFound', async () => {
+        const { playerId } = await seedPlayerAndNpc({ locationId: crypto.randomUUID() })
+
+        const response = await talk(playerId, { npcName: 'tomas' })
+
+        assert.strictEqual(response.status, 404)
+        assert.strictEqual((response.jsonBody as { error: { code: string } }).error.code, 'NpcNotFound')
+    })
+
+    test('missing NPC reference returns 400 MissingField', async () => {
+        const { playerId } = await seedPlayerAndNpc()
+
+        const response = await talk(playerId, { message: 'hello?' })
+
+        assert.strictEqual(response.status, 400)
+        assert.strictEqual((response.jsonBody as { error: { code: string } }).error.code, 'MissingField')
+    })
+})
@@ -0,0 +1,123 @@
+/**
+ * Integration tests for the NPC repository and NPC presence in look.
+ *
+ * Tests cover:
+ * - Upsert/get round trip sets timestamps
+ * - listNpcsAtLocation only returns NPCs at that location and honours maxResults
+ * - Moving an NPC (upsert with a new locationId) moves it between location listings
+ * - Delete removes the NPC
+ * - Look lists NPCs present at the location
+ */
+import type { HttpRequest, InvocationContext } from '@azure/functions'
+import { STARTER_LOCATION_ID, type NpcEntity, type NpcSummary } from '@piquet-h/shared'
+import assert from 'node:assert'
+import { afterEach, beforeEach, describe, test } from 'node:test'
+import { LocationLookHandler } from '../../src/handlers/locationLook.js'
+import { IntegrationTestFixture } from '../helpers/IntegrationTestFixture.js'
+
+const OTHER_LOCATION_ID = '22222222-2222-4222-8222-222222222222'
+
+function makeNpc(overrides: Partial<NpcEntity> = {}): NpcEntity {
+    return {
+        id: crypto.randomUUID(),
+        name: 'Old Tomas',
+        description: 'A weathered ferryman.',
+        locationId: STARTER_LOCATION_ID,
+        disposition: 'friendly',
+        schedule: [{ fromHour: 6, toHour: 18, locationId: STARTER_LOCATION_ID, activity: 'working the ferry' }],
+        tags: ['role:ferryman'],
+        ...overrides
+    }
+}
+
+describe('NPC Repository Integration', () => {
+    let fixture: IntegrationTestFixture
+
+    beforeEach(async () => {
+        fixture = new IntegrationTestFixture('memory')
+        await fixture.setup()
+    })
+
+    afterEach(async () => {
+        await fixture.teardown()
+    })
+
+    test('upsert then get returns the stored NPC with timestamps', async () => {
+        const repo = await fixture.getNpcRepository()
+        const npc = makeNpc()
+
+        await repo.upsertNpc(npc)
+        const stored = await repo.getNpc(npc.id)
+
+        assert.ok(stored)
+        assert.strictEqual(stored.name, 'Old Tomas')
+        assert.strictEqual(stored.disposition, 'friendly')
+        assert.deepStrictEqual(stored.schedule, npc.schedule)
+        assert.ok(stored.createdAt)
+        assert.ok(stored.updatedAt)
+        assert.strictEqual(await repo.getNpc(crypto.randomUUID()), null)
+    })
+
+    test('listNpcsAtLocation filters by location and honours maxResults', async () => {
+        const repo = await fixture.getNpcRepository()
+        await repo.upsertNpc(makeNpc({ name: 'Tomas' }))
+        await repo.upsertNpc(makeNpc({ name: 'Brin' }))
+        await repo.upsertNpc(makeNpc({ name: 'Elsa', locationId: OTHER_LOCATION_ID }))
+
+        const here = await repo.listNpcsAtLocation(STARTER_LOCATION_ID)
+        assert.deepStrictEqual(here.map((n) => n.name).sort(), ['Brin', 'Tomas'])
+        assert.strictEqual((await repo.listNpcsAtLocation(STARTER_LOCATION_ID, 1)).length, 1)
+    })
+
+    test('upserting a new locationId moves the NPC and keeps createdAt', async () => {
+        const repo = await fixture.getNpcRepository()
+        const created = await repo.upsertNpc(makeNpc())
+
+        await repo.upsertNpc({ ...created, locationId: OTHER_LOCATION_ID })
+
+        assert.strictEqual((await repo.listNpcsAtLocation(STARTER_LOCATION_ID)).length, 0)
+        const moved = await repo.listNpcsAtLocation(OTHER_LOCATION_ID)
+        assert.strictEqual(moved.length, 1)
+        assert.strictEqual(moved[0].createdAt, created.createdAt)
+    })
+
+    test('delete removes the NPC', async () => {
+        const repo = await fixture.getNpcRepository()
+        const npc = await repo.upsertNpc(makeNpc())
+
+        assert.strictEqual(await repo.deleteNpc(npc.id), true)
+        assert.strictEqual(await repo.getNpc(npc.id), null)
+        assert.strictEqual(await repo.deleteNpc(npc.id), false)
+    })
+
+    test('look lists NPCs present at the location', async () => {
+        const repo = await fixture.getNpcRepository()
+        const npc = await repo.upsertNpc(makeNpc())
+        await repo.upsertNpc(makeNpc({ name: 'Elsa', locationId: OTHER_LOCATION_ID }))
+        const container = await fixture.getContainer()
+
+        const response = await container.get(LocationLookHandler).handle(
+            {
+                method: 'GET',
+                url: `http://localhost/api/location/${STARTER_LOCATION_ID}`,
+                headers: new Headers(),
+                query: new URLSearchParams(),
+                params: { locationId: STARTER_LOCATION_ID },
+                text: async () => ''
+            } as unknown as HttpRequest,
+            {
+                invocationId: 'test-invocation',
+                extraInputs: new Map([['container', container]]),
+                log: () => {},
+                error: () => {},
+                warn: () => {}
+            } as unknown as InvocationContext
+        )
+
+        assert.strictEqual(response.status, 200)
+        const body = response.jsonBody as { data: { npcs?: NpcSummary[] } }
+        assert.deepStrictEqual(body.data.npcs, [
+            { id: npc.id, name: 'Old Tomas', disposition: 'friendly', description: 'A weathered ferryman.' }
+        ])
+    })
+})
@@ -0,0 +1,280 @@
+/**
+ * Integration tests for NPC.Tick behaviour (NPCTickHandler + NpcBehaviorService + AgentProposalApplicator).
+ *
+ * Tests cover:
+ * - Schedule: NPC moves one hop towards its scheduled location; NPC.Move replay event enqueued
+ * - Idempotency: the same (npcId, tick) applied twice is a noop
+ * - Idle: NPC already where its schedule wants it → no writes, no replay event
+ * - Wander: NPC tagged behavior:wander moves along an exit
+ * - React: friendly NPC speaks once per player event; wary NPC leaves
+ * - Reaction window: judged at the tick's envelope time, so a late tick still reacts and an early one ignores later events
+ * - Locked exits: NPCs never wander, flee or route through them, and NPC.Move through one is rejected
+ * - Missing NPC → noop with NPC.Tick.Skipped telemetry
+ */
+import type { NpcEntity } from '@piquet-h/shared'
+import type { WorldEventEnvelope } from '@piquet-h/shared/events'
+import assert from 'node:assert'
+import { afterEach, beforeEach, describe, test } from 'node:test'
+import { TOKENS } from '../../src/di/tokens.js'
+import { buildLocationScopeKey } from '../../src/repos/worldEventRepository.js'
+import { AgentProposalApplicator } from '../../src/services/AgentProposalApplicator.js'
+import { NPCTickHandler } from '../../src/worldEvents/handlers/NPCTickHandler.js'
+import { InMemoryWorldEventPublisher, type IWorldEventPublisher } from '../../src/worldEvents/worldEventPublisher.js'
+import { IntegrationTestFixture } from '../helpers/IntegrationTestFixture.js'
+import type { MockTelemetryClient } from '../mocks/MockTelemetryClient.js'
+
+const SQUARE_ID = 'a1111111-1111-4111-8111-111111111111'
+const DOCKS_ID = 'a2222222-2222-4222-8222-222222222222'
+
+/** World clock tick (ms) for 10:00 in-game. */
+const TICK_10AM = 10 * 3_600_000
+
+function makeNpc(overrides: Partial<NpcEntity> = {}): NpcEntity {
+    return {
+        id: crypto.randomUUID(),
+        name: 'Old Tomas',
+        locationId: SQUARE_ID,
+        disposition: 'friendly',
+        ...overrides
+    }
+}
+
+function makeTickEvent(npc: NpcEntity, tick: number, occurredUtc: string = new Date().toISOString()): WorldEventEnvelope {
+    return {
+        eventId: crypto.randomUUID(),
+        type: 'NPC.Tick',
+        occurredUtc,
+        actor: { kind: 'system' },
+        correlationId: crypto.randomUUID(),
+        idempotencyKey: `npc-tick:${npc.id}:${tick}`,
+        version: 1,
+        payload: { npcId: npc.id, locationId: npc.locationId, tick }
+    }
+}
+
+describe('NPC.Tick behaviour', () => {
+    let fixture: IntegrationTestFixture
+    let publisher: InMemoryWorldEventPublisher
+
+    beforeEach(async () => {
+        fixture = new IntegrationTestFixture('memory')
+        await fixture.setup()
+
+        const locationRepo = await fixture.getLocationRepository()
+        await locationRepo.upsert({ id: SQUARE_ID, name: 'Market Square', description: 'A busy square.', exits: [] })
+        await locationRepo.upsert({ id: DOCKS_ID, name: 'Docks', description: 'Creaking piers.', exits: [] })
+        await locationRepo.ensureExitBidirectional(SQUARE_ID, 'south', DOCKS_ID, { reciprocal: true })
+
+        publisher = new InMemoryWorldEventPublisher()
+        const container = await fixture.getContainer()
+        ;(await container.rebind<IWorldEventPublisher>(TOKENS.WorldEventPublisher)).toConstantValue(publisher)
+    })
+
+    afterEach(async () => {
+        await fixture.teardown()
+    })
+
+    async function runTick(npc: NpcEntity, tick: number, occurredUtc?: string) {
+        const container = await fixture.getContainer()
+        const handler = container.get(NPCTickHandler)
+        const context = await fixture.createInvocationContext()
+        return handler.handle(makeTickEvent(npc, tick, occurredUtc), context)
+    }
+
+    async function recordPlayerEvent(locationId: string, occurredUtc: string = new Date().toISOString()): Promise<string> {
+        const repo = await fixture.getWorldEventRepository()
+        const id = crypto.randomUUID()
+        await repo.create({
+            id,
+            scopeKey: buildLocationScopeKey(locationId),
+            eventType: 'Player.Move',
+            status: 'processed',
+            occurredUtc,
+            ingestedUtc: new Date().toISOString(),
+            actorKind: 'player',
+            actorId: crypto.randomUUID(),
+            correlationId: crypto.randomUUID(),
+            idempotencyKey: `player-move:${id}`,
+            payload: { toLocationId: locationId },
+            version: 1
+        })
+        return id
+    }
+
+    test('schedule window moves the NPC one hop and enqueues an NPC.Move replay event', async () => {
+        const npcRepo = await fixture.getNpcRepository()
+        const npc = makeNpc({ schedule: [{ fromHour: 6, toHour: 18, locationId: DOCKS_ID, activity: 'mending nets' }] })
+        await npcRepo.upsertNpc(npc)
+
+        const result = await runTick(npc, TICK_10AM)
+
+        assert.strictEqual(result.outcome, 'success')
+        const stored = await npcRepo.getNpc(npc.id)
+        assert.strictEqual(stored?.locationId, DOCKS_ID)
+        assert.strictEqual(stored?.lastTick, TICK_10AM)
+
+        assert.strictEqual(publisher.enqueuedEvents.length, 1)
+        const moveEvent = publisher.enqueuedEvents[0]
+        assert.strictEqual(moveEvent.type, 'NPC.Move')
+        assert.strictEqual(moveEvent.idempotencyKey, `npc-move:${npc.id}:${TICK_10AM}`)
+        assert.deepStrictEqual(moveEvent.actor, { kind: 'npc', id: npc.id })
+        assert.strictEqual(moveEvent.payload.direction, 'south')
+        assert.strictEqual(moveEvent.payload.behavior, 'schedule')
+
+        const telemetry = (await fixture.getTelemetryClient()) as MockTelemetryClient
+        const moved = telemetry.events.find((e) => e.name === 'NPC.Moved')
+        assert.ok(moved, 'NPC.Moved telemetry should be emitted')
+        assert.strictEqual(moved.properties?.toLocationId, DOCKS_ID)
+    })
+
+    test('replaying the same tick is a noop', async () => {
+        const npcRepo = await fixture.getNpcRepository()
+        const npc = makeNpc({ schedule: [{ fromHour: 6, toHour: 18, locationId: DOCKS_ID }] })
+        await npcRepo.upsertNpc(npc)
+
+        await runTick(npc, TICK_10AM)
+        const replay = await runTick(npc, TICK_10AM)
+
+        assert.strictEqual(replay.outcome, 'noop')
+        assert.strictEqual(replay.details, 'duplicate-tick')
+        assert.strictEqual(publisher.enqueuedEvents.length, 1, 'replay must not enqueue a second outcome event')
+
+        const telemetry = (await fixture.getTelemetryClient()) as MockTelemetryClient
+        const skipped = telemetry.events.find((e) => e.name === 'NPC.Tick.Skipped')
+        assert.strictEqual(skipped?.properties?.reason, 'duplicate-tick')
+    })
+
+    test('NPC already at its scheduled location idles without writes', async () => {
+        const npcRepo = await fixture.getNpcRepository()
+        const npc = makeNpc({ locationId: DOCKS_ID, schedule: [{ fromHour: 6, toHour: 18, locationId: DOCKS_ID }] })
+        await npcRepo.upsertNpc(npc)
+
+        const result = await runTick(npc, TICK_10AM)
+
+        assert.strictEqual(result.outcome, 'success')
+        assert.strictEqual(result.details, 'tick-processed:idle')
+        assert.strictEqual((await npcRepo.getNpc(npc.id))?.lastTick, undefined)
+        assert.strictEqual(publisher.enqueuedEvents.length, 0)
+    })
+
+    test('outside the schedule window the NPC returns home', async () => {
+        const npcRepo = await fixture.getNpcRepository()
+        const npc = makeNpc({
+            locationId: DOCKS_ID,
+            homeLocationId: SQUARE_ID,
+            schedule: [{ fromHour: 6, toHour: 9, locationId: DOCKS_ID }]
+        })
+        await npcRepo.upsertNpc(npc)
+
+        await runTick(npc, TICK_10AM)
+
+        assert.strictEqual((await npcRepo.getNpc(npc.id))?.locationId, SQUARE_ID)
+    })
+
+    test('wandering NPC moves along an exit within a few ticks', async () => {
+        const npcRepo = await fixture.getNpcRepository()
+        const npc = makeNpc({ tags: ['behavior:wander'] })
+        await npcRepo.upsertNpc(npc)
+
+        // Each tick either lingers or takes the only exit; a handful of ticks is enough to see a move.
+        for (let tick = 1; tick <= 10 && publisher.enqueuedEvents.length === 0; tick++) {
+            await runTick(npc, tick)
+        }
+
+        assert.strictEqual((await npcRepo.getNpc(npc.id))?.locationId, DOCKS_ID)
+        assert.strictEqual(publisher.enqueuedEvents[0]?.payload.behavior, 'wander')
+    })
+
+    test('friendly NPC reacts to a player event once', async () => {
+        const npcRepo = await fixture.getNpcRepository()
+        const npc = makeNpc()
+        await npcRepo.upsertNpc(npc)
+        const triggerEventId = await recordPlayerEvent(SQUARE_ID)
+
+        const first = await runTick(npc, 1)
+        const second = await runTick(npc, 2)
+
+        assert.strictEqual(first.details, 'tick-processed:speak')
+        assert.strictEqual(second.details, 'tick-processed:idle')
+        assert.strictEqual((await npcRepo.getNpc(npc.id))?.lastReactedEventId, triggerEventId)
+
+        assert.strictEqual(publisher.enqueuedEvents.length, 1)
+        const dialogue = publisher.enqueuedEvents[0]
+        assert.strictEqual(dialogue.type, 'NPC.Dialogue')
+        assert.strictEqual(dialogue.payload.triggerEventId, triggerEventId)
+        assert.match(String(dialogue.payload.line), /Old Tomas/)
+    })
+
+    test('the reaction window is measured from the tick, not from when it is processed', async () => {
+        const npcRepo = await fixture.getNpcRepository()
+        const late = makeNpc()
+        const early = makeNpc()
+        await npcRepo.upsertNpc(late)
+        await npcRepo.upsertNpc(early)
+        const eventUtc = Date.now() - 60 * 60_000
+        await recordPlayerEvent(SQUARE_ID, new Date(eventUtc).toISOString())
+
+        // Issued a minute after the event but processed an hour later: still a reaction.
+        const delivered = await runTick(late, 1, new Date(eventUtc + 60_000).toISOString())
+        // Issued before the event happened: nothing to react to yet.
+        const beforeEvent = await runTick(early, 1, new Date(eventUtc - 60_000).toISOString())
+
+        assert.strictEqual(delivered.details, 'tick-processed:speak')
+        assert.strictEqual(beforeEvent.details, 'tick-processed:idle')
+    })
+
+    test('wary NPC leaves when a player arrives', async () => {
+        const npcRepo = await fixture.getNpcRepository()
+        const npc = makeNpc({ disposition: 'wary' })
+        await npcRepo.upsertNpc(npc)
+        await recordPlayerEvent(SQUARE_ID)
+
+        await runTick(npc, 1)
+
+        assert.strictEqual((await npcRepo.getNpc(npc.id))?.locationId, DOCKS_ID)
+        assert.strictEqual(publisher.enqueuedEvents[0]?.payload.behavior, 'react')
+    })
+
+    test('NPCs do not walk through locked exits', async () => {
+        const locationRepo = await fixture.getLocationRepository()
+        await locationRepo.setExitLockState(SQUARE_ID, 'south', 'locked')
+        const npcRepo = await fixture.getNpcRepository()
+        const wanderer = makeNpc({ tags: ['behavior:wander'] })
+        const commuter = makeNpc({ schedule: [{ fromHour: 6, toHour: 18, locationId: DOCKS_ID }] })
+        const wary = makeNpc({ disposition: 'wary' })
+        for (const npc of [wanderer, commuter, wary]) await npcRepo.upsertNpc(npc)
+
+        for (let tick = 1; tick <= 10; tick++) {
+            assert.strictEqual((await runTick(wanderer, tick)).details, 'tick-processed:idle')
+        }
+        assert.strictEqual((await runTick(commuter, TICK_10AM)).details, 'tick-processed:idle')
+        await recordPlayerEvent(SQUARE_ID)
+        assert.strictEqual((await runTick(wary, 1)).details, 'tick-processed:speak', 'a wary NPC with no way out stays and speaks')
+
+        for (const npc of [wanderer, commuter, wary]) {
+            assert.strictEqual((await npcRepo.getNpc(npc.id))?.locationId, SQUARE_ID)
+        }
+
+        const container = await fixture.getContainer()
+        const result = await container.get(AgentProposalApplicator).apply(
+            {
+                actionType: 'NPC.Move',
+                scopeKey: `loc:${SQUARE_ID}`,
+                params: { npcId: commuter.id, fromLocationId: SQUARE_ID, toLocationId: DOCKS_ID, direction: 'south' }
+            },
+            crypto.randomUUID(),
+            TICK_10AM + 1
+        )
+        assert.strictEqual(result.applied, false)
+        assert.strictEqual(result.reason, 'exit-locked')
+        assert.strictEqual((await npcRepo.getNpc(commuter.id))?.locationId, SQUARE_ID)
+    })
+
+    test('missing NPC is a noop', async () => {
+        const result = await runTick(makeNpc(), TICK_10AM)
+
+        assert.strictEqual(result.outcome, 'noop')
+        assert.strictEqual(result.details, 'npc-not-found')
+        assert.strictEqual(publisher.enqueuedEvents.length, 0)
+    })
+})
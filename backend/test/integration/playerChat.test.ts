@@ -0,0 +1,264 @@
+/**
+ * Integration tests for player chat (PlayerSay/Shout/Whisper handlers + ChatService).
+ *
+ * Tests cover:
+ * - `say` reaches players at the location (not the speaker, not elsewhere) and is kept for late arrivals
+ * - `shout` carries CHAT_SHOUT_HOPS exits along the exit graph, with where it came from
+ * - `whisper` reaches only the named player's stream; unknown recipients → 404
+ * - The content filter masks blocked terms; empty messages → 400
+ * - The chat rate limiter refuses a burst with 429 and Retry-After
+ */
+import type { HttpRequest, HttpResponseInit } from '@azure/functions'
+import type { ChatHistoryResponse, ChatResponse, LiveLocationEvent } from '@piquet-h/shared'
+import assert from 'node:assert'
+import type { ReadableStream, ReadableStreamDefaultReader } from 'node:stream/web'
+import { afterEach, beforeEach, describe, test } from 'node:test'
+import { TOKENS } from '../../src/di/tokens.js'
+import { PlayerChatHistoryHandler, PlayerSayHandler, PlayerShoutHandler, PlayerWhisperHandler } from '../../src/handlers/playerChat.js'
+import { PlayerEventsHandler } from '../../src/handlers/playerEvents.js'
+import { rateLimiters } from '../../src/middleware/rateLimiter.js'
+import type { ILocationEventBroker } from '../../src/services/locationEventBroker.js'
+import { IntegrationTestFixture } from '../helpers/IntegrationTestFixture.js'
+
+const SQUARE = 'f4d5e6f7-0000-4000-8000-00000000d001'
+const LANE = 'f4d5e6f7-0000-4000-8000-00000000d002'
+const HARBOUR = 'f4d5e6f7-0000-4000-8000-00000000d003'
+const LIGHTHOUSE = 'f4d5e6f7-0000-4000-8000-00000000d004'
+
+type ChatVerb = 'say' | 'shout' | 'whisper'
+
+describe('Player Chat', () => {
+    let fixture: IntegrationTestFixture
+    const decoder = new TextDecoder()
+
+    beforeEach(async () => {
+        rateLimiters.chat.clear()
+        fixture = new IntegrationTestFixture('memory')
+        await fixture.setup()
+    })
+
+    afterEach(async () => {
+        delete process.env.CHAT_SHOUT_HOPS
+        await fixture.teardown()
+    })
+
+    /** Village Square -east-> Lantern Lane -east-> Harbour Steps -east-> Lighthouse (and back west) */
+    async function seedCoast(): Promise<void> {
+        const locationRepo = await fixture.getLocationRepository()
+        const chain = [
+            [SQUARE, 'Village Square'],
+            [LANE, 'Lantern Lane'],
+            [HARBOUR, 'Harbour Steps'],
+            [LIGHTHOUSE, 'Lighthouse']
+        ] as const
+        for (const [id, name] of chain) {
+            await locationRepo.upsert({ id, name, description: `${name}.` })
+        }
+        for (let i = 0; i < chain.length - 1; i++) {
+            await locationRepo.ensureExit(chain[i][0], 'east', chain[i + 1][0])
+            await locationRepo.ensureExit(chain[i + 1][0], 'west', chain[i][0])
+        }
+    }
+
+    async function seedPlayer(name: string, locationId: string): Promise<string> {
+        const playerRepo = await fixture.getPlayerRepository()
+        const { record } = await playerRepo.getOrCreate(crypto.randomUUID())
+        await playerRepo.update({ ...record, name, currentLocationId: locationId })
+        await (
+            await fixture.getPlayerPresenceRepository()
+        ).upsertPresence({
+            id: record.id,
+            name,
+            locationId,
+            lastSeenUtc: new Date().toISOString()
+        })
+        return record.id
+    }
+
+    function request(playerId: string, body?: Record<string, unknown>): HttpRequest {
+        return {
+            method: body ? 'POST' : 'GET',
+            url: 'http://localhost/api/test',
+            headers: new Headers(),
+            query: new URLSearchParams(),
+            params: { playerId },
+            text: async () => (body ? JSON.stringify(body) : '')
+        } as unknown as HttpRequest
+    }
+
+    async function send(playerId: string, verb: ChatVerb, body: Record<string, unknown>): Promise<HttpResponseInit> {
+        const container = await fixture.getContainer()
+        const handler =
+            verb === 'say'
+                ? container.get(PlayerSayHandler)
+                : verb === 'shout'
+                  ? container.get(PlayerShoutHandler)
+                  : container.get(PlayerWhisperHandler)
+        return handler.handle(request(playerId, body), await fixture.createInvocationContext())
+    }
+
+    async function chat(playerId: string, verb: ChatVerb, body: Record<string, unknown>): Promise<ChatResponse> {
+        const response = await send(playerId, verb, body)
+        assert.strictEqual(response.status, 200, JSON.stringify(response.jsonBody))
+        return (response.jsonBody as { data: ChatResponse }).data
+    }
+
+    function errorCode(response: HttpResponseInit): string {
+        return (response.jsonBody as { error: { code: string } }).error.code
+    }
+
+    /** Events published at a location, collected straight from the broker. */
+    async function listen(locationId: string): Promise<LiveLocationEvent[]> {
+        const heard: LiveLocationEvent[] = []
+        ;(await fixture.getContainer()).get<ILocationEventBroker>(TOKENS.LocationEventBroker).subscribe(locationId, (e) => heard.push(e))
+        return heard
+    }
+
+    /** A player's event stream, past its retry and ready frames. */
+    async function openStream(playerId: string): Promise<ReadableStreamDefaultReader<Uint8Array>> {
+        const handler = (await fixture.getContainer()).get(PlayerEventsHandler)
+        const response = await handler.handle(request(playerId), await fixture.createInvocationContext())
+        const reader = (response.body as ReadableStream<Uint8Array>).getReader()
+        await reader.read()
+        await reader.read()
+        return reader
+    }
+
+    async function nextEvent(reader: ReadableStreamDefaultReader<Uint8Array>): Promise<LiveLocationEvent> {
+        const raw = decoder.decode((await reader.read()).value)
+        return JSON.parse(
+            raw
+                .split('\n')
+                .find((l) => l.startsWith('data: '))!
+                .slice('data: '.length)
+        ) as LiveLocationEvent
+    }
+
+    test('say reaches the location and stays in its recent history', async () => {
+        await seedCoast()
+        const ada = await seedPlayer('Ada', SQUARE)
+        await seedPlayer('Bram', SQUARE)
+        await seedPlayer('Cora', LANE)
+        const atSquare = await listen(SQUARE)
+        const atLane = await listen(LANE)
+
+        const data = await chat(ada, 'say', { message: '  Well met,   friends. ' })
+
+        assert.deepStrictEqual(
+            { ...data },
+            {
+                mode: 'say',
+                message: 'Well met, friends.',
+                filtered: false,
+                heardBy: 1,
+                summary: 'You say, "Well met, friends."',
+                locationId: SQUARE
+            }
+        )
+        assert.deepStrictEqual(
+            atSquare.map((e) => [e.kind, e.chatMode, e.text, e.actorName]),
+            [['chat.message', 'say', 'Ada says, "Well met, friends."', 'Ada']]
+        )
+        assert.deepStrictEqual(atLane, [], 'say does not carry')
+
+        // A player who arrives later sees the recent conversation, by name only
+        const late = await seedPlayer('Dara', SQUARE)
+        const history = await (await fixture.getContainer())
+            .get(PlayerChatHistoryHandler)
+            .handle(request(late), await fixture.createInvocationContext())
+        assert.strictEqual(history.status, 200)
+        const recent = (history.jsonBody as { data: ChatHistoryResponse }).data
+        assert.strictEqual(recent.locationId, SQUARE)
+        assert.deepStrictEqual(
+            recent.messages.map((m) => [m.mode, m.speakerName, m.text]),
+            [['say', 'Ada', 'Well met, friends.']]
+        )
+        assert.ok(!JSON.stringify(recent).includes(ada), 'player ids are never exposed')
+    })
+
+    test('shout carries the configured number of exits, saying where it came from', async () => {
+        await seedCoast()
+        process.env.CHAT_SHOUT_HOPS = '2'
+        const ada = await seedPlayer('Ada', SQUARE)
+        await seedPlayer('Cora', LANE)
+        await seedPlayer('Eli', HARBOUR)
+        const [atSquare, atLane, atHarbour, atLighthouse] = await Promise.all([SQUARE, LANE, HARBOUR, LIGHTHOUSE].map(listen))
+
+        const data = await chat(ada, 'shout', { message: 'Fire at the docks!' })
+
+        assert.strictEqual(data.summary, 'You shout, "Fire at the docks!"')
+        assert.strictEqual(data.heardBy, 2)
+        assert.deepStrictEqual(
+            atSquare.map((e) => e.text),
+            ['Ada shouts, "Fire at the docks!"']
+        )
+        assert.deepStrictEqual(
+            atLane.map((e) => e.text),
+            ['Ada shouts from the west, "Fire at the docks!"']
+        )
+        assert.deepStrictEqual(
+            atHarbour.map((e) => [e.text, e.actorName]),
+            [['A distant voice shouts from the west, "Fire at the docks!"', undefined]]
+        )
+        assert.deepStrictEqual(atLighthouse, [], 'three exits away is out of earshot')
+    })
+
+    test('whisper reaches only the named player', async () => {
+        await seedCoast()
+        const ada = await seedPlayer('Ada', SQUARE)
+        const bram = await seedPlayer('Bram', SQUARE)
+        const cora = await seedPlayer('Cora', SQUARE)
+        const bramStream = await openStream(bram)
+        const coraStream = await openStream(cora)
+
+        const data = await chat(ada, 'whisper', { to: 'bra', message: 'Meet me at the well.' })
+        assert.strictEqual(data.summary, 'You whisper to Bram, "Meet me at the well."')
+        await chat(ada, 'say', { message: 'Lovely weather.' })
+
+        assert.strictEqual((await nextEvent(bramStream)).text, 'Ada whispers to you, "Meet me at the well."')
+        assert.strictEqual((await nextEvent(coraStream)).text, 'Ada says, "Lovely weather."', 'Cora never got the whisper')
+
+        const history = await (await fixture.getChatMessageRepository()).listRecent(SQUARE, new Date(0).toISOString())
+        assert.deepStrictEqual(
+            history.map((m) => m.text),
+            ['Lovely weather.'],
+            'whispers are not kept'
+        )
+
+        const nobody = await send(ada, 'whisper', { to: 'Zed', message: 'Hello?' })
+        assert.strictEqual(nobody.status, 404)
+        assert.strictEqual(errorCode(nobody), 'RecipientNotFound')
+
+        await bramStream.cancel()
+        await coraStream.cancel()
+    })
+
+    test('filters blocked terms and refuses empty messages', async () => {
+        await seedCoast()
+        const ada = await seedPlayer('Ada', SQUARE)
+
+        const data = await chat(ada, 'say', { message: 'Oh shit, the bridge is out.' })
+        assert.strictEqual(data.message, 'Oh ****, the bridge is out.')
+        assert.strictEqual(data.filtered, true)
+
+        const empty = await send(ada, 'say', { message: '   ' })
+        assert.strictEqual(empty.status, 400)
+        assert.strictEqual(errorCode(empty), 'MissingField')
+    })
+
+    test('a burst of messages is rate limited per player', async () => {
+        await seedCoast()
+        const ada = await seedPlayer('Ada', SQUARE)
+        const bram = await seedPlayer('Bram', SQUARE)
+
+        for (let i = 0; i < 10; i++) {
+            await chat(ada, 'say', { message: `Message ${i}` })
+        }
+        const limited = await send(ada, 'say', { message: 'One more' })
+
+        assert.strictEqual(limited.status, 429)
+        assert.strictEqual(errorCode(limited), 'RateLimitExceeded')
+        assert.ok(Number((limited.headers as Record<string, string>)['Retry-After']) > 0)
+        await chat(bram, 'say', { message: 'I can still talk.' })
+    })
+})
@@ -0,0 +1,248 @@
+/**
+ * Integration tests for the player inventory HTTP API.
+ *
+ * Tests cover:
+ * - GET lists carried items with inventoryVersion and capacity
+ * - GET for an unknown player returns 404 PlayerNotFound
+ * - POST adds an item lying at the player's location and advances inventoryVersion
+ * - POST of an item at another location returns 404 (co-location rule)
+ * - POST with a full inventory returns 409 InventoryFull
+ * - POST / DELETE with a stale expectedVersion return 409 InventoryVersionConflict
+ * - DELETE removes the item and places it at the player's location
+ * - Concurrent adds with the same expectedVersion: exactly one succeeds
+ */
+import type { HttpRequest, InvocationContext } from '@azure/functions'
+import { STARTER_LOCATION_ID, type InventoryResponse, type ItemActionResponse } from '@piquet-h/shared'
+import assert from 'node:assert'
+import { afterEach, beforeEach, describe, test } from 'node:test'
+import { TOKENS } from '../../src/di/tokens.js'
+import { PlayerInventoryAddHandler } from '../../src/handlers/playerInventoryAdd.js'
+import { PlayerInventoryGetHandler } from '../../src/handlers/playerInventoryGet.js'
+import { PlayerInventoryRemoveHandler } from '../../src/handlers/playerInventoryRemove.js'
+import type { IWorldItemRepository } from '../../src/repos/worldItemRepository.js'
+import { INVENTORY_CAPACITY } from '../../src/services/InventoryService.js'
+import { IntegrationTestFixture } from '../helpers/IntegrationTestFixture.js'
+
+const OTHER_LOCATION_ID = '22222222-2222-4222-8222-222222222222'
+
+describe('Player Inventory API', () => {
+    let fixture: IntegrationTestFixture
+
+    beforeEach(async () => {
+        fixture = new IntegrationTestFixture('memory')
+        await fixture.setup()
+    })
+
+    afterEach(async () => {
+        await fixture.teardown()
+    })
+
+    async function createMockContext(): Promise<InvocationContext> {
+        const container = await fixture.getContainer()
+        return {
+            invocationId: 'test-invocation',
+            functionName: 'test-function',
+            extraInputs: new Map([['container', container]]),
+            log: () => {},
+            error: () => {},
+            warn: () => {},
+            info: () => {},
+            debug: () => {},
+            trace: () => {}
+        } as unknown as InvocationContext
+    }
+
+    function makeRequest(
+        method: string,
+        params: Record<string, string>,
+        options: { body?: Record<string, unknown>; query?: Record<string, string> } = {}
+    ): HttpRequest {
+        return {
+            method,
+            url: `http://localhost/api/player/${params.playerId}/inventory`,
+            headers: new Headers(),
+            query: new URLSearchParams(options.query ?? {}),
+            params,
+            text: async () => (options.body ? JSON.stringify(options.body) : '')
+        } as unknown as HttpRequest
+    }
+
+    async function seedPlayer(): Promise<string> {
+        const { record } = await (await fixture.getPlayerRepository()).getOrCreate(crypto.randomUUID())
+        await (
+            await fixture.getPlayerDocRepository()
+        ).upsertPlayer({
+            id: record.id,
+            createdUtc: record.createdUtc,
+            updatedUtc: record.createdUtc,
+            currentLocationId: STARTER_LOCATION_ID,
+            inventoryVersion: 0
+        })
+        return record.id
+    }
+
+    async function placeItem(name: string, locationId = STARTER_LOCATION_ID): Promise<string> {
+        const container = await fixture.getContainer()
+        const id = crypto.randomUUID()
+        await container.get<IWorldItemRepository>(TOKENS.WorldItemRepository).placeItem({ id, name, locationId })
+        return id
+    }
+
+    async function add(playerId: string, body: Record<string, unknown>) {
+        const container = await fixture.getContainer()
+        return container.get(PlayerInventoryAddHandler).handle(makeRequest('POST', { playerId }, { body }), await createMockContext())
+    }
+
+    async function list(playerId: string): Promise<InventoryResponse> {
+        const container = await fixture.getContainer()
+        const response = await container.get(PlayerInventoryGetHandler).handle(makeRequest('GET', { playerId }), await createMockContext())
+        assert.strictEqual(response.status, 200)
+        return (response.jsonBody as { data: InventoryResponse }).data
+    }
+
+    function errorCode(response: { jsonBody?: unknown }): string {
+        return (response.jsonBody as { error: { code: string } }).error.code
+    }
+
+    test('GET lists carried items with inventoryVersion and capacity', async () => {
+        const playerId = await seedPlayer()
+        const itemId = await placeItem('Iron Key')
+        await add(playerId, { itemId })
+
+        const inventory = await list(playerId)
+
+        assert.strictEqual(inventory.playerId, playerId)
+        assert.strictEqual(inventory.inventoryVersion, 1)
+        assert.strictEqual(inventory.capacity, INVENTORY_CAPACITY)
+        assert.strictEqual(inventory.items.length, 1)
+        assert.strictEqual(inventory.items[0].id, itemId)
+        assert.strictEqual(inventory.items[0].name, 'Iron Key')
+        assert.strictEqual(inventory.items[0].quantity, 1)
+    })
+
+    test('GET for an unknown player returns 404 PlayerNotFound', async () => {
+        const container = await fixture.getContainer()
+        const response = await container
+            .get(PlayerInventoryGetHandler)
+            .handle(makeRequest('GET', { playerId: crypto.randomUUID() }), await createMockContext())
+
+        assert.strictEqual(response.status, 404)
+        assert.strictEqual(errorCode(response), 'PlayerNotFound')
+    })
+
+    test('POST adds an item at the player location and advances inventoryVersion', async () => {
+        const playerId = await seedPlayer()
+        const itemId = await placeItem('Iron Key')
+
+        const response = await add(playerId, { itemId, expectedVersion: 0 })
+
+        assert.strictEqual(response.status, 200)
+        const data = (response.jsonBody as { data: ItemActionResponse }).data
+        assert.strictEqual(data.item.id, itemId)
+        assert.strictEqual(data.inventoryVersion, 1)
+        const doc = await (await fixture.getPlayerDocRepository()).getPlayer(playerId)
+        assert.strictEqual(doc?.inventoryVersion, 1)
+
+        const telemetry = await fixture.getTelemetryClient()
+        assert.ok('events' in telemetry && telemetry.events.some((e) => e.name === 'Inventory.Add.Success'))
+    })
+
+    test('POST of an item at another location returns 404 ItemNotFound', async () => {
+        const playerId = await seedPlayer()
+        const itemId = await placeItem('Iron Key', OTHER_LOCATION_ID)
+
+        const response = await add(playerId, { itemId })
+
+        assert.strictEqual(response.status, 404)
+        assert.strictEqual(errorCode(response), 'ItemNotFound')
+    })
+
+    test('POST with a full inventory returns 409 InventoryFull', async () => {
+        const playerId = await seedPlayer()
+        const inventoryRepo = await fixture.getInventoryRepository()
+        for (let i = 0; i < INVENTORY_CAPACITY; i++) {
+            await inventoryRepo.addItem({
+                id: crypto.randomUUID(),
+                playerId,
+                itemType: `pebble-${i}`,
+                quantity: 1,
+                acquiredAt: new Date().toISOString()
+            })
+        }
+        const itemId = await placeItem('Iron Key')
+
+        const response = await add(playerId, { itemId })
+
+        assert.strictEqual(response.status, 409)
+        assert.strictEqual(errorCode(response), 'InventoryFull')
+    })
+
+    test('POST with a stale expectedVersion returns 409 InventoryVersionConflict', async () => {
+        const playerId = await seedPlayer()
+        await add(playerId, { itemId: await placeItem('Iron Key'), expectedVersion: 0 })
+
+        const response = await add(playerId, { itemId: await placeItem('Brass Key'), expectedVersion: 0 })
+
+        assert.strictEqual(response.status, 409)
+        assert.strictEqual(errorCode(response), 'InventoryVersionConflict')
+        assert.strictEqual((await list(playerId)).items.length, 1)
+    })
+
+    test('POST with a malformed expectedVersion returns 400 InvalidFormat', async () => {
+        const playerId = await seedPlayer()
+
+        const response = await add(playerId, { itemId: await placeItem('Iron Key'), expectedVersion: 'latest' })
+
+        assert.strictEqual(response.status, 400)
+        assert.strictEqual(errorCode(response), 'InvalidFormat')
+    })
+
+    test('DELETE removes the item and places it at the player location', async () => {
+        const playerId = await seedPlayer()
+        const itemId = await placeItem('Iron Key')
+        await add(playerId, { itemId })
+        const container = await fixture.getContainer()
+
+        const response = await container
+            .get(PlayerInventoryRemoveHandler)
+            .handle(makeRequest('DELETE', { playerId, itemId }, { query: { expectedVersion: '1' } }), await createMockContext())
+
+        assert.strictEqual(response.status, 200)
+        assert.strictEqual((response.jsonBody as { data: ItemActionResponse }).data.inventoryVersion, 2)
+        assert.strictEqual((await list(playerId)).items.length, 0)
+        const here = await container.get<IWorldItemRepository>(TOKENS.WorldItemRepository).listItemsAtLocation(STARTER_LOCATION_ID)
+        assert.deepStrictEqual(
+            here.map((i) => i.id),
+            [itemId]
+        )
+    })
+
+    test('DELETE with a stale expectedVersion returns 409 and keeps the item', async () => {
+        const playerId = await seedPlayer()
+        const itemId = await placeItem('Iron Key')
+        await add(playerId, { itemId })
+        const container = await fixture.getContainer()
+
+        const response = await container
+            .get(PlayerInventoryRemoveHandler)
+            .handle(makeRequest('DELETE', { playerId, itemId }, { query: { expectedVersion: '0' } }), await createMockContext())
+
+        assert.strictEqual(response.status, 409)
+        assert.strictEqual(errorCode(response), 'InventoryVersionConflict')
+        assert.strictEqual((await list(playerId)).items.length, 1)
+    })
+
+    test('concurrent adds with the same expectedVersion: exactly one succeeds', async () => {
+        const playerId = await seedPlayer()
+        const [first, second] = await Promise.all([
+            add(playerId, { itemId: await placeItem('Iron Key'), expectedVersion: 0 }),
+            add(playerId, { itemId: await placeItem('Brass Key'), expectedVersion: 0 })
+        ])
+
+        const statuses = [first.status, second.status].sort()
+        assert.deepStrictEqual(statuses, [200, 409])
+        const inventory = await list(playerId)
+        assert.strictEqual(inventory.items.length, 1)
+        assert.strictEqual(inventory.inventoryVersion, 1)
+    })
+})
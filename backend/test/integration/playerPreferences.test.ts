@@ -0,0 +1,153 @@
+/**
+ * Integration tests for player preferences (PlayerPreferencesService + GET/PATCH /api/player/{id}/preferences).
+ *
+ * Tests cover:
+ * - New players get the defaults; patches are merged (map fields individually) and persisted on the PlayerDoc
+ * - Verbosity is shared with the brief / verbose / superbrief commands
+ * - A verbosity stored on the PlayerDoc before preferences existed is still honoured, and migrated on the next change
+ * - A change writes only the preferences, so a concurrent inventory version bump is not rolled back
+ * - Unknown fields, invalid values, bad ids and missing players are rejected
+ */
+import type { HttpRequest } from '@azure/functions'
+import { DEFAULT_PLAYER_PREFERENCES, type PlayerPreferencesResponse, type VerbosityResponse } from '@piquet-h/shared'
+import assert from 'node:assert'
+import { afterEach, beforeEach, describe, test } from 'node:test'
+import { GetPlayerPreferencesHandler, UpdatePlayerPreferencesHandler } from '../../src/handlers/playerPreferences.js'
+import { GetPlayerVerbosityHandler } from '../../src/handlers/playerVerbosity.js'
+import { IntegrationTestFixture } from '../helpers/IntegrationTestFixture.js'
+
+describe('Player Preferences', () => {
+    let fixture: IntegrationTestFixture
+
+    beforeEach(async () => {
+        fixture = new IntegrationTestFixture('memory')
+        await fixture.setup()
+    })
+
+    afterEach(async () => {
+        await fixture.teardown()
+    })
+
+    async function seedPlayer(): Promise<string> {
+        const id = crypto.randomUUID()
+        const now = new Date().toISOString()
+        await (await fixture.getPlayerDocRepository()).upsertPlayer({ id, createdUtc: now, updatedUtc: now, currentLocationId: 'start' })
+        return id
+    }
+
+    function request(playerId: string, options: { method?: string; body?: string } = {}) {
+        return {
+            method: options.method ?? 'GET',
+            url: 'http://localhost/api/test',
+            headers: new Headers(),
+            query: new URLSearchParams(),
+            params: { playerId },
+            text: async () => options.body ?? ''
+        } as unknown as HttpRequest
+    }
+
+    async function getPreferences(playerId: string) {
+        const handler = (await fixture.getContainer()).get(GetPlayerPreferencesHandler)
+        return handler.handle(request(playerId), await fixture.createInvocationContext())
+    }
+
+    async function patchPreferences(playerId: string, body: unknown) {
+        const handler = (await fixture.getContainer()).get(UpdatePlayerPreferencesHandler)
+        const text = typeof body === 'string' ? body : JSON.stringify(body)
+        return handler.handle(request(playerId, { method: 'PATCH', body: text }), await fixture.createInvocationContext())
+    }
+
+    test('new players get the defaults; patches merge and persist', async () => {
+        const ada = await seedPlayer()
+
+        const initial = await getPreferences(ada)
+        assert.strictEqual(initial.status, 200)
+        assert.deepStrictEqual((initial.jsonBody as { data: PlayerPreferencesResponse }).data.preferences, DEFAULT_PLAYER_PREFERENCES)
+
+        await patchPreferences(ada, { theme: 'high-contrast', map: { focusDepth: 3 } })
+        const updated = await patchPreferences(ada, { textSize: 'large', map: { showInsideNodes: false } })
+        assert.strictEqual(updated.status, 200, JSON.stringify(updated.jsonBody))
+        const preferences = (updated.jsonBody as { data: PlayerPreferencesResponse }).data.preferences
+        assert.strictEqual(preferences.theme, 'high-contrast')
+        assert.strictEqual(preferences.textSize, 'large')
+        assert.deepStrictEqual(preferences.map, { showOutsideNodes: true, showInsideNodes: false, focusDepth: 3 })
+
+        // A second device reading the same player sees the same choices
+        const reread = await getPreferences(ada)
+        assert.deepStrictEqual((reread.jsonBody as { data: PlayerPreferencesResponse }).data.preferences, preferences)
+        const stored = await (await fixture.getPlayerDocRepository()).getPlayer(ada)
+        assert.deepStrictEqual(stored?.preferences, {
+            theme: 'high-contrast',
+            textSize: 'large',
+            map: { focusDepth: 3, showInsideNodes: false }
+        })
+    })
+
+    test('verbosity is the same preference the brief / verbose / superbrief commands change', async () => {
+        const ada = await seedPlayer()
+        await patchPreferences(ada, { verbosity: 'superbrief' })
+
+        const handler = (await fixture.getContainer()).get(GetPlayerVerbosityHandler)
+        const response = await handler.handle(request(ada), await fixture.createInvocationContext())
+        assert.strictEqual((response.jsonBody as { data: VerbosityResponse }).data.verbosity, 'superbrief')
+    })
+
+    test('a verbosity stored before preferences existed is honoured and migrated on the next change', async () => {
+        const ada = await seedPlayer()
+        const repo = await fixture.getPlayerDocRepository()
+        const doc = await repo.getPlayer(ada)
+        assert.ok(doc)
+        await repo.upsertPlayer({ ...doc, verbosity: 'brief' })
+
+        const legacy = await getPreferences(ada)
+        assert.strictEqual((legacy.jsonBody as { data: PlayerPreferencesResponse }).data.preferences.verbosity, 'brief')
+        const verbosityHandler = (await fixture.getContainer()).get(GetPlayerVerbosityHandler)
+        const verbosity = await verbosityHandler.handle(request(ada), await fixture.createInvocationContext())
+        assert.strictEqual((verbosity.jsonBody as { data: VerbosityResponse }).data.verbosity, 'brief')
+
+        const updated = await patchPreferences(ada, { theme: 'dark' })
+        const preferences = (updated.jsonBody as { data: PlayerPreferencesResponse }).data.preferences
+        assert.strictEqual(preferences.verbosity, 'brief', 'an unrelated change keeps the old verbosity')
+        const stored = await repo.getPlayer(ada)
+        assert.deepStrictEqual(stored?.preferences, { verbosity: 'brief', theme: 'dark' })
+        assert.strictEqual(stored?.verbosity, undefined)
+    })
+
+    test('a change does not roll back a concurrent inventory version bump', async () => {
+        const ada = await seedPlayer()
+        const repo = await fixture.getPlayerDocRepository()
+        // Another writer advances the inventory version right after any read of the doc.
+        let bumps = 0
+        const getPlayer = repo.getPlayer.bind(repo)
+        repo.getPlayer = async (playerId: string) => {
+            const doc = await getPlayer(playerId)
+            if (doc) {
+                await repo.incrementInventoryVersion(playerId, doc.inventoryVersion ?? 0)
+                bumps++
+            }
+            return doc
+        }
+
+        assert.strictEqual((await patchPreferences(ada, { theme: 'dark' })).status, 200)
+        repo.getPlayer = getPlayer
+        const stored = await repo.getPlayer(ada)
+        assert.strictEqual(stored?.preferences?.theme, 'dark')
+        assert.strictEqual(stored?.inventoryVersion ?? 0, bumps, 'every concurrent version bump survives the preference write')
+    })
+
+    test('rejects unknown fields, invalid values, bad ids and missing players', async () => {
+        const ada = await seedPlayer()
+
+        const unknownField = await patchPreferences(ada, { colour: 'red' })
+        assert.strictEqual(unknownField.status, 400)
+        assert.strictEqual((unknownField.jsonBody as { error: { code: string } }).error.code, 'InvalidPreference')
+        assert.strictEqual((await patchPreferences(ada, { map: { focusDepth: 9 } })).status, 400)
+        assert.strictEqual((await patchPreferences(ada, '{not json')).status, 400)
+        assert.strictEqual((await patchPreferences('not-a-guid', { theme: 'dark' })).status, 400)
+        assert.strictEqual((await patchPreferences(crypto.randomUUID(), { theme: 'dark' })).status, 404)
+        assert.strictEqual((await getPreferences(crypto.randomUUID())).status, 404)
+
+        const unchanged = await getPreferences(ada)
+        assert.deepStrictEqual((unchanged.jsonBody as { data: PlayerPreferencesResponse }).data.preferences, DEFAULT_PLAYER_PREFERENCES)
+    })
+})
@@ -0,0 +1,164 @@
+/**
+ * Integration tests for player presence (PresenceService + look `players` + GET /api/world/players).
+ *
+ * Tests cover:
+ * - Moving records presence; another player's look lists the mover, never the viewer themself
+ * - Bootstrap records presence at the player's current location
+ * - Entries not refreshed within the presence window are left out of look and `who`
+ * - `who` lists online players with location names and display names only (no player ids)
+ */
+import type { HttpRequest, InvocationContext } from '@azure/functions'
+import type { LocationResponse, OnlinePlayersResponse } from '@piquet-h/shared'
+import assert from 'node:assert'
+import { afterEach, beforeEach, describe, test } from 'node:test'
+import { bootstrapPlayerHandler } from '../../src/handlers/bootstrapPlayer.js'
+import { ExecutePlayerCommandHandler } from '../../src/handlers/executePlayerCommand.js'
+import { LocationLookHandler } from '../../src/handlers/locationLook.js'
+import { WorldPlayersHandler } from '../../src/handlers/worldPlayers.js'
+import { PRESENCE_STALE_AFTER_MS } from '../../src/services/PresenceService.js'
+import { IntegrationTestFixture } from '../helpers/IntegrationTestFixture.js'
+import { makeHttpRequest } from '../helpers/testUtils.js'
+
+const SQUARE = 'd2b3c4d5-0000-4000-8000-00000000b001'
+const LANE = 'd2b3c4d5-0000-4000-8000-00000000b002'
+
+describe('Player Presence', () => {
+    let fixture: IntegrationTestFixture
+
+    beforeEach(async () => {
+        fixture = new IntegrationTestFixture('memory')
+        await fixture.setup()
+    })
+
+    afterEach(async () => {
+        await fixture.teardown()
+    })
+
+    /** Village Square -east-> Lantern Lane */
+    async function seedVillage(): Promise<void> {
+        const locationRepo = await fixture.getLocationRepository()
+        await locationRepo.upsert({ id: SQUARE, name: 'Village Square', description: 'A well and a notice board.' })
+        await locationRepo.upsert({ id: LANE, name: 'Lantern Lane', description: 'Lamps on hooks.' })
+        await locationRepo.ensureExit(SQUARE, 'east', LANE)
+        await locationRepo.ensureExit(LANE, 'west', SQUARE)
+    }
+
+    async function seedPlayer(name: string, locationId: string): Promise<string> {
+        const playerRepo = await fixture.getPlayerRepository()
+        const { record } = await playerRepo.getOrCreate(crypto.randomUUID())
+        await playerRepo.update({ ...record, name, currentLocationId: locationId })
+        return record.id
+    }
+
+    function request(playerId: string, params: Record<string, string>, body: Record<string, unknown> = {}) {
+        return {
+            method: 'POST',
+            url: 'http://localhost/api/test',
+            headers: new Headers({ 'x-player-guid': playerId }),
+            query: new URLSearchParams(),
+            params,
+            text: async () => JSON.stringify(body)
+        } as unknown as HttpRequest
+    }
+
+    async function command(playerId: string, inputText: string): Promise<void> {
+        const handler = (await fixture.getContainer()).get(ExecutePlayerCommandHandler)
+        const response = await handler.handle(request(playerId, { playerId }, { inputText }), await fixture.createInvocationContext())
+        assert.strictEqual(response.status, 200, JSON.stringify(response.jsonBody))
+    }
+
+    async function look(playerId: string, locationId: string): Promise<LocationResponse> {
+        const handler = (await fixture.getContainer()).get(LocationLookHandler)
+        const response = await handler.handle(request(playerId, { locationId }), await fixture.createInvocationContext())
+        assert.strictEqual(response.status, 200, JSON.stringify(response.jsonBody))
+        return (response.jsonBody as { data: LocationResponse }).data
+    }
+
+    async function who(playerId: string): Promise<OnlinePlayersResponse> {
+        const handler = (await fixture.getContainer()).get(WorldPlayersHandler)
+        const response = await handler.handle(request(playerId, {}), await fixture.createInvocationContext())
+        assert.strictEqual(response.status, 200, JSON.stringify(response.jsonBody))
+        return (response.jsonBody as { data: OnlinePlayersResponse }).data
+    }
+
+    test('a move records presence; co-located players see the arrival but not themselves', async () => {
+        await seedVillage()
+        const ada = await seedPlayer('Ada', SQUARE)
+        const bram = await seedPlayer('Bram', LANE)
+
+        await command(ada, 'go east')
+
+        const seenByBram = await look(bram, LANE)
+        assert.deepStrictEqual(seenByBram.players, [{ name: 'Ada' }])
+
+        const seenByAda = await look(ada, LANE)
+        assert.deepStrictEqual(seenByAda.players, [], 'the viewer is not listed')
+
+        const square = await look(bram, SQUARE)
+        assert.deepStrictEqual(square.players, [], 'Ada left the square')
+    })
+
+    test('bootstrap records presence at the current location', async () => {
+        await seedVillage()
+        const ada = await seedPlayer('Ada', SQUARE)
+        const bram = await seedPlayer('Bram', SQUARE)
+
+        const context = await fixture.createInvocationContext()
+        const response = await bootstrapPlayerHandler(
+            makeHttpRequest({ playerGuidHeader: ada }) as HttpRequest,
+            context as InvocationContext
+        )
+        assert.strictEqual(response.status, 200)
+
+        const presence = await (await fixture.getPlayerPresenceRepository()).listOnline(new Date(0).toISOString())
+        assert.deepStrictEqual(
+            presence.map((p) => [p.id, p.name, p.locationId]),
+            [[ada, 'Ada', SQUARE]]
+        )
+        assert.deepStrictEqual((await look(bram, SQUARE)).players, [{ name: 'Ada' }])
+    })
+
+    test('stale sessions drop out of look and who', async () => {
+        await seedVillage()
+        const viewer = await seedPlayer('Viewer', LANE)
+        const presenceRepo = await fixture.getPlayerPresenceRepository()
+        await presenceRepo.upsertPresence({
+            id: crypto.randomUUID(),
+            name: 'Ghost',
+            locationId: SQUARE,
+            lastSeenUtc: new Date(Date.now() - PRESENCE_STALE_AFTER_MS - 60_000).toISOString()
+        })
+        await presenceRepo.upsertPresence({
+            id: crypto.randomUUID(),
+            name: 'Cora',
+            locationId: SQUARE,
+            lastSeenUtc: new Date().toISOString()
+        })
+
+        assert.deepStrictEqual((await look(viewer, SQUARE)).players, [{ name: 'Cora' }])
+        const online = await who(viewer)
+        assert.deepStrictEqual(
+            online.players.map((p) => p.name),
+            ['Cora']
+        )
+        assert.strictEqual(online.count, 1)
+    })
+
+    test('who lists online players with where they are, by display name only', async () => {
+        await seedVillage()
+        const ada = await seedPlayer('Ada', SQUARE)
+        const bram = await seedPlayer('', SQUARE)
+
+        await command(bram, 'go east')
+        await command(ada, 'look')
+
+        const online = await who(ada)
+
+        assert.strictEqual(online.count, 1, 'look does not refresh presence; only bootstrap and location changes do')
+        const [entry] = online.players
+        assert.match(entry.name, /^Traveller [0-9a-f]{1,4}$/, 'unnamed players get a pseudonym')
+        assert.strictEqual(entry.locationId, LANE)
+        assert.strictEqual(entry.locationName, 'Lantern Lane')
+        assert.ok(!JSON.stringify(online).includes(bram), 'player ids are never exposed')
+    })
+})
@@ -0,0 +1,237 @@
+/**
+ * Integration tests for world items: take/drop handlers and look item listing.
+ *
+ * Tests cover:
+ * - Look lists items lying at the location
+ * - Take moves an item from the location into the player's inventory and emits Player.Take
+ * - Take of an unknown or already-taken item returns 404 ItemNotFound
+ * - Drop moves an item from the inventory back into the current location and emits Player.Drop
+ * - Drop of an item the player is not carrying returns 404 ItemNotFound
+ * - Missing item reference returns 400 MissingField
+ * - Stale expectedVersion returns 409 InventoryVersionConflict without moving the item
+ * - A take that loses the race for the item leaves the inventory version unchanged
+ */
+import type { HttpRequest, InvocationContext } from '@azure/functions'
+import { STARTER_LOCATION_ID, type ItemSummary } from '@piquet-h/shared'
+import type { WorldEventEnvelope } from '@piquet-h/shared/events'
+import assert from 'node:assert'
+import { afterEach, beforeEach, describe, test } from 'node:test'
+import { TOKENS } from '../../src/di/tokens.js'
+import { LocationLookHandler } from '../../src/handlers/locationLook.js'
+import { PlayerDropHandler } from '../../src/handlers/playerDrop.js'
+import { PlayerTakeHandler } from '../../src/handlers/playerTake.js'
+import type { IWorldItemRepository } from '../../src/repos/worldItemRepository.js'
+import type { InMemoryWorldEventPublisher } from '../../src/worldEvents/worldEventPublisher.js'
+import { IntegrationTestFixture } from '../helpers/IntegrationTestFixture.js'
+
+describe('World Items: Take/Drop Handlers', () => {
+    let fixture: IntegrationTestFixture
+
+    beforeEach(async () => {
+        fixture = new IntegrationTestFixture('memory')
+        await fixture.setup()
+    })
+
+    afterEach(async () => {
+        await fixture.teardown()
+    })
+
+    async function createMockContext(): Promise<InvocationContext> {
+        const container = await fixture.getContainer()
+        return {
+            invocationId: 'test-invocation',
+            functionName: 'test-function',
+            extraInputs: new Map([['container', container]]),
+            log: () => {},
+            error: () => {},
+            warn: () => {},
+            info: () => {},
+            debug: () => {},
+            trace: () => {}
+        } as unknown as InvocationContext
+    }
+
+    function makeItemRequest(playerId: string, body: Record<string, unknown>): HttpRequest {
+        return {
+            method: 'POST',
+            url: `http://localhost/api/player/${playerId}/take`,
+            headers: new Headers(),
+            query: new URLSearchParams(),
+            params: { playerId },
+            text: async () => JSON.stringify(body)
+        } as unknown as HttpRequest
+    }
+
+    function makeLookRequest(locationId: string): HttpRequest {
+        return {
+            method: 'GET',
+            url: `http://localhost/api/location/${locationId}`,
+            headers: new Headers(),
+            query: new URLSearchParams(),
+            params: { locationId },
+            text: async () => ''
+        } as unknown as HttpRequest
+    }
+
+    async function seedPlayerWithItem(): Promise<{ playerId: string; itemId: string }> {
+        const playerRepo = await fixture.getPlayerRepository()
+        const { record } = await playerRepo.getOrCreate(crypto.randomUUID())
+        // Mirror bootstrap: the PlayerDoc projection carries inventoryVersion.
+        await (
+            await fixture.getPlayerDocRepository()
+        ).upsertPlayer({
+            id: record.id,
+            createdUtc: record.createdUtc,
+            updatedUtc: record.createdUtc,
+            currentLocationId: STARTER_LOCATION_ID,
+            inventoryVersion: 0
+        })
+        const container = await fixture.getContainer()
+        const worldItems = container.get<IWorldItemRepository>(TOKENS.WorldItemRepository)
+        const itemId = crypto.randomUUID()
+        await worldItems.placeItem({ id: itemId, name: 'Brass Lantern', description: 'A dented lantern.', locationId: STARTER_LOCATION_ID })
+        return { playerId: record.id, itemId }
+    }
+
+    async function getPublishedEvents(): Promise<WorldEventEnvelope[]> {
+        const container = await fixture.getContainer()
+        return container.get<InMemoryWorldEventPublisher>(TOKENS.WorldEventPublisher).enqueuedEvents
+    }
+
+    test('look lists items lying at the location', async () => {
+        const { itemId } = await seedPlayerWithItem()
+        const container = await fixture.getContainer()
+        const handler = container.get(LocationLookHandler)
+
+        const response = await handler.handle(makeLookRequest(STARTER_LOCATION_ID), await createMockContext())
+
+        assert.strictEqual(response.status, 200)
+        const body = response.jsonBody as { data: { items?: ItemSummary[] } }
+        assert.deepStrictEqual(body.data.items, [{ id: itemId, name: 'Brass Lantern', description: 'A dented lantern.' }])
+    })
+
+    test('take moves the item into inventory and emits Player.Take', async () => {
+        const { playerId, itemId } = await seedPlayerWithItem()
+        const container = await fixture.getContainer()
+        const handler = container.get(PlayerTakeHandler)
+
+        const response = await handler.handle(makeItemRequest(playerId, { itemName: 'lantern' }), await createMockContext())
+
+        assert.strictEqual(response.status, 200)
+        const body = response.jsonBody as { data: { item: ItemSummary; locationId: string; inventoryVersion: number } }
+        assert.strictEqual(body.data.item.id, itemId)
+        assert.strictEqual(body.data.locationId, STARTER_LOCATION_ID)
+        assert.strictEqual(body.data.inventoryVersion, 1)
+
+        const inventory = await (await fixture.getInventoryRepository()).listItems(playerId)
+        assert.strictEqual(inventory.length, 1)
+        assert.strictEqual(inventory[0].id, itemId)
+        assert.strictEqual(inventory[0].metadata?.name, 'Brass Lantern')
+
+        const worldItems = container.get<IWorldItemRepository>(TOKENS.WorldItemRepository)
+        assert.deepStrictEqual(await worldItems.listItemsAtLocation(STARTER_LOCATION_ID), [])
+
+        const events = await getPublishedEvents()
+        const takeEvent = events.find((e) => e.type === 'Player.Take')
+        assert.ok(takeEvent, 'Player.Take event should be enqueued')
+        assert.strictEqual(takeEvent.actor.id, playerId)
+        assert.strictEqual(takeEvent.payload.itemId, itemId)
+        assert.strictEqual(takeEvent.payload.locationId, STARTER_LOCATION_ID)
+        assert.ok(takeEvent.payload.actionIntent, 'player-actor events carry an actionIntent')
+
+        const telemetry = await fixture.getTelemetryClient()
+        assert.ok('events' in telemetry && telemetry.events.some((e) => e.name === 'Item.Take.Success'))
+    })
+
+    test('take of an item that is not here returns 404, including a second take', async () => {
+        const { playerId } = await seedPlayerWithItem()
+        const container = await fixture.getContainer()
+        const handler = container.get(PlayerTakeHandler)
+
+        const missing = await handler.handle(makeItemRequest(playerId, { itemName: 'sword' }), await createMockContext())
+        assert.strictEqual(missing.status, 404)
+        assert.strictEqual((missing.jsonBody as { error: { code: string } }).error.code, 'ItemNotFound')
+
+        const first = await handler.handle(makeItemRequest(playerId, { itemName: 'lantern' }), await createMockContext())
+        assert.strictEqual(first.status, 200)
+        const second = await handler.handle(makeItemRequest(playerId, { itemName: 'lantern' }), await createMockContext())
+        assert.strictEqual(second.status, 404)
+    })
+
+    test('drop returns the item to the current location and emits Player.Drop', async () => {
+        const { playerId, itemId } = await seedPlayerWithItem()
+        const container = await fixture.getContainer()
+        await container.get(PlayerTakeHandler).handle(makeItemRequest(playerId, { itemId }), await createMockContext())
+
+        const response = await container
+            .get(PlayerDropHandler)
+            .handle(makeItemRequest(playerId, { itemName: 'brass lantern' }), await createMockContext())
+
+        assert.strictEqual(response.status, 200)
+        const worldItems = container.get<IWorldItemRepository>(TOKENS.WorldItemRepository)
+        const here = await worldItems.listItemsAtLocation(STARTER_LOCATION_ID)
+        assert.strictEqual(here.length, 1)
+        assert.strictEqual(here[0].id, itemId)
+        assert.strictEqual(here[0].name, 'Brass Lantern')
+        assert.strictEqual(here[0].description, 'A dented lantern.')
+
+        const inventory = await (await fixture.getInventoryRepository()).listItems(playerId)
+        assert.strictEqual(inventory.length, 0)
+
+        const events = await getPublishedEvents()
+        assert.ok(events.some((e) => e.type === 'Player.Drop' && e.payload.itemId === itemId))
+    })
+
+    test('drop of an item not carried returns 404 ItemNotFound', async () => {
+        const { playerId } = await seedPlayerWithItem()
+        const container = await fixture.getContainer()
+
+        const response = await container
+            .get(PlayerDropHandler)
+            .handle(makeItemRequest(playerId, { itemName: 'lantern' }), await createMockContext())
+
+        assert.strictEqual(response.status, 404)
+        assert.strictEqual((response.jsonBody as { error: { code: string } }).error.code, 'ItemNotFound')
+    })
+
+    test('missing item reference returns 400 MissingField', async () => {
+        const { playerId } = await seedPlayerWithItem()
+        const container = await fixture.getContainer()
+
+        const response = await container.get(PlayerTakeHandler).handle(makeItemRequest(playerId, {}), await createMockContext())
+
+        assert.strictEqual(response.status, 400)
+        assert.strictEqual((response.jsonBody as { error: { code: string } }).error.code, 'MissingField')
+    })
+
+    test('stale expectedVersion returns 409 InventoryVersionConflict and leaves the item in place', async () => {
+        const { playerId, itemId } = await seedPlayerWithItem()
+        const container = await fixture.getContainer()
+
+        const response = await container
+            .get(PlayerTakeHandler)
+            .handle(makeItemRequest(playerId, { itemId, expectedVersion: 5 }), await createMockContext())
+
+        assert.strictEqual(response.status, 409)
+        assert.strictEqual((response.jsonBody as { error: { code: string } }).error.code, 'InventoryVersionConflict')
+        const worldItems = container.get<IWorldItemRepository>(TOKENS.WorldItemRepository)
+        assert.strictEqual((await worldItems.listItemsAtLocation(STARTER_LOCATION_ID)).length, 1)
+    })
+
+    test('take that loses the race returns 409 ItemUnavailable without bumping the inventory version', async () => {
+        const { playerId, itemId } = await seedPlayerWithItem()
+        const container = await fixture.getContainer()
+        // Another player removes the item between the lookup and the removal.
+        const worldItems = container.get<IWorldItemRepository>(TOKENS.WorldItemRepository)
+        worldItems.removeItem = async () => false
+
+        const response = await container
+            .get(PlayerTakeHandler)
+            .handle(makeItemRequest(playerId, { itemId, expectedVersion: 0 }), await createMockContext())
+
+        assert.strictEqual(response.status, 409)
+        assert.strictEqual((response.jsonBody as { error: { code: string } }).error.code, 'ItemUnavailable')
+        const doc = await (await fixture.getPlayerDocRepository()).getPlayer(playerId)
+        assert.strictEqual(doc?.inventoryVersion, 0)
+    })
+})
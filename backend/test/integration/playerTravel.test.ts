@@ -0,0 +1,258 @@
+/**
+ * Integration tests for `travel to <place>` (PlayerTravelHandler + TravelService).
+ *
+ * Tests cover:
+ * - The fastest known route is walked leg by leg; the player ends at the destination and the
+ *   player clock advances by the total travel time
+ * - Destinations match landmark tags and partial names
+ * - Only discovered locations are known: an undiscovered destination has no route and routes avoid
+ *   undiscovered locations
+ * - A leg locked after planning stops the journey at the last location reached
+ * - Already there → 409; unknown place → 404 NoRoute; missing destination → 400; mid-fight → 409
+ * - "travel to market square then look" runs through the command executor
+ */
+import type { HttpRequest } from '@azure/functions'
+import type { CommandChainResponse, LocationResponse, TravelResponse } from '@piquet-h/shared'
+import assert from 'node:assert'
+import { afterEach, beforeEach, describe, test } from 'node:test'
+import { TOKENS } from '../../src/di/tokens.js'
+import { ExecutePlayerCommandHandler } from '../../src/handlers/executePlayerCommand.js'
+import { PlayerTravelHandler } from '../../src/handlers/playerTravel.js'
+import { buildDiscoveryId } from '../../src/repos/discoveryRepository.js'
+import type { ITemporalProximityService } from '../../src/services/temporalProximityService.js'
+import { IntegrationTestFixture } from '../helpers/IntegrationTestFixture.js'
+
+const CROSSROADS = 'c1a2b3c4-0000-4000-8000-00000000a001'
+const LANE = 'c1a2b3c4-0000-4000-8000-00000000a002'
+const MARKET = 'c1a2b3c4-0000-4000-8000-00000000a003'
+const HARBOUR = 'c1a2b3c4-0000-4000-8000-00000000a004'
+
+describe('Travel', () => {
+    let fixture: IntegrationTestFixture
+
+    beforeEach(async () => {
+        fixture = new IntegrationTestFixture('memory')
+        await fixture.setup()
+    })
+
+    afterEach(async () => {
+        await fixture.teardown()
+    })
+
+    /** Crossroads -east 5m-> Lantern Lane -north 5m-> Market Square -east 5m-> Harbour Steps, plus a slow 15m Crossroads -north-> Market Square. */
+    async function seedTown(): Promise<void> {
+        const locationRepo = await fixture.getLocationRepository()
+        await locationRepo.upsert({ id: CROSSROADS, name: 'Crossroads', description: 'Four ways meet.' })
+        await locationRepo.upsert({ id: LANE, name: 'Lantern Lane', description: 'Lamps on hooks.' })
+        await locationRepo.upsert({ id: MARKET, name: 'Market Square', description: 'Stalls and awnings.', tags: ['shop:old-smithy'] })
+        await locationRepo.upsert({ id: HARBOUR, name: 'Harbour Steps', description: 'Stone steps down to the water.' })
+        for (const [from, direction, to, ms] of [
+            [CROSSROADS, 'east', LANE, 300_000],
+            [LANE, 'north', MARKET, 300_000],
+            [CROSSROADS, 'north', MARKET, 900_000],
+            [MARKET, 'east', HARBOUR, 300_000]
+        ] as const) {
+            await locationRepo.ensureExit(from, direction, to)
+            await locationRepo.setExitTravelDuration(from, direction, ms)
+        }
+    }
+
+    /** A player at the Crossroads who has already seen the `discovered` locations. */
+    async function seedPlayer(
+        attributes: Record<string, number | string> = {},
+        discovered: string[] = [LANE, MARKET, HARBOUR]
+    ): Promise<string> {
+        const playerRepo = await fixture.getPlayerRepository()
+        const { record } = await playerRepo.getOrCreate(crypto.randomUUID())
+        await playerRepo.update({ ...record, currentLocationId: CROSSROADS })
+        await (
+            await fixture.getPlayerDocRepository()
+        ).upsertPlayer({
+            id: record.id,
+            createdUtc: record.createdUtc,
+            updatedUtc: record.createdUtc,
+            currentLocationId: CROSSROADS,
+            inventoryVersion: 0,
+            attributes
+        })
+        const discoveries = await fixture.getDiscoveryRepository()
+        const seenUtc = new Date().toISOString()
+        for (const locationId of discovered) {
+            await discoveries.upsertDiscovery({
+                id: buildDiscoveryId(record.id, locationId),
+                playerId: record.id,
+                locationId,
+                locationName: locationId,
+                firstSeenTick: 0,
+                firstSeenUtc: seenUtc,
+                lastSeenUtc: seenUtc,
+                visitCount: 1,
+                lastDescriptionHash: 'hash',
+                lastSource: 'move'
+            })
+        }
+        return record.id
+    }
+
+    async function send(playerId: string, verb: 'travel' | 'command', body: Record<string, unknown>) {
+        const container = await fixture.getContainer()
+        const handler = verb === 'travel' ? container.get(PlayerTravelHandler) : container.get(ExecutePlayerCommandHandler)
+        const req = {
+            method: 'POST',
+            url: `http://localhost/api/player/${playerId}/${verb}`,
+            headers: new Headers(),
+            query: new URLSearchParams(),
+            params: { playerId },
+            text: async () => JSON.stringify(body)
+        } as unknown as HttpRequest
+        return handler.handle(req, await fixture.createInvocationContext())
+    }
+
+    async function travel(playerId: string, destination: string): Promise<TravelResponse> {
+        const response = await send(playerId, 'travel', { destination })
+        assert.strictEqual(response.status, 200, JSON.stringify(response.jsonBody))
+        return (response.jsonBody as { data: TravelResponse }).data
+    }
+
+    function errorCode(response: { jsonBody?: unknown }): string {
+        return (response.jsonBody as { error: { code: string } }).error.code
+    }
+
+    async function playerLocation(playerId: string): Promise<string | undefined> {
+        return (await (await fixture.getPlayerRepository()).get(playerId))?.currentLocationId
+    }
+
+    test('walks the fastest known route and applies the total travel time to the player clock', async () => {
+        await seedTown()
+        const playerId = await seedPlayer()
+
+        const data = await travel(playerId, 'the market square')
+
+        assert.deepStrictEqual(data.destination, { id: MARKET, name: 'Market Square' })
+        assert.deepStrictEqual(
+            data.route.map((l) => [l.direction, l.toLocationName]),
+            [
+                ['east', 'Lantern Lane'],
+                ['north', 'Market Square']
+            ],
+            'two 5-minute legs beat the 15-minute direct road'
+        )
+        assert.strictEqual(data.completed, true)
+        assert.strictEqual(data.legsCompleted, 2)
+        assert.strictEqual(data.travelledMs, 600_000)
+        assert.strictEqual(data.summary, 'You travel to Market Square in 10 minutes (2 legs).')
+        assert.strictEqual(data.location.id, MARKET)
+        assert.ok(data.location.description.text.includes('Stalls and awnings.'))
+        assert.deepStrictEqual(
+            data.location.exits?.map((e) => e.direction),
+            ['east']
+        )
+
+        assert.strictEqual(await playerLocation(playerId), MARKET)
+        const doc = await (await fixture.getPlayerDocRepository()).getPlayer(playerId)
+        assert.strictEqual(doc?.clockTick, 600_000)
+    })
+
+    test('matches landmark tags and partial names', async () => {
+        await seedTown()
+        const playerId = await seedPlayer()
+
+        const smithy = await travel(playerId, 'old smithy')
+        assert.strictEqual(smithy.destination.id, MARKET, 'shop:old-smithy tag')
+
+        const harbour = await travel(playerId, 'harbour')
+        assert.strictEqual(harbour.destination.id, HARBOUR, '"harbour" → Harbour Steps')
+        assert.strictEqual(harbour.legsCompleted, 1)
+    })
+
+    test('knows only discovered locations: no route to an undiscovered place, and no route through one', async () => {
+        await seedTown()
+
+        const newcomer = await seedPlayer({}, [LANE])
+        const unseen = await send(newcomer, 'travel', { destination: 'market square' })
+        assert.strictEqual(unseen.status, 404)
+        assert.strictEqual(errorCode(unseen), 'NoRoute')
+        assert.strictEqual(await playerLocation(newcomer), CROSSROADS)
+
+        // Market Square is known but Lantern Lane is not: the slow direct road is the only known way.
+        const roadOnly = await seedPlayer({}, [MARKET])
+        const data = await travel(roadOnly, 'market square')
+        assert.deepStrictEqual(
+            data.route.map((l) => [l.direction, l.toLocationName]),
+            [['north', 'Market Square']]
+        )
+        assert.strictEqual(data.travelledMs, 900_000)
+    })
+
+    test('stops at the last location reached when a leg is locked after planning', async () => {
+        await seedTown()
+        const playerId = await seedPlayer()
+
+        // Lock Lantern Lane's north exit between planning and walking (another player got there first).
+        const container = await fixture.getContainer()
+        const locationRepo = await fixture.getLocationRepository()
+        const planner = await fixture.getTemporalProximityService()
+        const racingPlanner: ITemporalProximityService = {
+            findWithinTravelTime: (...args) => planner.findWithinTravelTime(...args),
+            checkDirectReconnection: (...args) => planner.checkDirectReconnection(...args),
+            findRoute: async (...args) => {
+                const route = await planner.findRoute(...args)
+                await locationRepo.setExitLockState(LANE, 'north', 'locked')
+                return route
+            }
+        }
+        ;(await container.rebind<ITemporalProximityService>(TOKENS.TemporalProximityService)).toConstantValue(racingPlanner)
+
+        const data = await travel(playerId, 'market square')
+
+        assert.strictEqual(data.completed, false)
+        assert.strictEqual(data.legsCompleted, 1)
+        assert.deepStrictEqual(data.stopped, { reason: 'locked', direction: 'north', message: 'The way north is locked.' })
+        assert.strictEqual(data.location.id, LANE)
+        assert.strictEqual(data.travelledMs, 300_000, 'only the walked leg is charged')
+        assert.match(data.summary, /^You stop at Lantern Lane after 1 leg of 2 toward Market Square\./)
+        assert.strictEqual(await playerLocation(playerId), LANE)
+    })
+
+    test('rejects being there already, unknown places, missing destinations and travel mid-fight', async () => {
+        await seedTown()
+        const playerId = await seedPlayer()
+
+        const here = await send(playerId, 'travel', { destination: 'crossroads' })
+        assert.strictEqual(here.status, 409)
+        assert.strictEqual(errorCode(here), 'AlreadyThere')
+
+        const unknown = await send(playerId, 'travel', { destination: 'the moon' })
+        assert.strictEqual(unknown.status, 404)
+        assert.strictEqual(errorCode(unknown), 'NoRoute')
+
+        const missing = await send(playerId, 'travel', {})
+        assert.strictEqual(missing.status, 400)
+        assert.strictEqual(errorCode(missing), 'MissingField')
+
+        const fighting = await seedPlayer({ encounterId: crypto.randomUUID(), encounterNpcId: crypto.randomUUID(), encounterRound: 1 })
+        const inCombat = await send(fighting, 'travel', { destination: 'market square' })
+        assert.strictEqual(inCombat.status, 409)
+        assert.strictEqual(errorCode(inCombat), 'InCombat')
+        assert.strictEqual(await playerLocation(fighting), CROSSROADS)
+    })
+
+    test('"travel to market square then look" runs through the command executor', async () => {
+        await seedTown()
+        const playerId = await seedPlayer()
+
+        const response = await send(playerId, 'command', { inputText: 'travel to market square then look' })
+
+        assert.strictEqual(response.status, 200)
+        const chain = (response.jsonBody as { data: CommandChainResponse }).data
+        assert.strictEqual(chain.completed, true)
+        assert.deepStrictEqual(
+            chain.steps.map((s) => s.actionKind),
+            ['Travel', 'Look']
+        )
+        assert.strictEqual(chain.steps[0].destination, 'market square')
+        assert.strictEqual((chain.steps[0].data as TravelResponse).legsCompleted, 2)
+        assert.strictEqual((chain.steps[1].data as LocationResponse).name, 'Market Square')
+        assert.strictEqual(chain.locationId, MARKET)
+    })
+})
@@ -0,0 +1,180 @@
+/**
+ * Integration tests for wait / rest / sleep (PlayerWait/Rest/SleepHandler + WaitService).
+ *
+ * Tests cover:
+ * - A bare wait spends the ActionRegistry default, advances the player clock and writes
+ *   PlayerActionAdvanced + Reconciled ledger entries; the response carries narrative text
+ * - A player behind the location anchor catches up (reconciliation 'wait'); one far ahead is
+ *   compressed back to it
+ * - Rest recovers HP in proportion to the time rested; sleep gets a defeated player back to full
+ * - Mid-encounter → 409 InCombat; over a day → 400 InvalidDuration; unknown player → 404
+ * - "wait 2 hours" runs through the command executor with the typed duration
+ */
+import type { HttpRequest } from '@azure/functions'
+import { STARTER_LOCATION_ID, type CommandChainResponse, type PlayerStatusResponse, type WaitResponse } from '@piquet-h/shared'
+import assert from 'node:assert'
+import { afterEach, beforeEach, describe, test } from 'node:test'
+import { ExecutePlayerCommandHandler } from '../../src/handlers/executePlayerCommand.js'
+import { PlayerStatusHandler } from '../../src/handlers/playerStatus.js'
+import { PlayerRestHandler, PlayerSleepHandler, PlayerWaitHandler } from '../../src/handlers/playerWait.js'
+import { IntegrationTestFixture } from '../helpers/IntegrationTestFixture.js'
+
+const HOUR_MS = 3_600_000
+
+type Verb = 'wait' | 'rest' | 'sleep' | 'status' | 'command'
+
+describe('Wait, Rest and Sleep', () => {
+    let fixture: IntegrationTestFixture
+
+    beforeEach(async () => {
+        fixture = new IntegrationTestFixture('memory')
+        await fixture.setup()
+    })
+
+    afterEach(async () => {
+        await fixture.teardown()
+    })
+
+    async function seedPlayer(attributes: Record<string, number | string> = {}): Promise<string> {
+        const playerRepo = await fixture.getPlayerRepository()
+        const { record } = await playerRepo.getOrCreate(crypto.randomUUID())
+        await playerRepo.update({ ...record, currentLocationId: STARTER_LOCATION_ID })
+        await (
+            await fixture.getPlayerDocRepository()
+        ).upsertPlayer({
+            id: record.id,
+            createdUtc: record.createdUtc,
+            updatedUtc: record.createdUtc,
+            currentLocationId: STARTER_LOCATION_ID,
+            inventoryVersion: 0,
+            attributes
+        })
+        return record.id
+    }
+
+    async function send(playerId: string, verb: Verb, body: Record<string, unknown> = {}) {
+        const container = await fixture.getContainer()
+        const handler =
+            verb === 'wait'
+                ? container.get(PlayerWaitHandler)
+                : verb === 'rest'
+                  ? container.get(PlayerRestHandler)
+                  : verb === 'sleep'
+                    ? container.get(PlayerSleepHandler)
+                    : verb === 'status'
+                      ? container.get(PlayerStatusHandler)
+                      : container.get(ExecutePlayerCommandHandler)
+        const req = {
+            method: verb === 'status' ? 'GET' : 'POST',
+            url: `http://localhost/api/player/${playerId}/${verb}`,
+            headers: new Headers(),
+            query: new URLSearchParams(),
+            params: { playerId },
+            text: async () => JSON.stringify(body)
+        } as unknown as HttpRequest
+        return handler.handle(req, await fixture.createInvocationContext())
+    }
+
+    async function waitData(playerId: string, verb: 'wait' | 'rest' | 'sleep', body: Record<string, unknown> = {}): Promise<WaitResponse> {
+        const response = await send(playerId, verb, body)
+        assert.strictEqual(response.status, 200, JSON.stringify(response.jsonBody))
+        return (response.jsonBody as { data: WaitResponse }).data
+    }
+
+    function errorCode(response: { jsonBody?: unknown }): string {
+        return (response.jsonBody as { error: { code: string } }).error.code
+    }
+
+    test('a bare wait advances the player clock, writes the ledger and narrates', async () => {
+        const playerId = await seedPlayer()
+
+        const data = await waitData(playerId, 'wait')
+
+        assert.strictEqual(data.action, 'wait')
+        assert.strictEqual(data.durationMs, 600_000, 'ActionRegistry default for wait')
+        assert.ok(data.narrative.length > 0)
+        assert.strictEqual(data.summary, 'You wait for 10 minutes.')
+        assert.strictEqual(data.hpRestored, 0)
+        assert.deepStrictEqual(data.clock, { tickBefore: 0, tickAfter: 600_000, locationAnchor: 0, reconciliationMethod: 'slow' })
+        assert.strictEqual(data.locationId, STARTER_LOCATION_ID)
+
+        const doc = await (await fixture.getPlayerDocRepository()).getPlayer(playerId)
+        assert.strictEqual(doc?.clockTick, 600_000)
+
+        const ledger = await (await fixture.getTemporalLedgerRepository()).queryByPlayer(playerId)
+        assert.deepStrictEqual(ledger.map((e) => e.eventType).sort(), ['PlayerActionAdvanced', 'Reconciled'])
+        const advanced = ledger.find((e) => e.eventType === 'PlayerActionAdvanced')
+        assert.strictEqual(advanced?.durationMs, 600_000)
+        assert.strictEqual(advanced?.locationId, STARTER_LOCATION_ID)
+        assert.strictEqual(ledger.find((e) => e.eventType === 'Reconciled')?.reconciliationMethod, 'slow')
+    })
+
+    test('reconciles against the location anchor: behind catches up, far ahead is compressed', async () => {
+        const playerId = await seedPlayer()
+        await (await fixture.getWorldClockService()).advanceTick(2 * HOUR_MS, 'test')
+
+        const behind = await waitData(playerId, 'wait', { durationMs: 30 * 60_000 })
+        assert.strictEqual(behind.clock.reconciliationMethod, 'wait')
+        assert.strictEqual(behind.clock.locationAnchor, 2 * HOUR_MS)
+        assert.strictEqual(behind.clock.tickAfter, 2 * HOUR_MS, 'caught up to the location')
+
+        const ahead = await waitData(playerId, 'wait', { durationMs: 12 * HOUR_MS })
+        assert.strictEqual(ahead.clock.tickBefore, 2 * HOUR_MS)
+        assert.strictEqual(ahead.clock.reconciliationMethod, 'compress')
+        assert.strictEqual(ahead.clock.tickAfter, 2 * HOUR_MS, 'compressed back to the location anchor')
+    })
+
+    test('rest recovers HP in proportion to the time rested', async () => {
+        const playerId = await seedPlayer({ hp: 4, maxHp: 20 })
+
+        const data = await waitData(playerId, 'rest', { durationMs: 4 * HOUR_MS })
+
+        assert.strictEqual(data.hpRestored, 10, 'half a full rest restores half of maxHp')
+        assert.deepStrictEqual(data.player, { hp: 14, maxHp: 20 })
+        assert.strictEqual(data.summary, 'You rest for 4 hours. (+10 HP)')
+
+        const status = (await send(playerId, 'status')).jsonBody as { data: PlayerStatusResponse }
+        assert.strictEqual(status.data.health, 14)
+    })
+
+    test('sleep gets a defeated player back to full health', async () => {
+        const playerId = await seedPlayer({ hp: 0, maxHp: 20 })
+
+        const data = await waitData(playerId, 'sleep')
+
+        assert.strictEqual(data.durationMs, 8 * HOUR_MS)
+        assert.strictEqual(data.hpRestored, 20)
+        assert.deepStrictEqual(data.player, { hp: 20, maxHp: 20 })
+        const status = (await send(playerId, 'status')).jsonBody as { data: PlayerStatusResponse }
+        assert.strictEqual(status.data.defeated, false)
+    })
+
+    test('rejects waiting mid-fight, overlong waits and unknown players', async () => {
+        const fighting = await seedPlayer({ encounterId: crypto.randomUUID(), encounterNpcId: crypto.randomUUID(), encounterRound: 1 })
+        const inCombat = await send(fighting, 'rest')
+        assert.strictEqual(inCombat.status, 409)
+        assert.strictEqual(errorCode(inCombat), 'InCombat')
+
+        const playerId = await seedPlayer()
+        const tooLong = await send(playerId, 'wait', { durationMs: 25 * HOUR_MS })
+        assert.strictEqual(tooLong.status, 400)
+        assert.strictEqual(errorCode(tooLong), 'InvalidDuration')
+        assert.strictEqual((await (await fixture.getPlayerDocRepository()).getPlayer(playerId))?.clockTick, undefined, 'nothing written')
+
+        const unknown = await send(crypto.randomUUID(), 'wait')
+        assert.strictEqual(unknown.status, 404)
+    })
+
+    test('"wait 2 hours" runs through the command executor with the typed duration', async () => {
+        const playerId = await seedPlayer()
+
+        const response = await send(playerId, 'command', { inputText: 'wait 2 hours' })
+
+        assert.strictEqual(response.status, 200)
+        const chain = (response.jsonBody as { data: CommandChainResponse }).data
+        assert.strictEqual(chain.completed, true)
+        assert.strictEqual(chain.steps[0].actionKind, 'Wait')
+        assert.strictEqual(chain.steps[0].durationMs, 2 * HOUR_MS)
+        assert.strictEqual((chain.steps[0].data as WaitResponse).durationMs, 2 * HOUR_MS)
+    })
+})
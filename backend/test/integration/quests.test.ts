@@ -0,0 +1,288 @@
+/**
+ * Integration tests for quests (QuestProposedHandler + QuestProgressService + PlayerQuestsHandler).
+ *
+ * Tests cover:
+ * - Quest.Proposed persists an active quest; replaying the event is a noop
+ * - Invalid objectives are rejected (validation failure, nothing persisted)
+ * - Moving, picking up an item and talking to an NPC advance visit / collect / talk objectives
+ * - Completing the last objective completes the quest and grants rewards exactly once, advancing the inventory version
+ * - A quest that could not be stored as rewarded grants nothing
+ * - GET quests lists active quests first; unknown player → 404
+ */
+import type { HttpRequest, InvocationContext } from '@azure/functions'
+import { STARTER_LOCATION_ID, type QuestsResponse } from '@piquet-h/shared'
+import type { WorldEventEnvelope } from '@piquet-h/shared/events'
+import assert from 'node:assert'
+import { afterEach, beforeEach, describe, test } from 'node:test'
+import { TOKENS } from '../../src/di/tokens.js'
+import { MoveHandler } from '../../src/handlers/moveCore.js'
+import { PlayerQuestsHandler } from '../../src/handlers/playerQuests.js'
+import type { IQuestRepository } from '../../src/repos/questRepository.js'
+import type { IWorldItemRepository } from '../../src/repos/worldItemRepository.js'
+import { InventoryService } from '../../src/services/InventoryService.js'
+import { NpcDialogueService } from '../../src/services/NpcDialogueService.js'
+import { QuestProposedHandler } from '../../src/worldEvents/handlers/QuestProposedHandler.js'
+import { IntegrationTestFixture } from '../helpers/IntegrationTestFixture.js'
+import { makeMoveRequest } from '../helpers/testUtils.js'
+
+const DOCKS_ID = 'dddd0001-qst0-4444-8888-000000000001'
+
+describe('Quests', () => {
+    let fixture: IntegrationTestFixture
+    let questRepo: IQuestRepository
+
+    beforeEach(async () => {
+        fixture = new IntegrationTestFixture('memory')
+        await fixture.setup()
+        questRepo = await fixture.getQuestRepository()
+
+        const locationRepo = await fixture.getLocationRepository()
+        const starter = await locationRepo.get(STARTER_LOCATION_ID)
+        await locationRepo.upsert({
+            id: DOCKS_ID,
+            name: 'Old Docks',
+            description: 'Warped planks over black water.',
+            exits: [{ direction: 'south', to: STARTER_LOCATION_ID }],
+            version: 1
+        })
+        await locationRepo.upsert({
+            id: STARTER_LOCATION_ID,
+            name: starter?.name ?? 'Mosswell River Jetty',
+            description: starter?.description ?? 'A jetty.',
+            exits: [...(starter?.exits ?? []).filter((e) => e.direction !== 'north'), { direction: 'north', to: DOCKS_ID }],
+            version: (starter?.version ?? 0) + 1
+        })
+    })
+
+    afterEach(async () => {
+        await fixture.teardown()
+    })
+
+    async function seedPlayer(): Promise<string> {
+        const playerRepo = await fixture.getPlayerRepository()
+        const { record } = await playerRepo.getOrCreate(crypto.randomUUID())
+        await playerRepo.update({ ...record, currentLocationId: STARTER_LOCATION_ID })
+        await (
+            await fixture.getPlayerDocRepository()
+        ).upsertPlayer({
+            id: record.id,
+            createdUtc: record.createdUtc,
+            updatedUtc: record.createdUtc,
+            currentLocationId: STARTER_LOCATION_ID,
+            inventoryVersion: 0
+        })
+        return record.id
+    }
+
+    function makeProposal(playerId: string, payload: Record<string, unknown> = {}): WorldEventEnvelope {
+        const questId = (payload.questId as string) ?? crypto.randomUUID()
+        return {
+            eventId: crypto.randomUUID(),
+            type: 'Quest.Proposed',
+            occurredUtc: new Date().toISOString(),
+            actor: { kind: 'ai' },
+            correlationId: crypto.randomUUID(),
+            idempotencyKey: `quest:${questId}:proposed`,
+            version: 1,
+            payload: {
+                questId,
+                seedHash: 'seed-abc',
+                playerId,
+                title: 'The Ferryman’s Lantern',
+                description: 'Old Tomas lost his lantern near the docks.',
+                objectives: [
+                    { kind: 'visit', description: 'Go to the old docks', targetId: DOCKS_ID },
+                    { kind: 'collect', description: 'Find the brass lantern', targetName: 'brass lantern' },
+                    { kind: 'talk', description: 'Return to Old Tomas', targetName: 'Old Tomas' }
+                ],
+                rewards: [{ name: 'Silver Coin', quantity: 3 }],
+                ...payload
+            }
+        }
+    }
+
+    async function propose(event: WorldEventEnvelope) {
+        const container = await fixture.getContainer()
+        return container.get(QuestProposedHandler).handle(event, await fixture.createInvocationContext())
+    }
+
+    async function getJournal(playerId: string) {
+        const container = await fixture.getContainer()
+        const req = {
+            method: 'GET',
+            url: `http://localhost/api/player/${playerId}/quests`,
+            headers: new Headers(),
+            query: new URLSearchParams(),
+            params: { playerId },
+            text: async () => ''
+        } as unknown as HttpRequest
+        const context: InvocationContext = await fixture.createInvocationContext()
+        return container.get(PlayerQuestsHandler).handle(req, context)
+    }
+
+    test('Quest.Proposed persists an active quest and replays are a noop', async () => {
+        const playerId = await seedPlayer()
+        const event = makeProposal(playerId)
+
+        const first = await propose(event)
+        assert.strictEqual(first.outcome, 'success')
+
+        const quest = await questRepo.getQuest(playerId, event.payload.questId as string)
+        assert.ok(quest)
+        assert.strictEqual(quest.status, 'active')
+        assert.strictEqual(quest.objectives.length, 3)
+        assert.deepStrictEqual(
+            quest.objectives.map((o) => [o.id, o.progress, o.required]),
+            [
+                ['objective-1', 0, 1],
+                ['objective-2', 0, 1],
+                ['objective-3', 0, 1]
+            ]
+        )
+
+        const second = await propose(event)
+        assert.strictEqual(second.outcome, 'noop')
+    })
+
+    test('invalid objectives are rejected and nothing is persisted', async () => {
+        const playerId = await seedPlayer()
+        const event = makeProposal(playerId, { objectives: [{ kind: 'slay', description: 'Slay the dragon', targetName: 'dragon' }] })
+
+        const result = await propose(event)
+
+        assert.strictEqual(result.outcome, 'validation-failed')
+        assert.strictEqual(await questRepo.getQuest(playerId, event.payload.questId as string), null)
+    })
+
+    test('move, pickup and talk complete the quest and grant rewards once', async () => {
+        const playerId = await seedPlayer()
+        const event = makeProposal(playerId)
+        await propose(event)
+        const questId = event.payload.questId as string
+        const container = await fixture.getContainer()
+
+        const moveHandler = container.get(MoveHandler)
+        const moveResponse = await moveHandler.handle(
+            makeMoveRequest({ dir: 'north', from: STARTER_LOCATION_ID }, { 'x-player-guid': playerId }) as HttpRequest,
+            await fixture.createInvocationContext()
+        )
+        assert.strictEqual(moveResponse.status, 200)
+        assert.strictEqual((await questRepo.getQuest(playerId, questId))?.objectives[0].progress, 1)
+
+        const worldItems = container.get<IWorldItemRepository>(TOKENS.WorldItemRepository)
+        await worldItems.placeItem({ id: crypto.randomUUID(), name: 'Brass Lantern', locationId: DOCKS_ID })
+        const take = await container
+            .get(InventoryService)
+            .acquireFromLocation({ playerId, reference: 'brass lantern', correlationId: crypto.randomUUID() })
+        assert.strictEqual(take.success, true)
+        assert.strictEqual((await questRepo.getQuest(playerId, questId))?.objectives[1].progress, 1)
+
+        await (
+            await fixture.getNpcRepository()
+        ).upsertNpc({ id: crypto.randomUUID(), name: 'Old Tomas', locationId: DOCKS_ID, disposition: 'friendly' })
+        const talk = await container.get(NpcDialogueService).talk({ playerId, reference: 'Old Tomas', correlationId: crypto.randomUUID() })
+        assert.strictEqual(talk.success, true)
+
+        const quest = await questRepo.getQuest(playerId, questId)
+        assert.strictEqual(quest?.status, 'completed')
+        assert.ok(quest?.completedAt)
+        assert.strictEqual(quest?.rewardsGranted, true)
+        const doc = await (await fixture.getPlayerDocRepository()).getPlayer(playerId)
+        assert.strictEqual(doc?.inventoryVersion, 2, 'the pickup and the reward grant each advance the inventory version')
+
+        const inventory = await (await fixture.getInventoryRepository()).listItems(playerId)
+        const coins = inventory.filter((i) => i.itemType === 'Silver Coin')
+        assert.strictEqual(coins.length, 1)
+        assert.strictEqual(coins[0].quantity, 3)
+
+        // Completed quests no longer advance
+        await container.get(NpcDialogueService).talk({ playerId, reference: 'Old Tomas', correlationId: crypto.randomUUID() })
+        const after = await (await fixture.getInventoryRepository()).listItems(playerId)
+        assert.strictEqual(after.filter((i) => i.itemType === 'Silver Coin').length, 1)
+    })
+
+    test('rewards are not granted when the completed quest cannot be stored', async () => {
+        const playerId = await seedPlayer()
+        const event = makeProposal(playerId)
+        await propose(event)
+        const questId = event.payload.questId as string
+        const quest = await questRepo.getQuest(playerId, questId)
+        assert.ok(quest)
+        await questRepo.upsertQuest({
+            ...quest,
+            objectives: quest.objectives.map((o) => ({ ...o, progress: o.kind === 'talk' ? 0 : o.required }))
+        })
+        await (
+            await fixture.getNpcRepository()
+        ).upsertNpc({ id: crypto.randomUUID(), name: 'Old Tomas', locationId: STARTER_LOCATION_ID, disposition: 'friendly' })
+        questRepo.upsertQuest = async () => {
+            throw new Error('store unavailable')
+        }
+
+        const container = await fixture.getContainer()
+        const talk = await container.get(NpcDialogueService).talk({ playerId, reference: 'Old Tomas', correlationId: crypto.randomUUID() })
+
+        assert.strictEqual(talk.success, true, 'progress failures never fail the action')
+        const inventory = await (await fixture.getInventoryRepository()).listItems(playerId)
+        assert.strictEqual(inventory.filter((i) => i.itemType === 'Silver Coin').length, 0)
+        assert.strictEqual((await (await fixture.getPlayerDocRepository()).getPlayer(playerId))?.inventoryVersion, 0)
+    })
+
+    test('objectives for other targets do not advance', async () => {
+        const playerId = await seedPlayer()
+        const event = makeProposal(playerId)
+        await propose(event)
+        const container = await fixture.getContainer()
+
+        const worldItems = container.get<IWorldItemRepository>(TOKENS.WorldItemRepository)
+        await worldItems.placeItem({ id: crypto.randomUUID(), name: 'Rusty Nail', locationId: STARTER_LOCATION_ID })
+        await container.get(InventoryService).acquireFromLocation({ playerId, reference: 'rusty nail', correlationId: crypto.randomUUID() })
+
+        const quest = await questRepo.getQuest(playerId, event.payload.questId as string)
+        assert.deepStrictEqual(
+            quest?.objectives.map((o) => o.progress),
+            [0, 0, 0]
+        )
+    })
+
+    test('journal lists active quests before completed ones', async () => {
+        const playerId = await seedPlayer()
+        await questRepo.upsertQuest({
+            id: crypto.randomUUID(),
+            playerId,
+            title: 'Finished Errand',
+            status: 'completed',
+            objectives: [{ id: 'objective-1', kind: 'visit', description: 'Go somewhere', targetId: DOCKS_ID, required: 1, progress: 1 }],
+            rewards: [],
+            completedAt: new Date().toISOString()
+        })
+        await propose(makeProposal(playerId))
+
+        const response = await getJournal(playerId)
+
+        assert.strictEqual(response.status, 200)
+        const body = (response.jsonBody as { data: QuestsResponse }).data
+        assert.deepStrictEqual(
+            body.quests.map((q) => [q.title, q.status]),
+            [
+                ['The Ferryman’s Lantern', 'active'],
+                ['Finished Errand', 'completed']
+            ]
+        )
+        assert.deepStrictEqual(body.quests[0].rewards, ['Silver Coin (x3)'])
+        assert.deepStrictEqual(body.quests[0].objectives[0], {
+            description: 'Go to the old docks',
+            kind: 'visit',
+            progress: 0,
+            required: 1,
+            completed: false
+        })
+    })
+
+    test('journal for an unknown player returns 404', async () => {
+        const response = await getJournal(crypto.randomUUID())
+
+        assert.strictEqual(response.status, 404)
+        assert.strictEqual((response.jsonBody as { error: { code: string } }).error.code, 'PlayerNotFound')
+    })
+})
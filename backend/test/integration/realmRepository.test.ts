@@ -577,4 +577,15 @@ describeForBothModes('Realm Repository', (mode) => {
 
         assert.strictEqual(result, null, 'Should ignore non-weather-zone realms')
     })
+    test('listByType returns only realms of that type', async () => {
+        const repo = await fixture.getRealmRepository()
+
+        await repo.upsert({ id: 'list-zone-1', name: 'Zone 1', realmType: 'WEATHER_ZONE' as RealmType, scope: 'REGIONAL' as RealmScope })
+        await repo.upsert({ id: 'list-zone-2', name: 'Zone 2', realmType: 'WEATHER_ZONE' as RealmType, scope: 'REGIONAL' as RealmScope })
+        await repo.upsert({ id: 'list-district', name: 'District', realmType: 'DISTRICT' as RealmType, scope: 'LOCAL' as RealmScope })
+
+        const zones = await repo.listByType('WEATHER_ZONE' as RealmType)
+
+        assert.deepStrictEqual(zones.map((z) => z.id).sort(), ['list-zone-1', 'list-zone-2'])
+    })
 })
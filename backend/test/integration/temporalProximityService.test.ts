@@ -8,6 +8,7 @@
  *  - Dangling exit targets (skip during traversal)
  *  - Cross-realm leakage guard (realmKey filter)
  *  - checkDirectReconnection (direction + destination existence)
+ *  - findRoute (fastest route to the nearest match, locked exits avoided)
  */
 
 import assert from 'node:assert'
@@ -317,4 +318,68 @@ describeForBothModes('TemporalProximityService', (mode) => {
             assert.strictEqual(c.accumulatedTravelMs, 120_000, 'should use the shorter path (via B)')
         })
     })
+
+    // -------------------------------------------------------------------------
+    // findRoute — travel-to route planning
+    // -------------------------------------------------------------------------
+    describe('findRoute', () => {
+        test('returns the legs of the fastest route to the nearest matching location', async () => {
+            // A --60s--> B --60s--> C  (120 s via B) beats A --200s--> C (direct)
+            const locationRepo = await seedLocations([
+                { id: 'tp-route-a', name: 'A' },
+                { id: 'tp-route-b', name: 'B' },
+                { id: 'tp-route-c', name: 'Harbour' }
+            ])
+            await locationRepo.ensureExit('tp-route-a', 'north', 'tp-route-b')
+            await locationRepo.setExitTravelDuration('tp-route-a', 'north', 60_000)
+            await locationRepo.ensureExit('tp-route-b', 'east', 'tp-route-c')
+            await locationRepo.setExitTravelDuration('tp-route-b', 'east', 60_000)
+            await locationRepo.ensureExit('tp-route-a', 'east', 'tp-route-c')
+            await locationRepo.setExitTravelDuration('tp-route-a', 'east', 200_000)
+
+            const service = await fixture.getTemporalProximityService()
+            const route = await service.findRoute('tp-route-a', (l) => l.name === 'Harbour', 600_000)
+
+            assert.ok(route, 'Harbour should be reachable')
+            assert.strictEqual(route.destination.id, 'tp-route-c')
+            assert.strictEqual(route.totalTravelMs, 120_000)
+            assert.deepStrictEqual(
+                route.legs.map((l) => [l.fromLocationId, l.direction, l.toLocationId, l.toLocationName, l.travelDurationMs]),
+                [
+                    ['tp-route-a', 'north', 'tp-route-b', 'B', 60_000],
+                    ['tp-route-b', 'east', 'tp-route-c', 'Harbour', 60_000]
+                ]
+            )
+        })
+
+        test('routes around locked exits and gives up when only locked or over-budget ways remain', async () => {
+            const locationRepo = await seedLocations([
+                { id: 'tp-lock-a', name: 'A' },
+                { id: 'tp-lock-b', name: 'B' },
+                { id: 'tp-lock-c', name: 'Vault' }
+            ])
+            await locationRepo.ensureExit('tp-lock-a', 'east', 'tp-lock-c')
+            await locationRepo.setExitTravelDuration('tp-lock-a', 'east', 60_000)
+            await locationRepo.ensureExit('tp-lock-a', 'north', 'tp-lock-b')
+            await locationRepo.setExitTravelDuration('tp-lock-a', 'north', 60_000)
+            await locationRepo.ensureExit('tp-lock-b', 'east', 'tp-lock-c')
+            await locationRepo.setExitTravelDuration('tp-lock-b', 'east', 60_000)
+            await locationRepo.setExitLockState('tp-lock-a', 'east', 'locked')
+
+            const service = await fixture.getTemporalProximityService()
+            const isVault = (l: { name: string }) => l.name === 'Vault'
+
+            const around = await service.findRoute('tp-lock-a', isVault, 600_000)
+            assert.deepStrictEqual(
+                around?.legs.map((l) => l.direction),
+                ['north', 'east'],
+                'the locked direct exit is skipped'
+            )
+
+            assert.strictEqual(await service.findRoute('tp-lock-a', isVault, 90_000), undefined, 'detour exceeds the budget')
+            await locationRepo.setExitLockState('tp-lock-b', 'east', 'locked')
+            assert.strictEqual(await service.findRoute('tp-lock-a', isVault, 600_000), undefined, 'every way in is locked')
+            assert.strictEqual(await service.findRoute('tp-lock-a', (l) => l.name === 'A', 600_000), undefined, 'the source never matches')
+        })
+    })
 })
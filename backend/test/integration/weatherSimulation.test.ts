@@ -0,0 +1,179 @@
+/**
+ * Integration tests for the weather simulation (WeatherService).
+ *
+ * Tests cover:
+ * - One realm-scoped weather spell per zone covering the current world tick; a second run writes nothing
+ * - Spells chain back to back once the world clock passes the current one, drawn from the seeded state machine
+ * - After a long gap only WEATHER_CATCH_UP_MS of weather is filled in
+ * - Only the recent history is read: a zone idle for longer than WEATHER_HISTORY_WINDOW_MS starts afresh at the current tick
+ * - Look, get-atmosphere and generate-ambience see the same weather at every location in a zone
+ */
+import type { HttpRequest } from '@azure/functions'
+import {
+    nextWeatherSpell,
+    WEATHER_DESCRIPTIONS,
+    WEATHER_PHRASES,
+    type RealmScope,
+    type RealmType,
+    type WeatherState
+} from '@piquet-h/shared'
+import assert from 'node:assert'
+import { afterEach, beforeEach, describe, test } from 'node:test'
+import { LocationLookHandler } from '../../src/handlers/locationLook.js'
+import { NarrativeGeneratorHandler } from '../../src/handlers/mcp/narrative-generator/narrative-generator.js'
+import { getAtmosphere } from '../../src/handlers/mcp/world-context/world-context.js'
+import { WEATHER_CATCH_UP_MS, WEATHER_HISTORY_WINDOW_MS, WeatherService } from '../../src/services/WeatherService.js'
+import { IntegrationTestFixture } from '../helpers/IntegrationTestFixture.js'
+
+const ZONE_ID = 'weather-test-coast'
+const OTHER_ZONE_ID = 'weather-test-hills'
+
+describe('Weather Simulation', () => {
+    let fixture: IntegrationTestFixture
+
+    beforeEach(async () => {
+        fixture = new IntegrationTestFixture('memory')
+        await fixture.setup()
+    })
+
+    afterEach(async () => {
+        await fixture.teardown()
+    })
+
+    async function seedZones(): Promise<{ inZone: string[] }> {
+        const realmRepo = await fixture.getRealmRepository()
+        const locationRepo = await fixture.getLocationRepository()
+        for (const id of [ZONE_ID, OTHER_ZONE_ID]) {
+            await realmRepo.upsert({ id, name: id, realmType: 'WEATHER_ZONE' as RealmType, scope: 'REGIONAL' as RealmScope })
+        }
+        const inZone = [crypto.randomUUID(), crypto.randomUUID()]
+        for (const [index, id] of inZone.entries()) {
+            await locationRepo.upsert({ id, name: `Shore ${index + 1}`, description: 'Wet sand stretches away.' })
+            await realmRepo.addWithinEdge(id, ZONE_ID)
+        }
+        return { inZone }
+    }
+
+    async function weatherService(): Promise<WeatherService> {
+        return (await fixture.getContainer()).get(WeatherService)
+    }
+
+    async function zoneSpells(zoneId: string) {
+        return (await fixture.getLayerRepository()).queryLayerHistory(`realm:${zoneId}`, 'weather')
+    }
+
+    test('writes one spell per zone covering the current tick, and nothing more until it ends', async () => {
+        await seedZones()
+        const weather = await weatherService()
+
+        const first = await weather.advance()
+        assert.deepStrictEqual(first, { currentTick: 0, zoneCount: 2, spellsWritten: 2 })
+
+        const [spell] = await zoneSpells(ZONE_ID)
+        const expected = nextWeatherSpell(ZONE_ID, null, 0)
+        assert.strictEqual(spell.effectiveFromTick, 0)
+        assert.strictEqual(spell.effectiveToTick, expected.toTick)
+        assert.strictEqual(spell.value, WEATHER_DESCRIPTIONS[expected.state])
+        assert.deepStrictEqual(spell.metadata, { weatherType: expected.state, source: 'weather-simulation', seed: expected.seed })
+
+        const second = await weather.advance()
+        assert.strictEqual(second.spellsWritten, 0)
+    })
+
+    test('chains the next spells from the end of the last one as the world clock moves on', async () => {
+        await seedZones()
+        const weather = await weatherService()
+        const clock = await fixture.getWorldClockService()
+        await weather.advance()
+        const [firstSpell] = await zoneSpells(ZONE_ID)
+
+        await clock.advanceTick(firstSpell.effectiveToTick! + 1, 'test')
+        await weather.advance()
+
+        const spells = await zoneSpells(ZONE_ID)
+        assert.strictEqual(spells.length, 2)
+        const expected = nextWeatherSpell(ZONE_ID, firstSpell.metadata!.weatherType as WeatherState, firstSpell.effectiveToTick! + 1)
+        assert.strictEqual(spells[1].effectiveFromTick, firstSpell.effectiveToTick! + 1)
+        assert.strictEqual(spells[1].metadata?.weatherType, expected.state)
+        assert.strictEqual(spells[1].effectiveToTick, expected.toTick)
+    })
+
+    test('after a long gap only the last in-game day of weather is written', async () => {
+        await seedZones()
+        const weather = await weatherService()
+        const clock = await fixture.getWorldClockService()
+        await weather.advance()
+        const [firstSpell] = await zoneSpells(ZONE_ID)
+
+        const now = firstSpell.effectiveToTick! + WEATHER_CATCH_UP_MS + WEATHER_CATCH_UP_MS / 2
+        await clock.advanceTick(now, 'test')
+        await weather.advance()
+
+        const spells = await zoneSpells(ZONE_ID)
+        const caughtUp = spells.slice(1)
+        assert.strictEqual(caughtUp[0].effectiveFromTick, now - WEATHER_CATCH_UP_MS)
+        assert.strictEqual(
+            caughtUp[0].metadata?.weatherType,
+            nextWeatherSpell(ZONE_ID, firstSpell.metadata!.weatherType as WeatherState, now - WEATHER_CATCH_UP_MS).state
+        )
+        for (let i = 1; i < caughtUp.length; i++) {
+            assert.strictEqual(caughtUp[i].effectiveFromTick, caughtUp[i - 1].effectiveToTick! + 1)
+        }
+        assert.ok(caughtUp[caughtUp.length - 1].effectiveToTick! >= now)
+    })
+
+    test('only reads recent weather: a zone idle past the history window starts afresh', async () => {
+        await seedZones()
+        const weather = await weatherService()
+        const clock = await fixture.getWorldClockService()
+        await weather.advance()
+
+        const layerRepo = await fixture.getLayerRepository()
+        const startTicks: (number | undefined)[] = []
+        const queryLayerHistory = layerRepo.queryLayerHistory.bind(layerRepo)
+        layerRepo.queryLayerHistory = async (scopeId, layerType, startTick, endTick) => {
+            startTicks.push(startTick)
+            return queryLayerHistory(scopeId, layerType, startTick, endTick)
+        }
+
+        const now = 10 * WEATHER_HISTORY_WINDOW_MS
+        await clock.advanceTick(now, 'test')
+        await weather.advance()
+        layerRepo.queryLayerHistory = queryLayerHistory
+
+        assert.ok(startTicks.length > 0)
+        assert.ok(startTicks.every((tick) => tick === now - WEATHER_HISTORY_WINDOW_MS))
+        const spells = await zoneSpells(ZONE_ID)
+        assert.strictEqual(spells.length, 2)
+        assert.strictEqual(spells[1].effectiveFromTick, now)
+        assert.strictEqual(spells[1].metadata?.weatherType, nextWeatherSpell(ZONE_ID, null, now).state)
+    })
+
+    test('look, get-atmosphere and generate-ambience agree on the weather across the zone', async () => {
+        const { inZone } = await seedZones()
+        await (await weatherService()).advance()
+        const [spell] = await zoneSpells(ZONE_ID)
+        const state = spell.metadata!.weatherType as WeatherState
+
+        const container = await fixture.getContainer()
+        for (const locationId of inZone) {
+            const req = { params: { locationId }, query: new URLSearchParams(), headers: new Headers() } as unknown as HttpRequest
+            const res = await container.get(LocationLookHandler).handle(req, await fixture.createInvocationContext())
+            assert.strictEqual(res.status, 200)
+            const body = res.jsonBody as { data: { description: { text: string; provenance: { layersApplied: string[] } } } }
+            assert.ok(body.data.description.text.includes(WEATHER_DESCRIPTIONS[state]), body.data.description.text)
+            assert.ok(body.data.description.provenance.layersApplied.includes('weather'))
+
+            const atmosphere = JSON.parse(await getAtmosphere({ arguments: { locationId } }, await fixture.createInvocationContext()))
+            assert.strictEqual(atmosphere.weather.value, WEATHER_DESCRIPTIONS[state])
+            assert.strictEqual(atmosphere.weather.scopeId, `realm:${ZONE_ID}`)
+
+            const ambience = JSON.parse(
+                await container
+                    .get(NarrativeGeneratorHandler)
+                    .generateAmbience({ arguments: { locationId, preferAi: false } }, await fixture.createInvocationContext())
+            )
+            assert.strictEqual(ambience.inputs.weather, WEATHER_PHRASES[state])
+        }
+    })
+})
@@ -0,0 +1,253 @@
+/**
+ * Integration tests for dead-letter inspection and redrive (DeadLetterRedriveService + operator handlers + MCP tools).
+ *
+ * Tests cover:
+ * - Records are listed by time window, event type and error code, redacted, with their current schema validation
+ * - Valid records are republished with a new eventId, caused by the record, and the processor accepts them
+ * - Every attempt is recorded on its record; a record is redriven at most once
+ * - Records that fail the schema, or whose envelope was not kept, are refused and say why
+ */
+import type { HttpRequest, InvocationContext } from '@azure/functions'
+import type { DeadLetterResponse, DeadLettersResponse, RedriveDeadLettersResponse } from '@piquet-h/shared'
+import { createDeadLetterRecord, type DeadLetterRecord } from '@piquet-h/shared/deadLetter'
+import type { WorldEventEnvelope } from '@piquet-h/shared/events'
+import assert from 'node:assert'
+import { afterEach, beforeEach, describe, test } from 'node:test'
+import { TOKENS } from '../../src/di/tokens.js'
+import { WorldOperationsHandler } from '../../src/handlers/mcp/world-operations/world-operations.js'
+import { GetDeadLetterHandler, ListDeadLettersHandler, RedriveDeadLettersHandler } from '../../src/handlers/worldDeadLetters.js'
+import type { IDeadLetterRepository } from '../../src/repos/deadLetterRepository.js'
+import { buildPlayerScopeKey } from '../../src/repos/worldEventRepository.js'
+import { __resetIdempotencyCacheForTests, queueProcessWorldEvent } from '../../src/worldEvents/queueProcessWorldEvent.js'
+import type { InMemoryWorldEventPublisher } from '../../src/worldEvents/worldEventPublisher.js'
+import { IntegrationTestFixture } from '../helpers/IntegrationTestFixture.js'
+
+type Body<T> = { success: boolean; data: T; error?: { code: string } }
+
+describe('World Dead Letters', () => {
+    let fixture: IntegrationTestFixture
+
+    beforeEach(async () => {
+        fixture = new IntegrationTestFixture('memory')
+        await fixture.setup()
+        __resetIdempotencyCacheForTests()
+    })
+
+    afterEach(async () => {
+        await fixture.teardown()
+    })
+
+    async function deadLetterRepo(): Promise<IDeadLetterRepository> {
+        return (await fixture.getContainer()).get<IDeadLetterRepository>(TOKENS.DeadLetterRepository)
+    }
+
+    async function published(): Promise<WorldEventEnvelope[]> {
+        return (await fixture.getContainer()).get<InMemoryWorldEventPublisher>(TOKENS.WorldEventPublisher).enqueuedEvents
+    }
+
+    async function process(message: unknown): Promise<void> {
+        await queueProcessWorldEvent(message, (await fixture.createInvocationContext()) as unknown as InvocationContext)
+    }
+
+    function request(body: unknown, params: Record<string, string> = {}, query = ''): HttpRequest {
+        return {
+            params,
+            query: new URLSearchParams(query),
+            headers: new Headers(),
+            text: async () => (body === undefined ? '' : JSON.stringify(body))
+        } as unknown as HttpRequest
+    }
+
+    async function call<T>(
+        Handler: typeof ListDeadLettersHandler | typeof GetDeadLetterHandler | typeof RedriveDeadLettersHandler,
+        req: HttpRequest
+    ): Promise<{ status: number; body: Body<T> }> {
+        const container = await fixture.getContainer()
+        const response = await container.get(Handler).handle(req, await fixture.createInvocationContext())
+        return { status: response.status ?? 200, body: response.jsonBody as Body<T> }
+    }
+
+    function takeEnvelope(playerId: string): Record<string, unknown> {
+        return {
+            eventId: crypto.randomUUID(),
+            type: 'Player.Take',
+            occurredUtc: new Date().toISOString(),
+            actor: { kind: 'player', id: playerId },
+            correlationId: crypto.randomUUID(),
+            idempotencyKey: `item-take:${playerId}:lantern`,
+            version: 1,
+            payload: {
+                playerId,
+                locationId: crypto.randomUUID(),
+                itemId: 'lantern',
+                itemName: 'a brass lantern',
+                actionIntent: { rawInput: 'take lantern', parsedIntent: { verb: 'take' }, validationResult: { success: true } }
+            }
+        }
+    }
+
+    /** A dead letter for an envelope that was valid but whose handler failed (e.g. a dependency outage). */
+    async function storeHandlerFailure(envelope: Record<string, unknown>): Promise<DeadLetterRecord> {
+        const record = createDeadLetterRecord(
+            envelope,
+            { category: 'handler-error', message: 'Dependency unavailable' },
+            { errorCode: 'handler-error' }
+        )
+        await (await deadLetterRepo()).store(record, envelope)
+        return record
+    }
+
+    test('lists records by filter, redacted, with current validation', async () => {
+        const playerId = crypto.randomUUID()
+        await process({ ...takeEnvelope(playerId), version: 'one' })
+        await process('not json {')
+        const handlerFailure = await storeHandlerFailure(takeEnvelope(playerId))
+
+        const all = await call<DeadLettersResponse>(ListDeadLettersHandler, request(undefined))
+        assert.strictEqual(all.status, 200)
+        assert.strictEqual(all.body.data.records.length, 3)
+        assert.ok(all.body.data.records.every((r) => r.redacted))
+        for (const r of all.body.data.records) {
+            const { actor, payload } = r.redactedEnvelope
+            assert.ok(!JSON.stringify({ actor, payload }).includes(playerId), 'actor and payload are redacted')
+        }
+
+        const schema = await call<DeadLettersResponse>(ListDeadLettersHandler, request(undefined, {}, 'errorCode=schema-validation'))
+        assert.strictEqual(schema.body.data.records.length, 1)
+        assert.strictEqual(schema.body.data.records[0].validation.status, 'invalid')
+        assert.ok(schema.body.data.records[0].validation.issues?.some((i) => i.path === 'version'))
+
+        const takes = await call<DeadLettersResponse>(
+            ListDeadLettersHandler,
+            request(undefined, {}, 'eventType=Player.Take&errorCode=handler-error')
+        )
+        assert.deepStrictEqual(
+            takes.body.data.records.map((r) => [r.id, r.validation.status, r.redriven]),
+            [[handlerFailure.id, 'valid', false]]
+        )
+
+        const parse = await call<DeadLettersResponse>(ListDeadLettersHandler, request(undefined, {}, 'errorCode=json-parse'))
+        assert.strictEqual(parse.body.data.records[0].validation.status, 'unavailable')
+
+        const past = await call<DeadLettersResponse>(ListDeadLettersHandler, request(undefined, {}, 'end=2020-01-01T00:00:00Z'))
+        assert.deepStrictEqual(past.body.data.records, [])
+
+        const badCode = await call<DeadLettersResponse>(ListDeadLettersHandler, request(undefined, {}, 'errorCode=timeout'))
+        assert.strictEqual(badCode.status, 400)
+        assert.strictEqual(badCode.body.error?.code, 'InvalidErrorCode')
+        const badStart = await call<DeadLettersResponse>(ListDeadLettersHandler, request(undefined, {}, 'start=yesterday'))
+        assert.strictEqual(badStart.body.error?.code, 'InvalidFormat')
+    })
+
+    test('redrives a valid record once and the processor accepts it', async () => {
+        const playerId = crypto.randomUUID()
+        const original = takeEnvelope(playerId)
+        const record = await storeHandlerFailure(original)
+
+        const first = await call<RedriveDeadLettersResponse>(RedriveDeadLettersHandler, request({ ids: [record.id] }))
+        assert.strictEqual(first.status, 200)
+        assert.strictEqual(first.body.data.redriven, 1)
+        const result = first.body.data.results[0]
+        assert.strictEqual(result.outcome, 'redriven')
+
+        const events = await published()
+        assert.strictEqual(events.length, 1)
+        const envelope = events[0]
+        assert.strictEqual(envelope.eventId, result.eventId)
+        assert.notStrictEqual(envelope.eventId, original.eventId)
+        assert.strictEqual(envelope.causationId, record.id)
+        assert.strictEqual(result.causationId, record.id)
+        assert.strictEqual(envelope.correlationId, original.correlationId)
+        assert.strictEqual(envelope.idempotencyKey, `redrive:${record.id}`)
+        assert.deepStrictEqual(envelope.payload, original.payload)
+
+        await process(envelope)
+        const { events: timeline } = await (await fixture.getWorldEventRepository()).queryByScope(buildPlayerScopeKey(playerId))
+        assert.deepStrictEqual(
+            timeline.map((e) => [e.id, e.causationId]),
+            [[result.eventId, record.id]]
+        )
+
+        const again = await call<RedriveDeadLettersResponse>(RedriveDeadLettersHandler, request({ ids: [record.id] }))
+        assert.strictEqual(again.body.data.results[0].outcome, 'already-redriven')
+        assert.strictEqual((await published()).length, 1)
+
+        const stored = await call<DeadLetterResponse>(GetDeadLetterHandler, request(undefined, { id: record.id }))
+        assert.strictEqual(stored.body.data.record.redriven, true)
+        const attempts = stored.body.data.record.redriveAttempts ?? []
+        assert.strictEqual(attempts.length, 1)
+        assert.strictEqual(attempts[0].outcome, 'redriven')
+        assert.strictEqual(attempts[0].eventId, result.eventId)
+        assert.ok(attempts[0].correlationId)
+    })
+
+    test('refuses records that cannot be redriven and records why', async () => {
+        await process({ ...takeEnvelope(crypto.randomUUID()), version: 'one' })
+        await process('not json {')
+        const repo = await deadLetterRepo()
+        const [invalid] = await repo.queryByFilter({
+            startUtc: '2000-01-01T00:00:00Z',
+            endUtc: '2999-01-01T00:00:00Z',
+            errorCode: 'schema-validation'
+        })
+        const [unparseable] = await repo.queryByFilter({
+            startUtc: '2000-01-01T00:00:00Z',
+            endUtc: '2999-01-01T00:00:00Z',
+            errorCode: 'json-parse'
+        })
+        const missing = crypto.randomUUID()
+
+        const response = await call<RedriveDeadLettersResponse>(
+            RedriveDeadLettersHandler,
+            request({ ids: [invalid.id, unparseable.id, missing] })
+        )
+        assert.strictEqual(response.body.data.redriven, 0)
+        assert.deepStrictEqual(
+            response.body.data.results.map((r) => [r.id, r.outcome]),
+            [
+                [invalid.id, 'invalid'],
+                [unparseable.id, 'not-redrivable'],
+                [missing, 'not-found']
+            ]
+        )
+        assert.ok(response.body.data.results[0].issues?.length)
+        assert.strictEqual((await published()).length, 0)
+
+        assert.strictEqual((await repo.getById(invalid.id))?.redriveAttempts?.[0].outcome, 'invalid')
+        assert.strictEqual((await repo.getById(unparseable.id))?.redriveAttempts?.[0].outcome, 'not-redrivable')
+
+        const empty = await call(RedriveDeadLettersHandler, request({ ids: [] }))
+        assert.strictEqual(empty.status, 400)
+        const notGuid = await call(RedriveDeadLettersHandler, request({ ids: ['abc'] }))
+        assert.strictEqual(notGuid.body.error?.code, 'InvalidFormat')
+        const unknown = await call(GetDeadLetterHandler, request(undefined, { id: missing }))
+        assert.strictEqual(unknown.status, 404)
+    })
+
+    test('MCP tools list and redrive dead letters', async () => {
+        const record = await storeHandlerFailure(takeEnvelope(crypto.randomUUID()))
+        const handler = (await fixture.getContainer()).get(WorldOperationsHandler)
+        const context = {} as InvocationContext
+
+        const listed = JSON.parse(await handler.listDeadLetters({ arguments: { errorCode: 'handler-error' } }, context))
+        assert.strictEqual(listed.ok, true)
+        assert.deepStrictEqual(
+            listed.records.map((r: { id: string }) => r.id),
+            [record.id]
+        )
+
+        const redriven = JSON.parse(await handler.redriveDeadLetters({ arguments: { ids: record.id } }, context))
+        assert.strictEqual(redriven.ok, true)
+        assert.strictEqual(redriven.redriven, 1)
+        assert.strictEqual(
+            (await deadLetterRepo().then((repo) => repo.getById(record.id)))?.redriveAttempts?.[0].correlationId,
+            redriven.correlationId
+        )
+
+        const invalid = JSON.parse(await handler.listDeadLetters({ arguments: { errorCode: 'oops' } }, context))
+        assert.strictEqual(invalid.ok, false)
+        assert.strictEqual(invalid.error, 'ValidationError')
+        const noIds = JSON.parse(await handler.redriveDeadLetters({ arguments: {} }, context))
+        assert.strictEqual(noIds.error, 'ValidationError')
+    })
+})
@@ -0,0 +1,212 @@
+/**
+ * Integration tests for the world event scheduler (WorldEventSchedulerService + operator handlers).
+ *
+ * Tests cover:
+ * - Events due by wall-clock time are published as envelopes once due, and only once
+ * - Events due by world clock tick wait for the clock to reach the tick; their lateness is reported in ticks, not ms
+ * - Scheduling is idempotent per idempotency key; invalid schedules and events are refused
+ * - Operators can list, reschedule and cancel events while they are still waiting
+ */
+import type { HttpRequest } from '@azure/functions'
+import type { ScheduledWorldEvent } from '@piquet-h/shared'
+import type { WorldEventEnvelope } from '@piquet-h/shared/events'
+import assert from 'node:assert'
+import { afterEach, beforeEach, describe, test } from 'node:test'
+import { TOKENS } from '../../src/di/tokens.js'
+import {
+    CancelScheduledWorldEventHandler,
+    ListScheduledWorldEventsHandler,
+    RescheduleWorldEventHandler,
+    ScheduleWorldEventHandler
+} from '../../src/handlers/worldScheduledEvents.js'
+import { WorldEventSchedulerService } from '../../src/services/WorldEventSchedulerService.js'
+import type { InMemoryWorldEventPublisher } from '../../src/worldEvents/worldEventPublisher.js'
+import { IntegrationTestFixture } from '../helpers/IntegrationTestFixture.js'
+import type { MockTelemetryClient } from '../mocks/MockTelemetryClient.js'
+
+type EventBody = { success: boolean; data: { event: ScheduledWorldEvent; created: boolean }; error?: { code: string } }
+
+describe('World Event Scheduler', () => {
+    let fixture: IntegrationTestFixture
+
+    beforeEach(async () => {
+        fixture = new IntegrationTestFixture('memory')
+        await fixture.setup()
+    })
+
+    afterEach(async () => {
+        await fixture.teardown()
+    })
+
+    async function scheduler(): Promise<WorldEventSchedulerService> {
+        return (await fixture.getContainer()).get(WorldEventSchedulerService)
+    }
+
+    async function published(): Promise<WorldEventEnvelope[]> {
+        return (await fixture.getContainer()).get<InMemoryWorldEventPublisher>(TOKENS.WorldEventPublisher).enqueuedEvents
+    }
+
+    function request(body: unknown, params: Record<string, string> = {}, query = ''): HttpRequest {
+        return {
+            params,
+            query: new URLSearchParams(query),
+            headers: new Headers(),
+            text: async () => (body === undefined ? '' : JSON.stringify(body))
+        } as unknown as HttpRequest
+    }
+
+    async function call(
+        Handler:
+            | typeof ScheduleWorldEventHandler
+            | typeof RescheduleWorldEventHandler
+            | typeof CancelScheduledWorldEventHandler
+            | typeof ListScheduledWorldEventsHandler,
+        req: HttpRequest
+    ): Promise<{ status: number; body: EventBody }> {
+        const container = await fixture.getContainer()
+        const response = await container.get(Handler).handle(req, await fixture.createInvocationContext())
+        return { status: response.status ?? 200, body: response.jsonBody as EventBody }
+    }
+
+    const locationId = crypto.randomUUID()
+    const environmentChange = { eventType: 'Location.Environment.Changed', payload: { locationId, change: 'flood' } }
+
+    test('publishes an event once its time has passed, and only once', async () => {
+        const service = await scheduler()
+        const past = await service.schedule({
+            ...environmentChange,
+            when: { atUtc: new Date(Date.now() - 1000).toISOString() },
+            correlationId: crypto.randomUUID()
+        })
+        const future = await service.schedule({
+            ...environmentChange,
+            when: { atUtc: new Date(Date.now() + 3_600_000).toISOString() },
+            correlationId: crypto.randomUUID()
+        })
+        assert.ok(past.success && future.success)
+
+        const first = await service.dispatchDue()
+        assert.strictEqual(first.dispatched, 1)
+        const events = await published()
+        assert.strictEqual(events.length, 1)
+        assert.strictEqual(events[0].eventId, past.event.eventId)
+        assert.strictEqual(events[0].type, 'Location.Environment.Changed')
+        assert.strictEqual(events[0].actor.kind, 'system')
+        assert.strictEqual(events[0].idempotencyKey, past.event.idempotencyKey)
+        assert.deepStrictEqual(events[0].payload, environmentChange.payload)
+
+        const second = await service.dispatchDue()
+        assert.strictEqual(second.dueCount, 0)
+        assert.strictEqual((await published()).length, 1)
+
+        const dispatched = await service.list('dispatched')
+        assert.deepStrictEqual(
+            dispatched.map((e) => e.eventId),
+            [past.event.eventId]
+        )
+        assert.ok(dispatched[0].closedUtc)
+        assert.deepStrictEqual(
+            (await service.list()).map((e) => e.eventId),
+            [future.event.eventId]
+        )
+    })
+
+    test('events scheduled by tick wait for the world clock', async () => {
+        const service = await scheduler()
+        const clock = await fixture.getWorldClockService()
+        const startTick = await clock.getCurrentTick()
+        const scheduled = await service.schedule({
+            ...environmentChange,
+            when: { atTick: startTick + 60_000 },
+            correlationId: crypto.randomUUID()
+        })
+        assert.ok(scheduled.success)
+        assert.strictEqual(scheduled.event.scheduledForTick, startTick + 60_000)
+
+        assert.strictEqual((await service.dispatchDue()).dispatched, 0)
+        await clock.advanceTick(30_000, 'test')
+        assert.strictEqual((await service.dispatchDue()).dispatched, 0)
+        await clock.advanceTick(45_000, 'test')
+        const telemetry = (await fixture.getTelemetryClient()) as MockTelemetryClient
+        telemetry.clear()
+        const run = await service.dispatchDue()
+        assert.strictEqual(run.dispatched, 1)
+        assert.strictEqual(run.currentTick, startTick + 75_000)
+        assert.strictEqual((await published())[0].eventId, scheduled.event.eventId)
+        const dispatchedEvent = telemetry.events.find((e) => e.name === 'World.Event.Dispatched')
+        assert.strictEqual(dispatchedEvent?.properties?.lateTicks, 15_000)
+        assert.strictEqual(dispatchedEvent?.properties?.lateMs, undefined, 'ticks are not wall-clock milliseconds')
+    })
+
+    test('scheduling is idempotent and invalid requests are refused', async () => {
+        const body = { ...environmentChange, atUtc: '2999-01-01T00:00:00Z', idempotencyKey: 'flood:harbour:2999' }
+        const first = await call(ScheduleWorldEventHandler, request(body))
+        assert.strictEqual(first.status, 200)
+        assert.strictEqual(first.body.data.created, true)
+        assert.strictEqual(first.body.data.event.scheduledForUtc, '2999-01-01T00:00:00.000Z')
+
+        const again = await call(ScheduleWorldEventHandler, request({ ...body, atUtc: '2999-06-01T00:00:00Z' }))
+        assert.strictEqual(again.body.data.created, false)
+        assert.strictEqual(again.body.data.event.eventId, first.body.data.event.eventId)
+        assert.strictEqual(again.body.data.event.scheduledForUtc, '2999-01-01T00:00:00.000Z')
+        assert.strictEqual((await (await scheduler()).list()).length, 1)
+
+        const both = await call(ScheduleWorldEventHandler, request({ ...environmentChange, atUtc: '2999-01-01T00:00:00Z', atTick: 5 }))
+        assert.strictEqual(both.status, 400)
+        assert.strictEqual(both.body.error?.code, 'InvalidSchedule')
+
+        const neither = await call(ScheduleWorldEventHandler, request(environmentChange))
+        assert.strictEqual(neither.body.error?.code, 'InvalidSchedule')
+
+        const unknownType = await call(ScheduleWorldEventHandler, request({ ...environmentChange, eventType: 'World.Flood', atTick: 5 }))
+        assert.strictEqual(unknownType.status, 400)
+        assert.strictEqual(unknownType.body.error?.code, 'InvalidEvent')
+
+        const playerWithoutIntent = await call(
+            ScheduleWorldEventHandler,
+            request({ ...environmentChange, actor: { kind: 'player', id: crypto.randomUUID() }, atTick: 5 })
+        )
+        assert.strictEqual(playerWithoutIntent.body.error?.code, 'InvalidEvent')
+    })
+
+    test('operators can list, reschedule and cancel waiting events', async () => {
+        const scheduleAt = async (atUtc: string) =>
+            (await call(ScheduleWorldEventHandler, request({ ...environmentChange, atUtc }))).body.data.event.eventId
+        const toMove = await scheduleAt('2999-01-01T00:00:00Z')
+        const toCancel = await scheduleAt('2999-01-02T00:00:00Z')
+
+        const listed = await call(ListScheduledWorldEventsHandler, request(undefined))
+        const events = (listed.body as unknown as { data: { events: ScheduledWorldEvent[] } }).data.events
+        assert.deepStrictEqual(
+            events.map((e) => e.eventId),
+            [toMove, toCancel]
+        )
+
+        const moved = await call(
+            RescheduleWorldEventHandler,
+            request({ atUtc: new Date(Date.now() - 1000).toISOString() }, { eventId: toMove })
+        )
+        assert.strictEqual(moved.status, 200)
+        assert.strictEqual(moved.body.data.event.status, 'scheduled')
+
+        const cancelled = await call(CancelScheduledWorldEventHandler, request(undefined, { eventId: toCancel }))
+        assert.strictEqual(cancelled.body.data.event.status, 'cancelled')
+
+        const run = await (await scheduler()).dispatchDue()
+        assert.strictEqual(run.dispatched, 1)
+        assert.deepStrictEqual(
+            (await published()).map((e) => e.eventId),
+            [toMove]
+        )
+
+        const tooLate = await call(CancelScheduledWorldEventHandler, request(undefined, { eventId: toMove }))
+        assert.strictEqual(tooLate.status, 409)
+        assert.strictEqual(tooLate.body.error?.code, 'EventNotScheduled')
+
+        const missing = await call(RescheduleWorldEventHandler, request({ atTick: 5 }, { eventId: crypto.randomUUID() }))
+        assert.strictEqual(missing.status, 404)
+
+        const badStatus = await call(ListScheduledWorldEventsHandler, request(undefined, {}, 'status=pending'))
+        assert.strictEqual(badStatus.status, 400)
+    })
+})
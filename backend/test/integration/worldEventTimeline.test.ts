@@ -0,0 +1,155 @@
+/**
+ * Integration tests for the world event timeline (WorldEventTimelineService + location history route).
+ *
+ * Tests cover:
+ * - Processed envelopes are recorded under their location, player and realm scopes with causation links
+ * - Redelivered envelopes and envelopes rejected by their handler do not add timeline entries
+ * - GET /location/{id}/history pages through a location's events newest first
+ * - Invalid ids, paging parameters and unknown locations are refused
+ */
+import type { HttpRequest, InvocationContext } from '@azure/functions'
+import type { LocationHistoryResponse } from '@piquet-h/shared'
+import assert from 'node:assert'
+import { afterEach, beforeEach, describe, test } from 'node:test'
+import { LocationHistoryHandler } from '../../src/handlers/locationHistory.js'
+import { buildLocationScopeKey, buildPlayerScopeKey, buildRealmScopeKey } from '../../src/repos/worldEventRepository.js'
+import { __resetIdempotencyCacheForTests, queueProcessWorldEvent } from '../../src/worldEvents/queueProcessWorldEvent.js'
+import { IntegrationTestFixture } from '../helpers/IntegrationTestFixture.js'
+
+type HistoryBody = { success: boolean; data: LocationHistoryResponse; error?: { code: string } }
+
+describe('World Event Timeline', () => {
+    let fixture: IntegrationTestFixture
+
+    beforeEach(async () => {
+        fixture = new IntegrationTestFixture('memory')
+        await fixture.setup()
+        __resetIdempotencyCacheForTests()
+    })
+
+    afterEach(async () => {
+        await fixture.teardown()
+    })
+
+    const actionIntent = { rawInput: 'take lantern', parsedIntent: { verb: 'take' }, validationResult: { success: true } }
+
+    function takeEvent(playerId: string, locationId: string, occurredUtc: string, causationId?: string): Record<string, unknown> {
+        return {
+            eventId: crypto.randomUUID(),
+            type: 'Player.Take',
+            occurredUtc,
+            actor: { kind: 'player', id: playerId },
+            correlationId: crypto.randomUUID(),
+            ...(causationId ? { causationId } : {}),
+            idempotencyKey: `item-take:${playerId}:lantern:${occurredUtc}`,
+            version: 1,
+            payload: { playerId, locationId, itemId: 'lantern', itemName: 'a brass lantern', actionIntent }
+        }
+    }
+
+    async function process(event: Record<string, unknown>): Promise<void> {
+        await queueProcessWorldEvent(event, (await fixture.createInvocationContext()) as unknown as InvocationContext)
+    }
+
+    async function createLocation(): Promise<string> {
+        const id = crypto.randomUUID()
+        await (await fixture.getLocationRepository()).upsert({ id, name: 'Harbour Steps', description: 'Worn steps down to the water.' })
+        return id
+    }
+
+    async function history(locationId: string, query = ''): Promise<{ status: number; body: HistoryBody }> {
+        const req = { params: { locationId }, query: new URLSearchParams(query), headers: new Headers() } as unknown as HttpRequest
+        const container = await fixture.getContainer()
+        const response = await container.get(LocationHistoryHandler).handle(req, await fixture.createInvocationContext())
+        return { status: response.status ?? 200, body: response.jsonBody as HistoryBody }
+    }
+
+    test('records processed events under location, player and realm scopes', async () => {
+        const locationId = await createLocation()
+        const realms = await fixture.getRealmRepository()
+        await realms.upsert({ id: 'harbour-district', name: 'Harbour District', realmType: 'DISTRICT', scope: 'LOCAL' })
+        await realms.addWithinEdge(locationId, 'harbour-district')
+
+        const playerId = crypto.randomUUID()
+        const causationId = crypto.randomUUID()
+        const event = takeEvent(playerId, locationId, new Date().toISOString(), causationId)
+        await process(event)
+        await process(event)
+
+        const repo = await fixture.getWorldEventRepository()
+        for (const scopeKey of [buildLocationScopeKey(locationId), buildPlayerScopeKey(playerId), buildRealmScopeKey('harbour-district')]) {
+            const { events } = await repo.queryByScope(scopeKey)
+            assert.strictEqual(events.length, 1, `one record under ${scopeKey}`)
+            assert.strictEqual(events[0].id, event.eventId)
+            assert.strictEqual(events[0].status, 'processed')
+            assert.strictEqual(events[0].causationId, causationId)
+            assert.strictEqual(events[0].correlationId, event.correlationId)
+        }
+    })
+
+    test('events rejected by their handler are not recorded', async () => {
+        const locationId = await createLocation()
+        await process({
+            eventId: crypto.randomUUID(),
+            type: 'World.Exit.Create',
+            occurredUtc: new Date().toISOString(),
+            actor: { kind: 'system' },
+            correlationId: crypto.randomUUID(),
+            idempotencyKey: `exit-create:${locationId}:bad`,
+            version: 1,
+            payload: { fromLocationId: locationId }
+        })
+
+        const { events } = await (await fixture.getWorldEventRepository()).queryByScope(buildLocationScopeKey(locationId))
+        assert.strictEqual(events.length, 0)
+    })
+
+    test('history pages through a location newest first', async () => {
+        const locationId = await createLocation()
+        const playerId = crypto.randomUUID()
+        const base = Date.parse('2026-03-01T12:00:00Z')
+        for (let i = 0; i < 3; i++) {
+            await process(takeEvent(playerId, locationId, new Date(base + i * 60_000).toISOString()))
+        }
+
+        const first = await history(locationId, 'limit=2')
+        assert.strictEqual(first.status, 200)
+        assert.deepStrictEqual(
+            first.body.data.events.map((e) => e.occurredUtc),
+            ['2026-03-01T12:02:00.000Z', '2026-03-01T12:01:00.000Z']
+        )
+        assert.strictEqual(first.body.data.events[0].summary, 'Someone took a brass lantern.')
+        assert.strictEqual(first.body.data.events[0].actorKind, 'player')
+        assert.strictEqual(first.body.data.nextBefore, '2026-03-01T12:01:00.000Z')
+
+        const second = await history(locationId, `limit=2&before=${encodeURIComponent(first.body.data.nextBefore ?? '')}`)
+        assert.deepStrictEqual(
+            second.body.data.events.map((e) => e.occurredUtc),
+            ['2026-03-01T12:00:00.000Z']
+        )
+        assert.strictEqual(second.body.data.nextBefore, undefined)
+    })
+
+    test('invalid requests and unknown locations are refused', async () => {
+        const locationId = await createLocation()
+
+        const badId = await history('not-a-guid')
+        assert.strictEqual(badId.status, 400)
+        assert.strictEqual(badId.body.error?.code, 'InvalidLocationId')
+
+        const badLimit = await history(locationId, 'limit=zero')
+        assert.strictEqual(badLimit.status, 400)
+        assert.strictEqual(badLimit.body.error?.code, 'InvalidFormat')
+
+        const badBefore = await history(locationId, 'before=yesterday')
+        assert.strictEqual(badBefore.body.error?.code, 'InvalidFormat')
+
+        const unknown = await history(crypto.randomUUID())
+        assert.strictEqual(unknown.status, 404)
+        assert.strictEqual(unknown.body.error?.code, 'LocationNotFound')
+
+        const empty = await history(locationId)
+        assert.strictEqual(empty.status, 200)
+        assert.deepStrictEqual(empty.body.data.events, [])
+    })
+})
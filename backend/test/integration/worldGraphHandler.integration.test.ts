@@ -11,7 +11,7 @@ import assert from 'node:assert/strict'
 import { after, beforeEach, describe, it } from 'node:test'
 import type { ForbiddenExitMotif } from '@piquet-h/shared'
 import type { PendingExitMetadata } from '../../src/services/frontierContext.js'
-import { WorldGraphHandler } from '../../src/handlers/worldGraph.js'
+import { PlayerWorldGraphHandler, WorldGraphHandler } from '../../src/handlers/worldGraph.js'
 import type { ILocationRepository } from '../../src/repos/locationRepository.js'
 import { IntegrationTestFixture } from '../helpers/IntegrationTestFixture.js'
 import { TestMocks } from '../helpers/TestFixture.js'
@@ -630,4 +630,123 @@ describe('WorldGraphHandler Integration', () => {
         assert.ok(forbiddenNode, 'Forbidden synthetic node for in direction must exist')
         assert.ok(forbiddenNode!.tags?.includes('forbidden:synthetic'), 'Forbidden interior node must carry forbidden:synthetic tag')
     })
+
+    describe('player view (fog of war)', () => {
+        const squareId = '99990000-f0f0-4000-8000-000000000001'
+        const laneId = '99990000-f0f0-4000-8000-000000000002'
+        const cellarId = '99990000-f0f0-4000-8000-000000000003'
+
+        async function requestGraph(
+            headers: Record<string, string> = {},
+            query: Record<string, string> = {},
+            Handler: typeof PlayerWorldGraphHandler | typeof WorldGraphHandler = PlayerWorldGraphHandler
+        ) {
+            const container = await fixture.getContainer()
+            const handler = container.get(Handler)
+            const req = TestMocks.createHttpRequest({
+                method: 'GET',
+                url: 'http://localhost/api/world/graph',
+                query,
+                headers
+            }) as HttpRequest
+            const context = TestMocks.createInvocationContext({ invocationId: 'test-world-graph-fog' }) as unknown as InvocationContext
+            ;(context.extraInputs as unknown as Map<string, unknown>).set('container', container)
+            return handler.handle(req, context)
+        }
+
+        type GraphBody = {
+            data: {
+                nodes: Array<{ id: string; name: string; tags?: string[] }>
+                edges: Array<{ fromId: string; toId: string; direction: string; pending?: boolean }>
+            }
+        }
+
+        /** Square -east-> Lane -down-> Cellar; the square also has a pending north exit. */
+        async function seedVillage(): Promise<void> {
+            await locationRepo.upsert({ id: cellarId, name: 'Hidden Cellar', description: 'Barrels.', exits: [], version: 1 })
+            await locationRepo.upsert({
+                id: laneId,
+                name: 'Lantern Lane',
+                description: 'Lamps.',
+                exits: [{ direction: 'down', to: cellarId }],
+                version: 1
+            })
+            await locationRepo.upsert({
+                id: squareId,
+                name: 'Village Square',
+                description: 'A well.',
+                exits: [{ direction: 'east', to: laneId }],
+                exitAvailability: { pending: { north: 'fields beyond' } },
+                version: 1
+            })
+        }
+
+        it('shows only discovered locations, with unexplored stubs at the edge of what is known', async () => {
+            await seedVillage()
+            const playerRepo = await fixture.getPlayerRepository()
+            const { record } = await playerRepo.getOrCreate(crypto.randomUUID())
+            await playerRepo.update({ ...record, currentLocationId: squareId })
+
+            const response = await requestGraph({ 'x-player-guid': record.id })
+            assert.equal(response.status, 200)
+            const { nodes, edges } = (response.jsonBody as GraphBody).data
+
+            assert.deepEqual(new Set(edges.map((e) => e.fromId)), new Set([squareId]), 'only exits from discovered locations')
+            const east = edges.find((e) => e.direction === 'east')
+            assert.equal(east?.toId, `unexplored:${squareId}:east`)
+            const stub = nodes.find((n) => n.id === east?.toId)
+            assert.deepEqual(stub, { id: east?.toId, name: 'Unexplored', tags: ['unexplored:stub'] }, 'undiscovered neighbour is a stub')
+            assert.ok(!JSON.stringify({ nodes, edges }).includes(laneId), 'stub ids do not reveal the location id')
+            assert.ok(!nodes.some((n) => n.id === cellarId), 'locations beyond the stubs are hidden')
+            assert.ok(!JSON.stringify(nodes).includes('Lantern Lane'), 'stub names are not revealed')
+            const north = edges.find((e) => e.direction === 'north')
+            assert.equal(north?.pending, true, 'pending exits of discovered locations are kept')
+            assert.ok(nodes.some((n) => n.id === north?.toId && n.tags?.includes('pending:synthetic')))
+
+            // Once the lane is in the ledger it is shown in full and the cellar becomes the stub.
+            const discoveries = await fixture.getDiscoveryRepository()
+            const seenUtc = new Date().toISOString()
+            await discoveries.upsertDiscovery({
+                id: `${record.id}:${laneId}`,
+                playerId: record.id,
+                locationId: laneId,
+                locationName: 'Lantern Lane',
+                firstSeenTick: 0,
+                firstSeenUtc: seenUtc,
+                lastSeenUtc: seenUtc,
+                visitCount: 1,
+                lastDescriptionHash: 'hash',
+                lastSource: 'move'
+            })
+            const revealed = ((await requestGraph({ 'x-player-guid': record.id })).jsonBody as GraphBody).data
+            assert.equal(revealed.nodes.find((n) => n.id === laneId)?.name, 'Lantern Lane')
+            assert.equal(revealed.nodes.find((n) => n.id === `unexplored:${laneId}:down`)?.name, 'Unexplored')
+            assert.ok(!revealed.nodes.some((n) => n.id === cellarId))
+        })
+
+        it('never gives a player undiscovered locations, whatever the query asks for', async () => {
+            await seedVillage()
+            const playerRepo = await fixture.getPlayerRepository()
+            const { record } = await playerRepo.getOrCreate(crypto.randomUUID())
+            await playerRepo.update({ ...record, currentLocationId: squareId })
+
+            const response = await requestGraph({ 'x-player-guid': record.id }, { view: 'full' })
+            const { nodes } = (response.jsonBody as GraphBody).data
+            assert.ok(!nodes.some((n) => n.id === laneId || n.id === cellarId), 'undiscovered locations are not returned')
+            assert.ok(!JSON.stringify(nodes).includes('Hidden Cellar'))
+        })
+
+        it('serves the full graph on the operator handler only', async () => {
+            await seedVillage()
+            const response = await requestGraph({}, {}, WorldGraphHandler)
+            const { nodes } = (response.jsonBody as GraphBody).data
+            assert.equal(nodes.find((n) => n.id === cellarId)?.name, 'Hidden Cellar')
+        })
+
+        it('rejects the player view without a valid player', async () => {
+            assert.equal((await requestGraph()).status, 400)
+            assert.equal((await requestGraph({}, { view: 'full' })).status, 400, 'no full graph without a player')
+            assert.equal((await requestGraph({ 'x-player-guid': crypto.randomUUID() })).status, 404)
+        })
+    })
 })
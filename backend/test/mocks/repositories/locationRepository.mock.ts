@@ -1,4 +1,4 @@
-import { Direction, Location, getOppositeDirection, isDirection } from '@piquet-h/shared'
+import { Direction, Location, LockState, getOppositeDirection, isDirection } from '@piquet-h/shared'
 import { injectable } from 'inversify'
 import { generateExitsSummaryCache } from '../../../src/repos/exitRepository.js'
 import { ILocationRepository } from '../../../src/repos/locationRepository.js'
@@ -156,4 +156,13 @@ export class MockLocationRepository implements ILocationRepository {
         exit.travelDurationMs = travelDurationMs
         return { updated: true }
     }
+
+    async setExitLockState(fromId: string, direction: string, lockState: LockState, changedUtc?: string): Promise<{ updated: boolean }> {
+        if (!isDirection(direction)) return { updated: false }
+        const exit = this.mockLocations.get(fromId)?.exits?.find((e) => e.direction === direction)
+        if (!exit) return { updated: false }
+        exit.lockState = lockState
+        if (changedUtc) exit.lockChangedUtc = changedUtc
+        return { updated: true }
+    }
 }
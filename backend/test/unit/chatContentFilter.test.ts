@@ -0,0 +1,33 @@
+import { strict as assert } from 'node:assert'
+import { afterEach, describe, test } from 'node:test'
+import { CHAT_MAX_LENGTH, filterChatMessage } from '../../src/services/chatContentFilter.js'
+
+describe('filterChatMessage', () => {
+    afterEach(() => {
+        delete process.env.CHAT_BLOCKED_TERMS
+    })
+
+    test('normalises whitespace and strips control characters', () => {
+        assert.deepEqual(filterChatMessage('  well\tmet,\n\u0007 traveller  '), {
+            allowed: true,
+            text: 'well met, traveller',
+            filtered: false
+        })
+    })
+
+    test('masks blocked terms as whole words, any case, keeping their length', () => {
+        assert.deepEqual(filterChatMessage('What the SHIT is this'), { allowed: true, text: 'What the **** is this', filtered: true })
+        assert.deepEqual(filterChatMessage('Scunthorpe is lovely'), { allowed: true, text: 'Scunthorpe is lovely', filtered: false })
+    })
+
+    test('CHAT_BLOCKED_TERMS extends the list', () => {
+        process.env.CHAT_BLOCKED_TERMS = 'grognak, zounds'
+        assert.deepEqual(filterChatMessage('Zounds, it is Grognak!'), { allowed: true, text: '******, it is *******!', filtered: true })
+    })
+
+    test('refuses empty and over-long messages', () => {
+        assert.deepEqual(filterChatMessage(' \n '), { allowed: false, reason: 'empty' })
+        assert.deepEqual(filterChatMessage('a'.repeat(CHAT_MAX_LENGTH + 1)), { allowed: false, reason: 'too-long' })
+        assert.equal(filterChatMessage('a'.repeat(CHAT_MAX_LENGTH)).allowed, true)
+    })
+})
@@ -142,6 +142,39 @@ describe('Dead-Letter Repository', () => {
         })
     })
 
+    describe('queryByFilter', () => {
+        test('should filter by event type and error code within the time range', async () => {
+            const baseTime = new Date('2025-10-31T12:00:00Z')
+            const stamp = (offsetMs: number) => new Date(baseTime.getTime() + offsetMs).toISOString()
+
+            const moveSchema = createDeadLetterRecord({ type: 'Player.Move' }, { category: 'schema-validation', message: 'Error 1' })
+            moveSchema.deadLetteredUtc = stamp(1000)
+            const moveHandler = createDeadLetterRecord({ type: 'Player.Move' }, { category: 'handler-error', message: 'Error 2' })
+            moveHandler.deadLetteredUtc = stamp(2000)
+            const tickSchema = createDeadLetterRecord({ type: 'NPC.Tick' }, { category: 'schema-validation', message: 'Error 3' })
+            tickSchema.deadLetteredUtc = stamp(3000)
+            const lateMove = createDeadLetterRecord({ type: 'Player.Move' }, { category: 'schema-validation', message: 'Error 4' })
+            lateMove.deadLetteredUtc = stamp(60_000)
+
+            for (const record of [moveSchema, moveHandler, tickSchema, lateMove]) await repo.store(record)
+
+            const window = { startUtc: baseTime.toISOString(), endUtc: stamp(10_000) }
+            assert.deepStrictEqual(
+                (await repo.queryByFilter({ ...window, eventType: 'Player.Move' })).map((r) => r.id),
+                [moveHandler.id, moveSchema.id]
+            )
+            assert.deepStrictEqual(
+                (await repo.queryByFilter({ ...window, errorCode: 'schema-validation' })).map((r) => r.id),
+                [tickSchema.id, moveSchema.id]
+            )
+            assert.deepStrictEqual(
+                (await repo.queryByFilter({ ...window, eventType: 'Player.Move', errorCode: 'schema-validation' })).map((r) => r.id),
+                [moveSchema.id]
+            )
+            assert.strictEqual((await repo.queryByFilter({ ...window, maxResults: 1 })).length, 1)
+        })
+    })
+
     describe('getById', () => {
         test('should retrieve record by ID', async () => {
             const record = createDeadLetterRecord({ eventId: 'test-1' }, { category: 'test', message: 'Error' })
@@ -159,4 +192,27 @@ describe('Dead-Letter Repository', () => {
             assert.strictEqual(retrieved, null)
         })
     })
+
+    describe('getRedriveEnvelope', () => {
+        test('should keep the envelope apart from the redacted record', async () => {
+            const envelope = { eventId: 'test-1', actor: { kind: 'player', id: '12345678-1234-4234-8234-123456789012' } }
+            const record = createDeadLetterRecord(envelope, { category: 'test', message: 'Error' })
+
+            await repo.store(record, envelope)
+
+            assert.deepStrictEqual(await repo.getRedriveEnvelope(record.id), envelope)
+            const retrieved = await repo.getById(record.id)
+            assert.ok(retrieved)
+            assert.strictEqual(retrieved.redacted, true)
+            assert.ok(!JSON.stringify(retrieved).includes('12345678-1234-4234-8234-123456789012'))
+        })
+
+        test('should return null when no envelope was kept', async () => {
+            const record = createDeadLetterRecord({ eventId: 'test-1' }, { category: 'test', message: 'Error' })
+
+            await repo.store(record)
+
+            assert.strictEqual(await repo.getRedriveEnvelope(record.id), null)
+        })
+    })
 })
@@ -0,0 +1,60 @@
+import type { LiveLocationEvent } from '@piquet-h/shared'
+import { strict as assert } from 'node:assert'
+import { describe, test } from 'node:test'
+import { InMemoryLocationEventBroker } from '../../src/services/locationEventBroker.js'
+
+const HERE = '00000000-0000-4000-8000-000000000101'
+const ELSEWHERE = '00000000-0000-4000-8000-000000000102'
+
+function makeEvent(overrides?: Partial<LiveLocationEvent>): LiveLocationEvent {
+    return {
+        id: '00000000-0000-4000-8000-000000000110',
+        kind: 'player.arrived',
+        locationId: HERE,
+        occurredUtc: '2026-02-25T00:00:00.000Z',
+        text: 'Ada arrives.',
+        actorName: 'Ada',
+        ...overrides
+    }
+}
+
+describe('InMemoryLocationEventBroker', () => {
+    test('delivers events only to subscribers of the event location, with the actor alongside', () => {
+        const broker = new InMemoryLocationEventBroker()
+        const here: Array<[string, string | undefined]> = []
+        const elsewhere: string[] = []
+        broker.subscribe(HERE, (event, { actorPlayerId }) => here.push([event.text, actorPlayerId]))
+        broker.subscribe(ELSEWHERE, (event) => elsewhere.push(event.text))
+
+        const delivered = broker.publish(makeEvent(), { actorPlayerId: 'actor-1' })
+
+        assert.equal(delivered, 1)
+        assert.deepEqual(here, [['Ada arrives.', 'actor-1']])
+        assert.deepEqual(elsewhere, [])
+    })
+
+    test('unsubscribe stops delivery and releases the location', () => {
+        const broker = new InMemoryLocationEventBroker()
+        const received: string[] = []
+        const unsubscribe = broker.subscribe(HERE, (event) => received.push(event.id))
+        assert.equal(broker.subscriberCount(HERE), 1)
+
+        unsubscribe()
+
+        assert.equal(broker.publish(makeEvent()), 0)
+        assert.deepEqual(received, [])
+        assert.equal(broker.subscriberCount(HERE), 0)
+    })
+
+    test('a throwing listener does not stop delivery to the others', () => {
+        const broker = new InMemoryLocationEventBroker()
+        const received: string[] = []
+        broker.subscribe(HERE, () => {
+            throw new Error('stream closed')
+        })
+        broker.subscribe(HERE, (event) => received.push(event.text))
+
+        assert.doesNotThrow(() => broker.publish(makeEvent({ text: 'A way north opens up.', kind: 'exit.materialized' })))
+        assert.deepEqual(received, ['A way north opens up.'])
+    })
+})
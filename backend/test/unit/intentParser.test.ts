@@ -3,7 +3,7 @@
  *
  * Covers:
  * - extractVerbs / detectSequence / extractNouns helpers
- * - parseCommand handler (happy paths + edge cases)
+ * - parseCommand handler (happy paths + edge cases, missing direction / target flagged for clarification)
  * - Telemetry emission
  */
 
@@ -12,7 +12,13 @@ import { strict as assert } from 'node:assert'
 import { describe, it } from 'node:test'
 import sinon from 'sinon'
 import type { ITelemetryClient } from '../../src/telemetry/ITelemetryClient.js'
-import { detectSequence, extractNouns, extractVerbs, IntentParserHandler } from '../../src/handlers/mcp/intent-parser/intent-parser.js'
+import {
+    detectSequence,
+    extractNouns,
+    extractVerbs,
+    IntentParserHandler,
+    splitSequentialSegments
+} from '../../src/handlers/mcp/intent-parser/intent-parser.js'
 
 // ---------------------------------------------------------------------------
 // Minimal fake InvocationContext
@@ -90,6 +96,23 @@ describe('extractVerbs', () => {
 
 // ---------------------------------------------------------------------------
 // detectSequence
+
+// ---------------------------------------------------------------------------
+// splitSequentialSegments
+// ---------------------------------------------------------------------------
+describe('splitSequentialSegments', () => {
+    it('splits on every sequential connector and trims punctuation', () => {
+        assert.deepEqual(splitSequentialSegments('go north then look, and then take lamp'), ['go north', 'look', 'take lamp'])
+    })
+
+    it('drops empty segments from leading connectors', () => {
+        assert.deepEqual(splitSequentialSegments('then look'), ['look'])
+    })
+
+    it('does not split inside words', () => {
+        assert.deepEqual(splitSequentialSegments('look at the island'), ['look at the island'])
+    })
+})
 // ---------------------------------------------------------------------------
 describe('detectSequence', () => {
     it('detects "and then" as sequential', () => {
@@ -188,6 +211,116 @@ describe('IntentParserHandler.parseCommand', () => {
         assert.equal(parsed.intents[1].order, 1)
     })
 
+    it('gives each sequential step only its own nouns', async () => {
+        const handler = makeHandler()
+        const result = await handler.parseCommand({ arguments: { text: 'go north then go east and then take the lamp' } }, makeContext())
+        const parsed = JSON.parse(result)
+
+        assert.deepEqual(
+            parsed.intents.map((i: { verb: string; order: number; direction?: string; surfaceTargetName?: string }) => [
+                i.verb,
+                i.order,
+                i.direction ?? i.surfaceTargetName
+            ]),
+            [
+                ['move', 0, 'north'],
+                ['move', 1, 'east'],
+                ['take', 2, 'lamp']
+            ]
+        )
+    })
+
+    it('parses drop command with item target', async () => {
+        const handler = makeHandler()
+        const result = await handler.parseCommand({ arguments: { text: 'drop the lantern' } }, makeContext())
+        const parsed = JSON.parse(result)
+
+        assert.equal(parsed.intents.length, 1)
+        assert.equal(parsed.intents[0].verb, 'drop')
+        assert.equal(parsed.intents[0].surfaceTargetName, 'lantern')
+    })
+
+    it('parses "pick up" as take, ignoring the direction word', async () => {
+        const handler = makeHandler()
+        const result = await handler.parseCommand({ arguments: { text: 'pick up lamp' } }, makeContext())
+        const parsed = JSON.parse(result)
+
+        assert.equal(parsed.intents[0].verb, 'take')
+        assert.equal(parsed.intents[0].surfaceTargetName, 'lamp')
+        assert.equal(parsed.intents[0].direction, undefined)
+    })
+
+    it('parses "talk to" as communicate with the NPC as target', async () => {
+        const handler = makeHandler()
+        const result = await handler.parseCommand({ arguments: { text: 'talk to the ferryman' } }, makeContext())
+        const parsed = JSON.parse(result)
+
+        assert.equal(parsed.intents[0].verb, 'communicate')
+        assert.equal(parsed.intents[0].surfaceTargetName, 'ferryman')
+    })
+
+    it('parses "unlock the north door" as unlock with the exit direction', async () => {
+        const handler = makeHandler()
+        const result = await handler.parseCommand({ arguments: { text: 'unlock the north door' } }, makeContext())
+        const parsed = JSON.parse(result)
+
+        assert.equal(parsed.intents.length, 1)
+        assert.equal(parsed.intents[0].verb, 'unlock')
+        assert.equal(parsed.intents[0].direction, 'north')
+    })
+
+    it('parses "flee north" as flee through the named exit', async () => {
+        const handler = makeHandler()
+        const result = await handler.parseCommand({ arguments: { text: 'flee north' } }, makeContext())
+        const parsed = JSON.parse(result)
+
+        assert.equal(parsed.intents.length, 1)
+        assert.equal(parsed.intents[0].verb, 'flee')
+        assert.equal(parsed.intents[0].direction, 'north')
+    })
+
+    it('parses "wait half an hour" as wait with a duration and no target', async () => {
+        const handler = makeHandler()
+        const result = await handler.parseCommand({ arguments: { text: 'wait half an hour' } }, makeContext())
+        const parsed = JSON.parse(result)
+
+        assert.equal(parsed.intents.length, 1)
+        assert.equal(parsed.intents[0].verb, 'wait')
+        assert.equal(parsed.intents[0].durationMs, 1_800_000)
+        assert.equal(parsed.intents[0].surfaceTargetName, undefined)
+        assert.equal(parsed.ambiguities, undefined, 'duration words are not flagged as entities')
+        assert.equal(parsed.needsClarification, false)
+    })
+
+    it('parses bare "sleep" without a duration', async () => {
+        const handler = makeHandler()
+        const result = await handler.parseCommand({ arguments: { text: 'sleep' } }, makeContext())
+        const parsed = JSON.parse(result)
+
+        assert.equal(parsed.intents[0].verb, 'sleep')
+        assert.equal(parsed.intents[0].durationMs, undefined)
+    })
+
+    it('parses "travel to the rest house" as travel with the whole place name as target', async () => {
+        const handler = makeHandler()
+        const result = await handler.parseCommand({ arguments: { text: 'travel to the rest house' } }, makeContext())
+        const parsed = JSON.parse(result)
+
+        assert.equal(parsed.intents.length, 1, 'verb words inside the place name are not separate intents')
+        assert.equal(parsed.intents[0].verb, 'travel')
+        assert.equal(parsed.intents[0].surfaceTargetName, 'rest house')
+    })
+
+    it('flags bare "travel to" as missing its destination', async () => {
+        const handler = makeHandler()
+        const result = await handler.parseCommand({ arguments: { text: 'travel to' } }, makeContext())
+        const parsed = JSON.parse(result)
+
+        assert.equal(parsed.intents[0].verb, 'travel')
+        assert.equal(parsed.intents[0].surfaceTargetName, undefined)
+        assert.equal(parsed.needsClarification, true)
+    })
+
     it('parses move with direction', async () => {
         const handler = makeHandler()
         const result = await handler.parseCommand({ arguments: { text: 'go north' } }, makeContext())
@@ -230,6 +363,21 @@ describe('IntentParserHandler.parseCommand', () => {
         assert.equal(parsed.needsClarification, false)
     })
 
+    it('flags a verb missing its direction or target as a critical missing_required ambiguity', async () => {
+        const handler = makeHandler()
+        for (const text of ['go', 'unlock', 'take', 'talk']) {
+            const parsed = JSON.parse(await handler.parseCommand({ arguments: { text } }, makeContext()))
+            assert.equal(parsed.needsClarification, true, text)
+            const missing = parsed.ambiguities.find((a: { issueType: string }) => a.issueType === 'missing_required')
+            assert.ok(missing, `${text} should flag missing_required`)
+            assert.equal(missing.spanText, text)
+            assert.equal(missing.critical, true)
+        }
+
+        const complete = JSON.parse(await handler.parseCommand({ arguments: { text: 'go north' } }, makeContext()))
+        assert.equal(complete.needsClarification, false)
+    })
+
     it('flags noun targets as unknown_entity ambiguities', async () => {
         const handler = makeHandler()
         const result = await handler.parseCommand({ arguments: { text: 'throw a rock at the seagull' } }, makeContext())
@@ -8,6 +8,13 @@
  * - Overlong input (>500 chars) → 400 with correlationId
  * - Ambiguous direction ("go" without direction → Unknown)
  * - Unknown verb → Unknown
+ * - Take/Drop with item name ("take the lantern" → Take, "drop lantern" → Drop)
+ * - Talk with NPC name ("talk to tomas" → Talk)
+ * - Lock/Unlock with direction ("unlock north" → Unlock)
+ * - Combat ("attack the goblin" → Attack, "defend" → Defend, "flee north" → Flee)
+ * - Passing time ("wait 10 minutes" → Wait with durationMs, "rest" → Rest, "sleep" → Sleep)
+ * - Travel ("travel to the harbour steps" → Travel with destination; bare "travel" → Unknown)
+ * - Multi-intent chains ("go north then look" → steps[] in order; single intents omit steps)
  * - Response envelope fields (presentationMode, responseTempo, parsedIntent)
  * - Telemetry: PlayerCommand.Resolved emitted
  */
@@ -291,10 +298,356 @@ describe('ResolvePlayerCommandHandler – unknown verb', () => {
     })
 })
 
+// ---------------------------------------------------------------------------
+// Take / Drop
+// ---------------------------------------------------------------------------
+
+describe('ResolvePlayerCommandHandler – take/drop', () => {
+    test('returns Take with itemName for "take the lantern"', async () => {
+        const fixture = new UnitTestFixture()
+        const container = await fixture.getContainer()
+        const handler = container.get(ResolvePlayerCommandHandler)
+
+        const req = createMockRequest({ playerId: 'player-1', inputText: 'take the lantern' })
+        const response = await handler.handle(req, createMockContext(container))
+
+        assert.strictEqual(response.status, 200)
+        const body = response.jsonBody as {
+            data: {
+                actionKind: string
+                itemName?: string
+                canonicalWritesPlanned: boolean
+                actionIntent: { parsedIntent: { targets?: Array<{ kind: string; surfaceText?: string }> } }
+            }
+        }
+        assert.strictEqual(body.data.actionKind, 'Take')
+        assert.strictEqual(body.data.itemName, 'lantern')
+        assert.strictEqual(body.data.canonicalWritesPlanned, true)
+        assert.deepStrictEqual(body.data.actionIntent.parsedIntent.targets, [{ kind: 'item', surfaceText: 'lantern' }])
+    })
+
+    test('"pick up lamp" resolves the item rather than the direction word', async () => {
+        const fixture = new UnitTestFixture()
+        const container = await fixture.getContainer()
+        const handler = container.get(ResolvePlayerCommandHandler)
+
+        const req = createMockRequest({ playerId: 'player-1', inputText: 'pick up the lamp' })
+        const response = await handler.handle(req, createMockContext(container))
+
+        const body = response.jsonBody as { data: { actionKind: string; itemName?: string } }
+        assert.strictEqual(body.data.actionKind, 'Take')
+        assert.strictEqual(body.data.itemName, 'lamp')
+    })
+
+    test('returns Drop with itemName for "drop lantern"', async () => {
+        const fixture = new UnitTestFixture()
+        const container = await fixture.getContainer()
+        const handler = container.get(ResolvePlayerCommandHandler)
+
+        const req = createMockRequest({ playerId: 'player-1', inputText: 'drop lantern' })
+        const response = await handler.handle(req, createMockContext(container))
+
+        const body = response.jsonBody as { data: { actionKind: string; itemName?: string; canonicalWritesPlanned: boolean } }
+        assert.strictEqual(body.data.actionKind, 'Drop')
+        assert.strictEqual(body.data.itemName, 'lantern')
+        assert.strictEqual(body.data.canonicalWritesPlanned, true)
+    })
+
+    test('returns Unknown when take has no item', async () => {
+        const fixture = new UnitTestFixture()
+        const container = await fixture.getContainer()
+        const handler = container.get(ResolvePlayerCommandHandler)
+
+        const req = createMockRequest({ playerId: 'player-1', inputText: 'take' })
+        const response = await handler.handle(req, createMockContext(container))
+
+        const body = response.jsonBody as {
+            data: { actionKind: string; itemName?: string; actionIntent: { validationResult: { success: boolean; errors?: string[] } } }
+        }
+        assert.strictEqual(body.data.actionKind, 'Unknown')
+        assert.strictEqual(body.data.itemName, undefined)
+        assert.strictEqual(body.data.actionIntent.validationResult.success, false)
+        assert.deepStrictEqual(body.data.actionIntent.validationResult.errors, ['Item could not be determined from the input'])
+    })
+})
+
+// ---------------------------------------------------------------------------
+// Talk
+// ---------------------------------------------------------------------------
+
+describe('ResolvePlayerCommandHandler – talk', () => {
+    test('returns Talk with npcName for "talk to tomas"', async () => {
+        const fixture = new UnitTestFixture()
+        const container = await fixture.getContainer()
+        const handler = container.get(ResolvePlayerCommandHandler)
+
+        const req = createMockRequest({ playerId: 'player-1', inputText: 'talk to tomas' })
+        const response = await handler.handle(req, createMockContext(container))
+
+        assert.strictEqual(response.status, 200)
+        const body = response.jsonBody as {
+            data: {
+                actionKind: string
+                npcName?: string
+                canonicalWritesPlanned: boolean
+                actionIntent: { parsedIntent: { targets?: Array<{ kind: string; surfaceText?: string }> } }
+            }
+        }
+        assert.strictEqual(body.data.actionKind, 'Talk')
+        assert.strictEqual(body.data.npcName, 'tomas')
+        assert.strictEqual(body.data.canonicalWritesPlanned, true)
+        assert.deepStrictEqual(body.data.actionIntent.parsedIntent.targets, [{ kind: 'npc', surfaceText: 'tomas' }])
+    })
+
+    test('returns Unknown when talk has no NPC', async () => {
+        const fixture = new UnitTestFixture()
+        const container = await fixture.getContainer()
+        const handler = container.get(ResolvePlayerCommandHandler)
+
+        const req = createMockRequest({ playerId: 'player-1', inputText: 'talk' })
+        const response = await handler.handle(req, createMockContext(container))
+
+        const body = response.jsonBody as {
+            data: { actionKind: string; actionIntent: { validationResult: { success: boolean; errors?: string[] } } }
+        }
+        assert.strictEqual(body.data.actionKind, 'Unknown')
+        assert.deepStrictEqual(body.data.actionIntent.validationResult.errors, ['NPC could not be determined from the input'])
+    })
+})
+
+// ---------------------------------------------------------------------------
+// Lock / Unlock
+// ---------------------------------------------------------------------------
+
+describe('ResolvePlayerCommandHandler – lock/unlock', () => {
+    test('returns Unlock with direction for "unlock north"', async () => {
+        const fixture = new UnitTestFixture()
+        const container = await fixture.getContainer()
+        const handler = container.get(ResolvePlayerCommandHandler)
+
+        const req = createMockRequest({ playerId: 'player-1', inputText: 'unlock north' })
+        const response = await handler.handle(req, createMockContext(container))
+
+        assert.strictEqual(response.status, 200)
+        const body = response.jsonBody as {
+            data: {
+                actionKind: string
+                direction?: string
+                canonicalWritesPlanned: boolean
+                actionIntent: { parsedIntent: { verb: string; targets?: Array<{ kind: string; canonicalDirection?: string }> } }
+            }
+        }
+        assert.strictEqual(body.data.actionKind, 'Unlock')
+        assert.strictEqual(body.data.direction, 'north')
+        assert.strictEqual(body.data.canonicalWritesPlanned, true)
+        assert.strictEqual(body.data.actionIntent.parsedIntent.verb, 'unlock')
+        assert.deepStrictEqual(body.data.actionIntent.parsedIntent.targets, [{ kind: 'direction', canonicalDirection: 'north' }])
+    })
+
+    test('returns Lock for "lock the west gate"', async () => {
+        const fixture = new UnitTestFixture()
+        const container = await fixture.getContainer()
+        const handler = container.get(ResolvePlayerCommandHandler)
+
+        const req = createMockRequest({ playerId: 'player-1', inputText: 'lock the west gate' })
+        const response = await handler.handle(req, createMockContext(container))
+
+        const body = response.jsonBody as { data: { actionKind: string; direction?: string } }
+        assert.strictEqual(body.data.actionKind, 'Lock')
+        assert.strictEqual(body.data.direction, 'west')
+    })
+
+    test('returns Unknown when lock has no direction', async () => {
+        const fixture = new UnitTestFixture()
+        const container = await fixture.getContainer()
+        const handler = container.get(ResolvePlayerCommandHandler)
+
+        const req = createMockRequest({ playerId: 'player-1', inputText: 'lock' })
+        const response = await handler.handle(req, createMockContext(container))
+
+        const body = response.jsonBody as {
+            data: { actionKind: string; actionIntent: { validationResult: { success: boolean; errors?: string[] } } }
+        }
+        assert.strictEqual(body.data.actionKind, 'Unknown')
+        assert.deepStrictEqual(body.data.actionIntent.validationResult.errors, ['Direction could not be determined from the input'])
+    })
+})
+
+// ---------------------------------------------------------------------------
+// Combat
+// ---------------------------------------------------------------------------
+
+describe('ResolvePlayerCommandHandler – combat', () => {
+    async function resolve(inputText: string) {
+        const fixture = new UnitTestFixture()
+        const container = await fixture.getContainer()
+        const handler = container.get(ResolvePlayerCommandHandler)
+        const response = await handler.handle(createMockRequest({ playerId: 'player-1', inputText }), createMockContext(container))
+        return (
+            response.jsonBody as {
+                data: {
+                    actionKind: string
+                    npcName?: string
+                    direction?: string
+                    canonicalWritesPlanned: boolean
+                    actionIntent: { parsedIntent: { verb: string; targets?: Array<Record<string, string>> } }
+                }
+            }
+        ).data
+    }
+
+    test('returns Attack with npcName for "attack the goblin"', async () => {
+        const data = await resolve('attack the goblin')
+
+        assert.strictEqual(data.actionKind, 'Attack')
+        assert.strictEqual(data.npcName, 'goblin')
+        assert.strictEqual(data.canonicalWritesPlanned, true)
+        assert.deepStrictEqual(data.actionIntent.parsedIntent.targets, [{ kind: 'npc', surfaceText: 'goblin' }])
+    })
+
+    test('bare "attack" still resolves to Attack (continues the current fight)', async () => {
+        const data = await resolve('attack')
+
+        assert.strictEqual(data.actionKind, 'Attack')
+        assert.strictEqual(data.npcName, undefined)
+    })
+
+    test('returns Defend for "parry"', async () => {
+        const data = await resolve('parry')
+
+        assert.strictEqual(data.actionKind, 'Defend')
+        assert.strictEqual(data.canonicalWritesPlanned, true)
+    })
+
+    test('returns Flee with direction for "flee north"', async () => {
+        const data = await resolve('flee north')
+
+        assert.strictEqual(data.actionKind, 'Flee')
+        assert.strictEqual(data.direction, 'north')
+        assert.deepStrictEqual(data.actionIntent.parsedIntent.targets, [{ kind: 'direction', canonicalDirection: 'north' }])
+    })
+})
+
+describe('ResolvePlayerCommandHandler – passing time', () => {
+    async function resolve(inputText: string) {
+        const fixture = new UnitTestFixture()
+        const container = await fixture.getContainer()
+        const handler = container.get(ResolvePlayerCommandHandler)
+        const response = await handler.handle(createMockRequest({ playerId: 'player-1', inputText }), createMockContext(container))
+        return (
+            response.jsonBody as {
+                data: {
+                    actionKind: string
+                    durationMs?: number
+                    canonicalWritesPlanned: boolean
+                    actionIntent: { validationResult: { success: boolean } }
+                }
+            }
+        ).data
+    }
+
+    test('returns Wait with durationMs for "wait 10 minutes"', async () => {
+        const data = await resolve('wait 10 minutes')
+
+        assert.strictEqual(data.actionKind, 'Wait')
+        assert.strictEqual(data.durationMs, 600_000)
+        assert.strictEqual(data.canonicalWritesPlanned, true)
+        assert.strictEqual(data.actionIntent.validationResult.success, true)
+    })
+
+    test('returns Rest and Sleep without a duration for the bare verbs', async () => {
+        const rest = await resolve('rest')
+        assert.strictEqual(rest.actionKind, 'Rest')
+        assert.strictEqual(rest.durationMs, undefined)
+
+        const sleep = await resolve('sleep')
+        assert.strictEqual(sleep.actionKind, 'Sleep')
+    })
+})
+
+describe('ResolvePlayerCommandHandler – travel', () => {
+    async function resolve(inputText: string) {
+        const fixture = new UnitTestFixture()
+        const container = await fixture.getContainer()
+        const handler = container.get(ResolvePlayerCommandHandler)
+        const response = await handler.handle(createMockRequest({ playerId: 'player-1', inputText }), createMockContext(container))
+        return (
+            response.jsonBody as {
+                data: {
+                    actionKind: string
+                    destination?: string
+                    canonicalWritesPlanned: boolean
+                    actionIntent: { parsedIntent: { targets?: Array<Record<string, string>> } }
+                }
+            }
+        ).data
+    }
+
+    test('returns Travel with destination for "travel to the harbour steps"', async () => {
+        const data = await resolve('travel to the harbour steps')
+
+        assert.strictEqual(data.actionKind, 'Travel')
+        assert.strictEqual(data.destination, 'harbour steps')
+        assert.strictEqual(data.canonicalWritesPlanned, true)
+        assert.deepStrictEqual(data.actionIntent.parsedIntent.targets, [{ kind: 'location', surfaceText: 'harbour steps' }])
+    })
+
+    test('returns Unknown when travel has no destination', async () => {
+        const data = await resolve('travel')
+
+        assert.strictEqual(data.actionKind, 'Unknown')
+        assert.strictEqual(data.destination, undefined)
+    })
+})
+
 // ---------------------------------------------------------------------------
 // Response envelope shape
 // ---------------------------------------------------------------------------
 
+describe('ResolvePlayerCommandHandler – command chains', () => {
+    test('plans every step of "go north then take lamp then look" in order', async () => {
+        const fixture = new UnitTestFixture()
+        const container = await fixture.getContainer()
+        const handler = container.get(ResolvePlayerCommandHandler)
+
+        const req = createMockRequest({ playerId: 'player-1', inputText: 'go north then take lamp then look' })
+        const response = await handler.handle(req, createMockContext(container))
+
+        assert.strictEqual(response.status, 200)
+        const body = response.jsonBody as {
+            data: {
+                actionKind: string
+                direction?: string
+                steps?: Array<{ order: number; actionKind: string; direction?: string; itemName?: string }>
+            }
+        }
+        assert.strictEqual(body.data.actionKind, 'Move', 'top-level fields describe the first step')
+        assert.strictEqual(body.data.direction, 'north')
+        assert.deepStrictEqual(
+            body.data.steps?.map(({ order, actionKind, direction, itemName }) => ({ order, actionKind, direction, itemName })),
+            [
+                { order: 0, actionKind: 'Move', direction: 'north', itemName: undefined },
+                { order: 1, actionKind: 'Take', direction: undefined, itemName: 'lamp' },
+                { order: 2, actionKind: 'Look', direction: undefined, itemName: undefined }
+            ]
+        )
+    })
+
+    test('single-intent commands omit steps', async () => {
+        const fixture = new UnitTestFixture()
+        const container = await fixture.getContainer()
+        const handler = container.get(ResolvePlayerCommandHandler)
+
+        const response = await handler.handle(
+            createMockRequest({ playerId: 'player-1', inputText: 'go north' }),
+            createMockContext(container)
+        )
+
+        const body = response.jsonBody as { data: { steps?: unknown[] } }
+        assert.strictEqual(body.data.steps, undefined)
+    })
+})
+
 describe('ResolvePlayerCommandHandler – response envelope', () => {
     test('response includes presentationMode and responseTempo set to Auto', async () => {
         const fixture = new UnitTestFixture()
@@ -63,6 +63,10 @@ class TestLocationRepository implements ILocationRepository {
     async setExitTravelDuration(): Promise<{ updated: boolean }> {
         return { updated: true }
     }
+
+    async setExitLockState(): Promise<{ updated: boolean }> {
+        return { updated: true }
+    }
 }
 
 test('seedWorld: auto-applies macro atlas tags to known local anchor names', async () => {
@@ -65,6 +65,10 @@ class TestLocationRepository implements ILocationRepository {
         this.travelDurations.set(`${fromId}:${direction}`, travelDurationMs)
         return { updated: true }
     }
+
+    async setExitLockState(): Promise<{ updated: boolean }> {
+        return { updated: true }
+    }
 }
 
 test('seedWorld: persists travelDurationMs for exits when provided in blueprint', async () => {
@@ -34,7 +34,9 @@ describe('WorldContextHandler', () => {
             { getCurrentTick: sinon.stub().resolves(0) } as unknown as any,
             { listPlayersAtLocation: sinon.stub().resolves([]) } as unknown as any,
             { listItems: sinon.stub().resolves([]) } as unknown as any,
-            { queryByScope: sinon.stub().resolves({ events: [], ruCharge: 0, latencyMs: 0, hasMore: false }) } as unknown as any
+            { queryByScope: sinon.stub().resolves({ events: [], ruCharge: 0, latencyMs: 0, hasMore: false }) } as unknown as any,
+            { listNpcsAtLocation: sinon.stub().resolves([]) } as unknown as any,
+            { listForPlayer: sinon.stub().resolves([]), countForPlayer: sinon.stub().resolves(0) } as unknown as any
         )
         const ctx = makeContext()
         const result = await handler.health({ arguments: {} }, ctx)
@@ -53,6 +55,13 @@ describe('WorldContextHandler', () => {
         const playerDocRepo = { listPlayersAtLocation: sinon.stub().resolves([]) }
         const inventoryRepo = { listItems: sinon.stub().resolves([]) }
         const worldEventRepo = { queryByScope: sinon.stub().resolves({ events: [], ruCharge: 0, latencyMs: 0, hasMore: false }) }
+        const npcRepo = {
+            listNpcsAtLocation: sinon
+                .stub()
+                .resolves([
+                    { id: 'npc-1', name: 'Old Tomas', locationId: STARTER_LOCATION_ID, disposition: 'friendly', tags: ['role:ferryman'] }
+                ])
+        }
 
         locationRepo.get.resolves({ id: STARTER_LOCATION_ID, name: 'Starter', description: 'A place', exits: [] })
         exitRepo.getExits.resolves([{ direction: 'north', to: 'loc-2' }])
@@ -78,7 +87,9 @@ describe('WorldContextHandler', () => {
             worldClock as unknown as any,
             playerDocRepo as unknown as any,
             inventoryRepo as unknown as any,
-            worldEventRepo as unknown as any
+            worldEventRepo as unknown as any,
+            npcRepo as unknown as any,
+            { listForPlayer: sinon.stub().resolves([]), countForPlayer: sinon.stub().resolves(0) } as unknown as any
         )
 
         const ctx = makeContext()
@@ -101,10 +112,11 @@ describe('WorldContextHandler', () => {
         assert.ok(typeof parsed.ambient.valuePreview === 'string')
 
         assert.ok(Array.isArray(parsed.nearbyPlayers))
+        assert.deepEqual(parsed.npcs, [{ id: 'npc-1', name: 'Old Tomas', disposition: 'friendly', tags: ['role:ferryman'] }])
         assert.ok(Array.isArray(parsed.recentEvents))
     })
 
-    it('getPlayerContext returns player, inventory, and recent events', async () => {
+    it('getPlayerContext returns player, inventory, recent events and discoveries', async () => {
         const playerId = 'player-1'
         const locationId = STARTER_LOCATION_ID
 
@@ -126,6 +138,24 @@ describe('WorldContextHandler', () => {
             queryByScope: sinon.stub().resolves({ events: [{ id: 'e1' }], ruCharge: 1, latencyMs: 1, hasMore: false })
         }
 
+        const discoveryRepo = {
+            listForPlayer: sinon.stub().resolves([
+                {
+                    id: `${playerId}:${locationId}`,
+                    playerId,
+                    locationId,
+                    locationName: 'Starter',
+                    firstSeenTick: 1000,
+                    firstSeenUtc: 'then',
+                    lastSeenUtc: 'now',
+                    visitCount: 3,
+                    lastDescriptionHash: 'abc',
+                    lastSource: 'look'
+                }
+            ]),
+            countForPlayer: sinon.stub().resolves(4)
+        }
+
         const handler = new WorldContextHandler(
             locationRepo as unknown as any,
             exitRepo as unknown as any,
@@ -134,7 +164,9 @@ describe('WorldContextHandler', () => {
             worldClock as unknown as any,
             playerDocRepo as unknown as any,
             inventoryRepo as unknown as any,
-            worldEventRepo as unknown as any
+            worldEventRepo as unknown as any,
+            { listNpcsAtLocation: sinon.stub().resolves([]) } as unknown as any,
+            discoveryRepo as unknown as any
         )
 
         const ctx = makeContext()
@@ -147,6 +179,10 @@ describe('WorldContextHandler', () => {
         assert.equal(parsed.inventory.length, 1)
         assert.ok(Array.isArray(parsed.recentEvents))
         assert.equal(parsed.recentEvents.length, 1)
+        assert.deepEqual(parsed.discoveries, {
+            total: 4,
+            recent: [{ locationId, locationName: 'Starter', firstSeenTick: 1000, lastSeenUtc: 'now', visitCount: 3 }]
+        })
     })
 
     it('getAtmosphere returns defaults when no data (clear/noon/calm)', async () => {
@@ -167,7 +203,9 @@ describe('WorldContextHandler', () => {
             worldClock as unknown as any,
             playerDocRepo as unknown as any,
             inventoryRepo as unknown as any,
-            worldEventRepo as unknown as any
+            worldEventRepo as unknown as any,
+            { listNpcsAtLocation: sinon.stub().resolves([]) } as unknown as any,
+            { listForPlayer: sinon.stub().resolves([]), countForPlayer: sinon.stub().resolves(0) } as unknown as any
         )
 
         const ctx = makeContext()
@@ -201,7 +239,9 @@ describe('WorldContextHandler', () => {
                 worldClock as unknown as any,
                 playerDocRepo as unknown as any,
                 inventoryRepo as unknown as any,
-                worldEventRepo as unknown as any
+                worldEventRepo as unknown as any,
+                { listNpcsAtLocation: sinon.stub().resolves([]) } as unknown as any,
+                { listForPlayer: sinon.stub().resolves([]), countForPlayer: sinon.stub().resolves(0) } as unknown as any
             )
         }
 
@@ -267,7 +307,9 @@ describe('WorldContextHandler', () => {
                 worldClock as unknown as any,
                 playerDocRepo as unknown as any,
                 inventoryRepo as unknown as any,
-                worldEventRepo as unknown as any
+                worldEventRepo as unknown as any,
+                { listNpcsAtLocation: sinon.stub().resolves([]) } as unknown as any,
+                { listForPlayer: sinon.stub().resolves([]), countForPlayer: sinon.stub().resolves(0) } as unknown as any
             )
 
             const ctx = makeContext()
@@ -129,15 +129,15 @@ describe('World Event Handler Dispatch', () => {
     test('should not emit HandlerInvoked for unhandled event type', async () => {
         const ctx = await fixture.createInvocationContext()
         const event = createNpcTickEvent({
-            type: 'Quest.Proposed',
-            idempotencyKey: 'quest:proposed:q1',
-            payload: { questId: 'q1', seedHash: 'abc' }
+            type: 'World.Ambience.Generated',
+            idempotencyKey: 'ambience:generated:a1',
+            payload: { locationId: 'loc-1', ambienceId: 'a1' }
         })
         await queueProcessWorldEvent(event, ctx as any)
         const noHandlerLog = ctx.getLogs().find((l) => l[0] === 'No type-specific handler registered for event type')
         assert.ok(noHandlerLog, 'Should log lack of handler')
         const handlerTelemetry = telemetry.events.filter((e) => e.name === 'World.Event.HandlerInvoked')
-        const questTelemetry = handlerTelemetry.find((e) => e.properties?.eventType === 'Quest.Proposed')
-        assert.ok(!questTelemetry, 'No handler telemetry should be emitted for unknown type')
+        const ambienceTelemetry = handlerTelemetry.find((e) => e.properties?.eventType === 'World.Ambience.Generated')
+        assert.ok(!ambienceTelemetry, 'No handler telemetry should be emitted for unknown type')
     })
 })
@@ -5,7 +5,8 @@ import LiveAnnouncer from './components/LiveAnnouncer'
 import Nav from './components/Nav'
 import ProtectedRoute from './components/ProtectedRoute'
 import ResponsiveLayout from './components/ResponsiveLayout'
-import { PlayerProvider } from './contexts/PlayerContext'
+import { PlayerProvider, usePlayer } from './contexts/PlayerContext'
+import { usePlayerPreferences } from './hooks/usePlayerPreferences'
 import About from './pages/About'
 import Game from './pages/Game'
 import Help from './pages/Help'
@@ -32,6 +33,22 @@ function RouteFocusManager({ mainRef }: { mainRef: React.RefObject<HTMLElement |
     return null
 }
 
+/** Applies the player's display preferences (text size, theme, reduced motion) to the document root; styles live in tailwind.css. */
+function DisplayPreferencesManager(): null {
+    const { playerGuid } = usePlayer()
+    const { preferences } = usePlayerPreferences(playerGuid)
+    const { textSize, theme, reducedMotion } = preferences
+
+    useEffect(() => {
+        const root = document.documentElement
+        root.dataset.textSize = textSize
+        root.dataset.theme = theme
+        if (reducedMotion) root.dataset.reducedMotion = 'true'
+        else delete root.dataset.reducedMotion
+    }, [textSize, theme, reducedMotion])
+    return null
+}
+
 export default function App(): React.ReactElement {
     const mainRef = useRef<HTMLElement | null>(null)
     return (
@@ -77,6 +94,7 @@ export default function App(): React.ReactElement {
                     </main>
                 </div>
                 <RouteFocusManager mainRef={mainRef} />
+                <DisplayPreferencesManager />
             </PlayerProvider>
         </BrowserRouter>
     )
@@ -1,20 +1,89 @@
-import type { LocationResponse, PingRequest, PingResponse } from '@piquet-h/shared'
-import { forwardRef, useCallback, useImperativeHandle, useState } from 'react'
+import type {
+    ChatResponse,
+    CombatResponse,
+    CommandChainResponse,
+    CommandClarification,
+    CommandStepResult,
+    DescriptionVerbosity,
+    DiscoveryJournalResponse,
+    ExitLockResponse,
+    InventoryResponse,
+    ItemActionResponse,
+    LocationHistoryResponse,
+    LocationResponse,
+    OnlinePlayersResponse,
+    PingRequest,
+    PingResponse,
+    QuestsResponse,
+    QuestSummary,
+    TalkResponse,
+    TravelResponse,
+    VerbosityResponse,
+    WaitResponse
+} from '@piquet-h/shared'
+import { forwardRef, useCallback, useImperativeHandle, useRef, useState } from 'react'
 import { usePlayer } from '../contexts/PlayerContext'
 import { getSessionId, trackGameEventClient } from '../services/telemetry'
-import { buildHeaders, buildLocationUrl, buildMoveRequest, buildResolveCommandRequest } from '../utils/apiClient'
+import {
+    buildChatRequest,
+    buildClarificationUrl,
+    buildCombatRequest,
+    buildDiscoveriesUrl,
+    buildExecuteCommandRequest,
+    buildExitLockRequest,
+    buildHeaders,
+    buildInventoryUrl,
+    buildItemActionRequest,
+    buildLocationHistoryUrl,
+    buildLocationUrl,
+    buildMoveRequest,
+    buildOnlinePlayersUrl,
+    buildQuestsUrl,
+    buildResolveCommandRequest,
+    buildTalkRequest,
+    buildTravelRequest,
+    buildVerbosityRequest,
+    buildWaitRequest
+} from '../utils/apiClient'
 import { extractErrorMessage } from '../utils/apiResponse'
+import { parseChatCommand } from '../utils/chatCommand'
 import { buildCorrelationHeaders, buildSessionHeaders, generateCorrelationId } from '../utils/correlation'
 import { unwrapEnvelope } from '../utils/envelope'
+import { saveTravelRoute } from '../utils/mapRoute'
 import CommandInput from './CommandInput'
 import CommandOutput, { CommandRecord } from './CommandOutput'
 import type { Direction } from './hooks/useGameNavigationFlow'
 
 /** Resolution data returned by POST /api/player/command */
 interface CommandResolution {
-    actionKind: 'Move' | 'Look' | 'Unknown'
+    actionKind:
+        | 'Move'
+        | 'Look'
+        | 'Take'
+        | 'Drop'
+        | 'Talk'
+        | 'Lock'
+        | 'Unlock'
+        | 'Attack'
+        | 'Defend'
+        | 'Flee'
+        | 'Wait'
+        | 'Rest'
+        | 'Sleep'
+        | 'Travel'
+        | 'Unknown'
     direction?: string
+    itemName?: string
+    npcName?: string
+    /** Typed duration for Wait / Rest / Sleep ("wait 2 hours"); absent → the action's default. */
+    durationMs?: number
+    /** Place name or landmark for Travel ("travel to the harbour" → "harbour"). */
+    destination?: string
     canonicalWritesPlanned: boolean
+    /** Present for multi-intent chains ("go north then look"); sent back as is to POST /api/player/{id}/command. */
+    steps?: Array<{ order: number; actionKind: CommandResolution['actionKind'] }>
+    /** Follow-up question held server-side; the next input ("2", "the seagull") may answer it. */
+    clarification?: CommandClarification
     parsedIntent: {
         verb: string | null
         confidence: number
@@ -56,15 +125,222 @@ interface CommandInterfaceProps {
     onMoveCommand?: (direction: Direction) => void
     /** Optional busy flag controlled by parent navigation flow. */
     externalBusy?: boolean
+    /** Optional callback after a take/drop succeeds (GameView uses it to refresh inventory-derived stats). */
+    onInventoryChanged?: () => void
+    /** Optional callback after a combat round (GameView uses it to refresh health). */
+    onPlayerStatusChanged?: () => void
 }
 
 export interface CommandInterfaceHandle {
-    appendRecord: (record: { command: string; response?: string; error?: string; latencyMs?: number }) => void
+    appendRecord: (record: { command: string; response?: string; error?: string; latencyMs?: number; live?: boolean }) => void
+    /** Run a command as if the player typed it (GameView uses it to look on arrival when auto-look is on). */
+    runCommand: (command: string) => void
 }
 
+/** Arrival text; brief / superbrief arrivals carry no prose, so only the name and exits are shown. */
 export function formatMoveResponse(direction: string, loc: LocationResponse): string {
     const exits: string | undefined = Array.isArray(loc.exits) ? loc.exits.map((e) => e.direction).join(', ') : undefined
-    return `Moved ${direction} -> ${loc.name}: ${loc.description.text}${exits ? ` (Exits: ${exits})` : ''}`
+    const prose = loc.description.text ? `: ${loc.description.text}` : ''
+    return `Moved ${direction} -> ${loc.name}${prose}${exits ? ` (Exits: ${exits})` : ''}`
+}
+
+export function formatLookResponse(loc: LocationResponse): string {
+    const exits: string | undefined = Array.isArray(loc.exits) ? loc.exits.map((e) => e.direction).join(', ') : undefined
+    const items = Array.isArray(loc.items) && loc.items.length > 0 ? ` You see: ${loc.items.map((i) => i.name).join(', ')}.` : ''
+    const npcs = Array.isArray(loc.npcs) && loc.npcs.length > 0 ? ` Also here: ${loc.npcs.map((n) => n.name).join(', ')}.` : ''
+    const players =
+        Array.isArray(loc.players) && loc.players.length > 0 ? ` Other players here: ${loc.players.map((p) => p.name).join(', ')}.` : ''
+    const prose = loc.description.text ? `: ${loc.description.text}` : ''
+    return `${loc.name}${prose}${exits ? ` (Exits: ${exits})` : ''}${items}${npcs}${players}`
+}
+
+export function formatInventoryResponse(inventory: InventoryResponse): string {
+    if (inventory.items.length === 0) return 'You are carrying nothing.'
+    const names = inventory.items.map((i) => (i.quantity > 1 ? `${i.name} (x${i.quantity})` : i.name))
+    return `You are carrying: ${names.join(', ')}. (${inventory.items.length}/${inventory.capacity})`
+}
+
+/** Format an NPC's reply for the command output. */
+export function formatTalkResponse(talk: TalkResponse): string {
+    return `${talk.npc.name}: "${talk.line}"`
+}
+
+/** Format a lock/unlock result for the command output. */
+export function formatExitLockResponse(result: ExitLockResponse): string {
+    const verb = result.lockState === 'locked' ? 'lock' : 'unlock'
+    return `You ${verb} the way ${result.direction} with the ${result.key.name}.`
+}
+
+/** Format a combat round: optional narration, the mechanical summary, then both sides' hit points. */
+export function formatCombatResponse(round: CombatResponse): string {
+    const hp = `(You: ${round.player.hp}/${round.player.maxHp} HP, ${round.npc.name}: ${round.npcHp.hp}/${round.npcHp.maxHp} HP)`
+    return [round.narrative, round.summary, hp].filter(Boolean).join(' ')
+}
+
+/** Format time spent in place: the narration, the summary and (after rest / sleep) the player's hit points. */
+export function formatWaitResponse(result: WaitResponse): string {
+    const hp = result.action !== 'wait' ? `(You: ${result.player.hp}/${result.player.maxHp} HP)` : undefined
+    return [result.narrative, result.summary, hp].filter(Boolean).join(' ')
+}
+
+/** Format a journey: the summary (including why it stopped early), then where the player ended up. */
+export function formatTravelResponse(result: TravelResponse): string {
+    return `${result.summary} ${formatLookResponse(result.location)}`
+}
+
+function formatCommandStep(step: CommandStepResult): string {
+    switch (step.actionKind) {
+        case 'Move':
+            return formatMoveResponse(step.direction ?? 'on', step.data as LocationResponse)
+        case 'Look':
+            return formatLookResponse(step.data as LocationResponse)
+        case 'Take':
+        case 'Drop': {
+            const itemName = (step.data as ItemActionResponse).item.name
+            return step.actionKind === 'Take' ? `You take the ${itemName}.` : `You drop the ${itemName}.`
+        }
+        case 'Talk':
+            return formatTalkResponse(step.data as TalkResponse)
+        case 'Lock':
+        case 'Unlock':
+            return formatExitLockResponse(step.data as ExitLockResponse)
+        case 'Attack':
+        case 'Defend':
+        case 'Flee':
+            return formatCombatResponse(step.data as CombatResponse)
+        case 'Wait':
+        case 'Rest':
+        case 'Sleep':
+            return formatWaitResponse(step.data as WaitResponse)
+        case 'Travel':
+            return formatTravelResponse(step.data as TravelResponse)
+        default:
+            return ''
+    }
+}
+
+/** Format a command chain: each succeeded step in order, then why the chain stopped (skipped steps are not shown). */
+export function formatCommandChainResponse(chain: CommandChainResponse): string {
+    const lines = chain.steps.filter((s) => s.status === 'succeeded' && s.data).map(formatCommandStep)
+    const stopped = chain.stoppedAt !== undefined ? chain.steps[chain.stoppedAt] : undefined
+    if (stopped) {
+        const reason =
+            stopped.error?.code === 'ExitGenerationRequested'
+                ? 'The path is still being revealed.'
+                : (stopped.error?.message ?? 'That failed.')
+        const skipped = chain.steps.length - chain.stoppedAt! - 1
+        lines.push(`Stopped at step ${chain.stoppedAt! + 1}: ${reason}${skipped > 0 ? ` (${skipped} more skipped)` : ''}`)
+    }
+    return lines.filter(Boolean).join('\n')
+}
+
+function formatQuestProgress(quest: QuestSummary): string {
+    const objectives = quest.objectives.map((o) => `${o.description} (${o.completed ? 'done' : `${o.progress}/${o.required}`})`)
+    return `${quest.title}: ${objectives.join('; ')}`
+}
+
+/** Format the quest journal: active quests with objective progress, then finished quest titles. */
+export function formatQuestsResponse(journal: QuestsResponse): string {
+    if (journal.quests.length === 0) return 'You have no quests yet.'
+    const active = journal.quests.filter((q) => q.status === 'active')
+    const finished = journal.quests.filter((q) => q.status !== 'active')
+    const parts: string[] = []
+    if (active.length > 0) parts.push(`Active quests: ${active.map(formatQuestProgress).join(' | ')}.`)
+    if (finished.length > 0) parts.push(`Finished: ${finished.map((q) => `${q.title} (${q.status})`).join(', ')}.`)
+    return parts.join(' ')
+}
+
+/** Format the discovery journal: how many places the player has found, and the most recent ones. */
+export function formatDiscoveryJournalResponse(journal: DiscoveryJournalResponse): string {
+    if (journal.total === 0) return 'You have not discovered any places yet.'
+    const recent = journal.discoveries.map((d) => `${d.locationName} (${d.visitCount} ${d.visitCount === 1 ? 'visit' : 'visits'})`)
+    return `Places discovered: ${journal.total}. Most recent: ${recent.join(', ')}.`
+}
+
+/** Format the `journal`: the quest summary, then the recent discoveries. */
+export function formatJournalResponse(quests: QuestsResponse, discoveries: DiscoveryJournalResponse): string {
+    return `${formatQuestsResponse(quests)}\n${formatDiscoveryJournalResponse(discoveries)}`
+}
+
+/** Format a location's recent history, oldest of the page first so it reads in order. */
+export function formatLocationHistoryResponse(history: LocationHistoryResponse): string {
+    if (history.events.length === 0) return 'Nothing of note has happened here recently.'
+    const summaries = [...history.events].reverse().map((e) => e.summary)
+    return `Recently here: ${summaries.join(' ')}`
+}
+
+const VERBOSITY_CONFIRMATIONS: Record<DescriptionVerbosity, string> = {
+    verbose: 'Verbose descriptions: full descriptions on every arrival.',
+    brief: 'Brief descriptions: full descriptions only on your first visit. Use look to see a place again.',
+    superbrief: 'Superbrief descriptions: names and exits only. Use look to see a place in full.'
+}
+
+/** Confirm a verbosity change. */
+export function formatVerbosityResponse(result: VerbosityResponse): string {
+    return VERBOSITY_CONFIRMATIONS[result.verbosity]
+}
+
+/** Format the `who` list: each online player and where they are. */
+export function formatOnlinePlayersResponse(online: OnlinePlayersResponse): string {
+    if (online.players.length === 0) return 'No players are online.'
+    const entries = online.players.map((p) => `${p.name} (${p.locationName ?? 'somewhere unknown'})`)
+    return `Players online (${online.count}): ${entries.join(', ')}.`
+}
+
+const INVENTORY_COMMANDS = new Set(['inventory', 'inv', 'i'])
+const QUEST_COMMANDS = new Set(['quests'])
+const DISCOVERY_COMMANDS = new Set(['discoveries'])
+const JOURNAL_COMMANDS = new Set(['journal'])
+const HISTORY_COMMANDS = new Set(['history'])
+const WHO_COMMANDS = new Set(['who'])
+const VERBOSITY_COMMANDS = new Set<string>(['verbose', 'brief', 'superbrief'])
+
+/** GET a player's quest journal (`quests` / `journal`). */
+async function readQuestJournal(playerGuid: string): Promise<{ data: QuestsResponse } | { error: string }> {
+    const res = await fetch(buildQuestsUrl(playerGuid), {
+        headers: buildHeaders({
+            'x-player-guid': playerGuid,
+            ...buildCorrelationHeaders(generateCorrelationId()),
+            ...buildSessionHeaders(getSessionId())
+        })
+    })
+    const json = await res.json().catch(() => ({}))
+    const unwrapped = unwrapEnvelope<QuestsResponse>(json)
+    if (!res.ok || (unwrapped.isEnvelope && !unwrapped.success)) return { error: extractErrorMessage(res, json, unwrapped) }
+    if (unwrapped.data && Array.isArray(unwrapped.data.quests)) return { data: unwrapped.data }
+    return { error: 'Malformed quests response' }
+}
+
+/** GET a player's discovery journal (`discoveries` / `journal`). */
+async function readDiscoveryJournal(playerGuid: string): Promise<{ data: DiscoveryJournalResponse } | { error: string }> {
+    const res = await fetch(buildDiscoveriesUrl(playerGuid), {
+        headers: buildHeaders({
+            'x-player-guid': playerGuid,
+            ...buildCorrelationHeaders(generateCorrelationId()),
+            ...buildSessionHeaders(getSessionId())
+        })
+    })
+    const json = await res.json().catch(() => ({}))
+    const unwrapped = unwrapEnvelope<DiscoveryJournalResponse>(json)
+    if (!res.ok || (unwrapped.isEnvelope && !unwrapped.success)) return { error: extractErrorMessage(res, json, unwrapped) }
+    if (unwrapped.data && Array.isArray(unwrapped.data.discoveries)) return { data: unwrapped.data }
+    return { error: 'Malformed discoveries response' }
+}
+
+/** Commands the client runs itself, without the resolver (chat is recognised separately). */
+function isClientCommand(lower: string): boolean {
+    return (
+        lower.startsWith('ping') ||
+        lower === 'look' ||
+        lower.startsWith('move ') ||
+        INVENTORY_COMMANDS.has(lower) ||
+        QUEST_COMMANDS.has(lower) ||
+        DISCOVERY_COMMANDS.has(lower) ||
+        JOURNAL_COMMANDS.has(lower) ||
+        HISTORY_COMMANDS.has(lower) ||
+        WHO_COMMANDS.has(lower) ||
+        VERBOSITY_COMMANDS.has(lower)
+    )
 }
 
 /**
@@ -74,7 +350,14 @@ export function formatMoveResponse(direction: string, loc: LocationResponse): st
  * Future: parsing, suggestions, command registry, optimistic world state deltas.
  */
 const CommandInterface = forwardRef<CommandInterfaceHandle, CommandInterfaceProps>(function CommandInterface(
-    { className, availableExits = [], onMoveCommand, externalBusy = false }: CommandInterfaceProps,
+    {
+        className,
+        availableExits = [],
+        onMoveCommand,
+        externalBusy = false,
+        onInventoryChanged,
+        onPlayerStatusChanged
+    }: CommandInterfaceProps,
     ref
 ): React.ReactElement {
     // Use PlayerContext for playerGuid and currentLocationId (no redundant API calls)
@@ -82,6 +365,8 @@ const CommandInterface = forwardRef<CommandInterfaceHandle, CommandInterfaceProp
     const [history, setHistory] = useState<CommandRecord[]>([])
     const [busy, setBusy] = useState(false)
     const [commandHistory, setCommandHistory] = useState<string[]>([])
+    // The resolver holds an open clarification question for this player (the last resolution asked one).
+    const clarificationOpen = useRef(false)
 
     // currentLocationId now comes from PlayerContext
     // No separate hydration useEffect needed
@@ -107,6 +392,16 @@ const CommandInterface = forwardRef<CommandInterfaceHandle, CommandInterfaceProp
                 return
             }
 
+            // A command that never reaches the resolver moves on from its open question, so drop it server-side
+            // (otherwise a later "2" would still answer it). Failure only leaves the question to expire.
+            if (clarificationOpen.current && playerGuid && (delegatedMove || isClientCommand(lower) || parseChatCommand(raw))) {
+                clarificationOpen.current = false
+                await fetch(buildClarificationUrl(playerGuid), {
+                    method: 'DELETE',
+                    headers: buildHeaders({ ...buildSessionHeaders(getSessionId()) })
+                }).catch(() => undefined)
+            }
+
             if (delegatedMove && delegatedDirection && isDirection(delegatedDirection)) {
                 onMoveCommand(delegatedDirection)
                 return
@@ -119,17 +414,66 @@ const CommandInterface = forwardRef<CommandInterfaceHandle, CommandInterfaceProp
             let response: string | undefined
             let latencyMs: number | undefined
             let travelMs: number | undefined
+            let options: string[] | undefined
             try {
                 const start = performance.now()
-                // Only commands that mutate player state (move) require a resolved player GUID.
+                // Only commands that read or mutate player state (move, inventory, quests) require a resolved player GUID.
                 const requiresPlayer = lower.startsWith('move ')
+                if (!playerGuid && INVENTORY_COMMANDS.has(lower)) {
+                    throw new Error('Cannot check inventory yet - your session is still initializing. Please wait a moment and try again.')
+                }
+                if (!playerGuid && (QUEST_COMMANDS.has(lower) || JOURNAL_COMMANDS.has(lower))) {
+                    throw new Error('Cannot check quests yet - your session is still initializing. Please wait a moment and try again.')
+                }
+                if (!playerGuid && DISCOVERY_COMMANDS.has(lower)) {
+                    throw new Error(
+                        'Cannot list your discoveries yet - your session is still initializing. Please wait a moment and try again.'
+                    )
+                }
+                if (!currentLocationId && HISTORY_COMMANDS.has(lower)) {
+                    throw new Error(
+                        'Cannot recall what happened here yet - your session is still initializing. Please wait a moment and try again.'
+                    )
+                }
+                if (!playerGuid && VERBOSITY_COMMANDS.has(lower)) {
+                    throw new Error(
+                        'Cannot change descriptions yet - your session is still initializing. Please wait a moment and try again.'
+                    )
+                }
+                const chat = parseChatCommand(raw)
+                if (!playerGuid && chat) {
+                    throw new Error('Cannot talk yet - your session is still initializing. Please wait a moment and try again.')
+                }
                 if (!playerGuid && requiresPlayer) {
                     throw new Error(
                         'Cannot move yet - your session is still initializing. Please wait a moment and try again. ' +
                             'If this persists, try refreshing the page to clear stale session data.'
                     )
                 }
-                if (lower.startsWith('ping')) {
+                if (chat) {
+                    const correlationId = generateCorrelationId()
+                    const chatRequest = buildChatRequest(playerGuid, chat.mode, chat.message, chat.to)
+                    const res = await fetch(chatRequest.url, {
+                        method: chatRequest.method,
+                        headers: buildHeaders({
+                            'Content-Type': 'application/json',
+                            'x-player-guid': playerGuid || '',
+                            ...buildCorrelationHeaders(correlationId),
+                            ...buildSessionHeaders(getSessionId())
+                        }),
+                        body: JSON.stringify(chatRequest.body)
+                    })
+                    const json = await res.json().catch(() => ({}))
+                    latencyMs = Math.round(performance.now() - start)
+                    const unwrapped = unwrapEnvelope<ChatResponse>(json)
+                    if (!res.ok || (unwrapped.isEnvelope && !unwrapped.success)) {
+                        error = extractErrorMessage(res, json, unwrapped)
+                    } else if (unwrapped.data?.summary) {
+                        response = unwrapped.data.summary
+                    } else {
+                        error = 'Malformed chat response'
+                    }
+                } else if (lower.startsWith('ping')) {
                     const requestBody: PingRequest = {
                         message: raw.replace(/^ping\s*/, '') || 'ping'
                     }
@@ -160,6 +504,8 @@ const CommandInterface = forwardRef<CommandInterfaceHandle, CommandInterfaceProp
 
                     const url = buildLocationUrl(locationToFetch)
                     const headers = buildHeaders({
+                        // Identifies the viewer so they are not listed among the other players present
+                        ...(playerGuid ? { 'x-player-guid': playerGuid } : {}),
                         ...buildCorrelationHeaders(correlationId),
                         ...buildSessionHeaders(getSessionId())
                     })
@@ -179,14 +525,106 @@ const CommandInterface = forwardRef<CommandInterfaceHandle, CommandInterfaceProp
                         const loc = unwrapped.data
                         if (loc) {
                             updateCurrentLocationId(loc.id)
-                            const exits: string | undefined = Array.isArray(loc.exits)
-                                ? loc.exits.map((e) => e.direction).join(', ')
-                                : undefined
-                            response = `${loc.name}: ${loc.description.text}${exits ? ` (Exits: ${exits})` : ''}`
+                            response = formatLookResponse(loc)
                         } else {
                             error = 'Malformed location response'
                         }
                     }
+                } else if (INVENTORY_COMMANDS.has(lower) && playerGuid) {
+                    const correlationId = generateCorrelationId()
+                    const res = await fetch(buildInventoryUrl(playerGuid), {
+                        headers: buildHeaders({
+                            'x-player-guid': playerGuid,
+                            ...buildCorrelationHeaders(correlationId),
+                            ...buildSessionHeaders(getSessionId())
+                        })
+                    })
+                    const json = await res.json().catch(() => ({}))
+                    latencyMs = Math.round(performance.now() - start)
+                    const unwrapped = unwrapEnvelope<InventoryResponse>(json)
+                    if (!res.ok || (unwrapped.isEnvelope && !unwrapped.success)) {
+                        error = extractErrorMessage(res, json, unwrapped)
+                    } else if (unwrapped.data && Array.isArray(unwrapped.data.items)) {
+                        response = formatInventoryResponse(unwrapped.data)
+                    } else {
+                        error = 'Malformed inventory response'
+                    }
+                } else if (QUEST_COMMANDS.has(lower) && playerGuid) {
+                    const quests = await readQuestJournal(playerGuid)
+                    latencyMs = Math.round(performance.now() - start)
+                    if ('error' in quests) error = quests.error
+                    else response = formatQuestsResponse(quests.data)
+                } else if (DISCOVERY_COMMANDS.has(lower) && playerGuid) {
+                    const discoveries = await readDiscoveryJournal(playerGuid)
+                    latencyMs = Math.round(performance.now() - start)
+                    if ('error' in discoveries) error = discoveries.error
+                    else response = formatDiscoveryJournalResponse(discoveries.data)
+                } else if (JOURNAL_COMMANDS.has(lower) && playerGuid) {
+                    const [quests, discoveries] = await Promise.all([readQuestJournal(playerGuid), readDiscoveryJournal(playerGuid)])
+                    latencyMs = Math.round(performance.now() - start)
+                    if ('error' in quests) error = quests.error
+                    else if ('error' in discoveries) error = discoveries.error
+                    else response = formatJournalResponse(quests.data, discoveries.data)
+                } else if (HISTORY_COMMANDS.has(lower) && currentLocationId) {
+                    const correlationId = generateCorrelationId()
+                    const res = await fetch(buildLocationHistoryUrl(currentLocationId), {
+                        headers: buildHeaders({
+                            ...buildCorrelationHeaders(correlationId),
+                            ...buildSessionHeaders(getSessionId())
+                        })
+                    })
+                    const json = await res.json().catch(() => ({}))
+                    latencyMs = Math.round(performance.now() - start)
+                    const unwrapped = unwrapEnvelope<LocationHistoryResponse>(json)
+                    if (!res.ok || (unwrapped.isEnvelope && !unwrapped.success)) {
+                        error = extractErrorMessage(res, json, unwrapped)
+                    } else if (unwrapped.data && Array.isArray(unwrapped.data.events)) {
+                        response = formatLocationHistoryResponse(unwrapped.data)
+                    } else {
+                        error = 'Malformed history response'
+                    }
+                } else if (VERBOSITY_COMMANDS.has(lower) && playerGuid) {
+                    const correlationId = generateCorrelationId()
+                    const verbosityRequest = buildVerbosityRequest(playerGuid, lower as DescriptionVerbosity)
+                    const res = await fetch(verbosityRequest.url, {
+                        method: verbosityRequest.method,
+                        headers: buildHeaders({
+                            'Content-Type': 'application/json',
+                            'x-player-guid': playerGuid,
+                            ...buildCorrelationHeaders(correlationId),
+                            ...buildSessionHeaders(getSessionId())
+                        }),
+                        body: JSON.stringify(verbosityRequest.body)
+                    })
+                    const json = await res.json().catch(() => ({}))
+                    latencyMs = Math.round(performance.now() - start)
+                    const unwrapped = unwrapEnvelope<VerbosityResponse>(json)
+                    if (!res.ok || (unwrapped.isEnvelope && !unwrapped.success)) {
+                        error = extractErrorMessage(res, json, unwrapped)
+                    } else if (unwrapped.data?.verbosity) {
+                        response = formatVerbosityResponse(unwrapped.data)
+                    } else {
+                        error = 'Malformed verbosity response'
+                    }
+                } else if (WHO_COMMANDS.has(lower)) {
+                    const correlationId = generateCorrelationId()
+                    const res = await fetch(buildOnlinePlayersUrl(), {
+                        headers: buildHeaders({
+                            ...(playerGuid ? { 'x-player-guid': playerGuid } : {}),
+                            ...buildCorrelationHeaders(correlationId),
+                            ...buildSessionHeaders(getSessionId())
+                        })
+                    })
+                    const json = await res.json().catch(() => ({}))
+                    latencyMs = Math.round(performance.now() - start)
+                    const unwrapped = unwrapEnvelope<OnlinePlayersResponse>(json)
+                    if (!res.ok || (unwrapped.isEnvelope && !unwrapped.success)) {
+                        error = extractErrorMessage(res, json, unwrapped)
+                    } else if (unwrapped.data && Array.isArray(unwrapped.data.players)) {
+                        response = formatOnlinePlayersResponse(unwrapped.data)
+                    } else {
+                        error = 'Malformed players response'
+                    }
                 } else if (lower.startsWith('move ')) {
                     const dir = lower.split(/\s+/)[1]
                     // Generate correlation ID for move request
@@ -227,10 +665,7 @@ const CommandInterface = forwardRef<CommandInterfaceHandle, CommandInterfaceProp
                         if (loc) {
                             travelMs = typeof loc.travel?.durationMs === 'number' ? loc.travel.durationMs : undefined
                             updateCurrentLocationId(loc.id)
-                            const exits: string | undefined = Array.isArray(loc.exits)
-                                ? loc.exits.map((e) => e.direction).join(', ')
-                                : undefined
-                            response = `Moved ${dir} -> ${loc.name}: ${loc.description.text}${exits ? ` (Exits: ${exits})` : ''}`
+                            response = formatMoveResponse(dir, loc)
                         } else {
                             error = 'Malformed move response'
                         }
@@ -265,8 +700,42 @@ const CommandInterface = forwardRef<CommandInterfaceHandle, CommandInterfaceProp
                         // Use the correlation ID echoed back by the resolver for follow-on calls.
                         const canonicalCorrelationId = unwrappedResolve.correlationId ?? correlationId
                         const resolution = unwrappedResolve.data
+                        clarificationOpen.current = !!resolution?.clarification
 
-                        if (resolution?.actionKind === 'Move' && resolution.direction) {
+                        if (resolution?.steps && resolution.steps.length > 1) {
+                            // Resolved to a chain: the server runs the resolved steps through their canonical services, in order.
+                            const chainRequest = buildExecuteCommandRequest(playerGuid, raw.trim(), resolution.steps)
+                            const chainHeaders = buildHeaders({
+                                'Content-Type': 'application/json',
+                                'x-player-guid': playerGuid,
+                                ...buildCorrelationHeaders(canonicalCorrelationId),
+                                ...buildSessionHeaders(getSessionId())
+                            })
+                            const chainRes = await fetch(chainRequest.url, {
+                                method: chainRequest.method,
+                                headers: chainHeaders,
+                                body: JSON.stringify(chainRequest.body)
+                            })
+                            const chainJson = await chainRes.json().catch(() => ({}))
+                            latencyMs = Math.round(performance.now() - start)
+                            const unwrappedChain = unwrapEnvelope<CommandChainResponse>(chainJson)
+                            if (!chainRes.ok || (unwrappedChain.isEnvelope && !unwrappedChain.success)) {
+                                error = extractErrorMessage(chainRes, chainJson, unwrappedChain)
+                            } else if (unwrappedChain.data?.steps) {
+                                const chain = unwrappedChain.data
+                                response = formatCommandChainResponse(chain)
+                                if (chain.locationId) updateCurrentLocationId(chain.locationId)
+                                const travelled = chain.steps.filter((s) => s.status === 'succeeded' && s.actionKind === 'Travel').pop()
+                                if (travelled?.data) saveTravelRoute((travelled.data as TravelResponse).route)
+                                const ran = chain.steps.filter((s) => s.status === 'succeeded').map((s) => s.actionKind)
+                                if (ran.includes('Take') || ran.includes('Drop')) onInventoryChanged?.()
+                                if (ran.some((k) => k === 'Attack' || k === 'Defend' || k === 'Flee' || k === 'Rest' || k === 'Sleep')) {
+                                    onPlayerStatusChanged?.()
+                                }
+                            } else {
+                                error = 'Malformed command chain response'
+                            }
+                        } else if (resolution?.actionKind === 'Move' && resolution.direction) {
                             // Resolved to a movement: invoke the canonical move endpoint.
                             const moveRequest = buildMoveRequest(playerGuid, resolution.direction)
                             const moveHeaders = buildHeaders({
@@ -312,6 +781,8 @@ const CommandInterface = forwardRef<CommandInterfaceHandle, CommandInterfaceProp
                             const locationToFetch = currentLocationId
                             const url = buildLocationUrl(locationToFetch)
                             const lookHeaders = buildHeaders({
+                                // Identifies the viewer, as the direct look does (presence list and discovery ledger)
+                                ...(playerGuid ? { 'x-player-guid': playerGuid } : {}),
                                 ...buildCorrelationHeaders(canonicalCorrelationId),
                                 ...buildSessionHeaders(getSessionId())
                             })
@@ -329,24 +800,194 @@ const CommandInterface = forwardRef<CommandInterfaceHandle, CommandInterfaceProp
                                 const loc = unwrappedLook.data
                                 if (loc) {
                                     updateCurrentLocationId(loc.id)
-                                    const exits: string | undefined = Array.isArray(loc.exits)
-                                        ? loc.exits.map((e) => e.direction).join(', ')
-                                        : undefined
-                                    response = `${loc.name}: ${loc.description.text}${exits ? ` (Exits: ${exits})` : ''}`
+                                    response = formatLookResponse(loc)
                                 } else {
                                     error = 'Malformed location response'
                                 }
                             }
+                        } else if ((resolution?.actionKind === 'Take' || resolution?.actionKind === 'Drop') && resolution.itemName) {
+                            // Resolved to an item pickup/drop: invoke the canonical take/drop endpoint.
+                            const action = resolution.actionKind === 'Take' ? 'take' : 'drop'
+                            const itemRequest = buildItemActionRequest(playerGuid, action, resolution.itemName)
+                            const itemHeaders = buildHeaders({
+                                'Content-Type': 'application/json',
+                                'x-player-guid': playerGuid,
+                                ...buildCorrelationHeaders(canonicalCorrelationId),
+                                ...buildSessionHeaders(getSessionId())
+                            })
+                            const itemRes = await fetch(itemRequest.url, {
+                                method: itemRequest.method,
+                                headers: itemHeaders,
+                                body: JSON.stringify(itemRequest.body)
+                            })
+                            const itemJson = await itemRes.json().catch(() => ({}))
+                            latencyMs = Math.round(performance.now() - start)
+                            const unwrappedItem = unwrapEnvelope<ItemActionResponse>(itemJson)
+                            if (!itemRes.ok || (unwrappedItem.isEnvelope && !unwrappedItem.success)) {
+                                error = extractErrorMessage(itemRes, itemJson, unwrappedItem)
+                            } else if (unwrappedItem.data?.item) {
+                                const itemName = unwrappedItem.data.item.name
+                                response = action === 'take' ? `You take the ${itemName}.` : `You drop the ${itemName}.`
+                                onInventoryChanged?.()
+                            } else {
+                                error = 'Malformed item response'
+                            }
+                        } else if (resolution?.actionKind === 'Talk' && resolution.npcName) {
+                            // Resolved to a conversation: invoke the canonical talk endpoint.
+                            const talkRequest = buildTalkRequest(playerGuid, resolution.npcName)
+                            const talkHeaders = buildHeaders({
+                                'Content-Type': 'application/json',
+                                'x-player-guid': playerGuid,
+                                ...buildCorrelationHeaders(canonicalCorrelationId),
+                                ...buildSessionHeaders(getSessionId())
+                            })
+                            const talkRes = await fetch(talkRequest.url, {
+                                method: talkRequest.method,
+                                headers: talkHeaders,
+                                body: JSON.stringify(talkRequest.body)
+                            })
+                            const talkJson = await talkRes.json().catch(() => ({}))
+                            latencyMs = Math.round(performance.now() - start)
+                            const unwrappedTalk = unwrapEnvelope<TalkResponse>(talkJson)
+                            if (!talkRes.ok || (unwrappedTalk.isEnvelope && !unwrappedTalk.success)) {
+                                error = extractErrorMessage(talkRes, talkJson, unwrappedTalk)
+                            } else if (unwrappedTalk.data?.npc) {
+                                response = formatTalkResponse(unwrappedTalk.data)
+                            } else {
+                                error = 'Malformed talk response'
+                            }
+                        } else if ((resolution?.actionKind === 'Lock' || resolution?.actionKind === 'Unlock') && resolution.direction) {
+                            // Resolved to a lock change: invoke the canonical lock/unlock endpoint (server checks for a key).
+                            const action = resolution.actionKind === 'Lock' ? 'lock' : 'unlock'
+                            const lockRequest = buildExitLockRequest(playerGuid, action, resolution.direction)
+                            const lockHeaders = buildHeaders({
+                                'Content-Type': 'application/json',
+                                'x-player-guid': playerGuid,
+                                ...buildCorrelationHeaders(canonicalCorrelationId),
+                                ...buildSessionHeaders(getSessionId())
+                            })
+                            const lockRes = await fetch(lockRequest.url, {
+                                method: lockRequest.method,
+                                headers: lockHeaders,
+                                body: JSON.stringify(lockRequest.body)
+                            })
+                            const lockJson = await lockRes.json().catch(() => ({}))
+                            latencyMs = Math.round(performance.now() - start)
+                            const unwrappedLock = unwrapEnvelope<ExitLockResponse>(lockJson)
+                            if (!lockRes.ok || (unwrappedLock.isEnvelope && !unwrappedLock.success)) {
+                                error = extractErrorMessage(lockRes, lockJson, unwrappedLock)
+                            } else if (unwrappedLock.data?.key) {
+                                response = formatExitLockResponse(unwrappedLock.data)
+                            } else {
+                                error = 'Malformed lock response'
+                            }
+                        } else if (
+                            resolution?.actionKind === 'Attack' ||
+                            resolution?.actionKind === 'Defend' ||
+                            resolution?.actionKind === 'Flee'
+                        ) {
+                            // Resolved to a combat round: the server rolls the dice; the client only renders the result.
+                            const action =
+                                resolution.actionKind === 'Attack' ? 'attack' : resolution.actionKind === 'Defend' ? 'defend' : 'flee'
+                            const target = action === 'attack' ? resolution.npcName : action === 'flee' ? resolution.direction : undefined
+                            const combatRequest = buildCombatRequest(playerGuid, action, target)
+                            const combatHeaders = buildHeaders({
+                                'Content-Type': 'application/json',
+                                'x-player-guid': playerGuid,
+                                ...buildCorrelationHeaders(canonicalCorrelationId),
+                                ...buildSessionHeaders(getSessionId())
+                            })
+                            const combatRes = await fetch(combatRequest.url, {
+                                method: combatRequest.method,
+                                headers: combatHeaders,
+                                body: JSON.stringify(combatRequest.body)
+                            })
+                            const combatJson = await combatRes.json().catch(() => ({}))
+                            latencyMs = Math.round(performance.now() - start)
+                            const unwrappedCombat = unwrapEnvelope<CombatResponse>(combatJson)
+                            if (!combatRes.ok || (unwrappedCombat.isEnvelope && !unwrappedCombat.success)) {
+                                error = extractErrorMessage(combatRes, combatJson, unwrappedCombat)
+                            } else if (unwrappedCombat.data?.npc) {
+                                response = formatCombatResponse(unwrappedCombat.data)
+                                if (unwrappedCombat.data.outcome === 'fled') {
+                                    updateCurrentLocationId(unwrappedCombat.data.locationId)
+                                }
+                                onPlayerStatusChanged?.()
+                            } else {
+                                error = 'Malformed combat response'
+                            }
+                        } else if (
+                            resolution?.actionKind === 'Wait' ||
+                            resolution?.actionKind === 'Rest' ||
+                            resolution?.actionKind === 'Sleep'
+                        ) {
+                            // Resolved to passing time: the server advances and reconciles the player's clock.
+                            const action = resolution.actionKind === 'Wait' ? 'wait' : resolution.actionKind === 'Rest' ? 'rest' : 'sleep'
+                            const waitRequest = buildWaitRequest(playerGuid, action, resolution.durationMs)
+                            const waitHeaders = buildHeaders({
+                                'Content-Type': 'application/json',
+                                'x-player-guid': playerGuid,
+                                ...buildCorrelationHeaders(canonicalCorrelationId),
+                                ...buildSessionHeaders(getSessionId())
+                            })
+                            const waitRes = await fetch(waitRequest.url, {
+                                method: waitRequest.method,
+                                headers: waitHeaders,
+                                body: JSON.stringify(waitRequest.body)
+                            })
+                            const waitJson = await waitRes.json().catch(() => ({}))
+                            latencyMs = Math.round(performance.now() - start)
+                            const unwrappedWait = unwrapEnvelope<WaitResponse>(waitJson)
+                            if (!waitRes.ok || (unwrappedWait.isEnvelope && !unwrappedWait.success)) {
+                                error = extractErrorMessage(waitRes, waitJson, unwrappedWait)
+                            } else if (unwrappedWait.data?.summary) {
+                                response = formatWaitResponse(unwrappedWait.data)
+                                if (unwrappedWait.data.hpRestored > 0) onPlayerStatusChanged?.()
+                            } else {
+                                error = 'Malformed wait response'
+                            }
+                        } else if (resolution?.actionKind === 'Travel' && resolution.destination) {
+                            // Resolved to a journey: the server walks the fastest known route leg by leg.
+                            const travelRequest = buildTravelRequest(playerGuid, resolution.destination)
+                            const travelHeaders = buildHeaders({
+                                'Content-Type': 'application/json',
+                                'x-player-guid': playerGuid,
+                                ...buildCorrelationHeaders(canonicalCorrelationId),
+                                ...buildSessionHeaders(getSessionId())
+                            })
+                            const travelRes = await fetch(travelRequest.url, {
+                                method: travelRequest.method,
+                                headers: travelHeaders,
+                                body: JSON.stringify(travelRequest.body)
+                            })
+                            const travelJson = await travelRes.json().catch(() => ({}))
+                            latencyMs = Math.round(performance.now() - start)
+                            const unwrappedTravel = unwrapEnvelope<TravelResponse>(travelJson)
+                            if (!travelRes.ok || (unwrappedTravel.isEnvelope && !unwrappedTravel.success)) {
+                                error = extractErrorMessage(travelRes, travelJson, unwrappedTravel)
+                            } else if (unwrappedTravel.data?.location) {
+                                const journey = unwrappedTravel.data
+                                response = formatTravelResponse(journey)
+                                travelMs = journey.travelledMs
+                                saveTravelRoute(journey.route)
+                                updateCurrentLocationId(journey.location.id)
+                            } else {
+                                error = 'Malformed travel response'
+                            }
                         } else {
                             // Unknown or clarification needed: safe feedback only, no canonical writes.
                             latencyMs = Math.round(performance.now() - start)
                             const needsClarification = resolution?.parsedIntent.needsClarification
                             const ambiguities = resolution?.parsedIntent.ambiguities
-                            if (needsClarification && ambiguities?.length) {
+                            if (resolution?.clarification?.options.length) {
+                                // Numbered question: the resolver holds it, so the next input can simply be "2" or a name.
+                                response = `${resolution.clarification.prompt} Reply with a number or a name.`
+                                options = resolution.clarification.options
+                            } else if (needsClarification && ambiguities?.length) {
                                 const amb = ambiguities[0]
                                 response = `Not sure what you mean by "${amb.spanText}". Try: ${amb.suggestions.slice(0, 2).join(', ')}`
                             } else {
-                                response = `Not sure how to do that. Try: ping, look, move <direction>, or clear.`
+                                response = `Not sure how to do that. Try: ping, look, move <direction>, take <item>, drop <item>, talk to <npc>, unlock <direction>, attack <npc>, defend, flee, wait [duration], rest, sleep, travel to <place>, say <message>, shout <message>, whisper <name> <message>, who, inventory, quests, journal, discoveries, history, or clear.`
                             }
                         }
                     }
@@ -355,7 +996,7 @@ const CommandInterface = forwardRef<CommandInterfaceHandle, CommandInterfaceProp
                 error = err instanceof Error ? err.message : 'Unknown error'
             } finally {
                 setBusy(false)
-                setHistory((h) => h.map((rec) => (rec.id === id ? { ...rec, response, error, latencyMs, travelMs } : rec)))
+                setHistory((h) => h.map((rec) => (rec.id === id ? { ...rec, response, error, latencyMs, travelMs, options } : rec)))
                 // Canonical event (Command.Executed) now part of shared telemetry specification.
                 trackGameEventClient('Command.Executed', {
                     command: raw.split(/\s+/)[0],
@@ -366,26 +1007,29 @@ const CommandInterface = forwardRef<CommandInterfaceHandle, CommandInterfaceProp
                 })
             }
         },
-        [playerGuid, currentLocationId, updateCurrentLocationId, onMoveCommand]
+        [playerGuid, currentLocationId, updateCurrentLocationId, onMoveCommand, onInventoryChanged, onPlayerStatusChanged]
     )
 
     useImperativeHandle(
         ref,
         () => ({
-            appendRecord: ({ command, response, error, latencyMs }) => {
+            appendRecord: ({ command, response, error, latencyMs, live }) => {
                 const id = crypto.randomUUID()
                 const ts = Date.now()
-                setHistory((h) => [...h, { id, command, response, error, latencyMs, ts }])
+                setHistory((h) => [...h, { id, command, response, error, latencyMs, live, ts }])
 
-                if (command && command !== 'clear') {
+                if (command && command !== 'clear' && !live) {
                     setCommandHistory((prev) => {
                         const next = [...prev, command]
                         return next.slice(-50)
                     })
                 }
+            },
+            runCommand: (command) => {
+                void runCommand(command)
             }
         }),
-        []
+        [runCommand]
     )
 
     return (
@@ -415,8 +1059,17 @@ const CommandInterface = forwardRef<CommandInterfaceHandle, CommandInterfaceProp
             />
             <p className="mt-2 text-responsive-sm text-slate-300">
                 Commands: <code className="code-inline">ping</code>, <code className="code-inline">look</code>,{' '}
-                <code className="code-inline">move &lt;direction&gt;</code>, <code className="code-inline">clear</code>, or free-form text
-                (e.g., <code className="code-inline">go north</code>).
+                <code className="code-inline">move &lt;direction&gt;</code>, <code className="code-inline">inventory</code>,{' '}
+                <code className="code-inline">quests</code>, <code className="code-inline">discoveries</code>,{' '}
+                <code className="code-inline">journal</code> (both), <code className="code-inline">history</code>,{' '}
+                <code className="code-inline">brief</code> / <code className="code-inline">verbose</code> /{' '}
+                <code className="code-inline">superbrief</code>, <code className="code-inline">say &lt;message&gt;</code>,{' '}
+                <code className="code-inline">shout &lt;message&gt;</code>,{' '}
+                <code className="code-inline">whisper &lt;name&gt; &lt;message&gt;</code>, <code className="code-inline">clear</code>, or
+                free-form text (e.g., <code className="code-inline">go north</code>, <code className="code-inline">take lantern</code>,{' '}
+                <code className="code-inline">talk to tomas</code>, <code className="code-inline">unlock north</code>,{' '}
+                <code className="code-inline">attack goblin</code>, <code className="code-inline">wait 10 minutes</code>,{' '}
+                <code className="code-inline">travel to the harbour</code>).
             </p>
         </div>
     )
@@ -8,6 +8,10 @@ export interface CommandRecord {
     latencyMs?: number
     /** Simulated in-world travel time for movement commands (distinct from request latency). */
     travelMs?: number
+    /** Numbered answers to a clarification question in `response`; the player replies with a number or a name. */
+    options?: string[]
+    /** Pushed by the live location stream rather than typed by the player; `response` is the narration. */
+    live?: boolean
     ts: number
 }
 
@@ -29,6 +33,7 @@ export interface CommandOutputProps {
  * CommandOutput
  * Responsibilities:
  *  - Render a scrollable, accessible log of command requests/responses
+ *  - Render live location events (other players, NPCs, the world changing) as plain narration lines
  *  - Announce the latest response via an ARIA live region (polite)
  *  - Future: virtualization for long histories, copy-to-clipboard, filtering
  */
@@ -46,9 +51,13 @@ export default function CommandOutput({
 
     useEffect(() => {
         if (last && liveRef.current) {
-            liveRef.current.textContent = last.error
-                ? `Command failed: ${last.command}. ${last.error}`
-                : `Command result: ${last.command}${last.response ? ` -> ${last.response}` : ''}`
+            liveRef.current.textContent = last.live
+                ? (last.response ?? '')
+                : last.error
+                  ? `Command failed: ${last.command}. ${last.error}`
+                  : `Command result: ${last.command}${last.response ? ` -> ${last.response}` : ''}${
+                        last.options?.length ? ` ${last.options.map((o, i) => `${i + 1}. ${o}`).join(', ')}` : ''
+                    }`
         }
         // Auto-scroll to bottom when new item appended
         if (scrollRef.current) {
@@ -63,35 +72,48 @@ export default function CommandOutput({
                 className="flex-1 min-h-0 overflow-auto scrollbar-atlas rounded-md bg-white/5 border border-white/10 p-2 sm:p-3 text-responsive-sm font-mono space-y-2"
             >
                 {visible.length === 0 && <p className="text-slate-300 italic">No commands issued yet.</p>}
-                {visible.map((rec) => (
-                    <div key={rec.id} className="group">
-                        <div className="flex items-start gap-1 sm:gap-2">
-                            <span className="text-atlas-accent select-none">$</span>
-                            <span className="break-all text-slate-200 flex-1 min-w-0">{rec.command}</span>
-                            {rec.latencyMs != null && (
-                                <span className="ml-auto text-[10px] sm:text-xs text-slate-500 flex-shrink-0" title="Latency">
-                                    {rec.latencyMs}ms
-                                </span>
+                {visible.map((rec) =>
+                    rec.live ? (
+                        <div key={rec.id} className="text-sky-300 italic whitespace-pre-wrap break-words" data-live-event>
+                            {rec.response}
+                        </div>
+                    ) : (
+                        <div key={rec.id} className="group">
+                            <div className="flex items-start gap-1 sm:gap-2">
+                                <span className="text-atlas-accent select-none">$</span>
+                                <span className="break-all text-slate-200 flex-1 min-w-0">{rec.command}</span>
+                                {rec.latencyMs != null && (
+                                    <span className="ml-auto text-[10px] sm:text-xs text-slate-500 flex-shrink-0" title="Latency">
+                                        {rec.latencyMs}ms
+                                    </span>
+                                )}
+                                {rec.travelMs != null && (
+                                    <span
+                                        className="text-[10px] sm:text-xs text-slate-500 flex-shrink-0"
+                                        title="Simulated travel time (in-world)"
+                                    >
+                                        Travel {formatTravelMs(rec.travelMs)}
+                                    </span>
+                                )}
+                            </div>
+                            {rec.response && (
+                                <div className="pl-3 sm:pl-5 text-emerald-300 whitespace-pre-wrap break-words">{rec.response}</div>
                             )}
-                            {rec.travelMs != null && (
-                                <span
-                                    className="text-[10px] sm:text-xs text-slate-500 flex-shrink-0"
-                                    title="Simulated travel time (in-world)"
-                                >
-                                    Travel {formatTravelMs(rec.travelMs)}
-                                </span>
+                            {rec.options && rec.options.length > 0 && (
+                                <ol className="pl-8 sm:pl-10 list-decimal text-emerald-300 break-words" aria-label="Answer options">
+                                    {rec.options.map((option) => (
+                                        <li key={option}>{option}</li>
+                                    ))}
+                                </ol>
+                            )}
+                            {rec.error && (
+                                <div className="pl-3 sm:pl-5 text-red-400 whitespace-pre-wrap break-words" role="alert">
+                                    {rec.error}
+                                </div>
                             )}
                         </div>
-                        {rec.response && (
-                            <div className="pl-3 sm:pl-5 text-emerald-300 whitespace-pre-wrap break-words">{rec.response}</div>
-                        )}
-                        {rec.error && (
-                            <div className="pl-3 sm:pl-5 text-red-400 whitespace-pre-wrap break-words" role="alert">
-                                {rec.error}
-                            </div>
-                        )}
-                    </div>
-                ))}
+                    )
+                )}
             </div>
             <div ref={liveRef} className="sr-only" aria-live="polite" />
         </div>
@@ -5,16 +5,23 @@
  * - Location name and description (narrative-focused main area)
  * - Command interface (text input)
  * - Right sidebar: player stats + optional navigation UI
+ * - Live location events (arrivals, departures, NPC actions, world changes, chat) appended to the command log
+ * - Recent conversation at each location the player arrives at
  *
  * Responsive layout: single column on mobile, two-column on desktop/tablet.
  * Navigation UI is optional and can be toggled via user preferences.
  */
+import type { ChatHistoryEntry, LiveLocationEvent } from '@piquet-h/shared'
 import { useQueryClient } from '@tanstack/react-query'
 import React, { useCallback, useState } from 'react'
 import { usePlayer } from '../contexts/PlayerContext'
 import { useGamePreferences } from '../hooks/useGamePreferences'
+import { useLocationEvents } from '../hooks/useLocationEvents'
 import { useMediaQuery } from '../hooks/useMediaQueries'
+import { usePlayerInventory } from '../hooks/usePlayerInventory'
+import { usePlayerStatus } from '../hooks/usePlayerStatus'
 import { usePlayerLocation } from '../hooks/usePlayerLocation'
+import { formatChatHistoryEntry, useRecentChat } from '../hooks/useRecentChat'
 import { trackGameEventClient } from '../services/telemetry'
 import { formatMoveResponse, type CommandInterfaceHandle } from './CommandInterface'
 import { useGameNavigationFlow, type Direction } from './hooks/useGameNavigationFlow'
@@ -26,11 +33,8 @@ import type { LocationContext } from './SoftDenialOverlay'
 /** Number of command history items to display */
 const COMMAND_HISTORY_LIMIT = 10
 
-/** Placeholder health value (until real backend integration) */
-const PLACEHOLDER_HEALTH = 100
-
-/** Placeholder inventory count (until real backend integration) */
-const PLACEHOLDER_INVENTORY_COUNT = 0
+/** Health shown until the first status fetch resolves (matches the backend default for players who never fought) */
+const DEFAULT_MAX_HEALTH = 20
 
 interface GameViewProps {
     className?: string
@@ -47,13 +51,23 @@ interface GameViewProps {
 export default function GameView({ className }: GameViewProps): React.ReactElement {
     const isTablet = useMediaQuery('(min-width: 640px)')
     const isDesktop = useMediaQuery('(min-width: 1024px)')
-    const { navigationUIEnabled } = useGamePreferences()
+    const { navigationUIEnabled, autoLookOnMove } = useGamePreferences()
     const queryClient = useQueryClient()
     const { playerGuid, currentLocationId, updateCurrentLocationId } = usePlayer()
 
     // Fetch player's current location using TanStack Query
     // Uses currentLocationId from context (already fetched at bootstrap)
     const { location, refetch } = usePlayerLocation(currentLocationId)
+    const { itemCount: inventoryCount } = usePlayerInventory(playerGuid)
+    const { status } = usePlayerStatus(playerGuid)
+
+    const handleInventoryChanged = useCallback(() => {
+        queryClient.invalidateQueries({ queryKey: ['inventory', playerGuid] })
+    }, [queryClient, playerGuid])
+
+    const handlePlayerStatusChanged = useCallback(() => {
+        queryClient.invalidateQueries({ queryKey: ['status', playerGuid] })
+    }, [queryClient, playerGuid])
 
     /**
      * Command history state (placeholder for future unified history integration).
@@ -107,6 +121,17 @@ export default function GameView({ className }: GameViewProps): React.ReactEleme
         hasPreloadedInitialContext.current = true
     }, [location, appendCommandLog])
 
+    // Auto-look: follow every arrival with a full look (items, NPCs and players present), when the player wants it
+    const lastLocationIdRef = React.useRef<string | null>(null)
+    React.useEffect(() => {
+        if (!currentLocationId) return
+        const previous = lastLocationIdRef.current
+        lastLocationIdRef.current = currentLocationId
+        if (autoLookOnMove && previous && previous !== currentLocationId) {
+            commandInterfaceRef.current?.runCommand('look')
+        }
+    }, [currentLocationId, autoLookOnMove])
+
     const {
         isNavigating,
         softDenial,
@@ -132,14 +157,40 @@ export default function GameView({ className }: GameViewProps): React.ReactEleme
         formatMoveResponse
     })
 
-    // Derive player stats from location (no useEffect needed)
-    // TODO(#972): Replace hardcoded health/inventory with real API data
+    // Live happenings at the current location are narrated in the command log. A new exit or a
+    // changed description refreshes the location, which also resolves a pending arrival pause at once.
+    useLocationEvents(
+        playerGuid,
+        currentLocationId,
+        useCallback(
+            (event: LiveLocationEvent) => {
+                commandInterfaceRef.current?.appendRecord({ command: '', response: event.text, live: true })
+                if (event.kind === 'exit.materialized' || event.kind === 'layer.changed') {
+                    refetch()
+                }
+            },
+            [refetch]
+        )
+    )
+
+    // Catch up on what was said here shortly before the player arrived
+    useRecentChat(
+        playerGuid,
+        currentLocationId,
+        useCallback((messages: ChatHistoryEntry[]) => {
+            for (const message of messages) {
+                commandInterfaceRef.current?.appendRecord({ command: '', response: formatChatHistoryEntry(message), live: true })
+            }
+        }, [])
+    )
+
+    // Derive player stats from location and status (no useEffect needed)
     const playerStats: PlayerStats | null = location
         ? {
-              health: PLACEHOLDER_HEALTH,
-              maxHealth: PLACEHOLDER_HEALTH,
+              health: status?.health ?? DEFAULT_MAX_HEALTH,
+              maxHealth: status?.maxHealth ?? DEFAULT_MAX_HEALTH,
               locationName: isNavigating ? 'Moving...' : location.name,
-              inventoryCount: PLACEHOLDER_INVENTORY_COUNT
+              inventoryCount
           }
         : null
 
@@ -225,6 +276,8 @@ export default function GameView({ className }: GameViewProps): React.ReactEleme
                 playerStats={playerStats}
                 commandHistory={commandHistory}
                 commandInterfaceRef={commandInterfaceRef}
+                onInventoryChanged={handleInventoryChanged}
+                onPlayerStatusChanged={handlePlayerStatusChanged}
             />
         </>
     )
@@ -5,12 +5,18 @@
  * Fetches GET /api/world/graph, transforms nodes + edges into Cytoscape elements,
  * then positions each node using cardinal-direction vectors scaled by travelDurationMs.
  * The `preset` layout keeps nodes locked to their calculated coordinates.
+ * The player's last `travel to <place>` route (utils/mapRoute) is highlighted.
+ *
+ * Players see their fog-of-war view: only the places they have discovered, with exits leading on to
+ * unexplored stubs. The whole world is an operator-only endpoint and is not shown here.
  */
-import { STARTER_LOCATION_ID } from '@piquet-h/shared'
+import { DEFAULT_PLAYER_PREFERENCES, STARTER_LOCATION_ID, type MapPreferences } from '@piquet-h/shared'
 import cytoscape, { type ElementDefinition } from 'cytoscape'
 import React, { useEffect, useRef, useState } from 'react'
+import { usePlayer } from '../contexts/PlayerContext'
 import { unwrapEnvelope } from '../utils/envelope'
 import { computeVisibleNodeIds } from '../utils/mapDrill'
+import { computeRouteHighlight, loadTravelRoute } from '../utils/mapRoute'
 import { applySameLevelSlice } from '../utils/mapSameLevel'
 import { classifyInsideNodeIds, getEdgeClassName, type EdgeKind } from '../utils/mapSemantics'
 import { computePositions, URBAN_MS } from '../utils/worldMapPositions'
@@ -43,6 +49,11 @@ function isPendingSyntheticNode(node: WorldGraphNode): boolean {
     return node.id.startsWith('pending:') || (node.tags?.includes('pending:synthetic') ?? false)
 }
 
+/** A known exit's destination the player has not been to yet. */
+function isUnexploredStubNode(node: WorldGraphNode): boolean {
+    return node.tags?.includes('unexplored:stub') ?? false
+}
+
 // ---------------------------------------------------------------------------
 // Cytoscape stylesheet  (dark atlas theme)
 // ---------------------------------------------------------------------------
@@ -50,6 +61,7 @@ function isPendingSyntheticNode(node: WorldGraphNode): boolean {
 const ATLAS_ACCENT = '#6ee7b7'
 const ATLAS_BG = '#0f1724'
 const ATLAS_CARD = '#0b1220'
+const ATLAS_ROUTE = '#f472b6'
 
 const CYTOSCAPE_STYLE: cytoscape.StylesheetStyle[] = [
     {
@@ -82,6 +94,23 @@ const CYTOSCAPE_STYLE: cytoscape.StylesheetStyle[] = [
             'background-color': '#0b1730'
         }
     },
+    {
+        selector: 'node.node--unexplored',
+        style: {
+            'border-color': '#64748b',
+            'border-opacity': 0.8,
+            'border-style': 'dotted',
+            'background-color': ATLAS_BG,
+            color: '#94a3b8'
+        }
+    },
+    {
+        selector: 'node.node--route',
+        style: {
+            'border-color': ATLAS_ROUTE,
+            'border-width': 2
+        }
+    },
     {
         selector: 'node:selected',
         style: {
@@ -140,6 +169,16 @@ const CYTOSCAPE_STYLE: cytoscape.StylesheetStyle[] = [
             color: 'rgba(125,211,252,0.95)'
         }
     },
+    {
+        selector: 'edge.edge--route',
+        style: {
+            'line-style': 'solid',
+            'line-color': ATLAS_ROUTE,
+            'target-arrow-color': ATLAS_ROUTE,
+            color: ATLAS_ROUTE,
+            width: 3
+        }
+    },
     {
         selector: 'edge:selected',
         style: {
@@ -156,8 +195,8 @@ const DEFAULT_DISTANCE_SCALE = 1.8
 // Fetch helper
 // ---------------------------------------------------------------------------
 
-async function fetchWorldGraph(): Promise<WorldGraphResponse> {
-    const res = await fetch('/api/world/graph')
+async function fetchWorldGraph(playerGuid: string): Promise<WorldGraphResponse> {
+    const res = await fetch('/api/world/graph', { headers: { 'x-player-guid': playerGuid } })
     if (!res.ok) {
         throw new Error(`World graph request failed: ${res.status}`)
     }
@@ -173,7 +212,13 @@ async function fetchWorldGraph(): Promise<WorldGraphResponse> {
 // Component
 // ---------------------------------------------------------------------------
 
-export default function WorldMap(): React.ReactElement {
+export interface WorldMapProps {
+    /** Starting sidebar settings (the player's map preferences); the player can still change them here */
+    defaults?: MapPreferences
+}
+
+export default function WorldMap({ defaults = DEFAULT_PLAYER_PREFERENCES.map }: WorldMapProps): React.ReactElement {
+    const { playerGuid, loading: guidLoading } = usePlayer()
     const containerRef = useRef<HTMLDivElement>(null)
     const cyRef = useRef<cytoscape.Core | null>(null)
     const [loading, setLoading] = useState(true)
@@ -183,12 +228,12 @@ export default function WorldMap(): React.ReactElement {
     const [selectedId, setSelectedId] = useState<string | null>(null)
 
     // Sidebar controls
-    const [showOutsideNodes, setShowOutsideNodes] = useState(true)
-    const [showInsideNodes, setShowInsideNodes] = useState(true)
+    const [showOutsideNodes, setShowOutsideNodes] = useState(defaults.showOutsideNodes)
+    const [showInsideNodes, setShowInsideNodes] = useState(defaults.showInsideNodes)
     const [sameLevelOnly, setSameLevelOnly] = useState(false)
     const [focusId, setFocusId] = useState<string | null>(null)
     const [focusName, setFocusName] = useState<string | null>(null)
-    const [focusDepth, setFocusDepth] = useState<0 | 1 | 2 | 3>(1)
+    const [focusDepth, setFocusDepth] = useState<0 | 1 | 2 | 3>(defaults.focusDepth)
     const focusIdRef = useRef<string | null>(null)
     const lastNodeTapRef = useRef<{ id: string; timestamp: number } | null>(null)
 
@@ -215,8 +260,16 @@ export default function WorldMap(): React.ReactElement {
         async function load() {
             setLoading(true)
             setError(null)
+            if (!playerGuid) {
+                // Wait for the player session; without one there is nothing discovered to show.
+                if (!guidLoading) {
+                    setError('Start a game to begin charting your map.')
+                    setLoading(false)
+                }
+                return
+            }
             try {
-                const graph = await fetchWorldGraph()
+                const graph = await fetchWorldGraph(playerGuid)
                 if (cancelled) return
 
                 graphRef.current = graph
@@ -225,10 +278,18 @@ export default function WorldMap(): React.ReactElement {
                 // recomputes positions when the slider changes.
                 const positions = computePositions(graph.nodes, graph.edges, STARTER_LOCATION_ID, { distanceScale: DEFAULT_DISTANCE_SCALE })
 
+                const route = computeRouteHighlight(loadTravelRoute(), graph.edges)
+
                 const elements: ElementDefinition[] = [
                     ...graph.nodes.map((n) => ({
                         group: 'nodes' as const,
-                        classes: isPendingSyntheticNode(n) ? 'node--pending' : '',
+                        classes: [
+                            isPendingSyntheticNode(n) ? 'node--pending' : '',
+                            isUnexploredStubNode(n) ? 'node--unexplored' : '',
+                            route.nodeIds.has(n.id) ? 'node--route' : ''
+                        ]
+                            .filter(Boolean)
+                            .join(' '),
                         data: {
                             id: n.id,
                             name: n.name,
@@ -239,7 +300,13 @@ export default function WorldMap(): React.ReactElement {
                     })),
                     ...graph.edges.map((e, i) => ({
                         group: 'edges' as const,
-                        classes: [getEdgeClassName(e.direction), e.pending ? 'edge--pending' : ''].filter(Boolean).join(' '),
+                        classes: [
+                            getEdgeClassName(e.direction),
+                            e.pending ? 'edge--pending' : '',
+                            route.edgeIndexes.has(i) ? 'edge--route' : ''
+                        ]
+                            .filter(Boolean)
+                            .join(' '),
                         data: {
                             id: `edge-${i}`,
                             source: e.fromId,
@@ -323,7 +390,7 @@ export default function WorldMap(): React.ReactElement {
         return () => {
             cancelled = true
         }
-    }, [])
+    }, [playerGuid, guidLoading])
 
     // Recompute node positions when distanceScale changes.
     useEffect(() => {
@@ -540,6 +607,13 @@ export default function WorldMap(): React.ReactElement {
                         <span className="inline-block h-px w-5" style={{ background: 'rgba(110,231,183,0.4)' }} />
                         Exit
                     </span>
+                    <span className="flex items-center gap-1.5">
+                        <span
+                            className="inline-block h-3 w-3 rounded-sm border border-dotted"
+                            style={{ background: '#0f1724', borderColor: '#64748b' }}
+                        />
+                        Unexplored
+                    </span>
                     <span className="flex items-center gap-1.5">
                         <span
                             className="inline-block h-3 w-3 rounded-sm border-2"
@@ -547,6 +621,10 @@ export default function WorldMap(): React.ReactElement {
                         />
                         Selected
                     </span>
+                    <span className="flex items-center gap-1.5">
+                        <span className="inline-block h-0.5 w-5" style={{ background: '#f472b6' }} />
+                        Last travel route
+                    </span>
                 </div>
             )}
         </div>
@@ -156,7 +156,10 @@ export function useGameNavigationFlow({
             }
 
             const newLocation = result as LocationResponse
-            queryClient.setQueryData(['location', newLocation.id], newLocation)
+            // A brief / superbrief arrival carries no prose; let the location panel fetch the full description
+            if (!newLocation.descriptionOmitted) {
+                queryClient.setQueryData(['location', newLocation.id], newLocation)
+            }
             updateCurrentLocationId(newLocation.id)
 
             const latencyMs = context?.startTime ? Math.round(performance.now() - context.startTime) : undefined
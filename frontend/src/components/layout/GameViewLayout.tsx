@@ -23,6 +23,8 @@ interface GameViewLayoutProps {
     playerStats: PlayerStats | null
     commandHistory: CommandHistoryItem[]
     commandInterfaceRef: React.RefObject<CommandInterfaceHandle | null>
+    onInventoryChanged?: () => void
+    onPlayerStatusChanged?: () => void
 }
 
 export default function GameViewLayout({
@@ -37,7 +39,9 @@ export default function GameViewLayout({
     navigationDisabled,
     playerStats,
     commandHistory,
-    commandInterfaceRef
+    commandInterfaceRef,
+    onInventoryChanged,
+    onPlayerStatusChanged
 }: GameViewLayoutProps): React.ReactElement {
     return (
         <div className={['flex flex-col gap-4 sm:gap-5', isTablet || isDesktop ? 'h-full' : '', className].filter(Boolean).join(' ')}>
@@ -52,12 +56,20 @@ export default function GameViewLayout({
                                 Your Atlas
                             </h3>
                             <div className="flex flex-col flex-1 min-h-0">
-                                <CommandInterface ref={commandInterfaceRef} availableExits={availableExitDirections} className="flex-1" />
+                                <CommandInterface
+                                    ref={commandInterfaceRef}
+                                    availableExits={availableExitDirections}
+                                    onInventoryChanged={onInventoryChanged}
+                                    onPlayerStatusChanged={onPlayerStatusChanged}
+                                    className="flex-1"
+                                />
                                 <CommandInterface
                                     ref={commandInterfaceRef}
                                     availableExits={availableExitDirections}
                                     onMoveCommand={onNavigate}
                                     externalBusy={navigationDisabled}
+                                    onInventoryChanged={onInventoryChanged}
+                                    onPlayerStatusChanged={onPlayerStatusChanged}
                                     className="flex-1"
                                 />
                             </div>
@@ -87,6 +99,8 @@ export default function GameViewLayout({
                                     availableExits={availableExitDirections}
                                     onMoveCommand={onNavigate}
                                     externalBusy={navigationDisabled}
+                                    onInventoryChanged={onInventoryChanged}
+                                    onPlayerStatusChanged={onPlayerStatusChanged}
                                     className="flex-1"
                                 />
                             </div>
@@ -119,6 +133,8 @@ export default function GameViewLayout({
                                 availableExits={availableExitDirections}
                                 onMoveCommand={onNavigate}
                                 externalBusy={navigationDisabled}
+                                onInventoryChanged={onInventoryChanged}
+                                onPlayerStatusChanged={onPlayerStatusChanged}
                                 className="flex-1"
                             />
                         </div>
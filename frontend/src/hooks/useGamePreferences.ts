@@ -1,23 +1,25 @@
 /**
  * useGamePreferences Hook
  *
- * Manages user preferences for the game interface (e.g., navigation UI visibility).
- * Preferences are persisted to localStorage and survive page refreshes.
+ * The game view's share of the player's preferences (navigation UI visibility, auto-look on move).
+ * Preferences are stored server-side through usePlayerPreferences, so they follow the player across devices.
  *
  * Usage:
  *   const { navigationUIEnabled, setNavigationUIEnabled } = useGamePreferences()
  *   if (navigationUIEnabled) { <NavigationUI /> }
  */
 
-import { useCallback, useState } from 'react'
-
-const PREF_KEY_NAVIGATION_UI = 'game:navigationUIEnabled'
+import { DEFAULT_PLAYER_PREFERENCES } from '@piquet-h/shared'
+import { useCallback } from 'react'
+import { usePlayer } from '../contexts/PlayerContext'
+import { usePlayerPreferences } from './usePlayerPreferences'
 
 /**
  * Game preference defaults
  */
 export const GAME_PREFERENCE_DEFAULTS = {
-    navigationUIEnabled: true
+    navigationUIEnabled: DEFAULT_PLAYER_PREFERENCES.navigationUIEnabled,
+    autoLookOnMove: DEFAULT_PLAYER_PREFERENCES.autoLookOnMove
 } as const
 
 /**
@@ -25,24 +27,17 @@ export const GAME_PREFERENCE_DEFAULTS = {
  * @returns Object with current preferences and setters
  */
 export function useGamePreferences() {
-    // Initialize from localStorage with fallback to defaults
-    const [navigationUIEnabled, setNavigationUIEnabledState] = useState(() => {
-        if (typeof window === 'undefined') return GAME_PREFERENCE_DEFAULTS.navigationUIEnabled
-
-        const stored = localStorage.getItem(PREF_KEY_NAVIGATION_UI)
-        if (stored === null) return GAME_PREFERENCE_DEFAULTS.navigationUIEnabled
-        return stored === 'true'
-    })
+    const { playerGuid } = usePlayer()
+    const { preferences, updatePreferences } = usePlayerPreferences(playerGuid)
 
-    const setNavigationUIEnabled = useCallback((enabled: boolean) => {
-        setNavigationUIEnabledState(enabled)
-        if (typeof window !== 'undefined') {
-            localStorage.setItem(PREF_KEY_NAVIGATION_UI, String(enabled))
-        }
-    }, [])
+    const setNavigationUIEnabled = useCallback(
+        (enabled: boolean) => updatePreferences({ navigationUIEnabled: enabled }),
+        [updatePreferences]
+    )
 
     return {
-        navigationUIEnabled,
-        setNavigationUIEnabled
+        navigationUIEnabled: preferences.navigationUIEnabled,
+        setNavigationUIEnabled,
+        autoLookOnMove: preferences.autoLookOnMove
     }
 }
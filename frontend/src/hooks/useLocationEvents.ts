@@ -0,0 +1,50 @@
+/**
+ * useLocationEvents Hook
+ *
+ * Subscribes to the live event stream for the player's current location
+ * (GET /api/player/{playerId}/events, server-sent events) and hands each
+ * `location` event to the callback: exits materialising, layer changes,
+ * players arriving and leaving, NPC actions.
+ *
+ * The stream is reopened whenever the current location changes. The server also
+ * ends the stream when the player leaves; EventSource then reconnects on its own
+ * and the server scopes the new stream to the player's new location.
+ *
+ * No-op where EventSource is unavailable (tests, very old browsers).
+ */
+import type { LiveLocationEvent } from '@piquet-h/shared'
+import { useEffect, useRef } from 'react'
+import { buildPlayerEventsUrl, isValidGuid } from '../utils/apiClient'
+
+export function useLocationEvents(
+    playerGuid: string | null,
+    currentLocationId: string | null,
+    onEvent: (event: LiveLocationEvent) => void
+): void {
+    // Latest callback without reopening the stream on every render
+    const onEventRef = useRef(onEvent)
+    useEffect(() => {
+        onEventRef.current = onEvent
+    }, [onEvent])
+
+    useEffect(() => {
+        if (typeof EventSource === 'undefined' || !isValidGuid(playerGuid) || !currentLocationId) return
+
+        const source = new EventSource(buildPlayerEventsUrl(playerGuid))
+        const handleLocationEvent = (message: MessageEvent<string>) => {
+            try {
+                onEventRef.current(JSON.parse(message.data) as LiveLocationEvent)
+            } catch {
+                // Ignore malformed frames; the next event is independent
+            }
+        }
+        source.addEventListener('location', handleLocationEvent)
+
+        return () => {
+            source.removeEventListener('location', handleLocationEvent)
+            source.close()
+        }
+    }, [playerGuid, currentLocationId])
+}
+
+export default useLocationEvents
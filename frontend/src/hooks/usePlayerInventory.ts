@@ -0,0 +1,71 @@
+/**
+ * Fetch the player's carried items and inventory concurrency token.
+ * Invalidate `['inventory', playerGuid]` after take/drop so counts stay in sync.
+ */
+import type { InventoryResponse } from '@piquet-h/shared'
+import { useQuery } from '@tanstack/react-query'
+import { getSessionId } from '../services/telemetry'
+import { buildHeaders, buildInventoryUrl } from '../utils/apiClient'
+import { extractErrorMessage } from '../utils/apiResponse'
+import { buildCorrelationHeaders, buildSessionHeaders, generateCorrelationId } from '../utils/correlation'
+import { unwrapEnvelope } from '../utils/envelope'
+
+export async function fetchInventory(playerGuid: string): Promise<InventoryResponse> {
+    const correlationId = generateCorrelationId()
+    const res = await fetch(buildInventoryUrl(playerGuid), {
+        headers: buildHeaders({
+            'x-player-guid': playerGuid,
+            ...buildCorrelationHeaders(correlationId),
+            ...buildSessionHeaders(getSessionId())
+        })
+    })
+
+    const json = await res.json().catch(() => ({}))
+    const unwrapped = unwrapEnvelope<InventoryResponse>(json)
+    if (!res.ok || (unwrapped.isEnvelope && !unwrapped.success)) {
+        throw new Error(extractErrorMessage(res, json, unwrapped))
+    }
+    if (!unwrapped.data || !Array.isArray(unwrapped.data.items)) {
+        throw new Error('Invalid inventory response')
+    }
+
+    return unwrapped.data
+}
+
+export interface UsePlayerInventoryResult {
+    inventory: InventoryResponse | null
+    /** Number of carried items (0 while loading or on error) */
+    itemCount: number
+    isLoading: boolean
+    error: string | null
+    refetch: () => void
+}
+
+/**
+ * Hook to fetch the player's inventory
+ * @param playerGuid - Player GUID from PlayerContext (null if not yet loaded)
+ */
+export function usePlayerInventory(playerGuid: string | null | undefined): UsePlayerInventoryResult {
+    const {
+        data: inventory,
+        isLoading,
+        error,
+        refetch
+    } = useQuery({
+        queryKey: ['inventory', playerGuid],
+        queryFn: () => fetchInventory(playerGuid as string),
+        enabled: !!playerGuid,
+        staleTime: 30 * 1000,
+        retry: 1
+    })
+
+    return {
+        inventory: inventory || null,
+        itemCount: inventory?.items.length ?? 0,
+        isLoading: !!playerGuid && isLoading,
+        error: (error as Error)?.message || null,
+        refetch
+    }
+}
+
+export default usePlayerInventory
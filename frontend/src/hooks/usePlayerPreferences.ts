@@ -0,0 +1,150 @@
+/**
+ * Fetch and change the player's preferences (GET / PATCH /api/player/{playerId}/preferences).
+ *
+ * Preferences are stored server-side, so a linked player sees the same choices on every device. The last
+ * known preferences are also cached in localStorage, so display choices (text size, theme, motion) apply
+ * on the first paint and a player without a GUID yet still gets their previous choices. Changes are applied
+ * at once and rolled back if the server rejects them.
+ */
+/* global localStorage */
+import {
+    mergePlayerPreferences,
+    resolvePlayerPreferences,
+    type PlayerPreferences,
+    type PlayerPreferencesPatch,
+    type PlayerPreferencesResponse
+} from '@piquet-h/shared'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useCallback } from 'react'
+import { getSessionId } from '../services/telemetry'
+import { buildHeaders, buildPreferencesRequest, buildPreferencesUrl } from '../utils/apiClient'
+import { extractErrorMessage } from '../utils/apiResponse'
+import { buildCorrelationHeaders, buildSessionHeaders, generateCorrelationId } from '../utils/correlation'
+import { unwrapEnvelope } from '../utils/envelope'
+
+const PREFERENCES_CACHE_KEY = 'tsa.preferences'
+/** Navigation button visibility as stored before preferences moved to the server */
+const LEGACY_NAVIGATION_UI_KEY = 'game:navigationUIEnabled'
+
+/** Last known preferences on this device (defaults when none). */
+export function readCachedPreferences(): PlayerPreferences {
+    if (typeof window === 'undefined') return resolvePlayerPreferences(undefined)
+    try {
+        const cached = localStorage.getItem(PREFERENCES_CACHE_KEY)
+        if (cached) return resolvePlayerPreferences(JSON.parse(cached) as PlayerPreferencesPatch)
+        const legacyNavigation = localStorage.getItem(LEGACY_NAVIGATION_UI_KEY)
+        return resolvePlayerPreferences(legacyNavigation === null ? undefined : { navigationUIEnabled: legacyNavigation === 'true' })
+    } catch {
+        return resolvePlayerPreferences(undefined)
+    }
+}
+
+function cachePreferences(preferences: PlayerPreferences): void {
+    if (typeof window === 'undefined') return
+    try {
+        localStorage.setItem(PREFERENCES_CACHE_KEY, JSON.stringify(preferences))
+    } catch {
+        // Storage full or unavailable; the server copy is authoritative anyway
+    }
+}
+
+async function readPreferencesResponse(res: Response): Promise<PlayerPreferences> {
+    const json = await res.json().catch(() => ({}))
+    const unwrapped = unwrapEnvelope<PlayerPreferencesResponse>(json)
+    if (!res.ok || (unwrapped.isEnvelope && !unwrapped.success)) {
+        throw new Error(extractErrorMessage(res, json, unwrapped))
+    }
+    if (!unwrapped.data?.preferences) {
+        throw new Error('Invalid preferences response')
+    }
+    return resolvePlayerPreferences(unwrapped.data.preferences)
+}
+
+function requestHeaders(playerGuid: string, extra?: Record<string, string>): HeadersInit {
+    return buildHeaders({
+        'x-player-guid': playerGuid,
+        ...extra,
+        ...buildCorrelationHeaders(generateCorrelationId()),
+        ...buildSessionHeaders(getSessionId())
+    })
+}
+
+export async function fetchPlayerPreferences(playerGuid: string): Promise<PlayerPreferences> {
+    const preferences = await readPreferencesResponse(await fetch(buildPreferencesUrl(playerGuid), { headers: requestHeaders(playerGuid) }))
+    cachePreferences(preferences)
+    return preferences
+}
+
+export async function savePlayerPreferences(playerGuid: string, patch: PlayerPreferencesPatch): Promise<PlayerPreferences> {
+    const { url, method, body } = buildPreferencesRequest(playerGuid, patch)
+    const res = await fetch(url, {
+        method,
+        headers: requestHeaders(playerGuid, { 'Content-Type': 'application/json' }),
+        body: JSON.stringify(body)
+    })
+    const preferences = await readPreferencesResponse(res)
+    cachePreferences(preferences)
+    return preferences
+}
+
+export interface UsePlayerPreferencesResult {
+    /** Current preferences (the cached ones until the server answers) */
+    preferences: PlayerPreferences
+    isLoading: boolean
+    isSaving: boolean
+    error: string | null
+    updatePreferences: (patch: PlayerPreferencesPatch) => void
+}
+
+/**
+ * Hook to read and change the player's preferences
+ * @param playerGuid - Player GUID from PlayerContext (null if not yet loaded)
+ */
+export function usePlayerPreferences(playerGuid: string | null | undefined): UsePlayerPreferencesResult {
+    const queryClient = useQueryClient()
+    const queryKey = ['preferences', playerGuid]
+    const query = useQuery({
+        queryKey,
+        queryFn: () => fetchPlayerPreferences(playerGuid as string),
+        enabled: !!playerGuid,
+        // Another device (or a `brief` command) may have changed them; re-read whenever a screen needs them
+        staleTime: 0,
+        retry: 1
+    })
+    const mutation = useMutation({
+        mutationFn: (patch: PlayerPreferencesPatch) => savePlayerPreferences(playerGuid as string, patch),
+        onMutate: async (patch) => {
+            await queryClient.cancelQueries({ queryKey })
+            const previous = queryClient.getQueryData<PlayerPreferences>(queryKey)
+            queryClient.setQueryData(queryKey, resolvePlayerPreferences(mergePlayerPreferences(previous ?? readCachedPreferences(), patch)))
+            return { previous }
+        },
+        onError: (_err, _patch, context) => queryClient.setQueryData(queryKey, context?.previous),
+        onSuccess: (preferences) => queryClient.setQueryData(queryKey, preferences)
+    })
+
+    const { mutate } = mutation
+    const updatePreferences = useCallback(
+        (patch: PlayerPreferencesPatch) => {
+            if (playerGuid) {
+                mutate(patch)
+                return
+            }
+            // No player yet: keep the choice on this device until there is one to store it on
+            const next = resolvePlayerPreferences(mergePlayerPreferences(readCachedPreferences(), patch))
+            cachePreferences(next)
+            queryClient.setQueryData(['preferences', playerGuid], next)
+        },
+        [playerGuid, mutate, queryClient]
+    )
+
+    return {
+        preferences: query.data ?? readCachedPreferences(),
+        isLoading: !!playerGuid && query.isLoading,
+        isSaving: mutation.isPending,
+        error: ((mutation.error ?? query.error) as Error | null)?.message || null,
+        updatePreferences
+    }
+}
+
+export default usePlayerPreferences
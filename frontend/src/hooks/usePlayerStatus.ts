@@ -0,0 +1,68 @@
+/**
+ * Fetch the player's health and current combat encounter.
+ * Invalidate `['status', playerGuid]` after a combat round so the status panels stay in sync.
+ */
+import type { PlayerStatusResponse } from '@piquet-h/shared'
+import { useQuery } from '@tanstack/react-query'
+import { getSessionId } from '../services/telemetry'
+import { buildHeaders, buildPlayerStatusUrl } from '../utils/apiClient'
+import { extractErrorMessage } from '../utils/apiResponse'
+import { buildCorrelationHeaders, buildSessionHeaders, generateCorrelationId } from '../utils/correlation'
+import { unwrapEnvelope } from '../utils/envelope'
+
+export async function fetchPlayerStatus(playerGuid: string): Promise<PlayerStatusResponse> {
+    const correlationId = generateCorrelationId()
+    const res = await fetch(buildPlayerStatusUrl(playerGuid), {
+        headers: buildHeaders({
+            'x-player-guid': playerGuid,
+            ...buildCorrelationHeaders(correlationId),
+            ...buildSessionHeaders(getSessionId())
+        })
+    })
+
+    const json = await res.json().catch(() => ({}))
+    const unwrapped = unwrapEnvelope<PlayerStatusResponse>(json)
+    if (!res.ok || (unwrapped.isEnvelope && !unwrapped.success)) {
+        throw new Error(extractErrorMessage(res, json, unwrapped))
+    }
+    if (!unwrapped.data || typeof unwrapped.data.health !== 'number') {
+        throw new Error('Invalid player status response')
+    }
+
+    return unwrapped.data
+}
+
+export interface UsePlayerStatusResult {
+    status: PlayerStatusResponse | null
+    isLoading: boolean
+    error: string | null
+    refetch: () => void
+}
+
+/**
+ * Hook to fetch the player's health / encounter status
+ * @param playerGuid - Player GUID from PlayerContext (null if not yet loaded)
+ */
+export function usePlayerStatus(playerGuid: string | null | undefined): UsePlayerStatusResult {
+    const {
+        data: status,
+        isLoading,
+        error,
+        refetch
+    } = useQuery({
+        queryKey: ['status', playerGuid],
+        queryFn: () => fetchPlayerStatus(playerGuid as string),
+        enabled: !!playerGuid,
+        staleTime: 30 * 1000,
+        retry: 1
+    })
+
+    return {
+        status: status || null,
+        isLoading: !!playerGuid && isLoading,
+        error: (error as Error)?.message || null,
+        refetch
+    }
+}
+
+export default usePlayerStatus
@@ -0,0 +1,65 @@
+/**
+ * useRecentChat Hook
+ *
+ * Fetches the recent says and shouts at the player's current location
+ * (GET /api/player/{playerId}/chat) each time the location changes, and hands
+ * them to the callback oldest first, so a player arriving mid-conversation can
+ * catch up. Nothing is reported when the history is empty or the request fails;
+ * new messages arrive on the live event stream (useLocationEvents).
+ */
+import type { ChatHistoryEntry, ChatHistoryResponse } from '@piquet-h/shared'
+import { useEffect, useRef } from 'react'
+import { getSessionId } from '../services/telemetry'
+import { buildChatHistoryUrl, buildHeaders, isValidGuid } from '../utils/apiClient'
+import { buildCorrelationHeaders, buildSessionHeaders, generateCorrelationId } from '../utils/correlation'
+import { unwrapEnvelope } from '../utils/envelope'
+
+/** Narrate a history entry for the command log ("Earlier, Ada said, "Well met.""). */
+export function formatChatHistoryEntry(entry: ChatHistoryEntry): string {
+    return `Earlier, ${entry.speakerName} ${entry.mode === 'shout' ? 'shouted' : 'said'}, "${entry.text}"`
+}
+
+export function useRecentChat(
+    playerGuid: string | null,
+    currentLocationId: string | null,
+    onMessages: (messages: ChatHistoryEntry[]) => void
+): void {
+    // Latest callback without refetching on every render
+    const onMessagesRef = useRef(onMessages)
+    useEffect(() => {
+        onMessagesRef.current = onMessages
+    }, [onMessages])
+
+    useEffect(() => {
+        if (!isValidGuid(playerGuid) || !currentLocationId) return
+        let cancelled = false
+
+        const load = async () => {
+            try {
+                const res = await fetch(buildChatHistoryUrl(playerGuid), {
+                    headers: buildHeaders({
+                        'x-player-guid': playerGuid,
+                        ...buildCorrelationHeaders(generateCorrelationId()),
+                        ...buildSessionHeaders(getSessionId())
+                    })
+                })
+                const unwrapped = unwrapEnvelope<ChatHistoryResponse>(await res.json().catch(() => ({})))
+                const history = unwrapped.data
+                // The player may have moved on while the request was in flight
+                if (cancelled || !res.ok || !history || history.locationId !== currentLocationId) return
+                if (Array.isArray(history.messages) && history.messages.length > 0) {
+                    onMessagesRef.current(history.messages)
+                }
+            } catch {
+                // History is a courtesy; live messages still arrive on the event stream
+            }
+        }
+        void load()
+
+        return () => {
+            cancelled = true
+        }
+    }, [playerGuid, currentLocationId])
+}
+
+export default useRecentChat
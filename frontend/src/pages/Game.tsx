@@ -8,20 +8,22 @@ import GameView from '../components/GameView'
 import StatusPanel from '../components/StatusPanel'
 import { usePlayer } from '../contexts/PlayerContext'
 import { useAuth } from '../hooks/useAuth'
+import { usePlayerInventory } from '../hooks/usePlayerInventory'
 import { usePlayerLocation } from '../hooks/usePlayerLocation'
+import { usePlayerStatus } from '../hooks/usePlayerStatus'
 
-// Placeholder health/inventory values (until real backend integration)
-const PLACEHOLDER_HEALTH = 100
-const PLACEHOLDER_MAX_HEALTH = 100
-const PLACEHOLDER_INVENTORY_COUNT = 0
+/** Health shown until the first status fetch resolves (matches the backend default for players who never fought) */
+const DEFAULT_MAX_HEALTH = 20
 
 export default function Game(): React.ReactElement | null {
     const { isAuthenticated, loading, signIn } = useAuth()
-    const { loading: guidLoading, currentLocationId } = usePlayer()
+    const { loading: guidLoading, currentLocationId, playerGuid } = usePlayer()
     const [searchParams] = useSearchParams()
     const [showLocationInfo, setShowLocationInfo] = useState(false)
 
     const { location } = usePlayerLocation(currentLocationId)
+    const { itemCount: inventoryCount } = usePlayerInventory(playerGuid)
+    const { status } = usePlayerStatus(playerGuid)
 
     useEffect(() => {
         const loc = searchParams.get('loc')
@@ -69,10 +71,10 @@ export default function Game(): React.ReactElement | null {
             )}
             {location && (
                 <StatusPanel
-                    health={PLACEHOLDER_HEALTH}
-                    maxHealth={PLACEHOLDER_MAX_HEALTH}
+                    health={status?.health ?? DEFAULT_MAX_HEALTH}
+                    maxHealth={status?.maxHealth ?? DEFAULT_MAX_HEALTH}
                     locationName={location.name}
-                    inventoryCount={PLACEHOLDER_INVENTORY_COUNT}
+                    inventoryCount={inventoryCount}
                 />
             )}
             <GameView />
@@ -1,17 +1,22 @@
 import React from 'react'
 import WorldMap from '../components/WorldMap'
+import { usePlayer } from '../contexts/PlayerContext'
+import { usePlayerPreferences } from '../hooks/usePlayerPreferences'
 
 /**
  * Map page – full-viewport world graph visualisation.
- * Accessible at /map.
+ * Accessible at /map (the player's discovered places).
+ * The sidebar starts from the player's map preferences (Settings page).
  */
 export default function Map(): React.ReactElement {
+    const { playerGuid } = usePlayer()
+    const { preferences } = usePlayerPreferences(playerGuid)
     return (
         <div className="flex-1 min-h-0 flex flex-col" aria-labelledby="map-page-title">
             <h1 id="map-page-title" tabIndex={-1} className="sr-only">
                 The Shifting Atlas – World Map
             </h1>
-            <WorldMap />
+            <WorldMap defaults={preferences.map} />
         </div>
     )
 }
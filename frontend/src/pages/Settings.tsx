@@ -1,16 +1,194 @@
+import {
+    DESCRIPTION_VERBOSITY_MODES,
+    TEXT_SIZE_PREFERENCES,
+    THEME_PREFERENCES,
+    type DescriptionVerbosity,
+    type MapPreferences,
+    type TextSizePreference,
+    type ThemePreference
+} from '@piquet-h/shared'
 import React from 'react'
+import { usePlayer } from '../contexts/PlayerContext'
+import { usePlayerPreferences } from '../hooks/usePlayerPreferences'
 
+const TEXT_SIZE_LABELS: Record<TextSizePreference, string> = {
+    small: 'Small',
+    medium: 'Medium',
+    large: 'Large',
+    'x-large': 'Extra large'
+}
+
+const THEME_LABELS: Record<ThemePreference, string> = {
+    dark: 'Dark',
+    'high-contrast': 'High contrast'
+}
+
+const VERBOSITY_LABELS: Record<DescriptionVerbosity, { label: string; hint: string }> = {
+    verbose: { label: 'Verbose', hint: 'Full descriptions every time you arrive.' },
+    brief: { label: 'Brief', hint: 'Full descriptions on your first visit only; look to see them again.' },
+    superbrief: { label: 'Superbrief', hint: 'Names and exits only; look to see the description.' }
+}
+
+const FOCUS_DEPTHS: ReadonlyArray<MapPreferences['focusDepth']> = [0, 1, 2, 3]
+
+function Toggle({
+    label,
+    hint,
+    checked,
+    onChange
+}: {
+    label: string
+    hint?: string
+    checked: boolean
+    onChange: (checked: boolean) => void
+}): React.ReactElement {
+    return (
+        <label className="flex items-start gap-2 text-sm">
+            <input
+                type="checkbox"
+                className="mt-1 h-4 w-4 accent-emerald-300"
+                checked={checked}
+                onChange={(e) => onChange(e.target.checked)}
+            />
+            <span>
+                {label}
+                {hint && <span className="block text-xs text-slate-400">{hint}</span>}
+            </span>
+        </label>
+    )
+}
+
+/**
+ * Settings page – the player's preferences. They are stored on the server, so a signed-in player
+ * sees the same choices on every device; changes apply at once.
+ */
 export default function Settings(): React.ReactElement {
+    const { playerGuid } = usePlayer()
+    const { preferences, isLoading, error, updatePreferences } = usePlayerPreferences(playerGuid)
+
     return (
         <div className="page-container">
             <h1 className="text-2xl font-semibold" tabIndex={-1}>
                 Settings
             </h1>
             <p className="mt-3 text-atlas-muted">Configure your preferences for The Shifting Atlas experience.</p>
-            <div className="mt-6 flex flex-col gap-4">
+            <p className="mt-1 text-sm text-slate-400">Changes are saved as you make them and follow you to every device you sign in on.</p>
+            {error && (
+                <p className="mt-3 text-sm text-red-400" role="alert">
+                    Could not sync your preferences: {error}
+                </p>
+            )}
+            <fieldset className="mt-6 flex flex-col gap-4" disabled={isLoading} aria-busy={isLoading}>
                 <section className="card">
                     <h2 className="text-lg font-medium mb-2">Display Settings</h2>
-                    <p className="text-sm text-slate-400">Display settings will be available soon.</p>
+                    <div className="space-y-4">
+                        <label className="flex flex-col gap-1 text-sm max-w-xs">
+                            <span className="font-medium text-slate-200">Text size</span>
+                            <select
+                                className="bg-atlas-bg/40 border border-white/10 rounded px-2 py-1 text-sm"
+                                value={preferences.textSize}
+                                onChange={(e) => updatePreferences({ textSize: e.target.value as TextSizePreference })}
+                            >
+                                {TEXT_SIZE_PREFERENCES.map((size) => (
+                                    <option key={size} value={size}>
+                                        {TEXT_SIZE_LABELS[size]}
+                                    </option>
+                                ))}
+                            </select>
+                        </label>
+                        <fieldset>
+                            <legend className="text-sm font-medium text-slate-200">Theme</legend>
+                            <div className="mt-2 flex gap-4">
+                                {THEME_PREFERENCES.map((theme) => (
+                                    <label key={theme} className="flex items-center gap-2 text-sm">
+                                        <input
+                                            type="radio"
+                                            name="theme"
+                                            className="h-4 w-4 accent-emerald-300"
+                                            value={theme}
+                                            checked={preferences.theme === theme}
+                                            onChange={() => updatePreferences({ theme })}
+                                        />
+                                        {THEME_LABELS[theme]}
+                                    </label>
+                                ))}
+                            </div>
+                        </fieldset>
+                        <Toggle
+                            label="Reduce motion"
+                            hint="Turns off animations and transitions. Your device's own setting is always honoured."
+                            checked={preferences.reducedMotion}
+                            onChange={(reducedMotion) => updatePreferences({ reducedMotion })}
+                        />
+                    </div>
+                </section>
+                <section className="card">
+                    <h2 className="text-lg font-medium mb-2">Gameplay Settings</h2>
+                    <div className="space-y-4">
+                        <fieldset>
+                            <legend className="text-sm font-medium text-slate-200">Location descriptions</legend>
+                            <div className="mt-2 space-y-2">
+                                {DESCRIPTION_VERBOSITY_MODES.map((mode) => (
+                                    <label key={mode} className="flex items-start gap-2 text-sm">
+                                        <input
+                                            type="radio"
+                                            name="description-verbosity"
+                                            className="mt-1 h-4 w-4 accent-emerald-300"
+                                            value={mode}
+                                            checked={preferences.verbosity === mode}
+                                            onChange={() => updatePreferences({ verbosity: mode })}
+                                        />
+                                        <span>
+                                            {VERBOSITY_LABELS[mode].label}
+                                            <span className="block text-xs text-slate-400">{VERBOSITY_LABELS[mode].hint}</span>
+                                        </span>
+                                    </label>
+                                ))}
+                            </div>
+                        </fieldset>
+                        <Toggle
+                            label="Look around after every move"
+                            hint="Lists the items, people and players present each time you arrive."
+                            checked={preferences.autoLookOnMove}
+                            onChange={(autoLookOnMove) => updatePreferences({ autoLookOnMove })}
+                        />
+                        <Toggle
+                            label="Show navigation buttons"
+                            checked={preferences.navigationUIEnabled}
+                            onChange={(navigationUIEnabled) => updatePreferences({ navigationUIEnabled })}
+                        />
+                    </div>
+                </section>
+                <section className="card">
+                    <h2 className="text-lg font-medium mb-2">Map Settings</h2>
+                    <div className="space-y-3">
+                        <Toggle
+                            label="Show outside places"
+                            checked={preferences.map.showOutsideNodes}
+                            onChange={(showOutsideNodes) => updatePreferences({ map: { showOutsideNodes } })}
+                        />
+                        <Toggle
+                            label="Show inside places"
+                            checked={preferences.map.showInsideNodes}
+                            onChange={(showInsideNodes) => updatePreferences({ map: { showInsideNodes } })}
+                        />
+                        <label className="flex flex-col gap-1 text-sm max-w-xs">
+                            <span className="font-medium text-slate-200">Focus depth</span>
+                            <select
+                                className="bg-atlas-bg/40 border border-white/10 rounded px-2 py-1 text-sm"
+                                value={preferences.map.focusDepth}
+                                onChange={(e) =>
+                                    updatePreferences({ map: { focusDepth: Number(e.target.value) as MapPreferences['focusDepth'] } })
+                                }
+                            >
+                                {FOCUS_DEPTHS.map((depth) => (
+                                    <option key={depth} value={depth}>
+                                        {depth === 0 ? 'Focused place only' : depth === 1 ? '1 exit' : `${depth} exits`}
+                                    </option>
+                                ))}
+                            </select>
+                        </label>
+                    </div>
                 </section>
                 <section className="card">
                     <h2 className="text-lg font-medium mb-2">Audio Settings</h2>
@@ -20,7 +198,7 @@ export default function Settings(): React.ReactElement {
                     <h2 className="text-lg font-medium mb-2">Account Settings</h2>
                     <p className="text-sm text-slate-400">Account management will be available soon.</p>
                 </section>
-            </div>
+            </fieldset>
         </div>
     )
 }
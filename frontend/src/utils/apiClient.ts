@@ -3,7 +3,22 @@
  * - Validates player GUID format.
  * - Provides typed request helpers for common backend operations.
  */
-import type { MoveRequest } from '@piquet-h/shared'
+import type {
+    AttackRequest,
+    ChatMode,
+    ChatRequest,
+    DescriptionVerbosity,
+    ExitLockRequest,
+    FleeRequest,
+    ItemActionRequest,
+    MoveRequest,
+    PlayerPreferencesPatch,
+    TalkRequest,
+    TravelRequest,
+    VerbosityRequest,
+    WaitAction,
+    WaitRequest
+} from '@piquet-h/shared'
 
 /**
  * Validates a string is a valid GUID format
@@ -38,6 +53,101 @@ export function buildLocationUrl(locationId: string | null | undefined): string
     return `/api/location/${locationId}`
 }
 
+/**
+ * Build URL for GET /api/location/{locationId}/history (recent events at a location, for `history`)
+ * @throws Error if locationId is not a valid GUID
+ */
+export function buildLocationHistoryUrl(locationId: string | null | undefined): string {
+    if (!isValidGuid(locationId)) {
+        throw new Error('Location ID must be a valid GUID')
+    }
+    return `/api/location/${locationId}/history`
+}
+
+/**
+ * Build URL for GET /api/player/{playerId}/inventory
+ * @throws Error if playerId is not a valid GUID
+ */
+export function buildInventoryUrl(playerId: string | null | undefined): string {
+    if (!isValidGuid(playerId)) {
+        throw new Error('Player ID must be a valid GUID')
+    }
+    return `/api/player/${playerId}/inventory`
+}
+
+/**
+ * Build URL for GET /api/player/{playerId}/quests
+ * @throws Error if playerId is not a valid GUID
+ */
+export function buildQuestsUrl(playerId: string | null | undefined): string {
+    if (!isValidGuid(playerId)) {
+        throw new Error('Player ID must be a valid GUID')
+    }
+    return `/api/player/${playerId}/quests`
+}
+
+/**
+ * Build URL for GET /api/player/{playerId}/discoveries (discovery journal, for `discoveries`)
+ * @throws Error if playerId is not a valid GUID
+ */
+export function buildDiscoveriesUrl(playerId: string | null | undefined): string {
+    if (!isValidGuid(playerId)) {
+        throw new Error('Player ID must be a valid GUID')
+    }
+    return `/api/player/${playerId}/discoveries`
+}
+
+/**
+ * Build URL for DELETE /api/player/{playerId}/clarification (drops the open clarification question)
+ * @throws Error if playerId is not a valid GUID
+ */
+export function buildClarificationUrl(playerId: string | null | undefined): string {
+    if (!isValidGuid(playerId)) {
+        throw new Error('Player ID must be a valid GUID')
+    }
+    return `/api/player/${playerId}/clarification`
+}
+
+/**
+ * Build URL for GET /api/world/players (players online, for `who`)
+ */
+export function buildOnlinePlayersUrl(): string {
+    return '/api/world/players'
+}
+
+/**
+ * Build URL for GET /api/player/{playerId}/events (server-sent live location events)
+ * @throws Error if playerId is not a valid GUID
+ */
+export function buildPlayerEventsUrl(playerId: string | null | undefined): string {
+    if (!isValidGuid(playerId)) {
+        throw new Error('Player ID must be a valid GUID')
+    }
+    return `/api/player/${playerId}/events`
+}
+
+/**
+ * Build URL for GET /api/player/{playerId}/chat (recent says and shouts at the player's location)
+ * @throws Error if playerId is not a valid GUID
+ */
+export function buildChatHistoryUrl(playerId: string | null | undefined): string {
+    if (!isValidGuid(playerId)) {
+        throw new Error('Player ID must be a valid GUID')
+    }
+    return `/api/player/${playerId}/chat`
+}
+
+/**
+ * Build URL for GET /api/player/{playerId}/status
+ * @throws Error if playerId is not a valid GUID
+ */
+export function buildPlayerStatusUrl(playerId: string | null | undefined): string {
+    if (!isValidGuid(playerId)) {
+        throw new Error('Player ID must be a valid GUID')
+    }
+    return `/api/player/${playerId}/status`
+}
+
 /**
  * Build URL and body for move command
  * POST /api/player/{playerId}/move with body { direction }
@@ -75,6 +185,228 @@ export function buildResolveCommandRequest(
     }
 }
 
+/**
+ * Build URL and body for executing a multi-intent command chain
+ * POST /api/player/{playerId}/command with body { inputText, steps? }
+ * `steps` is the plan returned by the resolver, sent back unchanged; the server refuses to run a chain that differs from it.
+ * Server runs each step through its canonical service and stops at the first failure or denial
+ * @throws Error if playerId is not a valid GUID
+ */
+export function buildExecuteCommandRequest(
+    playerId: string | null,
+    inputText: string,
+    steps?: unknown[]
+): { url: string; method: string; body: { inputText: string; steps?: unknown[] } } {
+    if (!isValidGuid(playerId)) {
+        throw new Error('Player ID must be a valid GUID')
+    }
+    return {
+        url: `/api/player/${playerId}/command`,
+        method: 'POST',
+        body: { inputText, ...(steps ? { steps } : {}) }
+    }
+}
+
+/**
+ * Build URL and body for an item pickup or drop
+ * POST /api/player/{playerId}/take|drop with body { itemName }
+ * Server resolves the item against the player's current location (take) or inventory (drop)
+ * @throws Error if playerId is not a valid GUID
+ */
+export function buildItemActionRequest(
+    playerId: string | null,
+    action: 'take' | 'drop',
+    itemName: string
+): { url: string; method: string; body: ItemActionRequest } {
+    if (!isValidGuid(playerId)) {
+        throw new Error('Player ID must be a valid GUID')
+    }
+    return {
+        url: `/api/player/${playerId}/${action}`,
+        method: 'POST',
+        body: { itemName }
+    }
+}
+
+/**
+ * Build URL and body for talking to an NPC
+ * POST /api/player/{playerId}/talk with body { npcName, message? }
+ * Server resolves the NPC against the player's current location
+ * @throws Error if playerId is not a valid GUID
+ */
+export function buildTalkRequest(
+    playerId: string | null,
+    npcName: string,
+    message?: string
+): { url: string; method: string; body: TalkRequest } {
+    if (!isValidGuid(playerId)) {
+        throw new Error('Player ID must be a valid GUID')
+    }
+    return {
+        url: `/api/player/${playerId}/talk`,
+        method: 'POST',
+        body: { npcName, ...(message ? { message } : {}) }
+    }
+}
+
+/**
+ * Build URL and body for locking or unlocking an exit
+ * POST /api/player/{playerId}/lock or /unlock with body { direction }
+ * Server checks the player's inventory for a matching key
+ * @throws Error if playerId is not a valid GUID
+ */
+export function buildExitLockRequest(
+    playerId: string | null,
+    action: 'lock' | 'unlock',
+    direction: string
+): { url: string; method: string; body: ExitLockRequest } {
+    if (!isValidGuid(playerId)) {
+        throw new Error('Player ID must be a valid GUID')
+    }
+    return {
+        url: `/api/player/${playerId}/${action}`,
+        method: 'POST',
+        body: { direction }
+    }
+}
+
+/**
+ * Build URL and body for a combat round
+ * POST /api/player/{playerId}/attack with body { npcName? } (omitted → keep fighting the current opponent)
+ * POST /api/player/{playerId}/defend with an empty body
+ * POST /api/player/{playerId}/flee with body { direction? } (omitted → any unlocked exit)
+ * @throws Error if playerId is not a valid GUID
+ */
+export function buildCombatRequest(
+    playerId: string | null,
+    action: 'attack' | 'defend' | 'flee',
+    target?: string
+): { url: string; method: string; body: AttackRequest | FleeRequest } {
+    if (!isValidGuid(playerId)) {
+        throw new Error('Player ID must be a valid GUID')
+    }
+    let body: AttackRequest | FleeRequest = {}
+    if (target && action === 'attack') body = { npcName: target }
+    if (target && action === 'flee') body = { direction: target }
+    return {
+        url: `/api/player/${playerId}/${action}`,
+        method: 'POST',
+        body
+    }
+}
+
+/**
+ * Build URL and body for spending time in place
+ * POST /api/player/{playerId}/wait | rest | sleep with body { durationMs? } (omitted → the action's default)
+ * @throws Error if playerId is not a valid GUID
+ */
+export function buildWaitRequest(
+    playerId: string | null,
+    action: WaitAction,
+    durationMs?: number
+): { url: string; method: string; body: WaitRequest } {
+    if (!isValidGuid(playerId)) {
+        throw new Error('Player ID must be a valid GUID')
+    }
+    return {
+        url: `/api/player/${playerId}/${action}`,
+        method: 'POST',
+        body: durationMs !== undefined ? { durationMs } : {}
+    }
+}
+
+/**
+ * Build URL and body for travelling to a named place along the fastest known route
+ * POST /api/player/{playerId}/travel with body { destination }
+ * @throws Error if playerId is not a valid GUID
+ */
+export function buildTravelRequest(playerId: string | null, destination: string): { url: string; method: string; body: TravelRequest } {
+    if (!isValidGuid(playerId)) {
+        throw new Error('Player ID must be a valid GUID')
+    }
+    return {
+        url: `/api/player/${playerId}/travel`,
+        method: 'POST',
+        body: { destination }
+    }
+}
+
+/**
+ * Build URL and body for a chat message
+ * POST /api/player/{playerId}/{say|shout|whisper} with body { message, to? } (`to` names the whisper recipient)
+ * @throws Error if playerId is not a valid GUID
+ */
+export function buildChatRequest(
+    playerId: string | null,
+    mode: ChatMode,
+    message: string,
+    to?: string
+): { url: string; method: string; body: ChatRequest } {
+    if (!isValidGuid(playerId)) {
+        throw new Error('Player ID must be a valid GUID')
+    }
+    return {
+        url: `/api/player/${playerId}/${mode}`,
+        method: 'POST',
+        body: to !== undefined ? { message, to } : { message }
+    }
+}
+
+/**
+ * Build URL for GET /api/player/{playerId}/verbosity (the player's description verbosity)
+ * @throws Error if playerId is not a valid GUID
+ */
+export function buildVerbosityUrl(playerId: string | null | undefined): string {
+    if (!isValidGuid(playerId)) {
+        throw new Error('Player ID must be a valid GUID')
+    }
+    return `/api/player/${playerId}/verbosity`
+}
+
+/**
+ * Build URL and body for choosing how much location prose arrivals show
+ * PUT /api/player/{playerId}/verbosity with body { verbosity }
+ * @throws Error if playerId is not a valid GUID
+ */
+export function buildVerbosityRequest(
+    playerId: string | null,
+    verbosity: DescriptionVerbosity
+): { url: string; method: string; body: VerbosityRequest } {
+    return {
+        url: buildVerbosityUrl(playerId),
+        method: 'PUT',
+        body: { verbosity }
+    }
+}
+
+/**
+ * Build URL for the player's preferences (Settings page)
+ * GET /api/player/{playerId}/preferences
+ * @throws Error if playerId is not a valid GUID
+ */
+export function buildPreferencesUrl(playerId: string | null | undefined): string {
+    if (!isValidGuid(playerId)) {
+        throw new Error('Player ID must be a valid GUID')
+    }
+    return `/api/player/${playerId}/preferences`
+}
+
+/**
+ * Build URL and body for changing some of the player's preferences
+ * PATCH /api/player/{playerId}/preferences with the changed fields as body
+ * @throws Error if playerId is not a valid GUID
+ */
+export function buildPreferencesRequest(
+    playerId: string | null,
+    patch: PlayerPreferencesPatch
+): { url: string; method: string; body: PlayerPreferencesPatch } {
+    return {
+        url: buildPreferencesUrl(playerId),
+        method: 'PATCH',
+        body: patch
+    }
+}
+
 /**
  * Build headers for API requests
  */
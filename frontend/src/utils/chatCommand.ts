@@ -0,0 +1,45 @@
+/**
+ * Chat command parsing for the command interface.
+ *
+ * Chat goes straight to the chat endpoints rather than through the command resolver, so the message
+ * keeps its exact wording and case:
+ * - `say <message>` or `'<message>` → say
+ * - `shout <message>` or `yell <message>` → shout
+ * - `whisper [to] <name> <message>`, or `whisper [to] <name with spaces>: <message>` → whisper
+ */
+import type { ChatMode } from '@piquet-h/shared'
+
+export interface ChatCommand {
+    mode: ChatMode
+    message: string
+    /** Whisper recipient's display name */
+    to?: string
+}
+
+const CHAT_VERBS: Record<string, Exclude<ChatMode, 'whisper'>> = { say: 'say', shout: 'shout', yell: 'shout' }
+
+/** Parse a chat command; returns null when the input is not one. */
+export function parseChatCommand(raw: string): ChatCommand | null {
+    const input = raw.trim()
+    if (input.startsWith("'")) {
+        return { mode: 'say', message: input.slice(1).trim() }
+    }
+
+    const match = /^(\S+)(?:\s+([\s\S]*))?$/.exec(input)
+    if (!match) return null
+    const verb = match[1].toLowerCase()
+    const rest = (match[2] ?? '').trim()
+
+    if (CHAT_VERBS[verb]) {
+        return { mode: CHAT_VERBS[verb], message: rest }
+    }
+    if (verb !== 'whisper') return null
+
+    const addressed = rest.replace(/^to\s+/i, '')
+    const colon = addressed.indexOf(':')
+    if (colon >= 0) {
+        return { mode: 'whisper', to: addressed.slice(0, colon).trim(), message: addressed.slice(colon + 1).trim() }
+    }
+    const [to = '', ...words] = addressed.split(/\s+/)
+    return { mode: 'whisper', to, message: words.join(' ') }
+}
@@ -0,0 +1,67 @@
+/**
+ * Last `travel to <place>` route, shared between the command interface and the world map.
+ *
+ * The command interface saves the route after a successful (or partly walked) travel; the map reads it
+ * on load and highlights the route's locations and exits. Only the ids needed for highlighting are kept.
+ */
+import type { TravelLeg } from '@piquet-h/shared'
+import { readFromStorage, removeFromStorage, writeToStorage } from './localStorage'
+
+const STORAGE_KEY = 'tsa.lastTravelRoute'
+
+export type MapRouteLeg = Pick<TravelLeg, 'fromLocationId' | 'toLocationId' | 'direction'>
+
+export interface MapRouteEdgeLike {
+    fromId: string
+    toId: string
+    direction: string
+}
+
+function isRouteLeg(value: unknown): value is MapRouteLeg {
+    const leg = value as Partial<MapRouteLeg> | null
+    return !!leg && typeof leg.fromLocationId === 'string' && typeof leg.toLocationId === 'string' && typeof leg.direction === 'string'
+}
+
+/** Remember the legs of the last travel route (an empty route clears it). */
+export function saveTravelRoute(legs: readonly TravelLeg[]): void {
+    if (legs.length === 0) {
+        removeFromStorage(STORAGE_KEY)
+        return
+    }
+    const route: MapRouteLeg[] = legs.map(({ fromLocationId, toLocationId, direction }) => ({ fromLocationId, toLocationId, direction }))
+    writeToStorage(STORAGE_KEY, JSON.stringify(route))
+}
+
+/** The last travel route, or an empty list when none is stored (or the stored value is malformed). */
+export function loadTravelRoute(): MapRouteLeg[] {
+    const stored = readFromStorage(STORAGE_KEY)
+    if (!stored) return []
+    try {
+        const parsed: unknown = JSON.parse(stored)
+        return Array.isArray(parsed) && parsed.every(isRouteLeg) ? parsed : []
+    } catch {
+        return []
+    }
+}
+
+/**
+ * Which map nodes and edges lie on a route: every location the route passes through, and the indexes
+ * of the edges matching a leg (same endpoints and direction).
+ */
+export function computeRouteHighlight(
+    route: readonly MapRouteLeg[],
+    edges: readonly MapRouteEdgeLike[]
+): { nodeIds: Set<string>; edgeIndexes: Set<number> } {
+    const nodeIds = new Set<string>()
+    const legKeys = new Set<string>()
+    for (const leg of route) {
+        nodeIds.add(leg.fromLocationId)
+        nodeIds.add(leg.toLocationId)
+        legKeys.add(`${leg.fromLocationId}|${leg.direction}|${leg.toLocationId}`)
+    }
+    const edgeIndexes = new Set<number>()
+    edges.forEach((e, i) => {
+        if (legKeys.has(`${e.fromId}|${e.direction}|${e.toId}`)) edgeIndexes.add(i)
+    })
+    return { nodeIds, edgeIndexes }
+}
@@ -1,5 +1,28 @@
 import { describe, expect, it } from 'vitest'
-import { buildHeaders, buildLocationUrl, buildMoveRequest, buildPlayerUrl, isValidGuid } from '../src/utils/apiClient'
+import {
+    buildChatHistoryUrl,
+    buildChatRequest,
+    buildCombatRequest,
+    buildDiscoveriesUrl,
+    buildLocationHistoryUrl,
+    buildVerbosityRequest,
+    buildVerbosityUrl,
+    buildExecuteCommandRequest,
+    buildExitLockRequest,
+    buildHeaders,
+    buildInventoryUrl,
+    buildItemActionRequest,
+    buildLocationUrl,
+    buildMoveRequest,
+    buildPlayerStatusUrl,
+    buildPreferencesRequest,
+    buildPlayerUrl,
+    buildQuestsUrl,
+    buildTalkRequest,
+    buildTravelRequest,
+    buildWaitRequest,
+    isValidGuid
+} from '../src/utils/apiClient'
 
 describe('apiClient', () => {
     describe('isValidGuid', () => {
@@ -73,6 +96,252 @@ describe('apiClient', () => {
         })
     })
 
+    describe('buildItemActionRequest', () => {
+        it('should build take and drop POST requests with the item name', () => {
+            const playerId = '12345678-1234-1234-1234-123456789abc'
+
+            const take = buildItemActionRequest(playerId, 'take', 'lantern')
+            expect(take.url).toBe(`/api/player/${playerId}/take`)
+            expect(take.method).toBe('POST')
+            expect(take.body).toEqual({ itemName: 'lantern' })
+
+            const drop = buildItemActionRequest(playerId, 'drop', 'lantern')
+            expect(drop.url).toBe(`/api/player/${playerId}/drop`)
+        })
+
+        it('should throw error with invalid playerId', () => {
+            expect(() => buildItemActionRequest('invalid', 'take', 'lantern')).toThrow('Player ID must be a valid GUID')
+        })
+    })
+
+    describe('buildTalkRequest', () => {
+        it('should build a talk POST request with the NPC name and optional message', () => {
+            const playerId = '12345678-1234-1234-1234-123456789abc'
+
+            const talk = buildTalkRequest(playerId, 'tomas')
+            expect(talk.url).toBe(`/api/player/${playerId}/talk`)
+            expect(talk.method).toBe('POST')
+            expect(talk.body).toEqual({ npcName: 'tomas' })
+
+            expect(buildTalkRequest(playerId, 'tomas', 'Any news?').body).toEqual({ npcName: 'tomas', message: 'Any news?' })
+        })
+
+        it('should throw error with invalid playerId', () => {
+            expect(() => buildTalkRequest('invalid', 'tomas')).toThrow('Player ID must be a valid GUID')
+        })
+    })
+
+    describe('buildExitLockRequest', () => {
+        it('should build a lock or unlock POST request with the direction', () => {
+            const playerId = '12345678-1234-1234-1234-123456789abc'
+
+            const unlock = buildExitLockRequest(playerId, 'unlock', 'north')
+            expect(unlock.url).toBe(`/api/player/${playerId}/unlock`)
+            expect(unlock.method).toBe('POST')
+            expect(unlock.body).toEqual({ direction: 'north' })
+
+            expect(buildExitLockRequest(playerId, 'lock', 'in').url).toBe(`/api/player/${playerId}/lock`)
+        })
+
+        it('should throw error with invalid playerId', () => {
+            expect(() => buildExitLockRequest('invalid', 'lock', 'north')).toThrow('Player ID must be a valid GUID')
+        })
+    })
+
+    describe('buildCombatRequest', () => {
+        it('should build attack / defend / flee POST requests with the optional target', () => {
+            const playerId = '12345678-1234-1234-1234-123456789abc'
+
+            const attack = buildCombatRequest(playerId, 'attack', 'goblin')
+            expect(attack.url).toBe(`/api/player/${playerId}/attack`)
+            expect(attack.method).toBe('POST')
+            expect(attack.body).toEqual({ npcName: 'goblin' })
+
+            expect(buildCombatRequest(playerId, 'attack').body).toEqual({})
+            expect(buildCombatRequest(playerId, 'defend', 'ignored').body).toEqual({})
+            expect(buildCombatRequest(playerId, 'flee', 'north')).toEqual({
+                url: `/api/player/${playerId}/flee`,
+                method: 'POST',
+                body: { direction: 'north' }
+            })
+        })
+
+        it('should throw error with invalid playerId', () => {
+            expect(() => buildCombatRequest(null, 'attack')).toThrow('Player ID must be a valid GUID')
+        })
+    })
+
+    describe('buildTravelRequest', () => {
+        it('should build a travel POST request with the destination', () => {
+            const playerId = '12345678-1234-1234-1234-123456789abc'
+
+            expect(buildTravelRequest(playerId, 'harbour steps')).toEqual({
+                url: `/api/player/${playerId}/travel`,
+                method: 'POST',
+                body: { destination: 'harbour steps' }
+            })
+        })
+
+        it('should throw for an invalid playerId', () => {
+            expect(() => buildTravelRequest('invalid', 'harbour')).toThrow('Player ID must be a valid GUID')
+        })
+    })
+
+    describe('buildChatRequest', () => {
+        it('should build say / shout / whisper POST requests', () => {
+            const playerId = '12345678-1234-1234-1234-123456789abc'
+
+            expect(buildChatRequest(playerId, 'say', 'Well met')).toEqual({
+                url: `/api/player/${playerId}/say`,
+                method: 'POST',
+                body: { message: 'Well met' }
+            })
+            expect(buildChatRequest(playerId, 'shout', 'Fire!').url).toBe(`/api/player/${playerId}/shout`)
+            expect(buildChatRequest(playerId, 'whisper', 'Meet me at the well', 'Bram').body).toEqual({
+                message: 'Meet me at the well',
+                to: 'Bram'
+            })
+        })
+
+        it('should throw for an invalid playerId', () => {
+            expect(() => buildChatRequest('invalid', 'say', 'hello')).toThrow('Player ID must be a valid GUID')
+            expect(() => buildChatHistoryUrl(null)).toThrow('Player ID must be a valid GUID')
+        })
+
+        it('should build the chat history URL', () => {
+            const playerId = '12345678-1234-1234-1234-123456789abc'
+            expect(buildChatHistoryUrl(playerId)).toBe(`/api/player/${playerId}/chat`)
+        })
+    })
+
+    describe('buildDiscoveriesUrl', () => {
+        it('should build the discovery journal URL', () => {
+            const playerId = '12345678-1234-1234-1234-123456789abc'
+            expect(buildDiscoveriesUrl(playerId)).toBe(`/api/player/${playerId}/discoveries`)
+        })
+
+        it('should throw for an invalid playerId', () => {
+            expect(() => buildDiscoveriesUrl('not-a-guid')).toThrow('Player ID must be a valid GUID')
+        })
+    })
+
+    describe('buildLocationHistoryUrl', () => {
+        it('should build the location history URL', () => {
+            const locationId = '12345678-1234-1234-1234-123456789abc'
+            expect(buildLocationHistoryUrl(locationId)).toBe(`/api/location/${locationId}/history`)
+        })
+
+        it('should throw for an invalid locationId', () => {
+            expect(() => buildLocationHistoryUrl(null)).toThrow('Location ID must be a valid GUID')
+        })
+    })
+
+    describe('buildPreferencesRequest', () => {
+        it('should build the preferences PATCH request', () => {
+            const playerId = '12345678-1234-1234-1234-123456789abc'
+            expect(buildPreferencesRequest(playerId, { theme: 'high-contrast', map: { focusDepth: 2 } })).toEqual({
+                url: `/api/player/${playerId}/preferences`,
+                method: 'PATCH',
+                body: { theme: 'high-contrast', map: { focusDepth: 2 } }
+            })
+        })
+
+        it('should throw for an invalid playerId', () => {
+            expect(() => buildPreferencesRequest('invalid', { reducedMotion: true })).toThrow('Player ID must be a valid GUID')
+        })
+    })
+
+    describe('buildVerbosityRequest', () => {
+        it('should build the verbosity PUT request', () => {
+            const playerId = '12345678-1234-1234-1234-123456789abc'
+            expect(buildVerbosityUrl(playerId)).toBe(`/api/player/${playerId}/verbosity`)
+            expect(buildVerbosityRequest(playerId, 'brief')).toEqual({
+                url: `/api/player/${playerId}/verbosity`,
+                method: 'PUT',
+                body: { verbosity: 'brief' }
+            })
+        })
+
+        it('should throw for an invalid playerId', () => {
+            expect(() => buildVerbosityRequest('not-a-guid', 'brief')).toThrow('Player ID must be a valid GUID')
+        })
+    })
+
+    describe('buildWaitRequest', () => {
+        it('should build wait / rest / sleep POST requests with the optional duration', () => {
+            const playerId = '12345678-1234-1234-1234-123456789abc'
+
+            expect(buildWaitRequest(playerId, 'wait', 7_200_000)).toEqual({
+                url: `/api/player/${playerId}/wait`,
+                method: 'POST',
+                body: { durationMs: 7_200_000 }
+            })
+            expect(buildWaitRequest(playerId, 'sleep').body).toEqual({})
+            expect(buildWaitRequest(playerId, 'rest').url).toBe(`/api/player/${playerId}/rest`)
+        })
+
+        it('should throw error with invalid playerId', () => {
+            expect(() => buildWaitRequest('not-a-guid', 'wait')).toThrow('Player ID must be a valid GUID')
+        })
+    })
+
+    describe('buildExecuteCommandRequest', () => {
+        it('should build the command chain POST request', () => {
+            const playerId = '12345678-1234-1234-1234-123456789abc'
+            expect(buildExecuteCommandRequest(playerId, 'go north then look')).toEqual({
+                url: `/api/player/${playerId}/command`,
+                method: 'POST',
+                body: { inputText: 'go north then look' }
+            })
+        })
+
+        it('should send the resolved steps back when given', () => {
+            const playerId = '12345678-1234-1234-1234-123456789abc'
+            const steps = [{ order: 0, actionKind: 'Move', direction: 'north' }]
+            expect(buildExecuteCommandRequest(playerId, 'go north then look', steps).body).toEqual({
+                inputText: 'go north then look',
+                steps
+            })
+        })
+
+        it('should throw error with invalid playerId', () => {
+            expect(() => buildExecuteCommandRequest(null, 'look')).toThrow('Player ID must be a valid GUID')
+        })
+    })
+
+    describe('buildPlayerStatusUrl', () => {
+        it('should build status URL with valid playerId', () => {
+            const playerId = '12345678-1234-1234-1234-123456789abc'
+            expect(buildPlayerStatusUrl(playerId)).toBe(`/api/player/${playerId}/status`)
+        })
+
+        it('should throw error with invalid playerId', () => {
+            expect(() => buildPlayerStatusUrl('invalid')).toThrow('Player ID must be a valid GUID')
+        })
+    })
+
+    describe('buildInventoryUrl', () => {
+        it('should build inventory URL with valid playerId', () => {
+            const playerId = '12345678-1234-1234-1234-123456789abc'
+            expect(buildInventoryUrl(playerId)).toBe(`/api/player/${playerId}/inventory`)
+        })
+
+        it('should throw error with invalid playerId', () => {
+            expect(() => buildInventoryUrl(null)).toThrow('Player ID must be a valid GUID')
+        })
+    })
+
+    describe('buildQuestsUrl', () => {
+        it('should build quests URL with valid playerId', () => {
+            const playerId = '12345678-1234-1234-1234-123456789abc'
+            expect(buildQuestsUrl(playerId)).toBe(`/api/player/${playerId}/quests`)
+        })
+
+        it('should throw error with invalid playerId', () => {
+            expect(() => buildQuestsUrl(null)).toThrow('Player ID must be a valid GUID')
+        })
+    })
+
     describe('buildHeaders', () => {
         it('should return empty headers when no additional headers', () => {
             const headers = buildHeaders()
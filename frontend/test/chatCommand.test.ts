@@ -0,0 +1,45 @@
+/**
+ * Chat Command Parsing Tests
+ *
+ * Tests for recognising say / shout / whisper input and splitting out the recipient.
+ */
+import { describe, expect, it } from 'vitest'
+import { parseChatCommand } from '../src/utils/chatCommand'
+
+describe('parseChatCommand', () => {
+    it('parses say and the quote shorthand, keeping the wording', () => {
+        expect(parseChatCommand('say Well met, Bram!')).toEqual({ mode: 'say', message: 'Well met, Bram!' })
+        expect(parseChatCommand("  'Anyone here?")).toEqual({ mode: 'say', message: 'Anyone here?' })
+        expect(parseChatCommand('SAY Hello')).toEqual({ mode: 'say', message: 'Hello' })
+    })
+
+    it('parses shout and yell', () => {
+        expect(parseChatCommand('shout Fire at the docks!')).toEqual({ mode: 'shout', message: 'Fire at the docks!' })
+        expect(parseChatCommand('yell help')).toEqual({ mode: 'shout', message: 'help' })
+    })
+
+    it('parses whisper with a one-word or colon-delimited recipient', () => {
+        expect(parseChatCommand('whisper bram meet me at the well')).toEqual({
+            mode: 'whisper',
+            to: 'bram',
+            message: 'meet me at the well'
+        })
+        expect(parseChatCommand('whisper to Old Tam: the key is under the mat')).toEqual({
+            mode: 'whisper',
+            to: 'Old Tam',
+            message: 'the key is under the mat'
+        })
+    })
+
+    it('leaves an empty message for the server to refuse', () => {
+        expect(parseChatCommand('say')).toEqual({ mode: 'say', message: '' })
+        expect(parseChatCommand('whisper')).toEqual({ mode: 'whisper', to: '', message: '' })
+    })
+
+    it('returns null for other commands', () => {
+        expect(parseChatCommand('talk to tomas')).toBeNull()
+        expect(parseChatCommand('sayings')).toBeNull()
+        expect(parseChatCommand('look')).toBeNull()
+        expect(parseChatCommand('')).toBeNull()
+    })
+})
@@ -1,6 +1,21 @@
 import { describe, expect, it } from 'vitest'
 
-import { formatMoveResponse } from '../src/components/CommandInterface'
+import {
+    formatCombatResponse,
+    formatCommandChainResponse,
+    formatDiscoveryJournalResponse,
+    formatExitLockResponse,
+    formatInventoryResponse,
+    formatLocationHistoryResponse,
+    formatLookResponse,
+    formatMoveResponse,
+    formatOnlinePlayersResponse,
+    formatQuestsResponse,
+    formatTalkResponse,
+    formatTravelResponse,
+    formatVerbosityResponse,
+    formatWaitResponse
+} from '../src/components/CommandInterface'
 
 describe('CommandInterface output formatting', () => {
     it('includes exits inline as part of the narrative line', () => {
@@ -40,4 +55,291 @@ describe('CommandInterface output formatting', () => {
 
         expect(text).toContain('(Exits: north, east, northeast, northwest)')
     })
+
+    it('shows only name and exits when the arrival prose was omitted for brevity', () => {
+        const text = formatMoveResponse('north', {
+            id: '11111111-1111-1111-1111-111111111111',
+            name: 'North Road',
+            description: {
+                text: '',
+                html: '',
+                provenance: { compiledAt: new Date().toISOString(), layersApplied: [], supersededSentences: 0 }
+            },
+            descriptionOmitted: 'brief',
+            exits: [{ direction: 'north' }, { direction: 'south' }]
+        })
+
+        expect(text).toBe('Moved north -> North Road (Exits: north, south)')
+    })
+
+    it('confirms verbosity changes', () => {
+        expect(formatVerbosityResponse({ verbosity: 'brief' })).toMatch(/^Brief descriptions: /)
+        expect(formatVerbosityResponse({ verbosity: 'superbrief' })).toMatch(/^Superbrief descriptions: names and exits only/)
+        expect(formatVerbosityResponse({ verbosity: 'verbose' })).toMatch(/^Verbose descriptions: /)
+    })
+
+    it('lists items lying at the location after the exits on look', () => {
+        const text = formatLookResponse({
+            id: '33333333-3333-3333-3333-333333333333',
+            name: 'Old Pier',
+            description: {
+                text: 'Weathered planks creak underfoot.',
+                html: '<p>Weathered planks creak underfoot.</p>',
+                provenance: { compiledAt: new Date().toISOString(), layersApplied: [], supersededSentences: 0 }
+            },
+            exits: [{ direction: 'west' }],
+            items: [
+                { id: 'item-1', name: 'Brass Lantern' },
+                { id: 'item-2', name: 'Coil of Rope' }
+            ]
+        })
+
+        expect(text).toBe('Old Pier: Weathered planks creak underfoot. (Exits: west) You see: Brass Lantern, Coil of Rope.')
+    })
+
+    it('lists NPCs present after any items on look', () => {
+        const text = formatLookResponse({
+            id: '44444444-4444-4444-4444-444444444444',
+            name: 'Ferry Landing',
+            description: {
+                text: 'A rope ferry bobs against the bank.',
+                html: '<p>A rope ferry bobs against the bank.</p>',
+                provenance: { compiledAt: new Date().toISOString(), layersApplied: [], supersededSentences: 0 }
+            },
+            items: [{ id: 'item-1', name: 'Oar' }],
+            npcs: [{ id: 'npc-1', name: 'Old Tomas', disposition: 'friendly' }]
+        })
+
+        expect(text).toBe('Ferry Landing: A rope ferry bobs against the bank. You see: Oar. Also here: Old Tomas.')
+    })
+
+    it('lists other players present after NPCs on look', () => {
+        const text = formatLookResponse({
+            id: '55555555-5555-5555-5555-555555555555',
+            name: 'Village Square',
+            description: {
+                text: 'A well and a notice board.',
+                html: '<p>A well and a notice board.</p>',
+                provenance: { compiledAt: new Date().toISOString(), layersApplied: [], supersededSentences: 0 }
+            },
+            npcs: [{ id: 'npc-1', name: 'Old Tomas', disposition: 'friendly' }],
+            players: [{ name: 'Ada' }, { name: 'Traveller 3f2a' }]
+        })
+
+        expect(text).toBe('Village Square: A well and a notice board. Also here: Old Tomas. Other players here: Ada, Traveller 3f2a.')
+    })
+
+    it('formats inventory with quantities and capacity, or an empty message', () => {
+        const acquiredAt = new Date().toISOString()
+        expect(formatInventoryResponse({ playerId: 'p', items: [], inventoryVersion: 0, capacity: 20 })).toBe('You are carrying nothing.')
+        expect(
+            formatInventoryResponse({
+                playerId: 'p',
+                items: [
+                    { id: 'a', name: 'Brass Lantern', quantity: 1, acquiredAt },
+                    { id: 'b', name: 'Copper Coin', quantity: 3, acquiredAt }
+                ],
+                inventoryVersion: 2,
+                capacity: 20
+            })
+        ).toBe('You are carrying: Brass Lantern, Copper Coin (x3). (2/20)')
+    })
+
+    it('formats an NPC reply as a quoted line', () => {
+        expect(
+            formatTalkResponse({
+                npc: { id: 'n', name: 'Old Tomas', disposition: 'friendly' },
+                line: 'The river runs high.',
+                source: 'ai',
+                turnCount: 3
+            })
+        ).toBe('Old Tomas: "The river runs high."')
+    })
+
+    it('formats a lock change with the key used', () => {
+        expect(
+            formatExitLockResponse({ locationId: 'loc', direction: 'in', lockState: 'locked', key: { id: 'k', name: 'Iron Key' } })
+        ).toBe('You lock the way in with the Iron Key.')
+    })
+
+    it("formats a combat round with narration, summary and both sides' hit points", () => {
+        const round = {
+            action: 'attack' as const,
+            npc: { id: 'npc-1', name: 'Goblin', disposition: 'hostile' as const },
+            round: 1,
+            outcome: 'ongoing' as const,
+            player: { hp: 15, maxHp: 20 },
+            npcHp: { hp: 4, maxHp: 12 },
+            rolls: [],
+            summary: 'You hit Goblin for 8 damage. Goblin hits you for 5 damage.',
+            locationId: 'loc'
+        }
+
+        expect(formatCombatResponse(round)).toBe(
+            'You hit Goblin for 8 damage. Goblin hits you for 5 damage. (You: 15/20 HP, Goblin: 4/12 HP)'
+        )
+        expect(formatCombatResponse({ ...round, narrative: 'Steel rings in the alley.' })).toMatch(/^Steel rings in the alley\. You hit/)
+    })
+
+    it('formats time spent in place, with hit points after rest or sleep', () => {
+        const waited = {
+            action: 'wait' as const,
+            durationMs: 600_000,
+            narrative: 'Time passes quietly.',
+            clock: { tickBefore: 0, tickAfter: 600_000, locationAnchor: 0, reconciliationMethod: 'slow' as const },
+            player: { hp: 4, maxHp: 20 },
+            hpRestored: 0,
+            summary: 'You wait for 10 minutes.',
+            locationId: '11111111-1111-1111-1111-111111111111'
+        }
+
+        expect(formatWaitResponse(waited)).toBe('Time passes quietly. You wait for 10 minutes.')
+        expect(
+            formatWaitResponse({ ...waited, action: 'rest', player: { hp: 14, maxHp: 20 }, summary: 'You rest for 4 hours. (+10 HP)' })
+        ).toBe('Time passes quietly. You rest for 4 hours. (+10 HP) (You: 14/20 HP)')
+    })
+
+    it('formats a journey as the travel summary followed by where the player ended up', () => {
+        const location = {
+            id: '22222222-2222-2222-2222-222222222222',
+            name: 'Lantern Lane',
+            description: {
+                text: 'Lamps on hooks.',
+                html: '<p>Lamps on hooks.</p>',
+                provenance: { compiledAt: new Date().toISOString(), layersApplied: [], supersededSentences: 0 }
+            },
+            exits: [{ direction: 'north' as const }, { direction: 'west' as const }]
+        }
+
+        expect(
+            formatTravelResponse({
+                destination: { id: '33333333-3333-3333-3333-333333333333', name: 'Market Square' },
+                route: [],
+                legsCompleted: 1,
+                completed: false,
+                stopped: { reason: 'locked', direction: 'north', message: 'The way north is locked.' },
+                travelledMs: 300_000,
+                location,
+                summary: 'You stop at Lantern Lane after 1 leg of 2 toward Market Square. The way north is locked.'
+            })
+        ).toBe(
+            'You stop at Lantern Lane after 1 leg of 2 toward Market Square. The way north is locked. Lantern Lane: Lamps on hooks. (Exits: north, west)'
+        )
+    })
+
+    it('formats a command chain step by step and says where it stopped', () => {
+        const loc = {
+            id: '11111111-1111-1111-1111-111111111111',
+            name: 'Walled Garden',
+            description: {
+                text: 'Herb beds.',
+                html: '<p>Herb beds.</p>',
+                provenance: { compiledAt: new Date().toISOString(), layersApplied: [], supersededSentences: 0 }
+            }
+        }
+
+        expect(
+            formatCommandChainResponse({
+                inputText: 'take lantern then go north then go west then look',
+                completed: false,
+                stoppedAt: 2,
+                steps: [
+                    { order: 0, actionKind: 'Take', status: 'succeeded', data: { item: { id: 'i', name: 'Brass Lantern' } } },
+                    { order: 1, actionKind: 'Move', direction: 'north', status: 'succeeded', data: loc },
+                    {
+                        order: 2,
+                        actionKind: 'Move',
+                        direction: 'west',
+                        status: 'denied',
+                        error: { code: 'NoExit', message: 'You cannot go west from here.' }
+                    },
+                    { order: 3, actionKind: 'Look', status: 'skipped' }
+                ]
+            })
+        ).toBe(
+            'You take the Brass Lantern.\nMoved north -> Walled Garden: Herb beds.\nStopped at step 3: You cannot go west from here. (1 more skipped)'
+        )
+    })
+
+    it('formats the quest journal with objective progress, or an empty message', () => {
+        expect(formatQuestsResponse({ playerId: 'p', quests: [] })).toBe('You have no quests yet.')
+        expect(
+            formatQuestsResponse({
+                playerId: 'p',
+                quests: [
+                    {
+                        id: 'q1',
+                        title: 'Lost Lantern',
+                        status: 'active',
+                        objectives: [
+                            { description: 'Go to the docks', kind: 'visit', progress: 1, required: 1, completed: true },
+                            { description: 'Find 2 coins', kind: 'collect', progress: 1, required: 2, completed: false }
+                        ],
+                        rewards: ['Silver Coin']
+                    },
+                    { id: 'q2', title: 'Old Errand', status: 'completed', objectives: [], rewards: [] }
+                ]
+            })
+        ).toBe('Active quests: Lost Lantern: Go to the docks (done); Find 2 coins (1/2). Finished: Old Errand (completed).')
+    })
+
+    it('formats the discovery journal with visit counts, or an empty message', () => {
+        const seenUtc = new Date().toISOString()
+        expect(formatDiscoveryJournalResponse({ discoveries: [], total: 0 })).toBe('You have not discovered any places yet.')
+        expect(
+            formatDiscoveryJournalResponse({
+                discoveries: [
+                    {
+                        locationId: 'loc-2',
+                        locationName: 'Lantern Lane',
+                        firstSeenTick: 2,
+                        firstSeenUtc: seenUtc,
+                        lastSeenUtc: seenUtc,
+                        visitCount: 3
+                    },
+                    {
+                        locationId: 'loc-1',
+                        locationName: 'Village Square',
+                        firstSeenTick: 1,
+                        firstSeenUtc: seenUtc,
+                        lastSeenUtc: seenUtc,
+                        visitCount: 1
+                    }
+                ],
+                total: 2
+            })
+        ).toBe('Places discovered: 2. Most recent: Lantern Lane (3 visits), Village Square (1 visit).')
+    })
+
+    it('formats location history oldest first, or an empty message', () => {
+        expect(formatLocationHistoryResponse({ locationId: 'loc-1', events: [] })).toBe('Nothing of note has happened here recently.')
+        const entry = (summary: string, occurredUtc: string) => ({
+            eventId: occurredUtc,
+            eventType: 'Player.Take',
+            occurredUtc,
+            actorKind: 'player' as const,
+            summary,
+            correlationId: 'corr-1'
+        })
+        expect(
+            formatLocationHistoryResponse({
+                locationId: 'loc-1',
+                events: [entry('Someone took a brass lantern.', '2026-03-01T12:01:00Z'), entry('Someone arrived.', '2026-03-01T12:00:00Z')]
+            })
+        ).toBe('Recently here: Someone arrived. Someone took a brass lantern.')
+    })
+
+    it('formats the who list with where each player is, or an empty message', () => {
+        const lastSeenUtc = new Date().toISOString()
+        expect(formatOnlinePlayersResponse({ players: [], count: 0 })).toBe('No players are online.')
+        expect(
+            formatOnlinePlayersResponse({
+                players: [
+                    { name: 'Ada', locationId: 'loc-1', locationName: 'Village Square', lastSeenUtc },
+                    { name: 'Bram', locationId: 'loc-2', lastSeenUtc }
+                ],
+                count: 2
+            })
+        ).toBe('Players online (2): Ada (Village Square), Bram (somewhere unknown).')
+    })
 })
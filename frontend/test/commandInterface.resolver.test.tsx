@@ -6,9 +6,25 @@
  *
  * Acceptance criteria covered:
  * - Happy-path Move: resolver returns Move → canonical move endpoint is called
- * - Happy-path Look: resolver returns Look → canonical look endpoint is called
+ * - Happy-path Look: resolver returns Look → canonical look endpoint is called with the viewer's x-player-guid
+ * - Happy-path Take: resolver returns Take → canonical take endpoint is called with the item name
+ * - Happy-path Talk: resolver returns Talk → canonical talk endpoint is called with the NPC name
+ * - Happy-path Unlock: resolver returns Unlock → canonical unlock endpoint is called with the direction
+ * - Happy-path Attack: resolver returns Attack → canonical attack endpoint is called with the NPC name
+ * - Happy-path Travel: resolver returns Travel → canonical travel endpoint is called; the route is saved for the map
+ * - Chain: resolver returns steps → the resolved steps are posted to POST /api/player/{id}/command as they are
+ * - Built-in inventory: reads GET /api/player/{id}/inventory without calling the resolver
+ * - Built-in quests: reads GET /api/player/{id}/quests without calling the resolver
+ * - Built-in discoveries: reads GET /api/player/{id}/discoveries without calling the resolver
+ * - Built-in journal: shows the quest summary and the recent discoveries together
+ * - Built-in history: reads GET /api/location/{id}/history for the current location without calling the resolver
+ * - Built-in brief / verbose / superbrief: PUT /api/player/{id}/verbosity without calling the resolver
+ * - Built-in who: reads GET /api/world/players without calling the resolver
+ * - Built-in chat: whisper posts to /api/player/{id}/whisper with the recipient, without calling the resolver
  * - Unknown: resolver returns Unknown → safe feedback, no canonical write
  * - Clarification needed: resolver returns needsClarification=true → safe feedback
+ * - Clarification question: numbered options are listed; the answer ("2") is sent back to the resolver and executed
+ * - Clarification discarded: a built-in command run while a question is open drops it (DELETE /api/player/{id}/clarification)
  * - Resolver failure: resolver request fails → fail safely, navigation preserved
  * - Missing playerGuid: guard prevents resolver call, shows init error
  */
@@ -18,6 +34,7 @@ import { http, HttpResponse } from 'msw'
 import { beforeEach, describe, expect, it, vi } from 'vitest'
 import CommandInterface from '../src/components/CommandInterface'
 import { PlayerProvider } from '../src/contexts/PlayerContext'
+import { loadTravelRoute } from '../src/utils/mapRoute'
 import { server } from './mocks/server'
 
 const PLAYER_GUID = '550e8400-e29b-41d4-a716-446655440099'
@@ -121,6 +138,7 @@ describe('CommandInterface – free-form resolver routing', () => {
     it('happy path Look: free-form input resolves to Look and invokes canonical look endpoint', async () => {
         const user = userEvent.setup()
         let lookCalled = false
+        let viewerHeader: string | null = null
 
         // Render first, then add test-specific handlers (higher priority)
         const input = await renderWithPlayer()
@@ -138,8 +156,9 @@ describe('CommandInterface – free-form resolver routing', () => {
                     }
                 })
             ),
-            http.get('/api/location/:locationId', () => {
+            http.get('/api/location/:locationId', ({ request }) => {
                 lookCalled = true
+                viewerHeader = request.headers.get('x-player-guid')
                 return HttpResponse.json({
                     success: true,
                     data: {
@@ -160,6 +179,8 @@ describe('CommandInterface – free-form resolver routing', () => {
         await user.click(screen.getByRole('button', { name: /run/i }))
 
         await waitFor(() => expect(lookCalled).toBe(true), { timeout: 5000 })
+        // The viewer is identified so they are left out of the players present and the look is recorded as a discovery
+        expect(viewerHeader).toBe(PLAYER_GUID)
 
         await waitFor(
             () => {
@@ -170,6 +191,607 @@ describe('CommandInterface – free-form resolver routing', () => {
         )
     }, 15000)
 
+    it('happy path Take: free-form input resolves to Take and invokes canonical take endpoint', async () => {
+        const user = userEvent.setup()
+        let takeBody: { itemName?: string } | undefined
+        const onInventoryChanged = vi.fn()
+
+        const input = await renderWithPlayer({ onInventoryChanged })
+
+        server.use(
+            http.post('/api/player/command', async () =>
+                HttpResponse.json({
+                    success: true,
+                    data: {
+                        actionKind: 'Take',
+                        itemName: 'lantern',
+                        presentationMode: 'Auto',
+                        responseTempo: 'Auto',
+                        canonicalWritesPlanned: true,
+                        parsedIntent: { verb: 'take', confidence: 0.8, needsClarification: false }
+                    }
+                })
+            ),
+            http.post('/api/player/:playerId/take', async ({ request, params }) => {
+                expect(params.playerId).toBe(PLAYER_GUID)
+                takeBody = (await request.json()) as { itemName?: string }
+                return HttpResponse.json({
+                    success: true,
+                    data: { item: { id: 'item-1', name: 'Brass Lantern' }, locationId: LOCATION_ID, inventoryVersion: 1 }
+                })
+            })
+        )
+
+        await user.type(input, 'take the lantern')
+        await user.click(screen.getByRole('button', { name: /run/i }))
+
+        await waitFor(() => expect(takeBody).toEqual({ itemName: 'lantern' }), { timeout: 5000 })
+        await waitFor(() => expect(screen.getAllByText(/You take the Brass Lantern\./i).length).toBeGreaterThan(0), {
+            timeout: 5000
+        })
+        expect(onInventoryChanged).toHaveBeenCalledTimes(1)
+    }, 15000)
+
+    it('happy path Talk: free-form input resolves to Talk and invokes canonical talk endpoint', async () => {
+        const user = userEvent.setup()
+        let talkBody: { npcName?: string } | undefined
+
+        const input = await renderWithPlayer()
+
+        server.use(
+            http.post('/api/player/command', async () =>
+                HttpResponse.json({
+                    success: true,
+                    data: {
+                        actionKind: 'Talk',
+                        npcName: 'tomas',
+                        presentationMode: 'Auto',
+                        responseTempo: 'Auto',
+                        canonicalWritesPlanned: true,
+                        parsedIntent: { verb: 'communicate', confidence: 0.8, needsClarification: false }
+                    }
+                })
+            ),
+            http.post('/api/player/:playerId/talk', async ({ request, params }) => {
+                expect(params.playerId).toBe(PLAYER_GUID)
+                talkBody = (await request.json()) as { npcName?: string }
+                return HttpResponse.json({
+                    success: true,
+                    data: {
+                        npc: { id: 'npc-1', name: 'Old Tomas', disposition: 'friendly' },
+                        line: 'Well met, traveller!',
+                        source: 'fallback',
+                        turnCount: 1
+                    }
+                })
+            })
+        )
+
+        await user.type(input, 'talk to tomas')
+        await user.click(screen.getByRole('button', { name: /run/i }))
+
+        await waitFor(() => expect(talkBody).toEqual({ npcName: 'tomas' }), { timeout: 5000 })
+        await waitFor(() => expect(screen.getAllByText(/Old Tomas: "Well met, traveller!"/i).length).toBeGreaterThan(0), {
+            timeout: 5000
+        })
+    }, 15000)
+
+    it('happy path Unlock: free-form input resolves to Unlock and invokes canonical unlock endpoint', async () => {
+        const user = userEvent.setup()
+        let unlockBody: { direction?: string } | undefined
+
+        const input = await renderWithPlayer()
+
+        server.use(
+            http.post('/api/player/command', async () =>
+                HttpResponse.json({
+                    success: true,
+                    data: {
+                        actionKind: 'Unlock',
+                        direction: 'north',
+                        presentationMode: 'Auto',
+                        responseTempo: 'Auto',
+                        canonicalWritesPlanned: true,
+                        parsedIntent: { verb: 'unlock', confidence: 0.8, needsClarification: false }
+                    }
+                })
+            ),
+            http.post('/api/player/:playerId/unlock', async ({ request, params }) => {
+                expect(params.playerId).toBe(PLAYER_GUID)
+                unlockBody = (await request.json()) as { direction?: string }
+                return HttpResponse.json({
+                    success: true,
+                    data: {
+                        locationId: LOCATION_ID,
+                        direction: 'north',
+                        lockState: 'unlocked',
+                        key: { id: 'key-1', name: 'Iron Key' }
+                    }
+                })
+            })
+        )
+
+        await user.type(input, 'unlock north')
+        await user.click(screen.getByRole('button', { name: /run/i }))
+
+        await waitFor(() => expect(unlockBody).toEqual({ direction: 'north' }), { timeout: 5000 })
+        await waitFor(() => expect(screen.getAllByText(/You unlock the way north with the Iron Key\./i).length).toBeGreaterThan(0), {
+            timeout: 5000
+        })
+    }, 15000)
+
+    it('happy path Attack: free-form input resolves to Attack and invokes canonical attack endpoint', async () => {
+        const user = userEvent.setup()
+        let attackBody: { npcName?: string } | undefined
+
+        const input = await renderWithPlayer()
+
+        server.use(
+            http.post('/api/player/command', async () =>
+                HttpResponse.json({
+                    success: true,
+                    data: {
+                        actionKind: 'Attack',
+                        npcName: 'goblin',
+                        presentationMode: 'Auto',
+                        responseTempo: 'Auto',
+                        canonicalWritesPlanned: true,
+                        parsedIntent: { verb: 'attack', confidence: 0.8, needsClarification: false }
+                    }
+                })
+            ),
+            http.post('/api/player/:playerId/attack', async ({ request, params }) => {
+                expect(params.playerId).toBe(PLAYER_GUID)
+                attackBody = (await request.json()) as { npcName?: string }
+                return HttpResponse.json({
+                    success: true,
+                    data: {
+                        action: 'attack',
+                        npc: { id: 'npc-1', name: 'Goblin', disposition: 'hostile' },
+                        round: 1,
+                        outcome: 'ongoing',
+                        player: { hp: 15, maxHp: 20 },
+                        npcHp: { hp: 4, maxHp: 12 },
+                        rolls: [],
+                        summary: 'You hit Goblin for 8 damage.',
+                        locationId: LOCATION_ID
+                    }
+                })
+            })
+        )
+
+        await user.type(input, 'attack goblin')
+        await user.click(screen.getByRole('button', { name: /run/i }))
+
+        await waitFor(() => expect(attackBody).toEqual({ npcName: 'goblin' }), { timeout: 5000 })
+        await waitFor(() => expect(screen.getAllByText(/You hit Goblin for 8 damage\. \(You: 15\/20 HP/i).length).toBeGreaterThan(0), {
+            timeout: 5000
+        })
+    }, 15000)
+
+    it('happy path Travel: free-form input resolves to Travel, invokes the canonical travel endpoint and saves the route', async () => {
+        const user = userEvent.setup()
+        let travelBody: { destination?: string } | undefined
+
+        const input = await renderWithPlayer()
+
+        server.use(
+            http.post('/api/player/command', async () =>
+                HttpResponse.json({
+                    success: true,
+                    data: {
+                        actionKind: 'Travel',
+                        destination: 'north road',
+                        presentationMode: 'Auto',
+                        responseTempo: 'Auto',
+                        canonicalWritesPlanned: true,
+                        parsedIntent: { verb: 'travel', confidence: 0.8, needsClarification: false }
+                    }
+                })
+            ),
+            http.post('/api/player/:playerId/travel', async ({ request, params }) => {
+                expect(params.playerId).toBe(PLAYER_GUID)
+                travelBody = (await request.json()) as { destination?: string }
+                return HttpResponse.json({
+                    success: true,
+                    data: {
+                        destination: { id: NORTH_LOCATION_ID, name: 'North Road' },
+                        route: [
+                            {
+                                fromLocationId: LOCATION_ID,
+                                toLocationId: NORTH_LOCATION_ID,
+                                toLocationName: 'North Road',
+                                direction: 'north',
+                                travelDurationMs: 300_000
+                            }
+                        ],
+                        legsCompleted: 1,
+                        completed: true,
+                        travelledMs: 300_000,
+                        location: {
+                            id: NORTH_LOCATION_ID,
+                            name: 'North Road',
+                            description: {
+                                text: 'A slight rise.',
+                                html: '<p>A slight rise.</p>',
+                                provenance: { compiledAt: new Date().toISOString(), layersApplied: [], supersededSentences: 0 }
+                            },
+                            exits: [{ direction: 'south' }]
+                        },
+                        summary: 'You travel to North Road in 5 minutes (1 leg).'
+                    }
+                })
+            })
+        )
+
+        await user.type(input, 'travel to north road')
+        await user.click(screen.getByRole('button', { name: /run/i }))
+
+        await waitFor(() => expect(travelBody).toEqual({ destination: 'north road' }), { timeout: 5000 })
+        await waitFor(
+            () => expect(screen.getAllByText(/You travel to North Road in 5 minutes \(1 leg\)\. North Road:/i).length).toBeGreaterThan(0),
+            {
+                timeout: 5000
+            }
+        )
+        expect(loadTravelRoute()).toEqual([{ fromLocationId: LOCATION_ID, toLocationId: NORTH_LOCATION_ID, direction: 'north' }])
+    }, 15000)
+
+    it('chain: resolver returns steps and the resolved plan is sent to the command endpoint as is', async () => {
+        const user = userEvent.setup()
+        let chainBody: { inputText?: string; steps?: unknown[] } | undefined
+        const actionIntent = { rawInput: 'take the lantern then wait', parsedIntent: { verb: 'take' }, validationResult: { success: true } }
+        const steps = [
+            { order: 0, actionKind: 'Take', itemName: 'lantern', canonicalWritesPlanned: true, actionIntent },
+            { order: 1, actionKind: 'Wait', canonicalWritesPlanned: true, actionIntent }
+        ]
+
+        const input = await renderWithPlayer()
+
+        server.use(
+            http.post('/api/player/command', async () =>
+                HttpResponse.json({
+                    success: true,
+                    data: {
+                        actionKind: 'Take',
+                        itemName: 'lantern',
+                        presentationMode: 'Auto',
+                        responseTempo: 'Auto',
+                        canonicalWritesPlanned: true,
+                        parsedIntent: { verb: 'take', confidence: 0.9, needsClarification: false },
+                        actionIntent,
+                        steps
+                    }
+                })
+            ),
+            http.post('/api/player/:playerId/command', async ({ request, params }) => {
+                expect(params.playerId).toBe(PLAYER_GUID)
+                chainBody = (await request.json()) as { inputText?: string; steps?: unknown[] }
+                return HttpResponse.json({
+                    success: true,
+                    data: {
+                        inputText: 'take the lantern then wait',
+                        completed: false,
+                        stoppedAt: 1,
+                        steps: [
+                            {
+                                order: 0,
+                                actionKind: 'Take',
+                                itemName: 'lantern',
+                                status: 'succeeded',
+                                httpStatus: 200,
+                                data: { item: { id: 'item-1', name: 'Brass Lantern' }, locationId: LOCATION_ID, inventoryVersion: 1 }
+                            },
+                            {
+                                order: 1,
+                                actionKind: 'Wait',
+                                status: 'denied',
+                                httpStatus: 409,
+                                error: { code: 'InCombat', message: 'You cannot wait in the middle of a fight.' }
+                            }
+                        ],
+                        locationId: LOCATION_ID
+                    }
+                })
+            })
+        )
+
+        await user.type(input, 'take the lantern then wait')
+        await user.click(screen.getByRole('button', { name: /run/i }))
+
+        await waitFor(() => expect(chainBody).toEqual({ inputText: 'take the lantern then wait', steps }), { timeout: 5000 })
+        await waitFor(() => expect(screen.getAllByText(/You take the Brass Lantern\./i).length).toBeGreaterThan(0), { timeout: 5000 })
+    }, 15000)
+
+    it('built-in inventory: lists carried items without calling the resolver', async () => {
+        const user = userEvent.setup()
+        let resolverCalled = false
+
+        const input = await renderWithPlayer()
+
+        server.use(
+            http.post('/api/player/command', () => {
+                resolverCalled = true
+                return HttpResponse.json({ success: false }, { status: 500 })
+            }),
+            http.get('/api/player/:playerId/inventory', ({ params }) =>
+                HttpResponse.json({
+                    success: true,
+                    data: {
+                        playerId: params.playerId,
+                        items: [{ id: 'item-1', name: 'Brass Lantern', quantity: 1, acquiredAt: new Date().toISOString() }],
+                        inventoryVersion: 1,
+                        capacity: 20
+                    }
+                })
+            )
+        )
+
+        await user.type(input, 'inventory')
+        await user.click(screen.getByRole('button', { name: /run/i }))
+
+        await waitFor(() => expect(screen.getAllByText(/You are carrying: Brass Lantern\./i).length).toBeGreaterThan(0), {
+            timeout: 5000
+        })
+        expect(resolverCalled).toBe(false)
+    }, 15000)
+
+    const QUEST_JOURNAL = {
+        quests: [
+            {
+                id: 'quest-1',
+                title: 'The Ferryman’s Lantern',
+                status: 'active',
+                objectives: [{ description: 'Go to the old docks', kind: 'visit', progress: 0, required: 1, completed: false }],
+                rewards: ['Silver Coin']
+            }
+        ]
+    }
+
+    const DISCOVERY_JOURNAL = {
+        discoveries: [
+            {
+                locationId: NORTH_LOCATION_ID,
+                locationName: 'North Road',
+                firstSeenTick: 3_600_000,
+                firstSeenUtc: new Date().toISOString(),
+                lastSeenUtc: new Date().toISOString(),
+                visitCount: 2
+            }
+        ],
+        total: 4
+    }
+
+    it('built-in quests: lists quests without calling the resolver', async () => {
+        const user = userEvent.setup()
+        let resolverCalled = false
+
+        const input = await renderWithPlayer()
+
+        server.use(
+            http.post('/api/player/command', () => {
+                resolverCalled = true
+                return HttpResponse.json({ success: false }, { status: 500 })
+            }),
+            http.get('/api/player/:playerId/quests', ({ params }) =>
+                HttpResponse.json({ success: true, data: { playerId: params.playerId, ...QUEST_JOURNAL } })
+            )
+        )
+
+        await user.type(input, 'quests')
+        await user.click(screen.getByRole('button', { name: /run/i }))
+
+        await waitFor(
+            () =>
+                expect(
+                    screen.getAllByText(/Active quests: The Ferryman’s Lantern: Go to the old docks \(0\/1\)\./i).length
+                ).toBeGreaterThan(0),
+            { timeout: 5000 }
+        )
+        expect(resolverCalled).toBe(false)
+    }, 15000)
+
+    it('built-in journal: shows the quest summary and the recent discoveries', async () => {
+        const user = userEvent.setup()
+        let resolverCalled = false
+
+        const input = await renderWithPlayer()
+
+        server.use(
+            http.post('/api/player/command', () => {
+                resolverCalled = true
+                return HttpResponse.json({ success: false }, { status: 500 })
+            }),
+            http.get('/api/player/:playerId/quests', ({ params }) =>
+                HttpResponse.json({ success: true, data: { playerId: params.playerId, ...QUEST_JOURNAL } })
+            ),
+            http.get('/api/player/:playerId/discoveries', () => HttpResponse.json({ success: true, data: DISCOVERY_JOURNAL }))
+        )
+
+        await user.type(input, 'journal')
+        await user.click(screen.getByRole('button', { name: /run/i }))
+
+        await waitFor(
+            () =>
+                expect(
+                    screen.getAllByText(
+                        /Active quests: The Ferryman’s Lantern: Go to the old docks \(0\/1\)\.\s+Places discovered: 4\. Most recent: North Road \(2 visits\)\./i
+                    ).length
+                ).toBeGreaterThan(0),
+            { timeout: 5000 }
+        )
+        expect(resolverCalled).toBe(false)
+    }, 15000)
+
+    it('built-in discoveries: summarises discoveries without calling the resolver', async () => {
+        const user = userEvent.setup()
+        let resolverCalled = false
+
+        const input = await renderWithPlayer()
+
+        server.use(
+            http.post('/api/player/command', () => {
+                resolverCalled = true
+                return HttpResponse.json({ success: false }, { status: 500 })
+            }),
+            http.get('/api/player/:playerId/discoveries', () => HttpResponse.json({ success: true, data: DISCOVERY_JOURNAL }))
+        )
+
+        await user.type(input, 'discoveries')
+        await user.click(screen.getByRole('button', { name: /run/i }))
+
+        await waitFor(
+            () => expect(screen.getAllByText(/Places discovered: 4\. Most recent: North Road \(2 visits\)\./i).length).toBeGreaterThan(0),
+            { timeout: 5000 }
+        )
+        expect(resolverCalled).toBe(false)
+    }, 15000)
+
+    it('built-in history: summarises recent events at the current location without calling the resolver', async () => {
+        const user = userEvent.setup()
+        let resolverCalled = false
+        let historyLocationId: string | undefined
+
+        const input = await renderWithPlayer()
+
+        server.use(
+            http.post('/api/player/command', () => {
+                resolverCalled = true
+                return HttpResponse.json({ success: false }, { status: 500 })
+            }),
+            http.get('/api/location/:locationId/history', ({ params }) => {
+                historyLocationId = params.locationId as string
+                return HttpResponse.json({
+                    success: true,
+                    data: {
+                        locationId: LOCATION_ID,
+                        events: [
+                            {
+                                eventId: 'evt-1',
+                                eventType: 'Player.Drop',
+                                occurredUtc: new Date().toISOString(),
+                                actorKind: 'player',
+                                summary: 'Someone dropped a brass lantern.',
+                                correlationId: 'corr-1'
+                            }
+                        ]
+                    }
+                })
+            })
+        )
+
+        await user.type(input, 'history')
+        await user.click(screen.getByRole('button', { name: /run/i }))
+
+        await waitFor(() => expect(screen.getAllByText(/Recently here: Someone dropped a brass lantern\./i).length).toBeGreaterThan(0), {
+            timeout: 5000
+        })
+        expect(historyLocationId).toBe(LOCATION_ID)
+        expect(resolverCalled).toBe(false)
+    }, 15000)
+
+    it('built-in brief: stores the verbosity without calling the resolver', async () => {
+        const user = userEvent.setup()
+        let resolverCalled = false
+        let sentBody: unknown
+
+        const input = await renderWithPlayer()
+
+        server.use(
+            http.post('/api/player/command', () => {
+                resolverCalled = true
+                return HttpResponse.json({ success: false }, { status: 500 })
+            }),
+            http.put('/api/player/:playerId/verbosity', async ({ request }) => {
+                sentBody = await request.json()
+                return HttpResponse.json({ success: true, data: { verbosity: 'brief' } })
+            })
+        )
+
+        await user.type(input, 'brief')
+        await user.click(screen.getByRole('button', { name: /run/i }))
+
+        await waitFor(
+            () => expect(screen.getAllByText(/Brief descriptions: full descriptions only on your first visit/i).length).toBeGreaterThan(0),
+            {
+                timeout: 5000
+            }
+        )
+        expect(sentBody).toEqual({ verbosity: 'brief' })
+        expect(resolverCalled).toBe(false)
+    }, 15000)
+
+    it('built-in who: lists players online without calling the resolver', async () => {
+        const user = userEvent.setup()
+        let resolverCalled = false
+
+        const input = await renderWithPlayer()
+
+        server.use(
+            http.post('/api/player/command', () => {
+                resolverCalled = true
+                return HttpResponse.json({ success: false }, { status: 500 })
+            }),
+            http.get('/api/world/players', () =>
+                HttpResponse.json({
+                    success: true,
+                    data: {
+                        players: [
+                            { name: 'Ada', locationId: LOCATION_ID, locationName: 'Village Square', lastSeenUtc: new Date().toISOString() }
+                        ],
+                        count: 1
+                    }
+                })
+            )
+        )
+
+        await user.type(input, 'who')
+        await user.click(screen.getByRole('button', { name: /run/i }))
+
+        await waitFor(() => expect(screen.getAllByText(/Players online \(1\): Ada \(Village Square\)\./i).length).toBeGreaterThan(0), {
+            timeout: 5000
+        })
+        expect(resolverCalled).toBe(false)
+    }, 15000)
+
+    it('built-in chat: whispers to a named player without calling the resolver', async () => {
+        const user = userEvent.setup()
+        let resolverCalled = false
+        let chatBody: { message: string; to?: string } | undefined
+
+        const input = await renderWithPlayer()
+
+        server.use(
+            http.post('/api/player/command', () => {
+                resolverCalled = true
+                return HttpResponse.json({ success: false }, { status: 500 })
+            }),
+            http.post('/api/player/:playerId/whisper', async ({ request }) => {
+                chatBody = (await request.json()) as { message: string; to?: string }
+                return HttpResponse.json({
+                    success: true,
+                    data: {
+                        mode: 'whisper',
+                        message: 'Meet me at the well.',
+                        filtered: false,
+                        heardBy: 1,
+                        summary: 'You whisper to Bram, "Meet me at the well."',
+                        locationId: LOCATION_ID
+                    }
+                })
+            })
+        )
+
+        await user.type(input, 'whisper bram Meet me at the well.')
+        await user.click(screen.getByRole('button', { name: /run/i }))
+
+        await waitFor(() => expect(screen.getAllByText(/You whisper to Bram, "Meet me at the well\."/i).length).toBeGreaterThan(0), {
+            timeout: 5000
+        })
+        expect(chatBody).toEqual({ message: 'Meet me at the well.', to: 'bram' })
+        expect(resolverCalled).toBe(false)
+    }, 15000)
+
     it('Unknown command: resolver returns Unknown → safe feedback, canonical move NOT called', async () => {
         const user = userEvent.setup()
         let canonicalMoveCalled = false
@@ -259,6 +881,131 @@ describe('CommandInterface – free-form resolver routing', () => {
         )
     }, 15000)
 
+    it('clarification question: lists numbered options and the answer resolves and executes', async () => {
+        const user = userEvent.setup()
+        const inputs: string[] = []
+        let moveDirection: string | undefined
+
+        const input = await renderWithPlayer()
+
+        server.use(
+            http.post('/api/player/command', async ({ request }) => {
+                const body = (await request.json()) as { inputText: string }
+                inputs.push(body.inputText)
+                if (body.inputText === 'go') {
+                    return HttpResponse.json({
+                        success: true,
+                        data: {
+                            actionKind: 'Unknown',
+                            presentationMode: 'Auto',
+                            responseTempo: 'Auto',
+                            canonicalWritesPlanned: false,
+                            parsedIntent: { verb: 'move', confidence: 0.8, needsClarification: true },
+                            clarification: {
+                                prompt: 'Which way do you want to go?',
+                                options: ['north', 'east'],
+                                expiresAt: new Date(Date.now() + 60_000).toISOString()
+                            }
+                        }
+                    })
+                }
+                return HttpResponse.json({
+                    success: true,
+                    data: {
+                        actionKind: 'Move',
+                        direction: 'north',
+                        presentationMode: 'Auto',
+                        responseTempo: 'Auto',
+                        canonicalWritesPlanned: true,
+                        parsedIntent: { verb: 'move', confidence: 0.8, needsClarification: false }
+                    }
+                })
+            }),
+            http.post(`/api/player/${PLAYER_GUID}/move`, async ({ request }) => {
+                moveDirection = ((await request.json()) as { direction: string }).direction
+                return HttpResponse.json({
+                    success: true,
+                    data: {
+                        id: NORTH_LOCATION_ID,
+                        name: 'North Road',
+                        description: {
+                            text: 'A slight rise.',
+                            html: '<p>A slight rise.</p>',
+                            provenance: { compiledAt: new Date().toISOString(), layersApplied: [], supersededSentences: 0 }
+                        },
+                        exits: [{ direction: 'south' }]
+                    }
+                })
+            })
+        )
+
+        await user.type(input, 'go')
+        await user.click(screen.getByRole('button', { name: /run/i }))
+
+        const list = await screen.findByRole('list', { name: /answer options/i }, { timeout: 5000 })
+        expect(Array.from(list.querySelectorAll('li')).map((li) => li.textContent)).toEqual(['north', 'east'])
+        expect(document.body.textContent).toMatch(/Which way do you want to go\?/)
+
+        await user.type(input, '1')
+        await user.click(screen.getByRole('button', { name: /run/i }))
+
+        await waitFor(() => expect(moveDirection).toBe('north'), { timeout: 5000 })
+        expect(inputs).toEqual(['go', '1'])
+    }, 15000)
+
+    it('clarification discarded: a built-in command run while a question is open drops it', async () => {
+        const user = userEvent.setup()
+        let discards = 0
+        let inventoryReads = 0
+
+        const input = await renderWithPlayer()
+
+        server.use(
+            http.post('/api/player/command', () =>
+                HttpResponse.json({
+                    success: true,
+                    data: {
+                        actionKind: 'Unknown',
+                        presentationMode: 'Auto',
+                        responseTempo: 'Auto',
+                        canonicalWritesPlanned: false,
+                        parsedIntent: { verb: 'move', confidence: 0.8, needsClarification: true },
+                        clarification: {
+                            prompt: 'Which way do you want to go?',
+                            options: ['north', 'east'],
+                            expiresAt: new Date(Date.now() + 60_000).toISOString()
+                        }
+                    }
+                })
+            ),
+            http.delete(`/api/player/${PLAYER_GUID}/clarification`, () => {
+                discards++
+                return HttpResponse.json({ success: true, data: { playerId: PLAYER_GUID, discarded: true } })
+            }),
+            http.get('/api/player/:playerId/inventory', ({ params }) => {
+                inventoryReads++
+                return HttpResponse.json({
+                    success: true,
+                    data: { playerId: params.playerId, items: [], inventoryVersion: 1, capacity: 20 }
+                })
+            })
+        )
+
+        await user.type(input, 'go')
+        await user.click(screen.getByRole('button', { name: /run/i }))
+        await screen.findByRole('list', { name: /answer options/i }, { timeout: 5000 })
+
+        await user.type(input, 'inventory')
+        await user.click(screen.getByRole('button', { name: /run/i }))
+        await waitFor(() => expect(inventoryReads).toBe(1), { timeout: 5000 })
+        expect(discards).toBe(1)
+
+        await user.type(input, 'inventory')
+        await user.click(screen.getByRole('button', { name: /run/i }))
+        await waitFor(() => expect(inventoryReads).toBe(2), { timeout: 5000 })
+        expect(discards).toBe(1)
+    }, 15000)
+
     it('resolver request fails → fail safely with error message, navigation unaffected', async () => {
         const user = userEvent.setup()
 
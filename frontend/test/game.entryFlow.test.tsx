@@ -44,6 +44,14 @@ vi.mock('../src/hooks/usePlayerLocation', () => ({
     })
 }))
 
+vi.mock('../src/hooks/usePlayerInventory', () => ({
+    usePlayerInventory: () => ({ inventory: null, itemCount: 0, isLoading: false, error: null, refetch: () => {} })
+}))
+
+vi.mock('../src/hooks/usePlayerStatus', () => ({
+    usePlayerStatus: () => ({ status: null, isLoading: false, error: null, refetch: () => {} })
+}))
+
 vi.mock('../src/components/GameView', () => ({
     default: () => <div>Game View Loaded</div>
 }))
@@ -0,0 +1,59 @@
+import type { TravelLeg } from '@piquet-h/shared'
+import { afterEach, describe, expect, it } from 'vitest'
+import { computeRouteHighlight, loadTravelRoute, saveTravelRoute } from '../src/utils/mapRoute'
+
+const LEGS: TravelLeg[] = [
+    { fromLocationId: 'a', toLocationId: 'b', toLocationName: 'B', direction: 'east', travelDurationMs: 300_000 },
+    { fromLocationId: 'b', toLocationId: 'c', toLocationName: 'C', direction: 'north', travelDurationMs: 300_000 }
+]
+
+describe('mapRoute', () => {
+    afterEach(() => {
+        localStorage.clear()
+    })
+
+    describe('saveTravelRoute / loadTravelRoute', () => {
+        it('round-trips the ids needed for highlighting', () => {
+            saveTravelRoute(LEGS)
+            expect(loadTravelRoute()).toEqual([
+                { fromLocationId: 'a', toLocationId: 'b', direction: 'east' },
+                { fromLocationId: 'b', toLocationId: 'c', direction: 'north' }
+            ])
+        })
+
+        it('clears the stored route when saving an empty one', () => {
+            saveTravelRoute(LEGS)
+            saveTravelRoute([])
+            expect(loadTravelRoute()).toEqual([])
+        })
+
+        it('ignores malformed stored values', () => {
+            localStorage.setItem('tsa.lastTravelRoute', '{not json')
+            expect(loadTravelRoute()).toEqual([])
+            localStorage.setItem('tsa.lastTravelRoute', JSON.stringify([{ fromLocationId: 'a' }]))
+            expect(loadTravelRoute()).toEqual([])
+        })
+    })
+
+    describe('computeRouteHighlight', () => {
+        it('marks every location on the route and only the edges walked', () => {
+            const edges = [
+                { fromId: 'a', toId: 'b', direction: 'east' },
+                { fromId: 'b', toId: 'a', direction: 'west' },
+                { fromId: 'b', toId: 'c', direction: 'north' },
+                { fromId: 'a', toId: 'c', direction: 'north' }
+            ]
+
+            const { nodeIds, edgeIndexes } = computeRouteHighlight(LEGS, edges)
+
+            expect([...nodeIds].sort()).toEqual(['a', 'b', 'c'])
+            expect([...edgeIndexes].sort()).toEqual([0, 2])
+        })
+
+        it('highlights nothing for an empty route', () => {
+            const { nodeIds, edgeIndexes } = computeRouteHighlight([], [{ fromId: 'a', toId: 'b', direction: 'east' }])
+            expect(nodeIds.size).toBe(0)
+            expect(edgeIndexes.size).toBe(0)
+        })
+    })
+})
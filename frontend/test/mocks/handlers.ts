@@ -143,6 +143,22 @@ export const handlers = [
         )
     }),
 
+    // Player inventory (empty by default)
+    http.get('/api/player/:playerId/inventory', ({ params }) => {
+        return HttpResponse.json({
+            success: true,
+            data: { playerId: params.playerId, items: [], inventoryVersion: 0, capacity: 20 }
+        })
+    }),
+
+    // Player status (full default health, no encounter)
+    http.get('/api/player/:playerId/status', ({ params }) => {
+        return HttpResponse.json({
+            success: true,
+            data: { playerId: params.playerId, health: 20, maxHealth: 20, defeated: false }
+        })
+    }),
+
     // Ping endpoint
     http.post('/api/ping', async ({ request }) => {
         const body = (await request.json()) as { message: string }
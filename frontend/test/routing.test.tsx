@@ -8,6 +8,7 @@
  * - Deep-link support
  * - 404 fallback
  */
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
 import { renderToString } from 'react-dom/server'
 import { describe, expect, it, vi } from 'vitest'
 import ProtectedRoute from '../src/components/ProtectedRoute'
@@ -24,6 +25,11 @@ vi.mock('../src/hooks/useAuth', () => ({
     useAuth: () => mockUseAuth()
 }))
 
+// Settings reads the player's server-side preferences
+vi.mock('../src/contexts/PlayerContext', () => ({
+    usePlayer: () => ({ playerGuid: null, loading: false, error: null, currentLocationId: null })
+}))
+
 describe('Page Components', () => {
     it('renders About page', () => {
         const html = renderToString(<About />)
@@ -38,11 +44,18 @@ describe('Page Components', () => {
     })
 
     it('renders Settings page', () => {
-        const html = renderToString(<Settings />)
+        const html = renderToString(
+            <QueryClientProvider client={new QueryClient()}>
+                <Settings />
+            </QueryClientProvider>
+        )
         expect(html).toContain('Settings')
         expect(html).toContain('Display Settings')
         expect(html).toContain('Audio Settings')
         expect(html).toContain('Account Settings')
+        expect(html).toContain('Gameplay Settings')
+        expect(html).toContain('Map Settings')
+        expect(html).toContain('Location descriptions')
     })
 
     it('renders LearnMore page', () => {
@@ -0,0 +1,78 @@
+/**
+ * Settings Page Tests
+ * The page shows the player's server-side preferences and saves each change as a PATCH.
+ */
+import { DEFAULT_PLAYER_PREFERENCES, type PlayerPreferencesPatch } from '@piquet-h/shared'
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { render, screen, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { http, HttpResponse } from 'msw'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import Settings from '../src/pages/Settings'
+import { server } from './mocks/server'
+
+const PLAYER_GUID = '550e8400-e29b-41d4-a716-446655440077'
+
+vi.mock('../src/contexts/PlayerContext', () => ({
+    usePlayer: () => ({ playerGuid: PLAYER_GUID, loading: false, error: null, currentLocationId: null })
+}))
+
+function renderSettings() {
+    const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } })
+    return render(
+        <QueryClientProvider client={queryClient}>
+            <Settings />
+        </QueryClientProvider>
+    )
+}
+
+describe('Settings page', () => {
+    beforeEach(() => {
+        localStorage.clear()
+    })
+
+    it('shows the preferences stored on the server', async () => {
+        server.use(
+            http.get(`/api/player/${PLAYER_GUID}/preferences`, () =>
+                HttpResponse.json({
+                    success: true,
+                    data: { preferences: { ...DEFAULT_PLAYER_PREFERENCES, theme: 'high-contrast', verbosity: 'superbrief' } }
+                })
+            )
+        )
+
+        renderSettings()
+
+        await waitFor(() => expect(screen.getByLabelText('High contrast')).toBeChecked())
+        expect(screen.getByRole('radio', { name: /Superbrief/ })).toBeChecked()
+        expect(screen.getByLabelText('Text size')).toHaveValue('medium')
+    })
+
+    it('saves a change as a PATCH of just that field and keeps the server answer', async () => {
+        const user = userEvent.setup()
+        const patches: PlayerPreferencesPatch[] = []
+        let stored = DEFAULT_PLAYER_PREFERENCES
+        server.use(
+            http.get(`/api/player/${PLAYER_GUID}/preferences`, () =>
+                HttpResponse.json({ success: true, data: { preferences: DEFAULT_PLAYER_PREFERENCES } })
+            ),
+            http.patch(`/api/player/${PLAYER_GUID}/preferences`, async ({ request }) => {
+                const patch = (await request.json()) as PlayerPreferencesPatch
+                patches.push(patch)
+                stored = { ...stored, ...patch, map: { ...stored.map, ...patch.map } }
+                return HttpResponse.json({ success: true, data: { preferences: stored } })
+            })
+        )
+
+        renderSettings()
+        await waitFor(() => expect(screen.getByRole('radio', { name: /Verbose/ })).toBeChecked())
+
+        await user.click(screen.getByRole('radio', { name: /Brief/ }))
+        await user.click(screen.getByLabelText('Show inside places'))
+
+        await waitFor(() => expect(patches).toEqual([{ verbosity: 'brief' }, { map: { showInsideNodes: false } }]))
+        expect(screen.getByRole('radio', { name: /Brief/ })).toBeChecked()
+        expect(screen.getByLabelText('Show inside places')).not.toBeChecked()
+        expect(JSON.parse(localStorage.getItem('tsa.preferences') ?? '{}').verbosity).toBe('brief')
+    })
+})
@@ -0,0 +1,126 @@
+/**
+ * useLocationEvents Hook Tests
+ *
+ * Covers:
+ * - Opens the player's event stream and forwards `location` events to the callback
+ * - Reopens the stream when the current location changes; closes it on unmount
+ * - Malformed frames are ignored
+ * - No stream without a valid player GUID or a location
+ * - CommandOutput renders live events as narration, without a command line
+ */
+import type { LiveLocationEvent } from '@piquet-h/shared'
+import { render, renderHook, screen } from '@testing-library/react'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import CommandOutput from '../src/components/CommandOutput'
+import { useLocationEvents } from '../src/hooks/useLocationEvents'
+
+const PLAYER = '11111111-1111-4111-8111-111111111111'
+const SQUARE = '22222222-2222-4222-8222-222222222222'
+const LANE = '33333333-3333-4333-8333-333333333333'
+
+class FakeEventSource {
+    static instances: FakeEventSource[] = []
+    closed = false
+    private listeners = new Map<string, Set<(message: MessageEvent<string>) => void>>()
+
+    constructor(public url: string) {
+        FakeEventSource.instances.push(this)
+    }
+
+    addEventListener(type: string, listener: (message: MessageEvent<string>) => void) {
+        const set = this.listeners.get(type) ?? new Set()
+        set.add(listener)
+        this.listeners.set(type, set)
+    }
+
+    removeEventListener(type: string, listener: (message: MessageEvent<string>) => void) {
+        this.listeners.get(type)?.delete(listener)
+    }
+
+    close() {
+        this.closed = true
+    }
+
+    emit(type: string, data: string) {
+        for (const listener of this.listeners.get(type) ?? []) listener({ data } as MessageEvent<string>)
+    }
+}
+
+function liveEvent(overrides: Partial<LiveLocationEvent> = {}): LiveLocationEvent {
+    return {
+        id: 'evt-1',
+        kind: 'player.arrived',
+        locationId: SQUARE,
+        occurredUtc: '2026-01-01T00:00:00.000Z',
+        text: 'Ada arrives.',
+        actorName: 'Ada',
+        ...overrides
+    }
+}
+
+describe('useLocationEvents', () => {
+    beforeEach(() => {
+        FakeEventSource.instances = []
+        vi.stubGlobal('EventSource', FakeEventSource)
+    })
+
+    afterEach(() => {
+        vi.unstubAllGlobals()
+    })
+
+    it('forwards location events from the player stream', () => {
+        const onEvent = vi.fn()
+        renderHook(() => useLocationEvents(PLAYER, SQUARE, onEvent))
+
+        expect(FakeEventSource.instances).toHaveLength(1)
+        const [source] = FakeEventSource.instances
+        expect(source.url).toBe(`/api/player/${PLAYER}/events`)
+
+        source.emit('location', JSON.stringify(liveEvent()))
+        source.emit('location', '{not json')
+
+        expect(onEvent).toHaveBeenCalledTimes(1)
+        expect(onEvent).toHaveBeenCalledWith(expect.objectContaining({ kind: 'player.arrived', text: 'Ada arrives.' }))
+    })
+
+    it('reopens the stream when the location changes and closes it on unmount', () => {
+        const onEvent = vi.fn()
+        const { rerender, unmount } = renderHook(({ locationId }) => useLocationEvents(PLAYER, locationId, onEvent), {
+            initialProps: { locationId: SQUARE }
+        })
+
+        rerender({ locationId: LANE })
+        expect(FakeEventSource.instances).toHaveLength(2)
+        expect(FakeEventSource.instances[0].closed).toBe(true)
+
+        FakeEventSource.instances[0].emit('location', JSON.stringify(liveEvent()))
+        expect(onEvent).not.toHaveBeenCalled()
+
+        unmount()
+        expect(FakeEventSource.instances[1].closed).toBe(true)
+    })
+
+    it('does not connect without a valid player GUID or a location', () => {
+        renderHook(() => useLocationEvents('not-a-guid', SQUARE, vi.fn()))
+        renderHook(() => useLocationEvents(PLAYER, null, vi.fn()))
+
+        expect(FakeEventSource.instances).toHaveLength(0)
+    })
+})
+
+describe('CommandOutput – live events', () => {
+    it('renders live events as narration without a command line', () => {
+        render(
+            <CommandOutput
+                items={[
+                    { id: 'cmd-1', command: 'look', response: 'Village Square', ts: 0 },
+                    { id: 'live-1', command: '', response: 'Ada arrives.', live: true, ts: 1 }
+                ]}
+            />
+        )
+
+        const narration = screen.getAllByText('Ada arrives.').find((el) => el.hasAttribute('data-live-event'))
+        expect(narration).toBeDefined()
+        expect(screen.getAllByText('$')).toHaveLength(1)
+    })
+})
@@ -0,0 +1,87 @@
+/**
+ * useRecentChat Hook Tests
+ *
+ * Covers:
+ * - Fetches the recent conversation at the current location and hands it over oldest first
+ * - Refetches when the location changes; nothing is reported for an empty history
+ * - A reply for a location the player has already left is ignored
+ * - History entries are narrated as said / shouted
+ */
+import type { ChatHistoryResponse } from '@piquet-h/shared'
+import { renderHook, waitFor } from '@testing-library/react'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { formatChatHistoryEntry, useRecentChat } from '../src/hooks/useRecentChat'
+
+const PLAYER = '11111111-1111-4111-8111-111111111111'
+const SQUARE = '22222222-2222-4222-8222-222222222222'
+const LANE = '33333333-3333-4333-8333-333333333333'
+
+function historyReply(data: ChatHistoryResponse) {
+    return { ok: true, json: () => Promise.resolve({ success: true, data }) }
+}
+
+describe('useRecentChat', () => {
+    const fetchMock = vi.fn()
+
+    beforeEach(() => {
+        vi.stubGlobal('fetch', fetchMock)
+    })
+
+    afterEach(() => {
+        fetchMock.mockReset()
+        vi.unstubAllGlobals()
+    })
+
+    it('reports the recent conversation at each location the player arrives at', async () => {
+        fetchMock
+            .mockResolvedValueOnce(
+                historyReply({
+                    locationId: SQUARE,
+                    messages: [
+                        { mode: 'say', speakerName: 'Ada', text: 'Well met.', sentUtc: '2026-01-01T00:00:00.000Z' },
+                        { mode: 'shout', speakerName: 'Bram', text: 'Fire!', sentUtc: '2026-01-01T00:01:00.000Z' }
+                    ]
+                })
+            )
+            .mockResolvedValueOnce(historyReply({ locationId: LANE, messages: [] }))
+        const onMessages = vi.fn()
+
+        const { rerender } = renderHook(({ locationId }) => useRecentChat(PLAYER, locationId, onMessages), {
+            initialProps: { locationId: SQUARE }
+        })
+
+        await waitFor(() => expect(onMessages).toHaveBeenCalledTimes(1))
+        expect(fetchMock).toHaveBeenCalledWith(`/api/player/${PLAYER}/chat`, expect.anything())
+        expect(onMessages.mock.calls[0][0].map(formatChatHistoryEntry)).toEqual([
+            'Earlier, Ada said, "Well met."',
+            'Earlier, Bram shouted, "Fire!"'
+        ])
+
+        rerender({ locationId: LANE })
+        await waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(2))
+        expect(onMessages).toHaveBeenCalledTimes(1)
+    })
+
+    it('ignores history for a location the player has already left', async () => {
+        fetchMock.mockResolvedValue(
+            historyReply({
+                locationId: LANE,
+                messages: [{ mode: 'say', speakerName: 'Ada', text: 'Over here.', sentUtc: '2026-01-01T00:00:00.000Z' }]
+            })
+        )
+        const onMessages = vi.fn()
+
+        renderHook(() => useRecentChat(PLAYER, SQUARE, onMessages))
+
+        await waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1))
+        await new Promise((resolve) => setTimeout(resolve, 0))
+        expect(onMessages).not.toHaveBeenCalled()
+    })
+
+    it('does nothing without a valid player GUID or a location', () => {
+        renderHook(() => useRecentChat('not-a-guid', SQUARE, vi.fn()))
+        renderHook(() => useRecentChat(PLAYER, null, vi.fn()))
+
+        expect(fetchMock).not.toHaveBeenCalled()
+    })
+})
@@ -13,7 +13,7 @@ import { promises as fs } from 'fs'
 import path from 'path'
 
 const root = path.resolve(process.cwd(), 'src')
-const allowList = ['auth', 'direction', 'gremlin', 'persistence', 'prompts', 'repos', 'secrets', 'seeding']
+const allowList = ['auth', 'direction', 'gremlin', 'persistence', 'prompts', 'repos', 'rules', 'secrets', 'seeding']
 
 const excludeRegex = /\.(test|spec)\.ts$/
 const internalVariantRegex = /\.cosmos\.ts$/
@@ -8,7 +8,7 @@ import { z } from 'zod'
 import { type ActionIntent, ActionIntentSchema } from './actionIntent.js'
 
 // Structural world mutations (exits, locations) excluded until a later milestone.
-export const PROPOSAL_ALLOWED_ACTION_TYPES = ['Ambience.Generate', 'Layer.Add', 'NPC.Dialogue'] as const
+export const PROPOSAL_ALLOWED_ACTION_TYPES = ['Ambience.Generate', 'Layer.Add', 'NPC.Dialogue', 'NPC.Move'] as const
 export type ProposalActionType = (typeof PROPOSAL_ALLOWED_ACTION_TYPES)[number]
 
 // Players submit commands; only ai/npc/system actors may issue proposals.
@@ -121,6 +121,27 @@ const PARAM_RULES: Record<ProposalActionType, (params: Record<string, unknown>)
                 actionType: 'NPC.Dialogue'
             })
         }
+        // Conversational dialogue (addressed to a player) must carry the spoken line.
+        if (params['playerId'] && !params['line']) {
+            reasons.push({
+                code: ProposalRejectionCode.MISSING_REQUIRED_PARAM,
+                message: 'NPC.Dialogue addressed to a player requires params.line',
+                actionType: 'NPC.Dialogue'
+            })
+        }
+        return reasons
+    },
+    'NPC.Move': (params) => {
+        const reasons: ProposalRejectionReason[] = []
+        for (const field of ['npcId', 'fromLocationId', 'toLocationId']) {
+            if (!params[field]) {
+                reasons.push({
+                    code: ProposalRejectionCode.MISSING_REQUIRED_PARAM,
+                    message: `NPC.Move requires params.${field}`,
+                    actionType: 'NPC.Move'
+                })
+            }
+        }
         return reasons
     }
 }
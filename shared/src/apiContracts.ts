@@ -1,6 +1,26 @@
 /**
  * API payload types. Backend responses use ApiEnvelope; these define the `data` shapes.
  */
+import type {
+    ChatMode,
+    CombatAction,
+    CombatRoll,
+    DescriptionVerbosity,
+    EncounterOutcome,
+    HitPoints,
+    NpcDisposition,
+    PlayerPreferences,
+    QuestObjectiveKind,
+    QuestStatus,
+    TravelLeg,
+    TravelStopReason,
+    WaitAction
+} from './domainModels.js'
+import type { DeadLetterRecord, DeadLetterRedriveOutcome } from './deadLetter.js'
+import type { Actor } from './events/worldEventSchema.js'
+import type { LockState } from './location.js'
+import type { ReconciliationMethod } from './models/TemporalLedgerEntry.js'
+
 // Requests
 
 /** POST /api/player/link - Request body */
@@ -14,6 +34,34 @@ export interface MoveRequest {
     // fromLocationId removed - server reads player.currentLocationId from database (authoritative)
 }
 
+/** POST /api/player/{playerId}/lock and /unlock - Request body (a matching key must be carried) */
+export interface ExitLockRequest {
+    direction: string
+}
+
+/** POST /api/player/{playerId}/take and /drop - Request body (itemId or itemName required) */
+export interface ItemActionRequest {
+    itemId?: string
+    itemName?: string
+    /** Inventory version last observed by the client; stale values are rejected with 409 */
+    expectedVersion?: number
+}
+
+/** POST /api/player/{playerId}/inventory - Request body (item must be lying at the player's location) */
+export interface InventoryAddRequest {
+    itemId: string
+    /** Inventory version last observed by the client; stale values are rejected with 409 */
+    expectedVersion?: number
+}
+
+/** POST /api/player/{playerId}/talk - Request body (npcId or npcName required; NPC must be at the player's location) */
+export interface TalkRequest {
+    npcId?: string
+    npcName?: string
+    /** What the player says; omitted means the player just greets the NPC */
+    message?: string
+}
+
 /** POST /api/ping - Request body */
 export interface PingRequest {
     message?: string
@@ -69,6 +117,26 @@ export interface CompiledDescription {
     provenance: DescriptionProvenance
 }
 
+/** Item summary shown in a location or returned by take/drop. */
+export interface ItemSummary {
+    id: string
+    name: string
+    description?: string
+}
+
+/** NPC summary shown in a location. */
+export interface NpcSummary {
+    id: string
+    name: string
+    description?: string
+    disposition: NpcDisposition
+}
+
+/** Another player sharing a location (player ids are never exposed to other players). */
+export interface PresentPlayerSummary {
+    name: string
+}
+
 /**
  * Location data returned by look/move endpoints.
  * Backend owns composition logic - description is always compiled.
@@ -79,6 +147,17 @@ export interface LocationResponse {
     /** Compiled description with text, HTML, and provenance */
     description: CompiledDescription
     exits?: Array<{ direction: string; description?: string }>
+    /** Items lying in the location (look only) */
+    items?: ItemSummary[]
+    /** NPCs currently present in the location (look only) */
+    npcs?: NpcSummary[]
+    /** Other players currently in the location (look only) */
+    players?: PresentPlayerSummary[]
+    /**
+     * Move / travel only: set when the prose was left out because of the player's verbosity
+     * (description.text and description.html are then empty; name and exits still describe the place)
+     */
+    descriptionOmitted?: 'brief' | 'superbrief'
     latencyMs?: number
     metadata?: {
         exitsSummaryCache?: string
@@ -103,6 +182,354 @@ export type MoveResponse = LocationResponse
 /** GET /api/location or GET /api/location/{locationId} - Location details */
 export type LocationLookResponse = LocationResponse
 
+/** POST /api/player/{playerId}/take and /drop - Item moved between location and inventory */
+export interface ItemActionResponse {
+    item: ItemSummary
+    locationId: string
+    /** Inventory version after the change */
+    inventoryVersion: number
+}
+
+/** POST /api/player/{playerId}/talk - The NPC's reply */
+export interface TalkResponse {
+    npc: NpcSummary
+    line: string
+    /** 'ai' when generated from the npc-dialogue-generator template, 'fallback' otherwise */
+    source: 'ai' | 'fallback'
+    /** Total turns exchanged with this NPC so far */
+    turnCount: number
+}
+
+/** POST /api/player/{playerId}/lock and /unlock - Exit lock state after the change */
+export interface ExitLockResponse {
+    locationId: string
+    direction: string
+    lockState: LockState
+    /** Inventory item used as the key */
+    key: ItemSummary
+}
+
+/** Quest objective as shown in the player's journal */
+export interface QuestObjectiveSummary {
+    description: string
+    kind: QuestObjectiveKind
+    progress: number
+    required: number
+    completed: boolean
+}
+
+/** Quest entry returned by GET /api/player/{playerId}/quests */
+export interface QuestSummary {
+    id: string
+    title: string
+    description?: string
+    status: QuestStatus
+    objectives: QuestObjectiveSummary[]
+    /** Reward item names */
+    rewards: string[]
+    completedAt?: string
+}
+
+/** GET /api/player/{playerId}/quests - The player's quest journal (active first, then finished) */
+export interface QuestsResponse {
+    playerId: string
+    quests: QuestSummary[]
+}
+
+/** POST /api/player/{playerId}/attack - Start or continue a fight with a co-located NPC */
+export interface AttackRequest {
+    /** Explicit NPC id */
+    npcId?: string
+    /** NPC name as typed by the player */
+    npcName?: string
+}
+
+/** POST /api/player/{playerId}/flee - Break off the current encounter through an exit */
+export interface FleeRequest {
+    /** Exit to flee through; omitted means any unlocked exit */
+    direction?: string
+}
+
+/** POST /api/player/{playerId}/attack, /defend and /flee - Result of one combat round */
+export interface CombatResponse {
+    action: CombatAction
+    npc: NpcSummary
+    /** Round number within the encounter (1-based) */
+    round: number
+    outcome: EncounterOutcome
+    player: HitPoints
+    npcHp: HitPoints
+    /** Every die rolled this round, in order */
+    rolls: CombatRoll[]
+    /** Deterministic mechanical summary of the round */
+    summary: string
+    /** Optional flavour text from the narrate-encounter tool (never changes the outcome) */
+    narrative?: string
+    /** Location the player is in after the round (differs from the fight location after a successful flee) */
+    locationId: string
+    /** Exit taken when outcome is 'fled' */
+    direction?: string
+}
+
+/** GET /api/player/{playerId}/status - Player health and current encounter */
+export interface PlayerStatusResponse {
+    playerId: string
+    health: number
+    maxHealth: number
+    /** True when health is 0 */
+    defeated: boolean
+    /** Present while the player is in an encounter */
+    encounter?: { npcId: string; npcName?: string; round: number }
+}
+
+/** POST /api/player/{playerId}/wait, /rest and /sleep - Request body */
+export interface WaitRequest {
+    /** How long to spend; omitted means the ActionRegistry default for the action */
+    durationMs?: number
+}
+
+/** POST /api/player/{playerId}/wait, /rest and /sleep - Time spent in place */
+export interface WaitResponse {
+    action: WaitAction
+    /** Game time spent, in milliseconds */
+    durationMs: number
+    /** "Time passes" text for the duration (NarrativeLayer) */
+    narrative: string
+    /** Player clock before the action, after advancing, and after reconciling to the location anchor */
+    clock: { tickBefore: number; tickAfter: number; locationAnchor: number; reconciliationMethod: ReconciliationMethod }
+    /** Hit points after the action (rest / sleep recover them) */
+    player: HitPoints
+    /** Hit points recovered (0 for wait) */
+    hpRestored: number
+    /** Deterministic summary, e.g. 'You rest for 8 hours. (+12 HP)' */
+    summary: string
+    locationId: string
+}
+
+/** POST /api/player/{playerId}/travel - Request body */
+export interface TravelRequest {
+    /** Location name or landmark to travel to ("the harbour", "smithy") */
+    destination: string
+}
+
+/** POST /api/player/{playerId}/travel - A multi-leg journey along the fastest known route */
+export interface TravelResponse {
+    destination: { id: string; name: string }
+    /** Every leg of the planned route, in order */
+    route: TravelLeg[]
+    /** Number of legs walked (equals route.length when completed) */
+    legsCompleted: number
+    completed: boolean
+    /** Present when the journey stopped early: the leg that could not be walked and why */
+    stopped?: { reason: TravelStopReason; direction: string; message: string }
+    /** Game time spent on the walked legs (applied to the player clock) */
+    travelledMs: number
+    /** Where the player ended up, with its compiled description */
+    location: LocationResponse
+    /** Deterministic summary, e.g. 'You travel to Harbour Steps in 12 minutes (3 legs).' */
+    summary: string
+}
+
+/** One online player in the `who` list */
+export interface OnlinePlayerSummary {
+    name: string
+    locationId: string
+    locationName?: string
+    /** ISO 8601 timestamp the player was last seen (session bootstrap or location change) */
+    lastSeenUtc: string
+}
+
+/** GET /api/world/players - Players seen recently, most recent first */
+export interface OnlinePlayersResponse {
+    players: OnlinePlayerSummary[]
+    count: number
+}
+
+/** What happened at the location, for a live location event */
+export type LiveLocationEventKind =
+    | 'exit.materialized'
+    | 'layer.changed'
+    | 'player.arrived'
+    | 'player.departed'
+    | 'npc.action'
+    | 'chat.message'
+
+/**
+ * GET /api/player/{playerId}/events - one server-sent `location` event at the player's location.
+ * The stream also sends `ready` ({ locationId }) when it opens.
+ */
+export interface LiveLocationEvent {
+    id: string
+    kind: LiveLocationEventKind
+    locationId: string
+    occurredUtc: string
+    /** One line for the command log ("Ada arrives.", "A way north opens up.") */
+    text: string
+    /** Exit direction (exit.materialized, NPC moves) */
+    direction?: string
+    /** Display name of the player or NPC involved */
+    actorName?: string
+    /** Layer type (layer.changed) */
+    layerType?: string
+    /** How the message was spoken (chat.message) */
+    chatMode?: ChatMode
+}
+
+/** POST /api/player/{playerId}/say, /shout, /whisper - Request body */
+export interface ChatRequest {
+    message: string
+    /** Display name of the player to whisper to (whisper only; must be at the same location) */
+    to?: string
+}
+
+/** POST /api/player/{playerId}/say, /shout, /whisper - The message as delivered */
+export interface ChatResponse {
+    mode: ChatMode
+    /** Message after the content filter */
+    message: string
+    /** True when the content filter masked part of the message */
+    filtered: boolean
+    /** Other players online within earshot when it was sent */
+    heardBy: number
+    /** Deterministic echo for the speaker, e.g. 'You say, "Well met."' */
+    summary: string
+    locationId: string
+}
+
+/** One line of recent conversation (no player ids) */
+export interface ChatHistoryEntry {
+    mode: Exclude<ChatMode, 'whisper'>
+    speakerName: string
+    text: string
+    sentUtc: string
+}
+
+/** GET /api/player/{playerId}/chat - Recent conversation at the player's location, oldest first */
+export interface ChatHistoryResponse {
+    locationId: string
+    messages: ChatHistoryEntry[]
+}
+
+/** One location in the player's discovery journal (no player id) */
+export interface DiscoveryJournalEntry {
+    locationId: string
+    locationName: string
+    firstSeenTick: number
+    firstSeenUtc: string
+    lastSeenUtc: string
+    visitCount: number
+}
+
+/** GET /api/player/{playerId}/discoveries - Locations the player has seen, newest discoveries first */
+export interface DiscoveryJournalResponse {
+    discoveries: DiscoveryJournalEntry[]
+    /** Locations discovered in total (may exceed the entries returned) */
+    total: number
+}
+
+/** PUT /api/player/{playerId}/verbosity - Choose how much location prose arrivals show */
+export interface VerbosityRequest {
+    verbosity: DescriptionVerbosity
+}
+
+/** GET / PUT /api/player/{playerId}/verbosity - The player's description verbosity */
+export interface VerbosityResponse {
+    verbosity: DescriptionVerbosity
+}
+
+/** GET / PATCH /api/player/{playerId}/preferences - The player's preferences, defaults filled in */
+export interface PlayerPreferencesResponse {
+    preferences: PlayerPreferences
+}
+
+/** Action category a free-form command (or one step of a command chain) resolves to */
+export type CommandActionKind =
+    | 'Move'
+    | 'Look'
+    | 'Take'
+    | 'Drop'
+    | 'Talk'
+    | 'Lock'
+    | 'Unlock'
+    | 'Attack'
+    | 'Defend'
+    | 'Flee'
+    | 'Wait'
+    | 'Rest'
+    | 'Sleep'
+    | 'Travel'
+    | 'Unknown'
+
+/**
+ * Outcome of one step in a command chain.
+ * - succeeded: the canonical endpoint returned 2xx
+ * - denied: the canonical endpoint refused (4xx, e.g. NoExit, ExitLocked) — a soft denial that stops the chain
+ * - failed: the canonical endpoint errored (5xx)
+ * - unresolved: the step could not be mapped to an action (nothing was executed)
+ * - skipped: an earlier step stopped the chain
+ */
+export type CommandStepStatus = 'succeeded' | 'denied' | 'failed' | 'unresolved' | 'skipped'
+
+/** One executed (or skipped) step of a command chain */
+export interface CommandStepResult {
+    /** Execution order (0 = first) */
+    order: number
+    actionKind: CommandActionKind
+    direction?: string
+    itemName?: string
+    npcName?: string
+    /** Requested duration for Wait / Rest / Sleep steps */
+    durationMs?: number
+    /** Destination name for Travel steps */
+    destination?: string
+    status: CommandStepStatus
+    /** HTTP status returned by the canonical endpoint (absent when the step did not run) */
+    httpStatus?: number
+    /** Canonical endpoint payload (LocationResponse, ItemActionResponse, TalkResponse, ExitLockResponse, CombatResponse, WaitResponse, TravelResponse) */
+    data?: unknown
+    error?: { code: string; message: string }
+}
+
+/** POST /api/player/{playerId}/command - Sequential execution of a multi-intent command ("go north then look") */
+export interface CommandChainResponse {
+    inputText: string
+    /** True when every step succeeded */
+    completed: boolean
+    /** Index into steps of the step that stopped the chain */
+    stoppedAt?: number
+    steps: CommandStepResult[]
+    /** Player location after the chain */
+    locationId?: string
+}
+
+/**
+ * Question returned by POST /api/player/command when a command cannot run as typed ("go" with no direction,
+ * "take the coin" with two coins here). The player answers with an option number, an option, or a short phrase.
+ */
+export interface CommandClarification {
+    prompt: string
+    /** Numbered answers (1-based in the prompt) */
+    options: string[]
+    /** ISO-8601 timestamp after which the question is discarded */
+    expiresAt: string
+}
+
+/** Inventory entry returned by GET /api/player/{playerId}/inventory */
+export interface InventoryEntry extends ItemSummary {
+    quantity: number
+    acquiredAt: string
+}
+
+/** GET /api/player/{playerId}/inventory - Items carried by the player */
+export interface InventoryResponse {
+    playerId: string
+    items: InventoryEntry[]
+    /** Optimistic concurrency token; pass back as expectedVersion on add/remove */
+    inventoryVersion: number
+    /** Maximum number of items the player can carry */
+    capacity: number
+}
+
 // ============================================================================
 // Header Contract Definitions
 // ============================================================================
@@ -150,3 +577,120 @@ export function validateMoveHeaders(headers: Record<string, string | undefined>)
         errors
     }
 }
+
+/** One entry of a location's event timeline, newest first */
+export interface LocationHistoryEntry {
+    eventId: string
+    eventType: string
+    occurredUtc: string
+    actorKind: string
+    /** What happened, as a player would read it */
+    summary: string
+    correlationId: string
+    /** Event that caused this one */
+    causationId?: string
+}
+
+/** GET /api/location/{locationId}/history - What happened at a location, newest first (`history`) */
+export interface LocationHistoryResponse {
+    locationId: string
+    events: LocationHistoryEntry[]
+    /** Pass as ?before= to get the next (older) page; absent on the last page */
+    nextBefore?: string
+}
+
+/** When a scheduled world event is due: give exactly one of a wall-clock time or a world clock tick */
+export interface WorldEventSchedule {
+    /** ISO-8601 wall-clock time */
+    atUtc?: string
+    /** World clock tick (milliseconds) */
+    atTick?: number
+}
+
+/** POST /api/world/events/scheduled - Schedule a world event for later dispatch (operator) */
+export interface ScheduleWorldEventRequest extends WorldEventSchedule {
+    /** Envelope type ('Location.Environment.Changed', ...) */
+    eventType: string
+    payload: Record<string, unknown>
+    /** Defaults to { kind: 'system' } */
+    actor?: Actor
+    /** Scheduling the same key again returns the existing event instead of a second one */
+    idempotencyKey?: string
+}
+
+/** PATCH /api/world/events/scheduled/{eventId} - Move a scheduled event to a new time */
+export type RescheduleWorldEventRequest = WorldEventSchedule
+
+/** A future-dated world event and where it is in its lifecycle */
+export interface ScheduledWorldEvent {
+    eventId: string
+    eventType: string
+    status: 'scheduled' | 'dispatched' | 'cancelled' | 'failed'
+    scheduledForUtc?: string
+    scheduledForTick?: number
+    idempotencyKey: string
+    actor: Actor
+    payload: Record<string, unknown>
+    /** When the event was scheduled */
+    createdUtc: string
+    /** When the event was dispatched, cancelled or failed */
+    closedUtc?: string
+}
+
+/** GET /api/world/events/scheduled - Scheduled events (status 'scheduled' unless ?status= is given), oldest first */
+export interface ScheduledWorldEventsResponse {
+    events: ScheduledWorldEvent[]
+}
+
+/** POST / PATCH / DELETE /api/world/events/scheduled[/{eventId}] - The event after the change */
+export interface ScheduledWorldEventResponse {
+    event: ScheduledWorldEvent
+    /** POST only: false when the idempotency key matched an event scheduled earlier */
+    created?: boolean
+}
+
+/** Whether a dead-lettered envelope passes the current WorldEventEnvelopeSchema ('unavailable': no envelope was kept) */
+export interface DeadLetterValidation {
+    status: 'valid' | 'invalid' | 'unavailable'
+    issues?: Array<{ path: string; message: string; code: string }>
+}
+
+/** A dead-letter record as operators see it (redacted), with the current validation of its kept envelope */
+export type DeadLetterView = DeadLetterRecord & {
+    validation: DeadLetterValidation
+    /** True once a redrive attempt succeeded */
+    redriven: boolean
+}
+
+/** GET /api/world/events/deadletters - Dead letters matching ?start=&end=&eventType=&errorCode=, newest first (operator) */
+export interface DeadLettersResponse {
+    records: DeadLetterView[]
+}
+
+/** GET /api/world/events/deadletters/{id} - One dead letter (operator) */
+export interface DeadLetterResponse {
+    record: DeadLetterView
+}
+
+/** POST /api/world/events/deadletters/redrive - Records to publish again (operator) */
+export interface RedriveDeadLettersRequest {
+    ids: string[]
+}
+
+/** What happened to one record in a redrive request ('not-found' and 'already-redriven' are not recorded on the record) */
+export interface DeadLetterRedriveResult {
+    id: string
+    outcome: DeadLetterRedriveOutcome | 'not-found' | 'already-redriven'
+    /** Event ID of the republished envelope */
+    eventId?: string
+    /** Causation ID given to the republished envelope */
+    causationId?: string
+    message?: string
+    issues?: Array<{ path: string; message: string; code: string }>
+}
+
+/** POST /api/world/events/deadletters/redrive - Per-record outcomes, in request order */
+export interface RedriveDeadLettersResponse {
+    results: DeadLetterRedriveResult[]
+    redriven: number
+}
@@ -6,6 +6,42 @@
  */
 export type DeadLetterErrorCode = 'json-parse' | 'schema-validation' | 'handler-error' | 'unknown'
 
+/**
+ * Result of one redrive attempt on a dead-letter record
+ * - redriven: re-validated and published again as a new envelope
+ * - invalid: the kept envelope still fails the current WorldEventEnvelopeSchema
+ * - not-redrivable: no envelope was kept for this record (unparseable message, or not a world event)
+ * - publish-failed: valid, but publishing to the world-events queue failed
+ */
+export type DeadLetterRedriveOutcome = 'redriven' | 'invalid' | 'not-redrivable' | 'publish-failed'
+
+/** One redrive attempt, appended to the dead-letter record it was made for. */
+export interface DeadLetterRedriveAttempt {
+    /** Attempt timestamp (ISO 8601) */
+    attemptedUtc: string
+
+    outcome: DeadLetterRedriveOutcome
+
+    /** Correlation ID of the operator request that made the attempt */
+    correlationId: string
+
+    /** Event ID of the republished envelope (redriven only) */
+    eventId?: string
+
+    /** Causation ID given to the republished envelope (redriven only) */
+    causationId?: string
+
+    /** Why the attempt did not redrive the record */
+    message?: string
+
+    /** Current schema issues (invalid only) */
+    issues?: Array<{
+        path: string
+        message: string
+        code: string
+    }>
+}
+
 /** Dead-letter record stored in Cosmos SQL. */
 export interface DeadLetterRecord {
     /** Record ID (UUID v4) */
@@ -71,6 +107,9 @@ export interface DeadLetterRecord {
 
     /** Final error message after retries exhausted */
     finalError?: string
+
+    /** Redrive attempts, oldest first */
+    redriveAttempts?: DeadLetterRedriveAttempt[]
 }
 
 /** Payload truncation config */
@@ -265,6 +304,11 @@ export function createDeadLetterRecord(
     }
 }
 
+/** Whether the record has been redriven successfully. */
+export function isDeadLetterRedriven(record: Pick<DeadLetterRecord, 'redriveAttempts'>): boolean {
+    return (record.redriveAttempts ?? []).some((attempt) => attempt.outcome === 'redriven')
+}
+
 /** Derive error code from category string. */
 function deriveErrorCode(category: string): DeadLetterErrorCode {
     switch (category) {
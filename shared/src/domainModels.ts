@@ -6,6 +6,7 @@
  * (player)-[:in]->(location)                           // Player currently located in a location (mirrored by currentLocationId prop)
  * (item)-[:located_in]->(location)                     // Dropped / placed item location
  * (item)-[:held_by]->(player)                          // Item in player inventory (alternative to list-based inventory)
+ * (npc)-[:in]->(location)                              // NPC current location (document-backed: NpcEntity.locationId)
  * (event)-[:targets]->(location|player|item|npc)       // WorldEvent target relationships (future use)
  *
  * IDs: All IDs are GUID/UUID style strings (runtime generation not enforced here).
@@ -17,6 +18,8 @@
  * `docs/architecture/world-event-contract.md#two-related-models-worldevent-vs-worldeventenvelope-intentional`
  */
 
+import type { RollRecord } from './rules/diceRoller.js'
+
 // --- Direction & movement ----------------------------------------------------
 
 /** Cardinal & common text‑adventure directions. Extend cautiously to avoid traversal injection. */
@@ -480,7 +483,429 @@ export interface LoreSearchResult {
  */
 export type TerrainType = 'open-plain' | 'dense-forest' | 'hilltop' | 'riverbank' | 'narrow-corridor'
 
+// --- NPCs ------------------------------------------------------------------
+
+/** Coarse attitude of an NPC toward players. Drives dialogue tone and reactions. */
+export type NpcDisposition = 'friendly' | 'neutral' | 'wary' | 'hostile'
+
+/** Set of allowed NPC dispositions for validation. */
+export const NPC_DISPOSITIONS: readonly NpcDisposition[] = ['friendly', 'neutral', 'wary', 'hostile'] as const
+
+export function isNpcDisposition(value: string): value is NpcDisposition {
+    return (NPC_DISPOSITIONS as readonly string[]).includes(value)
+}
+
+/**
+ * One window of an NPC's daily routine.
+ * Hours are world-clock hours of day (0-23); a window with fromHour > toHour wraps past midnight.
+ */
+export interface NpcScheduleEntry {
+    /** First hour of the window (inclusive). */
+    fromHour: number
+    /** Last hour of the window (exclusive). */
+    toHour: number
+    /** Where the NPC wants to be during the window. */
+    locationId: string
+    /** Optional activity label for narration (e.g., 'mending nets'). */
+    activity?: string
+}
+
+/**
+ * Non-player character. Document-backed (SQL API `npcs` container, partition /id) rather than a graph vertex:
+ * NPC state changes every tick while the graph is reserved for world structure.
+ */
+export interface NpcEntity {
+    id: string
+    name: string
+    description?: string
+    /** Current location (mirrors the (npc)-[:in]->(location) relationship). */
+    locationId: string
+    /** Fallback location when no schedule window applies. */
+    homeLocationId?: string
+    disposition: NpcDisposition
+    /** Daily routine; empty or absent means the NPC stays put unless something moves it. */
+    schedule?: NpcScheduleEntry[]
+    /** Tag facets for behaviour / narrative queries (e.g., 'role:ferryman', 'behavior:wander'). */
+    tags?: string[]
+    /** Arbitrary numeric / textual attributes (HP, mood, etc.). */
+    attributes?: Record<string, number | string | boolean>
+    /** Highest world clock tick applied to this NPC (NPC.Tick idempotency guard). */
+    lastTick?: number
+    /** Most recent location event the NPC reacted to (prevents reacting twice to one arrival). */
+    lastReactedEventId?: string
+    createdAt?: string
+    updatedAt?: string
+}
+
+/** One line of a player↔NPC conversation. */
+export interface NpcDialogueTurn {
+    speaker: 'player' | 'npc'
+    text: string
+    /** ISO 8601 timestamp the line was spoken. */
+    at: string
+    /** How an NPC line was produced: 'ai' (npc-dialogue-generator template) or 'fallback' (deterministic pool). */
+    source?: 'ai' | 'fallback'
+}
+
+/**
+ * Conversation state between one player and one NPC (SQL API `dialogueSessions` container, partition /playerId).
+ * Document id is `${playerId}:${npcId}` so each pair has exactly one session.
+ */
+export interface NpcDialogueSession {
+    id: string
+    playerId: string
+    npcId: string
+    /** Most recent turns, oldest first; older turns are dropped once the cap is reached. */
+    turns: NpcDialogueTurn[]
+    /** Total turns exchanged, including dropped ones. */
+    turnCount: number
+    createdAt?: string
+    updatedAt?: string
+}
+
+// --- Quests ----------------------------------------------------------------
+
+/**
+ * Quest lifecycle. Quests start `active` when a Quest.Proposed event is accepted for a player;
+ * `completed`, `failed` and `abandoned` are terminal.
+ */
+export type QuestStatus = 'active' | 'completed' | 'failed' | 'abandoned'
+
+/** Allowed status changes; terminal states have no outgoing transitions. */
+export const QUEST_STATUS_TRANSITIONS: Readonly<Record<QuestStatus, readonly QuestStatus[]>> = {
+    active: ['completed', 'failed', 'abandoned'],
+    completed: [],
+    failed: [],
+    abandoned: []
+}
+
+export function canTransitionQuest(from: QuestStatus, to: QuestStatus): boolean {
+    return QUEST_STATUS_TRANSITIONS[from].includes(to)
+}
+
+/** What a player must do to advance an objective: reach a location, pick up an item, or speak with an NPC. */
+export type QuestObjectiveKind = 'visit' | 'collect' | 'talk'
+
+/** Set of allowed objective kinds for validation. */
+export const QUEST_OBJECTIVE_KINDS: readonly QuestObjectiveKind[] = ['visit', 'collect', 'talk'] as const
+
+export function isQuestObjectiveKind(value: string): value is QuestObjectiveKind {
+    return (QUEST_OBJECTIVE_KINDS as readonly string[]).includes(value)
+}
+
+/**
+ * One step of a quest. An objective matches a movement / pickup / dialogue by `targetId`
+ * (location, item or NPC id) or, when no id is known, by case-insensitive `targetName`.
+ */
+export interface QuestObjective {
+    id: string
+    kind: QuestObjectiveKind
+    description: string
+    targetId?: string
+    targetName?: string
+    /** Matching actions needed to complete the objective (default 1). */
+    required: number
+    /** Matching actions recorded so far (never exceeds `required`). */
+    progress: number
+}
+
+/** Item granted into the player's inventory when the quest completes. */
+export interface QuestReward {
+    name: string
+    description?: string
+    quantity?: number
+}
+
+/**
+ * A quest offered to one player (SQL API `quests` container, partition /playerId).
+ * Created by the Quest.Proposed handler; objective progress is recorded by QuestProgressService.
+ */
+export interface QuestEntity {
+    id: string
+    playerId: string
+    title: string
+    description?: string
+    /** NPC who offered the quest, if any. */
+    giverNpcId?: string
+    /** Hash of the generation seed (Quest.Proposed payload) for replay diagnostics. */
+    seedHash?: string
+    status: QuestStatus
+    objectives: QuestObjective[]
+    rewards: QuestReward[]
+    /** True once rewards have been placed in the player's inventory (guards against double grants). */
+    rewardsGranted?: boolean
+    createdAt?: string
+    updatedAt?: string
+    completedAt?: string
+}
+
+// --- Combat ----------------------------------------------------------------
+
+/** Player combat commands. Each command resolves one round: the player acts, then the NPC answers if it can. */
+export type CombatAction = 'attack' | 'defend' | 'flee'
+
+/**
+ * Where an encounter stands after a round. `won` / `lost` / `fled` end the encounter;
+ * `lost` leaves the player defeated (0 HP).
+ */
+export type EncounterOutcome = 'ongoing' | 'won' | 'lost' | 'fled'
+
+/**
+ * One roll made while resolving a round (recorded in the Combat.Round event for replay audits).
+ * Extends the rules-module roll record with who rolled and what the total was compared against.
+ */
+export interface CombatRoll extends RollRecord {
+    /** Who rolled. */
+    actor: 'player' | 'npc'
+    purpose: 'attack' | 'damage' | 'flee'
+    /** Armor class or difficulty the total was compared against (attack / flee rolls). */
+    target?: number
+    success?: boolean
+}
+
+/** Current and maximum hit points. */
+export interface HitPoints {
+    hp: number
+    maxHp: number
+}
+
+// --- Passing time ------------------------------------------------------------
+
+/** Player commands that spend time in place. `rest` and `sleep` also recover hit points. */
+export type WaitAction = 'wait' | 'rest' | 'sleep'
+
+// --- Travel ------------------------------------------------------------------
+
+/**
+ * Why a `travel to` journey stopped before its destination. Each leg is re-checked just before it is
+ * walked: the exit may have been locked, forbidden, turned back into a pending stub, or removed since
+ * the route was planned.
+ */
+export type TravelStopReason = 'locked' | 'forbidden' | 'pending' | 'no-exit'
+
+/** One exit traversal of a planned route. */
+export interface TravelLeg {
+    fromLocationId: string
+    toLocationId: string
+    /** Name of the location the leg arrives at */
+    toLocationName: string
+    direction: string
+    /** Travel time of the exit edge (falls back to the default move duration) */
+    travelDurationMs: number
+}
+
+// --- Presence ----------------------------------------------------------------
+
+/**
+ * Where a player was last seen (SQL API `playerPresence` container, partition /id; id is the player id).
+ * A projection of the authoritative player record, refreshed when the player bootstraps a session or
+ * changes location. Entries not refreshed within the staleness window count as offline and expire via TTL.
+ */
+export interface PlayerPresence {
+    id: string
+    /** Display name shown to other players */
+    name: string
+    locationId: string
+    /** ISO 8601 timestamp of the last refresh */
+    lastSeenUtc: string
+    /** Cosmos per-item TTL in seconds */
+    ttl?: number
+}
+
+// --- Chat ---------------------------------------------------------------------
+
+/** How far a player's message carries: the location (`say`), nearby locations (`shout`) or one player (`whisper`). */
+export type ChatMode = 'say' | 'shout' | 'whisper'
+
+/**
+ * A message spoken aloud at a location (SQL API `chatMessages` container, partition /locationId).
+ * Kept briefly (per-item TTL) so players arriving shortly after see the recent conversation.
+ * Whispers are private and never stored.
+ */
+export interface ChatMessage {
+    id: string
+    /** Where it was said (shouts are kept at their origin) */
+    locationId: string
+    mode: Exclude<ChatMode, 'whisper'>
+    /** Speaker's player id (moderation only; never returned to other players) */
+    speakerId: string
+    /** Speaker's display name */
+    speakerName: string
+    /** Message after the content filter */
+    text: string
+    /** ISO 8601 timestamp */
+    sentUtc: string
+    /** Cosmos per-item TTL in seconds */
+    ttl?: number
+}
+
+// --- Discovery ----------------------------------------------------------------
+
+/** What revealed a location to the player. */
+export type DiscoverySource = 'move' | 'look'
+
+/**
+ * A location as the player has come to know it (SQL API `discoveries` container, partition /playerId;
+ * id is `<playerId>:<locationId>`). Written on every successful move (including travel legs and flight)
+ * and look, so the server knows which locations each player has seen and when.
+ */
+export interface LocationDiscovery {
+    id: string
+    playerId: string
+    locationId: string
+    /** Location name when last seen */
+    locationName: string
+    /** World clock tick when the player first saw the location */
+    firstSeenTick: number
+    /** ISO 8601 timestamp of the first sighting */
+    firstSeenUtc: string
+    /** ISO 8601 timestamp of the latest sighting */
+    lastSeenUtc: string
+    /** Sightings so far, the first included */
+    visitCount: number
+    /** SHA-256 of the description text shown at the latest sighting (detects changes since the last visit) */
+    lastDescriptionHash: string
+    /** How the latest sighting happened */
+    lastSource: DiscoverySource
+}
+
+// --- Description verbosity ----------------------------------------------------
+
+/**
+ * How much location prose a player wants on arrival (classic brief/verbose modes):
+ * - verbose: the full description on every arrival.
+ * - brief: the full description only on the first visit; afterwards name and exits.
+ * - superbrief: name and exits only, on every arrival.
+ * An explicit `look` always shows the full description.
+ */
+export type DescriptionVerbosity = 'verbose' | 'brief' | 'superbrief'
+
+export const DESCRIPTION_VERBOSITY_MODES: readonly DescriptionVerbosity[] = ['verbose', 'brief', 'superbrief'] as const
+
+/** Verbosity for players who never chose one. */
+export const DEFAULT_DESCRIPTION_VERBOSITY: DescriptionVerbosity = 'verbose'
+
+export function isDescriptionVerbosity(value: unknown): value is DescriptionVerbosity {
+    return typeof value === 'string' && (DESCRIPTION_VERBOSITY_MODES as readonly string[]).includes(value)
+}
+
+// --- Player preferences -------------------------------------------------------
+
+/** Base text size of the client (scales all rem-based sizes). */
+export type TextSizePreference = 'small' | 'medium' | 'large' | 'x-large'
+
+export const TEXT_SIZE_PREFERENCES: readonly TextSizePreference[] = ['small', 'medium', 'large', 'x-large'] as const
+
+/** Colour theme of the client. */
+export type ThemePreference = 'dark' | 'high-contrast'
+
+export const THEME_PREFERENCES: readonly ThemePreference[] = ['dark', 'high-contrast'] as const
+
+/** World map starting view. */
+export interface MapPreferences {
+    /** Show outdoor locations */
+    showOutsideNodes: boolean
+    /** Show indoor locations */
+    showInsideNodes: boolean
+    /** Exit hops shown around a focused location */
+    focusDepth: 0 | 1 | 2 | 3
+}
+
+/**
+ * A player's interface and gameplay preferences, stored server-side so they follow the player
+ * across devices (a linked account resolves to the same player on every device).
+ */
+export interface PlayerPreferences {
+    textSize: TextSizePreference
+    theme: ThemePreference
+    /** Turn off animations and transitions even when the device does not ask for it */
+    reducedMotion: boolean
+    verbosity: DescriptionVerbosity
+    /** Follow every arrival with a full `look` (items, NPCs and players present) */
+    autoLookOnMove: boolean
+    /** Show the navigation buttons beside the command line */
+    navigationUIEnabled: boolean
+    map: MapPreferences
+}
+
+/** A partial update (and the stored form: only what the player changed). */
+export type PlayerPreferencesPatch = Partial<Omit<PlayerPreferences, 'map'>> & { map?: Partial<MapPreferences> }
+
+export const DEFAULT_PLAYER_PREFERENCES: PlayerPreferences = {
+    textSize: 'medium',
+    theme: 'dark',
+    reducedMotion: false,
+    verbosity: DEFAULT_DESCRIPTION_VERBOSITY,
+    autoLookOnMove: false,
+    navigationUIEnabled: true,
+    map: { showOutsideNodes: true, showInsideNodes: true, focusDepth: 1 }
+}
+
+const isOneOf =
+    <T extends string>(values: readonly T[]) =>
+    (value: unknown): value is T =>
+        typeof value === 'string' && (values as readonly string[]).includes(value)
+
+const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean'
+
+const PREFERENCE_CHECKS: Record<Exclude<keyof PlayerPreferences, 'map'>, (value: unknown) => boolean> = {
+    textSize: isOneOf(TEXT_SIZE_PREFERENCES),
+    theme: isOneOf(THEME_PREFERENCES),
+    reducedMotion: isBoolean,
+    verbosity: isDescriptionVerbosity,
+    autoLookOnMove: isBoolean,
+    navigationUIEnabled: isBoolean
+}
+
+const MAP_PREFERENCE_CHECKS: Record<keyof MapPreferences, (value: unknown) => boolean> = {
+    showOutsideNodes: isBoolean,
+    showInsideNodes: isBoolean,
+    focusDepth: (value) => value === 0 || value === 1 || value === 2 || value === 3
+}
+
+/**
+ * Validate a preferences patch (unknown keys are rejected so typos do not silently do nothing).
+ * @returns The patch, or the first offending field (`map.focusDepth` for nested ones)
+ */
+export function parsePlayerPreferencesPatch(value: unknown): { ok: true; patch: PlayerPreferencesPatch } | { ok: false; field: string } {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return { ok: false, field: '(body)' }
+    for (const [key, field] of Object.entries(value)) {
+        if (key === 'map') {
+            if (!field || typeof field !== 'object' || Array.isArray(field)) return { ok: false, field: 'map' }
+            for (const [mapKey, mapField] of Object.entries(field)) {
+                const check = MAP_PREFERENCE_CHECKS[mapKey as keyof MapPreferences]
+                if (!check || !check(mapField)) return { ok: false, field: `map.${mapKey}` }
+            }
+            continue
+        }
+        const check = PREFERENCE_CHECKS[key as keyof typeof PREFERENCE_CHECKS]
+        if (!check || !check(field)) return { ok: false, field: key }
+    }
+    return { ok: true, patch: value as PlayerPreferencesPatch }
+}
+
+/** Combine two patches; later fields win, map fields are merged. */
+export function mergePlayerPreferences(base: PlayerPreferencesPatch | undefined, patch: PlayerPreferencesPatch): PlayerPreferencesPatch {
+    return {
+        ...base,
+        ...patch,
+        ...(base?.map || patch.map ? { map: { ...base?.map, ...patch.map } } : {})
+    }
+}
+
+/** Full preferences from what was stored: valid stored fields over DEFAULT_PLAYER_PREFERENCES. */
+export function resolvePlayerPreferences(stored: PlayerPreferencesPatch | undefined): PlayerPreferences {
+    const resolved: PlayerPreferences = { ...DEFAULT_PLAYER_PREFERENCES, map: { ...DEFAULT_PLAYER_PREFERENCES.map } }
+    if (!stored) return resolved
+    for (const key of Object.keys(PREFERENCE_CHECKS) as Array<keyof typeof PREFERENCE_CHECKS>) {
+        if (PREFERENCE_CHECKS[key](stored[key])) Object.assign(resolved, { [key]: stored[key] })
+    }
+    for (const key of Object.keys(MAP_PREFERENCE_CHECKS) as Array<keyof MapPreferences>) {
+        if (MAP_PREFERENCE_CHECKS[key](stored.map?.[key])) Object.assign(resolved.map, { [key]: stored.map?.[key] })
+    }
+    return resolved
+}
+
 // Future extension placeholders:
-// - NPC entity model
 // - Faction / Governance structures
-// - Quest / Dialogue graph types
+// - Quest graph types (branching / prerequisite quests)
@@ -71,16 +71,101 @@ export type Actor = z.infer<typeof ActorSchema>
  *   }
  *   Idempotency key: 'agent-step:{entityId}:{stepSequence}'
  *   Version: 1
+ *
+ * 'Player.Take' / 'Player.Drop' - Item moved between a location and a player's inventory
+ *   Payload: {
+ *     playerId: UUID (string) - Player performing the action
+ *     locationId: UUID (string) - Location the item was taken from / dropped at
+ *     itemId: string - World item identifier (stable across take/drop)
+ *     itemName: string - Display name at the time of the action
+ *     actionIntent: ActionIntent - Required for player-actor envelopes
+ *   }
+ *   Idempotency key: 'item-take:{playerId}:{itemId}:{occurredUtc}' / 'item-drop:{playerId}:{itemId}:{occurredUtc}'
+ *   Version: 1
+ *
+ * 'NPC.Move' - NPC moved one hop along an exit as the outcome of an NPC.Tick (replay record)
+ *   Payload: {
+ *     npcId: UUID (string) - NPC that moved
+ *     fromLocationId: UUID (string) - Location the NPC left
+ *     toLocationId: UUID (string) - Location the NPC arrived at
+ *     direction: Direction (string) - Exit direction taken
+ *     behavior: string - 'wander' | 'schedule' | 'react'
+ *     tick: number - World clock tick the move was applied at
+ *   }
+ *   Idempotency key: 'npc-move:{npcId}:{tick}'
+ *   Version: 1
+ *
+ * 'NPC.Dialogue' - NPC spoke as the outcome of an NPC.Tick (replay record)
+ *   Payload: {
+ *     npcId: UUID (string) - NPC that spoke
+ *     locationId: UUID (string) - Where the line was spoken
+ *     line: string - Spoken text
+ *     behavior: string - Behaviour that produced the line (currently 'react')
+ *     triggerEventId?: UUID (string) - Location event the NPC reacted to
+ *     tick: number - World clock tick the line was spoken at
+ *   }
+ *   Idempotency key: 'npc-dialogue:{npcId}:{tick}'
+ *   Version: 1
+ *
+ * 'World.Exit.LockChanged' - Exit locked or unlocked (player `lock`/`unlock` with a matching key)
+ *   Payload: {
+ *     locationId: UUID (string) - Location the exit leaves from
+ *     direction: Direction (string) - Exit direction
+ *     toLocationId?: UUID (string) - Destination; the reciprocal exit is updated too
+ *     lockState: 'locked' | 'unlocked' - New lock state
+ *     playerId?: UUID (string) - Player who turned the key
+ *     keyItemId?: string - Inventory item used as the key
+ *     actionIntent: ActionIntent - Required for player-actor envelopes
+ *   }
+ *   Idempotency key: 'exit-lock:{locationId}:{direction}:{lockState}:{occurredUtc}'
+ *   Version: 1
+ *
+ * 'Quest.Proposed' - Quest generated for a player (quest-generator output); persisted as an active quest
+ *   Payload: {
+ *     questId: string - Quest identifier (replays of an existing quest are a noop)
+ *     seedHash?: string - Hash of the generation seed
+ *     playerId: UUID (string) - Player the quest is offered to
+ *     title: string - Journal title
+ *     description?: string - Journal description
+ *     giverNpcId?: UUID (string) - NPC who offered the quest
+ *     objectives: Array<{ kind: 'visit' | 'collect' | 'talk', description, targetId? | targetName?, required? }> (1-10)
+ *     rewards?: Array<{ name, description?, quantity? }> - Items granted on completion (0-5)
+ *   }
+ *   Idempotency key: 'quest:{questId}:proposed'
+ *   Version: 1
+ *
+ * 'Combat.Round' - One resolved combat round (replay record; outcomes are applied synchronously)
+ *   Payload: {
+ *     playerId: UUID (string) - Player in the encounter
+ *     npcId: UUID (string) - Opponent
+ *     locationId: UUID (string) - Where the fight took place
+ *     action: 'attack' | 'defend' | 'flee' - Player command for the round
+ *     round: number - Round number within the encounter (1-based)
+ *     seed: string - RNG seed for the round ('{playerId}:{npcId}:{encounterId}:{round}')
+ *     rolls: CombatRoll[] - Every roll, in order (shared-rules RollRecord + actor / purpose / target); replayRollLog(seed, rolls) re-checks them
+ *     outcome: 'ongoing' | 'won' | 'lost' | 'fled'
+ *     playerHp: number, npcHp: number - Hit points after the round
+ *     toLocationId?: UUID (string) - Destination after a successful flee
+ *     actionIntent: ActionIntent - Required for player-actor envelopes
+ *   }
+ *   Idempotency key: 'combat:{playerId}:{npcId}:{encounterId}:{round}'
+ *   Version: 1
  */
 export const WorldEventTypeSchema = z.enum([
     'Player.Move',
     'Player.Look',
+    'Player.Take', // Item picked up from a location into player inventory
+    'Player.Drop', // Item dropped from player inventory into a location
     'NPC.Tick',
+    'NPC.Move', // NPC moved along an exit (tick outcome)
+    'NPC.Dialogue', // NPC spoke (tick outcome)
     'World.Ambience.Generated',
     'World.Exit.Create',
+    'World.Exit.LockChanged', // Exit lock state toggled with a key
     'World.Location.BatchGenerate',
     'Location.Environment.Changed',
     'Quest.Proposed',
+    'Combat.Round', // Combat round resolved (attack / defend / flee)
     'Navigation.Exit.GenerationHint', // Exit generation hint queued for processing
     'World.Agent.Step' // Autonomous agent step (sense→decide→act) - queue-only runtime hook
 ])
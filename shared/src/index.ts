@@ -19,6 +19,7 @@ export * from './exitDescriptionValidator.js'
 export * from './location.js'
 export * from './models/index.js'
 export * from './prompts/index.js'
+export * from './rules/index.js'
 export * from './serviceConstants.js'
 export * from './telemetryAttributes.js'
 export * from './telemetryEvents.js'
@@ -23,6 +23,11 @@ export interface LocationExit {
      * Lock state may be changed by world events.
      */
     lockState?: LockState
+    /**
+     * When the lock state last changed (ISO 8601). A World.Exit.LockChanged event that did not
+     * occur after this is stale and is not applied.
+     */
+    lockChangedUtc?: string
 }
 
 /** Default travel duration for exits within urban/settlement areas (5 minutes). */
@@ -9,6 +9,8 @@
  * Container: `players` in Cosmos SQL API
  */
 
+import type { DescriptionVerbosity, PlayerPreferencesPatch } from '../domainModels.js'
+
 /**
  * Core player document stored in Cosmos SQL API
  */
@@ -39,4 +41,13 @@ export interface PlayerDoc {
 
     /** ISO 8601 timestamp of last drift application */
     lastDrift?: string
+
+    /** Preferences the player changed from DEFAULT_PLAYER_PREFERENCES (resolvePlayerPreferences fills in the rest) */
+    preferences?: PlayerPreferencesPatch
+
+    /**
+     * @deprecated Verbosity stored before `preferences` existed. Still read as the verbosity preference when
+     * `preferences.verbosity` is unset; moved into `preferences` on the player's next preference change.
+     */
+    verbosity?: DescriptionVerbosity
 }
@@ -10,10 +10,27 @@
 import type { Direction } from './domainModels.js'
 
 /** Discriminated union of recognised action verbs. */
-export type IntentVerb = 'move' | 'attack' | 'throw' | 'examine' | 'take' | 'communicate' | 'defend' | 'use_item' | 'flee' | 'interact'
+export type IntentVerb =
+    | 'move'
+    | 'attack'
+    | 'throw'
+    | 'examine'
+    | 'take'
+    | 'drop'
+    | 'communicate'
+    | 'defend'
+    | 'use_item'
+    | 'flee'
+    | 'interact'
+    | 'lock'
+    | 'unlock'
+    | 'wait'
+    | 'rest'
+    | 'sleep'
+    | 'travel'
 
 /** Reason why an intent could not be fully resolved. */
-export type AmbiguityIssueType = 'unknown_entity' | 'unknown_item' | 'ambiguous_direction' | 'multi_interpretation'
+export type AmbiguityIssueType = 'unknown_entity' | 'unknown_item' | 'ambiguous_direction' | 'multi_interpretation' | 'missing_required'
 
 /** A flagged ambiguity within a command. Non-critical ambiguities do not block execution. */
 export type AmbiguityIssue = {
@@ -47,7 +64,7 @@ export type Intent = {
 
     /** Resolved target entity GUID (if known). */
     targetEntityId?: string
-    /** Raw surface text for an unresolved target (e.g. "seagull"). */
+    /** Raw surface text for an unresolved target (e.g. "seagull"; for travel, the destination phrase "harbour steps"). */
     surfaceTargetName?: string
 
     /** Resolved item GUID used as the object (if known). */
@@ -60,6 +77,8 @@ export type Intent = {
 
     /** Quantity modifier (e.g. "throw 3 rocks" → 3). */
     quantity?: number
+    /** Duration for wait / rest / sleep intents (e.g. "wait 2 hours" → 7200000). */
+    durationMs?: number
     /** Adverbial modifiers (e.g. ['carefully', 'chase']). */
     modifiers?: string[]
     /** High-level tactical role hint for the agent (e.g. 'pursuit', 'distraction'). */
@@ -96,3 +115,29 @@ export type ParsedCommand = {
     /** ISO-8601 timestamp of when the command was parsed. */
     createdAt: string
 }
+
+/** Intent slot a clarification question fills in. */
+export type ClarificationSlot = 'direction' | 'target'
+
+/**
+ * A clarification question awaiting the player's answer (SQL API `pendingClarifications` container, partition /playerId).
+ * Document id is the player id, so each player has at most one open question; asking again replaces it.
+ */
+export type PendingClarification = {
+    id: string
+    playerId: string
+    /** The command that raised the question (e.g. "go", "take the coin"). */
+    rawInput: string
+    /** The intent being clarified; the answer is written into `slot` before it is resolved. */
+    intent: Intent
+    slot: ClarificationSlot
+    /** Question shown to the player. */
+    prompt: string
+    /** Numbered answers offered to the player (1-based in the prompt). */
+    options: string[]
+    createdAt: string
+    /** ISO-8601 timestamp after which the question is discarded. */
+    expiresAt: string
+    /** Cosmos per-document TTL in seconds. */
+    ttl?: number
+}
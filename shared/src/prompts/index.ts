@@ -3,6 +3,7 @@
 export * from './canonicalize.js'
 export * from './examples.js'
 export * from './hash.js'
+export * from './interpolate.js'
 export * from './loader.js'
 export * from './PromptTemplateRepository.js'
 export * from './schema.js'
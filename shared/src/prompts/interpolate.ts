@@ -0,0 +1,53 @@
+/**
+ * Prompt Template Interpolation
+ *
+ * Fills `[variable]` placeholders in a loaded template using caller-supplied values,
+ * falling back to each variable's declared defaultValue.
+ *
+ * Design:
+ * - Only declared variables are replaced; other bracketed text is left untouched
+ * - Blank values count as missing (so defaults apply)
+ * - Missing required variables fail loudly rather than sending a half-filled prompt
+ */
+
+import type { PromptTemplateFile } from './schema.js'
+
+/**
+ * Thrown when required template variables have no value and no default
+ */
+export class PromptInterpolationError extends Error {
+    constructor(
+        public readonly templateId: string,
+        public readonly missingVariables: string[]
+    ) {
+        super(`Prompt template '${templateId}' is missing required variables: ${missingVariables.join(', ')}`)
+        this.name = 'PromptInterpolationError'
+    }
+}
+
+/**
+ * Interpolate a prompt template's `[variable]` placeholders
+ * @param template - Loaded prompt template file
+ * @param values - Variable values keyed by variable name
+ * @returns Template text with every declared variable replaced
+ * @throws PromptInterpolationError when a required variable has neither a value nor a default
+ */
+export function interpolatePromptTemplate(template: PromptTemplateFile, values: Record<string, string | undefined>): string {
+    const missing: string[] = []
+    let text = template.template
+
+    for (const variable of template.variables ?? []) {
+        const supplied = values[variable.name]?.trim()
+        const value = supplied || variable.defaultValue
+        if (value === undefined) {
+            if (variable.required) missing.push(variable.name)
+            continue
+        }
+        text = text.split(`[${variable.name}]`).join(value)
+    }
+
+    if (missing.length > 0) {
+        throw new PromptInterpolationError(template.metadata.id, missing)
+    }
+    return text
+}
@@ -0,0 +1,127 @@
+/**
+ * D&D 5e SRD check primitives: ability modifiers, proficiency, difficulty classes,
+ * advantage / disadvantage, ability (skill) checks and attack rolls.
+ *
+ * All rolls go through a DiceRoller so they land in its record log. Checks are plain
+ * functions over a roller; callers decide what a success means for the world.
+ */
+import type { DiceRoller, RollRecord } from './diceRoller.js'
+
+export const ABILITIES = ['strength', 'dexterity', 'constitution', 'intelligence', 'wisdom', 'charisma'] as const
+export type Ability = (typeof ABILITIES)[number]
+
+/** SRD skills and the ability each one is checked with. */
+export const SKILL_ABILITIES = {
+    acrobatics: 'dexterity',
+    animalHandling: 'wisdom',
+    arcana: 'intelligence',
+    athletics: 'strength',
+    deception: 'charisma',
+    history: 'intelligence',
+    insight: 'wisdom',
+    intimidation: 'charisma',
+    investigation: 'intelligence',
+    medicine: 'wisdom',
+    nature: 'intelligence',
+    perception: 'wisdom',
+    performance: 'charisma',
+    persuasion: 'charisma',
+    religion: 'intelligence',
+    sleightOfHand: 'dexterity',
+    stealth: 'dexterity',
+    survival: 'wisdom'
+} as const satisfies Record<string, Ability>
+export type Skill = keyof typeof SKILL_ABILITIES
+
+/** Typical difficulty classes (SRD "Typical Difficulty Classes" table). */
+export const DIFFICULTY_CLASSES = {
+    veryEasy: 5,
+    easy: 10,
+    medium: 15,
+    hard: 20,
+    veryHard: 25,
+    nearlyImpossible: 30
+} as const
+export type Difficulty = keyof typeof DIFFICULTY_CLASSES
+
+export type RollMode = 'normal' | 'advantage' | 'disadvantage'
+
+export interface CheckOptions {
+    /** Total bonus added to the d20 (ability modifier + proficiency + situational). */
+    modifier?: number
+    /** Difficulty class as a number or a named difficulty. */
+    dc: number | Difficulty
+    mode?: RollMode
+    purpose?: string
+}
+
+export interface CheckResult {
+    record: RollRecord
+    /** The d20 that counted (the kept die under advantage / disadvantage). */
+    natural: number
+    total: number
+    dc: number
+    success: boolean
+    mode: RollMode
+}
+
+export interface AttackOptions {
+    attackBonus: number
+    armorClass: number
+    mode?: RollMode
+    purpose?: string
+}
+
+export interface AttackResult {
+    record: RollRecord
+    natural: number
+    total: number
+    hit: boolean
+    /** Natural 20: always hits and doubles the damage dice. */
+    critical: boolean
+}
+
+/** Ability score → modifier: floor((score − 10) / 2). */
+export function abilityModifier(score: number): number {
+    return Math.floor((score - 10) / 2)
+}
+
+/** Proficiency bonus by character level (+2 at 1–4, rising by 1 every four levels). */
+export function proficiencyBonus(level: number): number {
+    return 2 + Math.floor((Math.max(1, level) - 1) / 4)
+}
+
+/** Resolve a numeric or named difficulty class. */
+export function resolveDifficultyClass(dc: number | Difficulty): number {
+    return typeof dc === 'number' ? dc : DIFFICULTY_CLASSES[dc]
+}
+
+/** Advantage and disadvantage cancel out regardless of how many sources grant each. */
+export function resolveRollMode(advantage: boolean, disadvantage: boolean): RollMode {
+    if (advantage === disadvantage) return 'normal'
+    return advantage ? 'advantage' : 'disadvantage'
+}
+
+/** Roll a d20 test (two dice, keep one, under advantage / disadvantage). */
+export function rollD20(roller: DiceRoller, modifier = 0, mode: RollMode = 'normal', purpose?: string): RollRecord {
+    if (mode === 'normal') {
+        return roller.roll({ count: 1, sides: 20, modifier }, purpose)
+    }
+    return roller.roll({ count: 2, sides: 20, keep: { which: mode === 'advantage' ? 'highest' : 'lowest', count: 1 }, modifier }, purpose)
+}
+
+/** Ability or skill check: d20 + modifier meets or beats the DC. Natural 20 / 1 have no special effect. */
+export function abilityCheck(roller: DiceRoller, options: CheckOptions): CheckResult {
+    const mode = options.mode ?? 'normal'
+    const dc = resolveDifficultyClass(options.dc)
+    const record = rollD20(roller, options.modifier ?? 0, mode, options.purpose)
+    return { record, natural: record.natural, total: record.total, dc, success: record.total >= dc, mode }
+}
+
+/** Attack roll against armor class. Natural 20 always hits (critical); natural 1 always misses. */
+export function attackRoll(roller: DiceRoller, options: AttackOptions): AttackResult {
+    const record = rollD20(roller, options.attackBonus, options.mode ?? 'normal', options.purpose)
+    const critical = record.natural === 20
+    const hit = critical || (record.natural !== 1 && record.total >= options.armorClass)
+    return { record, natural: record.natural, total: record.total, hit, critical }
+}
@@ -0,0 +1,69 @@
+/**
+ * Dice notation (`NdS[kh|klK][+/-M]`), e.g. `d20`, `2d6+3`, `2d20kh1` (advantage), `4d6kh3`.
+ *
+ * Parsing is whitespace- and case-insensitive. `formatDiceNotation` produces the canonical form
+ * recorded on roll records, so a parsed-then-formatted expression always round-trips.
+ */
+
+export const MAX_DICE_COUNT = 100
+export const MAX_DIE_SIDES = 1000
+
+export interface DiceExpression {
+    /** Number of dice rolled (defaults to 1 when omitted: `d20`). */
+    count: number
+    /** Faces per die (d20 → 20). */
+    sides: number
+    /** Keep only the highest / lowest `count` dice (advantage, disadvantage, 4d6 drop lowest). */
+    keep?: { which: 'highest' | 'lowest'; count: number }
+    /** Flat modifier added to the kept dice. */
+    modifier: number
+}
+
+export type DiceNotationResult = { success: true; data: DiceExpression } | { success: false; error: string }
+
+const NOTATION_PATTERN = /^(\d*)d(\d+)(?:k([hl])(\d+))?([+-]\d+)?$/
+
+/** Parse dice notation without throwing. */
+export function safeParseDiceNotation(notation: string): DiceNotationResult {
+    const compact = notation.replace(/\s+/g, '').toLowerCase()
+    const match = NOTATION_PATTERN.exec(compact)
+    if (!match) {
+        return { success: false, error: `Invalid dice notation "${notation}"` }
+    }
+
+    const [, countText, sidesText, keepWhich, keepText, modifierText] = match
+    const count = countText ? Number(countText) : 1
+    const sides = Number(sidesText)
+    if (count < 1 || count > MAX_DICE_COUNT) {
+        return { success: false, error: `Dice count must be between 1 and ${MAX_DICE_COUNT} in "${notation}"` }
+    }
+    if (sides < 2 || sides > MAX_DIE_SIDES) {
+        return { success: false, error: `Die sides must be between 2 and ${MAX_DIE_SIDES} in "${notation}"` }
+    }
+
+    const expression: DiceExpression = { count, sides, modifier: modifierText ? Number(modifierText) : 0 }
+    if (keepWhich) {
+        const keepCount = Number(keepText)
+        if (keepCount < 1 || keepCount > count) {
+            return { success: false, error: `Cannot keep ${keepCount} of ${count} dice in "${notation}"` }
+        }
+        expression.keep = { which: keepWhich === 'h' ? 'highest' : 'lowest', count: keepCount }
+    }
+    return { success: true, data: expression }
+}
+
+/** Parse dice notation; throws on invalid input (use for notation written in code or config). */
+export function parseDiceNotation(notation: string): DiceExpression {
+    const result = safeParseDiceNotation(notation)
+    if (!result.success) {
+        throw new Error(result.error)
+    }
+    return result.data
+}
+
+/** Canonical notation for an expression, e.g. `{ count: 1, sides: 20, modifier: -1 }` → `1d20-1`. */
+export function formatDiceNotation(expression: DiceExpression): string {
+    const keep = expression.keep ? `k${expression.keep.which === 'highest' ? 'h' : 'l'}${expression.keep.count}` : ''
+    const modifier = expression.modifier > 0 ? `+${expression.modifier}` : expression.modifier < 0 ? `${expression.modifier}` : ''
+    return `${expression.count}d${expression.sides}${keep}${modifier}`
+}
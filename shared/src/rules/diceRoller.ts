@@ -0,0 +1,91 @@
+/**
+ * DiceRoller — rolls dice expressions from a seeded generator and keeps a log of every roll.
+ *
+ * The log is meant to travel with the world event that the rolls decided (e.g. `Combat.Round.rolls`),
+ * so an audit or replay can re-create the roller from the same seed and check that it produces the
+ * same dice (`replayRollLog`).
+ */
+import { formatDiceNotation, parseDiceNotation, type DiceExpression } from './diceNotation.js'
+import { createSeededRng, type RandomSource } from './seededRng.js'
+
+/** One resolved roll, suitable for event payloads. */
+export interface RollRecord {
+    /** Canonical notation rolled (see formatDiceNotation). */
+    notation: string
+    /** Number of dice rolled. */
+    count: number
+    /** Faces per die. */
+    sides: number
+    /** Every die in draw order. */
+    dice: number[]
+    /** Sum of the kept dice before the modifier. */
+    natural: number
+    modifier: number
+    total: number
+    /** Free-form label for what the roll decided (attack, damage, perception, ...). */
+    purpose?: string
+}
+
+export class DiceRoller {
+    private readonly rng: RandomSource
+    private readonly log: RollRecord[] = []
+
+    constructor(readonly seed: string) {
+        this.rng = createSeededRng(seed)
+    }
+
+    /** Rolls made so far, oldest first. */
+    get records(): readonly RollRecord[] {
+        return this.log
+    }
+
+    /** Roll an expression or notation string and record it. */
+    roll(expression: DiceExpression | string, purpose?: string): RollRecord {
+        const parsed = typeof expression === 'string' ? parseDiceNotation(expression) : expression
+        const dice = Array.from({ length: parsed.count }, () => this.rollDie(parsed.sides))
+        const natural = sum(keptDice(dice, parsed))
+        const record: RollRecord = {
+            notation: formatDiceNotation(parsed),
+            count: parsed.count,
+            sides: parsed.sides,
+            dice,
+            natural,
+            modifier: parsed.modifier,
+            total: natural + parsed.modifier,
+            ...(purpose ? { purpose } : {})
+        }
+        this.log.push(record)
+        return record
+    }
+
+    private rollDie(sides: number): number {
+        return Math.floor(this.rng() * sides) + 1
+    }
+}
+
+/** Dice that count toward the natural total (all of them unless the expression keeps highest / lowest). */
+export function keptDice(dice: readonly number[], expression: Pick<DiceExpression, 'keep'>): number[] {
+    if (!expression.keep) return [...dice]
+    const sorted = [...dice].sort((a, b) => (expression.keep!.which === 'highest' ? b - a : a - b))
+    return sorted.slice(0, expression.keep.count)
+}
+
+/**
+ * Re-roll a recorded log from its seed and compare die by die.
+ * Returns the index of the first record that does not reproduce, or -1 when the whole log replays.
+ */
+export function replayRollLog(seed: string, records: readonly Pick<RollRecord, 'notation' | 'dice'>[]): number {
+    const roller = new DiceRoller(seed)
+    for (let i = 0; i < records.length; i++) {
+        const replayed = roller.roll(records[i].notation)
+        const expected = records[i].dice
+        if (replayed.dice.length !== expected.length || replayed.dice.some((die, j) => die !== expected[j])) {
+            return i
+        }
+    }
+    return -1
+}
+
+function sum(values: readonly number[]): number {
+    return values.reduce((total, value) => total + value, 0)
+}
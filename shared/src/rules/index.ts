@@ -0,0 +1,6 @@
+// AUTO-GENERATED BARREL: do not edit manually (run scripts/generate-barrels.mjs).
+// Only side-effect-free re-exports allowed here.
+export * from './checks.js'
+export * from './diceNotation.js'
+export * from './diceRoller.js'
+export * from './seededRng.js'
@@ -0,0 +1,32 @@
+/**
+ * Seeded random numbers for game mechanics.
+ *
+ * Every roll in the rules module draws from one of these generators so that the same seed
+ * replays the same sequence (audits, AgentReplayHarness-style replays, tests). Never use
+ * Math.random() for mechanics.
+ */
+
+/** Source of floats in [0, 1). */
+export type RandomSource = () => number
+
+/** djb2 hash (32-bit unsigned) used to turn a string seed into generator state. */
+export function hashSeed(seed: string): number {
+    let hash = 5381
+    for (let i = 0; i < seed.length; i++) {
+        hash = ((hash << 5) + hash) ^ seed.charCodeAt(i)
+        hash = hash >>> 0
+    }
+    return hash
+}
+
+/** mulberry32 — small, fast 32-bit PRNG; same seed → same sequence. */
+export function createSeededRng(seed: string): RandomSource {
+    let state = hashSeed(seed)
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0
+        let t = state
+        t = Math.imul(t ^ (t >>> 15), t | 1)
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+    }
+}
@@ -32,6 +32,7 @@ export const GAME_EVENT_NAMES = [
     'PlayerDoc.Upsert', // PlayerDoc upsert operation to SQL API
     // Player traversal + location access (non-genesis)
     'Location.Get',
+    'Location.History.Listed', // Location event timeline requested - properties: { locationId, count?, status }
     // Deprecated (2025-10-30): Location.Move → replaced by Navigation.Move.Success / Navigation.Move.Blocked.
     // Retained until historical retention window (180d) expires; do not emit new events.
     'Location.Move',
@@ -43,6 +44,25 @@ export const GAME_EVENT_NAMES = [
     'Navigation.Move.Blocked',
     'Navigation.Move.Locked', // Soft denial: exit exists but is locked - properties: { fromLocationId, direction, playerId? }
     'Navigation.Look.Issued',
+    'Navigation.Look.Degraded', // A look section (items / npcs / players) could not be read and is listed empty (the look still succeeds) - properties: { locationId, section, error }
+    // Exit lock/unlock (key items in inventory)
+    'Navigation.Exit.LockChanged', // Exit locked/unlocked by a player - properties: { playerId, locationId, direction, lockState, keyItemId, status }
+    'Navigation.Exit.LockBlocked', // Lock/unlock rejected - properties: { playerId?, locationId?, direction?, lockState, status, reason }
+    // Multi-leg travel (`travel to <place>`)
+    'Navigation.Travel.Completed', // travel-to journey reached its destination - properties: { playerId, fromLocationId, toLocationId, legs, travelledMs, status }
+    'Navigation.Travel.Stopped', // travel-to journey stopped early at a leg - properties: { playerId, fromLocationId, toLocationId, stoppedAtLocationId, legsCompleted, legs, reason, status }
+    'Navigation.Travel.Blocked', // travel-to rejected before any leg - properties: { playerId?, locationId?, destination?, status, reason }
+    // World items (take/drop between location and player inventory)
+    'Item.Take.Success', // Item moved from location into inventory - properties: { playerId, locationId, itemId, status }
+    'Item.Take.Blocked', // Take rejected - properties: { playerId?, locationId?, itemName?, status, reason }
+    'Item.Drop.Success', // Item moved from inventory into location - properties: { playerId, locationId, itemId, status }
+    'Item.Drop.Blocked', // Drop rejected - properties: { playerId?, locationId?, itemName?, status, reason }
+    // Player inventory HTTP API (optimistic concurrency on PlayerDoc.inventoryVersion)
+    'Inventory.Get', // Inventory listed - properties: { playerId, itemCount, inventoryVersion, status }
+    'Inventory.Add.Success', // Item added via inventory API - properties: { playerId, locationId, itemId, inventoryVersion, status }
+    'Inventory.Add.Blocked', // Add rejected by world rules or version conflict - properties: { playerId?, locationId?, itemId?, status, reason }
+    'Inventory.Remove.Success', // Item removed via inventory API - properties: { playerId, locationId, itemId, inventoryVersion, status }
+    'Inventory.Remove.Blocked', // Remove rejected by world rules or version conflict - properties: { playerId?, locationId?, itemId?, status, reason }
     // Exit generation fallback (Issue #35 - N4)
     'Navigation.Exit.GenerationRequested',
     // Exit description tailoring (Exit Language Contract - ai-prompt-engineering.md)
@@ -81,6 +101,7 @@ export const GAME_EVENT_NAMES = [
     'World.Layer.Added',
     'World.Exit.Created',
     'World.Exit.Removed',
+    'World.Exit.LockChanged', // Exit edge lock state applied by World.Exit.LockChanged handler - properties: { locationId, direction, lockState, reciprocalUpdated }
     // Batch generation telemetry (Issue #759 - BatchGenerateHandler foundation)
     'World.BatchGeneration.Started', // Batch generation initiated - properties: { rootLocationId, batchSize, terrain, correlationId }
     'World.BatchGeneration.Completed', // Batch generation completed - properties: { rootLocationId, correlationId }
@@ -115,8 +136,18 @@ export const GAME_EVENT_NAMES = [
     'World.Event.DeadLettered',
     'World.Event.RegistryCheckFailed',
     'World.Event.RegistryWriteFailed',
+    'World.Event.TimelineWriteFailed', // Processed event could not be written to the world event timeline (processing continues)
+    'World.Event.EnqueueFailed', // Event for an already durable player action could not be enqueued (the action still succeeds) - properties: { eventType, playerId, error }
     // Handler invocation (Issue #258 - type-specific payload handlers)
     'World.Event.HandlerInvoked',
+    // Future-dated world events (WorldEventSchedulerService)
+    'World.Event.Scheduled', // Event scheduled - properties: { eventId, eventType, scheduledForUtc | scheduledForTick, created }
+    'World.Event.Rescheduled', // Scheduled event moved - properties: { eventId, eventType, scheduledForUtc | scheduledForTick }
+    'World.Event.ScheduleCancelled', // Scheduled event withdrawn before dispatch - properties: { eventId, eventType }
+    'World.Event.Dispatched', // Due event published to the queue - properties: { eventId, eventType, scheduledForUtc + lateMs | scheduledForTick + lateTicks }
+    'World.Event.SchedulerRun', // Scheduler job ran - properties: { dueCount, dispatched, failed, currentTick, durationMs }
+    // Dead-letter redrive (DeadLetterRedriveService)
+    'World.Event.DeadLetterRedrive', // Operator redrive attempt on a dead-letter record - properties: { recordId, outcome, eventType?, eventId?, causationId? }
     'Prompt.Genesis.Issued',
     'Prompt.Genesis.Rejected',
     'Prompt.Genesis.Crystallized',
@@ -127,9 +158,16 @@ export const GAME_EVENT_NAMES = [
     'Extension.Hook.Invoked',
     'Extension.Hook.Veto',
     'Extension.Hook.Mutation',
-    'Multiplayer.LayerDelta.Sent',
+    'Multiplayer.LayerDelta.Sent', // Live location event delivered to open streams - properties: { locationId, kind, subscribers }
     'Multiplayer.LocationSnapshot.HashMismatch',
     'Multiplayer.Movement.Latency',
+    'Multiplayer.Presence.Updated', // Player presence projection refreshed - properties: { playerId, locationId, source }
+    'Multiplayer.Presence.Failed', // Presence refresh failed (move / bootstrap still succeed) - properties: { playerId, source, error }
+    'Multiplayer.Presence.Listed', // Online players listed (`who`) - properties: { count, status }
+    'Multiplayer.Stream.Opened', // Live location event stream opened - properties: { playerId, locationId }
+    'Multiplayer.Stream.Closed', // Live location event stream closed - properties: { playerId, locationId, eventsSent, durationMs, reason }
+    'Multiplayer.Chat.Sent', // Player message delivered (say / shout / whisper) - properties: { playerId, locationId, mode, heardBy, locationsReached, filtered }
+    'Multiplayer.Chat.Blocked', // Player message refused - properties: { playerId, mode, reason, status }
     // Secrets / infrastructure (still game domain telemetry, not build telemetry)
     'Secret.Fetch.Retry',
     'Secret.Cache.Hit',
@@ -190,6 +228,9 @@ export const GAME_EVENT_NAMES = [
     // World Clock events - properties: { durationMs, newTick, reason }
     'World.Clock.Advanced', // World clock advanced by duration
     'World.Clock.Queried', // World clock queried
+    // Weather simulation (per WEATHER_ZONE realm)
+    'World.Weather.Advanced', // Weather job ran over all zones - properties: { zoneCount, spellsWritten, currentTick, durationMs }
+    'World.Weather.Changed', // New weather spell written for a zone - properties: { zoneId, state, previous, fromTick, toTick }
     // Player Clock events
     'Player.Clock.Advanced', // Player clock advanced by action - properties: { playerId, actionType, durationMs, newTick }
     'Player.Clock.DriftApplied', // Idle drift applied to player clock - properties: { playerId, realTimeElapsedMs, driftMs, newTick }
@@ -203,7 +244,7 @@ export const GAME_EVENT_NAMES = [
     'MCP.Throttled', // MCP request throttled/rate-limited - properties: { toolName, clientAppId, throttleReason, retryAfterMs }
     'MCP.Failed', // MCP unexpected failure - properties: { toolName, clientAppId, failureReason, errorCode }
     // World map graph telemetry (WorldMap UI)
-    'World.Map.Fetched', // World graph fetched for map view - properties: { nodeCount, edgeCount, latencyMs }
+    'World.Map.Fetched', // World graph fetched for map view - properties: { nodeCount, edgeCount, latencyMs, persistenceMode, view ('full'|'player') }
     // Intent parser (PI-0 heuristic baseline - no AI)
     'PlayerCommand.Received', // Raw command received for parsing - properties: { rawLength, playerId?, locationId?, traceId? }
     'PlayerCommand.ParseSucceeded', // Command parsed successfully - properties: { intentCount, ambiguityCount, sequenceType, latencyMs }
@@ -211,6 +252,10 @@ export const GAME_EVENT_NAMES = [
     'PlayerCommand.AmbiguityDetected', // Ambiguities flagged during parse - properties: { ambiguityCount, criticalCount }
     // HTTP command resolution endpoint (POST /api/player/command)
     'PlayerCommand.Resolved', // Command resolved to an action plan by the HTTP endpoint - properties: { actionKind, canonicalWritesPlanned, needsClarification, correlationId, latencyMs }
+    'PlayerCommand.Chain.Executed', // Multi-intent command chain executed step by step (POST /api/player/{playerId}/command) - properties: { playerId, stepCount, executedCount, completed, planSource: 'client' | 'parsed', stoppedAt?, stopStatus?, latencyMs }
+    'PlayerCommand.Clarification.Requested', // Resolver asked the player a clarification question - properties: { slot, optionCount, reason, correlationId }
+    'PlayerCommand.Clarification.Resolved', // Player's answer filled the pending question - properties: { slot, answerKind, correlationId }
+    'PlayerCommand.Clarification.Dropped', // Pending question discarded without an answer - properties: { slot, reason: 'expired' | 'superseded' | 'discarded', correlationId }
     // Agent proposal lifecycle (minimal agent runtime - sense→decide→propose loop)
     'Agent.Proposal.Received', // Proposal submission received - properties: { proposalId, actorKind, actionCount, decisionLatencyMs, proposalCorrelationId, causationId? }
     'Agent.Proposal.Accepted', // Proposal passed all validation checks - properties: { proposalId, actorKind, actionCount, decisionLatencyMs, proposalCorrelationId }
@@ -233,7 +278,37 @@ export const GAME_EVENT_NAMES = [
     'Agent.Step.DecisionMade', // Decision made - properties: { entityId, locationId, actionType, reason, correlationId }
     'Agent.Step.ActionApplied', // Action applied successfully - properties: { entityId, locationId, actionType, scopeKey, layerId?, proposalId, correlationId }
     'Agent.Step.ActionRejected', // Action rejected by validator - properties: { entityId, locationId, proposalId, rejectionCount, firstRejectionCode, correlationId }
-    'Agent.Step.Skipped' // Step skipped (cooldown guard or no-op decision) - properties: { entityId, locationId, reason, correlationId }
+    'Agent.Step.Skipped', // Step skipped (cooldown guard or no-op decision) - properties: { entityId, locationId, reason, correlationId }
+    // NPC behaviour ticks (NPC.Tick handler - wander / schedule / react)
+    'NPC.Tick.Evaluated', // Behaviour decided for a tick - properties: { npcId, locationId, tick, behavior, decision, reason, correlationId }
+    'NPC.Tick.Skipped', // Tick not evaluated (noop) - properties: { npcId, tick, reason: 'npc-not-found' | 'duplicate-tick', correlationId }
+    'NPC.Tick.ActionRejected', // Tick proposal rejected by validator - properties: { npcId, proposalId, rejectionCount, firstRejectionCode, correlationId }
+    'NPC.Moved', // NPC moved along an exit - properties: { npcId, fromLocationId, toLocationId, direction, tick, correlationId }
+    'NPC.Move.Blocked', // NPC move not applied - properties: { npcId, fromLocationId, toLocationId, reason, correlationId }
+    // NPC conversations (talk command - persisted per-player dialogue sessions)
+    'NPC.Dialogue.Generated', // Dialogue line produced - properties: { npcId, source: 'ai' | 'fallback', reason?, latencyMs, correlationId }
+    'NPC.Talk.Success', // Player spoke with an NPC - properties: { playerId, npcId, locationId, source, turnCount, status }
+    'NPC.Talk.Blocked', // Talk rejected - properties: { playerId?, locationId?, npcName?, status, reason }
+    // Quests (Quest.Proposed handler, objective progress from movement / pickup / dialogue, journal API)
+    'Quest.Accepted', // Proposed quest persisted for a player - properties: { questId, playerId, objectiveCount, rewardCount, correlationId }
+    'Quest.Objective.Progressed', // Objective advanced - properties: { questId, playerId, objectiveId, kind, progress, required, completed }
+    'Quest.Completed', // All objectives done and rewards granted - properties: { questId, playerId, rewardCount }
+    'Quest.Progress.Failed', // Progress recording failed (non-blocking) - properties: { playerId, kind, error }
+    'Quest.List', // Quest journal requested - properties: { playerId, questCount?, activeCount?, status }
+    // Combat (attack / defend / flee - deterministic seeded rounds, AI narration only)
+    'Combat.Round.Resolved', // Round resolved - properties: { playerId, npcId, locationId, action, round, outcome, playerHp, npcHp, status }
+    'Combat.Action.Blocked', // Combat command rejected - properties: { playerId?, npcId?, locationId?, action, status, reason }
+    'Combat.Encounter.Ended', // Encounter finished - properties: { playerId, npcId, locationId, outcome, rounds }
+    'Player.Status.Get', // Player status requested - properties: { playerId, health?, defeated?, inEncounter?, status }
+    // Passing time (wait / rest / sleep through the temporal framework)
+    'Player.Time.Passed', // Player clock advanced by a wait command - properties: { playerId, locationId, action, durationMs, reconciliationMethod, hpRestored, status }
+    'Player.Time.Blocked', // Wait command rejected - properties: { playerId, locationId?, action, status, reason }
+    // Discovery ledger (per-player seen locations, written on move / look; `discoveries`)
+    'Discovery.Recorded', // Location sighting recorded - properties: { playerId, locationId, source, firstVisit, visitCount, descriptionChanged }
+    'Discovery.Record.Failed', // Sighting not recorded (move / look still succeed) - properties: { playerId, locationId, source, error }
+    'Discovery.Journal.Listed', // Discovery journal requested - properties: { playerId, count?, total?, status }
+    'Player.Verbosity.Changed', // Player chose brief / verbose / superbrief descriptions - properties: { playerId, verbosity, previous }
+    'Player.Preferences.Updated' // Player changed preferences (Settings page) - properties: { playerId, fields }
 ] as const
 
 // Future deprecations or renames should follow the pattern above:
@@ -73,6 +73,8 @@ export class ActionRegistry implements IActionRegistry {
             { actionType: 'look', baseDurationMs: 5000 }, // 5 seconds
             { actionType: 'examine', baseDurationMs: 30000 }, // 30 seconds
             { actionType: 'rest', baseDurationMs: 28800000 }, // 8 hours
+            { actionType: 'wait', baseDurationMs: 600000 }, // 10 minutes (bare `wait`)
+            { actionType: 'sleep', baseDurationMs: 28800000 }, // 8 hours
             { actionType: 'battle_round', baseDurationMs: 6000 }, // 6 seconds (D&D convention)
             { actionType: 'idle', baseDurationMs: 0 } // No time cost (drift applies instead)
         ]
@@ -3,3 +3,6 @@ export * from './config.js'
 export * from './narrativeLayer.js'
 export * from './playerClockTypes.js'
 export * from './reconcileTypes.js'
+export * from './timeOfDay.js'
+export * from './waitDuration.js'
+export * from './weather.js'
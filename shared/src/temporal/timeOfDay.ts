@@ -0,0 +1,94 @@
+/**
+ * Time of day: the world calendar derived from the world clock.
+ *
+ * World ticks are milliseconds; tick 0 is midnight at the start of day 1 and a day is WORLD_DAY_MS. The hour
+ * falls into one of four buckets — the `timeBucket` that description layers are filtered by — and a finer
+ * label for prose. Each bucket has default lighting, worded differently indoors and out.
+ *
+ *   night 20:00–05:00 · dawn 05:00–08:00 · day 08:00–17:00 · dusk 17:00–20:00
+ */
+
+export const WORLD_HOUR_MS = 3_600_000
+export const WORLD_DAY_MS = 24 * WORLD_HOUR_MS
+
+export type TimeBucket = 'dawn' | 'day' | 'dusk' | 'night'
+
+export const TIME_BUCKETS: readonly TimeBucket[] = ['dawn', 'day', 'dusk', 'night'] as const
+
+export function isTimeBucket(value: unknown): value is TimeBucket {
+    return typeof value === 'string' && (TIME_BUCKETS as readonly string[]).includes(value)
+}
+
+/** Finer label for prose: the day bucket splits into morning and afternoon. */
+export type TimeOfDayLabel = 'dawn' | 'morning' | 'afternoon' | 'dusk' | 'night'
+
+export interface WorldTimeOfDay {
+    /** Day number, starting at 1 */
+    day: number
+    /** Hour of the day (0–23) */
+    hour: number
+    /** Minute of the hour (0–59) */
+    minute: number
+    bucket: TimeBucket
+    label: TimeOfDayLabel
+}
+
+/** Start hour of each bucket within a day, in order (night wraps past midnight). */
+const BUCKET_STARTS: ReadonlyArray<[number, TimeBucket]> = [
+    [5, 'dawn'],
+    [8, 'day'],
+    [17, 'dusk'],
+    [20, 'night']
+]
+
+function bucketForHour(hour: number): TimeBucket {
+    let bucket: TimeBucket = 'night'
+    for (const [start, name] of BUCKET_STARTS) {
+        if (hour >= start) bucket = name
+    }
+    return bucket
+}
+
+/** The world calendar at a tick. */
+export function worldTimeOfDay(tick: number): WorldTimeOfDay {
+    const dayIndex = Math.floor(tick / WORLD_DAY_MS)
+    const withinDay = tick - dayIndex * WORLD_DAY_MS
+    const hour = Math.floor(withinDay / WORLD_HOUR_MS)
+    const minute = Math.floor((withinDay % WORLD_HOUR_MS) / 60_000)
+    const bucket = bucketForHour(hour)
+    const label: TimeOfDayLabel = bucket === 'day' ? (hour < 12 ? 'morning' : 'afternoon') : bucket
+    return { day: dayIndex + 1, hour, minute, bucket, label }
+}
+
+/** First and last tick (inclusive) of the time bucket the tick falls in. */
+export function timeBucketSpan(tick: number): { fromTick: number; toTick: number } {
+    const dayStart = Math.floor(tick / WORLD_DAY_MS) * WORLD_DAY_MS
+    const hour = worldTimeOfDay(tick).hour
+    const starts = [-4, ...BUCKET_STARTS.map(([start]) => start), 29]
+    let index = 0
+    while (starts[index + 1] <= hour) index++
+    return { fromTick: dayStart + starts[index] * WORLD_HOUR_MS, toTick: dayStart + starts[index + 1] * WORLD_HOUR_MS - 1 }
+}
+
+/** Whether lighting is seen indoors or under the open sky. */
+export type LightingSetting = 'interior' | 'exterior'
+
+/** Default lighting per bucket and setting: a short label (atmosphere) and a prose line (descriptions). */
+export const DEFAULT_LIGHTING: Record<TimeBucket, Record<LightingSetting, { label: string; text: string }>> = {
+    dawn: {
+        exterior: { label: 'dawn light', text: 'The first pale light of dawn is spreading across the sky.' },
+        interior: { label: 'grey dawn light', text: 'Grey dawn light creeps in through the gaps and shutters.' }
+    },
+    day: {
+        exterior: { label: 'daylight', text: 'Daylight lies plainly over everything.' },
+        interior: { label: 'daylight', text: 'Daylight falls in through the windows.' }
+    },
+    dusk: {
+        exterior: { label: 'twilight', text: 'Dusk is settling; long shadows stretch and the light turns amber.' },
+        interior: { label: 'lamplight', text: 'The windows have gone amber with dusk, and the first lamps are being lit.' }
+    },
+    night: {
+        exterior: { label: 'darkness', text: 'Night has fallen; beyond the nearest lights, the dark is deep.' },
+        interior: { label: 'lamplight', text: 'Lamplight and shadow fill the room; outside, it is full night.' }
+    }
+}
@@ -0,0 +1,111 @@
+/**
+ * Wait duration phrases: "wait 10 minutes", "rest for an hour", "wait half an hour".
+ *
+ * Parses the duration a player typed after a wait verb into milliseconds, and formats a duration
+ * back into the short phrase shown in command output. Phrases without a recognisable amount and
+ * unit ("wait here", "wait a while") parse to undefined so the caller can fall back to the
+ * ActionRegistry default for the action.
+ */
+
+const UNIT_MS: Readonly<Record<string, number>> = {
+    second: 1000,
+    minute: 60000,
+    hour: 3600000,
+    day: 86400000
+}
+
+/** Unit spellings (singular / plural / abbreviations) → canonical unit. */
+const UNIT_ALIASES: Readonly<Record<string, string>> = {
+    s: 'second',
+    sec: 'second',
+    secs: 'second',
+    second: 'second',
+    seconds: 'second',
+    m: 'minute',
+    min: 'minute',
+    mins: 'minute',
+    minute: 'minute',
+    minutes: 'minute',
+    h: 'hour',
+    hr: 'hour',
+    hrs: 'hour',
+    hour: 'hour',
+    hours: 'hour',
+    d: 'day',
+    day: 'day',
+    days: 'day'
+}
+
+const NUMBER_WORDS: Readonly<Record<string, number>> = {
+    a: 1,
+    an: 1,
+    one: 1,
+    two: 2,
+    three: 3,
+    four: 4,
+    five: 5,
+    six: 6,
+    seven: 7,
+    eight: 8,
+    nine: 9,
+    ten: 10,
+    twelve: 12,
+    few: 3,
+    couple: 2
+}
+
+/**
+ * "<amount> <unit>": digits may touch the unit ("10m"); word amounts (number words, "a few",
+ * "a couple of", "half a(n)") need a space so words like "as" are not read as "a s".
+ */
+const DURATION_PATTERN =
+    /\b(?:(\d+(?:\.\d+)?)\s*|(half\s+an?|a\s+few|a\s+couple(?:\s+of)?|[a-z]+)\s+)(seconds?|secs?|s|minutes?|mins?|m|hours?|hrs?|h|days?|d)\b/i
+
+/**
+ * Parse a duration phrase into milliseconds.
+ * @param text Player input (the whole command or just the part after the verb)
+ * @returns Duration in milliseconds, or undefined when no amount + unit is present
+ */
+export function parseWaitDuration(text: string): number | undefined {
+    const match = text.toLowerCase().match(DURATION_PATTERN)
+    if (!match) return undefined
+
+    const [, digits, amountText = '', unitText] = match
+    const unit = UNIT_ALIASES[unitText]
+    if (!unit) return undefined
+
+    let amount: number | undefined
+    if (digits) {
+        amount = Number(digits)
+    } else if (/^half\s/.test(amountText)) {
+        amount = 0.5
+    } else if (/^a\s+few$/.test(amountText)) {
+        amount = NUMBER_WORDS.few
+    } else if (/^a\s+couple/.test(amountText)) {
+        amount = NUMBER_WORDS.couple
+    } else {
+        amount = NUMBER_WORDS[amountText]
+    }
+    if (amount === undefined || !Number.isFinite(amount) || amount <= 0) return undefined
+
+    return Math.round(amount * UNIT_MS[unit])
+}
+
+/**
+ * Format a duration for display using its largest whole unit ("2 hours", "90 minutes", "1 day").
+ * Durations under a second render as "a moment".
+ */
+export function formatWaitDuration(durationMs: number): string {
+    for (const unit of ['day', 'hour', 'minute', 'second']) {
+        const size = UNIT_MS[unit]
+        if (durationMs >= size && durationMs % size === 0) {
+            const count = durationMs / size
+            return `${count} ${unit}${count === 1 ? '' : 's'}`
+        }
+    }
+    if (durationMs < UNIT_MS.second) return 'a moment'
+    const minutes = Math.round(durationMs / UNIT_MS.minute)
+    if (minutes >= 1) return `${minutes} minute${minutes === 1 ? '' : 's'}`
+    const seconds = Math.round(durationMs / UNIT_MS.second)
+    return `${seconds} second${seconds === 1 ? '' : 's'}`
+}
@@ -0,0 +1,93 @@
+/**
+ * Weather: a per-zone state machine advanced in spells.
+ *
+ * Each WEATHER_ZONE realm has one weather state at a time. A spell lasts a few in-game hours; when it
+ * ends, the next state is drawn from the transition weights of the current one (weather drifts
+ * clear → cloudy → rain → storm and back rather than jumping at random). Draws use a seeded generator
+ * keyed by zone and spell start tick, so the same world replays the same weather.
+ */
+import { createSeededRng } from '../rules/seededRng.js'
+
+export type WeatherState = 'clear' | 'cloudy' | 'fog' | 'rain' | 'storm'
+
+export const WEATHER_STATES: readonly WeatherState[] = ['clear', 'cloudy', 'fog', 'rain', 'storm'] as const
+
+export function isWeatherState(value: unknown): value is WeatherState {
+    return typeof value === 'string' && (WEATHER_STATES as readonly string[]).includes(value)
+}
+
+/** Relative chance of each next state, by current state. */
+const WEATHER_TRANSITIONS: Record<WeatherState, Partial<Record<WeatherState, number>>> = {
+    clear: { clear: 5, cloudy: 3, fog: 1 },
+    cloudy: { clear: 3, cloudy: 2, fog: 1, rain: 3 },
+    fog: { clear: 2, cloudy: 3, fog: 1 },
+    rain: { cloudy: 3, rain: 2, storm: 2 },
+    storm: { rain: 3, cloudy: 1 }
+}
+
+/** Weather of a zone that has none yet. */
+const INITIAL_WEATHER: Partial<Record<WeatherState, number>> = { clear: 4, cloudy: 3, fog: 1, rain: 2 }
+
+const HOUR_MS = 3_600_000
+
+/** Spell length range per state, in in-game hours ([min, max)). Storms and fog pass quicker than fair weather. */
+const SPELL_HOURS: Record<WeatherState, [number, number]> = {
+    clear: [4, 10],
+    cloudy: [3, 8],
+    fog: [1, 4],
+    rain: [2, 6],
+    storm: [1, 3]
+}
+
+/** One sentence per state, written as the layer value (what look and the narrative tools read). */
+export const WEATHER_DESCRIPTIONS: Record<WeatherState, string> = {
+    clear: 'The sky is clear.',
+    cloudy: 'Grey clouds hang low overhead.',
+    fog: 'A thick fog blurs everything beyond a few paces.',
+    rain: 'A steady rain is falling.',
+    storm: 'A storm rages; wind drives the rain sideways and thunder rolls.'
+}
+
+/** Short noun phrase per state, for prose templates ("… settles in with {weather}"). */
+export const WEATHER_PHRASES: Record<WeatherState, string> = {
+    clear: 'clear skies',
+    cloudy: 'low grey cloud',
+    fog: 'thick fog',
+    rain: 'steady rain',
+    storm: 'a driving storm'
+}
+
+export interface WeatherSpell {
+    state: WeatherState
+    /** World clock tick the spell starts at (inclusive) */
+    fromTick: number
+    /** Last world clock tick of the spell (inclusive, like a layer's effectiveToTick); the next spell starts one tick later */
+    toTick: number
+    /** Seed the spell was drawn from (replays the same spell) */
+    seed: string
+}
+
+function weightedPick(weights: Partial<Record<WeatherState, number>>, roll: number): WeatherState {
+    const entries = WEATHER_STATES.filter((state) => (weights[state] ?? 0) > 0).map((state) => [state, weights[state]!] as const)
+    const total = entries.reduce((sum, [, weight]) => sum + weight, 0)
+    let threshold = roll * total
+    for (const [state, weight] of entries) {
+        if (threshold < weight) return state
+        threshold -= weight
+    }
+    return entries[entries.length - 1][0]
+}
+
+/**
+ * Draw the zone's next spell, starting at `fromTick`.
+ * @param zoneId - Weather zone realm id
+ * @param previous - State of the spell that just ended (null when the zone has no weather yet)
+ */
+export function nextWeatherSpell(zoneId: string, previous: WeatherState | null, fromTick: number): WeatherSpell {
+    const seed = `weather:${zoneId}:${fromTick}`
+    const rng = createSeededRng(seed)
+    const state = weightedPick(previous ? WEATHER_TRANSITIONS[previous] : INITIAL_WEATHER, rng())
+    const [minHours, maxHours] = SPELL_HOURS[state]
+    const durationMs = Math.round((minHours + rng() * (maxHours - minHours)) * HOUR_MS)
+    return { state, fromTick, toTick: fromTick + durationMs - 1, seed }
+}
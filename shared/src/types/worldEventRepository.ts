@@ -8,6 +8,7 @@
  * Scope Key Patterns:
  * - `loc:<locationId>` - Events scoped to a location
  * - `player:<playerId>` - Events scoped to a player
+ * - `realm:<realmId>` - Events at a location within a realm (recorded under every containing realm)
  * - `global:<category>` - System-wide events (e.g., 'global:maintenance', 'global:tick')
  *
  * This model is distinct from WorldEventEnvelope (queue contract):
@@ -20,8 +21,14 @@
 /**
  * Event status for SQL-persisted event records.
  * Tracks processing lifecycle state.
+ *
+ * Future-dated events (see WorldEventSchedulerService) move scheduled → dispatched when they are published
+ * to the queue, or scheduled → cancelled when an operator withdraws them.
  */
-export type EventStatus = 'pending' | 'processed' | 'failed' | 'dead_lettered'
+export type EventStatus = 'pending' | 'processed' | 'failed' | 'dead_lettered' | 'scheduled' | 'dispatched' | 'cancelled'
+
+/** Scope key (partition) holding future-dated events until they are dispatched. */
+export const SCHEDULED_EVENTS_SCOPE_KEY = 'global:scheduled'
 
 /**
  * World event record stored in SQL API for event history.
@@ -77,6 +84,12 @@ export interface WorldEventRecord {
 
     /** Schema version for backward compatibility */
     version: number
+
+    /** Scheduled events: wall-clock time (ISO 8601) at which the event is due (exclusive with scheduledForTick) */
+    scheduledForUtc?: string
+
+    /** Scheduled events: world clock tick at which the event is due (exclusive with scheduledForUtc) */
+    scheduledForTick?: number
 }
 
 /**
@@ -172,6 +185,17 @@ export interface IWorldEventRepository {
      * @returns The event record or null if not found
      */
     getByIdempotencyKey(idempotencyKey: string): Promise<WorldEventRecord | null>
+
+    /**
+     * Get scheduled events that are due (single-partition query on SCHEDULED_EVENTS_SCOPE_KEY).
+     * An event is due when its scheduledForUtc is at or before `nowUtc`, or its scheduledForTick is at or
+     * before `currentTick`.
+     * @param nowUtc - Current wall-clock time (ISO 8601)
+     * @param currentTick - Current world clock tick
+     * @param limit - Maximum number of events (default: 100)
+     * @returns Due events with status 'scheduled', in the order they were scheduled (ingestedUtc)
+     */
+    getDueScheduled(nowUtc: string, currentTick: number, limit?: number): Promise<WorldEventRecord[]>
 }
 
 /**
@@ -192,6 +216,15 @@ export function buildPlayerScopeKey(playerId: string): string {
     return `player:${playerId}`
 }
 
+/**
+ * Utility: Build scope key for realm events.
+ * @param realmId - Realm GUID
+ * @returns Scope key string (e.g., 'realm:abc123...')
+ */
+export function buildRealmScopeKey(realmId: string): string {
+    return `realm:${realmId}`
+}
+
 /**
  * Utility: Build scope key for global system events.
  * @param category - Event category (e.g., 'maintenance', 'tick')
@@ -206,12 +239,12 @@ export function buildGlobalScopeKey(category: string): string {
  * @param scopeKey - Scope key string
  * @returns Parsed scope components or null if invalid format
  */
-export function parseScopeKey(scopeKey: string): { type: 'loc' | 'player' | 'global'; id: string } | null {
-    const match = scopeKey.match(/^(loc|player|global):(.+)$/)
+export function parseScopeKey(scopeKey: string): { type: 'loc' | 'player' | 'realm' | 'global'; id: string } | null {
+    const match = scopeKey.match(/^(loc|player|realm|global):(.+)$/)
     if (!match) return null
 
     return {
-        type: match[1] as 'loc' | 'player' | 'global',
+        type: match[1] as 'loc' | 'player' | 'realm' | 'global',
         id: match[2]
     }
 }
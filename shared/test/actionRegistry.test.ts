@@ -13,6 +13,8 @@ test('getDuration: returns base duration for known action without context', () =
     assert.equal(registry.getDuration('look'), 5000) // 5 seconds
     assert.equal(registry.getDuration('examine'), 30000) // 30 seconds
     assert.equal(registry.getDuration('rest'), 28800000) // 8 hours
+    assert.equal(registry.getDuration('wait'), 600000) // 10 minutes
+    assert.equal(registry.getDuration('sleep'), 28800000) // 8 hours
     assert.equal(registry.getDuration('battle_round'), 6000) // 6 seconds
     assert.equal(registry.getDuration('idle'), 0) // 0 seconds
     assert.equal(registry.getDuration('move_overland'), 3600000) // 1 hour
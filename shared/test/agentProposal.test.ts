@@ -209,7 +209,8 @@ describe('ProposedAction allow-list', () => {
         assert.ok(PROPOSAL_ALLOWED_ACTION_TYPES.includes('Ambience.Generate'))
         assert.ok(PROPOSAL_ALLOWED_ACTION_TYPES.includes('Layer.Add'))
         assert.ok(PROPOSAL_ALLOWED_ACTION_TYPES.includes('NPC.Dialogue'))
-        assert.equal(PROPOSAL_ALLOWED_ACTION_TYPES.length, 3)
+        assert.ok(PROPOSAL_ALLOWED_ACTION_TYPES.includes('NPC.Move'))
+        assert.equal(PROPOSAL_ALLOWED_ACTION_TYPES.length, 4)
     })
 })
 
@@ -258,6 +259,43 @@ describe('validateAgentProposal', () => {
         assert.equal(result.rejectionReasons[0].code, ProposalRejectionCode.MISSING_REQUIRED_PARAM)
     })
 
+    it('NPC.Move missing destination produces structured rejection', () => {
+        const bad: AgentProposalEnvelope = {
+            ...BASE_PROPOSAL,
+            actor: { kind: 'npc' },
+            proposedActions: [
+                {
+                    actionType: 'NPC.Move',
+                    scopeKey: 'loc:44444444-4444-4444-8444-444444444444',
+                    params: { npcId: '55555555-5555-4555-8555-555555555555', fromLocationId: '44444444-4444-4444-8444-444444444444' }
+                }
+            ]
+        }
+        const result = validateAgentProposal(bad)
+        assert.equal(result.outcome, 'rejected')
+        assert.equal(result.rejectionReasons.length, 1)
+        assert.equal(result.rejectionReasons[0].code, ProposalRejectionCode.MISSING_REQUIRED_PARAM)
+        assert.match(result.rejectionReasons[0].message, /toLocationId/)
+    })
+
+    it('NPC.Dialogue addressed to a player without a line is rejected', () => {
+        const bad: AgentProposalEnvelope = {
+            ...BASE_PROPOSAL,
+            actor: { kind: 'npc' },
+            proposedActions: [
+                {
+                    actionType: 'NPC.Dialogue',
+                    scopeKey: 'loc:44444444-4444-4444-8444-444444444444',
+                    params: { npcId: '55555555-5555-4555-8555-555555555555', playerId: '66666666-6666-4666-8666-666666666666' }
+                }
+            ]
+        }
+        const result = validateAgentProposal(bad)
+        assert.equal(result.outcome, 'rejected')
+        assert.equal(result.rejectionReasons.length, 1)
+        assert.match(result.rejectionReasons[0].message, /params\.line/)
+    })
+
     it('rejection reasons include action-level context for telemetry', () => {
         const bad: AgentProposalEnvelope = {
             ...BASE_PROPOSAL,
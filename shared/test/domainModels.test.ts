@@ -1,6 +1,18 @@
 import assert from 'node:assert'
 import test from 'node:test'
-import { DIRECTIONS, err, isDirection, isWorldEventStatus, isWorldEventType, ok } from '../src/domainModels.js'
+import {
+    canTransitionQuest,
+    DIRECTIONS,
+    err,
+    isDirection,
+    isQuestObjectiveKind,
+    isWorldEventStatus,
+    isWorldEventType,
+    mergePlayerPreferences,
+    ok,
+    parsePlayerPreferencesPatch,
+    resolvePlayerPreferences
+} from '../src/domainModels.js'
 
 for (const d of DIRECTIONS) {
     test(`direction valid: ${d}`, () => {
@@ -30,3 +42,38 @@ test('api envelope helpers', () => {
     assert.equal(failure.success, false)
     assert.equal(failure.error.code, 'Bad')
 })
+
+test('quest status transitions', () => {
+    assert.ok(canTransitionQuest('active', 'completed'))
+    assert.ok(canTransitionQuest('active', 'abandoned'))
+    assert.ok(!canTransitionQuest('completed', 'active'))
+    assert.ok(!canTransitionQuest('failed', 'completed'))
+})
+
+test('quest objective kind guard', () => {
+    assert.ok(isQuestObjectiveKind('collect'))
+    assert.ok(!isQuestObjectiveKind('slay'))
+})
+
+test('player preferences resolve over defaults, ignoring invalid stored fields', () => {
+    const resolved = resolvePlayerPreferences({ theme: 'high-contrast', map: { focusDepth: 3 }, textSize: 'huge' as never })
+    assert.equal(resolved.theme, 'high-contrast')
+    assert.equal(resolved.textSize, 'medium')
+    assert.deepEqual(resolved.map, { showOutsideNodes: true, showInsideNodes: true, focusDepth: 3 })
+})
+
+test('player preferences patch validation', () => {
+    assert.deepEqual(parsePlayerPreferencesPatch({ reducedMotion: true, map: { showInsideNodes: false } }), {
+        ok: true,
+        patch: { reducedMotion: true, map: { showInsideNodes: false } }
+    })
+    assert.deepEqual(parsePlayerPreferencesPatch({ verbosity: 'chatty' }), { ok: false, field: 'verbosity' })
+    assert.deepEqual(parsePlayerPreferencesPatch({ map: { focusDepth: 7 } }), { ok: false, field: 'map.focusDepth' })
+    assert.deepEqual(parsePlayerPreferencesPatch({ colour: 'red' }), { ok: false, field: 'colour' })
+    assert.deepEqual(parsePlayerPreferencesPatch([]), { ok: false, field: '(body)' })
+})
+
+test('player preferences patches merge map fields', () => {
+    const merged = mergePlayerPreferences({ theme: 'dark', map: { focusDepth: 2 } }, { map: { showOutsideNodes: false } })
+    assert.deepEqual(merged, { theme: 'dark', map: { focusDepth: 2, showOutsideNodes: false } })
+})
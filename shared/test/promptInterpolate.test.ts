@@ -0,0 +1,46 @@
+import assert from 'node:assert'
+import test from 'node:test'
+import { dirname, join } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { interpolatePromptTemplate, PromptInterpolationError } from '../src/prompts/interpolate.js'
+import { PromptLoader } from '../src/prompts/loader.js'
+import type { PromptTemplateFile } from '../src/prompts/schema.js'
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = dirname(__filename)
+
+const TEMPLATE: PromptTemplateFile = {
+    metadata: { id: 'greeting', version: '1.0.0', name: 'Greeting', description: 'Test template' },
+    template: 'Hello [name], the weather is [weather]. [unknown] stays as-is.',
+    variables: [
+        { name: 'name', description: 'Who to greet', required: true },
+        { name: 'weather', description: 'Weather', required: false, defaultValue: 'fine' }
+    ]
+}
+
+test('interpolate: replaces declared variables and applies defaults', () => {
+    const text = interpolatePromptTemplate(TEMPLATE, { name: 'Tomas' })
+    assert.equal(text, 'Hello Tomas, the weather is fine. [unknown] stays as-is.')
+})
+
+test('interpolate: blank values fall back to the default', () => {
+    const text = interpolatePromptTemplate(TEMPLATE, { name: 'Tomas', weather: '   ' })
+    assert.ok(text.includes('the weather is fine'))
+})
+
+test('interpolate: missing required variable throws with the variable names', () => {
+    assert.throws(
+        () => interpolatePromptTemplate(TEMPLATE, {}),
+        (err: unknown) => err instanceof PromptInterpolationError && err.missingVariables.join(',') === 'name'
+    )
+})
+
+test('interpolate: npc-dialogue-generator template has no placeholders left once required variables are set', async () => {
+    const loader = new PromptLoader({ source: 'files', basePath: join(__dirname, '..', 'src', 'prompts', 'templates'), cacheTtlMs: 0 })
+    const template = await loader.getById('npc-dialogue-generator')
+    assert.ok(template)
+
+    const text = interpolatePromptTemplate(template, { npc_name: 'Old Tomas', faction: 'Ferrymen', alignment: 'Neutral Good' })
+    assert.ok(text.startsWith('Generate dialogue for Old Tomas (Ferrymen, Neutral Good).'))
+    assert.doesNotMatch(text, /\[[a-z_]+\]/)
+})
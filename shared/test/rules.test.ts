@@ -0,0 +1,171 @@
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+import {
+    abilityCheck,
+    abilityModifier,
+    attackRoll,
+    createSeededRng,
+    DiceRoller,
+    DIFFICULTY_CLASSES,
+    formatDiceNotation,
+    keptDice,
+    parseDiceNotation,
+    proficiencyBonus,
+    replayRollLog,
+    resolveRollMode,
+    rollD20,
+    safeParseDiceNotation,
+    SKILL_ABILITIES
+} from '../src/rules/index.js'
+
+describe('dice notation', () => {
+    test('parses count, sides, keep and modifier', () => {
+        assert.deepEqual(parseDiceNotation('d20'), { count: 1, sides: 20, modifier: 0 })
+        assert.deepEqual(parseDiceNotation('2d6+3'), { count: 2, sides: 6, modifier: 3 })
+        assert.deepEqual(parseDiceNotation(' 1D8 - 1 '), { count: 1, sides: 8, modifier: -1 })
+        assert.deepEqual(parseDiceNotation('4d6kh3'), { count: 4, sides: 6, keep: { which: 'highest', count: 3 }, modifier: 0 })
+        assert.deepEqual(parseDiceNotation('2d20kl1+5'), { count: 2, sides: 20, keep: { which: 'lowest', count: 1 }, modifier: 5 })
+    })
+
+    test('rejects malformed or out-of-range notation', () => {
+        for (const notation of ['', 'd', '2d', 'xd6', '2d6+', '0d6', '1d1', '101d6', '2d6kh3', 'd20+1d4']) {
+            const result = safeParseDiceNotation(notation)
+            assert.equal(result.success, false, notation)
+        }
+        assert.throws(() => parseDiceNotation('banana'), /Invalid dice notation/)
+    })
+
+    test('formats to canonical notation that round-trips', () => {
+        for (const notation of ['1d20', '2d6+3', '1d8-1', '4d6kh3', '2d20kl1+5']) {
+            assert.equal(formatDiceNotation(parseDiceNotation(notation)), notation)
+        }
+        assert.equal(formatDiceNotation(parseDiceNotation('d20')), '1d20')
+    })
+})
+
+describe('DiceRoller', () => {
+    test('same seed replays the same rolls; different seeds diverge', () => {
+        const roll = (seed: string) => {
+            const roller = new DiceRoller(seed)
+            return Array.from({ length: 10 }, () => roller.roll('d20').natural)
+        }
+
+        const rolls = roll('player:npc:encounter:1')
+        assert.deepEqual(roll('player:npc:encounter:1'), rolls)
+        assert.notDeepEqual(roll('player:npc:encounter:2'), rolls)
+        assert.ok(rolls.every((r) => r >= 1 && r <= 20))
+    })
+
+    test('records every roll with its dice, natural and total', () => {
+        const roller = new DiceRoller('seed')
+        const damage = roller.roll('2d6+3', 'damage')
+        const plain = roller.roll({ count: 1, sides: 4, modifier: 0 })
+
+        assert.deepEqual(roller.records, [damage, plain])
+        assert.equal(damage.notation, '2d6+3')
+        assert.equal(damage.purpose, 'damage')
+        assert.equal(damage.dice.length, 2)
+        assert.equal(damage.natural, damage.dice[0] + damage.dice[1])
+        assert.equal(damage.total, damage.natural + 3)
+        assert.equal('purpose' in plain, false)
+    })
+
+    test('keeps the highest / lowest dice', () => {
+        assert.deepEqual(keptDice([3, 6, 1, 4], { keep: { which: 'highest', count: 3 } }), [6, 4, 3])
+        assert.deepEqual(keptDice([3, 6, 1, 4], { keep: { which: 'lowest', count: 1 } }), [1])
+        assert.deepEqual(keptDice([3, 6], {}), [3, 6])
+
+        const record = new DiceRoller('stats').roll('4d6kh3')
+        assert.equal(record.dice.length, 4)
+        assert.equal(
+            record.natural,
+            keptDice(record.dice, { keep: { which: 'highest', count: 3 } }).reduce((a, b) => a + b, 0)
+        )
+    })
+
+    test('draws dice from the seeded RNG in order', () => {
+        const rng = createSeededRng('order')
+        const expected = Array.from({ length: 3 }, () => Math.floor(rng() * 6) + 1)
+
+        assert.deepEqual(new DiceRoller('order').roll('3d6').dice, expected)
+    })
+
+    test('replayRollLog verifies a recorded log against its seed', () => {
+        const roller = new DiceRoller('audit')
+        roller.roll('d20+4', 'attack')
+        roller.roll('2d20kh1', 'perception')
+        roller.roll('1d8+1', 'damage')
+        const log = roller.records.map((r) => ({ ...r, dice: [...r.dice] }))
+
+        assert.equal(replayRollLog('audit', log), -1)
+        assert.equal(replayRollLog('other-seed', log), 0)
+
+        const tampered = log.map((r, i) => (i === 2 ? { ...r, dice: [r.dice[0] === 8 ? 1 : r.dice[0] + 1] } : r))
+        assert.equal(replayRollLog('audit', tampered), 2)
+    })
+})
+
+describe('checks', () => {
+    test('ability modifiers and proficiency follow the SRD tables', () => {
+        assert.deepEqual([1, 8, 9, 10, 11, 12, 15, 20, 30].map(abilityModifier), [-5, -1, -1, 0, 0, 1, 2, 5, 10])
+        assert.deepEqual([1, 4, 5, 8, 9, 13, 17, 20].map(proficiencyBonus), [2, 2, 3, 3, 4, 5, 6, 6])
+    })
+
+    test('difficulty classes and skill abilities', () => {
+        assert.deepEqual(Object.values(DIFFICULTY_CLASSES), [5, 10, 15, 20, 25, 30])
+        assert.equal(SKILL_ABILITIES.stealth, 'dexterity')
+        assert.equal(SKILL_ABILITIES.perception, 'wisdom')
+        assert.equal(Object.keys(SKILL_ABILITIES).length, 18)
+    })
+
+    test('advantage and disadvantage cancel', () => {
+        assert.equal(resolveRollMode(true, false), 'advantage')
+        assert.equal(resolveRollMode(false, true), 'disadvantage')
+        assert.equal(resolveRollMode(true, true), 'normal')
+        assert.equal(resolveRollMode(false, false), 'normal')
+    })
+
+    test('advantage keeps the higher d20, disadvantage the lower', () => {
+        for (let i = 0; i < 20; i++) {
+            const adv = rollD20(new DiceRoller(`adv:${i}`), 2, 'advantage')
+            assert.equal(adv.notation, '2d20kh1+2')
+            assert.equal(adv.natural, Math.max(...adv.dice))
+
+            const dis = rollD20(new DiceRoller(`dis:${i}`), 0, 'disadvantage')
+            assert.equal(dis.notation, '2d20kl1')
+            assert.equal(dis.natural, Math.min(...dis.dice))
+        }
+    })
+
+    test('ability checks compare the total against a numeric or named DC', () => {
+        const easy = abilityCheck(new DiceRoller('check'), { modifier: 100, dc: 'nearlyImpossible', purpose: 'athletics' })
+        assert.equal(easy.dc, 30)
+        assert.equal(easy.success, true)
+        assert.equal(easy.mode, 'normal')
+        assert.equal(easy.record.purpose, 'athletics')
+
+        const hopeless = abilityCheck(new DiceRoller('check'), { modifier: -100, dc: 5 })
+        assert.equal(hopeless.success, false)
+        assert.equal(hopeless.natural, easy.natural, 'same seed, same die')
+    })
+
+    test('attack rolls: natural 20 always hits, natural 1 always misses', () => {
+        let sawCritical = false
+        let sawFumble = false
+        for (let i = 0; i < 200 && !(sawCritical && sawFumble); i++) {
+            const result = attackRoll(new DiceRoller(`attack:${i}`), { attackBonus: 0, armorClass: 11 })
+            if (result.natural === 20) {
+                sawCritical = true
+                assert.equal(result.hit && result.critical, true)
+            } else if (result.natural === 1) {
+                sawFumble = true
+                const fumble = attackRoll(new DiceRoller(`attack:${i}`), { attackBonus: 100, armorClass: 11 })
+                assert.equal(fumble.hit, false)
+            } else {
+                assert.equal(result.hit, result.total >= 11)
+                assert.equal(result.critical, false)
+            }
+        }
+        assert.ok(sawCritical && sawFumble, 'seeds should cover both extremes')
+    })
+})
@@ -0,0 +1,35 @@
+import assert from 'node:assert'
+import { describe, test } from 'node:test'
+import { DEFAULT_LIGHTING, TIME_BUCKETS, timeBucketSpan, WORLD_DAY_MS, WORLD_HOUR_MS, worldTimeOfDay } from '../src/temporal/timeOfDay.js'
+
+const at = (day: number, hour: number, minute = 0) => (day - 1) * WORLD_DAY_MS + hour * WORLD_HOUR_MS + minute * 60_000
+
+describe('timeOfDay', () => {
+    test('tick 0 is midnight on day 1', () => {
+        assert.deepStrictEqual(worldTimeOfDay(0), { day: 1, hour: 0, minute: 0, bucket: 'night', label: 'night' })
+    })
+
+    test('maps hours to buckets and labels', () => {
+        assert.strictEqual(worldTimeOfDay(at(1, 4, 59)).bucket, 'night')
+        assert.deepStrictEqual(worldTimeOfDay(at(1, 5)), { day: 1, hour: 5, minute: 0, bucket: 'dawn', label: 'dawn' })
+        assert.strictEqual(worldTimeOfDay(at(1, 9)).label, 'morning')
+        assert.strictEqual(worldTimeOfDay(at(1, 13, 30)).label, 'afternoon')
+        assert.strictEqual(worldTimeOfDay(at(1, 13, 30)).bucket, 'day')
+        assert.strictEqual(worldTimeOfDay(at(1, 17)).bucket, 'dusk')
+        assert.strictEqual(worldTimeOfDay(at(3, 21)).bucket, 'night')
+        assert.strictEqual(worldTimeOfDay(at(3, 21)).day, 3)
+    })
+
+    test('bucket spans cover the bucket, with night wrapping past midnight', () => {
+        assert.deepStrictEqual(timeBucketSpan(at(2, 10)), { fromTick: at(2, 8), toTick: at(2, 17) - 1 })
+        assert.deepStrictEqual(timeBucketSpan(at(2, 22)), { fromTick: at(2, 20), toTick: at(3, 5) - 1 })
+        assert.deepStrictEqual(timeBucketSpan(at(3, 2)), { fromTick: at(2, 20), toTick: at(3, 5) - 1 })
+    })
+
+    test('every bucket has interior and exterior lighting', () => {
+        for (const bucket of TIME_BUCKETS) {
+            assert.ok(DEFAULT_LIGHTING[bucket].interior.text.length > 0)
+            assert.ok(DEFAULT_LIGHTING[bucket].exterior.label.length > 0)
+        }
+    })
+})
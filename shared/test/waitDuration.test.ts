@@ -0,0 +1,40 @@
+import assert from 'node:assert'
+import { describe, test } from 'node:test'
+import { formatWaitDuration, parseWaitDuration } from '../src/temporal/waitDuration.js'
+
+describe('waitDuration', () => {
+    describe('parseWaitDuration', () => {
+        test('parses digit amounts with full and abbreviated units', () => {
+            assert.strictEqual(parseWaitDuration('wait 10 minutes'), 600000)
+            assert.strictEqual(parseWaitDuration('wait 2 hours'), 7200000)
+            assert.strictEqual(parseWaitDuration('wait 30s'), 30000)
+            assert.strictEqual(parseWaitDuration('rest 1.5h'), 5400000)
+            assert.strictEqual(parseWaitDuration('sleep for 2 days'), 172800000)
+        })
+
+        test('parses word amounts', () => {
+            assert.strictEqual(parseWaitDuration('rest for an hour'), 3600000)
+            assert.strictEqual(parseWaitDuration('wait half an hour'), 1800000)
+            assert.strictEqual(parseWaitDuration('wait a few minutes'), 180000)
+            assert.strictEqual(parseWaitDuration('wait a couple of hours'), 7200000)
+            assert.strictEqual(parseWaitDuration('wait three days'), 259200000)
+        })
+
+        test('returns undefined without an amount and unit', () => {
+            assert.strictEqual(parseWaitDuration('wait'), undefined)
+            assert.strictEqual(parseWaitDuration('wait a while'), undefined)
+            assert.strictEqual(parseWaitDuration('wait as long as it takes'), undefined, '"as" is not "a s"')
+            assert.strictEqual(parseWaitDuration('wait 0 minutes'), undefined)
+        })
+    })
+
+    describe('formatWaitDuration', () => {
+        test('uses the largest whole unit', () => {
+            assert.strictEqual(formatWaitDuration(86400000), '1 day')
+            assert.strictEqual(formatWaitDuration(28800000), '8 hours')
+            assert.strictEqual(formatWaitDuration(5400000), '90 minutes')
+            assert.strictEqual(formatWaitDuration(45000), '45 seconds')
+            assert.strictEqual(formatWaitDuration(500), 'a moment')
+        })
+    })
+})
@@ -0,0 +1,43 @@
+import assert from 'node:assert'
+import { describe, test } from 'node:test'
+import { isWeatherState, nextWeatherSpell, WEATHER_DESCRIPTIONS, WEATHER_PHRASES, WEATHER_STATES } from '../src/temporal/weather.js'
+
+describe('weather', () => {
+    test('the same zone, previous state and start tick always draw the same spell', () => {
+        const a = nextWeatherSpell('zone-1', 'rain', 3_600_000)
+        const b = nextWeatherSpell('zone-1', 'rain', 3_600_000)
+        assert.deepStrictEqual(a, b)
+        assert.strictEqual(a.seed, 'weather:zone-1:3600000')
+    })
+
+    test('spells start at the given tick and last between one and ten hours', () => {
+        for (let i = 0; i < 50; i++) {
+            const spell = nextWeatherSpell(`zone-${i}`, null, i * 1000)
+            assert.strictEqual(spell.fromTick, i * 1000)
+            const hours = (spell.toTick - spell.fromTick + 1) / 3_600_000
+            assert.ok(hours >= 1 && hours <= 10, `spell of ${hours}h`)
+            assert.ok(isWeatherState(spell.state))
+        }
+    })
+
+    test('transitions drift: a storm never follows clear skies, and clear skies never follow a storm', () => {
+        for (let tick = 0; tick < 200; tick++) {
+            assert.notStrictEqual(nextWeatherSpell('zone', 'clear', tick).state, 'storm')
+            assert.notStrictEqual(nextWeatherSpell('zone', 'storm', tick).state, 'clear')
+        }
+    })
+
+    test('a zone with no weather yet does not start in a storm', () => {
+        for (let tick = 0; tick < 200; tick++) {
+            assert.notStrictEqual(nextWeatherSpell('zone', null, tick).state, 'storm')
+        }
+    })
+
+    test('every state has a description and a phrase', () => {
+        for (const state of WEATHER_STATES) {
+            assert.ok(WEATHER_DESCRIPTIONS[state].length > 0)
+            assert.ok(WEATHER_PHRASES[state].length > 0)
+        }
+        assert.strictEqual(isWeatherState('hail'), false)
+    })
+})
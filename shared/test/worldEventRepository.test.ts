@@ -7,6 +7,7 @@ import {
     buildLocationScopeKey,
     buildPlayerScopeKey,
     buildGlobalScopeKey,
+    buildRealmScopeKey,
     parseScopeKey,
     type WorldEventRecord,
     type EventStatus,
@@ -212,6 +213,17 @@ describe('World Event Repository Utilities', () => {
             assert.equal(parsed.id, playerId)
         })
 
+        it('should round-trip realm scope keys', () => {
+            const realmId = 'cccccccc-cccc-cccc-cccc-cccccccccccc'
+            const scopeKey = buildRealmScopeKey(realmId)
+            const parsed = parseScopeKey(scopeKey)
+
+            assert.equal(scopeKey, `realm:${realmId}`)
+            assert.ok(parsed)
+            assert.equal(parsed.type, 'realm')
+            assert.equal(parsed.id, realmId)
+        })
+
         it('should round-trip global scope keys', () => {
             const category = 'system-tick'
             const scopeKey = buildGlobalScopeKey(category)